@@ -24,7 +24,9 @@ import { DownloadOptions } from '@/components/results/download-options'
 import { ShareDialog } from '@/components/results/share-dialog'
 import { FeedbackForm } from '@/components/results/feedback-form'
 import { RelatedEnhancements } from '@/components/results/related-enhancements'
+import { VersionPicker } from '@/components/results/version-picker'
 import { useAuth } from '@/contexts/auth-context'
+import type { DocumentAnalysis } from '@/lib/ai/types'
 
 interface ResultsPageProps {
   params: { id: string }
@@ -46,7 +48,7 @@ interface Enhancement {
     }>;
     metadata?: Record<string, unknown>;
   };
-  analysis_data?: any;
+  analysis_data?: DocumentAnalysis;
   improvements?: {
     before: number;
     after: number;
@@ -83,6 +85,7 @@ export default function ResultsPage({ params }: ResultsPageProps) {
   const [showDetails, setShowDetails] = useState(false)
   const [showShareDialog, setShowShareDialog] = useState(false)
   const [activeTab, setActiveTab] = useState('comparison')
+  const [comparison, setComparison] = useState<{ beforeUrl: string; afterUrl: string } | null>(null)
 
   useEffect(() => {
     // Wait for auth to load before fetching enhancement data
@@ -254,10 +257,18 @@ export default function ResultsPage({ params }: ResultsPageProps) {
         </TabsList>
 
         <TabsContent value="comparison" className="space-y-4">
+          <VersionPicker
+            enhancementId={enhancement.id}
+            originalUrl={document.original_url}
+            onChange={setComparison}
+            onReverted={version => setEnhancement({ ...enhancement, enhanced_url: version.enhancedFileUrl })}
+          />
+
           <BeforeAfterSlider
-            beforeUrl={document.original_url}
-            afterUrl={enhancement.enhanced_url}
+            beforeUrl={comparison?.beforeUrl || document.original_url}
+            afterUrl={comparison?.afterUrl || enhancement.enhanced_url}
             documentType={document.type}
+            enhancementId={enhancement.id}
           />
           
           {/* Quick Actions */}
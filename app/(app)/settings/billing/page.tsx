@@ -11,7 +11,6 @@ import { useAuth } from '@/contexts/auth-context';
 import { useToast } from '@/hooks/use-toast';
 import { FeatureErrorBoundary } from '@/components/error-boundaries/FeatureErrorBoundary';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
-import { toast } from 'sonner';
 
 type SubscriptionDetails = {
   id: string;
@@ -61,6 +60,18 @@ export default function BillingPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Upgrade links in usage warnings go straight to checkout
+  useEffect(() => {
+    const upgrade = searchParams.get('upgrade');
+    if (!upgrade || !userDetails) return;
+
+    const tier = Object.values(SUBSCRIPTION_TIERS).find(t => t.id === upgrade);
+    if (tier && tier.priceId && tier.id !== userDetails.subscription_tier) {
+      handleSubscribe(tier);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, userDetails?.subscription_tier]);
+
   const fetchSubscription = async () => {
     await handleAsyncError(
       async () => {
@@ -0,0 +1,7 @@
+'use client';
+
+import { BrandKitSettings } from '@/components/settings/brand-kit-settings';
+
+export default function BrandSettingsPage() {
+  return <BrandKitSettings />;
+}
@@ -21,6 +21,9 @@ export default function SettingsLayout({
           <Link href="/app/settings/profile">
             <TabsTrigger value="profile">Profile</TabsTrigger>
           </Link>
+          <Link href="/app/settings/brand">
+            <TabsTrigger value="brand">Brand Kits</TabsTrigger>
+          </Link>
           <Link href="/app/settings/api">
             <TabsTrigger value="api">API Keys</TabsTrigger>
           </Link>
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { ipBlocker } from '@/lib/utils/ip-blocker'
+import { addressKey } from '@/lib/ip-reputation'
+
+// Only addresses listed in ADMIN_EMAILS can review blocks
+async function requireAdmin(): Promise<NextResponse | null> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim()) || []
+  if (!user.email || !adminEmails.includes(user.email)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  return null
+}
+
+// GET /api/admin/ip-reputation - Blocked IPs, scored IPs and loaded feeds
+export async function GET() {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    // blocked_ips has no user policies, so it is read with the service role
+    const supabase = createServiceClient()
+    const { data: blocked, error } = await supabase
+      .from('blocked_ips')
+      .select('ip, reason, blocked_at, expires_at, metadata')
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('blocked_at', { ascending: false })
+
+    if (error) {
+      throw error
+    }
+
+    const [history, feeds] = await Promise.all([
+      ipBlocker.reputation.list(),
+      ipBlocker.threatFeeds.getFeeds(),
+    ])
+
+    return NextResponse.json({
+      blocked: blocked || [],
+      history: history.slice(0, 100),
+      feeds,
+    })
+  } catch (error) {
+    console.error('IP reputation admin error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load IP reputation' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/ip-reputation?ip= - Unblock an IP and clear its history
+export async function DELETE(request: NextRequest) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const ip = request.nextUrl.searchParams.get('ip')
+    if (!ip || !addressKey(ip)) {
+      return NextResponse.json({ error: 'A valid ip is required' }, { status: 400 })
+    }
+
+    await ipBlocker.forgiveIP(ip)
+
+    return NextResponse.json({ success: true, ip })
+  } catch (error) {
+    console.error('IP unblock error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unblock IP' },
+      { status: 500 }
+    )
+  }
+}
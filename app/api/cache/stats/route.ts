@@ -136,20 +136,19 @@ export async function GET(request: NextRequest) {
     const cacheTypeMetrics = {
       documentCache: {
         configured: !!documentCache,
-        defaultTTL: 43200, // 12 hours default
-        compressionEnabled: true,
-        similarityThreshold: 0.85
+        defaultTTL: documentCache.config.ttl,
+        memoryEntries: documentCache.cache.memorySize,
+        similarityThreshold: documentCache.config.similarityThreshold
       },
       enhancementCache: {
         configured: !!enhancementCache,
-        defaultTTL: 86400, // 24 hours default
-        compressionEnabled: true,
-        similarityThreshold: 0.95
+        defaultTTL: enhancementCache.config.ttl,
+        memoryEntries: enhancementCache.cache.memorySize
       },
       aiResponseCache: {
         configured: !!aiResponseCache,
-        defaultTTL: 3600, // 1 hour default
-        compressionEnabled: true
+        defaultTTL: aiResponseCache.config.ttl,
+        memoryEntries: aiResponseCache.cache.memorySize
       }
     }
 
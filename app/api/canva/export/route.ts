@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { CanvaOAuth } from '@/lib/canva/oauth';
+import { isCanvaAPIConfigured } from '@/lib/canva/api-config';
+import { ExportService } from '@/lib/export/export-service';
+
+/**
+ * Sends an enhanced document to the user's Canva account as a new design
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isCanvaAPIConfigured()) {
+      return NextResponse.json(
+        { error: 'Canva integration is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { documentId } = await request.json();
+    if (!documentId || typeof documentId !== 'string') {
+      return NextResponse.json(
+        { error: 'documentId is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: document } = await supabase
+      .from('documents')
+      .select('id, title, enhanced_url')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!document?.enhanced_url) {
+      return NextResponse.json(
+        { error: 'Enhanced document not found' },
+        { status: 404 }
+      );
+    }
+
+    // Without a connected account, send the user through OAuth first
+    const token = await CanvaOAuth.getStoredToken(user.id);
+    if (!token) {
+      const state = Buffer.from(JSON.stringify({
+        userId: user.id,
+        returnUrl: `/results/${documentId}`
+      })).toString('base64');
+
+      return NextResponse.json({
+        success: false,
+        requiresAuth: true,
+        authUrl: CanvaOAuth.getAuthorizationUrl(state),
+        message: 'Please connect your Canva account to send designs to Canva'
+      });
+    }
+
+    const exportService = new ExportService();
+    const result = await exportService.exportDocument({
+      documentId,
+      userId: user.id,
+      options: { format: 'canva', pushToCanva: true },
+      enhancedUrl: document.enhanced_url,
+      metadata: { title: document.title }
+    });
+
+    if (!result.success || !result.canvaDesign) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to create Canva design' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      design: result.canvaDesign,
+      processingTime: result.processingTime
+    });
+  } catch (error) {
+    console.error('Canva export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send design to Canva' },
+      { status: 500 }
+    );
+  }
+}
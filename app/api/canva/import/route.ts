@@ -5,6 +5,7 @@ import { uploadFile } from '@/lib/r2';
 import { nanoid } from 'nanoid';
 import { CanvaOAuth } from '@/lib/canva/oauth';
 import { CanvaAPIClient } from '@/lib/canva/api-client';
+import { CanvaDesignSync } from '@/lib/canva/design-sync';
 import { isCanvaAPIConfigured, CANVA_API_CONFIG } from '@/lib/canva/api-config';
 
 export async function POST(request: NextRequest) {
@@ -135,6 +136,20 @@ export async function POST(request: NextRequest) {
           throw new Error(`Database error: ${dbError.message}`);
         }
 
+        // Link the design so later edits in Canva trigger a re-enhancement
+        try {
+          const design = await client.getDesign(designId);
+          await CanvaDesignSync.linkDesign({
+            userId: user.id,
+            documentId: document.id,
+            designId,
+            designUrl: url,
+            updatedAt: design.updatedAt,
+          });
+        } catch (linkError) {
+          console.error('Failed to link Canva design:', linkError);
+        }
+
         // Log successful import
         await logCanvaImportAttempt(user.id, url, designId, 'success');
 
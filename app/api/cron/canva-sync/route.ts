@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CanvaDesignSync } from '@/lib/canva/design-sync';
+
+// This endpoint should be called by a cron job, e.g. every 15 minutes,
+// to pick up edits made to linked Canva designs
+
+export async function GET(request: NextRequest) {
+  // Verify the request is from an authorized source
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await CanvaDesignSync.checkForChanges();
+
+    console.log(
+      `Canva design sync checked ${summary.checked} designs, queued ${summary.queued}, failed ${summary.failed}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Canva design sync cron job failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to check linked Canva designs',
+      },
+      { status: 500 }
+    );
+  }
+}
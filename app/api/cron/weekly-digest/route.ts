@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WeeklyDigest } from '@/lib/email/weekly-digest';
+
+// This endpoint should be called by a cron job once a week,
+// e.g. Monday morning, to queue each opted-in user's digest
+
+export async function GET(request: NextRequest) {
+  // Verify the request is from an authorized source
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await WeeklyDigest.sendAll();
+
+    console.log(
+      `Weekly digest queued ${summary.queued} of ${summary.users} emails, skipped ${summary.skipped}, failed ${summary.failed}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Weekly digest cron job failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to queue weekly digests',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -258,7 +258,8 @@ describe('/api/enhance', () => {
           'user-123',
           'enhancement',
           'doc-123',
-          1
+          1,
+          undefined
         )
       })
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { EnhancementService } from '@/lib/enhancement'
 import { checkUsageLimit, trackUsageAfterSuccess } from '@/lib/usage/middleware'
+import { ORGANIZATION_HEADER } from '@/lib/organizations'
 import { createErrorResponse, ErrorFactory, createValidationError } from '@/lib/utils/create-safe-error'
 import { withDualRateLimit } from '@/lib/api/middleware/dual-rate-limit'
 import { APIRequestContext } from '@/lib/api/types'
@@ -24,9 +25,11 @@ async function enhanceHandler(request: NextRequest, context?: APIRequestContext)
     }
 
     // Check usage limits
+    // Membership in the organization is checked along with its credit pool
+    const organizationId = request.headers.get(ORGANIZATION_HEADER) || undefined
     const limitCheck = await checkUsageLimit(request, 1)
     if (limitCheck && !limitCheck.success) {
-      return NextResponse.json(limitCheck, { status: 402 })
+      return NextResponse.json(limitCheck, { status: limitCheck.error?.code === 'FORBIDDEN' ? 403 : 402 })
     }
 
     const body = await request.json()
@@ -50,7 +53,7 @@ async function enhanceHandler(request: NextRequest, context?: APIRequestContext)
 
     // Track usage on success
     if (result.success && result.documentId) {
-      await trackUsageAfterSuccess(user.id, 'enhancement', result.documentId, 1)
+      await trackUsageAfterSuccess(user.id, 'enhancement', result.documentId, 1, organizationId)
     }
 
     return NextResponse.json(result)
@@ -52,6 +52,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Reading level is worked out from the text by the latest pipeline run
+    const { data: pipeline } = await supabase
+      .from('enhancement_pipelines')
+      .select('metadata')
+      .eq('document_id', enhancement.document_id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
     // Prepare report generation options
     const options: ReportGenerationOptions = {
       documentId,
@@ -64,6 +73,7 @@ export async function POST(request: NextRequest) {
         strategies: enhancement.enhancement_data?.strategies || [],
         appliedStrategies: enhancement.enhancement_data?.appliedStrategies || []
       },
+      readingLevel: pipeline?.metadata?.readingLevel,
       customization
     }
 
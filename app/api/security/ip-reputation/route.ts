@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ipBlocker } from '@/lib/utils/ip-blocker';
+
+// Serves the blocked IPs and threat feed ranges to edge middleware, which
+// can't read the feed files or the database itself
+
+export async function GET(request: NextRequest) {
+  // Verify the request is from our own middleware
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // The snapshot lists every blocked IP, so it is never served unauthenticated
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'Snapshot not configured' }, { status: 503 });
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const snapshot = await ipBlocker.getSnapshot();
+
+    return NextResponse.json(snapshot, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('IP reputation snapshot failed:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to build IP reputation snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createCheckoutSession } from '@/lib/stripe/client';
 import { SUBSCRIPTION_TIERS } from '@/lib/stripe/config';
+import { OrganizationStore } from '@/lib/organizations/organization-store';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +13,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { priceId, tier } = await request.json();
+    const { priceId, tier, organizationId } = await request.json();
 
     if (!priceId || !tier) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
@@ -23,6 +24,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid subscription tier' }, { status: 400 });
     }
 
+    // Only owners can buy credits for an organization's pool
+    if (organizationId && await OrganizationStore.getRole(organizationId, user.id) !== 'owner') {
+      return NextResponse.json({ error: 'Only organization owners can purchase a plan' }, { status: 403 });
+    }
+
     const origin = request.headers.get('origin') || 'http://localhost:5000';
     
     const session = await createCheckoutSession({
@@ -31,6 +37,7 @@ export async function POST(request: NextRequest) {
       priceId,
       successUrl: `${origin}/app/settings/billing?success=true`,
       cancelUrl: `${origin}/app/settings/billing?canceled=true`,
+      organizationId,
     });
 
     return NextResponse.json({ url: session.url });
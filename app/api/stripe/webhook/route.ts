@@ -4,6 +4,7 @@ import Stripe from 'stripe';
 import { stripe, STRIPE_WEBHOOK_SECRET } from '@/lib/stripe/config';
 import { syncSubscriptionStatus } from '@/lib/stripe/client';
 import { createClient } from '@/lib/supabase/server';
+import { OrganizationStore } from '@/lib/organizations/organization-store';
 
 export async function POST(request: NextRequest) {
   const body = await request.text();
@@ -35,9 +36,12 @@ export async function POST(request: NextRequest) {
 
       case 'customer.subscription.deleted': {
         const subscription = event.data.object as Stripe.Subscription;
+        const organizationId = subscription.metadata.supabase_organization_id;
         const userId = subscription.metadata.supabase_user_id;
         
-        if (userId) {
+        if (organizationId) {
+          await OrganizationStore.applySubscription(organizationId, 'free', false);
+        } else if (userId) {
           await supabase
             .from('users')
             .update({
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import { brandKitResponseSchema } from '@/lib/api/validation'
+import { resolveWorkspace } from '@/lib/organizations'
+import { BrandKitStore } from '@/lib/brand-kits'
+import {
+  documentRoute,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string; logoId: string }>
+}
+
+// DELETE handler implementation
+const deleteHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id, logoId } = await params
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'editor')
+
+    const brandKit = await BrandKitStore.removeLogo(userId, id, logoId, workspace?.organizationId)
+    if (!brandKit) {
+      throw apiErrors.notFound('Logo not found')
+    }
+
+    return successResponse(brandKit, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the DELETE endpoint
+export const DELETE = documentRoute(
+  deleteHandler,
+  {
+    method: 'DELETE',
+    path: '/api/v1/brand-kits/{id}/logos/{logoId}',
+    summary: 'Remove a brand logo',
+    description: 'Remove a logo from a brand kit and delete the stored file.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Brand kit ID',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'logoId',
+        in: 'path',
+        required: true,
+        description: 'Logo ID',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Logo removed successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: brandKitResponseSchema
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(404, 'Brand kit or logo not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import { brandKitResponseSchema } from '@/lib/api/validation'
+import { resolveWorkspace } from '@/lib/organizations'
+import { BrandKitStore } from '@/lib/brand-kits'
+import {
+  documentRoute,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const MAX_LOGO_SIZE = 5 * 1024 * 1024 // 5MB
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml']
+
+// POST handler implementation
+const postHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'editor')
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      throw apiErrors.badRequest('No logo file provided')
+    }
+    if (!LOGO_TYPES.includes(file.type)) {
+      throw apiErrors.badRequest('Invalid logo type. Supported: PNG, JPG, WEBP, SVG')
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      throw apiErrors.badRequest('Logo must be less than 5MB')
+    }
+
+    const brandKit = await BrandKitStore.addLogo(
+      userId,
+      id,
+      Buffer.from(await file.arrayBuffer()),
+      file.name,
+      file.type,
+      workspace?.organizationId
+    )
+    if (!brandKit) {
+      throw apiErrors.notFound('Brand kit not found')
+    }
+
+    return successResponse(brandKit, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the POST endpoint
+export const POST = documentRoute(
+  postHandler,
+  {
+    method: 'POST',
+    path: '/api/v1/brand-kits/{id}/logos',
+    summary: 'Upload a brand logo',
+    description: 'Add a logo to a brand kit as multipart form data in a "file" field. The first logo is placed on enhanced documents.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Brand kit ID',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Logo uploaded successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: brandKitResponseSchema
+      })
+    }),
+    response(400, 'Bad request - Missing file, unsupported type or too large'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(404, 'Brand kit not found'),
+    response(500, 'Internal server error')
+  )
+)
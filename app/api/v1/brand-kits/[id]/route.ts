@@ -0,0 +1,216 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  brandKitUpdateSchema,
+  brandKitResponseSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { resolveWorkspace } from '@/lib/organizations'
+import { BrandKitStore, validateBrandKitColors } from '@/lib/brand-kits'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const idParameter = {
+  name: 'id',
+  in: 'path' as const,
+  required: true,
+  description: 'Brand kit ID',
+  schema: { type: 'string' }
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'viewer')
+
+    const brandKit = await BrandKitStore.get(userId, id, workspace?.organizationId)
+    if (!brandKit) {
+      throw apiErrors.notFound('Brand kit not found')
+    }
+
+    return successResponse(brandKit, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// PATCH handler implementation
+const patchHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'editor')
+
+    const validation = validateRequest(brandKitUpdateSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid brand kit', formatValidationErrors(validation.error))
+    }
+
+    const existing = await BrandKitStore.get(userId, id, workspace?.organizationId)
+    if (!existing) {
+      throw apiErrors.notFound('Brand kit not found')
+    }
+
+    // Check the kit as it will be saved, not just the fields that changed
+    const problems = validateBrandKitColors({
+      palette: validation.data.palette || existing.palette,
+      forbiddenColors: validation.data.forbiddenColors || existing.forbiddenColors,
+    })
+    if (problems.length > 0) {
+      throw apiErrors.badRequest('Invalid brand kit', { palette: problems })
+    }
+
+    const brandKit = await BrandKitStore.update(userId, id, validation.data, workspace?.organizationId)
+    if (!brandKit) {
+      throw apiErrors.notFound('Brand kit not found')
+    }
+
+    return successResponse(brandKit, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// DELETE handler implementation
+const deleteHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'editor')
+
+    const deleted = await BrandKitStore.remove(userId, id, workspace?.organizationId)
+    if (!deleted) {
+      throw apiErrors.notFound('Brand kit not found')
+    }
+
+    return successResponse({ id, deleted: true }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/brand-kits/{id}',
+    summary: 'Get a brand kit',
+    description: 'Retrieve one of the authenticated user\'s brand kits.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  undefined,
+  responses(
+    response(200, 'Brand kit retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: brandKitResponseSchema
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(404, 'Brand kit not found'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the PATCH endpoint
+export const PATCH = documentRoute(
+  patchHandler,
+  {
+    method: 'PATCH',
+    path: '/api/v1/brand-kits/{id}',
+    summary: 'Update a brand kit',
+    description: 'Change any of a brand kit\'s fields. Enhancements already run keep the kit as it was.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  requestBody(
+    brandKitUpdateSchema,
+    {
+      description: 'Fields to change',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Brand kit updated successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: brandKitResponseSchema
+      })
+    }),
+    response(400, 'Bad request - Invalid colors, or a palette color is also forbidden'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(404, 'Brand kit not found'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the DELETE endpoint
+export const DELETE = documentRoute(
+  deleteHandler,
+  {
+    method: 'DELETE',
+    path: '/api/v1/brand-kits/{id}',
+    summary: 'Delete a brand kit',
+    description: 'Delete a brand kit and its uploaded logos.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  undefined,
+  responses(
+    response(200, 'Brand kit deleted successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          id: z.string().describe('Deleted brand kit ID'),
+          deleted: z.boolean()
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(404, 'Brand kit not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  brandKitSchema,
+  brandKitResponseSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { resolveWorkspace } from '@/lib/organizations'
+import { BrandKitStore, BrandKitInput, validateBrandKitColors } from '@/lib/brand-kits'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+// GET handler implementation
+const getHandler = async (request: NextRequest) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'viewer')
+
+    const brandKits = await BrandKitStore.list(userId, workspace?.organizationId)
+
+    return successResponse({ brandKits }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// POST handler implementation
+const postHandler = async (request: NextRequest) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { userId } = await authenticateRequest(request)
+    // Editors manage an organization's kits; viewers can only use them
+    const workspace = await resolveWorkspace(request, userId, 'editor')
+
+    const validation = validateRequest(brandKitSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid brand kit', formatValidationErrors(validation.error))
+    }
+
+    const input: BrandKitInput = {
+      ...validation.data,
+      forbiddenColors: validation.data.forbiddenColors || [],
+      isDefault: validation.data.isDefault || false,
+    }
+
+    const problems = validateBrandKitColors(input)
+    if (problems.length > 0) {
+      throw apiErrors.badRequest('Invalid brand kit', { palette: problems })
+    }
+
+    const brandKit = await BrandKitStore.create(userId, input, workspace?.organizationId)
+
+    return successResponse(brandKit, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/brand-kits',
+    summary: 'List brand kits',
+    description: 'List the brand kits saved by the authenticated user, or shared with the organization named in the x-organization-id header, oldest first.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }]
+  },
+  undefined,
+  responses(
+    response(200, 'Brand kits retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          brandKits: z.array(brandKitResponseSchema)
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the POST endpoint
+export const POST = documentRoute(
+  postHandler,
+  {
+    method: 'POST',
+    path: '/api/v1/brand-kits',
+    summary: 'Create a brand kit',
+    description: 'Save a palette, fonts and forbidden colors that enhancements must follow. Making a kit the default unsets the previous default.',
+    tags: ['brand-kits'],
+    security: [{ bearerAuth: [] }]
+  },
+  requestBody(
+    brandKitSchema,
+    {
+      description: 'Brand kit definition',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Brand kit created successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: brandKitResponseSchema
+      })
+    }),
+    response(400, 'Bad request - Invalid colors, or a palette color is also forbidden'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,114 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { authenticateRequest } from '@/lib/api/middleware'
+import { createClient } from '@/lib/supabase/server'
+import { canAccess } from '@/lib/organizations'
+import { downloadDocument, uploadFile } from '@/lib/r2'
+import { EnhancementVersionHistory } from '@/lib/enhancement/pipeline/version-history'
+
+jest.mock('@/lib/api/middleware', () => ({
+  authenticateRequest: jest.fn(),
+  generateRequestId: () => 'req-test',
+}))
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+jest.mock('@/lib/organizations', () => ({ canAccess: jest.fn() }))
+jest.mock('@/lib/accessibility', () => {
+  const types = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia']
+  return {
+    COLOR_VISION_TYPES: types,
+    renderColorVision: jest.fn(async () => ({
+      keyColors: ['#ff0000', '#00aa00'],
+      images: Object.fromEntries(types.map(type => [type, Buffer.from(type)])),
+      conflicts: [{ type: 'deuteranopia', colors: ['#ff0000', '#00aa00'], simulated: ['#a69b00', '#a09c21'] }],
+    })),
+  }
+})
+jest.mock('@/lib/r2', () => ({ downloadDocument: jest.fn(), uploadFile: jest.fn() }))
+jest.mock('@/lib/office', () => ({
+  isOfficeFormat: () => false,
+  parseOfficeDocument: jest.fn(),
+  renderOfficePages: jest.fn(),
+}))
+jest.mock('@/lib/utils/pdf-rasterizer', () => ({ rasterizePDFPage: jest.fn() }))
+jest.mock('@/lib/enhancement/pipeline/version-history', () => ({
+  EnhancementVersionHistory: { listVersions: jest.fn() },
+}))
+
+const ORIGINAL_URL = 'https://files.example.com/original/user-1/worksheet.png'
+const ENHANCED_URL = 'https://files.example.com/enhanced/user-1/worksheet.png'
+
+function mockEnhancement() {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    single: () => Promise.resolve({
+      data: {
+        id: 'enh-1',
+        user_id: 'user-1',
+        organization_id: null,
+        document_id: 'doc-1',
+        enhanced_url: ENHANCED_URL,
+        documents: { original_url: ORIGINAL_URL },
+      },
+      error: null,
+    }),
+  }
+  ;(createClient as jest.Mock).mockResolvedValue({ from: () => query })
+}
+
+async function callRoute(search = '') {
+  const request = new NextRequest(`http://localhost/api/v1/enhance/enh-1/color-vision${search}`)
+  return GET(request, { params: Promise.resolve({ id: 'enh-1' }) })
+}
+
+describe('GET /api/v1/enhance/[id]/color-vision', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(downloadDocument as jest.Mock).mockResolvedValue(Buffer.from('png'))
+    ;(authenticateRequest as jest.Mock).mockResolvedValue({ userId: 'user-1' })
+    ;(canAccess as jest.Mock).mockResolvedValue(true)
+    ;(EnhancementVersionHistory.listVersions as jest.Mock).mockResolvedValue([])
+    ;(uploadFile as jest.Mock).mockImplementation(async ({ filename }) => ({
+      key: `enhanced/user-1/${filename}`,
+      url: `https://files.example.com/enhanced/user-1/${filename}`,
+    }))
+    mockEnhancement()
+  })
+
+  it('downloads both files and uploads a preview per color vision type', async () => {
+    const response = await callRoute()
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(downloadDocument).toHaveBeenCalledWith(ORIGINAL_URL)
+    expect(downloadDocument).toHaveBeenCalledWith(ENHANCED_URL)
+    expect(uploadFile).toHaveBeenCalledTimes(8)
+    expect(uploadFile).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      folder: 'ENHANCED',
+      contentType: 'image/png',
+    }))
+
+    expect(Object.keys(body.data.before.previews).sort()).toEqual(
+      ['achromatopsia', 'deuteranopia', 'protanopia', 'tritanopia']
+    )
+    expect(body.data.warnings).toContainEqual(expect.objectContaining({ image: 'before', type: 'deuteranopia' }))
+  })
+
+  it('rejects files that do not belong to the document', async () => {
+    const response = await callRoute(`?after=${encodeURIComponent('https://evil.example.com/x.png')}`)
+
+    expect(response.status).toBe(400)
+    expect(downloadDocument).not.toHaveBeenCalled()
+  })
+
+  it('refuses callers without access', async () => {
+    ;(canAccess as jest.Mock).mockResolvedValue(false)
+
+    const response = await callRoute()
+
+    expect(response.status).toBe(403)
+    expect(uploadFile).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,204 @@
+import { NextRequest } from 'next/server'
+import { createHash } from 'crypto'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import { COLOR_VISION_TYPES, renderColorVision } from '@/lib/accessibility'
+import type { ColorVisionType } from '@/lib/accessibility'
+import { canAccess } from '@/lib/organizations'
+import { isOfficeFormat, parseOfficeDocument, renderOfficePages } from '@/lib/office'
+import { downloadDocument, uploadFile } from '@/lib/r2'
+import { createClient } from '@/lib/supabase/server'
+import { rasterizePDFPage } from '@/lib/utils/pdf-rasterizer'
+import { EnhancementVersionHistory } from '@/lib/enhancement/pipeline/version-history'
+import {
+  documentRoute,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Previews only need to be legible on screen
+const PREVIEW_DPI = 96
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+
+    // Authenticate request
+    const { userId } = await authenticateRequest(request)
+
+    const supabase = await createClient()
+
+    const { data: enhancement, error } = await supabase
+      .from('enhancements')
+      .select(`
+        id,
+        user_id,
+        organization_id,
+        document_id,
+        enhanced_url,
+        documents (
+          original_url
+        )
+      `)
+      .eq('id', id)
+      .single()
+
+    if (error || !enhancement) {
+      throw apiErrors.notFound('Enhancement not found')
+    }
+
+    // Verify ownership, or membership of the organization that shares it
+    if (!(await canAccess(enhancement, userId, 'viewer'))) {
+      throw apiErrors.forbidden()
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const beforeUrl = searchParams.get('before') || enhancement.documents?.original_url
+    const afterUrl = searchParams.get('after') || enhancement.enhanced_url
+
+    if (!beforeUrl || !afterUrl) {
+      throw apiErrors.badRequest('Enhancement has no files to compare yet')
+    }
+
+    // Only render files that belong to this enhancement's document
+    const versions = await EnhancementVersionHistory.listVersions(enhancement.document_id)
+    const allowed = new Set([
+      enhancement.documents?.original_url,
+      enhancement.enhanced_url,
+      ...versions.map(version => version.enhancedFileUrl),
+    ])
+    if (!allowed.has(beforeUrl) || !allowed.has(afterUrl)) {
+      throw apiErrors.badRequest('Files must be the original or an enhanced version of this document')
+    }
+
+    const [before, after] = await Promise.all([beforeUrl, afterUrl].map(async url => {
+      const render = await renderColorVision(await previewImage(url))
+
+      // Named after the document and source file, so previews are easy to trace back
+      const digest = createHash('sha256').update(url).digest('hex').slice(0, 16)
+      const previews = {} as Record<ColorVisionType, string>
+      for (const type of COLOR_VISION_TYPES) {
+        const { url: previewUrl } = await uploadFile({
+          file: render.images[type],
+          userId: enhancement.user_id,
+          filename: `${enhancement.document_id}-color-vision-${digest}-${type}.png`,
+          folder: 'ENHANCED',
+          contentType: 'image/png',
+        })
+        previews[type] = previewUrl
+      }
+
+      return { keyColors: render.keyColors, previews, conflicts: render.conflicts }
+    }))
+
+    return successResponse({
+      before: { keyColors: before.keyColors, previews: before.previews },
+      after: { keyColors: after.keyColors, previews: after.previews },
+      warnings: [
+        ...before.conflicts.map(conflict => ({ image: 'before' as const, ...conflict })),
+        ...after.conflicts.map(conflict => ({ image: 'after' as const, ...conflict })),
+      ],
+    }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// PDFs and Office files are previewed from their first page
+async function previewImage(url: string): Promise<Buffer> {
+  const buffer = await downloadDocument(url)
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || ''
+
+  if (extension === 'pdf') {
+    return (await rasterizePDFPage(buffer, 1, PREVIEW_DPI)).buffer
+  }
+  if (isOfficeFormat(extension)) {
+    const document = await parseOfficeDocument(buffer, extension)
+    const [page] = await renderOfficePages({ ...document, pages: document.pages.slice(0, 1) }, { dpi: PREVIEW_DPI })
+    return page.buffer
+  }
+  return buffer
+}
+
+const simulationSchema = z.object({
+  keyColors: z.array(z.string()).describe('Most used colors in the image, most common first'),
+  previews: z.record(z.string().url()).describe('Simulated render URL for each color vision type'),
+})
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/enhance/{id}/color-vision',
+    summary: 'Simulate color vision deficiencies',
+    description: 'Render the original and enhanced files as they look with protanopia, deuteranopia, tritanopia and achromatopsia, and warn where key colors become indistinguishable.',
+    tags: ['enhance'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Enhancement ID',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'before',
+        in: 'query',
+        required: false,
+        description: 'File to show as the original; defaults to the uploaded document',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'after',
+        in: 'query',
+        required: false,
+        description: 'File to show as the enhancement, such as an earlier version; defaults to the latest',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Simulations rendered successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          before: simulationSchema,
+          after: simulationSchema,
+          warnings: z.array(z.object({
+            image: z.enum(['before', 'after']).describe('Which file the colors come from'),
+            type: z.enum(['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia']),
+            colors: z.array(z.string()).describe('The two colors as normally seen'),
+            simulated: z.array(z.string()).describe('The same colors under the simulation')
+          }))
+        })
+      })
+    }),
+    response(400, 'Bad request - Files do not belong to this enhancement'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Enhancement belongs to another user'),
+    response(404, 'Enhancement not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -9,6 +9,7 @@ import {
   apiErrors,
   ApiError 
 } from '@/lib/api/response'
+import { canAccess } from '@/lib/organizations'
 import { createClient } from '@/lib/supabase/server'
 import { getQueue, QUEUE_NAMES } from '@/lib/queue/client'
 import { 
@@ -57,8 +58,8 @@ const getHandler = async (
       throw apiErrors.NOT_FOUND
     }
     
-    // Verify ownership
-    if (enhancement.user_id !== userId) {
+    // Verify ownership, or membership of the organization that shares it
+    if (!(await canAccess(enhancement, userId, 'viewer'))) {
       throw apiErrors.INSUFFICIENT_PERMISSIONS
     }
     
@@ -228,8 +229,8 @@ const deleteHandler = async (
       throw apiErrors.NOT_FOUND
     }
     
-    // Verify ownership
-    if (enhancement.user_id !== userId) {
+    // Verify ownership, or membership of the organization that shares it
+    if (!(await canAccess(enhancement, userId, 'editor'))) {
       throw apiErrors.INSUFFICIENT_PERMISSIONS
     }
     
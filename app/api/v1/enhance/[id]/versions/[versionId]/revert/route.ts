@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server'
+import { 
+  authenticateRequest, 
+  generateRequestId 
+} from '@/lib/api/middleware'
+import { 
+  successResponse, 
+  errorResponse, 
+  apiErrors
+} from '@/lib/api/response'
+import { canAccess } from '@/lib/organizations'
+import { createClient } from '@/lib/supabase/server'
+import { EnhancementVersionHistory } from '@/lib/enhancement/pipeline/version-history'
+import { 
+  documentRoute, 
+  response, 
+  responses 
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string; versionId: string }>
+}
+
+// POST handler implementation
+const postHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+  
+  try {
+    const { id, versionId } = await params
+    
+    // Authenticate request
+    const { userId } = await authenticateRequest(request)
+    
+    const supabase = await createClient()
+    
+    const { data: enhancement, error } = await supabase
+      .from('enhancements')
+      .select('id, user_id, organization_id, document_id')
+      .eq('id', id)
+      .single()
+    
+    if (error || !enhancement) {
+      throw apiErrors.notFound('Enhancement not found')
+    }
+    
+    // Verify ownership, or membership of the organization that shares it
+    if (!(await canAccess(enhancement, userId, 'editor'))) {
+      throw apiErrors.forbidden()
+    }
+    
+    const version = await EnhancementVersionHistory.revertToVersion(
+      enhancement.document_id,
+      versionId,
+      userId
+    )
+    
+    if (!version) {
+      throw apiErrors.notFound('Version not found')
+    }
+    
+    return successResponse({
+      id: version.id,
+      versionNumber: version.versionNumber,
+      revertedFrom: version.revertedFrom,
+      enhancedFileUrl: version.enhancedFileUrl,
+    }, { requestId })
+    
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the POST endpoint
+export const POST = documentRoute(
+  postHandler,
+  {
+    method: 'POST',
+    path: '/api/v1/enhance/{id}/versions/{versionId}/revert',
+    summary: 'Revert to an enhancement version',
+    description: 'Restore an earlier version by saving a copy of it as the newest version. Existing versions are never modified.',
+    tags: ['enhance'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Enhancement ID',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'versionId',
+        in: 'path',
+        required: true,
+        description: 'Version ID to restore',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Version restored successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          id: z.string().describe('ID of the newly created version'),
+          versionNumber: z.number().describe('Number of the newly created version'),
+          revertedFrom: z.string().describe('ID of the restored version'),
+          enhancedFileUrl: z.string().url().describe('Enhanced document URL now in use')
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Enhancement belongs to another user'),
+    response(404, 'Enhancement or version not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server'
+import { 
+  authenticateRequest, 
+  generateRequestId 
+} from '@/lib/api/middleware'
+import { 
+  successResponse, 
+  errorResponse, 
+  apiErrors
+} from '@/lib/api/response'
+import { createClient } from '@/lib/supabase/server'
+import { EnhancementVersionHistory } from '@/lib/enhancement/pipeline/version-history'
+import { 
+  documentRoute, 
+  response, 
+  responses 
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+  
+  try {
+    const { id } = await params
+    const from = request.nextUrl.searchParams.get('from')
+    const to = request.nextUrl.searchParams.get('to')
+    
+    if (!from || !to) {
+      throw apiErrors.badRequest('Both "from" and "to" version IDs are required')
+    }
+    
+    // Authenticate request
+    const { userId } = await authenticateRequest(request)
+    
+    const supabase = await createClient()
+    
+    const { data: enhancement, error } = await supabase
+      .from('enhancements')
+      .select('id, user_id, document_id')
+      .eq('id', id)
+      .single()
+    
+    if (error || !enhancement) {
+      throw apiErrors.notFound('Enhancement not found')
+    }
+    
+    // Verify ownership
+    if (enhancement.user_id !== userId) {
+      throw apiErrors.forbidden()
+    }
+    
+    const diff = await EnhancementVersionHistory.compareVersions(
+      enhancement.document_id,
+      from,
+      to
+    )
+    
+    if (!diff) {
+      throw apiErrors.notFound('Version not found')
+    }
+    
+    return successResponse(diff, { requestId })
+    
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+const fieldChange = z.object({
+  path: z.string().describe('Dotted path of the changed field'),
+  from: z.any().describe('Value in the "from" version'),
+  to: z.any().describe('Value in the "to" version')
+})
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/enhance/{id}/versions/compare',
+    summary: 'Compare enhancement versions',
+    description: 'Diff the settings, enhancement plan and scores of two versions of the same document.',
+    tags: ['enhance'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Enhancement ID',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'from',
+        in: 'query',
+        required: true,
+        description: 'Version ID to compare from',
+        schema: { type: 'string' }
+      },
+      {
+        name: 'to',
+        in: 'query',
+        required: true,
+        description: 'Version ID to compare to',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Versions compared successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          from: z.object({ id: z.string(), versionNumber: z.number() }),
+          to: z.object({ id: z.string(), versionNumber: z.number() }),
+          settings: z.array(fieldChange).describe('Changed enhancement settings'),
+          plan: z.array(fieldChange).describe('Changed enhancement plan fields'),
+          scores: z.record(z.object({
+            from: z.number(),
+            to: z.number(),
+            delta: z.number()
+          })).describe('Resulting score per metric in each version')
+        })
+      })
+    }),
+    response(400, 'Bad request - Missing version IDs'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Enhancement belongs to another user'),
+    response(404, 'Enhancement or version not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server'
+import { 
+  authenticateRequest, 
+  generateRequestId 
+} from '@/lib/api/middleware'
+import { 
+  successResponse, 
+  errorResponse, 
+  apiErrors
+} from '@/lib/api/response'
+import { canAccess } from '@/lib/organizations'
+import { createClient } from '@/lib/supabase/server'
+import { EnhancementVersionHistory } from '@/lib/enhancement/pipeline/version-history'
+import { 
+  documentRoute, 
+  response, 
+  responses 
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+  
+  try {
+    const { id } = await params
+    
+    // Authenticate request
+    const { userId } = await authenticateRequest(request)
+    
+    const supabase = await createClient()
+    
+    const { data: enhancement, error } = await supabase
+      .from('enhancements')
+      .select('id, user_id, organization_id, document_id')
+      .eq('id', id)
+      .single()
+    
+    if (error || !enhancement) {
+      throw apiErrors.notFound('Enhancement not found')
+    }
+    
+    // Verify ownership, or membership of the organization that shares it
+    if (!(await canAccess(enhancement, userId, 'viewer'))) {
+      throw apiErrors.forbidden()
+    }
+    
+    const versions = await EnhancementVersionHistory.listVersions(enhancement.document_id)
+    
+    return successResponse({
+      documentId: enhancement.document_id,
+      versions: versions.map(version => ({
+        id: version.id,
+        versionNumber: version.versionNumber,
+        settings: version.settings,
+        scores: version.scores,
+        enhancedFileUrl: version.enhancedFileUrl,
+        thumbnailUrl: version.thumbnailUrl,
+        layeredFileUrl: version.layeredFileUrl,
+        revertedFrom: version.revertedFrom,
+        createdAt: version.createdAt,
+      })),
+    }, { requestId })
+    
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/enhance/{id}/versions',
+    summary: 'List enhancement versions',
+    description: 'List every saved enhancement run for the document behind this enhancement, newest first.',
+    tags: ['enhance'],
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Enhancement ID',
+        schema: { type: 'string' }
+      }
+    ]
+  },
+  undefined,
+  responses(
+    response(200, 'Versions retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          documentId: z.string().describe('Associated document ID'),
+          versions: z.array(z.object({
+            id: z.string().describe('Version ID'),
+            versionNumber: z.number().describe('Sequential version number, starting at 1'),
+            settings: z.any().describe('Enhancement settings used for this run'),
+            scores: z.any().describe('Before and after scores per metric'),
+            enhancedFileUrl: z.string().url().describe('Enhanced document URL'),
+            thumbnailUrl: z.string().url().optional().describe('Thumbnail URL'),
+            layeredFileUrl: z.string().url().optional().describe('Layered SVG URL'),
+            revertedFrom: z.string().optional().describe('Version this one restores, if it was created by a revert'),
+            createdAt: z.string().datetime().describe('Creation timestamp')
+          }))
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Enhancement belongs to another user'),
+    response(404, 'Enhancement not found'),
+    response(500, 'Internal server error')
+  )
+)
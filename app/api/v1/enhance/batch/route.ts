@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { EnhancementService } from '@/lib/enhancement';
 import { checkUsageLimit, trackUsageAfterSuccess } from '@/lib/usage/middleware';
+import { ORGANIZATION_HEADER } from '@/lib/organizations';
 import { createErrorResponse, ErrorFactory, createValidationError } from '@/lib/utils/create-safe-error';
 import { withDualRateLimit } from '@/lib/api/middleware/dual-rate-limit';
 import { APIRequestContext } from '@/lib/api/types';
@@ -28,6 +29,9 @@ interface BatchEnhanceRequest {
     purpose?: string;
     enhancementStyle?: string;
     colorScheme?: string;
+    brandKitId?: string;
+    mode?: 'standard' | 'accessibility';
+    wcagLevel?: 'AA' | 'AAA';
     visualComplexity?: 'simple' | 'moderate' | 'detailed';
     includeGraphics?: boolean;
     includeCharts?: boolean;
@@ -79,15 +83,17 @@ async function batchEnhanceHandler(request: NextRequest, context?: APIRequestCon
     }
 
     // Check usage limits
+    // Membership in the organization is checked along with its credit pool
+    const organizationId = request.headers.get(ORGANIZATION_HEADER) || undefined;
     const limitCheck = await checkUsageLimit(request, documentIds.length);
     if (limitCheck && !limitCheck.success) {
-      return NextResponse.json(limitCheck, { status: 402 });
+      return NextResponse.json(limitCheck, { status: limitCheck.error?.code === 'FORBIDDEN' ? 403 : 402 });
     }
 
     // Validate all document IDs exist and belong to user
     const { data: documents, error: docError } = await supabase
       .from('enhancements')
-      .select('id, user_id, status')
+      .select('id, user_id, organization_id, status')
       .in('id', documentIds);
 
     if (docError || !documents) {
@@ -96,8 +102,10 @@ async function batchEnhanceHandler(request: NextRequest, context?: APIRequestCon
       return NextResponse.json(errorBody, { status });
     }
 
-    // Check all documents belong to user
-    const unauthorizedDocs = documents.filter(doc => doc.user_id !== user.id);
+    // Check all documents belong to user, or to the organization's shared library
+    const unauthorizedDocs = documents.filter(doc => organizationId
+      ? doc.organization_id !== organizationId
+      : doc.user_id !== user.id || doc.organization_id);
     if (unauthorizedDocs.length > 0) {
       const error = ErrorFactory.forbidden();
       const { status, body: errorBody } = createErrorResponse(error, requestId);
@@ -153,7 +161,7 @@ async function batchEnhanceHandler(request: NextRequest, context?: APIRequestCon
     // Track successful enhancements
     const successfulCount = results.filter(r => r.success).length;
     if (successfulCount > 0) {
-      await trackUsageAfterSuccess(user.id, 'batch_enhancement', batchId, successfulCount);
+      await trackUsageAfterSuccess(user.id, 'batch_enhancement', batchId, successfulCount, organizationId);
     }
 
     // Create batch record in database
@@ -34,11 +34,14 @@ import {
 import { pipelineTracer } from '@/lib/observability/enhancement-pipeline'
 import { createJobTraceContext } from '@/lib/observability/enhancement-pipeline'
 import { linkSpans } from '@/lib/observability/tracing'
+import { resolveWorkspace, scopeToWorkspace } from '@/lib/organizations'
 
 const enhanceHandler = asyncHandler(async (request: NextRequest, context?: APIRequestContext) => {
   const requestId = context?.requestId || generateRequestId()
     // Authenticate request
     const { userId } = await authenticateRequest(request)
+    // Documents uploaded for an organization go into its shared library
+    const workspace = await resolveWorkspace(request, userId, 'editor')
     
     // Parse form data
     const formData = await request.formData()
@@ -134,6 +137,7 @@ const enhanceHandler = asyncHandler(async (request: NextRequest, context?: APIRe
       .insert({
         id: documentId,
         user_id: userId,
+        organization_id: workspace?.organizationId || null,
         name: file!.name,
         type: file!.type,
         size: file!.size,
@@ -154,6 +158,7 @@ const enhanceHandler = asyncHandler(async (request: NextRequest, context?: APIRe
         id: enhancementId,
         document_id: documentId,
         user_id: userId,
+        organization_id: workspace?.organizationId || null,
         status: 'pending',
         settings: enhanceRequest.enhancementSettings || {},
         metadata: enhanceRequest.metadata,
@@ -182,6 +187,7 @@ const enhanceHandler = asyncHandler(async (request: NextRequest, context?: APIRe
       documentId,
       enhancementId,
       userId,
+      organizationId: workspace?.organizationId,
       analysisResults: {
         colors: {},
         typography: {},
@@ -292,13 +298,18 @@ export const POST = withUsageLimit(
   withDualRateLimit(postHandler, {
     endpoint: 'enhance'
   }),
-  1 // 1 credit per enhancement
+  1, // 1 credit per enhancement
+  {
+    // Charged against the enhancement so cancelling it refunds the credit
+    getEnhancementId: (body) => (body as { data?: { id?: string } } | null)?.data?.id
+  }
 )
 
 const getHandler = asyncHandler(async (request: NextRequest) => {
   const requestId = generateRequestId()
     // This endpoint handles the history listing
     const { userId } = await authenticateRequest(request)
+    const workspace = await resolveWorkspace(request, userId, 'viewer')
     
     // Parse query parameters
     const { searchParams } = new URL(request.url)
@@ -311,10 +322,13 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
     const supabase = await createClient()
     
     // Build query
-    let query = supabase
-      .from('enhancements')
-      .select('*, documents!inner(*)', { count: 'exact' })
-      .eq('user_id', userId)
+    let query = scopeToWorkspace(
+      supabase
+        .from('enhancements')
+        .select('*, documents!inner(*)', { count: 'exact' }),
+      userId,
+      workspace?.organizationId
+    )
     
     if (status) {
       query = query.eq('status', status)
@@ -375,7 +389,7 @@ export const GET = documentRoute(
     method: 'GET',
     path: '/api/v1/enhance',
     summary: 'List enhancement history',
-    description: 'Retrieve a paginated list of document enhancements for the authenticated user',
+    description: 'Retrieve a paginated list of document enhancements for the authenticated user, or for an organization\'s shared library when the X-Organization-Id header is set',
     tags: ['enhance'],
     security: [{ bearerAuth: [] }]
   },
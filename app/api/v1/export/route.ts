@@ -11,16 +11,27 @@ import {
   responses 
 } from '@/lib/api/openapi/decorators'
 
+const printSettingsSchema = z.object({
+  pageSize: z.enum(['A4', 'A3', 'Letter', 'Tabloid']).optional(),
+  orientation: z.enum(['portrait', 'landscape']).optional(),
+  bleed: z.number().min(0).max(10).optional().describe('Bleed in millimetres, 3 by default'),
+  cropMarks: z.boolean().optional(),
+  cmyk: z.boolean().optional()
+}).describe('Builds a print-ready PDF; PDF exports only')
+
 // Request validation schema
 const exportRequestSchema = z.object({
   documentId: z.string().uuid(),
-  format: z.enum(['png', 'jpg', 'pdf', 'canva']),
+  format: z.enum(['png', 'jpg', 'pdf', 'canva', 'pptx', 'svg']),
   options: z.object({
     quality: z.number().min(1).max(100).optional(),
     scale: z.number().min(0.1).max(4).optional(),
     preserveVectors: z.boolean().optional(),
+    editableText: z.boolean().optional(),
+    pushToCanva: z.boolean().optional(),
     includeMetadata: z.boolean().optional(),
-    backgroundColor: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional()
+    backgroundColor: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional(),
+    print: printSettingsSchema.optional()
   }).optional(),
   async: z.boolean().optional(),
   webhookUrl: z.string().url().optional()
@@ -28,11 +39,12 @@ const exportRequestSchema = z.object({
 
 const batchExportRequestSchema = z.object({
   documentIds: z.array(z.string().uuid()).min(1).max(100),
-  format: z.enum(['png', 'jpg', 'pdf', 'canva']),
+  format: z.enum(['png', 'jpg', 'pdf', 'canva', 'pptx', 'svg']),
   options: z.object({
     quality: z.number().min(1).max(100).optional(),
     scale: z.number().min(0.1).max(4).optional(),
     preserveVectors: z.boolean().optional(),
+    editableText: z.boolean().optional(),
     includeMetadata: z.boolean().optional(),
     backgroundColor: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional()
   }).optional(),
@@ -83,7 +95,7 @@ export const POST = documentRoute(
     method: 'POST',
     path: '/api/v1/export',
     summary: 'Export enhanced document',
-    description: 'Export an enhanced document in various formats (PNG, JPG, PDF, Canva). Supports both single document and batch exports. Exports can be processed synchronously or asynchronously.',
+    description: 'Export an enhanced document in various formats (PNG, JPG, PDF, Canva, PowerPoint). Supports both single document and batch exports. Exports can be processed synchronously or asynchronously.',
     tags: ['export'],
     security: [{ bearerAuth: [] }]
   },
@@ -104,6 +116,15 @@ export const POST = documentRoute(
           width: z.number(),
           height: z.number()
         }).optional().describe('Dimensions for image exports'),
+        preflight: z.object({
+          passed: z.boolean().describe('False when a page is too low resolution to print well'),
+          issues: z.array(z.object({
+            kind: z.enum(['low-resolution', 'small-text', 'thin-font']),
+            severity: z.enum(['warning', 'error']),
+            pageNumber: z.number(),
+            message: z.string()
+          }))
+        }).optional().describe('Print preflight results, for print PDF exports'),
         processingTime: z.number().describe('Processing time in milliseconds')
       })
     }),
@@ -135,6 +156,13 @@ async function handleSingleExport(body: any, userId: string) {
   try {
     // Validate request
     const validatedData = exportRequestSchema.parse(body)
+
+    if (validatedData.options?.print && validatedData.format !== 'pdf') {
+      return NextResponse.json(
+        { error: 'Print settings only apply to PDF exports' },
+        { status: 400 }
+      )
+    }
     
     // Check document ownership
     const supabase = await createClient()
@@ -152,18 +180,21 @@ async function handleSingleExport(body: any, userId: string) {
       )
     }
 
-    // Check if async export is requested
-    if (validatedData.async) {
+    // Check if async export is requested. Sending a design to Canva runs
+    // inline since it reports progress through the export service
+    if (validatedData.async && !validatedData.options?.pushToCanva) {
       // Queue the export job
       const job = await exportQueue.add('export-document', {
         documentId: validatedData.documentId,
         userId,
         enhancementId: document.id,
-        exportFormat: validatedData.format as 'png' | 'pdf' | 'canva' | 'pptx',
+        exportFormat: validatedData.format as 'png' | 'pdf' | 'canva' | 'pptx' | 'svg',
         exportSettings: {
-          quality: validatedData.options?.quality === 100 ? 'high' : validatedData.options?.quality === 50 ? 'standard' : 'standard',
+          quality: validatedData.options?.print ? 'print' : validatedData.options?.quality === 100 ? 'high' : validatedData.options?.quality === 50 ? 'standard' : 'standard',
           includeReport: false,
-          watermark: false
+          watermark: false,
+          editableText: validatedData.options?.editableText,
+          print: validatedData.options?.print
         },
         subscriptionTier: 'basic',
         priority: 2
@@ -208,6 +239,8 @@ async function handleSingleExport(body: any, userId: string) {
       exportUrl: result.exportUrl,
       fileSize: result.fileSize,
       dimensions: result.dimensions,
+      canvaDesign: result.canvaDesign,
+      preflight: result.preflight,
       processingTime: result.processingTime
     })
   } catch (error) {
@@ -250,7 +283,7 @@ async function handleBatchExport(body: any, userId: string) {
           documentId: docId,
           userId,
           enhancementId: docId, // Assuming documentId is the enhancement ID
-          exportFormat: validatedData.format as 'png' | 'pdf' | 'canva' | 'pptx',
+          exportFormat: validatedData.format as 'png' | 'pdf' | 'canva' | 'pptx' | 'svg',
           exportSettings: {
             quality: 'standard',
             includeReport: false,
@@ -0,0 +1,177 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  organizationMemberUpdateSchema,
+  organizationRoleSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { LastOwnerError, OrganizationStore, requireRole } from '@/lib/organizations'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string; userId: string }>
+}
+
+const pathParameters = [
+  {
+    name: 'id',
+    in: 'path' as const,
+    required: true,
+    description: 'Organization ID',
+    schema: { type: 'string' }
+  },
+  {
+    name: 'userId',
+    in: 'path' as const,
+    required: true,
+    description: 'Member user ID',
+    schema: { type: 'string' }
+  }
+]
+
+// PATCH handler implementation
+const patchHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id, userId: memberId } = await params
+    const { userId } = await authenticateRequest(request)
+
+    const validation = validateRequest(organizationMemberUpdateSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid role', formatValidationErrors(validation.error))
+    }
+
+    await requireRole(id, userId, 'owner')
+
+    const updated = await OrganizationStore.updateMemberRole(id, memberId, validation.data.role)
+    if (!updated) {
+      throw apiErrors.notFound('Member not found')
+    }
+
+    return successResponse({ userId: memberId, role: validation.data.role }, { requestId })
+
+  } catch (error) {
+    if (error instanceof LastOwnerError) {
+      return errorResponse(apiErrors.badRequest(error.message), requestId)
+    }
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// DELETE handler implementation
+const deleteHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id, userId: memberId } = await params
+    const { userId } = await authenticateRequest(request)
+
+    // Members can always leave; removing someone else takes an owner
+    if (memberId !== userId) {
+      await requireRole(id, userId, 'owner')
+    }
+
+    const removed = await OrganizationStore.removeMember(id, memberId)
+    if (!removed) {
+      throw apiErrors.notFound('Member not found')
+    }
+
+    return successResponse({ userId: memberId, removed: true }, { requestId })
+
+  } catch (error) {
+    if (error instanceof LastOwnerError) {
+      return errorResponse(apiErrors.badRequest(error.message), requestId)
+    }
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the PATCH endpoint
+export const PATCH = documentRoute(
+  patchHandler,
+  {
+    method: 'PATCH',
+    path: '/api/v1/organizations/{id}/members/{userId}',
+    summary: 'Change a member\'s role',
+    description: 'Make a member an owner, editor or viewer. The last owner cannot be demoted. Only owners can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: pathParameters
+  },
+  requestBody(
+    organizationMemberUpdateSchema,
+    {
+      description: 'New role',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Role updated successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          userId: z.string(),
+          role: organizationRoleSchema
+        })
+      })
+    }),
+    response(400, 'Bad request - Invalid role, or the organization would have no owner'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Only owners can change roles'),
+    response(404, 'Member not found'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the DELETE endpoint
+export const DELETE = documentRoute(
+  deleteHandler,
+  {
+    method: 'DELETE',
+    path: '/api/v1/organizations/{id}/members/{userId}',
+    summary: 'Remove a member',
+    description: 'Remove a member from the organization, or leave it by passing your own user ID. The last owner cannot leave.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: pathParameters
+  },
+  undefined,
+  responses(
+    response(200, 'Member removed successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          userId: z.string(),
+          removed: z.boolean()
+        })
+      })
+    }),
+    response(400, 'Bad request - The organization would have no owner'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Only owners can remove other members'),
+    response(404, 'Member not found'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  organizationMemberSchema,
+  organizationMemberResponseSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { OrganizationStore, requireRole } from '@/lib/organizations'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const idParameter = {
+  name: 'id',
+  in: 'path' as const,
+  required: true,
+  description: 'Organization ID',
+  schema: { type: 'string' }
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    await requireRole(id, userId, 'viewer')
+
+    const members = await OrganizationStore.listMembers(id)
+
+    return successResponse({ members }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// POST handler implementation
+const postHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    const validation = validateRequest(organizationMemberSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid member', formatValidationErrors(validation.error))
+    }
+
+    await requireRole(id, userId, 'owner')
+
+    const member = await OrganizationStore.addMember(id, validation.data.email, validation.data.role)
+    if (!member) {
+      throw apiErrors.notFound('No account uses that email')
+    }
+
+    return successResponse(member, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/organizations/{id}/members',
+    summary: 'List organization members',
+    description: 'List everyone in the organization with their role. Any member can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  undefined,
+  responses(
+    response(200, 'Members retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          members: z.array(organizationMemberResponseSchema)
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Not a member of the organization'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the POST endpoint
+export const POST = documentRoute(
+  postHandler,
+  {
+    method: 'POST',
+    path: '/api/v1/organizations/{id}/members',
+    summary: 'Add an organization member',
+    description: 'Add an existing user by email with the given role. Adding someone who is already a member changes their role. Only owners can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  requestBody(
+    organizationMemberSchema,
+    {
+      description: 'Member email and role',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Member added successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: organizationMemberResponseSchema
+      })
+    }),
+    response(400, 'Bad request - Invalid email or role'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Only owners can add members'),
+    response(404, 'No account uses that email'),
+    response(500, 'Internal server error')
+  )
+)
@@ -0,0 +1,208 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  organizationSchema,
+  organizationResponseSchema,
+  organizationRoleSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { OrganizationStore, requireRole } from '@/lib/organizations'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const idParameter = {
+  name: 'id',
+  in: 'path' as const,
+  required: true,
+  description: 'Organization ID',
+  schema: { type: 'string' }
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    const { role } = await requireRole(id, userId, 'viewer')
+
+    const organization = await OrganizationStore.get(id)
+    if (!organization) {
+      throw apiErrors.notFound('Organization not found')
+    }
+
+    return successResponse({ ...organization, role }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// PATCH handler implementation
+const patchHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    const validation = validateRequest(organizationSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid organization', formatValidationErrors(validation.error))
+    }
+
+    await requireRole(id, userId, 'owner')
+
+    const organization = await OrganizationStore.rename(id, validation.data.name)
+    if (!organization) {
+      throw apiErrors.notFound('Organization not found')
+    }
+
+    return successResponse(organization, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// DELETE handler implementation
+const deleteHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    await requireRole(id, userId, 'owner')
+
+    const deleted = await OrganizationStore.remove(id)
+    if (!deleted) {
+      throw apiErrors.notFound('Organization not found')
+    }
+
+    return successResponse({ id, deleted: true }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/organizations/{id}',
+    summary: 'Get an organization',
+    description: 'Retrieve an organization the authenticated user belongs to, with their role in it.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  undefined,
+  responses(
+    response(200, 'Organization retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: organizationResponseSchema.extend({ role: organizationRoleSchema })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Not a member of the organization'),
+    response(404, 'Organization not found'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the PATCH endpoint
+export const PATCH = documentRoute(
+  patchHandler,
+  {
+    method: 'PATCH',
+    path: '/api/v1/organizations/{id}',
+    summary: 'Rename an organization',
+    description: 'Change an organization\'s name. Only owners can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  requestBody(
+    organizationSchema,
+    {
+      description: 'New organization details',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Organization updated successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: organizationResponseSchema
+      })
+    }),
+    response(400, 'Bad request - Invalid name'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Only owners can rename the organization'),
+    response(404, 'Organization not found'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the DELETE endpoint
+export const DELETE = documentRoute(
+  deleteHandler,
+  {
+    method: 'DELETE',
+    path: '/api/v1/organizations/{id}',
+    summary: 'Delete an organization',
+    description: 'Delete an organization along with its shared documents, enhancements, API keys and webhooks. Only owners can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [idParameter]
+  },
+  undefined,
+  responses(
+    response(200, 'Organization deleted successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          id: z.string().describe('Deleted organization ID'),
+          deleted: z.boolean()
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Only owners can delete the organization'),
+    response(404, 'Organization not found'),
+    response(500, 'Internal server error')
+  )
+)
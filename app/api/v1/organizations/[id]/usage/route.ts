@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse
+} from '@/lib/api/response'
+import { requireRole } from '@/lib/organizations'
+import { createUsageTracker } from '@/lib/usage/tracking-server'
+import {
+  documentRoute,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET handler implementation
+const getHandler = async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { id } = await params
+    const { userId } = await authenticateRequest(request)
+
+    await requireRole(id, userId, 'viewer')
+
+    const tracker = await createUsageTracker()
+    const [limit, stats] = await Promise.all([
+      tracker.checkUsageLimit(userId, id),
+      tracker.getUsageStats(userId, id),
+    ])
+
+    return successResponse({ limit, stats }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/organizations/{id}/usage',
+    summary: 'Get pooled credit usage',
+    description: 'Show how much of the organization\'s monthly credit pool its members have used. Any member can do this.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }],
+    parameters: [{
+      name: 'id',
+      in: 'path' as const,
+      required: true,
+      description: 'Organization ID',
+      schema: { type: 'string' }
+    }]
+  },
+  undefined,
+  responses(
+    response(200, 'Usage retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          limit: z.object({
+            tier: z.enum(['free', 'basic', 'pro', 'premium']),
+            monthlyCredits: z.number(),
+            remainingCredits: z.number(),
+            usedCredits: z.number(),
+            percentageUsed: z.number(),
+            canProceed: z.boolean(),
+            organizationId: z.string()
+          }),
+          stats: z.object({
+            currentMonth: z.object({
+              total: z.number(),
+              byAction: z.record(z.number()),
+              dailyUsage: z.array(z.object({ date: z.string(), count: z.number() }))
+            }),
+            lastMonth: z.object({ total: z.number() }),
+            allTime: z.object({ total: z.number() })
+          })
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(403, 'Forbidden - Not a member of the organization'),
+    response(500, 'Internal server error')
+  )
+)
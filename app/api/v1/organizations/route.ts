@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server'
+import {
+  authenticateRequest,
+  generateRequestId
+} from '@/lib/api/middleware'
+import {
+  successResponse,
+  errorResponse,
+  apiErrors
+} from '@/lib/api/response'
+import {
+  organizationSchema,
+  organizationResponseSchema,
+  organizationRoleSchema,
+  validateRequest,
+  formatValidationErrors
+} from '@/lib/api/validation'
+import { OrganizationStore } from '@/lib/organizations'
+import {
+  documentRoute,
+  requestBody,
+  response,
+  responses
+} from '@/lib/api/openapi/decorators'
+import { z } from 'zod'
+
+// GET handler implementation
+const getHandler = async (request: NextRequest) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { userId } = await authenticateRequest(request)
+
+    const organizations = await OrganizationStore.listForUser(userId)
+
+    return successResponse({ organizations }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// POST handler implementation
+const postHandler = async (request: NextRequest) => {
+  const requestId = generateRequestId()
+
+  try {
+    const { userId } = await authenticateRequest(request)
+
+    const validation = validateRequest(organizationSchema, await request.json())
+    if (!validation.success) {
+      throw apiErrors.badRequest('Invalid organization', formatValidationErrors(validation.error))
+    }
+
+    const organization = await OrganizationStore.create(userId, validation.data.name)
+
+    return successResponse({ ...organization, role: 'owner' }, { requestId })
+
+  } catch (error) {
+    return errorResponse(error as Error, requestId)
+  }
+}
+
+// Document the GET endpoint
+export const GET = documentRoute(
+  getHandler,
+  {
+    method: 'GET',
+    path: '/api/v1/organizations',
+    summary: 'List organizations',
+    description: 'List the organizations the authenticated user belongs to, with their role in each.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }]
+  },
+  undefined,
+  responses(
+    response(200, 'Organizations retrieved successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: z.object({
+          organizations: z.array(organizationResponseSchema.extend({ role: organizationRoleSchema }))
+        })
+      })
+    }),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(500, 'Internal server error')
+  )
+)
+
+// Document the POST endpoint
+export const POST = documentRoute(
+  postHandler,
+  {
+    method: 'POST',
+    path: '/api/v1/organizations',
+    summary: 'Create an organization',
+    description: 'Create a team workspace with the authenticated user as its owner. Send its ID in the X-Organization-Id header to work with its shared documents, credits, API keys and webhooks.',
+    tags: ['organizations'],
+    security: [{ bearerAuth: [] }]
+  },
+  requestBody(
+    organizationSchema,
+    {
+      description: 'Organization details',
+      contentType: 'application/json'
+    }
+  ),
+  responses(
+    response(200, 'Organization created successfully', {
+      schema: z.object({
+        success: z.boolean(),
+        data: organizationResponseSchema.extend({ role: organizationRoleSchema })
+      })
+    }),
+    response(400, 'Bad request - Invalid name'),
+    response(401, 'Unauthorized - Invalid or missing authentication'),
+    response(500, 'Internal server error')
+  )
+)
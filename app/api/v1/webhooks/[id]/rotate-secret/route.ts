@@ -3,6 +3,7 @@ import { withAuth } from '@/lib/api/auth/middleware'
 import { withRateLimit } from '@/lib/api/middleware/rate-limit'
 import { createAPIResponse, apiErrors } from '@/lib/api/response'
 import { webhookManager } from '@/lib/api/webhooks/manager'
+import { resolveWorkspace } from '@/lib/organizations'
 
 interface RouteParams {
   params: { id: string }
@@ -12,10 +13,14 @@ interface RouteParams {
 export const POST = withAuth(
   withRateLimit({ maxRequests: 10 })(
     async (request: NextRequest, context, { params }: RouteParams) => {
+      // Organization webhooks are managed by the organization's owners
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         const result = await webhookManager.rotateWebhookSecret(
           context.user!.id,
-          params.id
+          params.id,
+          workspace?.organizationId
         )
         
         return createAPIResponse({
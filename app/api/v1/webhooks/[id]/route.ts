@@ -4,6 +4,7 @@ import { withRateLimit } from '@/lib/api/middleware/rate-limit'
 import { withValidation } from '@/lib/api/middleware/validation'
 import { createAPIResponse, apiErrors } from '@/lib/api/response'
 import { webhookManager } from '@/lib/api/webhooks/manager'
+import { resolveWorkspace } from '@/lib/organizations'
 import { z } from 'zod'
 import { WebhookEventType } from '@/lib/api/types'
 import { 
@@ -46,10 +47,14 @@ interface RouteParams {
 const getHandler = withAuth(
   withRateLimit({ maxRequests: 100 })(
     async (request: NextRequest, context, { params }: RouteParams) => {
+      // Organization webhooks are managed by the organization's owners
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         const webhook = await webhookManager.getWebhook(
           context.user!.id,
-          params.id
+          params.id,
+          workspace?.organizationId
         )
         
         return createAPIResponse({
@@ -122,6 +127,8 @@ const putHandler = withAuth(
       schema: updateWebhookSchema,
       source: 'body'
     })(async (request: NextRequest, context, { params }: RouteParams) => {
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         const body = await request.json()
         const validated = updateWebhookSchema.parse(body)
@@ -135,7 +142,8 @@ const putHandler = withAuth(
             is_active: validated.is_active,
             headers: validated.headers,
             retry_policy: validated.retryPolicy
-          }
+          },
+          workspace?.organizationId
         )
         
         return createAPIResponse({
@@ -215,10 +223,13 @@ export const PUT = documentRoute(
 const deleteHandler = withAuth(
   withRateLimit({ maxRequests: 50 })(
     async (request: NextRequest, context, { params }: RouteParams) => {
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         await webhookManager.deleteWebhook(
           context.user!.id,
-          params.id
+          params.id,
+          workspace?.organizationId
         )
         
         return createAPIResponse({
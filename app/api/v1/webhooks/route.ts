@@ -4,6 +4,7 @@ import { withRateLimit } from '@/lib/api/middleware/rate-limit'
 import { withValidation } from '@/lib/api/middleware/validation'
 import { createAPIResponse, apiErrors } from '@/lib/api/response'
 import { webhookManager } from '@/lib/api/webhooks/manager'
+import { resolveWorkspace } from '@/lib/organizations'
 import { z } from 'zod'
 import { WebhookEventType } from '@/lib/api/types'
 import { 
@@ -50,6 +51,9 @@ const getHandler = withAuth(
       schema: webhookQuerySchema,
       source: 'query'
     })(async (request: NextRequest, context) => {
+      // Organization webhooks are managed by the organization's owners
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         const { searchParams } = new URL(request.url)
         const query = Object.fromEntries(searchParams.entries())
@@ -59,7 +63,8 @@ const getHandler = withAuth(
           context.user!.id,
           {
             isActive: validated.is_active,
-            events: validated.events
+            events: validated.events,
+            organizationId: workspace?.organizationId
           }
         )
         
@@ -130,6 +135,8 @@ const postHandler = withAuth(
       schema: createWebhookSchema,
       source: 'body'
     })(async (request: NextRequest, context) => {
+      const workspace = await resolveWorkspace(request, context.user!.id, 'owner', context.apiKey?.organizationId)
+
       try {
         const body = await request.json()
         const validated = createWebhookSchema.parse(body)
@@ -139,6 +146,7 @@ const postHandler = withAuth(
           {
             url: validated.url,
             events: validated.events as WebhookEventType[],
+            organizationId: workspace?.organizationId,
             headers: validated.headers,
             retryPolicy: validated.retryPolicy
           }
@@ -6,6 +6,7 @@ import { generateRequestId } from '@/lib/api/middleware'
 import { createClient } from '@/lib/supabase/server'
 import { getQueue, QUEUE_NAMES } from '@/lib/queue/client'
 import { APIVersionManager } from '@/lib/api/versioning'
+import { cancelEnhancement } from '@/lib/enhancement/cancel-enhancement'
 import { logger } from '@/lib/observability'
 
 interface RouteParams {
@@ -140,64 +141,28 @@ export const DELETE = withRedisRateLimit(
       const auth = await authorize(request, ['enhance:delete'])
       const userId = auth.userId
       
-      const supabase = await createClient()
-      
-      // Get enhancement
-      const { data: enhancement, error: fetchError } = await supabase
-        .from('enhancements')
-        .select('*')
-        .eq('id', enhancementId)
-        .eq('user_id', userId)
-        .single()
+      // Queued jobs are dropped; running ones are stopped by their worker,
+      // which also removes anything it had uploaded. The credit is refunded.
+      const result = await cancelEnhancement(userId, enhancementId)
       
-      if (fetchError || !enhancement) {
+      if (result.status === 'not_found') {
         throw apiErrors.NOT_FOUND
       }
       
       // Check if enhancement can be cancelled
-      if (enhancement.status !== 'pending' && enhancement.status !== 'processing') {
+      if (result.status === 'not_cancellable') {
         throw apiErrors.VALIDATION_ERROR(
           'Enhancement cannot be cancelled',
-          { status: enhancement.status }
+          { status: result.currentStatus }
         )
       }
       
-      // Cancel job in queue
-      if (enhancement.job_id) {
-        const enhancementQueue = getQueue(QUEUE_NAMES.ENHANCEMENT)
-        
-        try {
-          const job = await enhancementQueue.getJob(enhancement.job_id)
-          if (job) {
-            await job.remove()
-          }
-        } catch (error) {
-          logger.warn({ err: error, jobId: enhancement.job_id }, 'Failed to remove job from queue')
-        }
-      }
-      
-      // Update enhancement status
-      const { error: updateError } = await supabase
-        .from('enhancements')
-        .update({
-          status: 'cancelled',
-          error: {
-            code: 'CANCELLED_BY_USER',
-            message: 'Enhancement was cancelled by user',
-            timestamp: new Date().toISOString()
-          }
-        })
-        .eq('id', enhancementId)
-      
-      if (updateError) {
-        throw apiErrors.INTERNAL_ERROR
-      }
-      
       logger.info({ enhancementId, userId }, 'Enhancement cancelled')
       
       return successResponse({
         id: enhancementId,
         status: 'cancelled',
+        refundedCredits: result.refundedCredits,
         message: 'Enhancement has been cancelled successfully'
       }, {
         requestId,
@@ -156,7 +156,7 @@ const batchEnhanceHandler = withCircuitBreaker(
               const fileExtension = file.name.split('.').pop() || 'pdf'
               const fileName = `${documentId}.${fileExtension}`
               
-              const fileUrl = await uploadFile({
+              const { url: fileUrl } = await uploadFile({
                 file: fileBuffer,
                 userId,
                 filename: fileName,
@@ -170,6 +170,7 @@ const batchEnhanceHandler = withCircuitBreaker(
                 documentId,
                 enhancementId,
                 userId,
+                originalUrl: fileUrl,
                 metadata: {
                   fileName: file.name,
                   fileType: file.type,
@@ -247,6 +248,8 @@ const batchEnhanceHandler = withCircuitBreaker(
                   batchWebhookUrl: globalSettings.webhookUrl
                 },
                 {
+                  // Lets a cancel request find the job by enhancement id
+                  jobId: enhancementId,
                   priority: priority === 'high' ? 1 : priority === 'low' ? 3 : 2,
                   removeOnComplete: true,
                   removeOnFail: false,
@@ -126,7 +126,7 @@ const enhanceHandler = withCircuitBreaker(
         const fileExtension = file!.name.split('.').pop() || 'pdf'
         const fileName = `${documentId}.${fileExtension}`
         
-        const fileUrl = await uploadFile({
+        const { url: fileUrl } = await uploadFile({
           file: fileBuffer,
           userId,
           filename: fileName,
@@ -141,6 +141,7 @@ const enhanceHandler = withCircuitBreaker(
           enhancementId,
           userId,
           cacheKey: enhanceRequest.cacheKey,
+          originalUrl: fileUrl,
           metadata: {
             fileName: file!.name,
             fileType: file!.type,
@@ -246,10 +247,13 @@ const enhanceHandler = withCircuitBreaker(
             },
             enhancementSettings: enhanceRequest.enhancementSettings || {},
             subscriptionTier: tier,
+            bypassCache: enhanceRequest.bypassCache,
             webhookUrl: enhanceRequest.webhookUrl,
             webhookEvents: enhanceRequest.webhookEvents
           },
           {
+            // Lets a cancel request find the job by enhancement id
+            jobId: enhancementId,
             priority: enhanceRequest.priority === 'high' ? 1 : 
                      enhanceRequest.priority === 'low' ? 3 : 2,
             removeOnComplete: true,
@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Search, Unlock } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { Loading } from '@/components/ui/loading';
+
+type BlockedIP = {
+  ip: string;
+  reason: string;
+  blocked_at: string;
+  expires_at: string | null;
+  metadata: {
+    autoBlocked?: boolean;
+    score?: number;
+    offences?: number;
+  } | null;
+};
+
+type IPHistory = {
+  ip: string;
+  score: number;
+  offences: number;
+  updatedAt: string;
+  lastBlockedAt?: string;
+  events: Array<{ type: string; points: number; at: string }>;
+};
+
+type ThreatFeed = {
+  name: string;
+  entries: number;
+  skipped: number;
+  loadedAt: string;
+};
+
+export default function AdminIPReputationPage() {
+  const [blocked, setBlocked] = useState<BlockedIP[]>([]);
+  const [history, setHistory] = useState<IPHistory[]>([]);
+  const [feeds, setFeeds] = useState<ThreatFeed[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [unblocking, setUnblocking] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    checkAdminAccess();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const checkAdminAccess = async () => {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const adminEmails = process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(',') || [];
+    setIsAdmin(user?.email ? adminEmails.includes(user.email) : false);
+
+    if (user?.email && adminEmails.includes(user.email)) {
+      await loadReputationData();
+    }
+
+    setLoading(false);
+  };
+
+  const loadReputationData = async () => {
+    const response = await fetch('/api/admin/ip-reputation');
+    if (!response.ok) {
+      console.error('Failed to load IP reputation:', response.status);
+      return;
+    }
+
+    const data = await response.json();
+    setBlocked(data.blocked);
+    setHistory(data.history);
+    setFeeds(data.feeds);
+  };
+
+  const unblockIP = async (ip: string) => {
+    setUnblocking(ip);
+    try {
+      const response = await fetch(`/api/admin/ip-reputation?ip=${encodeURIComponent(ip)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        console.error('Failed to unblock IP:', response.status);
+        return;
+      }
+      await loadReputationData();
+    } finally {
+      setUnblocking(null);
+    }
+  };
+
+  const matchesSearch = (ip: string, reason?: string) =>
+    ip.includes(searchTerm) ||
+    (reason?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false);
+
+  const filteredBlocked = blocked.filter(entry => matchesSearch(entry.ip, entry.reason));
+  const filteredHistory = history.filter(entry => matchesSearch(entry.ip));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <Loading size="xl" text="Loading IP reputation..." />
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Access Denied</CardTitle>
+            <CardDescription>
+              You do not have permission to view this page.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">IP Reputation</h1>
+          <p className="text-muted-foreground mt-2">
+            Review blocked addresses, threat scores and loaded threat feeds
+          </p>
+        </div>
+        <Button onClick={() => loadReputationData()} variant="outline">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Stats */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Blocked IPs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{blocked.length}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Auto-blocked</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {blocked.filter(entry => entry.metadata?.autoBlocked).length}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Scored IPs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{history.length}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Feed Entries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {feeds.reduce((sum, feed) => sum + feed.entries, 0)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="blocked" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="blocked">Blocked</TabsTrigger>
+          <TabsTrigger value="history">Scores</TabsTrigger>
+          <TabsTrigger value="feeds">Threat Feeds</TabsTrigger>
+        </TabsList>
+
+        <div className="flex items-center gap-2">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search IPs..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="max-w-sm"
+          />
+        </div>
+
+        <TabsContent value="blocked" className="space-y-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Blocked</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredBlocked.map((entry) => (
+                  <TableRow key={entry.ip}>
+                    <TableCell className="font-mono">{entry.ip}</TableCell>
+                    <TableCell>
+                      <div>{entry.reason}</div>
+                      {entry.metadata?.autoBlocked && (
+                        <Badge variant="secondary" className="mt-1">
+                          Auto · {entry.metadata.offences ?? 1} offence(s)
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(entry.blocked_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {entry.expires_at ? (
+                        new Date(entry.expires_at).toLocaleString()
+                      ) : (
+                        <Badge variant="destructive">Permanent</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={unblocking === entry.ip}
+                        onClick={() => unblockIP(entry.ip)}
+                      >
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Unblock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IP</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">Offences</TableHead>
+                  <TableHead>Latest Event</TableHead>
+                  <TableHead>Last Blocked</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredHistory.map((entry) => {
+                  const latest = entry.events[entry.events.length - 1];
+                  return (
+                    <TableRow key={entry.ip}>
+                      <TableCell className="font-mono">{entry.ip}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.score >= 50 ? (
+                          <Badge variant="destructive">{entry.score.toFixed(0)}</Badge>
+                        ) : (
+                          <Badge variant="outline">{entry.score.toFixed(0)}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.offences.toFixed(1)}</TableCell>
+                      <TableCell>
+                        {latest && (
+                          <div className="text-sm">
+                            <div>{latest.type}</div>
+                            <div className="text-muted-foreground">
+                              +{latest.points} · {new Date(latest.at).toLocaleString()}
+                            </div>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {entry.lastBlockedAt ? new Date(entry.lastBlockedAt).toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={unblocking === entry.ip}
+                          onClick={() => unblockIP(entry.ip)}
+                        >
+                          Forgive
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="feeds" className="space-y-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feed</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead>Loaded</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feeds.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No threat feeds loaded. Add Spamhaus DROP or FireHOL lists to the threat feed directory.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  feeds.map((feed) => (
+                    <TableRow key={feed.name}>
+                      <TableCell className="font-medium">{feed.name}</TableCell>
+                      <TableCell className="text-right">{feed.entries}</TableCell>
+                      <TableCell className="text-right">{feed.skipped}</TableCell>
+                      <TableCell>{new Date(feed.loadedAt).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -304,6 +304,16 @@ function InsightsView({ report }: { report: EnhancementReport }) {
           </CardHeader>
           <CardContent className="space-y-3">
             <p className="text-gray-600">{insight.description}</p>
+            {insight.examples && insight.examples.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-1">From your document:</p>
+                <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
+                  {insight.examples.map((example, index) => (
+                    <li key={index}>{example}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
               <p className="text-sm font-medium text-blue-900">💡 Pro Tip</p>
               <p className="text-sm text-blue-800 mt-1">{insight.tip}</p>
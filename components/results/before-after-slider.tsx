@@ -4,25 +4,77 @@ import { useState, useRef, useEffect } from 'react'
 import { Card } from '@/components/ui/card'
 import { Slider } from '@/components/ui/slider'
 import { Button } from '@/components/ui/button'
-import { ChevronLeft, ChevronRight, Maximize2, X } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, ChevronLeft, ChevronRight, Maximize2, X } from 'lucide-react'
 import Image from 'next/image'
 import { Loading } from '@/components/ui/loading';
+import type { ColorVisionConflict, ColorVisionType } from '@/lib/accessibility/types'
 
 interface BeforeAfterSliderProps {
   beforeUrl: string
   afterUrl: string
   documentType: string
+  // Enables the color vision views, which are rendered for this enhancement
+  enhancementId?: string
 }
 
-export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeAfterSliderProps) {
+type VisionView = 'normal' | ColorVisionType
+
+interface ColorVisionSimulation {
+  before: { keyColors: string[]; previews: Record<ColorVisionType, string> }
+  after: { keyColors: string[]; previews: Record<ColorVisionType, string> }
+  warnings: Array<ColorVisionConflict & { image: 'before' | 'after' }>
+}
+
+const VISION_VIEWS: Array<{ value: VisionView; label: string }> = [
+  { value: 'normal', label: 'Typical vision' },
+  { value: 'protanopia', label: 'Protanopia' },
+  { value: 'deuteranopia', label: 'Deuteranopia' },
+  { value: 'tritanopia', label: 'Tritanopia' },
+  { value: 'achromatopsia', label: 'Achromatopsia' },
+]
+
+export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType, enhancementId }: BeforeAfterSliderProps) {
   const [sliderPosition, setSliderPosition] = useState(50)
   const [isDragging, setIsDragging] = useState(false)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [imageLoaded, setImageLoaded] = useState({ before: false, after: false })
+  const [vision, setVision] = useState<VisionView>('normal')
+  const [simulation, setSimulation] = useState<ColorVisionSimulation | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const sliderRef = useRef<HTMLDivElement>(null)
 
-  const isPDF = documentType === 'application/pdf'
+  // Simulations are always images, even of a PDF's first page
+  const previews = vision !== 'normal' && simulation
+    ? { before: simulation.before.previews[vision], after: simulation.after.previews[vision] }
+    : null
+  const isPDF = documentType === 'application/pdf' && !previews
+  const shownBeforeUrl = previews?.before || beforeUrl
+  const shownAfterUrl = previews?.after || afterUrl
+
+  // Only the enhanced file's conflicts are worth warning about; the original's are why it was enhanced
+  const afterWarnings = simulation?.warnings.filter(warning => warning.image === 'after') || []
+  const viewWarnings = afterWarnings.filter(warning => vision === 'normal' || warning.type === vision)
+
+  useEffect(() => {
+    if (!enhancementId) return
+    setSimulation(null)
+    loadSimulation(enhancementId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enhancementId, beforeUrl, afterUrl])
+
+  const loadSimulation = async (id: string) => {
+    try {
+      const query = new URLSearchParams({ before: beforeUrl, after: afterUrl })
+      const response = await fetch(`/api/v1/enhance/${id}/color-vision?${query}`)
+      if (!response.ok) throw new Error('Failed to load color vision previews')
+
+      const { data } = await response.json()
+      setSimulation(data)
+    } catch (err) {
+      console.error('Error loading color vision previews:', err)
+    }
+  }
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -73,7 +125,7 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
             style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
           >
             <iframe
-              src={`${beforeUrl}#toolbar=0`}
+              src={`${shownBeforeUrl}#toolbar=0`}
               className="w-full h-full border-0"
               title="Before PDF"
             />
@@ -86,7 +138,7 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
             style={{ clipPath: `inset(0 0 0 ${sliderPosition}%)` }}
           >
             <iframe
-              src={`${afterUrl}#toolbar=0`}
+              src={`${shownAfterUrl}#toolbar=0`}
               className="w-full h-full border-0"
               title="After PDF"
             />
@@ -107,7 +159,7 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
         >
           <div className="relative w-full h-full">
             <Image
-              src={beforeUrl}
+              src={shownBeforeUrl}
               alt="Before enhancement"
               fill
               className="object-contain"
@@ -128,7 +180,7 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
         >
           <div className="relative w-full h-full">
             <Image
-              src={afterUrl}
+              src={shownAfterUrl}
               alt="After enhancement"
               fill
               className="object-contain"
@@ -177,6 +229,52 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
         )}
       </div>
 
+      {/* Color vision views */}
+      {enhancementId && (
+        <div className="flex flex-wrap items-center gap-2">
+          {VISION_VIEWS.map(view => {
+            const hasWarnings = view.value !== 'normal' && afterWarnings.some(warning => warning.type === view.value)
+            return (
+              <Button
+                key={view.value}
+                variant={vision === view.value ? 'default' : 'outline'}
+                size="sm"
+                disabled={view.value !== 'normal' && !simulation}
+                onClick={() => setVision(view.value)}
+              >
+                {hasWarnings && <AlertTriangle className="h-3 w-3 mr-1 text-amber-500" />}
+                {view.label}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+
+      {viewWarnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium">
+              {vision === 'normal'
+                ? 'Some key colors in the enhanced version are hard to tell apart with color blindness.'
+                : `Some key colors in the enhanced version look the same with ${vision}.`}
+            </p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {viewWarnings.map(warning => (
+                <li key={`${warning.type}-${warning.colors.join('-')}`} className="flex items-center gap-2">
+                  <ColorSwatch color={warning.colors[0]} />
+                  <ColorSwatch color={warning.colors[1]} />
+                  <span>
+                    {warning.colors.join(' and ')}
+                    {vision === 'normal' && ` with ${warning.type}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Controls */}
       <div className="flex items-center gap-4">
         <Button
@@ -230,4 +328,7 @@ export function BeforeAfterSlider({ beforeUrl, afterUrl, documentType }: BeforeA
   }
 
   return <Card className="p-6">{content}</Card>
-}
\ No newline at end of file
+}
+function ColorSwatch({ color }: { color: string }) {
+  return <span className="inline-block h-4 w-4 rounded border" style={{ backgroundColor: color }} />
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { History, RotateCcw } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+export interface EnhancementVersionOption {
+  id: string
+  versionNumber: number
+  enhancedFileUrl: string
+  revertedFrom?: string
+  createdAt: string
+  scores?: { overallScore?: { before: number; after: number } }
+}
+
+// Selecting the original document rather than an enhancement version
+export const ORIGINAL_VERSION = 'original'
+
+interface VersionPickerProps {
+  enhancementId: string
+  originalUrl: string
+  onChange: (selection: { beforeUrl: string; afterUrl: string }) => void
+  onReverted?: (version: EnhancementVersionOption) => void
+}
+
+export function VersionPicker({
+  enhancementId,
+  originalUrl,
+  onChange,
+  onReverted,
+}: VersionPickerProps) {
+  const { toast } = useToast()
+  const [versions, setVersions] = useState<EnhancementVersionOption[]>([])
+  const [before, setBefore] = useState(ORIGINAL_VERSION)
+  const [after, setAfter] = useState<string | null>(null)
+  const [reverting, setReverting] = useState(false)
+
+  useEffect(() => {
+    loadVersions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enhancementId])
+
+  const loadVersions = async () => {
+    try {
+      const response = await fetch(`/api/v1/enhance/${enhancementId}/versions`)
+      if (!response.ok) throw new Error('Failed to load versions')
+
+      const { data } = await response.json()
+      setVersions(data.versions)
+      // Versions come newest first
+      if (data.versions.length > 0) {
+        setAfter(data.versions[0].id)
+      }
+    } catch (err) {
+      console.error('Error loading versions:', err)
+    }
+  }
+
+  const urlFor = (value: string | null) => {
+    if (!value || value === ORIGINAL_VERSION) return originalUrl
+    return versions.find(v => v.id === value)?.enhancedFileUrl || originalUrl
+  }
+
+  useEffect(() => {
+    if (after) {
+      onChange({ beforeUrl: urlFor(before), afterUrl: urlFor(after) })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [before, after, versions])
+
+  const revert = async () => {
+    if (!after || after === ORIGINAL_VERSION) return
+
+    try {
+      setReverting(true)
+      const response = await fetch(
+        `/api/v1/enhance/${enhancementId}/versions/${after}/revert`,
+        { method: 'POST' }
+      )
+      if (!response.ok) throw new Error('Revert failed')
+
+      const { data } = await response.json()
+      await loadVersions()
+      onReverted?.(data)
+
+      toast({
+        title: 'Version restored',
+        description: `Saved as version ${data.versionNumber}`,
+      })
+    } catch (err) {
+      console.error('Error reverting version:', err)
+      toast({
+        title: 'Revert failed',
+        description: 'Could not restore this version. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setReverting(false)
+    }
+  }
+
+  // Nothing to pick between until the document has been enhanced twice
+  if (versions.length < 2) {
+    return null
+  }
+
+  const latestId = versions[0].id
+
+  const renderOptions = () => (
+    <>
+      <SelectItem value={ORIGINAL_VERSION}>Original</SelectItem>
+      {versions.map(version => (
+        <SelectItem key={version.id} value={version.id}>
+          Version {version.versionNumber}
+          {version.scores?.overallScore && ` · score ${version.scores.overallScore.after}`}
+          {version.id === latestId && ' (current)'}
+        </SelectItem>
+      ))}
+    </>
+  )
+
+  return (
+    <Card>
+      <CardContent className="py-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4 text-muted-foreground" />
+            Compare versions
+            <Badge variant="secondary">{versions.length}</Badge>
+          </div>
+          <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Before</p>
+              <Select value={before} onValueChange={setBefore}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>{renderOptions()}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">After</p>
+              <Select value={after || undefined} onValueChange={setAfter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>{renderOptions()}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={revert}
+            disabled={reverting || !after || after === ORIGINAL_VERSION || after === latestId}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {reverting ? 'Restoring...' : 'Restore this version'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
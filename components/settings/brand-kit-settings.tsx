@@ -0,0 +1,351 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Palette, Plus, Trash2, Upload, X } from 'lucide-react';
+import { useBrandKits } from '@/hooks/use-brand-kits';
+import type { BrandKit, BrandKitInput } from '@/lib/brand-kits/types';
+
+const PALETTE_SLOTS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+const EMPTY_KIT: BrandKitInput = {
+  name: '',
+  palette: {
+    primary: '#1E40AF',
+    secondary: '#64748B',
+    accent: '#F59E0B',
+    background: '#FFFFFF',
+    text: '#111827',
+  },
+  headingFont: '',
+  bodyFont: '',
+  forbiddenColors: [],
+  isDefault: false,
+};
+
+function toInput(kit: BrandKit): BrandKitInput {
+  return {
+    name: kit.name,
+    palette: kit.palette,
+    headingFont: kit.headingFont || '',
+    bodyFont: kit.bodyFont || '',
+    forbiddenColors: kit.forbiddenColors,
+    isDefault: kit.isDefault,
+  };
+}
+
+export function BrandKitSettings() {
+  const { brandKits, isLoading, error, createKit, updateKit, deleteKit, uploadLogo, removeLogo } = useBrandKits();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Brand Kits</h2>
+          <p className="text-sm text-muted-foreground">
+            Colors, fonts and logos that enhancements must follow
+          </p>
+        </div>
+        {editingId !== 'new' && (
+          <Button onClick={() => setEditingId('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Brand Kit
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {editingId === 'new' && (
+        <BrandKitForm
+          initial={EMPTY_KIT}
+          onCancel={() => setEditingId(null)}
+          onSave={async (input) => {
+            if (await createKit(input)) setEditingId(null);
+          }}
+        />
+      )}
+
+      {brandKits.length === 0 && editingId !== 'new' && (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <Palette className="mb-4 h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              No brand kits yet. Create one to keep enhancements on-brand.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {brandKits.map((kit) => (
+        editingId === kit.id ? (
+          <BrandKitForm
+            key={kit.id}
+            initial={toInput(kit)}
+            onCancel={() => setEditingId(null)}
+            onSave={async (input) => {
+              if (await updateKit(kit.id, input)) setEditingId(null);
+            }}
+          />
+        ) : (
+          <Card key={kit.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    {kit.name}
+                    {kit.isDefault && <Badge>Default</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {[kit.headingFont, kit.bodyFont].filter(Boolean).join(' / ') || 'No fonts set'}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditingId(kit.id)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Delete ${kit.name}`}
+                    onClick={() => deleteKit(kit.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                {PALETTE_SLOTS.map((slot) => (
+                  <div
+                    key={slot}
+                    className="h-8 w-8 rounded border"
+                    style={{ backgroundColor: kit.palette[slot] }}
+                    title={`${slot}: ${kit.palette[slot]}`}
+                  />
+                ))}
+                {kit.forbiddenColors.map((color) => (
+                  <div
+                    key={color}
+                    className="flex h-8 w-8 items-center justify-center rounded border"
+                    style={{ backgroundColor: color }}
+                    title={`Forbidden: ${color}`}
+                  >
+                    <X className="h-4 w-4 text-white mix-blend-difference" />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                {kit.logos.map((logo) => (
+                  <div key={logo.id} className="relative rounded border p-2">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={logo.url} alt={logo.name} className="h-12 w-auto" />
+                    <button
+                      type="button"
+                      className="absolute -right-2 -top-2 rounded-full bg-background p-0.5 shadow"
+                      aria-label={`Remove ${logo.name}`}
+                      onClick={() => removeLogo(kit.id, logo.id)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                <Label
+                  htmlFor={`logo-${kit.id}`}
+                  className="flex cursor-pointer items-center gap-2 rounded border border-dashed px-3 py-2 text-sm text-muted-foreground"
+                >
+                  <Upload className="h-4 w-4" />
+                  Upload logo
+                </Label>
+                <input
+                  id={`logo-${kit.id}`}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp,image/svg+xml"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) uploadLogo(kit.id, file);
+                    event.target.value = '';
+                  }}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )
+      ))}
+    </div>
+  );
+}
+
+interface BrandKitFormProps {
+  initial: BrandKitInput;
+  onSave: (input: BrandKitInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+function BrandKitForm({ initial, onSave, onCancel }: BrandKitFormProps) {
+  const [kit, setKit] = useState<BrandKitInput>(initial);
+  const [forbidden, setForbidden] = useState('#FF0000');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave({
+      ...kit,
+      headingFont: kit.headingFont?.trim() || undefined,
+      bodyFont: kit.bodyFont?.trim() || undefined,
+    });
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initial.name ? `Edit ${initial.name}` : 'New Brand Kit'}</CardTitle>
+        <CardDescription>
+          Enhancements use these colors and fonts in place of their own choices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="brand-kit-name">Name</Label>
+          <Input
+            id="brand-kit-name"
+            value={kit.name}
+            onChange={(event) => setKit({ ...kit, name: event.target.value })}
+            placeholder="Acme School District"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Palette</Label>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+            {PALETTE_SLOTS.map((slot) => (
+              <div key={slot} className="space-y-1">
+                <Label htmlFor={`brand-kit-${slot}`} className="text-xs capitalize text-muted-foreground">
+                  {slot}
+                </Label>
+                <Input
+                  id={`brand-kit-${slot}`}
+                  type="color"
+                  value={kit.palette[slot]}
+                  onChange={(event) => setKit({
+                    ...kit,
+                    palette: { ...kit.palette, [slot]: event.target.value.toUpperCase() },
+                  })}
+                  className="h-10 p-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-heading-font">Heading font</Label>
+            <Input
+              id="brand-kit-heading-font"
+              value={kit.headingFont || ''}
+              onChange={(event) => setKit({ ...kit, headingFont: event.target.value })}
+              placeholder="Montserrat"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-body-font">Body font</Label>
+            <Input
+              id="brand-kit-body-font"
+              value={kit.bodyFont || ''}
+              onChange={(event) => setKit({ ...kit, bodyFont: event.target.value })}
+              placeholder="Open Sans"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="brand-kit-forbidden">Forbidden colors</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            {kit.forbiddenColors.map((color) => (
+              <Badge key={color} variant="secondary" className="gap-1">
+                <span className="h-3 w-3 rounded-full border" style={{ backgroundColor: color }} />
+                {color}
+                <button
+                  type="button"
+                  aria-label={`Allow ${color}`}
+                  onClick={() => setKit({
+                    ...kit,
+                    forbiddenColors: kit.forbiddenColors.filter((item) => item !== color),
+                  })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <Input
+              id="brand-kit-forbidden"
+              type="color"
+              value={forbidden}
+              onChange={(event) => setForbidden(event.target.value.toUpperCase())}
+              className="h-9 w-14 p-1"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (!kit.forbiddenColors.includes(forbidden)) {
+                  setKit({ ...kit, forbiddenColors: [...kit.forbiddenColors, forbidden] });
+                }
+              }}
+            >
+              Forbid
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="brand-kit-default">Default kit</Label>
+            <p className="text-sm text-muted-foreground">
+              Used when you pick the Brand color scheme without choosing a kit
+            </p>
+          </div>
+          <Switch
+            id="brand-kit-default"
+            checked={kit.isDefault}
+            onCheckedChange={(checked) => setKit({ ...kit, isDefault: checked })}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || !kit.name.trim()}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
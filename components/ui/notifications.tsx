@@ -6,7 +6,9 @@ import { useWebSocketConnection } from '@/contexts/websocket-context'
 import { cn } from '@/lib/utils'
 
 export function Notifications() {
-  const { notifications, clearNotification } = useWebSocketConnection()
+  const { notifications: all, clearNotification } = useWebSocketConnection()
+  // Usage limit warnings are shown by UsageNotification
+  const notifications = all.filter(notification => !notification.usage)
   const [visible, setVisible] = useState<Set<string>>(new Set())
 
   useEffect(() => {
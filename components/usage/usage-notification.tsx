@@ -1,9 +1,11 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/auth-context';
+import { useWebSocketConnection } from '@/contexts/websocket-context';
 import { useSubscription } from '@/hooks/use-subscription';
 import { createClientUsageTracker } from '@/lib/usage/tracking-client';
+import { getCrossedThreshold, getUpgradeTier, getUpgradeUrl } from '@/lib/usage/limit-thresholds';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Zap, X } from 'lucide-react';
@@ -14,14 +16,67 @@ interface NotificationState {
   type: 'warning' | 'critical' | 'exceeded';
   message: string;
   percentage: number;
+  threshold: number;
+}
+
+// Dismissals last until the next reset so a warning only shows once
+const DISMISSED_STORAGE_KEY = 'usage-warnings-dismissed';
+
+function toNotification(percentageUsed: number, threshold: number): NotificationState {
+  return {
+    show: true,
+    type: threshold >= 100 ? 'exceeded' : threshold >= 90 ? 'critical' : 'warning',
+    message: threshold >= 100
+      ? 'You have reached your monthly credit limit'
+      : `You have used ${Math.round(percentageUsed)}% of your monthly credits`,
+    percentage: Math.min(100, percentageUsed),
+    threshold,
+  };
+}
+
+function loadDismissed(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
 }
 
 export function UsageNotification() {
   const { user } = useAuth();
-  const { canUpgrade } = useSubscription();
+  const { tier, canUpgrade } = useSubscription();
+  const { notifications, clearNotification } = useWebSocketConnection();
   const [notification, setNotification] = useState<NotificationState | null>(null);
   const [dismissed, setDismissed] = useState<Set<string>>(new Set());
 
+  useEffect(() => {
+    setDismissed(loadDismissed());
+  }, []);
+
+  const dismissKey = useCallback((threshold: number) => {
+    const now = new Date();
+    return `${user?.id}-${now.getMonth()}-${now.getFullYear()}-${threshold}`;
+  }, [user]);
+
+  const checkUsageStatus = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const tracker = createClientUsageTracker();
+      const usage = await tracker.checkUsageLimit(user.id);
+      const threshold = getCrossedThreshold(usage.percentageUsed);
+
+      if (threshold === null) {
+        // Clear notification if usage drops below threshold
+        setNotification(null);
+      } else if (!dismissed.has(dismissKey(threshold))) {
+        setNotification(toNotification(usage.percentageUsed, threshold));
+      }
+    } catch (error) {
+      console.error('Failed to check usage status:', error);
+    }
+  }, [user, dismissed, dismissKey]);
+
   useEffect(() => {
     // Disable in test mode
     if (typeof window !== 'undefined' && window.location.hostname === 'localhost' && window.location.port === '7071') {
@@ -34,60 +89,24 @@ export function UsageNotification() {
       const interval = setInterval(checkUsageStatus, 5 * 60 * 1000);
       return () => clearInterval(interval);
     }
-  }, [user]);
-
-  const checkUsageStatus = async () => {
-    if (!user) return;
+  }, [user, checkUsageStatus]);
 
-    try {
-      const tracker = createClientUsageTracker();
-      const usage = await tracker.checkUsageLimit(user.id);
-      
-      const notificationKey = `${user.id}-${new Date().getMonth()}-${new Date().getFullYear()}`;
-      
-      if (usage.percentageUsed >= 100) {
-        // Usage exceeded
-        if (!dismissed.has(`${notificationKey}-exceeded`)) {
-          setNotification({
-            show: true,
-            type: 'exceeded',
-            message: 'You have reached your monthly credit limit',
-            percentage: 100,
-          });
-        }
-      } else if (usage.percentageUsed >= 90) {
-        // Critical - 90% used
-        if (!dismissed.has(`${notificationKey}-critical`)) {
-          setNotification({
-            show: true,
-            type: 'critical',
-            message: `You have used ${Math.round(usage.percentageUsed)}% of your monthly credits`,
-            percentage: usage.percentageUsed,
-          });
-        }
-      } else if (usage.percentageUsed >= 80) {
-        // Warning - 80% used
-        if (!dismissed.has(`${notificationKey}-warning`)) {
-          setNotification({
-            show: true,
-            type: 'warning',
-            message: `You have used ${Math.round(usage.percentageUsed)}% of your monthly credits`,
-            percentage: usage.percentageUsed,
-          });
-        }
-      } else {
-        // Clear notification if usage drops below threshold
-        setNotification(null);
+  // The server pushes a warning as soon as a threshold is crossed
+  useEffect(() => {
+    for (const pushed of notifications) {
+      if (!pushed.usage) continue;
+      clearNotification(pushed.id);
+      if (!dismissed.has(dismissKey(pushed.usage.threshold))) {
+        setNotification(toNotification(pushed.usage.percentageUsed, pushed.usage.threshold));
       }
-    } catch (error) {
-      console.error('Failed to check usage status:', error);
     }
-  };
+  }, [notifications, clearNotification, dismissed, dismissKey]);
 
   const handleDismiss = () => {
     if (notification && user) {
-      const notificationKey = `${user.id}-${new Date().getMonth()}-${new Date().getFullYear()}-${notification.type}`;
-      setDismissed(prev => new Set(prev).add(notificationKey));
+      const next = new Set(dismissed).add(dismissKey(notification.threshold));
+      setDismissed(next);
+      localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(Array.from(next)));
       setNotification(null);
     }
   };
@@ -96,6 +115,9 @@ export function UsageNotification() {
     return null;
   }
 
+  const upgradeTier = getUpgradeTier(tier);
+  const upgradeUrl = getUpgradeUrl(tier) || '/app/settings/billing';
+
   const variants = {
     warning: 'border-amber-200 bg-amber-50 dark:bg-amber-950/20',
     critical: 'border-orange-200 bg-orange-50 dark:bg-orange-950/20',
@@ -119,9 +141,9 @@ export function UsageNotification() {
             </AlertDescription>
             {canUpgrade() && (
               <div className="flex gap-2">
-                <Link href="/app/settings/billing">
+                <Link href={upgradeUrl}>
                   <Button size="sm" variant="default">
-                    Upgrade Plan
+                    {upgradeTier ? `Upgrade to ${upgradeTier.name}` : 'Upgrade Plan'}
                   </Button>
                 </Link>
                 <Button
@@ -95,6 +95,7 @@ export function ReviewStep() {
         purpose: data.purpose,
         enhancementStyle: data.enhancementStyle,
         colorScheme: data.colorScheme,
+        brandKitId: data.brandKitId || undefined,
         visualComplexity: data.visualComplexity,
         includeGraphics: data.includeGraphics,
         includeCharts: data.includeCharts,
@@ -1,6 +1,7 @@
 'use client';
 
 import { useWizardStore } from '@/lib/stores/wizard-store';
+import { useBrandKits } from '@/hooks/use-brand-kits';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Switch } from '@/components/ui/switch';
@@ -51,8 +52,32 @@ const colorSchemes = [
   { value: 'neutral', label: 'Neutral', colors: ['#6B7280', '#9CA3AF', '#D1D5DB'] },
 ];
 
+// Brand kits share the color scheme radio group under this value prefix
+const BRAND_KIT_PREFIX = 'brand-kit:';
+
 export function StyleStep() {
   const { data, updateData } = useWizardStore();
+  const { brandKits } = useBrandKits();
+
+  const schemeOptions = [
+    ...brandKits.map((kit) => ({
+      value: `${BRAND_KIT_PREFIX}${kit.id}`,
+      label: kit.name,
+      colors: [kit.palette.primary, kit.palette.secondary, kit.palette.accent],
+    })),
+    ...colorSchemes,
+  ];
+  const selectedScheme = data.colorScheme === 'brand'
+    ? `${BRAND_KIT_PREFIX}${data.brandKitId}`
+    : data.colorScheme;
+
+  const selectScheme = (value: string) => {
+    if (value.startsWith(BRAND_KIT_PREFIX)) {
+      updateData({ colorScheme: 'brand', brandKitId: value.slice(BRAND_KIT_PREFIX.length) });
+    } else {
+      updateData({ colorScheme: value, brandKitId: null });
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -116,12 +141,12 @@ export function StyleStep() {
         <div className="space-y-3">
           <Label className="text-base font-medium">Color Scheme</Label>
           <RadioGroup
-            value={data.colorScheme || ''}
-            onValueChange={(value) => updateData({ colorScheme: value })}
+            value={selectedScheme || ''}
+            onValueChange={selectScheme}
           >
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-              {colorSchemes.map((scheme) => {
-                const isSelected = data.colorScheme === scheme.value;
+              {schemeOptions.map((scheme) => {
+                const isSelected = selectedScheme === scheme.value;
                 
                 return (
                   <Card
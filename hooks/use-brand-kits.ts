@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import type { BrandKit, BrandKitInput } from '@/lib/brand-kits/types';
+
+interface BrandKitsState {
+  brandKits: BrandKit[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json();
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || 'Request failed');
+  }
+  return body.data as T;
+}
+
+export function useBrandKits() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [state, setState] = useState<BrandKitsState>({
+    brandKits: [],
+    isLoading: true,
+    error: null,
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true }));
+      const { brandKits } = await request<{ brandKits: BrandKit[] }>('/api/v1/brand-kits');
+      setState({ brandKits, isLoading: false, error: null });
+    } catch {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: 'Failed to load brand kits',
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      refresh();
+    }
+  }, [user, refresh]);
+
+  // Replaces a kit in local state, clearing the default flag elsewhere when it moved
+  const store = (kit: BrandKit) => {
+    setState(prev => {
+      const others = prev.brandKits
+        .filter(item => item.id !== kit.id)
+        .map(item => (kit.isDefault ? { ...item, isDefault: false } : item));
+      const index = prev.brandKits.findIndex(item => item.id === kit.id);
+      const brandKits = index === -1
+        ? [...others, kit]
+        : [...others.slice(0, index), kit, ...others.slice(index)];
+      return { ...prev, brandKits };
+    });
+    return kit;
+  };
+
+  const run = async <T>(action: () => Promise<T>, failure: string): Promise<T | null> => {
+    try {
+      return await action();
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const createKit = (input: BrandKitInput) =>
+    run(async () => store(await request<BrandKit>('/api/v1/brand-kits', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })), 'Failed to create brand kit');
+
+  const updateKit = (id: string, changes: Partial<BrandKitInput>) =>
+    run(async () => store(await request<BrandKit>(`/api/v1/brand-kits/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })), 'Failed to save brand kit');
+
+  const deleteKit = (id: string) =>
+    run(async () => {
+      await request(`/api/v1/brand-kits/${id}`, { method: 'DELETE' });
+      setState(prev => ({
+        ...prev,
+        brandKits: prev.brandKits.filter(item => item.id !== id),
+      }));
+      return true;
+    }, 'Failed to delete brand kit');
+
+  const uploadLogo = (id: string, file: File) =>
+    run(async () => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return store(await request<BrandKit>(`/api/v1/brand-kits/${id}/logos`, {
+        method: 'POST',
+        body: formData,
+      }));
+    }, 'Failed to upload logo');
+
+  const removeLogo = (id: string, logoId: string) =>
+    run(async () => store(await request<BrandKit>(`/api/v1/brand-kits/${id}/logos/${logoId}`, {
+      method: 'DELETE',
+    })), 'Failed to remove logo');
+
+  return {
+    ...state,
+    refresh,
+    createKit,
+    updateKit,
+    deleteKit,
+    uploadLogo,
+    removeLogo,
+  };
+}
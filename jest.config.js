@@ -68,7 +68,7 @@ const customJestConfig = {
   
   // Transform ignore patterns
   transformIgnorePatterns: [
-    '/node_modules/(?!(bullmq|msgpackr|@faker-js/faker|yaml|docker-compose|testcontainers)/)',
+    '/node_modules/(?!(bullmq|msgpackr|@faker-js/faker|yaml|docker-compose|testcontainers|pdfjs-dist)/)',
     '^.+\\.module\\.(css|sass|scss)$',
   ],
   
@@ -93,4 +93,14 @@ const customJestConfig = {
 }
 
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig)
\ No newline at end of file
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)()
+
+  // next/jest always ignores node_modules, but pdfjs-dist only ships ESM
+  // and the PDF rasterizer tests load the real library
+  config.transformIgnorePatterns = config.transformIgnorePatterns.map(pattern =>
+    pattern === '/node_modules/' ? '/node_modules/(?!pdfjs-dist/)' : pattern
+  )
+
+  return config
+}
\ No newline at end of file
@@ -109,7 +109,15 @@ global.Response = class Response {
     this.headers = new Map(Object.entries(init.headers || {}))
     this.ok = this.status >= 200 && this.status < 300
   }
-  
+
+  clone() {
+    return new Response(this.body, {
+      status: this.status,
+      statusText: this.statusText,
+      headers: Object.fromEntries(this.headers)
+    })
+  }
+
   async json() {
     return typeof this.body === 'string' ? JSON.parse(this.body) : this.body
   }
@@ -200,7 +208,7 @@ jest.mock('next/navigation', () => ({
 }))
 
 // Mock canvas for PDF and image generation
-jest.mock('canvas', () => ({
+jest.mock('@napi-rs/canvas', () => ({
   createCanvas: jest.fn(() => ({
     getContext: jest.fn(() => ({
       drawImage: jest.fn(),
@@ -233,13 +241,13 @@ jest.mock('canvas', () => ({
       setTransform: jest.fn(),
       resetTransform: jest.fn(),
       canvas: {
-        toBuffer: jest.fn((callback) => callback(null, Buffer.from('fake-image-data'))),
+        toBuffer: jest.fn(() => Buffer.from('fake-image-data')),
         toDataURL: jest.fn(() => 'data:image/png;base64,fake-data'),
       }
     })),
     width: 800,
     height: 600,
-    toBuffer: jest.fn((callback) => callback(null, Buffer.from('fake-image-data'))),
+    toBuffer: jest.fn(() => Buffer.from('fake-image-data')),
     toDataURL: jest.fn(() => 'data:image/png;base64,fake-data'),
   })),
   loadImage: jest.fn(() => Promise.resolve({ width: 100, height: 100 })),
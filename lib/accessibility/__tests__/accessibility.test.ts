@@ -0,0 +1,236 @@
+/** @jest-environment node */
+import chroma from 'chroma-js'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef } from 'pdf-lib'
+import {
+  checkColorBlindness,
+  enforcePlanAccessibility,
+  measureRegionColors,
+  orderForReading,
+  remapRegionColors,
+  requiredContrast,
+  simulate,
+  withFindings,
+  writeTaggedPDF,
+} from '..'
+import type { EnhancementPlan, TextRegion } from '@/lib/enhancement/pipeline/types'
+
+// The tagged PDF is read back, so it has to be written for real
+jest.unmock('pdf-lib')
+
+const colors = (overrides: Partial<EnhancementPlan['colorEnhancements']> = {}) => ({
+  primaryColor: '#1E40AF',
+  secondaryColor: '#F59E0B',
+  accentColor: '#0EA5E9',
+  backgroundColor: '#FFFFFF',
+  textColor: '#111827',
+  adjustments: [],
+  ...overrides,
+})
+
+const font = (family: string) => ({ family, weight: 400, style: 'normal' as const, fallback: ['sans-serif'] })
+
+const typography = (overrides: Partial<EnhancementPlan['typographyEnhancements']> = {}) => ({
+  headingFont: font('Montserrat'),
+  bodyFont: font('Open Sans'),
+  sizes: { h1: 40, h2: 32, h3: 24, body: 16, caption: 14 },
+  lineHeight: 1.6,
+  letterSpacing: 0,
+  ...overrides,
+})
+
+const region = (text: string, x: number, y: number, width: number, role: TextRegion['role'] = 'body'): TextRegion => ({
+  text,
+  role,
+  pageNumber: 1,
+  confidence: 90,
+  bounds: { x, y, width, height: 0.04 },
+})
+
+// 1x1 white PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+describe('accessibility', () => {
+  it('leaves a compliant plan alone', () => {
+    const { colorEnhancements, typographyEnhancements, report } = enforcePlanAccessibility(colors(), typography(), 'AA')
+
+    expect(colorEnhancements).toEqual(colors())
+    expect(typographyEnhancements).toEqual(typography())
+    expect(report).toMatchObject({ level: 'AA', compliant: true, fixes: [], issues: [] })
+  })
+
+  it('brings text, titles and text recolouring up to the required contrast', () => {
+    const { colorEnhancements, report } = enforcePlanAccessibility(
+      colors({
+        textColor: '#999999',
+        primaryColor: '#AAAAFF',
+        adjustments: [{ target: 'text', from: '#000000', to: '#BBBBBB', reason: 'Soften body text' }],
+      }),
+      typography(),
+      'AAA'
+    )
+
+    const background = colorEnhancements.backgroundColor
+    expect(chroma.contrast(colorEnhancements.textColor, background)).toBeGreaterThanOrEqual(7)
+    // Titles at 40px are large text
+    expect(chroma.contrast(colorEnhancements.primaryColor, background)).toBeGreaterThanOrEqual(4.5)
+    expect(chroma.contrast(colorEnhancements.adjustments[0].to, background)).toBeGreaterThanOrEqual(7)
+    expect(report.fixes.filter(fix => fix.kind === 'contrast').map(fix => fix.target)).toEqual([
+      'Text colour',
+      'Title colour',
+      'Text recolouring of #000000',
+    ])
+    expect(report.fixes[0].criterion).toBe('1.4.6')
+  })
+
+  it('moves mid-tone backgrounds that no text colour can reach AAA on', () => {
+    const { colorEnhancements, report } = enforcePlanAccessibility(
+      colors({ backgroundColor: '#777777', textColor: '#000000' }),
+      typography(),
+      'AAA'
+    )
+
+    expect(colorEnhancements.backgroundColor).not.toBe('#777777')
+    expect(chroma.contrast(colorEnhancements.textColor, colorEnhancements.backgroundColor)).toBeGreaterThanOrEqual(7)
+    expect(report.fixes[0].target).toBe('Background colour')
+  })
+
+  it('separates palette colours that look the same with colour blindness', () => {
+    // Red and green collapse together for protanopes and deuteranopes
+    const planned = colors({ primaryColor: '#CC3333', secondaryColor: '#339933', accentColor: '#1E40AF' })
+    expect(checkColorBlindness(planned, 'AA').find(check => check.type === 'deuteranopia')?.safe).toBe(false)
+
+    const { colorEnhancements, report } = enforcePlanAccessibility(planned, typography(), 'AA')
+
+    expect(report.fixes.some(fix => fix.kind === 'color-blindness' && fix.target === 'Secondary colour')).toBe(true)
+    expect(report.colorBlindness.map(check => check.type)).toEqual(['protanopia', 'deuteranopia', 'tritanopia'])
+    for (const type of ['protanopia', 'deuteranopia', 'tritanopia'] as const) {
+      const distance = chroma.deltaE(
+        simulate(colorEnhancements.primaryColor, type),
+        simulate(colorEnhancements.secondaryColor, type)
+      )
+      expect(distance).toBeGreaterThanOrEqual(20)
+    }
+  })
+
+  it('simulates colour blindness without changing black or white', () => {
+    expect(simulate('#ffffff', 'tritanopia')).toBe('#ffffff')
+    expect(simulate('#000000', 'protanopia')).toBe('#000000')
+    expect(simulate('#ff0000', 'protanopia')).not.toBe('#ff0000')
+  })
+
+  it('raises small type and tight spacing to the minimums', () => {
+    const { typographyEnhancements, report } = enforcePlanAccessibility(
+      colors(),
+      typography({ sizes: { h1: 28, h2: 20, h3: 16, body: 14, caption: 10 }, lineHeight: 1.2, letterSpacing: -0.02 }),
+      'AAA'
+    )
+
+    expect(typographyEnhancements.sizes).toEqual({ h1: 28, h2: 20, h3: 18, body: 18, caption: 16 })
+    expect(typographyEnhancements.lineHeight).toBe(1.5)
+    expect(typographyEnhancements.letterSpacing).toBe(0)
+    expect(report.fixes.map(fix => fix.target)).toEqual([
+      'body size',
+      'caption size',
+      'h3 size',
+      'Line height',
+      'Letter spacing',
+    ])
+  })
+
+  it('marks a report non-compliant once an issue is added', () => {
+    const { report } = enforcePlanAccessibility(colors(), typography(), 'AA')
+    const updated = withFindings(report, [], [{ kind: 'font-size', description: 'Too small' }])
+
+    expect(updated.compliant).toBe(false)
+    expect(updated.issues).toHaveLength(1)
+  })
+
+  it('needs less contrast for large text', () => {
+    expect(requiredContrast('AA')).toBe(4.5)
+    expect(requiredContrast('AA', true)).toBe(3)
+    expect(requiredContrast('AAA')).toBe(7)
+    expect(requiredContrast('AAA', true)).toBe(4.5)
+  })
+
+  it('measures and fixes the contrast of text in a page region', () => {
+    // Mid-grey text on light grey, a quarter of the pixels being text
+    const pixels = new Uint8ClampedArray(4 * 100)
+    for (let i = 0; i < 100; i++) {
+      const value = i % 4 === 0 ? 150 : 220
+      pixels.set([value, value, value, 255], i * 4)
+    }
+
+    const measured = measureRegionColors(pixels)!
+    expect(measured.foreground).toBe('#969696')
+    expect(measured.background).toBe('#dcdcdc')
+    expect(measured.ratio).toBeLessThan(4.5)
+
+    remapRegionColors(pixels, measured, { foreground: '#000000', background: '#ffffff' })
+    expect(Array.from(pixels.slice(0, 8))).toEqual([0, 0, 0, 255, 255, 255, 255, 255])
+    expect(measureRegionColors(new Uint8ClampedArray(4 * 10).fill(255))).toBeNull()
+  })
+
+  it('reads columns one after the other, under a full-width title', () => {
+    const blocks = [
+      region('Right 1', 0.55, 0.2, 0.4),
+      region('Left 2', 0.05, 0.3, 0.4),
+      region('Title', 0.05, 0.05, 0.9, 'title'),
+      region('Left 1', 0.05, 0.2, 0.4),
+      region('Right 2', 0.55, 0.3, 0.4),
+    ]
+
+    expect(orderForReading(blocks).map(block => block.text)).toEqual([
+      'Title',
+      'Left 1',
+      'Left 2',
+      'Right 1',
+      'Right 2',
+    ])
+  })
+
+  it('reads a label beside a single column on its own line', () => {
+    const blocks = [
+      region('Date:', 0.6, 0.1, 0.3),
+      region('Name:', 0.05, 0.1, 0.3),
+      region('Question one', 0.05, 0.2, 0.5),
+    ]
+
+    expect(orderForReading(blocks).map(block => block.text)).toEqual(['Name:', 'Date:', 'Question one'])
+  })
+
+  it('writes a tagged PDF with language, structure and alt text in reading order', async () => {
+    const { buffer, skipped } = await writeTaggedPDF(
+      [{
+        image: PNG,
+        width: 612,
+        height: 792,
+        regions: [
+          region('Body text', 0.05, 0.3, 0.9),
+          region('Worksheet', 0.05, 0.05, 0.9, 'title'),
+          region('日本語', 0.05, 0.8, 0.9),
+        ],
+        figures: [{ alt: 'Bar chart of results', bounds: { x: 0.2, y: 0.5, width: 0.6, height: 0.2 } }],
+      }],
+      { title: 'Worksheet', language: 'en-US' }
+    )
+
+    expect(skipped.map(region => region.text)).toEqual(['日本語'])
+
+    const pdf = await PDFDocument.load(buffer)
+    const { catalog, context } = pdf
+    expect(catalog.lookup(PDFName.of('Lang'))?.toString()).toBe('(en-US)')
+    expect((catalog.lookup(PDFName.of('MarkInfo'), PDFDict).get(PDFName.of('Marked')))?.toString()).toBe('true')
+
+    const root = catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict)
+    const document = root.lookup(PDFName.of('K'), PDFDict)
+    const children = document.lookup(PDFName.of('K'), PDFArray).asArray()
+      .map(ref => context.lookup(ref as PDFRef, PDFDict))
+
+    expect(children.map(child => child.get(PDFName.of('S'))?.toString())).toEqual(['/H1', '/P', '/Figure'])
+    expect(children[2].lookup(PDFName.of('Alt'))?.toString()).toContain('FEFF')
+    expect(pdf.getPage(0).node.get(PDFName.of('StructParents'))?.toString()).toBe('0')
+  })
+})
@@ -0,0 +1,52 @@
+/** @jest-environment node */
+import sharp from 'sharp'
+import { extractKeyColors, findColorVisionConflicts, renderColorVision, simulateColorVision } from '../color-vision'
+
+// Renders are decoded again to check their pixels
+jest.unmock('sharp')
+
+const pixels = (colors: Array<[number, number, number, number]>) =>
+  Uint8Array.from(colors.flatMap(([r, g, b, count]) => Array.from({ length: count }, () => [r, g, b]).flat()))
+
+describe('color vision', () => {
+  it('reduces colours to their lightness with achromatopsia', () => {
+    expect(simulateColorVision('#ffffff', 'achromatopsia')).toBe('#ffffff')
+    expect(simulateColorVision('#000000', 'achromatopsia')).toBe('#000000')
+    const [r, g, b] = [1, 3, 5].map(start => simulateColorVision('#3366cc', 'achromatopsia').slice(start, start + 2))
+    expect(r).toBe(g)
+    expect(g).toBe(b)
+  })
+
+  it('finds the most used colours, merging near duplicates', () => {
+    const keyColors = extractKeyColors(
+      pixels([[255, 255, 255, 80], [204, 51, 51, 12], [210, 60, 60, 5], [51, 153, 51, 3]]),
+      3
+    )
+
+    expect(keyColors).toEqual(['#ffffff', '#cc3333', '#339933'])
+  })
+
+  it('warns when red and green collapse together, but not for black on white', () => {
+    const conflicts = findColorVisionConflicts(['#ffffff', '#000000', '#cc3333', '#339933'])
+    const redGreen = conflicts.filter(conflict => conflict.colors.includes('#cc3333') && conflict.colors.includes('#339933'))
+
+    expect(redGreen.map(conflict => conflict.type)).toEqual(expect.arrayContaining(['deuteranopia', 'achromatopsia']))
+    expect(conflicts.some(conflict => conflict.colors.includes('#000000') && conflict.colors.includes('#ffffff'))).toBe(false)
+  })
+
+  it('renders every simulation and reports the conflicts it finds', async () => {
+    const image = await sharp(
+      Buffer.from(pixels([[204, 51, 51, 8], [51, 153, 51, 8]])),
+      { raw: { width: 4, height: 4, channels: 3 } }
+    ).png().toBuffer()
+
+    const render = await renderColorVision(image)
+
+    expect(Object.keys(render.images)).toEqual(['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'])
+    const { data } = await sharp(render.images.achromatopsia).raw().toBuffer({ resolveWithObject: true })
+    expect(data[0]).toBe(data[1])
+    expect(data[1]).toBe(data[2])
+    expect(render.keyColors).toEqual(['#cc3333', '#339933'])
+    expect(render.conflicts.map(conflict => conflict.type)).toContain('deuteranopia')
+  })
+})
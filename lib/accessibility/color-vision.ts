@@ -0,0 +1,135 @@
+import chroma from 'chroma-js'
+import sharp from 'sharp'
+import { COLOR_BLIND_MATRICES, toGamma, toLinear } from '@/lib/enhancement/algorithms/color-optimization'
+import { getLuminance } from '@/lib/utils/color-contrast'
+import { COLOR_BLIND_TYPES, simulate } from './wcag'
+import type { ColorVisionConflict, ColorVisionType } from './types'
+
+export const COLOR_VISION_TYPES: ColorVisionType[] = [...COLOR_BLIND_TYPES, 'achromatopsia']
+
+export interface ColorVisionRender {
+  keyColors: string[]
+  images: Record<ColorVisionType, Buffer> // PNG
+  conflicts: ColorVisionConflict[]
+}
+
+// Longest side of the rendered previews, in pixels
+const PREVIEW_SIZE = 1200
+const MAX_KEY_COLORS = 8
+// Share of the pixels a colour needs before it counts as a key colour
+const MIN_KEY_COLOR_SHARE = 0.005
+// CIEDE2000 distances: key colours this far apart are meant to look different,
+// and under a simulation anything closer than CONFUSED reads as the same colour
+const DISTINCT_DELTA_E = 20
+const CONFUSED_DELTA_E = 10
+
+// Per-pixel lookups, so a full page doesn't need millions of Math.pow calls
+const GAMMA_STEPS = 4096
+const LINEAR = Float64Array.from({ length: 256 }, (_, value) => toLinear(value / 255))
+const GAMMA = Uint8ClampedArray.from({ length: GAMMA_STEPS }, (_, step) =>
+  Math.round(toGamma(step / (GAMMA_STEPS - 1)) * 255)
+)
+
+export function simulateColorVision(color: string, type: ColorVisionType): string {
+  if (type !== 'achromatopsia') return simulate(color, type)
+  const [r, g, b] = chroma(color).rgb()
+  const grey = toGamma(getLuminance(r, g, b)) * 255
+  return chroma(grey, grey, grey).hex()
+}
+
+/**
+ * Renders an image as it looks with each kind of colour vision deficiency,
+ * and lists the image's key colours that become indistinguishable.
+ */
+export async function renderColorVision(image: Buffer): Promise<ColorVisionRender> {
+  const { data, info } = await sharp(image)
+    .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const raw = { width: info.width, height: info.height, channels: info.channels }
+  const images = {} as Record<ColorVisionType, Buffer>
+  for (const type of COLOR_VISION_TYPES) {
+    images[type] = await sharp(simulatePixels(data, info.channels, type), { raw }).png().toBuffer()
+  }
+
+  const keyColors = extractKeyColors(data, info.channels)
+  return { keyColors, images, conflicts: findColorVisionConflicts(keyColors) }
+}
+
+/**
+ * Pairs of colours that are clearly different with typical vision but
+ * collapse together under one of the simulations.
+ */
+export function findColorVisionConflicts(colors: string[]): ColorVisionConflict[] {
+  const conflicts: ColorVisionConflict[] = []
+  for (const type of COLOR_VISION_TYPES) {
+    const simulated = colors.map(color => simulateColorVision(color, type))
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        if (chroma.deltaE(colors[i], colors[j]) < DISTINCT_DELTA_E) continue
+        if (chroma.deltaE(simulated[i], simulated[j]) >= CONFUSED_DELTA_E) continue
+        conflicts.push({ type, colors: [colors[i], colors[j]], simulated: [simulated[i], simulated[j]] })
+      }
+    }
+  }
+  return conflicts
+}
+
+/**
+ * The image's most used colours, most common first, leaving out any too
+ * close to a more common one. Pixels are binned at 4 bits per channel and
+ * each bin reports the mean of its pixels.
+ */
+export function extractKeyColors(pixels: Uint8Array, channels: number): string[] {
+  const count = pixels.length / channels
+  const bins = new Map<number, number[]>()
+  for (let i = 0; i < pixels.length; i += channels) {
+    const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4)
+    const bin = bins.get(key) || [0, 0, 0, 0]
+    bin[0] += pixels[i]
+    bin[1] += pixels[i + 1]
+    bin[2] += pixels[i + 2]
+    bin[3]++
+    bins.set(key, bin)
+  }
+
+  const keyColors: string[] = []
+  const ranked = Array.from(bins.values())
+    .filter(bin => bin[3] >= count * MIN_KEY_COLOR_SHARE)
+    .sort((a, b) => b[3] - a[3])
+  for (const [r, g, b, total] of ranked) {
+    const color = chroma(r / total, g / total, b / total).hex()
+    if (keyColors.every(existing => chroma.deltaE(existing, color) >= DISTINCT_DELTA_E)) {
+      keyColors.push(color)
+      if (keyColors.length === MAX_KEY_COLORS) break
+    }
+  }
+  return keyColors
+}
+
+function simulatePixels(pixels: Uint8Array, channels: number, type: ColorVisionType): Buffer {
+  const output = Buffer.from(pixels)
+  const matrix = type === 'achromatopsia' ? null : COLOR_BLIND_MATRICES[type]
+
+  for (let i = 0; i < pixels.length; i += channels) {
+    const r = LINEAR[pixels[i]]
+    const g = LINEAR[pixels[i + 1]]
+    const b = LINEAR[pixels[i + 2]]
+    if (!matrix) {
+      output[i] = output[i + 1] = output[i + 2] = gamma(0.2126 * r + 0.7152 * g + 0.0722 * b)
+      continue
+    }
+    output[i] = gamma(matrix[0][0] * r + matrix[0][1] * g + matrix[0][2] * b)
+    output[i + 1] = gamma(matrix[1][0] * r + matrix[1][1] * g + matrix[1][2] * b)
+    output[i + 2] = gamma(matrix[2][0] * r + matrix[2][1] * g + matrix[2][2] * b)
+  }
+  return output
+}
+
+function gamma(linear: number): number {
+  const step = Math.round(linear * (GAMMA_STEPS - 1))
+  return GAMMA[Math.min(GAMMA_STEPS - 1, Math.max(0, step))]
+}
@@ -0,0 +1,28 @@
+export * from './types'
+export {
+  COLOR_BLIND_TYPES,
+  LARGE_TEXT_PX,
+  MIN_FONT_SIZES,
+  backgroundFor,
+  checkColorBlindness,
+  contrastCriterion,
+  enforcePlanAccessibility,
+  formatContrast,
+  meetContrast,
+  requiredContrast,
+  simulate,
+  withFindings,
+} from './wcag'
+export { measureRegionColors, remapRegionColors } from './region-contrast'
+export type { RegionColors } from './region-contrast'
+export { orderForReading } from './reading-order'
+export { writeTaggedPDF } from './tagged-pdf'
+export type { TaggedFigure, TaggedPage, TaggedPDFOptions } from './tagged-pdf'
+export {
+  COLOR_VISION_TYPES,
+  extractKeyColors,
+  findColorVisionConflicts,
+  renderColorVision,
+  simulateColorVision,
+} from './color-vision'
+export type { ColorVisionRender } from './color-vision'
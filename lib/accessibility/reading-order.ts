@@ -0,0 +1,67 @@
+interface Bounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Blocks wider than this share of the page span every column
+const FULL_WIDTH = 0.6
+
+/**
+ * Sorts the blocks on one page into reading order. Bounds are fractions of
+ * the page. Full-width blocks such as titles split the page into bands; a
+ * band whose blocks fall into separate columns is read column by column,
+ * anything else line by line.
+ */
+export function orderForReading<T extends { bounds: Bounds }>(blocks: T[]): T[] {
+  const sorted = [...blocks].sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x)
+  const ordered: T[] = []
+  let band: T[] = []
+
+  for (const block of sorted) {
+    if (block.bounds.width >= FULL_WIDTH) {
+      ordered.push(...orderBand(band), block)
+      band = []
+    } else {
+      band.push(block)
+    }
+  }
+
+  return [...ordered, ...orderBand(band)]
+}
+
+function orderBand<T extends { bounds: Bounds }>(blocks: T[]): T[] {
+  // Blocks whose horizontal extents overlap belong to the same column
+  const columns: Array<{ right: number; blocks: T[] }> = []
+  for (const block of [...blocks].sort((a, b) => a.bounds.x - b.bounds.x)) {
+    const column = columns[columns.length - 1]
+    const right = block.bounds.x + block.bounds.width
+    if (column && block.bounds.x < column.right) {
+      column.blocks.push(block)
+      column.right = Math.max(column.right, right)
+    } else {
+      columns.push({ right, blocks: [block] })
+    }
+  }
+
+  // A lone block beside a column is a label on the same line, not a column
+  if (columns.length > 1 && columns.every(column => column.blocks.length > 1)) {
+    return columns.flatMap(column => byLine(column.blocks))
+  }
+  return byLine(blocks)
+}
+
+function byLine<T extends { bounds: Bounds }>(blocks: T[]): T[] {
+  const lines: T[][] = []
+  for (const block of [...blocks].sort((a, b) => a.bounds.y - b.bounds.y)) {
+    const line = lines[lines.length - 1]
+    // Starts within the first block's upper half: same line
+    if (line && block.bounds.y < line[0].bounds.y + line[0].bounds.height / 2) {
+      line.push(block)
+    } else {
+      lines.push([block])
+    }
+  }
+  return lines.flatMap(line => line.sort((a, b) => a.bounds.x - b.bounds.x))
+}
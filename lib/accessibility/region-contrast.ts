@@ -0,0 +1,111 @@
+import chroma from 'chroma-js'
+
+export interface RegionColors {
+  foreground: string
+  background: string
+  ratio: number
+}
+
+// Share of a region's pixels each tone needs before it counts as text or background
+const MIN_TONE_SHARE = 0.02
+
+/**
+ * Splits a text region's RGBA pixels into text and background with Otsu's
+ * threshold on grey level, taking the smaller tone as the text. Returns null
+ * when the region is a single tone, such as an OCR box around empty space.
+ */
+export function measureRegionColors(pixels: Uint8ClampedArray): RegionColors | null {
+  const count = pixels.length / 4
+  if (count === 0) return null
+
+  const histogram = new Array<number>(256).fill(0)
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[grey(pixels[i], pixels[i + 1], pixels[i + 2])]++
+  }
+  const threshold = otsuThreshold(histogram, count)
+
+  // Running r, g, b and pixel count for the dark and light tones
+  const tones = [[0, 0, 0, 0], [0, 0, 0, 0]]
+  for (let i = 0; i < pixels.length; i += 4) {
+    const tone = tones[grey(pixels[i], pixels[i + 1], pixels[i + 2]) > threshold ? 1 : 0]
+    tone[0] += pixels[i]
+    tone[1] += pixels[i + 1]
+    tone[2] += pixels[i + 2]
+    tone[3]++
+  }
+
+  const [dark, light] = tones
+  if (dark[3] < count * MIN_TONE_SHARE || light[3] < count * MIN_TONE_SHARE) return null
+
+  const darkColor = meanColor(dark)
+  const lightColor = meanColor(light)
+  const [foreground, background] = dark[3] <= light[3]
+    ? [darkColor, lightColor]
+    : [lightColor, darkColor]
+
+  return { foreground, background, ratio: chroma.contrast(foreground, background) }
+}
+
+/**
+ * Recolours a region in place so the measured text and background become
+ * the target colours. Each pixel keeps its position between the two, so
+ * anti-aliased glyph edges stay smooth.
+ */
+export function remapRegionColors(
+  pixels: Uint8ClampedArray,
+  measured: RegionColors,
+  target: { foreground: string; background: string }
+): void {
+  const fromForeground = grey(...chroma(measured.foreground).rgb())
+  const fromBackground = grey(...chroma(measured.background).rgb())
+  const span = fromBackground - fromForeground
+  if (span === 0) return
+
+  const foreground = chroma(target.foreground).rgb()
+  const background = chroma(target.background).rgb()
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const position = (grey(pixels[i], pixels[i + 1], pixels[i + 2]) - fromForeground) / span
+    const t = Math.min(1, Math.max(0, position))
+    pixels[i] = foreground[0] + (background[0] - foreground[0]) * t
+    pixels[i + 1] = foreground[1] + (background[1] - foreground[1]) * t
+    pixels[i + 2] = foreground[2] + (background[2] - foreground[2]) * t
+  }
+}
+
+function grey(r: number, g: number, b: number): number {
+  return Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)
+}
+
+function meanColor([r, g, b, count]: number[]): string {
+  return chroma(r / count, g / count, b / count).hex()
+}
+
+// The grey level that best separates the histogram into two tones
+function otsuThreshold(histogram: number[], count: number): number {
+  let total = 0
+  for (let level = 0; level < 256; level++) total += level * histogram[level]
+
+  let darkSum = 0
+  let darkCount = 0
+  let best = 0
+  let bestVariance = -1
+
+  for (let level = 0; level < 256; level++) {
+    darkCount += histogram[level]
+    if (darkCount === 0) continue
+    const lightCount = count - darkCount
+    if (lightCount === 0) break
+
+    darkSum += level * histogram[level]
+    const darkMean = darkSum / darkCount
+    const lightMean = (total - darkSum) / lightCount
+    const variance = darkCount * lightCount * (darkMean - lightMean) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      best = level
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,219 @@
+import {
+  PDFArray,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFOperator,
+  PDFOperatorNames,
+  PDFRef,
+  StandardFonts,
+  TextRenderingMode,
+  beginMarkedContent,
+  beginText,
+  drawObject,
+  endMarkedContent,
+  endPath,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  scale,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+import { orderForReading } from './reading-order'
+
+export interface TaggedFigure {
+  alt: string
+  bounds: { x: number; y: number; width: number; height: number } // fractions of the page
+}
+
+export interface TaggedPage {
+  image: Buffer // the flattened page, PNG
+  width: number // points
+  height: number
+  regions: TextRegion[]
+  figures: TaggedFigure[]
+}
+
+export interface TaggedPDFOptions {
+  title: string
+  language: string // BCP 47, e.g. 'en-US'
+}
+
+// Caption is only valid inside a Figure or Table, so captions are paragraphs
+const STRUCTURE_TYPES: Record<TextRegion['role'], string> = {
+  title: 'H1',
+  heading: 'H2',
+  body: 'P',
+  caption: 'P',
+}
+
+// Share of an OCR box's height taken up by the font size
+const FONT_HEIGHT_RATIO = 0.8
+
+type Block =
+  | { kind: 'text'; region: TextRegion; text: string; bounds: TaggedFigure['bounds'] }
+  | { kind: 'figure'; figure: TaggedFigure; bounds: TaggedFigure['bounds'] }
+
+/**
+ * Writes flattened pages as a tagged PDF. Each page image is marked as an
+ * artifact; OCR text is laid over it as invisible, selectable text; and a
+ * structure tree gives assistive technology the headings, paragraphs and
+ * figures (with alt text) in reading order.
+ *
+ * Regions whose text the standard font can't encode at all are left out of
+ * the structure and returned as `skipped`.
+ */
+export async function writeTaggedPDF(
+  pages: TaggedPage[],
+  options: TaggedPDFOptions
+): Promise<{ buffer: Buffer; skipped: TextRegion[] }> {
+  const pdfDoc = await PDFDocument.create()
+  const { context } = pdfDoc
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const encodable = new Set(font.getCharacterSet())
+  const skipped: TextRegion[] = []
+
+  pdfDoc.setTitle(options.title, { showInWindowTitleBar: true })
+  pdfDoc.setLanguage(options.language)
+
+  const structTreeRootRef = context.nextRef()
+  const documentRef = context.nextRef()
+  const documentChildren = PDFArray.withContext(context)
+  const parentTree = PDFArray.withContext(context)
+
+  for (const [index, tagged] of pages.entries()) {
+    const { width, height } = tagged
+    const page = pdfDoc.addPage([width, height])
+    page.node.set(PDFName.of('StructParents'), PDFNumber.of(index))
+    // Tab through annotations in structure order
+    page.node.set(PDFName.of('Tabs'), PDFName.of('S'))
+
+    const image = await pdfDoc.embedPng(tagged.image)
+    const imageName = page.node.newXObject('Image', image.ref)
+    const fontName = page.node.newFontDictionary('Font', font.ref)
+
+    // The image repeats what the structure below describes, so readers skip it
+    page.pushOperators(
+      beginMarkedContent('Artifact'),
+      pushGraphicsState(),
+      scale(width, height),
+      drawObject(imageName),
+      popGraphicsState(),
+      endMarkedContent()
+    )
+
+    const blocks: Block[] = [
+      ...tagged.regions.flatMap(region => {
+        const text = encodableText(region.text, encodable)
+        if (!text) {
+          if (region.text.trim()) skipped.push(region)
+          return []
+        }
+        return [{ kind: 'text' as const, region, text, bounds: region.bounds }]
+      }),
+      ...tagged.figures.map(figure => ({ kind: 'figure' as const, figure, bounds: figure.bounds })),
+    ]
+
+    // Parent tree entry for this page: structure elements indexed by MCID
+    const marked: PDFRef[] = []
+
+    for (const block of orderForReading(blocks)) {
+      const mcid = marked.length
+      const x = block.bounds.x * width
+      const boxWidth = block.bounds.width * width
+      const boxHeight = block.bounds.height * height
+      const bottom = height - (block.bounds.y + block.bounds.height) * height
+
+      const tag = block.kind === 'text' ? STRUCTURE_TYPES[block.region.role] : 'Figure'
+      const element = context.obj({
+        Type: 'StructElem',
+        S: tag,
+        P: documentRef,
+        Pg: page.ref,
+        K: mcid,
+      })
+
+      if (block.kind === 'figure') {
+        element.set(PDFName.of('Alt'), PDFHexString.fromText(block.figure.alt))
+        element.set(PDFName.of('A'), context.obj({
+          O: 'Layout',
+          BBox: [x, bottom, x + boxWidth, bottom + boxHeight],
+        }))
+      }
+
+      const ref = context.register(element)
+      marked.push(ref)
+      documentChildren.push(ref)
+
+      page.pushOperators(
+        PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [
+          PDFName.of(tag),
+          // pdf-lib's operator args leave out dictionaries, but they serialise inline
+          context.obj({ MCID: mcid }) as unknown as PDFName,
+        ]),
+        ...(block.kind === 'text'
+          ? invisibleText(block.text, font, fontName, { x, y: bottom, width: boxWidth, height: boxHeight })
+          : [pushGraphicsState(), rectangle(x, bottom, boxWidth, boxHeight), endPath(), popGraphicsState()]),
+        endMarkedContent()
+      )
+    }
+
+    parentTree.push(PDFNumber.of(index))
+    parentTree.push(context.register(context.obj(marked)))
+  }
+
+  context.assign(documentRef, context.obj({
+    Type: 'StructElem',
+    S: 'Document',
+    P: structTreeRootRef,
+    K: documentChildren,
+  }))
+  context.assign(structTreeRootRef, context.obj({
+    Type: 'StructTreeRoot',
+    K: documentRef,
+    ParentTree: context.obj({ Nums: parentTree }),
+    ParentTreeNextKey: pages.length,
+  }))
+  pdfDoc.catalog.set(PDFName.of('StructTreeRoot'), structTreeRootRef)
+  pdfDoc.catalog.set(PDFName.of('MarkInfo'), context.obj({ Marked: true }))
+
+  return { buffer: Buffer.from(await pdfDoc.save()), skipped }
+}
+
+// Text render mode 3 draws nothing but can still be selected and read aloud
+function invisibleText(
+  text: string,
+  font: PDFFont,
+  fontName: PDFName,
+  box: { x: number; y: number; width: number; height: number }
+): PDFOperator[] {
+  const size = Math.max(1, box.height * FONT_HEIGHT_RATIO)
+  const natural = font.widthOfTextAtSize(text, size)
+  // Stretch or squeeze so selecting the text highlights the whole box
+  const squeeze = natural > 0 ? Math.min(1000, Math.max(10, (box.width / natural) * 100)) : 100
+  return [
+    beginText(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    setFontAndSize(fontName, size),
+    setCharacterSqueeze(squeeze),
+    setTextMatrix(1, 0, 0, 1, box.x, box.y + box.height * (1 - FONT_HEIGHT_RATIO) / 2),
+    showText(font.encodeText(text)),
+    endText(),
+  ]
+}
+
+// Drops characters the font can't encode and collapses whitespace
+function encodableText(text: string, encodable: Set<number>): string {
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .filter(character => encodable.has(character.codePointAt(0)!))
+    .join('')
+    .trim()
+}
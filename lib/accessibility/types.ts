@@ -0,0 +1,65 @@
+import type { ColorBlindType } from '@/lib/enhancement/algorithms/color-optimization'
+
+export type { ColorBlindType }
+
+export type WcagLevel = 'AA' | 'AAA'
+
+export type AccessibilityFixKind =
+  | 'contrast'
+  | 'color-blindness'
+  | 'font-size'
+  | 'spacing'
+  | 'alt-text'
+  | 'reading-order'
+  | 'tagging'
+
+/**
+ * One change made to bring the output into line. `criterion` is the WCAG
+ * success criterion it satisfies, where there is one.
+ */
+export interface AccessibilityFix {
+  kind: AccessibilityFixKind
+  criterion?: string
+  target: string
+  before: string
+  after: string
+  pageNumber?: number
+}
+
+/**
+ * A problem that could not be fixed automatically, such as body text that is
+ * too small in the page image to enlarge without reflowing it.
+ */
+export interface AccessibilityIssue {
+  kind: AccessibilityFixKind
+  criterion?: string
+  description: string
+  pageNumber?: number
+}
+
+export interface ColorBlindCheck {
+  type: ColorBlindType
+  safe: boolean
+  conflicts: string[] // pairs of palette slots that read as the same colour
+}
+
+export interface AccessibilityReport {
+  level: WcagLevel
+  compliant: boolean
+  colorBlindness: ColorBlindCheck[]
+  fixes: AccessibilityFix[]
+  issues: AccessibilityIssue[]
+}
+
+// Achromatopsia sees no colour at all, only lightness
+export type ColorVisionType = ColorBlindType | 'achromatopsia'
+
+/**
+ * Two of an image's key colours that are easy to tell apart with typical
+ * vision but look the same under the simulated `type`.
+ */
+export interface ColorVisionConflict {
+  type: ColorVisionType
+  colors: [string, string]
+  simulated: [string, string]
+}
@@ -0,0 +1,337 @@
+import chroma from 'chroma-js'
+import { ColorOptimization } from '@/lib/enhancement/algorithms/color-optimization'
+import type { EnhancementPlan } from '@/lib/enhancement/pipeline/types'
+import {
+  AccessibilityFix,
+  AccessibilityIssue,
+  AccessibilityReport,
+  ColorBlindCheck,
+  ColorBlindType,
+  WcagLevel,
+} from './types'
+
+export const COLOR_BLIND_TYPES: ColorBlindType[] = ['protanopia', 'deuteranopia', 'tritanopia']
+
+// Text at least this size in CSS pixels counts as large under WCAG
+export const LARGE_TEXT_PX = 24
+
+// Smallest sizes in CSS pixels the plan may use at each level
+export const MIN_FONT_SIZES: Record<WcagLevel, { body: number; caption: number }> = {
+  AA: { body: 16, caption: 14 },
+  AAA: { body: 18, caption: 16 },
+}
+
+// CIEDE2000 distance palette colours need under every simulation
+const MIN_COLOR_BLIND_DELTA_E = 20
+const MIN_LINE_HEIGHT = 1.5
+const SEPARATION_STEPS = 12
+
+// Palette slots that carry meaning and must stay apart; the later one moves
+const DISTINCT_SLOTS = [
+  ['primaryColor', 'secondaryColor'],
+  ['primaryColor', 'accentColor'],
+  ['secondaryColor', 'accentColor'],
+] as const
+
+type Colors = EnhancementPlan['colorEnhancements']
+type Typography = EnhancementPlan['typographyEnhancements']
+type SizeName = keyof Typography['sizes']
+
+export function requiredContrast(level: WcagLevel, largeText = false): number {
+  if (level === 'AAA') return largeText ? 4.5 : 7
+  return largeText ? 3 : 4.5
+}
+
+export function contrastCriterion(level: WcagLevel): string {
+  return level === 'AAA' ? '1.4.6' : '1.4.3'
+}
+
+export function formatContrast(foreground: string, background: string): string {
+  return `${foreground} on ${background} (${chroma.contrast(foreground, background).toFixed(2)}:1)`
+}
+
+/**
+ * The closest foreground to `foreground` that reaches `ratio` on
+ * `background`. Falls back to black or white when shifting the colour isn't
+ * enough; see backgroundFor for backgrounds where neither works.
+ */
+export function meetContrast(foreground: string, background: string, ratio: number): string {
+  if (chroma.contrast(foreground, background) >= ratio) return foreground
+  const fixed = ColorOptimization.fixContrast(foreground, background, ratio)
+  if (fixed.ratio >= ratio) return fixed.foreground
+  return bestTextColor(background)
+}
+
+/**
+ * Mid-tone backgrounds can't reach 7:1 even with black or white text. Moves
+ * the background towards whichever end is nearer until one of them can.
+ */
+export function backgroundFor(background: string, ratio: number): string {
+  if (maxContrast(background) >= ratio) return background
+  let color = chroma(background)
+  const lighten = color.luminance() > 0.18
+  for (let step = 0; step < 50 && maxContrast(color.hex()) < ratio; step++) {
+    color = lighten ? color.brighten(0.1) : color.darken(0.1)
+  }
+  return maxContrast(color.hex()) >= ratio ? color.hex() : lighten ? '#ffffff' : '#000000'
+}
+
+export function simulate(color: string, type: ColorBlindType): string {
+  return ColorOptimization.simulateColorBlindness(color, type)
+}
+
+/**
+ * Checks that the meaningful palette colours stay apart, and that text keeps
+ * its contrast, for each kind of colour blindness.
+ */
+export function checkColorBlindness(colors: Colors, level: WcagLevel): ColorBlindCheck[] {
+  const ratio = requiredContrast(level)
+  return COLOR_BLIND_TYPES.map(type => {
+    const conflicts = DISTINCT_SLOTS
+      .filter(([a, b]) => simulatedDistance(colors[a], colors[b], type) < MIN_COLOR_BLIND_DELTA_E)
+      .map(([a, b]) => `${slotName(a)}/${slotName(b)}`)
+    if (chroma.contrast(simulate(colors.textColor, type), simulate(colors.backgroundColor, type)) < ratio) {
+      conflicts.push('text/background')
+    }
+    return { type, safe: conflicts.length === 0, conflicts }
+  })
+}
+
+/**
+ * Rewrites the planned palette and type scale so the output meets the WCAG
+ * level: text contrast, colours that survive colour blindness, minimum sizes
+ * and spacing. Every change is listed in the returned report.
+ */
+export function enforcePlanAccessibility(
+  colorEnhancements: Colors,
+  typographyEnhancements: Typography,
+  level: WcagLevel
+): { colorEnhancements: Colors; typographyEnhancements: Typography; report: AccessibilityReport } {
+  const fixes: AccessibilityFix[] = []
+  const issues: AccessibilityIssue[] = []
+
+  const colors = enforceColorContrast(colorEnhancements, typographyEnhancements, level, fixes)
+  separateForColorBlindness(colors, level, fixes)
+  const typography = enforceTypography(typographyEnhancements, level, fixes)
+
+  const colorBlindness = checkColorBlindness(colors, level)
+  for (const check of colorBlindness) {
+    for (const conflict of check.conflicts) {
+      issues.push({
+        kind: 'color-blindness',
+        criterion: '1.4.1',
+        description: `The ${conflict} colours are hard to tell apart with ${check.type}`,
+      })
+    }
+  }
+
+  return {
+    colorEnhancements: colors,
+    typographyEnhancements: typography,
+    report: { level, compliant: issues.length === 0, colorBlindness, fixes, issues },
+  }
+}
+
+/**
+ * Adds fixes and issues found after planning, such as those from composing
+ * the pages, and recomputes whether the output complies.
+ */
+export function withFindings(
+  report: AccessibilityReport,
+  fixes: AccessibilityFix[],
+  issues: AccessibilityIssue[]
+): AccessibilityReport {
+  const allIssues = [...report.issues, ...issues]
+  return {
+    ...report,
+    fixes: [...report.fixes, ...fixes],
+    issues: allIssues,
+    compliant: allIssues.length === 0,
+  }
+}
+
+function enforceColorContrast(
+  planned: Colors,
+  typography: Typography,
+  level: WcagLevel,
+  fixes: AccessibilityFix[]
+): Colors {
+  const colors = { ...planned, adjustments: [...planned.adjustments] }
+  const criterion = contrastCriterion(level)
+  const ratio = requiredContrast(level)
+
+  const background = backgroundFor(colors.backgroundColor, ratio)
+  if (background !== colors.backgroundColor) {
+    fixes.push({
+      kind: 'contrast',
+      criterion,
+      target: 'Background colour',
+      before: colors.backgroundColor,
+      after: background,
+    })
+    colors.backgroundColor = background
+  }
+
+  const text = meetContrast(colors.textColor, background, ratio)
+  if (text !== colors.textColor) {
+    fixes.push({
+      kind: 'contrast',
+      criterion,
+      target: 'Text colour',
+      before: formatContrast(colors.textColor, background),
+      after: formatContrast(text, background),
+    })
+    colors.textColor = text
+  }
+
+  // Titles are drawn in the primary colour, at heading size
+  const titleRatio = requiredContrast(level, typography.sizes.h1 >= LARGE_TEXT_PX)
+  const primary = meetContrast(colors.primaryColor, background, titleRatio)
+  if (primary !== colors.primaryColor) {
+    fixes.push({
+      kind: 'contrast',
+      criterion,
+      target: 'Title colour',
+      before: formatContrast(colors.primaryColor, background),
+      after: formatContrast(primary, background),
+    })
+    colors.primaryColor = primary
+  }
+
+  colors.adjustments = colors.adjustments.map(adjustment => {
+    if (adjustment.target !== 'text') return adjustment
+    const to = meetContrast(adjustment.to, background, ratio)
+    if (to === adjustment.to) return adjustment
+    fixes.push({
+      kind: 'contrast',
+      criterion,
+      target: `Text recolouring of ${adjustment.from}`,
+      before: formatContrast(adjustment.to, background),
+      after: formatContrast(to, background),
+    })
+    return { ...adjustment, to }
+  })
+
+  return colors
+}
+
+function separateForColorBlindness(colors: Colors, level: WcagLevel, fixes: AccessibilityFix[]) {
+  for (const [fixed, moved] of DISTINCT_SLOTS) {
+    const before = colors[moved]
+    if (minSimulatedDistance(before, colors[fixed]) >= MIN_COLOR_BLIND_DELTA_E) continue
+
+    // Lightness survives every kind of colour blindness, so move along it,
+    // away from the fixed colour first
+    const brighterFirst = chroma(before).luminance() >= chroma(colors[fixed]).luminance()
+    const after = separate(before, colors[fixed], brighterFirst) || separate(before, colors[fixed], !brighterFirst)
+    if (!after) continue
+
+    colors[moved] = after
+    fixes.push({
+      kind: 'color-blindness',
+      criterion: '1.4.1',
+      target: `${capitalize(slotName(moved))} colour`,
+      before,
+      after,
+    })
+  }
+
+  // Black and white look the same to everyone
+  const ratio = requiredContrast(level)
+  const failing = COLOR_BLIND_TYPES.find(type =>
+    chroma.contrast(simulate(colors.textColor, type), simulate(colors.backgroundColor, type)) < ratio
+  )
+  if (failing) {
+    const text = bestTextColor(colors.backgroundColor)
+    fixes.push({
+      kind: 'color-blindness',
+      criterion: contrastCriterion(level),
+      target: 'Text colour',
+      before: `${colors.textColor} loses contrast with ${failing}`,
+      after: text,
+    })
+    colors.textColor = text
+  }
+}
+
+function enforceTypography(planned: Typography, level: WcagLevel, fixes: AccessibilityFix[]): Typography {
+  const sizes = { ...planned.sizes }
+  const minimums = MIN_FONT_SIZES[level]
+
+  const raise = (name: SizeName, minimum: number) => {
+    if (sizes[name] >= minimum) return
+    fixes.push({
+      kind: 'font-size',
+      target: `${name} size`,
+      before: `${sizes[name]}px`,
+      after: `${minimum}px`,
+    })
+    sizes[name] = minimum
+  }
+
+  raise('body', minimums.body)
+  raise('caption', minimums.caption)
+  // Headings must stay at least as large as the text below them
+  raise('h3', sizes.body)
+  raise('h2', sizes.h3)
+  raise('h1', sizes.h2)
+
+  let { lineHeight, letterSpacing } = planned
+  if (lineHeight < MIN_LINE_HEIGHT) {
+    fixes.push({
+      kind: 'spacing',
+      criterion: level === 'AAA' ? '1.4.8' : '1.4.12',
+      target: 'Line height',
+      before: String(lineHeight),
+      after: String(MIN_LINE_HEIGHT),
+    })
+    lineHeight = MIN_LINE_HEIGHT
+  }
+  if (letterSpacing < 0) {
+    fixes.push({
+      kind: 'spacing',
+      criterion: '1.4.12',
+      target: 'Letter spacing',
+      before: `${letterSpacing}em`,
+      after: '0em',
+    })
+    letterSpacing = 0
+  }
+
+  return { ...planned, sizes, lineHeight, letterSpacing }
+}
+
+function separate(color: string, from: string, brighten: boolean): string | null {
+  let moved = chroma(color)
+  for (let step = 0; step < SEPARATION_STEPS; step++) {
+    moved = brighten ? moved.brighten(0.25) : moved.darken(0.25)
+    if (minSimulatedDistance(moved.hex(), from) >= MIN_COLOR_BLIND_DELTA_E) return moved.hex()
+  }
+  return null
+}
+
+function bestTextColor(background: string): string {
+  return chroma.contrast('#000000', background) >= chroma.contrast('#ffffff', background)
+    ? '#000000'
+    : '#ffffff'
+}
+
+function maxContrast(background: string): number {
+  return Math.max(chroma.contrast('#000000', background), chroma.contrast('#ffffff', background))
+}
+
+function simulatedDistance(a: string, b: string, type: ColorBlindType): number {
+  return chroma.deltaE(simulate(a, type), simulate(b, type))
+}
+
+function minSimulatedDistance(a: string, b: string): number {
+  return Math.min(...COLOR_BLIND_TYPES.map(type => simulatedDistance(a, b, type)))
+}
+
+function slotName(slot: 'primaryColor' | 'secondaryColor' | 'accentColor'): string {
+  return slot.replace('Color', '')
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
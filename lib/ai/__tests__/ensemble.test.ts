@@ -0,0 +1,143 @@
+import { EnsembleMerger } from '../ensemble'
+import { DocumentAnalysis } from '../types'
+
+function createAnalysis(overrides: {
+  scores?: [number, number, number, number]
+  layoutIssues?: string[]
+  layoutSuggestions?: string[]
+  palette?: string[]
+  fonts?: string[]
+  priority?: DocumentAnalysis['priority']
+} = {}): DocumentAnalysis {
+  const [layout, colors, typography, engagement] = overrides.scores || [60, 60, 60, 60]
+
+  return {
+    layout: {
+      score: layout,
+      issues: overrides.layoutIssues || [],
+      suggestions: overrides.layoutSuggestions || []
+    },
+    colors: {
+      score: colors,
+      palette: overrides.palette || [],
+      issues: [],
+      suggestions: []
+    },
+    typography: {
+      score: typography,
+      fonts: overrides.fonts || [],
+      issues: [],
+      suggestions: []
+    },
+    engagement: {
+      score: engagement,
+      readability: engagement,
+      visualAppeal: engagement,
+      suggestions: []
+    },
+    overallScore: (layout + colors + typography + engagement) / 4,
+    priority: overrides.priority || 'medium'
+  }
+}
+
+describe('EnsembleMerger', () => {
+  it('averages scores across models', () => {
+    const { analysis } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ scores: [40, 60, 80, 50] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ scores: [60, 70, 60, 70] }) }
+    ])
+
+    expect(analysis.layout.score).toBe(50)
+    expect(analysis.colors.score).toBe(65)
+    expect(analysis.typography.score).toBe(70)
+    expect(analysis.engagement.score).toBe(60)
+    expect(analysis.overallScore).toBe(61.3)
+  })
+
+  it('de-duplicates similar issues reported by different models', () => {
+    const { analysis } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ layoutIssues: ['Inconsistent margins', 'Cluttered header'] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ layoutIssues: ['Margins are inconsistent'] }) },
+      { model: 'gemini-2.0-flash', analysis: createAnalysis({ layoutIssues: ['No visual hierarchy'] }) }
+    ])
+
+    expect(analysis.layout.issues).toEqual([
+      'Inconsistent margins',
+      'Cluttered header',
+      'No visual hierarchy'
+    ])
+  })
+
+  it('keeps only suggestions a majority of models agree on', () => {
+    const { analysis } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ layoutSuggestions: ['Use a 12 column grid', 'Add a border'] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ layoutSuggestions: ['Use a grid with 12 columns'] }) },
+      { model: 'gemini-2.0-flash', analysis: createAnalysis({ layoutSuggestions: ['Increase whitespace'] }) }
+    ])
+
+    expect(analysis.layout.suggestions).toEqual(['Use a 12 column grid'])
+  })
+
+  it('falls back to the first model when suggestions never overlap', () => {
+    const { analysis } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ layoutSuggestions: ['Add a border'] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ layoutSuggestions: ['Increase whitespace'] }) }
+    ])
+
+    expect(analysis.layout.suggestions).toEqual(['Add a border'])
+  })
+
+  it('merges palettes and fonts without duplicates', () => {
+    const { analysis } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ palette: ['#ff0000', '#00FF00'], fonts: ['Arial'] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ palette: ['#00ff00'], fonts: ['arial', 'Georgia'] }) }
+    ])
+
+    expect(analysis.colors.palette).toEqual(['#00FF00', '#FF0000'])
+    expect(analysis.typography.fonts).toEqual(['Arial', 'Georgia'])
+  })
+
+  it('votes on priority and breaks ties toward urgency', () => {
+    const majority = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ priority: 'low' }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ priority: 'low' }) },
+      { model: 'gemini-2.0-flash', analysis: createAnalysis({ priority: 'high' }) }
+    ])
+    const tie = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ priority: 'low' }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ priority: 'high' }) }
+    ])
+
+    expect(majority.analysis.priority).toBe('low')
+    expect(tie.analysis.priority).toBe('high')
+  })
+
+  it('reports lower agreement for models far from the consensus', () => {
+    const { agreement, overallAgreement } = EnsembleMerger.merge([
+      { model: 'claude-4-sonnet', analysis: createAnalysis({ scores: [60, 60, 60, 60] }) },
+      { model: 'gpt-4o-mini', analysis: createAnalysis({ scores: [62, 58, 60, 60] }) },
+      { model: 'gemini-2.0-flash', analysis: createAnalysis({ scores: [90, 90, 90, 90] }) }
+    ])
+
+    expect(agreement.get('gemini-2.0-flash')!).toBeLessThan(agreement.get('claude-4-sonnet')!)
+    expect(agreement.get('gemini-2.0-flash')!).toBeLessThan(agreement.get('gpt-4o-mini')!)
+    expect(overallAgreement).toBeGreaterThan(0)
+    expect(overallAgreement).toBeLessThanOrEqual(1)
+  })
+
+  it('passes a single analysis through with full agreement', () => {
+    const single = createAnalysis({ scores: [40, 50, 60, 70], layoutSuggestions: ['Align to grid'] })
+
+    const { analysis, overallAgreement } = EnsembleMerger.merge([
+      { model: 'gpt-4o-mini', analysis: single }
+    ])
+
+    expect(analysis.layout.suggestions).toEqual(['Align to grid'])
+    expect(analysis.overallScore).toBe(single.overallScore)
+    expect(overallAgreement).toBe(1)
+  })
+
+  it('rejects an empty ensemble', () => {
+    expect(() => EnsembleMerger.merge([])).toThrow('at least one analysis')
+  })
+})
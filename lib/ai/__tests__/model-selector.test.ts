@@ -86,6 +86,51 @@ describe('ModelSelector', () => {
       // Should fallback to most reliable model
       expect(model).toBe('gemini-2.0-flash')
     })
+
+    it('should honour a requested model the tier allows', () => {
+      const model = ModelSelector.selectModel({
+        userTier: 'pro',
+        processingPriority: 'speed',
+        preferredModel: 'claude-3.5-sonnet'
+      })
+      expect(model).toBe('claude-3.5-sonnet')
+    })
+
+    it('should ignore a requested model outside the tier', () => {
+      const model = ModelSelector.selectModel({
+        userTier: 'free',
+        preferredModel: 'claude-4-sonnet'
+      })
+      expect(model).toBe('gemini-2.0-flash')
+    })
+  })
+
+  describe('ensemble', () => {
+    it('should only be available to premium users', () => {
+      expect(ModelSelector.supportsEnsemble('premium')).toBe(true)
+      expect(ModelSelector.supportsEnsemble('pro')).toBe(false)
+      expect(ModelSelector.getEnsembleModels('free')).toEqual([])
+    })
+
+    it('should use one model per provider', () => {
+      expect(ModelSelector.getEnsembleModels('premium')).toEqual([
+        'claude-4-sonnet',
+        'gpt-4o-mini',
+        'gemini-2.0-flash'
+      ])
+    })
+
+    it('should cost the sum of its members', () => {
+      const members = ModelSelector.getEnsembleModels('premium')
+      const expected = members.reduce((sum, m) => sum + ModelSelector.getCostEstimate(m, 2000), 0)
+      expect(ModelSelector.getCostEstimate('ensemble', 2000)).toBeCloseTo(expected, 6)
+    })
+
+    it('should take as long as its slowest member', () => {
+      expect(ModelSelector.estimateProcessingTime('ensemble', 'medium')).toBe(
+        ModelSelector.estimateProcessingTime('claude-4-sonnet', 'medium')
+      )
+    })
   })
 
   describe('determineComplexityWithContext', () => {
@@ -4,17 +4,21 @@ import { ModelSelector } from './model-selector'
 import { rateLimiter, apiKeyManager, costTracker, ModelSelectionLogger, ABTestManager } from './utils'
 import {
   AIModel,
+  ProviderModel,
   UserTier,
   DocumentAnalysis,
   EnhancementRequest,
   EnhancementResult,
   AIProviderResponse,
-  HealthStatus
+  HealthStatus,
+  EnsembleMemberReport
 } from './types'
+import { EnsembleMerger, EnsembleMemberResult } from './ensemble'
 import { DocumentAnalysisEngine, SupabaseAnalysisCache, DocumentContext } from '@/lib/analysis'
 import { CircuitBreaker, getCircuitBreakerConfig, CircuitBreakerMetrics, CircuitState } from './circuit-breaker'
 import { ProviderHealthMonitor } from './provider-health-monitor'
-import { FallbackStrategySelector, CachedFallbackProvider } from './fallback-strategies'
+import { FallbackStrategySelector, CachedFallbackProvider, analysisCacheInput } from './fallback-strategies'
+import { aiResponseCache } from '@/lib/cache/init'
 import { traceAIOperation, recordPipelineEvent, recordModelFallback } from '@/lib/observability/tracing'
 import { SpanStatusCode } from '@opentelemetry/api'
 
@@ -304,6 +308,13 @@ export class AIService {
     request: EnhancementRequest,
     userId: string
   ): Promise<EnhancementResult> {
+    if (request.model === 'ensemble') {
+      if (ModelSelector.supportsEnsemble(request.userTier)) {
+        return this.analyzeDocumentEnsemble(imageUrl, request, userId)
+      }
+      console.warn(`Ensemble mode is not available on the ${request.userTier} tier, using a single model`)
+    }
+
     const failedModels: AIModel[] = []
     let lastError: Error | null = null
     const startTime = Date.now()
@@ -324,7 +335,8 @@ export class AIService {
         documentType: request.documentType,
         costOptimization: request.userTier === 'free' || request.userTier === 'basic',
         estimatedTokens: 2500, // Rough estimate for document analysis
-        userId
+        userId,
+        preferredModel: request.model
       })
 
       // Check health status before proceeding
@@ -439,6 +451,12 @@ export class AIService {
           cost: (analysisResponse.usage?.cost || 0) + (enhancementResponse.usage?.cost || 0)
         })
 
+        // Keep the answer so the cache fallback can serve it while providers are down
+        await aiResponseCache.set(model, analysisCacheInput(request), {
+          analysis,
+          suggestions: suggestedEnhancements
+        })
+
         // Record A/B test metrics if applicable
         if (userId) {
           const activeTests = ABTestManager.getActiveTestsForUser(userId, request.userTier)
@@ -509,6 +527,185 @@ export class AIService {
     throw lastError || new Error('All AI models failed to process the document')
   }
 
+  /**
+   * Runs the tier's ensemble models in parallel and merges their analyses.
+   * Models that are unhealthy, rate limited or behind an open circuit are
+   * skipped; the ensemble succeeds as long as one model answers.
+   */
+  async analyzeDocumentEnsemble(
+    imageUrl: string,
+    request: EnhancementRequest,
+    userId: string
+  ): Promise<EnhancementResult> {
+    const startTime = Date.now()
+    const members: EnsembleMemberReport[] = []
+    const runnable: ProviderModel[] = []
+
+    for (const model of ModelSelector.getEnsembleModels(request.userTier)) {
+      const skipReason = await this.getEnsembleSkipReason(model, userId, request.userTier)
+      if (skipReason) {
+        members.push({ model, status: 'skipped', tokens: 0, cost: 0, reason: skipReason })
+      } else {
+        runnable.push(model)
+      }
+    }
+
+    const outcomes = await Promise.allSettled(
+      runnable.map(async model => {
+        const modelStart = Date.now()
+        const response = await this.analyzeWithCircuitBreaker(model, imageUrl, request)
+        return { response, responseTime: Date.now() - modelStart }
+      })
+    )
+
+    const results: EnsembleMemberResult[] = []
+
+    for (let i = 0; i < runnable.length; i++) {
+      const model = runnable[i]
+      const outcome = outcomes[i]
+
+      if (outcome.status === 'rejected') {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Analysis failed'
+        members.push({ model, status: 'failed', tokens: 0, cost: 0, reason })
+        ModelSelector.updatePerformanceMetrics(model, Date.now() - startTime, false, 0)
+        continue
+      }
+
+      const { response, responseTime } = outcome.value
+
+      // A fallback answer isn't an independent opinion, so it can't vote
+      if (!response.success || !response.data || response.metadata?.degraded) {
+        members.push({
+          model,
+          status: 'skipped',
+          tokens: 0,
+          cost: 0,
+          responseTime,
+          reason: response.error || 'Circuit breaker opened during analysis'
+        })
+        continue
+      }
+
+      const tokens = response.usage?.totalTokens || 0
+      const cost = response.usage?.cost || 0
+
+      await costTracker.trackUsage(model, userId, imageUrl, tokens, cost)
+      await rateLimiter.trackTokenUsage(model, userId, tokens, request.userTier)
+      ModelSelector.updatePerformanceMetrics(model, responseTime, true, tokens)
+
+      members.push({ model, status: 'succeeded', tokens, cost, responseTime })
+      results.push({ model, analysis: response.data as DocumentAnalysis })
+    }
+
+    if (results.length === 0) {
+      const reasons = members.map(m => `${m.model}: ${m.reason}`).join('; ')
+      throw new Error(`All ensemble models failed (${reasons})`)
+    }
+
+    const { analysis, agreement, overallAgreement } = EnsembleMerger.merge(results)
+
+    for (const member of members) {
+      if (member.status === 'succeeded') {
+        member.agreement = agreement.get(member.model)
+      }
+    }
+
+    // The model closest to the consensus writes the enhancement prompt
+    const leadModel = results
+      .map(r => r.model)
+      .sort((a, b) => (agreement.get(b) || 0) - (agreement.get(a) || 0))[0]
+
+    let enhancementPrompt = ''
+    try {
+      const enhancementResponse = await this.enhanceWithCircuitBreaker(leadModel, analysis, request)
+      enhancementPrompt = typeof enhancementResponse.data === 'string' ? enhancementResponse.data : ''
+
+      if (enhancementResponse.usage) {
+        const lead = members.find(m => m.model === leadModel)!
+        lead.tokens += enhancementResponse.usage.totalTokens
+        lead.cost += enhancementResponse.usage.cost
+
+        await costTracker.trackUsage(
+          leadModel,
+          userId,
+          imageUrl,
+          enhancementResponse.usage.totalTokens,
+          enhancementResponse.usage.cost
+        )
+        await rateLimiter.trackTokenUsage(
+          leadModel,
+          userId,
+          enhancementResponse.usage.totalTokens,
+          request.userTier
+        )
+      }
+    } catch (error) {
+      // Suggestions can still be derived from the merged analysis
+      console.error(`Ensemble enhancement prompt failed with ${leadModel}:`, error)
+    }
+
+    const totalTokens = members.reduce((sum, m) => sum + m.tokens, 0)
+    const totalCost = members.reduce((sum, m) => sum + m.cost, 0)
+    const complexity = ModelSelector.determineComplexityWithContext(analysis, request.documentType)
+    const degraded = members.some(m => m.status !== 'succeeded')
+
+    await ModelSelectionLogger.logSelection({
+      userId,
+      documentId: imageUrl,
+      selectedModel: 'ensemble',
+      userTier: request.userTier,
+      documentType: request.documentType,
+      documentComplexity: complexity,
+      processingPriority: 'quality',
+      selectionReason: `Ensemble of ${results.map(r => r.model).join(', ')}` +
+        (degraded ? ` (${members.length - results.length} unavailable)` : ''),
+      alternativeModels: [],
+      success: true,
+      responseTime: Date.now() - startTime,
+      tokensUsed: totalTokens,
+      cost: totalCost
+    })
+
+    return {
+      analysis,
+      suggestedEnhancements: this.parseEnhancementSuggestions(enhancementPrompt, analysis),
+      estimatedProcessingTime: ModelSelector.estimateProcessingTime('ensemble', complexity),
+      modelUsed: 'ensemble',
+      ensemble: {
+        members,
+        agreement: overallAgreement,
+        totalTokens,
+        totalCost,
+        degraded
+      }
+    }
+  }
+
+  private async getEnsembleSkipReason(
+    model: ProviderModel,
+    userId: string,
+    userTier: UserTier
+  ): Promise<string | null> {
+    if (!this.providers.has(model)) {
+      return 'Provider not configured'
+    }
+
+    if (this.circuitBreakers.get(model)?.getMetrics().state === 'open') {
+      return 'Circuit breaker is open'
+    }
+
+    if (this.healthMonitor.getHealthStatus(model)?.status === 'unhealthy') {
+      return 'Provider is unhealthy'
+    }
+
+    const rateLimitCheck = await rateLimiter.checkLimit(model, userId, userTier, 2500)
+    if (!rateLimitCheck.allowed) {
+      return `Rate limit exceeded, retry after ${rateLimitCheck.retryAfter} seconds`
+    }
+
+    return null
+  }
+
   async analyzeDocumentLocal(
     imageData: ImageData,
     documentId: string,
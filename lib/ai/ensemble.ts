@@ -0,0 +1,216 @@
+import { DocumentAnalysis, ProviderModel } from './types'
+
+export interface EnsembleMemberResult {
+  model: ProviderModel
+  analysis: DocumentAnalysis
+}
+
+export interface EnsembleMergeResult {
+  analysis: DocumentAnalysis
+  agreement: Map<ProviderModel, number> // 0-1 per model
+  overallAgreement: number // 0-1
+}
+
+const SIMILARITY_THRESHOLD = 0.5
+const MAX_PALETTE_COLORS = 8
+const PRIORITY_RANK: Record<DocumentAnalysis['priority'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2
+}
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'for', 'in', 'on', 'with', 'is', 'are', 'be', 'use', 'more'
+])
+
+interface TextCluster {
+  text: string
+  tokens: Set<string>
+  models: Set<ProviderModel>
+  firstSeen: number
+}
+
+export class EnsembleMerger {
+  /**
+   * Merges analyses from several models: scores are averaged, issues are
+   * de-duplicated across models and suggestions are kept only when a
+   * majority of models proposed something similar.
+   */
+  static merge(results: EnsembleMemberResult[]): EnsembleMergeResult {
+    if (results.length === 0) {
+      throw new Error('Ensemble merge needs at least one analysis')
+    }
+
+    const analyses = results.map(r => r.analysis)
+    const quorum = Math.floor(results.length / 2) + 1
+
+    const analysis: DocumentAnalysis = {
+      layout: {
+        score: this.average(analyses.map(a => a.layout.score)),
+        issues: this.dedupe(results, a => a.layout.issues),
+        suggestions: this.consensus(results, a => a.layout.suggestions, quorum)
+      },
+      colors: {
+        score: this.average(analyses.map(a => a.colors.score)),
+        palette: this.mergePalette(analyses),
+        issues: this.dedupe(results, a => a.colors.issues),
+        suggestions: this.consensus(results, a => a.colors.suggestions, quorum)
+      },
+      typography: {
+        score: this.average(analyses.map(a => a.typography.score)),
+        fonts: this.mergeFonts(analyses),
+        issues: this.dedupe(results, a => a.typography.issues),
+        suggestions: this.consensus(results, a => a.typography.suggestions, quorum)
+      },
+      engagement: {
+        score: this.average(analyses.map(a => a.engagement.score)),
+        readability: this.average(analyses.map(a => a.engagement.readability)),
+        visualAppeal: this.average(analyses.map(a => a.engagement.visualAppeal)),
+        suggestions: this.consensus(results, a => a.engagement.suggestions, quorum)
+      },
+      overallScore: this.average(analyses.map(a => a.overallScore)),
+      priority: this.votePriority(analyses)
+    }
+
+    const agreement = new Map<ProviderModel, number>()
+    for (const result of results) {
+      agreement.set(result.model, this.measureAgreement(result.analysis, analysis))
+    }
+
+    const overallAgreement = this.round(
+      [...agreement.values()].reduce((sum, value) => sum + value, 0) / agreement.size,
+      2
+    )
+
+    return { analysis, agreement, overallAgreement }
+  }
+
+  private static measureAgreement(member: DocumentAnalysis, consensus: DocumentAnalysis): number {
+    // 1 minus the mean distance from the consensus scores, on a 0-1 scale
+    const deviations = [
+      member.layout.score - consensus.layout.score,
+      member.colors.score - consensus.colors.score,
+      member.typography.score - consensus.typography.score,
+      member.engagement.score - consensus.engagement.score,
+      member.overallScore - consensus.overallScore
+    ].map(Math.abs)
+
+    const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length
+    return this.round(Math.max(0, 1 - meanDeviation / 100), 2)
+  }
+
+  private static dedupe(
+    results: EnsembleMemberResult[],
+    pick: (analysis: DocumentAnalysis) => string[]
+  ): string[] {
+    return this.cluster(results, pick).map(c => c.text)
+  }
+
+  private static consensus(
+    results: EnsembleMemberResult[],
+    pick: (analysis: DocumentAnalysis) => string[],
+    quorum: number
+  ): string[] {
+    const clusters = this.cluster(results, pick)
+    const agreed = clusters.filter(c => c.models.size >= quorum)
+    if (agreed.length > 0) {
+      return agreed.map(c => c.text)
+    }
+
+    // No overlap between models; fall back to the first model's suggestions
+    // rather than returning nothing
+    const lead = results[0].model
+    return clusters.filter(c => c.models.has(lead)).map(c => c.text)
+  }
+
+  private static cluster(
+    results: EnsembleMemberResult[],
+    pick: (analysis: DocumentAnalysis) => string[]
+  ): TextCluster[] {
+    const clusters: TextCluster[] = []
+    let order = 0
+
+    for (const { model, analysis } of results) {
+      for (const text of pick(analysis) || []) {
+        const tokens = this.tokenize(text)
+        if (tokens.size === 0) continue
+
+        const match = clusters.find(c => this.similarity(c.tokens, tokens) >= SIMILARITY_THRESHOLD)
+        if (match) {
+          match.models.add(model)
+        } else {
+          clusters.push({ text: text.trim(), tokens, models: new Set([model]), firstSeen: order++ })
+        }
+      }
+    }
+
+    // Most widely supported first, ties keep their original order
+    return clusters.sort((a, b) => b.models.size - a.models.size || a.firstSeen - b.firstSeen)
+  }
+
+  private static tokenize(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .replace(/[^a-z0-9#\s]/g, ' ')
+        .split(/\s+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    )
+  }
+
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    let shared = 0
+    a.forEach(token => {
+      if (b.has(token)) shared++
+    })
+    return shared / (a.size + b.size - shared)
+  }
+
+  private static mergePalette(analyses: DocumentAnalysis[]): string[] {
+    const counts = new Map<string, number>()
+    for (const analysis of analyses) {
+      for (const color of analysis.colors.palette || []) {
+        const key = color.trim().toUpperCase()
+        counts.set(key, (counts.get(key) || 0) + 1)
+      }
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PALETTE_COLORS)
+      .map(([color]) => color)
+  }
+
+  private static mergeFonts(analyses: DocumentAnalysis[]): string[] {
+    const fonts = new Map<string, string>()
+    for (const analysis of analyses) {
+      for (const font of analysis.typography.fonts || []) {
+        const key = font.trim().toLowerCase()
+        if (!fonts.has(key)) fonts.set(key, font.trim())
+      }
+    }
+    return [...fonts.values()]
+  }
+
+  private static votePriority(analyses: DocumentAnalysis[]): DocumentAnalysis['priority'] {
+    const votes = new Map<DocumentAnalysis['priority'], number>()
+    for (const analysis of analyses) {
+      votes.set(analysis.priority, (votes.get(analysis.priority) || 0) + 1)
+    }
+
+    // Ties go to the more urgent priority
+    return [...votes.entries()].sort(
+      (a, b) => b[1] - a[1] || PRIORITY_RANK[b[0]] - PRIORITY_RANK[a[0]]
+    )[0][0]
+  }
+
+  private static average(values: number[]): number {
+    const valid = values.filter(v => Number.isFinite(v))
+    if (valid.length === 0) return 0
+    return this.round(valid.reduce((sum, v) => sum + v, 0) / valid.length, 1)
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = 10 ** decimals
+    return Math.round(value * factor) / factor
+  }
+}
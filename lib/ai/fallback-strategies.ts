@@ -1,6 +1,5 @@
-import type { AIModel, DocumentType, UserTier, EnhancementRequest, DocumentAnalysis, EnhancementSuggestion } from './types'
-import { DocumentCache } from '../cache/document-cache'
-import { EnhancementCache } from '../cache/enhancement-cache'
+import type { AIModel, DocumentType, UserTier, EnhancementRequest, DocumentAnalysis, EnhancementSuggestion, Enhancement } from './types'
+import { aiResponseCache } from '../cache/init'
 
 interface FallbackStrategy {
   name: string
@@ -17,13 +16,45 @@ interface FallbackResponse {
   message: string
 }
 
+export interface CachedAnalysis {
+  analysis: DocumentAnalysis
+  suggestions: Enhancement[]
+}
+
+// Providers whose cached answers can stand in for a failing one
+const CACHED_MODELS: AIModel[] = [
+  'claude-4-sonnet',
+  'claude-3.5-sonnet',
+  'gpt-4o-mini',
+  'gemini-2.0-flash'
+]
+
+// The parts of a request that decide the answer; tier and model choice don't
+export function analysisCacheInput(request: EnhancementRequest) {
+  return {
+    documentUrl: request.documentUrl,
+    documentType: request.documentType,
+    preferences: request.preferences || {}
+  }
+}
+
+/**
+ * Finds an earlier answer to the same request from any provider,
+ * preferring the higher quality models.
+ */
+export async function findCachedAnalysis(request: EnhancementRequest): Promise<CachedAnalysis | null> {
+  for (const model of CACHED_MODELS) {
+    const entry = await aiResponseCache.get<CachedAnalysis>(model, analysisCacheInput(request))
+    if (entry) return entry.response
+  }
+  return null
+}
+
 /**
  * Manages fallback strategies when AI providers are unavailable
  */
 export class FallbackStrategySelector {
   private static strategies: FallbackStrategy[] = []
-  private static documentCache = new DocumentCache()
-  private static enhancementCache: EnhancementCache | null = null
   private static initialized = false
 
   static registerStrategy(strategy: FallbackStrategy): void {
@@ -80,9 +111,6 @@ class CachedResultStrategy implements FallbackStrategy {
   name = 'CachedResults'
   priority = 100
 
-  private documentCache = new DocumentCache()
-  private enhancementCache = new EnhancementCache()
-
   canHandle(documentType: DocumentType, userTier: UserTier): boolean {
     // Premium and Pro users get cache fallback
     return userTier === 'premium' || userTier === 'pro'
@@ -90,21 +118,15 @@ class CachedResultStrategy implements FallbackStrategy {
 
   async execute(request: EnhancementRequest, failedModel: AIModel): Promise<FallbackResponse> {
     try {
-      // Try to find a similar cached document
-      const similarDocs = await this.documentCache.getSimilar(request.documentType, 1)
+      const cached = await findCachedAnalysis(request)
       
-      if (similarDocs && similarDocs.length > 0 && FallbackStrategySelector.enhancementCache) {
-        const docId = similarDocs[0].id
-        const cachedEnhancement = await FallbackStrategySelector.enhancementCache.get(docId)
-        
-        if (cachedEnhancement) {
-          return {
-            analysis: cachedEnhancement.analysis as DocumentAnalysis,
-            enhancements: cachedEnhancement.suggestions,
-            degraded: true,
-            source: 'cache',
-            message: 'Using cached results from a similar document. Results may not be fully tailored to your specific content.'
-          }
+      if (cached) {
+        return {
+          analysis: cached.analysis,
+          enhancements: cached.suggestions,
+          degraded: true,
+          source: 'cache',
+          message: 'Using cached results from an earlier analysis of this document. Results may not reflect your latest changes.'
         }
       }
     } catch (error) {
@@ -327,50 +349,25 @@ class GracefulDegradationStrategy implements FallbackStrategy {
  * Provider for cached fallback responses
  */
 export class CachedFallbackProvider {
-  private documentCache = new DocumentCache()
-  private enhancementCache: EnhancementCache | null = null
-
   async getCachedResponse(
     request: EnhancementRequest,
     documentId: string
   ): Promise<FallbackResponse | null> {
     try {
-      if (!this.enhancementCache) {
-        return null
-      }
-
-      // First try exact match
-      const cachedEnhancement = await this.enhancementCache.get(documentId)
-      if (cachedEnhancement?.analysis && cachedEnhancement?.suggestions) {
+      const cached = await findCachedAnalysis(request)
+      if (cached) {
         return {
-          analysis: cachedEnhancement.analysis as DocumentAnalysis,
-          enhancements: cachedEnhancement.suggestions,
+          analysis: cached.analysis,
+          enhancements: cached.suggestions,
           degraded: false,
           source: 'cache',
           message: 'Using cached analysis results'
         }
       }
-
-      // Then try similar documents
-      const similarDocs = await this.documentCache.getSimilar(request.documentType, 1)
-      
-      if (similarDocs && similarDocs.length > 0) {
-        const similarEnhancement = await this.enhancementCache.get(similarDocs[0].id)
-        
-        if (similarEnhancement) {
-          return {
-            analysis: similarEnhancement.analysis as DocumentAnalysis,
-            enhancements: similarEnhancement.suggestions,
-            degraded: true,
-            source: 'cache',
-            message: 'Using analysis from a similar document'
-          }
-        }
-      }
     } catch (error) {
-      console.error('Cache fallback failed:', error)
+      console.error(`Cache fallback failed for ${documentId}:`, error)
     }
 
     return null
   }
-}
\ No newline at end of file
+}
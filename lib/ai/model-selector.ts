@@ -1,4 +1,4 @@
-import { AIModel, UserTier, DocumentAnalysis } from './types'
+import { AIModel, ProviderModel, UserTier, DocumentAnalysis } from './types'
 import { ABTestManager } from './utils/ab-testing'
 
 interface ModelSelectionCriteria {
@@ -10,6 +10,7 @@ interface ModelSelectionCriteria {
   documentType?: 'worksheet' | 'presentation' | 'marketing'
   estimatedTokens?: number
   userId?: string
+  preferredModel?: AIModel
 }
 
 interface DocumentComplexityFactors {
@@ -36,6 +37,14 @@ export class ModelSelector {
     premium: ['claude-4-sonnet', 'claude-3.5-sonnet', 'gpt-4o-mini', 'gemini-2.0-flash']
   }
 
+  // One model per provider so the ensemble sees independent opinions
+  private static readonly ensembleModelMap: Record<UserTier, ProviderModel[]> = {
+    free: [],
+    basic: [],
+    pro: [],
+    premium: ['claude-4-sonnet', 'gpt-4o-mini', 'gemini-2.0-flash']
+  }
+
   private static readonly complexityModelMap: Record<string, AIModel[]> = {
     low: ['gemini-2.0-flash', 'gpt-4o-mini'],
     medium: ['gpt-4o-mini', 'claude-3.5-sonnet'],
@@ -116,6 +125,12 @@ export class ModelSelector {
       return 'gemini-2.0-flash'
     }
 
+    // Honour an explicit model request when the tier allows it
+    if (criteria.preferredModel && availableModels.includes(criteria.preferredModel)) {
+      this.logModelSelection('selected', criteria.preferredModel, criteria, 'Requested model')
+      return criteria.preferredModel
+    }
+
     // Apply document type preference if specified
     if (documentType) {
       const typePreferredModels = this.documentTypeModelPreference[documentType]
@@ -332,6 +347,14 @@ export class ModelSelector {
     return Math.max(10, totalItems * 3) // Rough estimation
   }
 
+  static supportsEnsemble(userTier: UserTier): boolean {
+    return this.ensembleModelMap[userTier].length > 0
+  }
+
+  static getEnsembleModels(userTier: UserTier): ProviderModel[] {
+    return [...this.ensembleModelMap[userTier]]
+  }
+
   static getFallbackModel(currentModel: AIModel, userTier: UserTier): AIModel | null {
     const availableModels = this.tierModelMap[userTier]
     const currentIndex = availableModels.indexOf(currentModel)
@@ -344,8 +367,15 @@ export class ModelSelector {
   }
 
   static estimateProcessingTime(model: AIModel, documentComplexity: 'low' | 'medium' | 'high'): number {
+    // Ensemble members run in parallel, so the slowest one sets the pace
+    if (model === 'ensemble') {
+      return Math.max(
+        ...this.ensembleModelMap.premium.map(m => this.estimateProcessingTime(m, documentComplexity))
+      )
+    }
+
     // Base processing times in seconds
-    const baseTime: Record<AIModel, number> = {
+    const baseTime: Record<ProviderModel, number> = {
       'gemini-2.0-flash': 5,
       'gpt-4o-mini': 8,
       'claude-3.5-sonnet': 12,
@@ -362,8 +392,16 @@ export class ModelSelector {
   }
 
   static getCostEstimate(model: AIModel, estimatedTokens: number = 2000): number {
+    // Every ensemble member processes the whole document
+    if (model === 'ensemble') {
+      return this.ensembleModelMap.premium.reduce(
+        (total, m) => total + this.getCostEstimate(m, estimatedTokens),
+        0
+      )
+    }
+
     // Approximate cost per 1k tokens (average of input/output)
-    const costPer1kTokens: Record<AIModel, number> = {
+    const costPer1kTokens: Record<ProviderModel, number> = {
       'gemini-2.0-flash': 0.00015,
       'gpt-4o-mini': 0.000375, // Average of input/output
       'claude-3.5-sonnet': 0.009,  // Average of input/output
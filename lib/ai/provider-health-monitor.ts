@@ -26,7 +26,7 @@ export class ProviderHealthMonitor {
     errorRateThreshold: 0.1 // 10% error rate
   }
   
-  private readonly healthCheckPrompts: Record<AIModel, string> = {
+  private readonly healthCheckPrompts: Partial<Record<AIModel, string>> = {
     'gemini-2.0-flash': "Respond with 'OK' if operational",
     'gpt-4o-mini': "Reply 'OK' to confirm availability",
     'claude-3.5-sonnet': "Say 'OK' if you can process this",
@@ -1,9 +1,12 @@
-export type AIModel = 
+export type ProviderModel =
   | 'gemini-2.0-flash'
   | 'gpt-4o-mini'
   | 'claude-3.5-sonnet'
   | 'claude-4-sonnet'
 
+// 'ensemble' runs several provider models in parallel and merges their analyses
+export type AIModel = ProviderModel | 'ensemble'
+
 export type UserTier = 'free' | 'basic' | 'pro' | 'premium'
 
 export interface AIModelConfig {
@@ -47,6 +50,7 @@ export interface EnhancementRequest {
   documentUrl: string
   documentType: 'worksheet' | 'presentation' | 'marketing'
   userTier: UserTier
+  model?: AIModel // requested model; selected automatically when omitted
   preferences?: {
     style?: 'modern' | 'classic' | 'playful' | 'professional'
     colorScheme?: 'vibrant' | 'muted' | 'monochrome'
@@ -59,6 +63,25 @@ export interface EnhancementResult {
   suggestedEnhancements: Enhancement[]
   estimatedProcessingTime: number
   modelUsed: AIModel
+  ensemble?: EnsembleReport
+}
+
+export interface EnsembleMemberReport {
+  model: ProviderModel
+  status: 'succeeded' | 'failed' | 'skipped'
+  agreement?: number // 0-1, closeness of this model's scores to the consensus
+  tokens: number
+  cost: number
+  responseTime?: number
+  reason?: string // why the model failed or was skipped
+}
+
+export interface EnsembleReport {
+  members: EnsembleMemberReport[]
+  agreement: number // 0-1, mean agreement of the succeeded models
+  totalTokens: number
+  totalCost: number
+  degraded: boolean // some members failed or were skipped
 }
 
 export interface Enhancement {
@@ -78,6 +101,11 @@ export interface AIProviderResponse<T = unknown> {
     totalTokens: number
     cost: number
   }
+  metadata?: {
+    degraded?: boolean // served by a fallback strategy, not the model
+    source?: string
+    message?: string
+  }
 }
 
 export interface RateLimitConfig {
@@ -153,7 +153,7 @@ describe('DocumentAnalysisEngine', () => {
           consistency: 90
         },
         readability: {
-          fleschKincaid: 65,
+          fleschReadingEase: 65,
           lineHeight: 1.5,
           characterSpacing: 0,
           score: 85
@@ -290,7 +290,7 @@ describe('DocumentAnalysisEngine', () => {
           consistency: 90
         },
         readability: {
-          fleschKincaid: 65,
+          fleschReadingEase: 65,
           lineHeight: 1.5,
           characterSpacing: 0,
           score: 85
@@ -361,7 +361,7 @@ describe('DocumentAnalysisEngine', () => {
         return {
           fonts: { families: ['Arial'], sizes: [12, 16], weights: [400] },
           hierarchy: { levels: 3, consistency: 90 },
-          readability: { fleschKincaid: 65, lineHeight: 1.5, characterSpacing: 0, score: 85 },
+          readability: { fleschReadingEase: 65, lineHeight: 1.5, characterSpacing: 0, score: 85 },
           consistency: { fontPairing: 85, sizeRatio: 90 }
         }
       })
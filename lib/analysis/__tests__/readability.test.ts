@@ -0,0 +1,59 @@
+/** @jest-environment node */
+import { ReadabilityAnalyzer } from '../analyzers/readability'
+
+describe('ReadabilityAnalyzer', () => {
+  const analyzer = new ReadabilityAnalyzer()
+
+  it('scores simple text at an early grade', () => {
+    const level = analyzer.analyze('The cat sat on the mat. The dog ran to the big red ball. We like to play.')!
+
+    expect(level.words).toBe(18)
+    expect(level.sentences).toBe(3)
+    expect(level.fleschKincaid).toBeLessThan(2)
+    expect(level.fleschReadingEase).toBeGreaterThan(90)
+    expect(level.daleChallGrade).toBe(4)
+    expect(level.lexile).toBeLessThan(500)
+  })
+
+  it('checks text against the target grade band and suggests fixes', () => {
+    const level = analyzer.analyze(
+      'Photosynthesis is the biochemical process through which chlorophyll-containing organisms ' +
+      'convert electromagnetic radiation into chemical energy, subsequently synthesizing carbohydrates ' +
+      'that sustain the surrounding ecosystem.\n' +
+      'Identify the organelle responsible.',
+      {
+        gradeLevel: '3-5',
+        textSizes: [
+          { text: 'Identify the organelle responsible.', size: 9.6 },
+          { text: 'Photosynthesis is the biochemical process', size: 14 },
+        ],
+      }
+    )!
+
+    expect(level.grade).toBeGreaterThan(12)
+    expect(level.target).toEqual({ gradeLevel: '3-5', fit: 'above' })
+    expect(level.suggestions.map(suggestion => suggestion.kind)).toEqual([
+      'grade-level',
+      'long-sentence',
+      'hard-word',
+      'small-font',
+    ])
+
+    const [, long, hard, small] = level.suggestions
+    expect(long.examples).toHaveLength(1)
+    expect(long.examples[0]).toMatch(/^Photosynthesis is the biochemical process/)
+    expect(hard.examples).toEqual(expect.arrayContaining(['photosynthesis', 'biochemical', 'chlorophyll']))
+    expect(small.examples).toEqual(['Identify the organelle responsible. (9.6pt)'])
+  })
+
+  it('treats worksheet lines as sentences and skips numbering', () => {
+    const level = analyzer.analyze('1. Add the numbers\n2. Write the answer\n______')!
+
+    expect(level.sentences).toBe(2)
+    expect(level.words).toBe(6)
+  })
+
+  it('returns null without words', () => {
+    expect(analyzer.analyze('12 + 7 = ___')).toBeNull()
+  })
+})
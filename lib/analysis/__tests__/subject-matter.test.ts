@@ -0,0 +1,55 @@
+/** @jest-environment node */
+import { SubjectMatterAnalyzer } from '../analyzers/subject-matter'
+import { DocumentContext } from '../types'
+
+const context = (text?: string): DocumentContext => ({
+  imageData: null,
+  text,
+  metadata: { width: 816, height: 1056, format: 'application/pdf', size: 1024 },
+  type: 'worksheet',
+})
+
+describe('SubjectMatterAnalyzer', () => {
+  const analyzer = new SubjectMatterAnalyzer()
+
+  it('classifies a worksheet by the subject its text is about', async () => {
+    const subject = await analyzer.analyze(context(`
+      Fractions Practice
+      Name: ________
+      1. Add the fractions 1/4 + 2/4 and write the sum.
+      2. Which fraction is larger? Use the number line to compare.
+      3. Shade the area that shows 3/8.
+    `))
+
+    expect(subject.primary).toBe('Mathematics')
+    expect(subject.category).toBe('Education')
+    expect(subject.keywords.slice(0, 3)).toEqual(expect.arrayContaining(['fractions', 'number line']))
+    expect(subject.confidence).toBeGreaterThan(50)
+  })
+
+  it('tells business functions apart', () => {
+    const subject = analyzer.analyzeText(
+      'Q3 Financial Review. Revenue grew 12% while operating costs fell. ' +
+      'The cash flow forecast and budget for next quarter follow, with margin by region.'
+    )
+
+    expect(subject?.primary).toBe('Finance')
+    expect(subject?.category).toBe('Business')
+    expect(subject?.keywords).toEqual(expect.arrayContaining(['revenue', 'cash flow', 'budget']))
+  })
+
+  it('lists related subjects as secondary', () => {
+    const subject = analyzer.analyzeText(
+      'Plant cell experiment: form a hypothesis about how light energy drives photosynthesis, ' +
+      'then calculate the growth of each plant and graph the results.'
+    )
+
+    expect(subject?.primary).toBe('Science')
+    expect(subject?.secondary).toContain('Mathematics')
+  })
+
+  it('returns null for text with no subject terms, and needs text or an image', async () => {
+    expect(analyzer.analyzeText('Lorem ipsum dolor sit amet')).toBeNull()
+    await expect(analyzer.analyze(context('Lorem ipsum'))).rejects.toThrow('Image data or text is required')
+  })
+})
@@ -1,6 +1,9 @@
 import { DocumentContext, AgeAppropriateness } from '../types'
+import { ReadabilityAnalyzer } from './readability'
 
 export class AgeAppropriatenessAnalyzer {
+  private readabilityAnalyzer = new ReadabilityAnalyzer()
+
   async analyze(context: DocumentContext): Promise<AgeAppropriateness> {
     const { imageData, userPreferences } = context
     
@@ -10,7 +13,17 @@ export class AgeAppropriatenessAnalyzer {
 
     const complexity = this.analyzeComplexity(imageData)
     const visualStyle = this.analyzeVisualStyle(imageData)
-    const contentMaturity = this.analyzeContentMaturity(imageData, context)
+    const readingLevel = context.text
+      ? this.readabilityAnalyzer.analyze(context.text, { gradeLevel: context.gradeLevel }) ?? undefined
+      : undefined
+    
+    // The text's reading grade says more about who it's for than how much
+    // of the page looks like text, so it counts for half when known
+    let contentMaturity = this.analyzeContentMaturity(imageData, context)
+    if (readingLevel) {
+      const readingMaturity = Math.max(0, Math.min(100, (readingLevel.grade / 12) * 100))
+      contentMaturity = (contentMaturity + readingMaturity) / 2
+    }
     
     const detectedAge = this.determineTargetAge(complexity, visualStyle, contentMaturity, userPreferences?.targetAudience)
     const confidence = this.calculateConfidence(complexity, visualStyle, contentMaturity)
@@ -22,7 +35,8 @@ export class AgeAppropriatenessAnalyzer {
         complexity,
         visualStyle,
         contentMaturity
-      }
+      },
+      readingLevel
     }
   }
 
@@ -178,11 +178,13 @@ export class EngagementAnalyzer {
   private detectSymmetry(imageData: ImageData): boolean {
     const { data, width, height } = imageData
     let symmetryScore = 0
-    const samples = 100
+    const gridSize = 10
+    const samples = gridSize * gridSize
     
+    // Sample a fixed grid over the left half so the same image always scores the same
     for (let i = 0; i < samples; i++) {
-      const y = Math.floor(Math.random() * height)
-      const x = Math.floor(Math.random() * (width / 2))
+      const y = Math.floor(((Math.floor(i / gridSize) + 0.5) / gridSize) * height)
+      const x = Math.floor(((i % gridSize + 0.5) / gridSize) * (width / 2))
       const mirrorX = width - x - 1
       
       const idx1 = (y * width + x) * 4
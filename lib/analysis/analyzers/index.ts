@@ -3,4 +3,5 @@ export { ColorAnalyzer } from './color'
 export { TypographyAnalyzer } from './typography'
 export { AgeAppropriatenessAnalyzer } from './age-appropriateness'
 export { SubjectMatterAnalyzer } from './subject-matter'
-export { EngagementAnalyzer } from './engagement'
\ No newline at end of file
+export { EngagementAnalyzer } from './engagement'
+export { ReadabilityAnalyzer, GRADE_BANDS } from './readability'
\ No newline at end of file
@@ -0,0 +1,241 @@
+import familiarWords from 'dale-chall'
+import { GradeLevel, ReadingLevel, ReadingSuggestion } from '../types'
+
+interface GradeBand {
+  label: string
+  grades: [number, number] // lowest and highest US grade the band reads at
+  minFontSize: number // points, for body text
+  maxSentenceWords: number
+}
+
+// Grade levels as the upload wizard offers them. Adult education aims for
+// plain language rather than the grade of its readers.
+export const GRADE_BANDS: Record<GradeLevel, GradeBand> = {
+  'prek': { label: 'Pre-K', grades: [-1, 0.9], minFontSize: 24, maxSentenceWords: 8 },
+  'k-2': { label: 'K-2nd grade', grades: [0, 2.9], minFontSize: 18, maxSentenceWords: 10 },
+  '3-5': { label: '3rd-5th grade', grades: [3, 5.9], minFontSize: 14, maxSentenceWords: 15 },
+  '6-8': { label: '6th-8th grade', grades: [6, 8.9], minFontSize: 12, maxSentenceWords: 20 },
+  '9-12': { label: '9th-12th grade', grades: [9, 12.9], minFontSize: 11, maxSentenceWords: 25 },
+  'college': { label: 'college', grades: [13, 16.9], minFontSize: 10, maxSentenceWords: 30 },
+  'adult': { label: 'adult education', grades: [5, 9.9], minFontSize: 12, maxSentenceWords: 20 },
+  'professional': { label: 'professional development', grades: [10, 16.9], minFontSize: 10, maxSentenceWords: 25 }
+}
+
+// Used for long sentences when there's no target band
+const DEFAULT_MAX_SENTENCE_WORDS = 20
+const MAX_EXAMPLES = 5
+
+// Lexile measures at the middle of the Common Core grade bands. Grades in
+// between are interpolated, which makes this a Lexile-style estimate rather
+// than an official measure.
+const LEXILE_BY_GRADE: Array<[number, number]> = [
+  [1, 360],
+  [2.5, 620],
+  [4.5, 875],
+  [7, 1055],
+  [9.5, 1190],
+  [11.5, 1285],
+  [14, 1400]
+]
+
+const FAMILIAR_WORDS = new Set(familiarWords as string[])
+
+export class ReadabilityAnalyzer {
+  /**
+   * Scores text by Flesch-Kincaid, New Dale-Chall and a Lexile-style
+   * estimate, and suggests changes where it reads above the target grade
+   * band or is set too small for it. Returns null when there are no words.
+   *
+   * `textSizes` are printed body text sizes in points, with the text set at
+   * each size so suggestions can point to it.
+   */
+  analyze(
+    text: string,
+    options: { gradeLevel?: GradeLevel; textSizes?: Array<{ text: string; size: number }> } = {}
+  ): ReadingLevel | null {
+    const sentences = this.splitSentences(text)
+    const words = sentences.flat()
+    if (words.length === 0) {
+      return null
+    }
+
+    const syllables = words.reduce((sum, word) => sum + this.countSyllables(word), 0)
+    const wordsPerSentence = words.length / sentences.length
+    const syllablesPerWord = syllables / words.length
+
+    const fleschKincaid = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59
+    const fleschReadingEase = 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+
+    const difficult = words.filter(word => !this.isFamiliar(word))
+    const difficultShare = (difficult.length / words.length) * 100
+    const daleChall = 0.1579 * difficultShare + 0.0496 * wordsPerSentence + (difficultShare > 5 ? 3.6365 : 0)
+    const daleChallGrade = this.daleChallToGrade(daleChall)
+
+    const grade = (fleschKincaid + daleChallGrade) / 2
+    const band = options.gradeLevel && GRADE_BANDS[options.gradeLevel]
+
+    const suggestions: ReadingSuggestion[] = []
+    if (band && grade > band.grades[1]) {
+      suggestions.push({
+        kind: 'grade-level',
+        message: `Reads at about grade ${this.formatGrade(grade)}, above the ${band.label} band. ` +
+          'Shorter sentences and more familiar words will bring it down.',
+        examples: []
+      })
+    }
+
+    const maxWords = band?.maxSentenceWords ?? DEFAULT_MAX_SENTENCE_WORDS
+    const long = this.splitSentenceText(text).filter(sentence => this.wordsOf(sentence).length > maxWords)
+    if (long.length > 0) {
+      suggestions.push({
+        kind: 'long-sentence',
+        message: `${long.length} ${long.length === 1 ? 'sentence is' : 'sentences are'} longer than ${maxWords} words. ` +
+          'Split them so each makes one point.',
+        examples: long.slice(0, MAX_EXAMPLES).map(sentence => this.truncate(sentence))
+      })
+    }
+
+    const hardWords = this.rankHardWords(difficult)
+    if (hardWords.length > 0 && (!band || grade > band.grades[0])) {
+      suggestions.push({
+        kind: 'hard-word',
+        message: 'These longer words aren\'t on the Dale-Chall list of familiar words. ' +
+          'Swap in simpler ones or define them in a word bank.',
+        examples: hardWords.slice(0, MAX_EXAMPLES)
+      })
+    }
+
+    if (band && options.textSizes) {
+      const small = options.textSizes.filter(({ size }) => size < band.minFontSize)
+      if (small.length > 0) {
+        suggestions.push({
+          kind: 'small-font',
+          message: `${small.length} text ${small.length === 1 ? 'block is' : 'blocks are'} set below ${band.minFontSize}pt, ` +
+            `the smallest comfortable size for ${band.label} readers.`,
+          examples: small
+            .sort((a, b) => a.size - b.size)
+            .slice(0, MAX_EXAMPLES)
+            .map(({ text, size }) => `${this.truncate(text, 40)} (${Math.round(size * 10) / 10}pt)`)
+        })
+      }
+    }
+
+    return {
+      fleschKincaid: this.round(fleschKincaid),
+      fleschReadingEase: this.round(Math.max(0, Math.min(100, fleschReadingEase))),
+      daleChall: this.round(daleChall),
+      daleChallGrade,
+      lexile: this.estimateLexile(grade),
+      grade: this.round(grade),
+      words: words.length,
+      sentences: sentences.length,
+      target: band && options.gradeLevel ? {
+        gradeLevel: options.gradeLevel,
+        fit: grade > band.grades[1] ? 'above' : grade < band.grades[0] ? 'below' : 'on-target'
+      } : undefined,
+      suggestions
+    }
+  }
+
+  // Sentences end at terminal punctuation or a line break; worksheet items
+  // are often lines without a full stop. Sentences without words (question
+  // numbers, blanks to fill in) are dropped.
+  private splitSentenceText(text: string): string[] {
+    return text
+      .split(/[.!?]+(?:\s+|$)|\n+/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence => this.wordsOf(sentence).length > 0)
+  }
+
+  private splitSentences(text: string): string[][] {
+    return this.splitSentenceText(text).map(sentence => this.wordsOf(sentence))
+  }
+
+  private wordsOf(sentence: string): string[] {
+    return sentence.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || []
+  }
+
+  // Vowel groups, less a silent final 'e'; good to within a syllable for
+  // most English words
+  private countSyllables(word: string): number {
+    const stripped = word.replace(/'.*$/, '')
+    if (stripped.length <= 3) return 1
+    const trimmed = stripped
+      .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, match => match[0])
+      .replace(/^y/, '')
+    return Math.max(1, (trimmed.match(/[aeiouy]+/g) || []).length)
+  }
+
+  // Regular inflections of a familiar word count as familiar
+  private isFamiliar(word: string): boolean {
+    const base = word.replace(/'s$/, '')
+    if (base.length <= 2 || FAMILIAR_WORDS.has(base)) return true
+    const candidates = [
+      base.replace(/ies$/, 'y'),
+      base.replace(/ied$/, 'y'),
+      base.replace(/es$/, ''),
+      base.replace(/s$/, ''),
+      base.replace(/ed$/, ''),
+      base.replace(/d$/, ''),
+      base.replace(/ing$/, ''),
+      base.replace(/ing$/, 'e'),
+      base.replace(/er$/, ''),
+      base.replace(/est$/, ''),
+      base.replace(/ly$/, '')
+    ]
+    return candidates.some(candidate => candidate !== base && FAMILIAR_WORDS.has(candidate))
+  }
+
+  // Unfamiliar words of three or more syllables, most used first
+  private rankHardWords(difficult: string[]): string[] {
+    const counts = new Map<string, number>()
+    for (const word of difficult) {
+      if (this.countSyllables(word) < 3) continue
+      counts.set(word, (counts.get(word) || 0) + 1)
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([word]) => word)
+  }
+
+  // The New Dale-Chall table gives grade ranges; this takes their middle
+  private daleChallToGrade(score: number): number {
+    if (score < 5) return 4
+    if (score < 6) return 5.5
+    if (score < 7) return 7.5
+    if (score < 8) return 9.5
+    if (score < 9) return 11.5
+    if (score < 10) return 14
+    return 16
+  }
+
+  private estimateLexile(grade: number): number {
+    const [first] = LEXILE_BY_GRADE
+    const last = LEXILE_BY_GRADE[LEXILE_BY_GRADE.length - 1]
+    let lexile: number
+    if (grade <= first[0]) {
+      // Below first grade drops towards BR (beginning reader, 0L and below)
+      lexile = first[1] - (first[0] - grade) * 260
+    } else if (grade >= last[0]) {
+      lexile = Math.min(1600, last[1] + (grade - last[0]) * 50)
+    } else {
+      const upper = LEXILE_BY_GRADE.findIndex(([g]) => g >= grade)
+      const [g0, l0] = LEXILE_BY_GRADE[upper - 1]
+      const [g1, l1] = LEXILE_BY_GRADE[upper]
+      lexile = l0 + ((grade - g0) / (g1 - g0)) * (l1 - l0)
+    }
+    return Math.round(lexile / 10) * 10
+  }
+
+  private formatGrade(grade: number): string {
+    return grade < 1 ? 'K' : String(Math.round(grade))
+  }
+
+  private truncate(text: string, length = 80): string {
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10
+  }
+}
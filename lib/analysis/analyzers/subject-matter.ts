@@ -1,5 +1,196 @@
 import { DocumentContext, SubjectMatter } from '../types'
 
+interface SubjectEntry {
+  label: string
+  category: 'Education' | 'Business' | 'Creative Arts'
+  terms: string[] // single words or two-word phrases
+}
+
+// Grade-level school subjects and business functions a document can be about
+const SUBJECT_TAXONOMY: SubjectEntry[] = [
+  {
+    label: 'Mathematics',
+    category: 'Education',
+    terms: [
+      'math', 'mathematics', 'algebra', 'geometry', 'equation', 'fraction', 'decimal', 'percent',
+      'multiply', 'multiplication', 'divide', 'division', 'addition', 'subtraction', 'angle',
+      'triangle', 'area', 'perimeter', 'calculate', 'solve', 'number line', 'place value',
+      'times tables', 'word problem', 'graph', 'sum'
+    ]
+  },
+  {
+    label: 'Science',
+    category: 'Education',
+    terms: [
+      'science', 'experiment', 'hypothesis', 'biology', 'chemistry', 'physics', 'cell', 'energy',
+      'force', 'atom', 'molecule', 'ecosystem', 'photosynthesis', 'plant', 'animal', 'weather',
+      'planet', 'solar system', 'water cycle', 'magnet', 'matter', 'scientific method', 'organism'
+    ]
+  },
+  {
+    label: 'English Language Arts',
+    category: 'Education',
+    terms: [
+      'reading', 'writing', 'grammar', 'vocabulary', 'spelling', 'noun', 'verb', 'adjective',
+      'sentence', 'paragraph', 'essay', 'poem', 'poetry', 'story', 'character', 'plot', 'author',
+      'punctuation', 'phonics', 'comprehension', 'main idea', 'rhyme', 'synonym'
+    ]
+  },
+  {
+    label: 'History',
+    category: 'Education',
+    terms: [
+      'history', 'historical', 'war', 'revolution', 'empire', 'ancient', 'civilization', 'president',
+      'century', 'timeline', 'constitution', 'colonial', 'independence', 'civil rights', 'world war',
+      'medieval', 'dynasty'
+    ]
+  },
+  {
+    label: 'Geography',
+    category: 'Education',
+    terms: [
+      'geography', 'map', 'continent', 'country', 'capital', 'river', 'mountain', 'climate',
+      'population', 'latitude', 'longitude', 'ocean', 'region', 'compass'
+    ]
+  },
+  {
+    label: 'Foreign Languages',
+    category: 'Education',
+    terms: [
+      'spanish', 'french', 'german', 'mandarin', 'translate', 'translation', 'conjugate',
+      'conjugation', 'bonjour', 'hola', 'masculine', 'feminine', 'infinitive'
+    ]
+  },
+  {
+    label: 'Art',
+    category: 'Education',
+    terms: [
+      'art', 'drawing', 'painting', 'sketch', 'color wheel', 'sculpture', 'artist', 'canvas',
+      'shading', 'primary colors', 'collage'
+    ]
+  },
+  {
+    label: 'Music',
+    category: 'Education',
+    terms: [
+      'music', 'rhythm', 'melody', 'note', 'tempo', 'instrument', 'song', 'chord', 'scale',
+      'composer', 'beat', 'harmony'
+    ]
+  },
+  {
+    label: 'Physical Education',
+    category: 'Education',
+    terms: [
+      'exercise', 'fitness', 'sport', 'team', 'warm up', 'stretch', 'health', 'nutrition',
+      'heart rate', 'athlete'
+    ]
+  },
+  {
+    label: 'Computer Science',
+    category: 'Education',
+    terms: [
+      'computer', 'coding', 'programming', 'algorithm', 'code', 'loop', 'variable', 'function',
+      'software', 'internet', 'debug', 'binary'
+    ]
+  },
+  {
+    label: 'Finance',
+    category: 'Business',
+    terms: [
+      'finance', 'financial', 'revenue', 'profit', 'budget', 'cost', 'expense', 'forecast',
+      'cash flow', 'balance sheet', 'income statement', 'investment', 'quarterly', 'fiscal',
+      'margin', 'ebitda', 'roi'
+    ]
+  },
+  {
+    label: 'Marketing',
+    category: 'Business',
+    terms: [
+      'marketing', 'brand', 'campaign', 'audience', 'customer', 'social media', 'seo', 'engagement',
+      'advertising', 'launch', 'promotion', 'content'
+    ]
+  },
+  {
+    label: 'Sales',
+    category: 'Business',
+    terms: [
+      'sales', 'pipeline', 'lead', 'deal', 'quota', 'prospect', 'crm', 'client', 'pricing',
+      'discount', 'offer', 'conversion'
+    ]
+  },
+  {
+    label: 'Human Resources',
+    category: 'Business',
+    terms: [
+      'employee', 'hiring', 'recruitment', 'onboarding', 'benefits', 'payroll', 'training',
+      'performance review', 'policy', 'candidate', 'interview', 'culture'
+    ]
+  },
+  {
+    label: 'Operations',
+    category: 'Business',
+    terms: [
+      'operations', 'process', 'supply chain', 'logistics', 'inventory', 'workflow', 'efficiency',
+      'vendor', 'schedule', 'quality', 'delivery', 'procurement'
+    ]
+  },
+  {
+    label: 'Strategy',
+    category: 'Business',
+    terms: [
+      'strategy', 'strategic', 'vision', 'mission', 'objectives', 'goals', 'roadmap', 'initiative',
+      'growth', 'market share', 'competitive', 'okr', 'kpi'
+    ]
+  },
+  {
+    label: 'Design',
+    category: 'Creative Arts',
+    terms: [
+      'design', 'creative', 'typography', 'layout', 'illustration', 'portfolio', 'aesthetic',
+      'moodboard', 'mockup', 'graphic'
+    ]
+  }
+]
+
+// Common words that say nothing about the subject
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'also', 'because', 'been', 'before', 'being', 'below',
+  'between', 'both', 'could', 'does', 'doing', 'down', 'during', 'each', 'from', 'further',
+  'have', 'having', 'here', 'into', 'just', 'more', 'most', 'much', 'name', 'only', 'other',
+  'over', 'page', 'same', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'under', 'until', 'very', 'what',
+  'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your', 'yours', 'date', 'using'
+])
+
+const MAX_KEYWORDS = 10
+// Subjects scoring at least this share of the primary one are listed as secondary
+const SECONDARY_SHARE = 0.25
+
+// Trailing plural 's' only, applied to the text and the taxonomy alike
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+}
+
+function normalizeTerm(term: string): string {
+  return term.split(' ').map(stem).join(' ')
+}
+
+// Inverse document frequency across the taxonomy, so a term shared by
+// several subjects counts for less than one only a single subject uses
+const TERM_IDF = (() => {
+  const frequency = new Map<string, number>()
+  for (const entry of SUBJECT_TAXONOMY) {
+    for (const term of new Set(entry.terms.map(normalizeTerm))) {
+      frequency.set(term, (frequency.get(term) || 0) + 1)
+    }
+  }
+  const idf = new Map<string, number>()
+  for (const [term, count] of frequency) {
+    idf.set(term, 1 + Math.log(SUBJECT_TAXONOMY.length / count))
+  }
+  return idf
+})()
+
 export class SubjectMatterAnalyzer {
   private readonly EDUCATION_KEYWORDS = [
     'math', 'science', 'history', 'geography', 'language', 'reading', 'writing',
@@ -17,14 +208,19 @@ export class SubjectMatterAnalyzer {
   ]
 
   async analyze(context: DocumentContext): Promise<SubjectMatter> {
-    const { imageData, type } = context
+    const { imageData, text, type } = context
+    
+    // The document's own words are the best evidence when there are any
+    const fromText = text ? this.analyzeText(text, type) : null
+    if (fromText) {
+      return fromText
+    }
     
     if (!imageData) {
-      throw new Error('Image data is required for subject matter analysis')
+      throw new Error('Image data or text is required for subject matter analysis')
     }
 
-    // In production, we would use OCR to extract text
-    // For now, we'll use visual cues and document type
+    // Without text, fall back to visual cues and document type
     const visualCues = this.analyzeVisualCues(imageData)
     const structuralCues = this.analyzeStructuralCues(imageData)
     const documentTypeHints = this.getDocumentTypeHints(type)
@@ -38,6 +234,87 @@ export class SubjectMatterAnalyzer {
     return result
   }
 
+  /**
+   * Classifies extracted text against the subject taxonomy with TF-IDF
+   * scoring over single words and two-word phrases. Returns null when none
+   * of the taxonomy's terms appear.
+   */
+  analyzeText(text: string, type?: DocumentContext['type']): SubjectMatter | null {
+    const words = text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean)
+    const stems = words.map(stem)
+    
+    const termCounts = new Map<string, number>()
+    const surfaceForms = new Map<string, string>()
+    for (let i = 0; i < stems.length; i++) {
+      const terms: Array<[string, string]> = [[stems[i], words[i]]]
+      if (i + 1 < stems.length) {
+        terms.push([`${stems[i]} ${stems[i + 1]}`, `${words[i]} ${words[i + 1]}`])
+      }
+      for (const [term, surface] of terms) {
+        termCounts.set(term, (termCounts.get(term) || 0) + 1)
+        if (!surfaceForms.has(term)) surfaceForms.set(term, surface)
+      }
+    }
+    
+    // Sublinear term frequency, so one word repeated down a worksheet
+    // doesn't outweigh a spread of related terms
+    const weight = (term: string) => {
+      const count = termCounts.get(term)
+      return count ? (1 + Math.log(count)) * (TERM_IDF.get(term) || 1) : 0
+    }
+    
+    const scored = SUBJECT_TAXONOMY.map(entry => {
+      const matches = Array.from(new Set(entry.terms.map(normalizeTerm)))
+        .map(term => ({ term, weight: weight(term) }))
+        .filter(match => match.weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+      return { entry, matches, score: matches.reduce((sum, match) => sum + match.weight, 0) }
+    }).filter(subject => subject.score > 0)
+    
+    if (scored.length === 0) {
+      return null
+    }
+    
+    // The broad category also counts the general vocabulary of each area,
+    // with the document type as a tie-breaker
+    const hints = type ? this.getDocumentTypeHints(type) : new Map<string, number>()
+    const categoryKeywords: Record<SubjectEntry['category'], string[]> = {
+      'Education': this.EDUCATION_KEYWORDS,
+      'Business': this.BUSINESS_KEYWORDS,
+      'Creative Arts': this.CREATIVE_KEYWORDS
+    }
+    const categoryScores = new Map<string, number>()
+    for (const [category, keywords] of Object.entries(categoryKeywords)) {
+      const general = keywords.reduce((sum, keyword) => sum + (termCounts.has(stem(keyword)) ? 1 : 0), 0)
+      const hint = hints.get(this.categoryCue(category)) || 0
+      categoryScores.set(category, general + hint)
+    }
+    for (const { entry, score } of scored) {
+      categoryScores.set(entry.category, (categoryScores.get(entry.category) || 0) + score)
+    }
+    const category = Array.from(categoryScores.entries()).sort((a, b) => b[1] - a[1])[0][0]
+    
+    const ranked = scored.sort((a, b) => b.score - a.score)
+    const primary = ranked.find(subject => subject.entry.category === category) || ranked[0]
+    const secondary = ranked
+      .filter(subject => subject !== primary && subject.score >= primary.score * SECONDARY_SHARE)
+      .slice(0, 2)
+    
+    // Share of the evidence behind the primary subject, discounted when it
+    // rests on only one or two terms
+    const total = ranked.reduce((sum, subject) => sum + subject.score, 0)
+    const coverage = Math.min(1, primary.matches.length / 3)
+    const confidence = Math.round((primary.score / total) * coverage * 100)
+    
+    return {
+      primary: primary.entry.label,
+      secondary: secondary.map(subject => subject.entry.label),
+      category: primary.entry.category,
+      confidence,
+      keywords: this.extractTextKeywords([primary, ...secondary], stems, surfaceForms)
+    }
+  }
+
   private analyzeVisualCues(imageData: ImageData): Map<string, number> {
     const cues = new Map<string, number>()
     
@@ -231,4 +508,45 @@ export class SubjectMatterAnalyzer {
     
     return keywords
   }
+
+  // Matched taxonomy terms first, strongest first, then the document's most
+  // frequent other content words
+  private extractTextKeywords(
+    subjects: Array<{ matches: Array<{ term: string; weight: number }> }>,
+    stems: string[],
+    surfaceForms: Map<string, string>
+  ): string[] {
+    const keywords = new Set<string>()
+    const matched = subjects
+      .flatMap(subject => subject.matches)
+      .sort((a, b) => b.weight - a.weight)
+    for (const { term } of matched) {
+      keywords.add(term)
+    }
+    
+    const counts = new Map<string, number>()
+    for (const word of stems) {
+      if (word.length < 4 || STOPWORDS.has(word) || /^\d+$/.test(word)) continue
+      counts.set(word, (counts.get(word) || 0) + 1)
+    }
+    const frequent = Array.from(counts.entries())
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1])
+    for (const [word] of frequent) {
+      keywords.add(word)
+    }
+    
+    return Array.from(keywords)
+      .slice(0, MAX_KEYWORDS)
+      .map(term => surfaceForms.get(term) || term)
+  }
+
+  private categoryCue(category: string): string {
+    const cues: Record<string, string> = {
+      'Education': 'educational',
+      'Business': 'business',
+      'Creative Arts': 'creative'
+    }
+    return cues[category]
+  }
 }
\ No newline at end of file
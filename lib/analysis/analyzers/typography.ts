@@ -1,4 +1,5 @@
 import { DocumentContext, TypographyMetrics } from '../types'
+import { ReadabilityAnalyzer } from './readability'
 
 interface TextBlock {
   x: number
@@ -13,6 +14,7 @@ interface TextBlock {
 export class TypographyAnalyzer {
   private readonly MIN_TEXT_BLOCK_SIZE = 10
   private readonly TEXT_CONTRAST_THRESHOLD = 0.3
+  private readabilityAnalyzer = new ReadabilityAnalyzer()
   
   async analyze(context: DocumentContext): Promise<TypographyMetrics> {
     const { imageData } = context
@@ -28,7 +30,7 @@ export class TypographyAnalyzer {
     const textBlocks = this.detectTextBlocks(imageData)
     const fonts = this.estimateFontMetrics(textBlocks)
     const hierarchy = this.analyzeHierarchy(textBlocks)
-    const readability = this.calculateReadability(textBlocks, imageData)
+    const readability = this.calculateReadability(textBlocks, context.text)
     const consistency = this.analyzeConsistency(textBlocks)
 
     return {
@@ -329,11 +331,10 @@ export class TypographyAnalyzer {
     return { levels: Math.min(levels, 6), consistency }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private calculateReadability(textBlocks: TextBlock[], _: ImageData): TypographyMetrics['readability'] {
+  private calculateReadability(textBlocks: TextBlock[], text?: string): TypographyMetrics['readability'] {
     if (textBlocks.length === 0) {
       return {
-        fleschKincaid: 0,
+        fleschReadingEase: 0,
         lineHeight: 0,
         characterSpacing: 0,
         score: 0
@@ -351,15 +352,17 @@ export class TypographyAnalyzer {
     const avgDensity = textBlocks.map(b => b.characterDensity).reduce((a, b) => a + b) / textBlocks.length
     const spacingScore = this.scoreInRange(avgDensity, 12, 18, 5, 30)
     
-    // Without actual text content, we can't calculate true Flesch-Kincaid
-    // Using visual complexity as a proxy
-    const complexityScore = this.calculateVisualComplexity(textBlocks)
-    const fleschKincaid = 100 - complexityScore // Inverse relationship
+    // Flesch reading ease of the extracted text; without text, visual
+    // complexity stands in for it
+    const fromText = text ? this.readabilityAnalyzer.analyze(text) : null
+    const fleschReadingEase = fromText
+      ? fromText.fleschReadingEase
+      : 100 - this.calculateVisualComplexity(textBlocks) // Inverse relationship
     
-    const overallScore = (lineHeightScore + spacingScore + fleschKincaid) / 3
+    const overallScore = (lineHeightScore + spacingScore + fleschReadingEase) / 3
     
     return {
-      fleschKincaid,
+      fleschReadingEase,
       lineHeight: avgLineHeightRatio,
       characterSpacing: 100 - avgDensity, // Inverse of density
       score: overallScore
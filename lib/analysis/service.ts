@@ -1,5 +1,7 @@
+import sharp from 'sharp'
 import { DocumentAnalysis } from '@/lib/ai/types'
 import { createClient } from '@/lib/supabase/server'
+import { ocrService } from '@/lib/ocr'
 import { DocumentAnalysisEngine } from './engine'
 import { SupabaseAnalysisCache } from './cache'
 import { DocumentContext } from './types'
@@ -17,7 +19,8 @@ export class AnalysisService {
     documentId: string,
     imageData: ImageData,
     documentType: 'worksheet' | 'presentation' | 'marketing',
-    userPreferences?: DocumentContext['userPreferences']
+    userPreferences?: DocumentContext['userPreferences'],
+    text?: string
   ): Promise<DocumentAnalysis> {
     // Check cache first
     const cached = await this.cache.get(documentId)
@@ -25,9 +28,10 @@ export class AnalysisService {
       return cached
     }
 
-    // Prepare context
+    // Prepare context; without a text layer the text comes from OCR
     const context: DocumentContext = {
       imageData,
+      text: text ?? await this.recognizeText(imageData),
       metadata: {
         width: imageData.width,
         height: imageData.height,
@@ -50,6 +54,20 @@ export class AnalysisService {
     return analysis
   }
 
+  private async recognizeText(imageData: ImageData): Promise<string | undefined> {
+    try {
+      const png = await sharp(Buffer.from(imageData.data.buffer, imageData.data.byteOffset, imageData.data.length), {
+        raw: { width: imageData.width, height: imageData.height, channels: 4 }
+      }).png().toBuffer()
+      const { text: recognized } = await ocrService.recognize(png)
+      return recognized.trim() || undefined
+    } catch (error) {
+      // The pixel analyzers still work without text
+      console.error('OCR failed:', error)
+      return undefined
+    }
+  }
+
   async storeAnalysis(documentId: string, analysis: DocumentAnalysis): Promise<void> {
     const supabase = await createClient()
     
@@ -56,7 +56,7 @@ export interface TypographyMetrics {
     consistency: number // 0-100
   }
   readability: {
-    fleschKincaid: number
+    fleschReadingEase: number // 0-100, higher reads more easily
     lineHeight: number
     characterSpacing: number
     score: number // 0-100
@@ -75,11 +75,38 @@ export interface AgeAppropriateness {
     visualStyle: number
     contentMaturity: number
   }
+  readingLevel?: ReadingLevel // when the document's text is known
+}
+
+// Grade levels as teachers pick them in the upload wizard
+export type GradeLevel = 'prek' | 'k-2' | '3-5' | '6-8' | '9-12' | 'college' | 'adult' | 'professional'
+
+export interface ReadingLevel {
+  fleschKincaid: number // US grade level
+  fleschReadingEase: number // 0-100, higher is easier
+  daleChall: number // New Dale-Chall score
+  daleChallGrade: number // middle of the grade range the score maps to
+  lexile: number // Lexile-style estimate; 0 and below reads as BR
+  grade: number // consensus of the grade estimates
+  words: number
+  sentences: number
+  target?: {
+    gradeLevel: GradeLevel
+    fit: 'below' | 'on-target' | 'above'
+  }
+  suggestions: ReadingSuggestion[]
+}
+
+export interface ReadingSuggestion {
+  kind: 'grade-level' | 'long-sentence' | 'hard-word' | 'small-font'
+  message: string
+  examples: string[] // sentences, words or text blocks from the document
 }
 
 export interface SubjectMatter {
   primary: string
   secondary: string[]
+  category?: string // Broad area of the primary subject, e.g. Education or Business
   confidence: number // 0-100
   keywords: string[]
 }
@@ -94,6 +121,8 @@ export interface EngagementMetrics {
 
 export interface DocumentContext {
   imageData: ImageData | null
+  text?: string // Extracted from the PDF text layer or by OCR
+  gradeLevel?: GradeLevel // target reading level
   metadata: {
     width: number
     height: number
@@ -41,15 +41,25 @@ export class ImageLoader {
     return this.loadImageFromBlob(file)
   }
 
-  // Server-side image loading using sharp
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  static async loadImageFromBuffer(_: Buffer): Promise<{
+  // Server-side image loading using sharp. Large images are downscaled so
+  // the pixel analyzers stay fast; the analyzers only look at proportions.
+  static async loadImageFromBuffer(buffer: Buffer, maxDimension: number = 1024): Promise<{
     data: Uint8ClampedArray
     width: number
     height: number
   }> {
-    // This would use sharp or similar library on the server
-    // For now, returning a placeholder
-    throw new Error('Server-side image loading not implemented. Use sharp or jimp library.')
+    const { default: sharp } = await import('sharp')
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    return {
+      data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+      width: info.width,
+      height: info.height
+    }
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { APIKey, APIKeyAuth, APIKeyScope } from '../types'
 import { apiErrors } from '../response'
+import { scopeToWorkspace } from '@/lib/organizations'
 import crypto from 'crypto'
 
 // Constants
@@ -154,6 +155,7 @@ export async function authenticateAPIKey(
   return {
     apiKey: matchedKey,
     userId: matchedKey.user_id,
+    organizationId: matchedKey.organization_id || undefined,
     scopes
   }
 }
@@ -175,13 +177,15 @@ export function hasRequiredScopes(
 }
 
 /**
- * Creates a new API key for a user
+ * Creates a new API key for a user. Keys created for an organization act for
+ * the organization: its documents, its credit pool and its webhooks.
  */
 export async function createAPIKey(
   userId: string,
   name: string,
   scopes: APIKeyScope[],
-  expiresIn?: number // days
+  expiresIn?: number, // days
+  organizationId?: string
 ): Promise<{
   key: string
   apiKey: APIKey
@@ -201,6 +205,7 @@ export async function createAPIKey(
     .from('api_keys')
     .insert({
       user_id: userId,
+      organization_id: organizationId || null,
       name,
       key_hash: hash,
       salt,
@@ -224,16 +229,18 @@ export async function createAPIKey(
 }
 
 /**
- * Lists API keys for a user
+ * Lists API keys for a user, or for an organization
  */
-export async function listAPIKeys(userId: string): Promise<APIKey[]> {
+export async function listAPIKeys(userId: string, organizationId?: string): Promise<APIKey[]> {
   const supabase = await createClient()
   
-  const { data, error } = await supabase
-    .from('api_keys')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
+  const { data, error } = await scopeToWorkspace(
+    supabase
+      .from('api_keys')
+      .select('*'),
+    userId,
+    organizationId
+  ).order('created_at', { ascending: false })
   
   if (error) {
     console.error('Failed to list API keys:', error)
@@ -248,15 +255,19 @@ export async function listAPIKeys(userId: string): Promise<APIKey[]> {
  */
 export async function revokeAPIKey(
   userId: string,
-  keyId: string
+  keyId: string,
+  organizationId?: string
 ): Promise<void> {
   const supabase = await createClient()
   
-  const { error } = await supabase
-    .from('api_keys')
-    .update({ is_active: false })
-    .eq('id', keyId)
-    .eq('user_id', userId)
+  const { error } = await scopeToWorkspace(
+    supabase
+      .from('api_keys')
+      .update({ is_active: false })
+      .eq('id', keyId),
+    userId,
+    organizationId
+  )
   
   if (error) {
     console.error('Failed to revoke API key:', error)
@@ -270,7 +281,8 @@ export async function revokeAPIKey(
 export async function rotateAPIKey(
   userId: string,
   oldKeyId: string,
-  gracePeriodDays: number = 7
+  gracePeriodDays: number = 7,
+  organizationId?: string
 ): Promise<{
   key: string
   apiKey: APIKey
@@ -278,12 +290,14 @@ export async function rotateAPIKey(
   const supabase = await createClient()
   
   // Get old key details
-  const { data: oldKey, error: fetchError } = await supabase
-    .from('api_keys')
-    .select('*')
-    .eq('id', oldKeyId)
-    .eq('user_id', userId)
-    .single()
+  const { data: oldKey, error: fetchError } = await scopeToWorkspace(
+    supabase
+      .from('api_keys')
+      .select('*')
+      .eq('id', oldKeyId),
+    userId,
+    organizationId
+  ).single()
   
   if (fetchError || !oldKey) {
     throw apiErrors.NOT_FOUND
@@ -293,7 +307,9 @@ export async function rotateAPIKey(
   const newKey = await createAPIKey(
     userId,
     `${oldKey.name} (Rotated)`,
-    oldKey.scopes
+    oldKey.scopes,
+    undefined,
+    oldKey.organization_id || undefined
   )
   
   // Set grace period for old key
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { apiErrors } from '../response'
+import { ipBlocker } from '@/lib/utils/ip-blocker'
 
 // API key patterns to detect
 const API_KEY_PATTERNS = [
@@ -101,7 +102,7 @@ export async function securityDetectionMiddleware(
   
   if (securityEvent) {
     // Log security event
-    console.error('[SECURITY EVENT]', JSON.stringify(securityEvent, null, 2))
+    await logSecurityEvent(securityEvent)
     
     // For critical issues, reject the request
     if (securityEvent.severity === 'critical' && securityEvent.type === 'api_key_in_url') {
@@ -133,6 +134,14 @@ export async function logSecurityEvent(event: SecurityEvent): Promise<void> {
   }
   
   console.error('[SECURITY LOG]', JSON.stringify(logData))
+
+  // Count it against the source IP's reputation
+  if (event.ip) {
+    ipBlocker.recordSecurityEvent(event.ip, event.type, event.severity, {
+      url: sanitizeUrl(event.url),
+      method: event.method
+    })
+  }
   
   // TODO: Send to monitoring service (Datadog, Sentry, etc.)
 }
@@ -12,6 +12,7 @@ export interface APIKey {
   name: string
   prefix: string
   user_id: string
+  organization_id?: string | null // set for keys that act for an organization
   scopes: APIKeyScope[]
   created_at: string
   expires_at: string | null
@@ -32,6 +33,7 @@ export type APIKeyScope =
 export interface APIKeyAuth {
   apiKey: APIKey
   userId: string
+  organizationId?: string
   scopes: APIKeyScope[]
 }
 
@@ -56,6 +58,7 @@ export interface RateLimitResult {
 export interface WebhookConfig {
   id: string
   user_id: string
+  organization_id?: string | null
   url: string
   events: WebhookEventType[]
   secret: string
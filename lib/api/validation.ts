@@ -4,11 +4,16 @@ import { z } from 'zod'
 export const enhanceRequestSchema = z.object({
   documentType: z.enum(['worksheet', 'presentation', 'marketing', 'infographic', 'other']).optional(),
   enhancementSettings: z.object({
-    colorPalette: z.enum(['vibrant', 'pastel', 'monochrome', 'professional', 'auto']).optional(),
+    colorPalette: z.enum(['vibrant', 'pastel', 'monochrome', 'professional', 'brand', 'auto']).optional(),
+    brandKitId: z.string().uuid().optional(),
     style: z.enum(['modern', 'playful', 'elegant', 'minimalist', 'auto']).optional(),
     targetAudience: z.enum(['children', 'teenagers', 'adults', 'professionals', 'general']).optional(),
     preserveContent: z.boolean().default(true),
     enhancementLevel: z.enum(['subtle', 'moderate', 'dramatic']).default('moderate'),
+    mode: z.enum(['standard', 'accessibility']).optional(),
+    wcagLevel: z.enum(['AA', 'AAA']).optional(),
+    language: z.string().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Language must be a BCP 47 tag').optional(),
+    gradeLevel: z.enum(['prek', 'k-2', '3-5', '6-8', '9-12', 'college', 'adult', 'professional']).optional(),
   }).optional(),
   priority: z.enum(['low', 'normal', 'high']).default('normal'),
   webhookUrl: z.string().url().optional(),
@@ -17,6 +22,44 @@ export const enhanceRequestSchema = z.object({
 
 export type EnhanceRequest = z.infer<typeof enhanceRequestSchema>
 
+// Brand kit schemas
+const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Colors must be #RRGGBB hex')
+
+export const brandKitSchema = z.object({
+  name: z.string().min(1).max(100),
+  palette: z.object({
+    primary: hexColorSchema,
+    secondary: hexColorSchema,
+    accent: hexColorSchema,
+    background: hexColorSchema,
+    text: hexColorSchema,
+    additional: z.array(hexColorSchema).max(10).optional(),
+  }),
+  headingFont: z.string().min(1).max(100).optional(),
+  bodyFont: z.string().min(1).max(100).optional(),
+  forbiddenColors: z.array(hexColorSchema).max(20).optional(),
+  isDefault: z.boolean().optional(),
+})
+
+export const brandKitUpdateSchema = brandKitSchema.partial()
+
+export type BrandKitRequest = z.infer<typeof brandKitSchema>
+
+export const organizationRoleSchema = z.enum(['owner', 'editor', 'viewer'])
+
+export const organizationSchema = z.object({
+  name: z.string().min(1).max(100),
+})
+
+export const organizationMemberSchema = z.object({
+  email: z.string().email(),
+  role: organizationRoleSchema,
+})
+
+export const organizationMemberUpdateSchema = z.object({
+  role: organizationRoleSchema,
+})
+
 // Query parameter schemas
 export const paginationSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
@@ -62,6 +105,50 @@ export const enhancementStatusSchema = z.object({
 
 export type EnhancementStatus = z.infer<typeof enhancementStatusSchema>
 
+export const brandKitResponseSchema = z.object({
+  id: z.string().describe('Brand kit ID'),
+  organizationId: z.string().optional().describe('Organization the kit is shared with; absent for personal kits'),
+  name: z.string().describe('Display name'),
+  palette: z.object({
+    primary: z.string(),
+    secondary: z.string(),
+    accent: z.string(),
+    background: z.string(),
+    text: z.string(),
+    additional: z.array(z.string()).optional()
+  }).describe('Brand colors as #RRGGBB'),
+  headingFont: z.string().optional().describe('Font family for headings'),
+  bodyFont: z.string().optional().describe('Font family for body text'),
+  logos: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    url: z.string().url(),
+    contentType: z.string()
+  })).describe('Uploaded logos; the first is placed on enhanced documents'),
+  forbiddenColors: z.array(z.string()).describe('Colors enhancements must never use'),
+  isDefault: z.boolean().describe('Used when the brand color scheme is chosen without a kit'),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+})
+
+export const organizationResponseSchema = z.object({
+  id: z.string().describe('Organization ID'),
+  name: z.string().describe('Display name'),
+  subscriptionTier: z.enum(['free', 'basic', 'pro', 'premium']),
+  monthlyCredits: z.number().describe('Credits shared by all members each month'),
+  createdBy: z.string().describe('User who created the organization'),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+})
+
+export const organizationMemberResponseSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  name: z.string().optional(),
+  role: organizationRoleSchema,
+  joinedAt: z.string().datetime()
+})
+
 // File upload validation
 export const fileUploadSchema = z.object({
   file: z.instanceof(File).refine((file) => {
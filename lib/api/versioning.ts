@@ -149,7 +149,7 @@ export interface VersionFeatures {
 export const versionFeatures: VersionFeatures = {
   v1: {
     maxFileSize: 50 * 1024 * 1024, // 50MB
-    supportedFormats: ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'ppt', 'pptx'],
+    supportedFormats: ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'ppt', 'pptx', 'docx'],
     rateLimits: {
       requestsPerMinute: 60,
       requestsPerHour: 600
@@ -157,7 +157,7 @@ export const versionFeatures: VersionFeatures = {
   },
   v2: {
     maxFileSize: 100 * 1024 * 1024, // 100MB
-    supportedFormats: ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'ppt', 'pptx', 'svg', 'gif'],
+    supportedFormats: ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'ppt', 'pptx', 'docx', 'svg', 'gif'],
     rateLimits: {
       requestsPerMinute: 120,
       requestsPerHour: 1200
@@ -3,6 +3,7 @@ import { WebhookConfig, WebhookEventType, WebhookDeliveryLog } from '../types'
 import { apiErrors } from '../response'
 import { sendWebhook, queueWebhookDelivery } from '../webhook'
 import { getQueue } from '@/lib/queue/client'
+import { scopeToWorkspace } from '@/lib/organizations'
 import crypto from 'crypto'
 
 /**
@@ -28,6 +29,7 @@ export class WebhookManager {
     config: {
       url: string
       events: WebhookEventType[]
+      organizationId?: string // owned by the organization instead of the user
       headers?: Record<string, string>
       retryPolicy?: {
         max_attempts?: number
@@ -57,6 +59,7 @@ export class WebhookManager {
       .from('webhook_configs')
       .insert({
         user_id: userId,
+        organization_id: config.organizationId || null,
         url: config.url,
         secret,
         events: config.events,
@@ -80,22 +83,25 @@ export class WebhookManager {
   }
 
   /**
-   * List webhook configurations for a user
+   * List webhook configurations for a user, or for an organization
    */
   async listWebhooks(
     userId: string,
     options?: {
       isActive?: boolean
       events?: WebhookEventType[]
+      organizationId?: string
     }
   ): Promise<WebhookConfig[]> {
     const supabase = await createClient()
     
-    let query = supabase
-      .from('webhook_configs')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
+    let query = scopeToWorkspace(
+      supabase
+        .from('webhook_configs')
+        .select('*'),
+      userId,
+      options?.organizationId
+    ).order('created_at', { ascending: false })
     
     if (options?.isActive !== undefined) {
       query = query.eq('is_active', options.isActive)
@@ -118,15 +124,17 @@ export class WebhookManager {
   /**
    * Get a specific webhook configuration
    */
-  async getWebhook(userId: string, webhookId: string): Promise<WebhookConfig> {
+  async getWebhook(userId: string, webhookId: string, organizationId?: string): Promise<WebhookConfig> {
     const supabase = await createClient()
     
-    const { data, error } = await supabase
-      .from('webhook_configs')
-      .select('*')
-      .eq('id', webhookId)
-      .eq('user_id', userId)
-      .single()
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('webhook_configs')
+        .select('*')
+        .eq('id', webhookId),
+      userId,
+      organizationId
+    ).single()
     
     if (error || !data) {
       throw apiErrors.NOT_FOUND
@@ -147,7 +155,8 @@ export class WebhookManager {
       is_active: boolean
       headers: Record<string, string>
       retry_policy: WebhookConfig['retry_policy']
-    }>
+    }>,
+    organizationId?: string
   ): Promise<WebhookConfig> {
     const supabase = await createClient()
     
@@ -163,11 +172,14 @@ export class WebhookManager {
       }
     }
     
-    const { data, error } = await supabase
-      .from('webhook_configs')
-      .update(updates)
-      .eq('id', webhookId)
-      .eq('user_id', userId)
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('webhook_configs')
+        .update(updates)
+        .eq('id', webhookId),
+      userId,
+      organizationId
+    )
       .select()
       .single()
     
@@ -181,14 +193,17 @@ export class WebhookManager {
   /**
    * Delete a webhook configuration
    */
-  async deleteWebhook(userId: string, webhookId: string): Promise<void> {
+  async deleteWebhook(userId: string, webhookId: string, organizationId?: string): Promise<void> {
     const supabase = await createClient()
     
-    const { error } = await supabase
-      .from('webhook_configs')
-      .delete()
-      .eq('id', webhookId)
-      .eq('user_id', userId)
+    const { error } = await scopeToWorkspace(
+      supabase
+        .from('webhook_configs')
+        .delete()
+        .eq('id', webhookId),
+      userId,
+      organizationId
+    )
     
     if (error) {
       throw apiErrors.NOT_FOUND
@@ -200,18 +215,22 @@ export class WebhookManager {
    */
   async rotateWebhookSecret(
     userId: string,
-    webhookId: string
+    webhookId: string,
+    organizationId?: string
   ): Promise<{ secret: string }> {
     const supabase = await createClient()
     
     // Generate new secret
     const newSecret = crypto.randomBytes(32).toString('hex')
     
-    const { error } = await supabase
-      .from('webhook_configs')
-      .update({ secret: newSecret })
-      .eq('id', webhookId)
-      .eq('user_id', userId)
+    const { error } = await scopeToWorkspace(
+      supabase
+        .from('webhook_configs')
+        .update({ secret: newSecret })
+        .eq('id', webhookId),
+      userId,
+      organizationId
+    )
     
     if (error) {
       throw apiErrors.NOT_FOUND
@@ -231,12 +250,13 @@ export class WebhookManager {
       delivered?: boolean
       limit?: number
       offset?: number
-    }
+    },
+    organizationId?: string
   ): Promise<WebhookDeliveryLog[]> {
     const supabase = await createClient()
     
     // Verify webhook ownership
-    await this.getWebhook(userId, webhookId)
+    await this.getWebhook(userId, webhookId, organizationId)
     
     let query = supabase
       .from('webhook_delivery_logs')
@@ -278,12 +298,13 @@ export class WebhookManager {
   async retryDelivery(
     userId: string,
     webhookId: string,
-    deliveryLogId: string
+    deliveryLogId: string,
+    organizationId?: string
   ): Promise<void> {
     const supabase = await createClient()
     
     // Verify webhook ownership
-    const webhook = await this.getWebhook(userId, webhookId)
+    const webhook = await this.getWebhook(userId, webhookId, organizationId)
     
     // Get delivery log
     const { data: log, error } = await supabase
@@ -302,17 +323,20 @@ export class WebhookManager {
   }
 
   /**
-   * Trigger a webhook for an event
+   * Trigger a webhook for an event. Events about an organization's documents
+   * go to the organization's webhooks, not the member's personal ones.
    */
   async triggerWebhooks(
     userId: string,
     eventType: WebhookEventType,
-    payload: unknown
+    payload: unknown,
+    organizationId?: string
   ): Promise<void> {
     // Get active webhooks for this event
     const webhooks = await this.listWebhooks(userId, {
       isActive: true,
-      events: [eventType]
+      events: [eventType],
+      organizationId
     })
     
     // Queue delivery for each webhook
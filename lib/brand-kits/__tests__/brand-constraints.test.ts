@@ -0,0 +1,109 @@
+/** @jest-environment node */
+import {
+  enforceBrandAdjustments,
+  enforceBrandFonts,
+  enforceBrandPalette,
+  nearestBrandColor,
+  validateBrandKitColors,
+} from '../brand-constraints'
+import { BrandKit } from '../types'
+
+const kit: BrandKit = {
+  id: 'kit-1',
+  userId: 'user-1',
+  name: 'Acme',
+  palette: {
+    primary: '#1E40AF',
+    secondary: '#64748B',
+    accent: '#F59E0B',
+    background: '#FFFFFF',
+    text: '#111827',
+  },
+  headingFont: 'Montserrat',
+  bodyFont: 'Open Sans',
+  logos: [],
+  forbiddenColors: ['#FF0000'],
+  isDefault: true,
+  createdAt: '2025-01-23T00:00:00.000Z',
+  updatedAt: '2025-01-23T00:00:00.000Z',
+}
+
+const font = (family: string) => ({ family, weight: 400, style: 'normal' as const, fallback: ['sans-serif'] })
+
+describe('brand constraints', () => {
+  it('replaces the planned palette and reports each slot it changed', () => {
+    const { palette, deviations } = enforceBrandPalette({
+      primary: '#FF6B6B',
+      secondary: '#64748C', // within tolerance of the brand secondary
+      accent: '#F59E0B',
+      background: '#FFFFFF',
+      text: '#2D3436',
+    }, kit)
+
+    expect(palette).toEqual({
+      primary: '#1E40AF',
+      secondary: '#64748B',
+      accent: '#F59E0B',
+      background: '#FFFFFF',
+      text: '#111827',
+    })
+    expect(deviations.map(deviation => deviation.field)).toEqual(['primaryColor', 'textColor'])
+    expect(deviations.every(deviation => deviation.kind === 'enforced')).toBe(true)
+  })
+
+  it('keeps low-contrast brand colours but reports the conflict', () => {
+    const paleKit = { ...kit, palette: { ...kit.palette, text: '#D1D5DB' } }
+
+    const { palette, deviations } = enforceBrandPalette({ ...paleKit.palette }, paleKit)
+
+    expect(palette.text).toBe('#D1D5DB')
+    expect(deviations).toEqual([
+      expect.objectContaining({ field: 'contrast', kind: 'conflict' }),
+    ])
+  })
+
+  it('moves adjustments onto brand colours and recolours forbidden ones', () => {
+    const { adjustments, deviations } = enforceBrandAdjustments(
+      [
+        { target: 'accent', from: '#000000', to: '#F5A00D', reason: 'Warmer accent' },
+        { target: 'border', from: '#000000', to: '#22C55E', reason: 'Fresh border' },
+      ],
+      ['#FF0000', '#FFFFFF'],
+      kit
+    )
+
+    // A near miss snaps to the brand colour without a deviation
+    expect(adjustments[0].to).toBe('#F59E0B')
+    expect(Object.values(kit.palette)).toContain(adjustments[1].to)
+    expect(adjustments[2]).toEqual(expect.objectContaining({ from: '#FF0000' }))
+    expect(adjustments[2].to).not.toBe('#FF0000')
+    expect(deviations).toEqual([
+      expect.objectContaining({ field: 'adjustment', proposed: '#22C55E', applied: adjustments[1].to }),
+    ])
+  })
+
+  it('never picks a forbidden colour as the nearest brand colour', () => {
+    const redKit = { ...kit, palette: { ...kit.palette, accent: '#FF0000' } }
+
+    expect(nearestBrandColor('#EE1111', redKit)).not.toBe('#FF0000')
+  })
+
+  it('swaps in brand fonts and keeps the planned weights', () => {
+    const { headingFont, bodyFont, deviations } = enforceBrandFonts(
+      { ...font('Poppins'), weight: 700 },
+      font('open sans'),
+      kit
+    )
+
+    expect(headingFont).toEqual(expect.objectContaining({ family: 'Montserrat', weight: 700 }))
+    expect(bodyFont.family).toBe('open sans')
+    expect(deviations).toEqual([
+      expect.objectContaining({ field: 'headingFont', proposed: 'Poppins', applied: 'Montserrat' }),
+    ])
+  })
+
+  it('rejects kits whose palette uses a forbidden colour', () => {
+    expect(validateBrandKitColors(kit)).toEqual([])
+    expect(validateBrandKitColors({ ...kit, forbiddenColors: ['#1E40AF'] })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,194 @@
+import chroma from 'chroma-js'
+import type { ColorAdjustment, FontSelection } from '@/lib/enhancement/pipeline/types'
+import { BrandDeviation, BrandField, BrandKit } from './types'
+
+// CIEDE2000 distance under which two colours read as the same to the eye
+const SAME_COLOR_DELTA_E = 10
+// WCAG AA for body text
+const MIN_TEXT_CONTRAST = 4.5
+
+type PaletteSlot = 'primary' | 'secondary' | 'accent' | 'background' | 'text'
+
+export type PlannedPalette = Record<PaletteSlot, string>
+
+const SLOT_FIELDS: Record<PaletteSlot, BrandField> = {
+  primary: 'primaryColor',
+  secondary: 'secondaryColor',
+  accent: 'accentColor',
+  background: 'backgroundColor',
+  text: 'textColor',
+}
+
+function sameColor(a: string, b: string): boolean {
+  try {
+    return chroma.deltaE(a, b) < SAME_COLOR_DELTA_E
+  } catch {
+    return a.toLowerCase() === b.toLowerCase()
+  }
+}
+
+export function isForbiddenColor(color: string, kit: Pick<BrandKit, 'forbiddenColors'>): boolean {
+  return kit.forbiddenColors.some(forbidden => sameColor(color, forbidden))
+}
+
+/**
+ * Every colour the kit allows, palette slots first.
+ */
+export function brandColors(kit: Pick<BrandKit, 'palette' | 'forbiddenColors'>): string[] {
+  const { primary, secondary, accent, background, text, additional = [] } = kit.palette
+  return [primary, secondary, accent, background, text, ...additional]
+    .filter(color => !isForbiddenColor(color, kit))
+}
+
+export function nearestBrandColor(color: string, kit: Pick<BrandKit, 'palette' | 'forbiddenColors'>): string {
+  const candidates = brandColors(kit)
+  if (candidates.length === 0) return kit.palette.primary
+
+  let nearest = candidates[0]
+  let nearestDistance = Infinity
+  for (const candidate of candidates) {
+    let distance: number
+    try {
+      distance = chroma.deltaE(color, candidate)
+    } catch {
+      return kit.palette.primary
+    }
+    if (distance < nearestDistance) {
+      nearest = candidate
+      nearestDistance = distance
+    }
+  }
+  return nearest
+}
+
+/**
+ * Replaces the planned palette with the kit's. Slots the plan had chosen
+ * differently are reported; if the kit's own text and background colours fail
+ * WCAG AA they are kept anyway and reported as a conflict.
+ */
+export function enforceBrandPalette(
+  proposed: PlannedPalette,
+  kit: BrandKit
+): { palette: PlannedPalette; deviations: BrandDeviation[] } {
+  const deviations: BrandDeviation[] = []
+  const palette = { ...proposed }
+
+  for (const slot of Object.keys(SLOT_FIELDS) as PaletteSlot[]) {
+    const brand = kit.palette[slot]
+    if (!sameColor(proposed[slot], brand)) {
+      deviations.push({
+        field: SLOT_FIELDS[slot],
+        kind: 'enforced',
+        proposed: proposed[slot],
+        applied: brand,
+        reason: `The brand kit sets the ${slot} colour`,
+      })
+    }
+    palette[slot] = brand
+  }
+
+  const contrast = safeContrast(palette.text, palette.background)
+  if (contrast !== null && contrast < MIN_TEXT_CONTRAST) {
+    deviations.push({
+      field: 'contrast',
+      kind: 'conflict',
+      proposed: `${MIN_TEXT_CONTRAST}:1`,
+      applied: `${contrast.toFixed(2)}:1`,
+      reason: 'Brand text on the brand background is below WCAG AA contrast; the brand colours were kept',
+    })
+  }
+
+  return { palette, deviations }
+}
+
+/**
+ * Moves every adjustment target onto the nearest brand colour, and adds
+ * adjustments that recolour forbidden colours found in the document.
+ */
+export function enforceBrandAdjustments(
+  adjustments: ColorAdjustment[],
+  documentColors: string[],
+  kit: BrandKit
+): { adjustments: ColorAdjustment[]; deviations: BrandDeviation[] } {
+  const deviations: BrandDeviation[] = []
+  // Near misses snap to the exact brand colour without being reported
+  const enforced = adjustments.map(adjustment => {
+    const applied = nearestBrandColor(adjustment.to, kit)
+    if (sameColor(applied, adjustment.to)) {
+      return { ...adjustment, to: applied }
+    }
+    deviations.push({
+      field: 'adjustment',
+      kind: 'enforced',
+      proposed: adjustment.to,
+      applied,
+      reason: `The ${adjustment.target} adjustment used a colour outside the brand kit`,
+    })
+    return { ...adjustment, to: applied }
+  })
+
+  for (const color of documentColors) {
+    if (!isForbiddenColor(color, kit)) continue
+    if (enforced.some(adjustment => sameColor(adjustment.from, color))) continue
+    enforced.push({
+      target: 'accent',
+      from: color,
+      to: nearestBrandColor(color, kit),
+      reason: 'Replace a colour the brand kit forbids',
+    })
+  }
+
+  return { adjustments: enforced, deviations }
+}
+
+/**
+ * Swaps in the kit's heading and body families. Weights and fallbacks from
+ * the plan are kept since kits only name a family.
+ */
+export function enforceBrandFonts(
+  headingFont: FontSelection,
+  bodyFont: FontSelection,
+  kit: BrandKit
+): { headingFont: FontSelection; bodyFont: FontSelection; deviations: BrandDeviation[] } {
+  const deviations: BrandDeviation[] = []
+
+  const enforce = (font: FontSelection, brand: string | undefined, field: 'headingFont' | 'bodyFont') => {
+    if (!brand || font.family.toLowerCase() === brand.toLowerCase()) return font
+    deviations.push({
+      field,
+      kind: 'enforced',
+      proposed: font.family,
+      applied: brand,
+      reason: `The brand kit sets the ${field === 'headingFont' ? 'heading' : 'body'} font`,
+    })
+    return { ...font, family: brand }
+  }
+
+  return {
+    headingFont: enforce(headingFont, kit.headingFont, 'headingFont'),
+    bodyFont: enforce(bodyFont, kit.bodyFont, 'bodyFont'),
+    deviations,
+  }
+}
+
+/**
+ * Problems that make a kit unusable: palette colours that the kit itself
+ * forbids. Returns one message per problem.
+ */
+export function validateBrandKitColors(kit: Pick<BrandKit, 'palette' | 'forbiddenColors'>): string[] {
+  const problems: string[] = []
+  for (const slot of Object.keys(SLOT_FIELDS) as PaletteSlot[]) {
+    if (isForbiddenColor(kit.palette[slot], kit)) {
+      problems.push(`The ${slot} colour ${kit.palette[slot]} is one of the kit's forbidden colours`)
+    }
+  }
+  return problems
+}
+
+function safeContrast(a: string, b: string): number | null {
+  try {
+    return chroma.contrast(a, b)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { deleteFile, deleteFiles, uploadFile } from '@/lib/r2'
+import { scopeToWorkspace } from '@/lib/organizations'
+import type { ColorPalette } from '@/lib/enhancement/pipeline/types'
+import { BrandKit, BrandKitInput, BrandLogo } from './types'
+
+interface BrandKitRow {
+  id: string
+  user_id: string
+  organization_id: string | null
+  name: string
+  palette: ColorPalette
+  heading_font: string | null
+  body_font: string | null
+  logos: BrandLogo[] | null
+  forbidden_colors: string[] | null
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Brand kits saved in a workspace: a user's personal space or, when
+ * `organizationId` is given, an organization's shared space. At most one kit
+ * per workspace is the default, which is what "brand" colour schemes use when
+ * no kit is named.
+ */
+export class BrandKitStore {
+  static async list(userId: string, organizationId?: string): Promise<BrandKit[]> {
+    const supabase = await createClient()
+
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .select('*'),
+      userId,
+      organizationId
+    ).order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to list brand kits: ${error.message}`)
+    }
+
+    return (data as BrandKitRow[]).map(row => this.toKit(row))
+  }
+
+  static async get(userId: string, id: string, organizationId?: string): Promise<BrandKit | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .select('*')
+        .eq('id', id),
+      userId,
+      organizationId
+    ).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load brand kit: ${error.message}`)
+    }
+
+    return data ? this.toKit(data as BrandKitRow) : null
+  }
+
+  static async getDefault(userId: string, organizationId?: string): Promise<BrandKit | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .select('*')
+        .eq('is_default', true),
+      userId,
+      organizationId
+    ).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load brand kit: ${error.message}`)
+    }
+
+    return data ? this.toKit(data as BrandKitRow) : null
+  }
+
+  static async create(userId: string, input: BrandKitInput, organizationId?: string): Promise<BrandKit> {
+    if (input.isDefault) {
+      await this.clearDefault(userId, organizationId)
+    }
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('brand_kits')
+      .insert({
+        user_id: userId,
+        organization_id: organizationId || null,
+        name: input.name,
+        palette: input.palette,
+        heading_font: input.headingFont || null,
+        body_font: input.bodyFont || null,
+        logos: [],
+        forbidden_colors: input.forbiddenColors,
+        is_default: input.isDefault,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create brand kit: ${error.message}`)
+    }
+
+    return this.toKit(data as BrandKitRow)
+  }
+
+  static async update(
+    userId: string,
+    id: string,
+    changes: Partial<BrandKitInput>,
+    organizationId?: string
+  ): Promise<BrandKit | null> {
+    if (changes.isDefault) {
+      await this.clearDefault(userId, organizationId, id)
+    }
+
+    const row: Partial<BrandKitRow> = { updated_at: new Date().toISOString() }
+    if (changes.name !== undefined) row.name = changes.name
+    if (changes.palette !== undefined) row.palette = changes.palette
+    if (changes.headingFont !== undefined) row.heading_font = changes.headingFont || null
+    if (changes.bodyFont !== undefined) row.body_font = changes.bodyFont || null
+    if (changes.forbiddenColors !== undefined) row.forbidden_colors = changes.forbiddenColors
+    if (changes.isDefault !== undefined) row.is_default = changes.isDefault
+
+    return this.write(userId, id, row, organizationId)
+  }
+
+  static async remove(userId: string, id: string, organizationId?: string): Promise<boolean> {
+    const kit = await this.get(userId, id, organizationId)
+    if (!kit) return false
+
+    const supabase = await createClient()
+
+    const { error } = await scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .delete()
+        .eq('id', id),
+      userId,
+      organizationId
+    )
+
+    if (error) {
+      throw new Error(`Failed to delete brand kit: ${error.message}`)
+    }
+
+    if (kit.logos.length > 0) {
+      await deleteFiles(kit.logos.map(logo => logo.key))
+    }
+    return true
+  }
+
+  static async addLogo(
+    userId: string,
+    id: string,
+    file: Buffer,
+    filename: string,
+    contentType: string,
+    organizationId?: string
+  ): Promise<BrandKit | null> {
+    const kit = await this.get(userId, id, organizationId)
+    if (!kit) return null
+
+    const { key, url } = await uploadFile({
+      file,
+      userId,
+      filename,
+      folder: 'ASSETS',
+      contentType,
+    })
+
+    const logo: BrandLogo = { id: randomUUID(), name: filename, key, url, contentType }
+    return this.write(userId, id, {
+      logos: [...kit.logos, logo],
+      updated_at: new Date().toISOString(),
+    }, organizationId)
+  }
+
+  static async removeLogo(
+    userId: string,
+    id: string,
+    logoId: string,
+    organizationId?: string
+  ): Promise<BrandKit | null> {
+    const kit = await this.get(userId, id, organizationId)
+    const logo = kit?.logos.find(item => item.id === logoId)
+    if (!kit || !logo) return null
+
+    const updated = await this.write(userId, id, {
+      logos: kit.logos.filter(item => item.id !== logoId),
+      updated_at: new Date().toISOString(),
+    }, organizationId)
+    await deleteFile(logo.key)
+    return updated
+  }
+
+  static toKit(row: BrandKitRow): BrandKit {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      organizationId: row.organization_id || undefined,
+      name: row.name,
+      palette: row.palette,
+      headingFont: row.heading_font || undefined,
+      bodyFont: row.body_font || undefined,
+      logos: row.logos || [],
+      forbiddenColors: row.forbidden_colors || [],
+      isDefault: row.is_default,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private static async write(
+    userId: string,
+    id: string,
+    row: Partial<BrandKitRow>,
+    organizationId?: string
+  ): Promise<BrandKit | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .update(row)
+        .eq('id', id),
+      userId,
+      organizationId
+    )
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update brand kit: ${error.message}`)
+    }
+
+    return data ? this.toKit(data as BrandKitRow) : null
+  }
+
+  private static async clearDefault(userId: string, organizationId?: string, exceptId?: string): Promise<void> {
+    const supabase = await createClient()
+
+    let query = scopeToWorkspace(
+      supabase
+        .from('brand_kits')
+        .update({ is_default: false })
+        .eq('is_default', true),
+      userId,
+      organizationId
+    )
+    if (exceptId) {
+      query = query.neq('id', exceptId)
+    }
+
+    const { error } = await query
+    if (error) {
+      throw new Error(`Failed to update brand kit: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,12 @@
+export * from './types'
+export { BrandKitStore } from './brand-kit-store'
+export {
+  brandColors,
+  enforceBrandAdjustments,
+  enforceBrandFonts,
+  enforceBrandPalette,
+  isForbiddenColor,
+  nearestBrandColor,
+  validateBrandKitColors,
+} from './brand-constraints'
+export type { PlannedPalette } from './brand-constraints'
@@ -0,0 +1,59 @@
+import type { ColorPalette } from '@/lib/enhancement/pipeline/types'
+
+export interface BrandLogo {
+  id: string
+  name: string
+  key: string // R2 object key
+  url: string
+  contentType: string
+}
+
+export interface BrandKit {
+  id: string
+  userId: string
+  organizationId?: string // shared with the organization's members
+  name: string
+  palette: ColorPalette
+  headingFont?: string
+  bodyFont?: string
+  logos: BrandLogo[]
+  forbiddenColors: string[] // '#RRGGBB'
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type BrandKitInput = Pick<
+  BrandKit,
+  'name' | 'palette' | 'headingFont' | 'bodyFont' | 'forbiddenColors' | 'isDefault'
+>
+
+export type BrandField =
+  | 'primaryColor'
+  | 'secondaryColor'
+  | 'accentColor'
+  | 'backgroundColor'
+  | 'textColor'
+  | 'adjustment'
+  | 'headingFont'
+  | 'bodyFont'
+  | 'contrast'
+
+/**
+ * A place where the plan would have gone off-brand. 'enforced' means the kit
+ * won and the plan was changed; 'conflict' means the kit was kept even though
+ * it breaks another rule, such as text contrast.
+ */
+export interface BrandDeviation {
+  field: BrandField
+  kind: 'enforced' | 'conflict'
+  proposed: string
+  applied: string
+  reason: string
+}
+
+export interface BrandCompliance {
+  brandKitId: string
+  brandKitName: string
+  deviations: BrandDeviation[]
+}
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import type Redis from 'ioredis'
+import { TieredCache } from '../tiered-cache'
+import { CacheInvalidator } from '../cache-invalidator'
+import { cacheMetrics } from '../metrics'
+
+// ioredis-mock ships without type declarations
+const RedisMock = jest.requireActual('ioredis-mock')
+
+jest.mock('@/lib/enhancement/pipeline/cache', () => ({
+  PipelineCache: jest.fn().mockImplementation(() => ({ clearAll: jest.fn() })),
+}))
+
+describe('TieredCache', () => {
+  let redis: Redis
+
+  beforeEach(async () => {
+    redis = new RedisMock() as unknown as Redis
+    await redis.flushall()
+    TieredCache.clearLocal()
+    cacheMetrics.reset()
+  })
+
+  it('serves repeat reads from memory and backfills memory from Redis', async () => {
+    const writer = new TieredCache<{ score: number }>(redis, { namespace: 'test', ttl: 60 })
+    const reader = new TieredCache<{ score: number }>(redis, { namespace: 'test', ttl: 60 })
+
+    await writer.set('a', { score: 1 })
+
+    expect(await reader.get('a')).toEqual({ score: 1 })
+    expect(await reader.get('a')).toEqual({ score: 1 })
+    expect(await reader.get('missing')).toBeNull()
+
+    const stats = cacheMetrics.getStats().namespaces.test
+    expect(stats.redisHits).toBe(1)
+    expect(stats.memoryHits).toBe(1)
+    expect(stats.misses).toBe(1)
+  })
+
+  it('expires memory entries after their TTL', async () => {
+    const cache = new TieredCache<string>(redis, { namespace: 'test', ttl: 60, memoryTTL: 1 })
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    await cache.set('a', 'value')
+    await redis.del('test:a')
+    expect(await cache.get('a')).toBe('value')
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1500)
+    expect(await cache.get('a')).toBeNull()
+
+    jest.restoreAllMocks()
+  })
+
+  it('invalidates every entry carrying a tag, in Redis and memory', async () => {
+    const cache = new TieredCache<string>(redis, { namespace: 'test', ttl: 60 })
+
+    await cache.set('a', 'one', { tags: ['document:1'] })
+    await cache.set('b', 'two', { tags: ['document:1'] })
+    await cache.set('c', 'three', { tags: ['document:2'] })
+
+    expect(await cache.invalidateTag('document:1')).toBe(2)
+    expect(await cache.get('a')).toBeNull()
+    expect(await cache.get('b')).toBeNull()
+    expect(await cache.get('c')).toBe('three')
+  })
+
+  it('runs the loader once for concurrent misses', async () => {
+    const cache = new TieredCache<string>(redis, { namespace: 'test', ttl: 60 })
+    const loader = jest.fn().mockResolvedValue('loaded')
+
+    const results = await Promise.all([
+      cache.getOrSet('a', loader),
+      cache.getOrSet('a', loader),
+    ])
+
+    expect(results).toEqual(['loaded', 'loaded'])
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(await redis.get('test:a')).toBe('"loaded"')
+  })
+
+  it('evicts keys removed by the invalidator from the memory tier', async () => {
+    const cache = new TieredCache<string>(redis, { namespace: 'doc', ttl: 60 })
+    const invalidator = new CacheInvalidator(redis)
+
+    await cache.set('id:doc-1', 'entry', { tags: ['document:doc-1'] })
+    const result = await invalidator.invalidateDocument('doc-1', false)
+
+    expect(result.deleted).toBe(1)
+    expect(await cache.get('id:doc-1')).toBeNull()
+  })
+
+  it('only accepts patterns inside a cache namespace', () => {
+    const invalidator = new CacheInvalidator(redis)
+
+    expect(invalidator.validatePattern('doc:user-1:*')).toBe(true)
+    expect(invalidator.validatePattern('*')).toBe(false)
+    expect(invalidator.validatePattern('bull:*')).toBe(false)
+    expect(invalidator.validatePattern('doc:[a-z]*')).toBe(false)
+  })
+})
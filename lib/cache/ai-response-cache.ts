@@ -0,0 +1,65 @@
+import { createHash } from 'crypto'
+import type Redis from 'ioredis'
+import { TieredCache } from './tiered-cache'
+
+export interface AIResponseCacheConfig {
+  ttl: number // seconds
+}
+
+export interface CachedAIResponse<T = unknown> {
+  model: string
+  response: T
+  confidence?: number // 0-1, lets invalidation keep high quality answers
+  createdAt: string
+}
+
+/**
+ * Model responses keyed by model and a hash of the request, tagged per
+ * model so a model upgrade can drop everything it produced.
+ */
+export class AIResponseCache {
+  readonly cache: TieredCache<CachedAIResponse>
+
+  constructor(redis: Redis, readonly config: AIResponseCacheConfig) {
+    this.cache = new TieredCache<CachedAIResponse>(redis, {
+      namespace: 'airesponse',
+      ttl: config.ttl,
+    })
+  }
+
+  async get<T>(model: string, input: unknown): Promise<CachedAIResponse<T> | null> {
+    return this.cache.get(this.responseKey(model, input)) as Promise<CachedAIResponse<T> | null>
+  }
+
+  async set<T>(
+    model: string,
+    input: unknown,
+    response: T,
+    options: { confidence?: number; ttl?: number } = {}
+  ): Promise<void> {
+    await this.cache.set(
+      this.responseKey(model, input),
+      { model, response, confidence: options.confidence, createdAt: new Date().toISOString() },
+      { ttl: options.ttl, tags: [`model:${model}`] }
+    )
+  }
+
+  async getOrRequest<T>(
+    model: string,
+    input: unknown,
+    request: () => Promise<T>,
+    options: { bypass?: boolean; ttl?: number } = {}
+  ): Promise<T> {
+    const entry = await this.cache.getOrSet(
+      this.responseKey(model, input),
+      async () => ({ model, response: await request(), createdAt: new Date().toISOString() }),
+      { bypass: options.bypass, ttl: options.ttl, tags: [`model:${model}`] }
+    )
+    return entry.response as T
+  }
+
+  responseKey(model: string, input: unknown): string {
+    const digest = createHash('sha256').update(JSON.stringify(input)).digest('hex')
+    return `${model}:${digest}`
+  }
+}
@@ -0,0 +1,214 @@
+import type Redis from 'ioredis'
+import { TieredCache, TAG_PREFIX } from './tiered-cache'
+import { cacheMetrics } from './metrics'
+import type { CachedDocument } from './document-cache'
+import type { CachedAIResponse } from './ai-response-cache'
+import { PipelineCache } from '@/lib/enhancement/pipeline/cache'
+
+export interface InvalidationResult {
+  deleted: number
+  details?: Record<string, number>
+}
+
+export interface PatternInvalidationResult extends InvalidationResult {
+  matched: number
+  dryRun: boolean
+  sample: string[]
+}
+
+// Key prefixes an admin may target by pattern
+const INVALIDATABLE_PREFIXES = ['doc:', 'enhance:', 'airesponse:', 'user:', 'perceptual:', 'pipeline:']
+const MAX_PATTERN_LENGTH = 200
+const DEFAULT_PATTERN_LIMIT = 10000
+const DELETE_BATCH_SIZE = 500
+const SAMPLE_SIZE = 20
+// Model responses at or above this confidence survive a preserveHighQuality purge
+const HIGH_QUALITY_CONFIDENCE = 0.8
+
+/**
+ * Removes cache entries straight from Redis, by tag, owner or key pattern,
+ * and drops the same keys from this process's memory tier.
+ */
+export class CacheInvalidator {
+  constructor(private redis: Redis) {}
+
+  /**
+   * Drops a document's cached upload and analysis. With `cascade`, analyses
+   * shared with other uploads of the same content and the pipeline's
+   * per-document stage cache go too.
+   */
+  async invalidateDocument(documentId: string, cascade = true): Promise<InvalidationResult> {
+    const entry = await this.readJSON<CachedDocument>(`doc:id:${documentId}`)
+    const details: Record<string, number> = {
+      documents: await this.invalidateTag('doc', `document:${documentId}`),
+      analyses: await this.invalidateTag('enhance', `document:${documentId}`),
+    }
+
+    if (entry) {
+      await this.redis.hdel(`perceptual:${entry.userId}`, entry.contentHash)
+    }
+
+    if (cascade) {
+      if (entry) {
+        details.sharedAnalyses = await this.invalidateTag('enhance', `content:${entry.contentHash}`)
+      }
+      await new PipelineCache(documentId).clearAll()
+    }
+
+    return { deleted: this.sum(details), details }
+  }
+
+  async invalidateUserCache(
+    userId: string,
+    options: { preservePreferences?: boolean; preserveHistory?: boolean } = {}
+  ): Promise<InvalidationResult> {
+    const details: Record<string, number> = {}
+
+    // A user's history is the documents they uploaded
+    if (!options.preserveHistory) {
+      details.documents = await this.invalidateTag('doc', `user:${userId}`)
+      await this.redis.del(`perceptual:${userId}`)
+    }
+
+    const userKeys = (await this.scanKeys(`user:${userId}:*`)).filter(key =>
+      !(options.preservePreferences && key.startsWith(`user:${userId}:preferences`))
+    )
+    details.userEntries = await this.deleteKeys(userKeys)
+
+    return { deleted: this.sum(details), details }
+  }
+
+  async invalidateModelCache(
+    model: string,
+    options: { preserveHighQuality?: boolean; afterDate?: Date } = {}
+  ): Promise<InvalidationResult> {
+    if (!options.preserveHighQuality && !options.afterDate) {
+      const deleted = await this.invalidateTag('airesponse', `model:${model}`)
+      return { deleted }
+    }
+
+    const tagKey = `${TAG_PREFIX}:airesponse:model:${model}`
+    const keys = await this.redis.smembers(tagKey)
+    const doomed: string[] = []
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + DELETE_BATCH_SIZE)
+      const values = await this.redis.mget(...batch)
+
+      values.forEach((raw, index) => {
+        if (!raw) return
+        const entry = JSON.parse(raw) as CachedAIResponse
+        const highQuality = (entry.confidence ?? 0) >= HIGH_QUALITY_CONFIDENCE
+        const tooOld = options.afterDate && new Date(entry.createdAt) < options.afterDate
+
+        if ((options.preserveHighQuality && highQuality) || tooOld) return
+        doomed.push(batch[index])
+      })
+    }
+
+    const deleted = await this.deleteKeys(doomed)
+    if (doomed.length > 0) {
+      await this.redis.srem(tagKey, ...doomed)
+    }
+    cacheMetrics.recordInvalidation('airesponse', deleted)
+
+    return { deleted }
+  }
+
+  // Patterns must stay inside a cache namespace so nothing else in Redis is touched
+  validatePattern(pattern: string): boolean {
+    if (!pattern || pattern.length > MAX_PATTERN_LENGTH) return false
+    if (!/^[\w:*.\-]+$/.test(pattern)) return false
+    return INVALIDATABLE_PREFIXES.some(prefix => pattern.startsWith(prefix))
+  }
+
+  async invalidateByPattern(
+    pattern: string,
+    options: { dryRun?: boolean; limit?: number } = {}
+  ): Promise<PatternInvalidationResult> {
+    if (!this.validatePattern(pattern)) {
+      throw new Error(`Refusing to invalidate pattern: ${pattern}`)
+    }
+
+    const keys = await this.scanKeys(pattern, options.limit ?? DEFAULT_PATTERN_LIMIT)
+    const dryRun = !!options.dryRun
+    const deleted = dryRun ? 0 : await this.deleteKeys(keys)
+
+    return {
+      matched: keys.length,
+      deleted,
+      dryRun,
+      sample: keys.slice(0, SAMPLE_SIZE),
+    }
+  }
+
+  /**
+   * Redis expires entries on its own; this removes what they leave behind:
+   * tag set members whose entry is gone.
+   */
+  async invalidateExpired(): Promise<InvalidationResult> {
+    const tagKeys = await this.scanKeys(`${TAG_PREFIX}:*`)
+    let staleReferences = 0
+
+    for (const tagKey of tagKeys) {
+      const members = await this.redis.smembers(tagKey)
+      if (members.length === 0) continue
+
+      const pipeline = this.redis.pipeline()
+      members.forEach(member => pipeline.exists(member))
+      const results = (await pipeline.exec()) || []
+
+      const stale = members.filter((_, index) => results[index]?.[1] === 0)
+      if (stale.length > 0) {
+        await this.redis.srem(tagKey, ...stale)
+        staleReferences += stale.length
+      }
+    }
+
+    return { deleted: staleReferences, details: { tagsScanned: tagKeys.length } }
+  }
+
+  private async invalidateTag(namespace: string, tag: string): Promise<number> {
+    const tagKey = `${TAG_PREFIX}:${namespace}:${tag}`
+    const keys = await this.redis.smembers(tagKey)
+
+    const deleted = await this.deleteKeys(keys)
+    await this.redis.del(tagKey)
+    cacheMetrics.recordInvalidation(namespace, deleted)
+
+    return deleted
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    TieredCache.evictLocal(keys)
+    let deleted = 0
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      deleted += await this.redis.del(...keys.slice(i, i + DELETE_BATCH_SIZE))
+    }
+
+    return deleted
+  }
+
+  private async scanKeys(pattern: string, limit = Infinity): Promise<string[]> {
+    const keys: string[] = []
+    let cursor = '0'
+
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
+      cursor = next
+      keys.push(...batch)
+    } while (cursor !== '0' && keys.length < limit)
+
+    return keys.slice(0, limit)
+  }
+
+  private async readJSON<T>(key: string): Promise<T | null> {
+    const raw = await this.redis.get(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  }
+
+  private sum(details: Record<string, number>): number {
+    return Object.values(details).reduce((total, count) => total + count, 0)
+  }
+}
@@ -0,0 +1,118 @@
+import type { AIService } from '@/lib/ai/ai-service'
+import { InitialAnalysisStage } from '@/lib/enhancement/pipeline/stages/initial-analysis'
+import type { PipelineContext } from '@/lib/enhancement/pipeline/types'
+import { createClient } from '@/lib/supabase/server'
+import type { DocumentCache, PopularDocument } from './document-cache'
+import type { EnhancementCache } from './enhancement-cache'
+
+export interface WarmingResult {
+  warmed: number
+  skipped: number // already cached
+  failed: number
+}
+
+export interface PreloadResult {
+  loaded: number
+  missing: number
+}
+
+// How far down the popularity ranking a pattern warm looks for matches
+const PATTERN_SEARCH_DEPTH = 500
+
+/**
+ * Fills the caches ahead of demand: runs the initial analysis for the most
+ * uploaded templates, and pulls a user's recent documents into this
+ * process's memory tier.
+ */
+export class CacheWarmer {
+  private analysisStage: InitialAnalysisStage
+
+  constructor(
+    private documentCache: DocumentCache,
+    private enhancementCache: EnhancementCache,
+    aiService: AIService
+  ) {
+    this.analysisStage = new InitialAnalysisStage(aiService, enhancementCache)
+  }
+
+  async warmPopularDocuments(limit: number): Promise<WarmingResult> {
+    const popular = await this.documentCache.getPopularDocuments(limit)
+    return this.warmDocuments(popular)
+  }
+
+  // Matches original file names against a glob such as "worksheet-*.pdf"
+  async warmByPattern(pattern: string): Promise<WarmingResult> {
+    const matcher = globToRegExp(pattern)
+    const popular = await this.documentCache.getPopularDocuments(PATTERN_SEARCH_DEPTH)
+    return this.warmDocuments(popular.filter(doc => doc.fileName && matcher.test(doc.fileName)))
+  }
+
+  async preloadUserHistory(userId: string, limit: number): Promise<PreloadResult> {
+    const supabase = await createClient()
+    const { data: documents, error } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load document history: ${error.message}`)
+    }
+
+    const result: PreloadResult = { loaded: 0, missing: 0 }
+
+    // Reads backfill the memory tier from Redis
+    for (const { id } of (documents || []) as { id: string }[]) {
+      const entry = await this.documentCache.getByDocumentId(id)
+      if (!entry) {
+        result.missing++
+        continue
+      }
+
+      await this.enhancementCache.getAnalysis(entry.contentHash)
+      result.loaded++
+    }
+
+    return result
+  }
+
+  // Sequential on purpose: each analysis makes several AI calls
+  private async warmDocuments(documents: PopularDocument[]): Promise<WarmingResult> {
+    const result: WarmingResult = { warmed: 0, skipped: 0, failed: 0 }
+
+    for (const doc of documents) {
+      if (!doc.originalUrl || await this.enhancementCache.hasAnalysis(doc.contentHash)) {
+        result.skipped++
+        continue
+      }
+
+      try {
+        // The stage writes its result to the analysis cache itself
+        await this.analysisStage.execute(this.contextFor(doc))
+        result.warmed++
+      } catch (error) {
+        console.error(`Failed to warm analysis for ${doc.documentId}:`, error)
+        result.failed++
+      }
+    }
+
+    return result
+  }
+
+  private contextFor(doc: PopularDocument): PipelineContext {
+    return {
+      documentId: doc.documentId,
+      userId: 'cache-warmer',
+      subscriptionTier: 'premium',
+      originalFileUrl: doc.originalUrl!,
+      fileType: doc.fileType === 'application/pdf' ? 'pdf' : doc.fileType || 'image',
+      startTime: Date.now(),
+    }
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i')
+}
@@ -0,0 +1,290 @@
+import { createHash } from 'crypto'
+import type Redis from 'ioredis'
+import { TieredCache } from './tiered-cache'
+import { cacheMetrics } from './metrics'
+import { perceptualHash, hashSimilarity } from './perceptual-hash'
+
+export interface DocumentCacheConfig {
+  ttl: number // seconds
+  similarityThreshold: number // 0-1, minimum perceptual similarity for a match
+  maxSimilarityCandidates: number
+}
+
+export interface CachedDocument {
+  documentId: string
+  enhancementId: string
+  userId: string
+  contentHash: string
+  perceptualHash: string | null
+  cacheKey?: string
+  originalUrl?: string
+  status: 'pending' | 'completed'
+  enhancedUrl?: string
+  thumbnailUrl?: string
+  metadata: Record<string, unknown>
+  created_at: string
+  completed_at?: string
+}
+
+export interface SimilarDocument extends CachedDocument {
+  similarity: number // 1 for exact and cacheKey matches
+}
+
+export interface StoreDocumentParams {
+  content: Buffer
+  documentId: string
+  enhancementId: string
+  userId: string
+  cacheKey?: string
+  originalUrl?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface DocumentResult {
+  enhancementId?: string
+  enhancedUrl: string
+  thumbnailUrl?: string
+  improvements?: unknown
+}
+
+export interface PopularDocument {
+  contentHash: string
+  uploads: number
+  documentId: string
+  originalUrl?: string
+  fileType?: string
+  fileName?: string
+}
+
+// Cross-user upload counts by content hash, used to pick what to warm
+export const POPULAR_DOCUMENTS_KEY = 'popular:documents'
+const POPULAR_SOURCE_PREFIX = 'popular:source'
+const PERCEPTUAL_INDEX_PREFIX = 'perceptual'
+const POPULAR_SOURCE_TTL = 30 * 24 * 60 * 60
+const MAX_POPULAR_DOCUMENTS = 10000
+
+export function contentHashOf(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Remembers uploaded documents and their enhancement results so a repeat
+ * or near-duplicate upload can reuse the earlier result. Entries are scoped
+ * per user; only content hashes are shared across users, for popularity.
+ */
+export class DocumentCache {
+  readonly cache: TieredCache<CachedDocument>
+
+  constructor(private redis: Redis, readonly config: DocumentCacheConfig) {
+    this.cache = new TieredCache<CachedDocument>(redis, {
+      namespace: 'doc',
+      ttl: config.ttl,
+    })
+  }
+
+  async storeDocument(params: StoreDocumentParams): Promise<CachedDocument> {
+    const contentHash = contentHashOf(params.content)
+    const entry: CachedDocument = {
+      documentId: params.documentId,
+      enhancementId: params.enhancementId,
+      userId: params.userId,
+      contentHash,
+      perceptualHash: await perceptualHash(params.content),
+      cacheKey: params.cacheKey,
+      originalUrl: params.originalUrl,
+      status: 'pending',
+      metadata: params.metadata || {},
+      created_at: new Date().toISOString(),
+    }
+
+    await this.writeEntry(entry)
+    await this.trackPopularity(entry)
+
+    return entry
+  }
+
+  // Marks a stored document's enhancement as finished so it can be served from cache
+  async recordResult(documentId: string, result: DocumentResult): Promise<void> {
+    const entry = await this.getByDocumentId(documentId)
+    if (!entry) return
+
+    await this.writeEntry({
+      ...entry,
+      status: 'completed',
+      enhancementId: result.enhancementId || entry.enhancementId,
+      enhancedUrl: result.enhancedUrl,
+      thumbnailUrl: result.thumbnailUrl,
+      metadata: { ...entry.metadata, improvements: result.improvements },
+      completed_at: new Date().toISOString(),
+    })
+  }
+
+  /**
+   * Looks for a finished enhancement of the same document: by explicit
+   * cache key first, then exact content, then perceptual similarity.
+   */
+  async checkSimilarDocument(
+    content: Buffer,
+    userId: string,
+    cacheKey?: string
+  ): Promise<SimilarDocument | null> {
+    if (cacheKey) {
+      const keyed = await this.cache.get(this.cacheKeyKey(userId, cacheKey))
+      if (keyed?.status === 'completed') {
+        return { ...keyed, similarity: 1 }
+      }
+    }
+
+    const contentHash = contentHashOf(content)
+    const exact = await this.cache.get(this.contentKey(userId, contentHash))
+    if (exact?.status === 'completed') {
+      return { ...exact, similarity: 1 }
+    }
+
+    const hash = await perceptualHash(content)
+    if (!hash) return null
+
+    const match = await this.findSimilar(userId, hash, contentHash)
+    cacheMetrics.recordSimilarityLookup(!!match)
+    return match
+  }
+
+  async getByDocumentId(documentId: string): Promise<CachedDocument | null> {
+    return this.cache.get(this.documentKey(documentId))
+  }
+
+  async invalidateDocument(documentId: string): Promise<number> {
+    const entry = await this.getByDocumentId(documentId)
+    const removed = await this.cache.invalidateTag(`document:${documentId}`)
+
+    if (entry) {
+      await this.redis.hdel(this.perceptualIndexKey(entry.userId), entry.contentHash)
+    }
+
+    return removed
+  }
+
+  async invalidateUser(userId: string): Promise<number> {
+    const removed = await this.cache.invalidateTag(`user:${userId}`)
+    await this.redis.del(this.perceptualIndexKey(userId))
+    return removed
+  }
+
+  async getPopularDocuments(limit: number): Promise<PopularDocument[]> {
+    const ranked = await this.redis.zrevrange(POPULAR_DOCUMENTS_KEY, 0, limit - 1, 'WITHSCORES')
+    const popular: PopularDocument[] = []
+
+    for (let i = 0; i < ranked.length; i += 2) {
+      const contentHash = ranked[i]
+      const source = await this.redis.hgetall(`${POPULAR_SOURCE_PREFIX}:${contentHash}`)
+      if (!source.documentId) continue
+
+      popular.push({
+        contentHash,
+        uploads: Number(ranked[i + 1]),
+        documentId: source.documentId,
+        originalUrl: source.originalUrl || undefined,
+        fileType: source.fileType || undefined,
+        fileName: source.fileName || undefined,
+      })
+    }
+
+    return popular
+  }
+
+  async getCacheSize(): Promise<number> {
+    return this.cache.size()
+  }
+
+  private async writeEntry(entry: CachedDocument): Promise<void> {
+    const tags = [`document:${entry.documentId}`, `user:${entry.userId}`]
+    const keys = [
+      this.contentKey(entry.userId, entry.contentHash),
+      this.documentKey(entry.documentId),
+    ]
+    if (entry.cacheKey) {
+      keys.push(this.cacheKeyKey(entry.userId, entry.cacheKey))
+    }
+
+    await Promise.all(keys.map(key => this.cache.set(key, entry, { tags })))
+
+    if (entry.perceptualHash) {
+      const indexKey = this.perceptualIndexKey(entry.userId)
+      try {
+        await this.redis
+          .pipeline()
+          .hset(indexKey, entry.contentHash, entry.perceptualHash)
+          .expire(indexKey, this.config.ttl)
+          .exec()
+      } catch (error) {
+        console.warn('Failed to index perceptual hash:', error)
+      }
+    }
+  }
+
+  private async findSimilar(
+    userId: string,
+    hash: string,
+    contentHash: string
+  ): Promise<SimilarDocument | null> {
+    let index: Record<string, string>
+    try {
+      index = await this.redis.hgetall(this.perceptualIndexKey(userId))
+    } catch (error) {
+      console.warn('Failed to read perceptual index:', error)
+      return null
+    }
+
+    const candidates = Object.entries(index)
+      .filter(([candidateHash]) => candidateHash !== contentHash)
+      .map(([candidateHash, candidate]) => ({ candidateHash, similarity: hashSimilarity(hash, candidate) }))
+      .filter(({ similarity }) => similarity >= this.config.similarityThreshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.config.maxSimilarityCandidates)
+
+    for (const { candidateHash, similarity } of candidates) {
+      const entry = await this.cache.get(this.contentKey(userId, candidateHash))
+      if (entry?.status === 'completed') {
+        return { ...entry, similarity }
+      }
+    }
+
+    return null
+  }
+
+  private async trackPopularity(entry: CachedDocument): Promise<void> {
+    const sourceKey = `${POPULAR_SOURCE_PREFIX}:${entry.contentHash}`
+
+    try {
+      await this.redis
+        .pipeline()
+        .zincrby(POPULAR_DOCUMENTS_KEY, 1, entry.contentHash)
+        // Keep the first upload as the copy the warmer analyses
+        .hsetnx(sourceKey, 'documentId', entry.documentId)
+        .hsetnx(sourceKey, 'originalUrl', entry.originalUrl || '')
+        .hsetnx(sourceKey, 'fileType', String(entry.metadata.fileType || ''))
+        .hsetnx(sourceKey, 'fileName', String(entry.metadata.fileName || ''))
+        .expire(sourceKey, POPULAR_SOURCE_TTL)
+        .zremrangebyrank(POPULAR_DOCUMENTS_KEY, 0, -MAX_POPULAR_DOCUMENTS - 1)
+        .exec()
+    } catch (error) {
+      console.warn('Failed to track document popularity:', error)
+    }
+  }
+
+  private contentKey(userId: string, contentHash: string): string {
+    return `${userId}:${contentHash}`
+  }
+
+  private cacheKeyKey(userId: string, cacheKey: string): string {
+    return `${userId}:key:${cacheKey}`
+  }
+
+  private documentKey(documentId: string): string {
+    return `id:${documentId}`
+  }
+
+  private perceptualIndexKey(userId: string): string {
+    return `${PERCEPTUAL_INDEX_PREFIX}:${userId}`
+  }
+}
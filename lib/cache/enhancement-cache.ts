@@ -0,0 +1,74 @@
+import type Redis from 'ioredis'
+import { TieredCache } from './tiered-cache'
+import type { InitialAnalysisResult } from '@/lib/enhancement/pipeline/types'
+
+export interface EnhancementCacheConfig {
+  ttl: number // seconds
+}
+
+export interface AnalysisCacheOptions {
+  documentId?: string
+  bypass?: boolean
+}
+
+/**
+ * Initial-analysis results keyed by document content, so the same file
+ * uploaded as different documents (or by different users) is analysed once.
+ */
+export class EnhancementCache {
+  readonly cache: TieredCache<InitialAnalysisResult>
+
+  constructor(redis: Redis, readonly config: EnhancementCacheConfig) {
+    this.cache = new TieredCache<InitialAnalysisResult>(redis, {
+      namespace: 'enhance',
+      ttl: config.ttl,
+    })
+  }
+
+  async getAnalysis(contentHash: string): Promise<InitialAnalysisResult | null> {
+    return this.cache.get(this.analysisKey(contentHash))
+  }
+
+  async setAnalysis(
+    contentHash: string,
+    analysis: InitialAnalysisResult,
+    options: AnalysisCacheOptions = {}
+  ): Promise<void> {
+    await this.cache.set(this.analysisKey(contentHash), analysis, {
+      tags: this.tagsFor(contentHash, options.documentId),
+    })
+  }
+
+  async getOrAnalyze(
+    contentHash: string,
+    analyze: () => Promise<InitialAnalysisResult>,
+    options: AnalysisCacheOptions = {}
+  ): Promise<InitialAnalysisResult> {
+    return this.cache.getOrSet(this.analysisKey(contentHash), analyze, {
+      bypass: options.bypass,
+      tags: this.tagsFor(contentHash, options.documentId),
+    })
+  }
+
+  async hasAnalysis(contentHash: string): Promise<boolean> {
+    return (await this.getAnalysis(contentHash)) !== null
+  }
+
+  async invalidateContent(contentHash: string): Promise<number> {
+    return this.cache.invalidateTag(`content:${contentHash}`)
+  }
+
+  async invalidateDocument(documentId: string): Promise<number> {
+    return this.cache.invalidateTag(`document:${documentId}`)
+  }
+
+  private analysisKey(contentHash: string): string {
+    return `analysis:${contentHash}`
+  }
+
+  private tagsFor(contentHash: string, documentId?: string): string[] {
+    return documentId
+      ? [`content:${contentHash}`, `document:${documentId}`]
+      : [`content:${contentHash}`]
+  }
+}
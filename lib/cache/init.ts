@@ -0,0 +1,19 @@
+import { redis } from '@/lib/queue/redis'
+import { DocumentCache } from './document-cache'
+import { EnhancementCache } from './enhancement-cache'
+import { AIResponseCache } from './ai-response-cache'
+
+// Shared cache instances; each process gets its own memory tier over the same Redis
+export const documentCache = new DocumentCache(redis, {
+  ttl: 43200, // 12 hours
+  similarityThreshold: 0.85,
+  maxSimilarityCandidates: 5,
+})
+
+export const enhancementCache = new EnhancementCache(redis, {
+  ttl: 86400, // 24 hours
+})
+
+export const aiResponseCache = new AIResponseCache(redis, {
+  ttl: 3600, // 1 hour
+})
@@ -0,0 +1,65 @@
+interface LRUEntry<T> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * In-process LRU with per-entry expiry. Relies on Map keeping insertion
+ * order: a read re-inserts the key, so the first key is always the least
+ * recently used one.
+ */
+export class LRUCache<T> {
+  private entries = new Map<string, LRUEntry<T>>()
+  private evictions = 0
+
+  constructor(private maxEntries: number) {
+    if (maxEntries < 1) {
+      throw new Error('LRU cache needs room for at least one entry')
+    }
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  set(key: string, value: T, ttlSeconds: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+      this.evictions++
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  get evictionCount(): number {
+    return this.evictions
+  }
+}
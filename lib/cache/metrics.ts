@@ -0,0 +1,155 @@
+export type CacheTier = 'memory' | 'redis'
+
+export interface NamespaceStats {
+  hits: number
+  memoryHits: number
+  redisHits: number
+  misses: number
+  sets: number
+  invalidations: number
+  errors: number
+  hitRate: number
+}
+
+export interface CacheStats extends NamespaceStats {
+  similarityHits: number
+  similarityRate: number
+  avgResponseTime: number // ms per lookup
+  namespaces: Record<string, NamespaceStats>
+  since: string
+}
+
+type Counters = Omit<NamespaceStats, 'hitRate'>
+
+const emptyCounters = (): Counters => ({
+  hits: 0,
+  memoryHits: 0,
+  redisHits: 0,
+  misses: 0,
+  sets: 0,
+  invalidations: 0,
+  errors: 0,
+})
+
+// Keep a bounded window of lookup timings for the average
+const MAX_TIMINGS = 1000
+
+/**
+ * Hit/miss counters for every cache namespace in this process. Counters
+ * are process-local; Redis keyspace stats cover the shared tier.
+ */
+export class CacheMetrics {
+  private counters = new Map<string, Counters>()
+  private timings: number[] = []
+  private similarityHits = 0
+  private similarityLookups = 0
+  private since = new Date()
+
+  recordHit(namespace: string, tier: CacheTier, durationMs?: number): void {
+    const counters = this.getCounters(namespace)
+    counters.hits++
+    if (tier === 'memory') counters.memoryHits++
+    else counters.redisHits++
+    this.recordTiming(durationMs)
+  }
+
+  recordMiss(namespace: string, durationMs?: number): void {
+    this.getCounters(namespace).misses++
+    this.recordTiming(durationMs)
+  }
+
+  recordSet(namespace: string): void {
+    this.getCounters(namespace).sets++
+  }
+
+  recordInvalidation(namespace: string, count = 1): void {
+    this.getCounters(namespace).invalidations += count
+  }
+
+  recordError(namespace: string): void {
+    this.getCounters(namespace).errors++
+  }
+
+  // Lookups that fell back to near-duplicate matching after an exact miss
+  recordSimilarityLookup(matched: boolean): void {
+    this.similarityLookups++
+    if (matched) this.similarityHits++
+  }
+
+  getStats(): CacheStats {
+    const namespaces: Record<string, NamespaceStats> = {}
+    const total = emptyCounters()
+
+    for (const [namespace, counters] of this.counters) {
+      namespaces[namespace] = { ...counters, hitRate: this.hitRate(counters) }
+      for (const key of Object.keys(total) as (keyof Counters)[]) {
+        total[key] += counters[key]
+      }
+    }
+
+    return {
+      ...total,
+      hitRate: this.hitRate(total),
+      similarityHits: this.similarityHits,
+      similarityRate: this.similarityLookups > 0 ? this.similarityHits / this.similarityLookups : 0,
+      avgResponseTime: this.timings.length > 0
+        ? this.timings.reduce((sum, t) => sum + t, 0) / this.timings.length
+        : 0,
+      namespaces,
+      since: this.since.toISOString(),
+    }
+  }
+
+  // Prometheus text exposition format
+  exportMetrics(): string {
+    const lines: string[] = []
+    const metric = (name: string, help: string, values: [string, number][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`)
+      for (const [namespace, value] of values) {
+        lines.push(`${name}{namespace="${namespace}"} ${value}`)
+      }
+    }
+    const entries = Array.from(this.counters.entries())
+
+    metric('cache_hits_total', 'Cache hits by namespace', entries.map(([ns, c]) => [ns, c.hits]))
+    metric('cache_memory_hits_total', 'Cache hits served from process memory', entries.map(([ns, c]) => [ns, c.memoryHits]))
+    metric('cache_misses_total', 'Cache misses by namespace', entries.map(([ns, c]) => [ns, c.misses]))
+    metric('cache_sets_total', 'Cache writes by namespace', entries.map(([ns, c]) => [ns, c.sets]))
+    metric('cache_invalidations_total', 'Cache entries invalidated by namespace', entries.map(([ns, c]) => [ns, c.invalidations]))
+    metric('cache_errors_total', 'Cache backend errors by namespace', entries.map(([ns, c]) => [ns, c.errors]))
+
+    return lines.join('\n')
+  }
+
+  reset(): void {
+    this.counters.clear()
+    this.timings = []
+    this.similarityHits = 0
+    this.similarityLookups = 0
+    this.since = new Date()
+  }
+
+  private getCounters(namespace: string): Counters {
+    let counters = this.counters.get(namespace)
+    if (!counters) {
+      counters = emptyCounters()
+      this.counters.set(namespace, counters)
+    }
+    return counters
+  }
+
+  private recordTiming(durationMs?: number): void {
+    if (durationMs === undefined) return
+    this.timings.push(durationMs)
+    if (this.timings.length > MAX_TIMINGS) {
+      this.timings.shift()
+    }
+  }
+
+  private hitRate(counters: Counters): number {
+    const lookups = counters.hits + counters.misses
+    return lookups > 0 ? counters.hits / lookups : 0
+  }
+}
+
+export const cacheMetrics = new CacheMetrics()
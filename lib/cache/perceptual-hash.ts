@@ -0,0 +1,47 @@
+import sharp from 'sharp'
+
+// 8 rows of 9 pixels give 64 left-to-right brightness comparisons
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+/**
+ * Difference hash (dHash) of an image: stable across re-encoding, resizing
+ * and small edits, so near-duplicate uploads land on nearby hashes.
+ * Returns null for inputs sharp cannot decode, such as PDFs.
+ */
+export async function perceptualHash(content: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(content)
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer()
+
+    let hash = BigInt(0)
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const left = pixels[y * HASH_WIDTH + x]
+        const right = pixels[y * HASH_WIDTH + x + 1]
+        hash = (hash << BigInt(1)) | (left > right ? BigInt(1) : BigInt(0))
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0')
+  } catch {
+    return null
+  }
+}
+
+// Share of matching bits between two hashes, from 0 to 1
+export function hashSimilarity(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let differentBits = 0
+
+  while (diff > BigInt(0)) {
+    differentBits += Number(diff & BigInt(1))
+    diff >>= BigInt(1)
+  }
+
+  return 1 - differentBits / 64
+}
@@ -0,0 +1,206 @@
+import type Redis from 'ioredis'
+import { LRUCache } from './lru-cache'
+import { cacheMetrics } from './metrics'
+
+export interface TieredCacheOptions {
+  namespace: string
+  ttl: number // seconds in Redis
+  memoryTTL?: number // seconds in process memory, capped at ttl
+  maxMemoryEntries?: number
+}
+
+export interface CacheSetOptions {
+  ttl?: number
+  tags?: string[]
+}
+
+export interface CacheGetOrSetOptions extends CacheSetOptions {
+  bypass?: boolean // skip the lookup but still store the fresh value
+}
+
+// Prefix for the Redis sets that map a tag to the keys carrying it
+export const TAG_PREFIX = 'cachetag'
+
+// Memory entries are not invalidated across processes, so they stay short-lived
+const DEFAULT_MEMORY_TTL = 60
+const DEFAULT_MAX_MEMORY_ENTRIES = 500
+
+/**
+ * Two-tier cache: a small in-process LRU in front of Redis. Reads check
+ * memory first and backfill it from Redis; writes go to both. Redis
+ * failures are logged and treated as misses so callers degrade to doing
+ * the work instead of failing.
+ */
+export class TieredCache<T> {
+  private static instances = new Set<TieredCache<unknown>>()
+
+  readonly namespace: string
+  readonly ttl: number
+  private memoryTTL: number
+  private memory: LRUCache<T>
+  private inFlight = new Map<string, Promise<T>>()
+
+  constructor(private redis: Redis, options: TieredCacheOptions) {
+    this.namespace = options.namespace
+    this.ttl = options.ttl
+    this.memoryTTL = Math.min(options.memoryTTL ?? DEFAULT_MEMORY_TTL, options.ttl)
+    this.memory = new LRUCache<T>(options.maxMemoryEntries ?? DEFAULT_MAX_MEMORY_ENTRIES)
+
+    TieredCache.instances.add(this as TieredCache<unknown>)
+  }
+
+  // Drops keys deleted straight from Redis (e.g. by the invalidator) from every local tier
+  static evictLocal(redisKeys: string[]): void {
+    for (const cache of TieredCache.instances) {
+      for (const redisKey of redisKeys) {
+        const prefix = `${cache.namespace}:`
+        if (redisKey.startsWith(prefix)) {
+          cache.memory.delete(redisKey.slice(prefix.length))
+        }
+      }
+    }
+  }
+
+  static clearLocal(): void {
+    for (const cache of TieredCache.instances) {
+      cache.memory.clear()
+    }
+  }
+
+  redisKey(key: string): string {
+    return `${this.namespace}:${key}`
+  }
+
+  tagKey(tag: string): string {
+    return `${TAG_PREFIX}:${this.namespace}:${tag}`
+  }
+
+  async get(key: string): Promise<T | null> {
+    const started = Date.now()
+
+    const local = this.memory.get(key)
+    if (local !== undefined) {
+      cacheMetrics.recordHit(this.namespace, 'memory', Date.now() - started)
+      return local
+    }
+
+    try {
+      const raw = await this.redis.get(this.redisKey(key))
+      if (raw !== null) {
+        const value = JSON.parse(raw) as T
+        this.memory.set(key, value, this.memoryTTL)
+        cacheMetrics.recordHit(this.namespace, 'redis', Date.now() - started)
+        return value
+      }
+    } catch (error) {
+      cacheMetrics.recordError(this.namespace)
+      console.warn(`Cache read failed for ${this.redisKey(key)}:`, error)
+    }
+
+    cacheMetrics.recordMiss(this.namespace, Date.now() - started)
+    return null
+  }
+
+  async set(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    const ttl = options.ttl ?? this.ttl
+    this.memory.set(key, value, Math.min(this.memoryTTL, ttl))
+    cacheMetrics.recordSet(this.namespace)
+
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.set(this.redisKey(key), JSON.stringify(value), 'EX', ttl)
+
+      for (const tag of options.tags || []) {
+        pipeline.sadd(this.tagKey(tag), this.redisKey(key))
+        // Outlive the entries it points at so none escape invalidation
+        pipeline.expire(this.tagKey(tag), Math.max(ttl, this.ttl))
+      }
+
+      await pipeline.exec()
+    } catch (error) {
+      cacheMetrics.recordError(this.namespace)
+      console.warn(`Cache write failed for ${this.redisKey(key)}:`, error)
+    }
+  }
+
+  /**
+   * Returns the cached value or runs the loader once, even when several
+   * callers in this process miss on the same key at the same time.
+   */
+  async getOrSet(
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheGetOrSetOptions = {}
+  ): Promise<T> {
+    if (!options.bypass) {
+      const cached = await this.get(key)
+      if (cached !== null) return cached
+    }
+
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    const load = (async () => {
+      try {
+        const value = await loader()
+        await this.set(key, value, options)
+        return value
+      } finally {
+        this.inFlight.delete(key)
+      }
+    })()
+
+    this.inFlight.set(key, load)
+    return load
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key)
+
+    try {
+      await this.redis.del(this.redisKey(key))
+      cacheMetrics.recordInvalidation(this.namespace)
+    } catch (error) {
+      cacheMetrics.recordError(this.namespace)
+      console.warn(`Cache delete failed for ${this.redisKey(key)}:`, error)
+    }
+  }
+
+  // Deletes every entry written with the tag; returns how many were removed
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const keys = await this.redis.smembers(this.tagKey(tag))
+      TieredCache.evictLocal(keys)
+
+      if (keys.length > 0) {
+        await this.redis.del(...keys)
+      }
+      await this.redis.del(this.tagKey(tag))
+
+      cacheMetrics.recordInvalidation(this.namespace, keys.length)
+      return keys.length
+    } catch (error) {
+      cacheMetrics.recordError(this.namespace)
+      console.warn(`Cache tag invalidation failed for ${this.tagKey(tag)}:`, error)
+      return 0
+    }
+  }
+
+  // Number of entries in the shared tier
+  async size(): Promise<number> {
+    let count = 0
+    let cursor = '0'
+
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${this.namespace}:*`, 'COUNT', 100)
+      cursor = next
+      count += batch.length
+    } while (cursor !== '0')
+
+    return count
+  }
+
+  get memorySize(): number {
+    return this.memory.size
+  }
+}
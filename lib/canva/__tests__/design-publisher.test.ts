@@ -0,0 +1,243 @@
+/**
+ * @jest-environment node
+ */
+import { CanvaDesignPublisher } from '../design-publisher'
+import { CanvaOAuth } from '../oauth'
+import type { CanvaAuthToken } from '../api-config'
+
+jest.mock('../oauth', () => ({
+  CanvaOAuth: {
+    getStoredToken: jest.fn(),
+    refreshToken: jest.fn(),
+    storeToken: jest.fn()
+  }
+}))
+
+const BASE_URL = 'http://canva.test/rest/v1'
+
+interface RecordedRequest {
+  method: string
+  path: string
+  headers: Record<string, string>
+  body?: unknown
+}
+
+function createToken(accessToken: string): CanvaAuthToken {
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'refresh-1',
+    scope: 'asset:write design:content:write',
+    created_at: Date.now()
+  }
+}
+
+/**
+ * Minimal in-memory Canva REST API. Upload and import jobs report
+ * `in_progress` on their first poll so callers have to wait for them.
+ */
+function createMockCanvaAPI(options: { rejectToken?: string; failUpload?: boolean } = {}) {
+  const requests: RecordedRequest[] = []
+  const polls = new Map<string, number>()
+
+  const json = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 401 ? 'Unauthorized' : 'OK',
+    json: async () => body
+  })
+
+  const handler = async (url: string, init: RequestInit = {}) => {
+    const path = url.replace(BASE_URL, '')
+    const method = init.method || 'GET'
+    const headers = init.headers as Record<string, string>
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : init.body
+    requests.push({ method, path, headers, body })
+
+    if (options.rejectToken && headers.Authorization === `Bearer ${options.rejectToken}`) {
+      return json(401, { code: 'invalid_access_token', message: 'Access token is invalid' })
+    }
+
+    const poll = (jobId: string) => {
+      const count = (polls.get(jobId) || 0) + 1
+      polls.set(jobId, count)
+      return count
+    }
+
+    if (method === 'POST' && path === '/asset-uploads') {
+      return json(200, { job: { id: 'upload-1', status: 'in_progress' } })
+    }
+    if (method === 'GET' && path === '/asset-uploads/upload-1') {
+      if (options.failUpload) {
+        return json(200, { job: { id: 'upload-1', status: 'failed', error: { code: 'file_too_big', message: 'File is too big' } } })
+      }
+      return poll('upload-1') < 2
+        ? json(200, { job: { id: 'upload-1', status: 'in_progress' } })
+        : json(200, { job: { id: 'upload-1', status: 'success', asset: { id: 'asset-1', name: 'Worksheet', tags: [] } } })
+    }
+    if (method === 'POST' && path === '/designs') {
+      return json(200, {
+        design: {
+          id: 'design-1',
+          title: (body as { title: string }).title,
+          urls: { edit_url: 'https://www.canva.com/design/design-1/edit', view_url: 'https://www.canva.com/design/design-1/view' }
+        }
+      })
+    }
+    if (method === 'POST' && path === '/imports') {
+      return json(200, { job: { id: 'import-1', status: 'in_progress' } })
+    }
+    if (method === 'GET' && path === '/imports/import-1') {
+      return poll('import-1') < 2
+        ? json(200, { job: { id: 'import-1', status: 'in_progress' } })
+        : json(200, {
+          job: {
+            id: 'import-1',
+            status: 'success',
+            result: {
+              designs: [{
+                id: 'design-2',
+                urls: { edit_url: 'https://www.canva.com/design/design-2/edit', view_url: 'https://www.canva.com/design/design-2/view' }
+              }]
+            }
+          }
+        })
+    }
+
+    return json(404, { code: 'not_found', message: `No route for ${method} ${path}` })
+  }
+
+  return { handler, requests }
+}
+
+describe('CanvaDesignPublisher', () => {
+  const publisher = new CanvaDesignPublisher({ baseUrl: BASE_URL, pollIntervalMs: 0 })
+  const image = Buffer.from('enhanced-png')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(CanvaOAuth.getStoredToken as jest.Mock).mockResolvedValue(createToken('token-1'))
+  })
+
+  function useMockAPI(options?: Parameters<typeof createMockCanvaAPI>[0]) {
+    const api = createMockCanvaAPI(options)
+    ;(global.fetch as jest.Mock).mockImplementation(api.handler)
+    return api
+  }
+
+  it('uploads an image as an asset and creates a design of the same size', async () => {
+    const api = useMockAPI()
+    const progress: number[] = []
+
+    const design = await publisher.publish({
+      userId: 'user-1',
+      title: 'Worksheet',
+      file: image,
+      mimeType: 'image/png',
+      dimensions: { width: 1200, height: 900 },
+      onProgress: value => progress.push(value)
+    })
+
+    expect(design).toEqual({
+      designId: 'design-1',
+      editUrl: 'https://www.canva.com/design/design-1/edit',
+      viewUrl: 'https://www.canva.com/design/design-1/view',
+      assetId: 'asset-1'
+    })
+
+    const upload = api.requests.find(r => r.path === '/asset-uploads')!
+    expect(upload.body).toBe(image)
+    expect(JSON.parse(upload.headers['Asset-Upload-Metadata'])).toEqual({
+      name_base64: Buffer.from('Worksheet').toString('base64')
+    })
+
+    const create = api.requests.find(r => r.path === '/designs')!
+    expect(create.body).toEqual({
+      design_type: { type: 'custom', width: 1200, height: 900 },
+      title: 'Worksheet',
+      asset_id: 'asset-1'
+    })
+
+    expect(progress).toEqual([...progress].sort((a, b) => a - b))
+    expect(progress[progress.length - 1]).toBe(100)
+  })
+
+  it('imports PDFs as designs so every page is kept', async () => {
+    const api = useMockAPI()
+
+    const design = await publisher.publish({
+      userId: 'user-1',
+      title: 'Lesson Plan',
+      file: Buffer.from('%PDF-1.7'),
+      mimeType: 'application/pdf'
+    })
+
+    expect(design.designId).toBe('design-2')
+    const importRequest = api.requests.find(r => r.path === '/imports')!
+    expect(JSON.parse(importRequest.headers['Import-Metadata'])).toEqual({
+      title_base64: Buffer.from('Lesson Plan').toString('base64'),
+      mime_type: 'application/pdf'
+    })
+    expect(api.requests.some(r => r.path === '/asset-uploads')).toBe(false)
+  })
+
+  it('fits oversized images within the design size limits', async () => {
+    const api = useMockAPI()
+
+    await publisher.publish({
+      userId: 'user-1',
+      title: 'Poster',
+      file: image,
+      mimeType: 'image/png',
+      dimensions: { width: 16000, height: 8000 }
+    })
+
+    const create = api.requests.find(r => r.path === '/designs')!
+    expect((create.body as { design_type: unknown }).design_type).toEqual({
+      type: 'custom',
+      width: 8000,
+      height: 4000
+    })
+  })
+
+  it('refreshes a token Canva rejects and retries the call', async () => {
+    const api = useMockAPI({ rejectToken: 'token-1' })
+    ;(CanvaOAuth.refreshToken as jest.Mock).mockResolvedValue(createToken('token-2'))
+
+    const design = await publisher.publish({
+      userId: 'user-1',
+      title: 'Worksheet',
+      file: image,
+      mimeType: 'image/png'
+    })
+
+    expect(design.designId).toBe('design-1')
+    expect(CanvaOAuth.refreshToken).toHaveBeenCalledWith('refresh-1')
+    expect(CanvaOAuth.storeToken).toHaveBeenCalledWith('user-1', expect.objectContaining({ access_token: 'token-2' }))
+    expect(api.requests[api.requests.length - 1].headers.Authorization).toBe('Bearer token-2')
+  })
+
+  it('requires a connected Canva account', async () => {
+    useMockAPI()
+    ;(CanvaOAuth.getStoredToken as jest.Mock).mockResolvedValue(null)
+
+    await expect(publisher.publish({
+      userId: 'user-1',
+      title: 'Worksheet',
+      file: image,
+      mimeType: 'image/png'
+    })).rejects.toMatchObject({ code: 'NOT_CONNECTED', statusCode: 401 })
+  })
+
+  it('surfaces a failed asset upload', async () => {
+    useMockAPI({ failUpload: true })
+
+    await expect(publisher.publish({
+      userId: 'user-1',
+      title: 'Worksheet',
+      file: image,
+      mimeType: 'image/png'
+    })).rejects.toMatchObject({ message: 'File is too big', code: 'file_too_big' })
+  })
+})
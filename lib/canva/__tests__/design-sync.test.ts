@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { CanvaDesignSync, LinkedDesign } from '../design-sync'
+import type { CanvaAPIClient } from '../api-client'
+import type { CanvaDesign } from '../api-config'
+import { CanvaOAuth } from '../oauth'
+import { createServiceClient } from '@/lib/supabase/service'
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }))
+jest.mock('../oauth', () => ({ CanvaOAuth: { getStoredToken: jest.fn() } }))
+jest.mock('@/lib/queue/queues', () => ({ addCanvaSyncJob: jest.fn() }))
+
+function createLinked(designId: string, canvaUpdatedAt: string): LinkedDesign {
+  return {
+    id: `link-${designId}`,
+    userId: 'user-1',
+    documentId: `doc-${designId}`,
+    designId,
+    designUrl: `https://www.canva.com/design/${designId}/edit`,
+    canvaUpdatedAt,
+    version: 1,
+    status: 'idle'
+  }
+}
+
+function createDesign(id: string, updatedAt: string): CanvaDesign {
+  return {
+    id,
+    name: id,
+    urls: { editUrl: '', viewUrl: '' },
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt
+  }
+}
+
+function createClient(pages: CanvaDesign[][]) {
+  const listDesigns = jest.fn(async (_limit: number, continuation?: string) => {
+    const index = continuation ? Number(continuation) : 0
+    return {
+      designs: pages[index],
+      continuation: index + 1 < pages.length ? String(index + 1) : undefined
+    }
+  })
+  return { client: { listDesigns } as unknown as CanvaAPIClient, listDesigns }
+}
+
+describe('CanvaDesignSync', () => {
+  it('reports designs edited after their last sync', async () => {
+    const { client } = createClient([[
+      createDesign('A', '2025-02-01T10:00:00Z'),
+      createDesign('B', '2025-01-15T10:00:00Z')
+    ]])
+
+    const changed = await CanvaDesignSync.findChangedDesigns(client, [
+      createLinked('A', '2025-01-20T10:00:00Z'),
+      createLinked('B', '2025-01-15T10:00:00Z')
+    ])
+
+    expect(changed).toEqual([
+      { linked: expect.objectContaining({ designId: 'A' }), updatedAt: '2025-02-01T10:00:00Z' }
+    ])
+  })
+
+  it('follows continuation tokens until every linked design is found', async () => {
+    const { client, listDesigns } = createClient([
+      [createDesign('X', '2025-03-01T00:00:00Z')],
+      [createDesign('A', '2025-03-01T00:00:00Z')],
+      [createDesign('Y', '2025-03-01T00:00:00Z')]
+    ])
+
+    const changed = await CanvaDesignSync.findChangedDesigns(client, [
+      createLinked('A', '2025-01-01T00:00:00Z')
+    ])
+
+    expect(changed.map(c => c.linked.designId)).toEqual(['A'])
+    // Stops once design A has been seen
+    expect(listDesigns).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores linked designs missing from the account', async () => {
+    const { client } = createClient([[createDesign('X', '2025-03-01T00:00:00Z')]])
+
+    const changed = await CanvaDesignSync.findChangedDesigns(client, [
+      createLinked('deleted', '2025-01-01T00:00:00Z')
+    ])
+
+    expect(changed).toEqual([])
+  })
+
+  it('treats an unparseable remote timestamp as unchanged', () => {
+    expect(CanvaDesignSync.hasChanged(createLinked('A', '2025-01-01T00:00:00Z'), 'not-a-date')).toBe(false)
+  })
+
+  it('checks every user\'s designs through the service client', async () => {
+    const updates: Array<Record<string, unknown>> = []
+    const query = {
+      select: () => query,
+      eq: () => query,
+      neq: () => query,
+      in: () => query,
+      update: (values: Record<string, unknown>) => {
+        updates.push(values)
+        return query
+      },
+      then: (resolve: (value: unknown) => void) => resolve({
+        data: [{
+          id: 'link-A',
+          user_id: 'user-2',
+          document_id: 'doc-A',
+          design_id: 'A',
+          design_url: '',
+          canva_updated_at: '2025-02-01T00:00:00Z',
+          version: 1,
+          status: 'idle'
+        }],
+        error: null
+      })
+    }
+    const supabase = { from: () => query }
+    ;(createServiceClient as jest.Mock).mockReturnValue(supabase)
+    ;(CanvaOAuth.getStoredToken as jest.Mock).mockResolvedValue(null)
+
+    const summary = await CanvaDesignSync.checkForChanges()
+
+    expect(CanvaOAuth.getStoredToken).toHaveBeenCalledWith('user-2', supabase)
+    expect(updates).toContainEqual(expect.objectContaining({ status: 'error', last_error: 'Canva account is not connected' }))
+    expect(summary).toEqual({ checked: 1, queued: 0, failed: 1 })
+  })
+})
@@ -1,4 +1,14 @@
-import { CANVA_API_CONFIG, CanvaAuthToken, CanvaDesign, CanvaExportRequest, CanvaExportResponse } from './api-config';
+import {
+  CANVA_API_CONFIG,
+  CanvaAsset,
+  CanvaAssetUploadJob,
+  CanvaAuthToken,
+  CanvaDesign,
+  CanvaDesignImportJob,
+  CanvaDesignSummary,
+  CanvaExportRequest,
+  CanvaExportResponse,
+} from './api-config';
 
 export class CanvaAPIError extends Error {
   constructor(
@@ -11,11 +21,21 @@ export class CanvaAPIError extends Error {
   }
 }
 
+export interface CanvaAPIClientOptions {
+  baseUrl?: string;
+  pollIntervalMs?: number;
+}
+
 export class CanvaAPIClient {
   private accessToken: string | null = null;
   private tokenExpiry: number | null = null;
+  private baseUrl: string;
+  private pollIntervalMs: number;
+
+  constructor(private token?: CanvaAuthToken, options: CanvaAPIClientOptions = {}) {
+    this.baseUrl = options.baseUrl || CANVA_API_CONFIG.endpoints.base;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
 
-  constructor(private token?: CanvaAuthToken) {
     if (token) {
       this.setToken(token);
     }
@@ -42,7 +62,7 @@ export class CanvaAPIClient {
       throw new CanvaAPIError('Invalid or expired token', 401, 'UNAUTHORIZED');
     }
 
-    const url = `${CANVA_API_CONFIG.endpoints.base}${endpoint}`;
+    const url = `${this.baseUrl}${endpoint}`;
     
     const response = await fetch(url, {
       ...options,
@@ -99,39 +119,67 @@ export class CanvaAPIClient {
     return this.request(`/designs/${designId}/exports/${jobId}`);
   }
 
-  // Create an import
-  async createImport(data: {
-    name: string;
-    asset_id: string;
+  // Create a design, optionally filled with an uploaded asset
+  async createDesign(data: {
+    title: string;
+    width: number;
+    height: number;
+    assetId?: string;
   }): Promise<{
-    design: CanvaDesign;
+    design: CanvaDesignSummary;
   }> {
-    return this.request('/imports', {
+    return this.request(CANVA_API_CONFIG.endpoints.designs.create, {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify({
+        design_type: { type: 'custom', width: data.width, height: data.height },
+        title: data.title,
+        ...(data.assetId && { asset_id: data.assetId }),
+      }),
     });
   }
 
-  // Upload an asset
-  async uploadAsset(file: File): Promise<{
-    asset: {
-      id: string;
-      name: string;
-      tags: string[];
-    };
-  }> {
-    const formData = new FormData();
-    formData.append('asset', file);
+  // Import a file (e.g. a PDF) as a new design
+  async createDesignImport(
+    file: Buffer,
+    metadata: { title: string; mimeType: string }
+  ): Promise<CanvaDesignImportJob> {
+    return this.request(CANVA_API_CONFIG.endpoints.imports.create, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Import-Metadata': JSON.stringify({
+          title_base64: Buffer.from(metadata.title).toString('base64'),
+          mime_type: metadata.mimeType,
+        }),
+      },
+      body: file,
+    });
+  }
 
-    return this.request('/assets/uploads', {
+  // Check design import status
+  async getDesignImportStatus(jobId: string): Promise<CanvaDesignImportJob> {
+    return this.request(CANVA_API_CONFIG.endpoints.imports.status.replace('{jobId}', jobId));
+  }
+
+  // Upload an asset to the user's Canva library
+  async uploadAsset(file: Buffer, name: string): Promise<CanvaAssetUploadJob> {
+    return this.request(CANVA_API_CONFIG.endpoints.assets.upload, {
       method: 'POST',
       headers: {
-        // Remove Content-Type to let browser set it with boundary
+        'Content-Type': 'application/octet-stream',
+        'Asset-Upload-Metadata': JSON.stringify({
+          name_base64: Buffer.from(name).toString('base64'),
+        }),
       },
-      body: formData,
+      body: file,
     });
   }
 
+  // Check asset upload status
+  async getAssetUploadStatus(jobId: string): Promise<CanvaAssetUploadJob> {
+    return this.request(CANVA_API_CONFIG.endpoints.assets.status.replace('{jobId}', jobId));
+  }
+
   // Parse design ID from various Canva URL formats
   static parseDesignId(url: string): string | null {
     const patterns = [
@@ -180,4 +228,50 @@ export class CanvaAPIClient {
 
     throw new CanvaAPIError('Export timeout', 408, 'TIMEOUT');
   }
+
+  // Helper to wait for an asset upload to finish processing
+  async waitForAssetUpload(jobId: string, maxAttempts = 30): Promise<CanvaAsset> {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const { job } = await this.getAssetUploadStatus(jobId);
+
+      if (job.status === 'success' && job.asset) {
+        return job.asset;
+      }
+
+      if (job.status === 'failed') {
+        throw new CanvaAPIError(
+          job.error?.message || 'Asset upload failed',
+          500,
+          job.error?.code || 'UPLOAD_FAILED'
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new CanvaAPIError('Asset upload timeout', 408, 'TIMEOUT');
+  }
+
+  // Helper to wait for a design import to finish
+  async waitForDesignImport(jobId: string, maxAttempts = 30): Promise<CanvaDesignSummary[]> {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const { job } = await this.getDesignImportStatus(jobId);
+
+      if (job.status === 'success' && job.result?.designs.length) {
+        return job.result.designs;
+      }
+
+      if (job.status === 'failed') {
+        throw new CanvaAPIError(
+          job.error?.message || 'Design import failed',
+          500,
+          job.error?.code || 'IMPORT_FAILED'
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new CanvaAPIError('Design import timeout', 408, 'TIMEOUT');
+  }
 }
\ No newline at end of file
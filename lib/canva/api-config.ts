@@ -6,23 +6,26 @@ export const CANVA_API_CONFIG = {
     clientId: process.env.NEXT_PUBLIC_CANVA_CLIENT_ID || '',
     clientSecret: process.env.CANVA_CLIENT_SECRET || '',
     redirectUri: process.env.NEXT_PUBLIC_CANVA_REDIRECT_URI || 'http://localhost:3000/api/canva/callback',
-    scopes: ['design:content:read', 'design:meta:read', 'asset:read'],
+    scopes: ['design:content:read', 'design:content:write', 'design:meta:read', 'asset:read', 'asset:write'],
   },
 
   // API Endpoints
   endpoints: {
-    base: 'https://api.canva.com/rest/v1',
+    // Overridable so the client can run against a local mock of the REST API
+    base: process.env.CANVA_API_BASE_URL || 'https://api.canva.com/rest/v1',
     designs: {
       list: '/designs',
       get: '/designs/{designId}',
+      create: '/designs',
       export: '/designs/{designId}/exports',
     },
     imports: {
       create: '/imports',
-      status: '/imports/{importId}',
+      status: '/imports/{jobId}',
     },
     assets: {
-      upload: '/assets/uploads',
+      upload: '/asset-uploads',
+      status: '/asset-uploads/{jobId}',
     },
   },
 
@@ -37,6 +40,12 @@ export const CANVA_API_CONFIG = {
     defaultFormat: 'png' as const,
   },
 
+  // Custom design sizes Canva accepts, in pixels
+  designSize: {
+    min: 40,
+    max: 8000,
+  },
+
   // Rate Limiting
   rateLimit: {
     maxRequestsPerMinute: 60,
@@ -83,6 +92,49 @@ export interface CanvaExportResponse {
   };
 }
 
+export type CanvaJobStatus = 'in_progress' | 'success' | 'failed';
+
+export interface CanvaJobError {
+  code: string;
+  message: string;
+}
+
+export interface CanvaAsset {
+  id: string;
+  name: string;
+  tags: string[];
+}
+
+export interface CanvaAssetUploadJob {
+  job: {
+    id: string;
+    status: CanvaJobStatus;
+    asset?: CanvaAsset;
+    error?: CanvaJobError;
+  };
+}
+
+// Designs as returned by the create and import endpoints
+export interface CanvaDesignSummary {
+  id: string;
+  title?: string;
+  urls: {
+    edit_url: string;
+    view_url: string;
+  };
+}
+
+export interface CanvaDesignImportJob {
+  job: {
+    id: string;
+    status: CanvaJobStatus;
+    result?: {
+      designs: CanvaDesignSummary[];
+    };
+    error?: CanvaJobError;
+  };
+}
+
 export interface CanvaAuthToken {
   access_token: string;
   token_type: string;
@@ -0,0 +1,126 @@
+import { CANVA_API_CONFIG, CanvaAuthToken, CanvaDesignSummary } from './api-config';
+import { CanvaAPIClient, CanvaAPIClientOptions, CanvaAPIError } from './api-client';
+import { CanvaOAuth } from './oauth';
+
+export type CanvaPublishStage = 'authorizing' | 'uploading' | 'processing' | 'creating-design';
+
+export interface CanvaPublishRequest {
+  userId: string;
+  title: string;
+  file: Buffer;
+  mimeType: string;
+  dimensions?: { width: number; height: number }; // pixels, for image files
+  onProgress?: (progress: number, stage: CanvaPublishStage) => void;
+}
+
+export interface CanvaPublishedDesign {
+  designId: string;
+  editUrl: string;
+  viewUrl: string;
+  assetId?: string;
+}
+
+/**
+ * Sends an enhanced document back to the user's Canva account as a new
+ * design. PDFs go through the design import API so every page is kept;
+ * images are uploaded as an asset and placed on a design of the same size.
+ */
+export class CanvaDesignPublisher {
+  constructor(private clientOptions: CanvaAPIClientOptions = {}) {}
+
+  async publish(request: CanvaPublishRequest): Promise<CanvaPublishedDesign> {
+    const report = request.onProgress || (() => {});
+
+    report(5, 'authorizing');
+    // getStoredToken refreshes tokens that have already expired
+    const token = await CanvaOAuth.getStoredToken(request.userId);
+    if (!token) {
+      throw new CanvaAPIError('Canva account is not connected', 401, 'NOT_CONNECTED');
+    }
+
+    const client = new CanvaAPIClient(token, this.clientOptions);
+    const call = this.withTokenRefresh(client, request.userId, token);
+
+    if (request.mimeType === 'application/pdf') {
+      report(20, 'uploading');
+      const { job } = await call(() =>
+        client.createDesignImport(request.file, {
+          title: request.title,
+          mimeType: request.mimeType,
+        })
+      );
+
+      report(50, 'processing');
+      const [design] = await call(() => client.waitForDesignImport(job.id));
+
+      report(100, 'creating-design');
+      return this.toPublishedDesign(design);
+    }
+
+    report(20, 'uploading');
+    const { job } = await call(() => client.uploadAsset(request.file, request.title));
+
+    report(50, 'processing');
+    const asset = await call(() => client.waitForAssetUpload(job.id));
+
+    report(80, 'creating-design');
+    const { width, height } = this.fitDesignSize(request.dimensions);
+    const { design } = await call(() =>
+      client.createDesign({ title: request.title, width, height, assetId: asset.id })
+    );
+
+    report(100, 'creating-design');
+    return { ...this.toPublishedDesign(design), assetId: asset.id };
+  }
+
+  /**
+   * Wraps API calls so a token Canva rejects mid-flow (revoked or expired
+   * early) is refreshed once and the call retried.
+   */
+  private withTokenRefresh(client: CanvaAPIClient, userId: string, token: CanvaAuthToken) {
+    let refreshed = false;
+
+    return async <T>(operation: () => Promise<T>): Promise<T> => {
+      try {
+        return await operation();
+      } catch (error) {
+        const unauthorized = error instanceof CanvaAPIError && error.statusCode === 401;
+        if (!unauthorized || refreshed || !token.refresh_token) {
+          throw error;
+        }
+
+        refreshed = true;
+        const newToken = await CanvaOAuth.refreshToken(token.refresh_token);
+        await CanvaOAuth.storeToken(userId, newToken);
+        client.setToken(newToken);
+
+        return operation();
+      }
+    };
+  }
+
+  private fitDesignSize(dimensions?: { width: number; height: number }): { width: number; height: number } {
+    const { min, max } = CANVA_API_CONFIG.designSize;
+    const width = dimensions?.width || 1920;
+    const height = dimensions?.height || 1080;
+
+    // Scale down to fit the largest side, then up to the smallest, keeping
+    // the aspect ratio wherever the limits allow
+    const shrink = Math.min(1, max / width, max / height);
+    const grow = Math.max(1, min / (width * shrink), min / (height * shrink));
+    const scale = shrink * grow;
+
+    return {
+      width: Math.min(max, Math.max(min, Math.round(width * scale))),
+      height: Math.min(max, Math.max(min, Math.round(height * scale))),
+    };
+  }
+
+  private toPublishedDesign(design: CanvaDesignSummary): CanvaPublishedDesign {
+    return {
+      designId: design.id,
+      editUrl: design.urls.edit_url,
+      viewUrl: design.urls.view_url,
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { CanvaAPIClient } from './api-client';
+import { CanvaOAuth } from './oauth';
+import { addCanvaSyncJob } from '@/lib/queue/queues';
+
+export interface LinkedDesign {
+  id: string;
+  userId: string;
+  documentId: string;
+  designId: string;
+  designUrl: string;
+  canvaUpdatedAt: string;
+  version: number;
+  status: 'idle' | 'syncing' | 'error';
+}
+
+interface LinkedDesignRow {
+  id: string;
+  user_id: string;
+  document_id: string;
+  design_id: string;
+  design_url: string;
+  canva_updated_at: string;
+  version: number;
+  status: LinkedDesign['status'];
+}
+
+export interface ChangedDesign {
+  linked: LinkedDesign;
+  updatedAt: string;
+}
+
+export interface DesignSyncSummary {
+  checked: number;
+  queued: number;
+  failed: number;
+}
+
+// listDesigns pages to walk per user before giving up on missing designs
+const MAX_LIST_PAGES = 10;
+const LIST_PAGE_SIZE = 100;
+
+export class CanvaDesignSync {
+  // Remember an imported design so later edits in Canva are picked up
+  static async linkDesign(params: {
+    userId: string;
+    documentId: string;
+    designId: string;
+    designUrl: string;
+    updatedAt: string;
+  }): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from('canva_linked_designs')
+      .upsert({
+        user_id: params.userId,
+        document_id: params.documentId,
+        design_id: params.designId,
+        design_url: params.designUrl,
+        canva_updated_at: params.updatedAt,
+        version: 1,
+        status: 'idle',
+        last_synced_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,design_id' });
+
+    if (error) {
+      throw new Error(`Failed to link design: ${error.message}`);
+    }
+  }
+
+  /**
+   * Polls Canva for every user with linked designs and queues a re-export
+   * and re-enhancement for each design edited since its last sync.
+   */
+  static async checkForChanges(): Promise<DesignSyncSummary> {
+    // Runs from cron across every user, so there's no session to scope reads to
+    const supabase = createServiceClient();
+    const summary: DesignSyncSummary = { checked: 0, queued: 0, failed: 0 };
+
+    // Designs already being synced are skipped until their job finishes
+    const { data, error } = await supabase
+      .from('canva_linked_designs')
+      .select('*')
+      .eq('sync_enabled', true)
+      .neq('status', 'syncing');
+
+    if (error || !data) {
+      console.error('Failed to load linked designs:', error);
+      return summary;
+    }
+
+    const byUser = new Map<string, LinkedDesign[]>();
+    for (const row of data) {
+      const linked = this.toLinkedDesign(row as LinkedDesignRow);
+      byUser.set(linked.userId, [...(byUser.get(linked.userId) || []), linked]);
+    }
+
+    for (const [userId, designs] of byUser) {
+      summary.checked += designs.length;
+
+      try {
+        const token = await CanvaOAuth.getStoredToken(userId, supabase);
+        if (!token) {
+          await this.markError(designs, 'Canva account is not connected');
+          summary.failed += designs.length;
+          continue;
+        }
+
+        const changed = await this.findChangedDesigns(new CanvaAPIClient(token), designs);
+
+        for (const { linked, updatedAt } of changed) {
+          await addCanvaSyncJob({
+            linkedDesignId: linked.id,
+            userId,
+            designId: linked.designId,
+            previousDocumentId: linked.documentId,
+            version: linked.version + 1,
+            updatedAt,
+          });
+
+          await supabase
+            .from('canva_linked_designs')
+            .update({ status: 'syncing', last_error: null })
+            .eq('id', linked.id);
+
+          summary.queued++;
+        }
+
+        await supabase
+          .from('canva_linked_designs')
+          .update({ last_checked_at: new Date().toISOString() })
+          .in('id', designs.map(d => d.id));
+      } catch (error) {
+        console.error(`Failed to check Canva designs for user ${userId}:`, error);
+        await this.markError(designs, error instanceof Error ? error.message : 'Sync check failed');
+        summary.failed += designs.length;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Walks the user's design list until every linked design has been seen
+   * and returns those edited after their last synced `updated_at`.
+   */
+  static async findChangedDesigns(
+    client: CanvaAPIClient,
+    linked: LinkedDesign[]
+  ): Promise<ChangedDesign[]> {
+    const pending = new Map(linked.map(design => [design.designId, design]));
+    const changed: ChangedDesign[] = [];
+    let continuation: string | undefined;
+
+    for (let page = 0; page < MAX_LIST_PAGES && pending.size > 0; page++) {
+      const result = await client.listDesigns(LIST_PAGE_SIZE, continuation);
+
+      for (const design of result.designs) {
+        const match = pending.get(design.id);
+        if (!match) continue;
+
+        pending.delete(design.id);
+        if (this.hasChanged(match, design.updatedAt)) {
+          changed.push({ linked: match, updatedAt: design.updatedAt });
+        }
+      }
+
+      continuation = result.continuation;
+      if (!continuation) break;
+    }
+
+    return changed;
+  }
+
+  static hasChanged(linked: LinkedDesign, remoteUpdatedAt: string): boolean {
+    const remote = new Date(remoteUpdatedAt).getTime();
+    return Number.isFinite(remote) && remote > new Date(linked.canvaUpdatedAt).getTime();
+  }
+
+  private static async markError(designs: LinkedDesign[], message: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    await supabase
+      .from('canva_linked_designs')
+      .update({ status: 'error', last_error: message, last_checked_at: new Date().toISOString() })
+      .in('id', designs.map(d => d.id));
+  }
+
+  private static toLinkedDesign(row: LinkedDesignRow): LinkedDesign {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id,
+      designId: row.design_id,
+      designUrl: row.design_url,
+      canvaUpdatedAt: row.canva_updated_at,
+      version: row.version,
+      status: row.status,
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { CANVA_API_CONFIG, CanvaAuthToken } from './api-config';
 import { createClient } from '@/lib/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
 
 export class CanvaOAuth {
   // Generate OAuth authorization URL
@@ -72,9 +74,10 @@ export class CanvaOAuth {
     };
   }
 
-  // Store token in database
-  static async storeToken(userId: string, token: CanvaAuthToken) {
-    const supabase = await createClient();
+  // Store token in database. Background jobs have no session, so they pass
+  // the service client.
+  static async storeToken(userId: string, token: CanvaAuthToken, db?: SupabaseClient<Database>) {
+    const supabase = db || await createClient();
     
     const { error } = await supabase
       .from('canva_tokens')
@@ -93,8 +96,8 @@ export class CanvaOAuth {
   }
 
   // Retrieve token from database
-  static async getStoredToken(userId: string): Promise<CanvaAuthToken | null> {
-    const supabase = await createClient();
+  static async getStoredToken(userId: string, db?: SupabaseClient<Database>): Promise<CanvaAuthToken | null> {
+    const supabase = db || await createClient();
     
     const { data, error } = await supabase
       .from('canva_tokens')
@@ -114,7 +117,7 @@ export class CanvaOAuth {
       // Try to refresh the token
       try {
         const newToken = await this.refreshToken(data.refresh_token);
-        await this.storeToken(userId, newToken);
+        await this.storeToken(userId, newToken, db);
         return newToken;
       } catch (error) {
         console.error('Failed to refresh token:', error);
@@ -128,7 +131,8 @@ export class CanvaOAuth {
       expires_in: Math.floor((expiresAt - now) / 1000),
       refresh_token: data.refresh_token,
       scope: data.scope,
-      created_at: new Date(data.updated_at).getTime(),
+      // expires_in counts from now, so the token's clock starts now too
+      created_at: now,
     };
   }
 
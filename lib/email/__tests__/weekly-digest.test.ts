@@ -0,0 +1,113 @@
+/** @jest-environment node */
+import { WeeklyDigest, DigestEnhancementRow } from '../weekly-digest'
+import { createServiceClient } from '@/lib/supabase/service'
+import { addEmailJobs } from '@/lib/queue/queues'
+
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }))
+jest.mock('@/lib/supabase/client', () => ({ createClient: jest.fn() }))
+jest.mock('@/lib/queue/queues', () => ({
+  addEmailJobs: jest.fn()
+}))
+jest.mock('@/lib/queue/config', () => ({
+  PRIORITY_LEVELS: { LOW: 10 }
+}))
+
+const user = {
+  id: 'user-1',
+  email: 'sam@example.com',
+  name: null,
+  usage_count: 7,
+  monthly_credits: 10
+}
+
+const enhancement = (id: string, createdAt: string, improvement: number | null): DigestEnhancementRow => ({
+  id,
+  user_id: 'user-1',
+  quality_improvement: improvement,
+  created_at: createdAt,
+  documents: { name: `Worksheet ${id}` }
+})
+
+describe('WeeklyDigest.buildDigest', () => {
+  const now = new Date('2026-10-26T09:00:00Z')
+  const since = new Date('2026-10-19T09:00:00Z')
+
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com'
+  })
+
+  it('summarises the week\'s enhancements and credits', () => {
+    const digest = WeeklyDigest.buildDigest(user, [
+      enhancement('a', '2026-10-20T10:00:00Z', 20),
+      enhancement('b', '2026-10-24T10:00:00Z', 31),
+      enhancement('c', '2026-10-22T10:00:00Z', null)
+    ], since, now)!
+
+    expect(digest.userName).toBe('sam')
+    expect(digest.enhancementCount).toBe(3)
+    expect(digest.averageImprovement).toBe(26)
+    expect(digest.creditsRemaining).toBe(3)
+    expect(digest.enhancements.map(e => e.documentName)).toEqual(['Worksheet b', 'Worksheet c', 'Worksheet a'])
+    expect(digest.enhancements[0].url).toBe('https://app.example.com/results/b')
+  })
+
+  it('links to an unsubscribe token for the weekly digest only', () => {
+    const digest = WeeklyDigest.buildDigest(user, [enhancement('a', '2026-10-20T10:00:00Z', 20)], since, now)!
+    const url = new URL(digest.unsubscribeUrl)
+
+    expect(url.pathname).toBe('/api/email/unsubscribe')
+    expect(url.searchParams.get('type')).toBe('weekly-digest')
+    expect(Buffer.from(url.searchParams.get('token')!, 'base64url').toString()).toMatch(/^user-1:weekly-digest:/)
+  })
+
+  it('skips a quiet week with nothing new to announce', () => {
+    expect(WeeklyDigest.buildDigest(user, [], new Date('2030-01-01'), new Date('2030-01-08'))).toBeNull()
+  })
+})
+
+describe('WeeklyDigest.sendAll', () => {
+  const now = new Date('2026-10-26T09:00:00Z')
+  const users = [
+    { id: 'user-1', email: 'sam@example.com', name: 'Sam', subscription_tier: 'free', usage_count: 2 },
+    { id: 'user-2', email: 'alex@example.com', name: 'Alex', subscription_tier: 'pro', usage_count: 0 }
+  ]
+  let enhancementUserIds: string[]
+
+  // Resolves each chain to the rows for its table; only user-2 has a preferences row
+  function query(table: string) {
+    const rows: Record<string, unknown[]> = {
+      email_preferences: [{ user_id: 'user-2' }],
+      subscription_limits: [{ tier: 'free', monthly_credits: 10 }],
+      users,
+      enhancements: [enhancement('a', '2026-10-24T10:00:00Z', 30)]
+    }
+    const chain = {
+      select: () => chain,
+      eq: () => chain,
+      order: () => chain,
+      gte: () => chain,
+      range: () => chain,
+      in: (_column: string, ids: string[]) => {
+        enhancementUserIds = ids
+        return chain
+      },
+      then: (resolve: (value: unknown) => void) => resolve({ data: rows[table], error: null })
+    }
+    return chain
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(createServiceClient as jest.Mock).mockReturnValue({ from: query })
+  })
+
+  it('includes users who never saved preferences and leaves out those who opted out', async () => {
+    const summary = await WeeklyDigest.sendAll(now)
+
+    expect(enhancementUserIds).toEqual(['user-1'])
+    expect(addEmailJobs).toHaveBeenCalledWith([
+      expect.objectContaining({ to: 'sam@example.com', template: 'weekly-digest' })
+    ])
+    expect(summary).toEqual({ users: 1, queued: 1, skipped: 0, failed: 0 })
+  })
+})
@@ -12,6 +12,7 @@ import EnhancementCompletedEmail from './templates/enhancement-completed'
 import WelcomeEmail from './templates/welcome'
 import PasswordResetEmail from './templates/password-reset'
 import SubscriptionCreatedEmail from './templates/subscription-created'
+import UsageLimitWarningEmail from './templates/usage-limit-warning'
 
 export class EmailService {
   private static async checkEmailPreferences(
@@ -299,6 +300,72 @@ export class EmailService {
     }
   }
 
+  static async sendUsageLimitWarningEmail(
+    userId: string,
+    data: {
+      userName: string
+      userEmail: string
+      threshold: number
+      usedCredits: number
+      monthlyCredits: number
+      resetDate?: Date
+      upgradeUrl?: string
+      upgradePlanName?: string
+    }
+  ): Promise<EmailDeliveryResult> {
+    const canSend = await this.checkEmailPreferences(userId, 'usage-limit-warning')
+    if (!canSend) {
+      return { id: '', success: true }
+    }
+
+    if (!resend) {
+      console.log('Email service not configured. Would send usage limit warning email to:', data.userEmail)
+      return { id: `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, success: true }
+    }
+
+    try {
+      const html = await render(UsageLimitWarningEmail(data))
+
+      const result = await resend.emails.send({
+        from: FROM_EMAIL,
+        to: data.userEmail,
+        subject: data.threshold >= 100
+          ? 'You\'ve used all of your monthly credits'
+          : `You've used ${data.threshold}% of your monthly credits`,
+        html,
+        replyTo: REPLY_TO_EMAIL,
+        tags: [
+          { name: 'type', value: 'usage-limit-warning' },
+          { name: 'user_id', value: userId },
+          { name: 'threshold', value: String(data.threshold) },
+        ],
+      })
+
+      await this.logEmailDelivery(
+        userId,
+        'usage-limit-warning',
+        data.userEmail,
+        true,
+        (result as any).data?.id || (result as any).id
+      )
+
+      return { id: (result as any).data?.id || (result as any).id || '', success: true }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+      await this.logEmailDelivery(
+        userId,
+        'usage-limit-warning',
+        data.userEmail,
+        false,
+        undefined,
+        errorMessage
+      )
+
+      return { id: '', success: false, error: errorMessage }
+    }
+  }
+
   static async sendBulkEmail(
     recipients: EmailRecipient[],
     emailType: EmailTemplateType,
@@ -0,0 +1,143 @@
+import {
+  Button,
+  Heading,
+  Section,
+  Text,
+} from '@react-email/components'
+import * as React from 'react'
+import BaseEmailTemplate from './base-template'
+
+interface UsageLimitWarningEmailProps {
+  userName: string
+  threshold: number // percent of monthly credits crossed
+  usedCredits: number
+  monthlyCredits: number
+  resetDate?: Date
+  upgradeUrl?: string
+  upgradePlanName?: string
+}
+
+export const UsageLimitWarningEmail: React.FC<UsageLimitWarningEmailProps> = ({
+  userName,
+  threshold,
+  usedCredits,
+  monthlyCredits,
+  resetDate,
+  upgradeUrl,
+  upgradePlanName,
+}) => {
+  const exhausted = threshold >= 100
+  const remaining = Math.max(0, monthlyCredits - usedCredits)
+  const previewText = exhausted
+    ? 'You\'ve used all of your credits for this month'
+    : `You've used ${threshold}% of your credits for this month`
+  const percentUsed = Math.min(100, Math.round((usedCredits / monthlyCredits) * 100))
+
+  return (
+    <BaseEmailTemplate previewText={previewText}>
+      <Section style={content}>
+        <Heading style={heading}>
+          {exhausted ? 'You\'re out of credits' : 'You\'re running low on credits'}
+        </Heading>
+
+        <Text style={paragraph}>
+          Hi {userName},
+        </Text>
+
+        <Text style={paragraph}>
+          {exhausted
+            ? <>You&apos;ve used all {monthlyCredits} of your monthly credits, so new enhancements are paused until your credits reset.</>
+            : <>You&apos;ve used {usedCredits} of your {monthlyCredits} monthly credits. You have {remaining} {remaining === 1 ? 'credit' : 'credits'} left.</>}
+        </Text>
+
+        <Section style={meterTrack}>
+          <div style={{ ...meterFill, width: `${percentUsed}%`, backgroundColor: exhausted ? '#dc2626' : '#f59e0b' }} />
+        </Section>
+
+        {resetDate && (
+          <Text style={resetText}>
+            Your credits reset on {resetDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}.
+          </Text>
+        )}
+
+        {upgradeUrl && (
+          <Section style={buttonSection}>
+            <Button style={button} href={upgradeUrl}>
+              Upgrade to {upgradePlanName || 'a larger plan'}
+            </Button>
+          </Section>
+        )}
+
+        <Text style={signOff}>
+          Happy designing!<br />
+          The BeautifyAI Team
+        </Text>
+      </Section>
+    </BaseEmailTemplate>
+  )
+}
+
+// Styles
+const content = {
+  padding: '0 20px',
+}
+
+const heading = {
+  fontSize: '28px',
+  fontWeight: '700',
+  color: '#1a1a1a',
+  textAlign: 'center' as const,
+  margin: '30px 0',
+}
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '26px',
+  color: '#404040',
+  margin: '16px 0',
+}
+
+const meterTrack = {
+  backgroundColor: '#e5e7eb',
+  borderRadius: '6px',
+  height: '12px',
+  margin: '24px 0 8px',
+  overflow: 'hidden' as const,
+}
+
+const meterFill = {
+  height: '12px',
+  borderRadius: '6px',
+}
+
+const resetText = {
+  fontSize: '14px',
+  color: '#666',
+  margin: '8px 0 0',
+}
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+}
+
+const button = {
+  backgroundColor: '#6366f1',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: '600',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '12px 32px',
+}
+
+const signOff = {
+  fontSize: '16px',
+  lineHeight: '26px',
+  color: '#404040',
+  margin: '24px 0 0',
+}
+
+export default UsageLimitWarningEmail
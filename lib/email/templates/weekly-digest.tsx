@@ -0,0 +1,258 @@
+import {
+  Button,
+  Column,
+  Heading,
+  Hr,
+  Link,
+  Row,
+  Section,
+  Text,
+} from '@react-email/components'
+import * as React from 'react'
+import BaseEmailTemplate from './base-template'
+import type { WeeklyDigestData } from '../types'
+
+export const WeeklyDigestEmail: React.FC<WeeklyDigestData> = ({
+  userName,
+  periodStart,
+  periodEnd,
+  enhancementCount,
+  enhancements,
+  averageImprovement,
+  creditsRemaining,
+  monthlyCredits,
+  newFeatures,
+  dashboardUrl,
+  unsubscribeUrl,
+}) => {
+  const period = `${formatDate(periodStart)} – ${formatDate(periodEnd)}`
+  const previewText = enhancementCount > 0
+    ? `You enhanced ${enhancementCount} ${enhancementCount === 1 ? 'document' : 'documents'} this week`
+    : 'What\'s new at BeautifyAI this week'
+  const unlisted = enhancementCount - enhancements.length
+
+  return (
+    <BaseEmailTemplate
+      previewText={previewText}
+      footerUnsubscribeUrl={unsubscribeUrl}
+    >
+      <Section style={content}>
+        <Heading style={heading}>
+          Your week on BeautifyAI
+        </Heading>
+
+        <Text style={periodText}>{period}</Text>
+
+        <Text style={paragraph}>
+          Hi {userName},
+        </Text>
+
+        <Section style={statsSection}>
+          <Row>
+            <Column style={statColumn}>
+              <Text style={statValue}>{enhancementCount}</Text>
+              <Text style={statLabel}>Enhancements</Text>
+            </Column>
+            <Column style={statColumn}>
+              <Text style={statValue}>
+                {averageImprovement !== null ? `+${averageImprovement}` : '–'}
+              </Text>
+              <Text style={statLabel}>Avg. Score Improvement</Text>
+            </Column>
+            <Column style={statColumn}>
+              <Text style={statValue}>{creditsRemaining}</Text>
+              <Text style={statLabel}>Credits Left of {monthlyCredits}</Text>
+            </Column>
+          </Row>
+        </Section>
+
+        {enhancements.length > 0 && (
+          <Section>
+            <Heading as="h2" style={subheading}>
+              This week&apos;s enhancements
+            </Heading>
+            {enhancements.map(enhancement => (
+              <Row key={enhancement.url} style={listRow}>
+                <Column>
+                  <Link href={enhancement.url} style={listLink}>
+                    {enhancement.documentName}
+                  </Link>
+                  <Text style={listMeta}>{formatDate(enhancement.createdAt)}</Text>
+                </Column>
+                <Column style={scoreColumn}>
+                  {enhancement.improvement !== null && (
+                    <Text style={scoreText}>+{Math.round(enhancement.improvement)}</Text>
+                  )}
+                </Column>
+              </Row>
+            ))}
+            {unlisted > 0 && (
+              <Text style={listMeta}>
+                and {unlisted} more on your dashboard
+              </Text>
+            )}
+          </Section>
+        )}
+
+        {newFeatures.length > 0 && (
+          <>
+            <Hr style={divider} />
+            <Heading as="h2" style={subheading}>
+              New this week
+            </Heading>
+            {newFeatures.map(feature => (
+              <Text key={feature.title} style={featureText}>
+                <strong>
+                  {feature.url ? <Link href={feature.url} style={listLink}>{feature.title}</Link> : feature.title}
+                </strong>
+                <br />
+                {feature.description}
+              </Text>
+            ))}
+          </>
+        )}
+
+        <Section style={buttonSection}>
+          <Button style={button} href={dashboardUrl}>
+            Go to Dashboard
+          </Button>
+        </Section>
+
+        <Text style={signOff}>
+          Happy designing!<br />
+          The BeautifyAI Team
+        </Text>
+      </Section>
+    </BaseEmailTemplate>
+  )
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+// Styles
+const content = {
+  padding: '0 20px',
+}
+
+const heading = {
+  fontSize: '28px',
+  fontWeight: '700',
+  color: '#1a1a1a',
+  textAlign: 'center' as const,
+  margin: '30px 0 8px',
+}
+
+const periodText = {
+  fontSize: '14px',
+  color: '#666',
+  textAlign: 'center' as const,
+  margin: '0 0 24px',
+}
+
+const subheading = {
+  fontSize: '20px',
+  fontWeight: '600',
+  color: '#1a1a1a',
+  margin: '24px 0 12px',
+}
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '26px',
+  color: '#404040',
+  margin: '16px 0',
+}
+
+const statsSection = {
+  margin: '24px 0',
+  backgroundColor: '#f9fafb',
+  borderRadius: '8px',
+  padding: '24px',
+}
+
+const statColumn = {
+  width: '33%',
+  textAlign: 'center' as const,
+}
+
+const statValue = {
+  fontSize: '28px',
+  fontWeight: '700',
+  color: '#6366f1',
+  margin: '0',
+}
+
+const statLabel = {
+  fontSize: '13px',
+  color: '#666',
+  margin: '4px 0 0',
+}
+
+const listRow = {
+  borderBottom: '1px solid #e5e7eb',
+  padding: '8px 0',
+}
+
+const listLink = {
+  fontSize: '15px',
+  color: '#6366f1',
+  textDecoration: 'none',
+}
+
+const listMeta = {
+  fontSize: '13px',
+  color: '#666',
+  margin: '2px 0 0',
+}
+
+const scoreColumn = {
+  width: '60px',
+  textAlign: 'right' as const,
+}
+
+const scoreText = {
+  fontSize: '15px',
+  fontWeight: '600',
+  color: '#16a34a',
+  margin: '0',
+}
+
+const featureText = {
+  fontSize: '15px',
+  lineHeight: '24px',
+  color: '#525252',
+  margin: '12px 0',
+}
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+}
+
+const button = {
+  backgroundColor: '#6366f1',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: '600',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '12px 32px',
+}
+
+const divider = {
+  borderColor: '#e5e7eb',
+  margin: '32px 0 0',
+}
+
+const signOff = {
+  fontSize: '16px',
+  lineHeight: '26px',
+  color: '#404040',
+  margin: '24px 0 0',
+}
+
+export default WeeklyDigestEmail
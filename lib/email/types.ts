@@ -41,4 +41,31 @@ export type EmailTemplateType =
   | 'subscription-cancelled'
   | 'subscription-renewed'
   | 'usage-limit-warning'
-  | 'weekly-digest'
\ No newline at end of file
+  | 'weekly-digest'
+
+export interface WeeklyDigestEnhancement {
+  documentName: string
+  improvement: number | null // quality score points gained
+  url: string
+  createdAt: string
+}
+
+export interface WeeklyDigestFeature {
+  title: string
+  description: string
+  url?: string
+}
+
+export interface WeeklyDigestData {
+  userName: string
+  periodStart: string
+  periodEnd: string
+  enhancementCount: number
+  enhancements: WeeklyDigestEnhancement[] // most recent first, capped for the email
+  averageImprovement: number | null
+  creditsRemaining: number
+  monthlyCredits: number
+  newFeatures: WeeklyDigestFeature[]
+  dashboardUrl: string
+  unsubscribeUrl: string
+}
@@ -0,0 +1,232 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { addEmailJobs } from '@/lib/queue/queues'
+import { PRIORITY_LEVELS } from '@/lib/queue/config'
+import type { EmailJobData } from '@/lib/queue/types'
+import { EmailPreferencesManager } from './preferences'
+import type { WeeklyDigestData, WeeklyDigestFeature } from './types'
+
+export interface WeeklyDigestSummary {
+  users: number
+  queued: number
+  skipped: number // nothing to report this week
+  failed: number
+}
+
+export interface DigestUser {
+  id: string
+  email: string
+  name: string | null
+  usage_count: number | null
+  monthly_credits: number
+}
+
+export interface DigestEnhancementRow {
+  id: string
+  user_id: string
+  quality_improvement: number | null
+  created_at: string
+  documents: { name: string | null } | null
+}
+
+interface ReleasedFeature extends WeeklyDigestFeature {
+  releasedAt: string
+}
+
+// Announced in the digest for the week after release. Add new entries at
+// the top.
+export const RELEASED_FEATURES: ReleasedFeature[] = [
+  {
+    title: 'Reading level check',
+    description: 'Worksheets are scored against your chosen grade band, with suggestions for long sentences, hard words and small text.',
+    releasedAt: '2026-10-19'
+  },
+  {
+    title: 'Subject-aware graphics',
+    description: 'Backgrounds and illustrations now match what your document is about, read from its text.',
+    releasedAt: '2026-10-16'
+  },
+  {
+    title: 'Print-ready PDF export',
+    description: 'Export with bleed, crop marks and CMYK colour for professional printing.',
+    releasedAt: '2026-10-13'
+  }
+]
+
+const DIGEST_PERIOD_DAYS = 7
+// Users loaded and emails queued per round trip
+const BATCH_SIZE = 100
+// Enhancements listed in the email; the rest are counted
+const MAX_LISTED_ENHANCEMENTS = 5
+const DEFAULT_MONTHLY_CREDITS = 10
+
+export class WeeklyDigest {
+  /**
+   * Queues a digest of the past week for every user who hasn't turned the
+   * weekly digest off, including users who never saved their preferences.
+   * Users with no enhancements and no new features to announce are skipped.
+   */
+  static async sendAll(now: Date = new Date()): Promise<WeeklyDigestSummary> {
+    // Runs from cron for every user, so there's no session to scope reads to
+    const supabase = createServiceClient()
+    const summary: WeeklyDigestSummary = { users: 0, queued: 0, skipped: 0, failed: 0 }
+    const since = new Date(now.getTime() - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+
+    // Users without a preferences row get the default, which is subscribed,
+    // so walk every user and leave out only those who opted out
+    const { data: optOuts, error } = await supabase
+      .from('email_preferences')
+      .select('user_id')
+      .eq('weekly_digest', false)
+
+    if (error || !optOuts) {
+      console.error('Failed to load weekly digest opt-outs:', error)
+      return summary
+    }
+
+    const optedOut = new Set((optOuts as Array<{ user_id: string }>).map(preference => preference.user_id))
+
+    const { data: limits } = await supabase
+      .from('subscription_limits')
+      .select('tier, monthly_credits')
+    const creditsByTier = new Map<string, number>(
+      ((limits || []) as Array<{ tier: string; monthly_credits: number }>)
+        .map(limit => [limit.tier, limit.monthly_credits])
+    )
+
+    for (let i = 0, more = true; more; i += BATCH_SIZE) {
+      const { data: page, error: usersError } = await supabase
+        .from('users')
+        .select('id, email, name, subscription_tier, usage_count')
+        .order('id')
+        .range(i, i + BATCH_SIZE - 1)
+
+      if (usersError || !page) {
+        console.error(`Failed to load weekly digest users starting at ${i}:`, usersError)
+        break
+      }
+      more = page.length === BATCH_SIZE
+
+      const users = page.filter(user => !optedOut.has(user.id))
+      summary.users += users.length
+      if (users.length === 0) {
+        continue
+      }
+
+      try {
+        const { data: enhancements, error: enhancementsError } = await supabase
+          .from('enhancements')
+          .select(`
+            id,
+            user_id,
+            quality_improvement,
+            created_at,
+            documents (
+              name
+            )
+          `)
+          .in('user_id', users.map(user => user.id))
+          .gte('created_at', since.toISOString())
+          .order('created_at', { ascending: false })
+
+        if (enhancementsError) {
+          throw new Error(enhancementsError.message)
+        }
+
+        const byUser = new Map<string, DigestEnhancementRow[]>()
+        for (const row of (enhancements || []) as unknown as DigestEnhancementRow[]) {
+          byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row])
+        }
+
+        const jobs: EmailJobData[] = []
+        for (const user of users) {
+          const digest = this.buildDigest(
+            {
+              ...user,
+              monthly_credits: creditsByTier.get(user.subscription_tier) ?? DEFAULT_MONTHLY_CREDITS
+            },
+            byUser.get(user.id) || [],
+            since,
+            now
+          )
+
+          if (!digest) {
+            summary.skipped++
+            continue
+          }
+
+          jobs.push({
+            to: user.email,
+            subject: 'Your week on BeautifyAI',
+            template: 'weekly-digest',
+            data: { digest },
+            priority: PRIORITY_LEVELS.LOW
+          })
+        }
+
+        if (jobs.length > 0) {
+          await addEmailJobs(jobs)
+          summary.queued += jobs.length
+        }
+      } catch (error) {
+        console.error(`Failed to queue weekly digest batch starting at ${i}:`, error)
+        summary.failed += users.length
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Summarises one user's week, or returns null when there's nothing to
+   * tell them
+   */
+  static buildDigest(
+    user: DigestUser,
+    enhancements: DigestEnhancementRow[],
+    since: Date,
+    now: Date
+  ): WeeklyDigestData | null {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+    const newFeatures = RELEASED_FEATURES
+      .filter(feature => {
+        const released = new Date(feature.releasedAt)
+        return released >= since && released <= now
+      })
+      .map(({ title, description, url }) => ({ title, description, url }))
+
+    if (enhancements.length === 0 && newFeatures.length === 0) {
+      return null
+    }
+
+    const scored = enhancements
+      .map(enhancement => enhancement.quality_improvement)
+      .filter((score): score is number => typeof score === 'number')
+    const averageImprovement = scored.length > 0
+      ? Math.round(scored.reduce((sum, score) => sum + score, 0) / scored.length)
+      : null
+
+    const token = EmailPreferencesManager.generateUnsubscribeToken(user.id, 'weekly-digest')
+
+    return {
+      userName: user.name || user.email.split('@')[0],
+      periodStart: since.toISOString(),
+      periodEnd: now.toISOString(),
+      enhancementCount: enhancements.length,
+      enhancements: [...enhancements]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, MAX_LISTED_ENHANCEMENTS)
+        .map(enhancement => ({
+          documentName: enhancement.documents?.name || 'Untitled document',
+          improvement: enhancement.quality_improvement,
+          url: `${appUrl}/results/${enhancement.id}`,
+          createdAt: enhancement.created_at
+        })),
+      averageImprovement,
+      creditsRemaining: Math.max(0, user.monthly_credits - (user.usage_count || 0)),
+      monthlyCredits: user.monthly_credits,
+      newFeatures,
+      dashboardUrl: `${appUrl}/dashboard`,
+      unsubscribeUrl: `${appUrl}/api/email/unsubscribe?token=${token}&type=weekly-digest`
+    }
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { EnhancementApplicator } from '../enhancement-applicator'
+import { EnhancementStrategy } from '../types'
+import { downloadDocument, uploadFile } from '@/lib/r2'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+import { ocrService, OCRResult } from '@/lib/ocr'
+
+// jest.setup.js stubs sharp globally; these tests check real pixels
+jest.unmock('sharp')
+jest.mock('@/lib/r2', () => ({
+  downloadDocument: jest.fn(),
+  uploadFile: jest.fn()
+}))
+jest.mock('@/lib/utils/pdf-rasterizer', () => ({
+  rasterizePDF: jest.fn()
+}))
+jest.mock('@/lib/ocr', () => ({
+  ocrService: { recognize: jest.fn() }
+}))
+
+const mockDownloadDocument = downloadDocument as jest.MockedFunction<typeof downloadDocument>
+const mockUploadFile = uploadFile as jest.MockedFunction<typeof uploadFile>
+const mockRasterizePDF = rasterizePDF as jest.MockedFunction<typeof rasterizePDF>
+const mockRecognize = ocrService.recognize as jest.MockedFunction<typeof ocrService.recognize>
+
+async function createDocument(): Promise<Buffer> {
+  // White page with a red block in the middle
+  const block = await sharp({
+    create: { width: 40, height: 40, channels: 3, background: '#ff0000' }
+  }).png().toBuffer()
+
+  return sharp({
+    create: { width: 200, height: 200, channels: 3, background: '#ffffff' }
+  })
+    .composite([{ input: block, left: 80, top: 80 }])
+    .png()
+    .toBuffer()
+}
+
+function ocrLine(confidence: number): OCRResult {
+  // Covers the red block, which stands in for a line of text
+  const line = { text: 'Fractions <Part 1>', confidence, bbox: { x: 80, y: 80, width: 40, height: 40 }, words: [] }
+  return { text: line.text, confidence, width: 200, height: 200, blocks: [], lines: [line], words: [] }
+}
+
+async function countPixels(image: Buffer, matches: (r: number, g: number, b: number) => boolean): Promise<number> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true })
+  let count = 0
+  for (let i = 0; i < data.length; i += info.channels) {
+    if (matches(data[i], data[i + 1], data[i + 2])) count++
+  }
+  return count
+}
+
+const isRed = (r: number, g: number, b: number) => r > 200 && g < 60 && b < 60
+const isInk = (r: number, g: number, b: number) => r < 100 && g < 100 && b < 100
+
+async function pixelAt(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true })
+  const offset = (y * info.width + x) * info.channels
+  return [data[offset], data[offset + 1], data[offset + 2]]
+}
+
+describe('EnhancementApplicator', () => {
+  let applicator: EnhancementApplicator
+  let document: Buffer
+
+  const colorStrategy: EnhancementStrategy = {
+    id: 'color-1',
+    name: 'Recolor',
+    description: 'Swap primary colour',
+    priority: 'high',
+    impact: 60,
+    changes: {
+      colors: {
+        palette: {
+          primary: '#0000ff',
+          secondary: [],
+          accent: '#00ff00',
+          background: '#ffffff',
+          text: '#000000'
+        },
+        adjustments: { contrast: 1, saturation: 1, brightness: 1 },
+        replacements: new Map([['#ff0000', '#0000ff']])
+      }
+    }
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    applicator = new EnhancementApplicator()
+    document = await createDocument()
+  })
+
+  describe('render', () => {
+    it('replaces palette colours', async () => {
+      const result = await applicator.render(document, [colorStrategy])
+
+      expect(await pixelAt(result, 100, 100)).toEqual([0, 0, 255])
+      expect(await pixelAt(result, 10, 10)).toEqual([255, 255, 255])
+    })
+
+    it('accepts replacements serialized as plain objects', async () => {
+      const serialized = JSON.parse(JSON.stringify({
+        ...colorStrategy,
+        changes: {
+          colors: {
+            ...colorStrategy.changes.colors,
+            replacements: { '#ff0000': '#0000ff' }
+          }
+        }
+      }))
+
+      const result = await applicator.render(document, [serialized])
+
+      expect(await pixelAt(result, 100, 100)).toEqual([0, 0, 255])
+    })
+
+    it('tints the page with a solid background while keeping content', async () => {
+      const result = await applicator.render(document, [{
+        id: 'bg-1',
+        name: 'Background',
+        description: 'Solid background',
+        priority: 'medium',
+        impact: 40,
+        changes: { background: { type: 'solid', value: '#eeeeff' } }
+      }])
+
+      expect(await pixelAt(result, 10, 10)).toEqual([238, 238, 255])
+      expect(await pixelAt(result, 100, 100)).toEqual([238, 0, 0])
+    })
+
+    it('insets content by the layout margin and keeps the page size', async () => {
+      const result = await applicator.render(document, [{
+        id: 'layout-1',
+        name: 'Spacing',
+        description: 'More margin',
+        priority: 'medium',
+        impact: 40,
+        changes: {
+          layout: {
+            grid: { columns: 12, rows: 1, gutters: 20, margins: 20 },
+            spacing: { sections: 40, elements: 16, padding: 10 },
+            alignment: 'left',
+            hierarchy: { levels: 3, emphasis: new Map() }
+          }
+        }
+      }])
+
+      const metadata = await sharp(result).metadata()
+      expect(metadata.width).toBe(200)
+      expect(metadata.height).toBe(200)
+      // The red block shrinks toward the centre, so its old edge is now white
+      expect(await pixelAt(result, 81, 81)).toEqual([255, 255, 255])
+      expect(await pixelAt(result, 100, 100)).toEqual([255, 0, 0])
+    })
+
+    it('draws decorative elements at percentage positions', async () => {
+      const result = await applicator.render(document, [{
+        id: 'deco-1',
+        name: 'Decorations',
+        description: 'Badge',
+        priority: 'low',
+        impact: 30,
+        changes: {
+          decorativeElements: [{
+            type: 'shape',
+            position: { x: 0, y: 0 },
+            size: { width: 20, height: 20 },
+            style: { shape: 'rectangle', fill: '#00ff00', opacity: 1 },
+            purpose: 'emphasis'
+          }]
+        }
+      }])
+
+      expect(await pixelAt(result, 10, 10)).toEqual([0, 255, 0])
+    })
+
+    describe('typography', () => {
+      const typographyStrategy: EnhancementStrategy = {
+        id: 'type-1',
+        name: 'Typography',
+        description: 'Readable fonts',
+        priority: 'high',
+        impact: 50,
+        changes: {
+          typography: {
+            fonts: { heading: 'Georgia', body: 'Inter' },
+            sizes: { base: 16, scale: 1.25, headings: [32, 24, 20] },
+            improvements: { lineHeight: 1.5, letterSpacing: 0.01, paragraphSpacing: 0.75 }
+          }
+        }
+      }
+
+      it('redraws OCR-located lines over the paper colour', async () => {
+        mockRecognize.mockResolvedValue(ocrLine(90))
+
+        const result = await applicator.render(document, [typographyStrategy])
+
+        expect(mockRecognize).toHaveBeenCalledTimes(1)
+        // The old glyphs are covered with the white paper around them and
+        // the line is set again in dark ink
+        expect(await countPixels(result, isRed)).toBe(0)
+        expect(await countPixels(result, isInk)).toBeGreaterThan(0)
+        expect(await pixelAt(result, 10, 10)).toEqual([255, 255, 255])
+      })
+
+      it('leaves low-confidence lines as scanned', async () => {
+        mockRecognize.mockResolvedValue(ocrLine(40))
+
+        const result = await applicator.render(document, [typographyStrategy])
+
+        expect(await countPixels(result, isRed)).toBe(40 * 40)
+      })
+
+      it('still applies other changes when OCR fails', async () => {
+        mockRecognize.mockRejectedValue(new Error('worker crashed'))
+        jest.spyOn(console, 'error').mockImplementation(() => {})
+
+        const result = await applicator.render(document, [typographyStrategy, colorStrategy])
+
+        expect(await pixelAt(result, 100, 100)).toEqual([0, 0, 255])
+      })
+    })
+
+    it('rasterizes PDFs and stacks the enhanced pages', async () => {
+      const page = { width: 200, height: 200, widthPt: 144, heightPt: 144, dpi: 100 }
+      mockRasterizePDF.mockResolvedValue([
+        { ...page, pageNumber: 1, buffer: document },
+        { ...page, pageNumber: 2, buffer: document }
+      ])
+
+      const result = await applicator.render(Buffer.from('%PDF-1.7\n'), [colorStrategy])
+
+      const metadata = await sharp(result).metadata()
+      expect(metadata.width).toBe(200)
+      expect(metadata.height).toBe(400)
+      expect(await pixelAt(result, 100, 100)).toEqual([0, 0, 255])
+      expect(await pixelAt(result, 100, 300)).toEqual([0, 0, 255])
+    })
+  })
+
+  describe('apply', () => {
+    it('downloads the document, uploads the result and returns its URL', async () => {
+      mockDownloadDocument.mockResolvedValue(document)
+      mockUploadFile.mockResolvedValue({ key: 'enhanced/user-1/123-doc-1-enhanced.png', url: 'https://r2/enhanced.png' })
+
+      const url = await applicator.apply('original/user-1/doc.png', [colorStrategy], {
+        userId: 'user-1',
+        documentId: 'doc-1'
+      })
+
+      expect(url).toBe('https://r2/enhanced.png')
+      expect(mockDownloadDocument).toHaveBeenCalledWith('original/user-1/doc.png')
+      expect(mockUploadFile).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        folder: 'ENHANCED',
+        contentType: 'image/png',
+        filename: 'doc-1-enhanced.png'
+      }))
+
+      const uploaded = mockUploadFile.mock.calls[0][0].file as Buffer
+      expect(await pixelAt(uploaded, 100, 100)).toEqual([0, 0, 255])
+    })
+  })
+})
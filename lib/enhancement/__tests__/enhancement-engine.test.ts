@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events'
+import { EnhancementEngine } from '../enhancement-engine'
+import { EnhancementPipeline } from '../pipeline/enhancement-pipeline'
+import { PipelineRunStore } from '../pipeline/run-store'
+import type { PipelineContext, PipelineState } from '../pipeline/types'
+import { emitProgressUpdate } from '@/lib/websocket/server'
+import { BrandKitStore } from '@/lib/brand-kits'
+
+jest.mock('../pipeline/enhancement-pipeline', () => ({ EnhancementPipeline: jest.fn() }))
+jest.mock('../pipeline/run-store', () => ({
+  PipelineRunStore: { findResumable: jest.fn() }
+}))
+jest.mock('@/lib/websocket/server', () => ({ emitProgressUpdate: jest.fn() }))
+jest.mock('@/lib/brand-kits', () => ({
+  BrandKitStore: { get: jest.fn(), getDefault: jest.fn() }
+}))
+
+const MockPipeline = EnhancementPipeline as jest.MockedClass<typeof EnhancementPipeline>
+const mockFindResumable = PipelineRunStore.findResumable as jest.MockedFunction<typeof PipelineRunStore.findResumable>
+
+// Stands in for the pipeline; `run` decides what execute() does
+class FakePipeline extends EventEmitter {
+  constructor(public run: (pipeline: FakePipeline) => Promise<unknown>) {
+    super()
+  }
+
+  execute() {
+    return this.run(this)
+  }
+}
+
+describe('EnhancementEngine', () => {
+  let engine: EnhancementEngine
+  let run: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    run = jest.fn().mockResolvedValue({ enhancedFileUrl: 'https://files.example.com/enhanced.pdf' })
+    MockPipeline.mockImplementation(() => new FakePipeline(run) as unknown as EnhancementPipeline)
+    engine = new EnhancementEngine({ subscriptionTier: 'pro', aiModel: 'gpt-4' })
+  })
+
+  describe('enhance', () => {
+    it('hands the cancel signal to the pipeline', async () => {
+      const controller = new AbortController()
+
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {}, {
+        signal: controller.signal
+      })
+
+      expect(MockPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({ documentId: 'doc-1', userId: 'user-1', fileType: 'pdf' }),
+        controller.signal
+      )
+      expect(mockFindResumable).not.toHaveBeenCalled()
+    })
+
+    it('marks the run to skip cached analysis when asked', async () => {
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {}, {
+        bypassCache: true
+      })
+
+      expect(MockPipeline).toHaveBeenCalledWith(expect.objectContaining({ bypassCache: true }), undefined)
+    })
+
+    it('continues the last failed run when resuming', async () => {
+      const controller = new AbortController()
+      const saved = {
+        id: 'run-1',
+        context: { documentId: 'doc-1', userId: 'user-1' } as PipelineContext
+      } as PipelineState
+      mockFindResumable.mockResolvedValue(saved)
+
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {}, {
+        signal: controller.signal,
+        resume: true
+      })
+
+      expect(mockFindResumable).toHaveBeenCalledWith('doc-1')
+      expect(MockPipeline).toHaveBeenCalledWith(saved.context, controller.signal, saved)
+    })
+
+    it('forwards per-page progress to the document socket', async () => {
+      run.mockImplementation(async (pipeline: FakePipeline) => {
+        pipeline.emit('pipeline-event', {
+          type: 'page-progress',
+          stage: 'initial-analysis',
+          pageNumber: 2,
+          pageCount: 3,
+          progress: 12
+        })
+        return {}
+      })
+
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf')
+
+      expect(emitProgressUpdate).toHaveBeenCalledWith('doc-1', {
+        documentId: 'doc-1',
+        stage: 'analysis',
+        progress: 12,
+        message: 'Analyzed page 2 of 3',
+        details: { currentPage: 2, totalPages: 3 }
+      })
+    })
+
+    it('looks up brand kits in the document\'s organization', async () => {
+      const kit = { id: 'kit-1', name: 'Team kit' }
+      ;(BrandKitStore.getDefault as jest.Mock).mockResolvedValue(kit)
+      ;(BrandKitStore.get as jest.Mock).mockResolvedValue(kit)
+
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {
+        colorScheme: 'brand'
+      }, { organizationId: 'org-1' })
+      await engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {
+        brandKitId: 'kit-1'
+      }, { organizationId: 'org-1' })
+
+      expect(BrandKitStore.getDefault).toHaveBeenCalledWith('user-1', 'org-1')
+      expect(BrandKitStore.get).toHaveBeenCalledWith('user-1', 'kit-1', 'org-1')
+      expect(MockPipeline).toHaveBeenCalledWith(expect.objectContaining({ brandKit: kit }), undefined)
+    })
+
+    it('propagates a cancelled run to the caller', async () => {
+      const cancelled = new Error('Pipeline cancelled')
+      run.mockRejectedValue(cancelled)
+
+      await expect(
+        engine.enhance('doc-1', 'user-1', 'https://files.example.com/doc.pdf', 'pdf', {}, {
+          signal: new AbortController().signal
+        })
+      ).rejects.toBe(cancelled)
+    })
+  })
+})
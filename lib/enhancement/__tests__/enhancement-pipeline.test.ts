@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { EnhancementPipeline } from '../enhancement-pipeline'
+import { DocumentAnalysisEngine } from '@/lib/analysis'
+import { ImageLoader } from '@/lib/analysis/utils/image-loader'
+import { createClient } from '@/lib/supabase/server'
+import { downloadDocument } from '@/lib/r2'
+import { ocrService, OCRResult } from '@/lib/ocr'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+
+jest.mock('@/lib/analysis', () => ({ DocumentAnalysisEngine: jest.fn() }))
+jest.mock('@/lib/analysis/utils/image-loader', () => ({
+  ImageLoader: { loadImageFromBuffer: jest.fn() }
+}))
+jest.mock('@/lib/ai/ai-service', () => ({ AIService: jest.fn() }))
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+jest.mock('@/lib/r2', () => ({ downloadDocument: jest.fn() }))
+jest.mock('@/lib/ocr', () => ({ ocrService: { recognize: jest.fn() } }))
+jest.mock('@/lib/utils/pdf-rasterizer', () => ({ rasterizePDF: jest.fn() }))
+jest.mock('../strategy-generator', () => ({ StrategyGenerator: jest.fn() }))
+jest.mock('../enhancement-applicator', () => ({ EnhancementApplicator: jest.fn() }))
+jest.mock('../quality-scorer', () => ({ QualityScorer: jest.fn() }))
+
+const MockEngine = DocumentAnalysisEngine as jest.MockedClass<typeof DocumentAnalysisEngine>
+const mockLoadImage = ImageLoader.loadImageFromBuffer as jest.MockedFunction<typeof ImageLoader.loadImageFromBuffer>
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>
+const mockDownloadDocument = downloadDocument as jest.MockedFunction<typeof downloadDocument>
+const mockRecognize = ocrService.recognize as jest.MockedFunction<typeof ocrService.recognize>
+const mockRasterizePDF = rasterizePDF as jest.MockedFunction<typeof rasterizePDF>
+
+describe('EnhancementPipeline', () => {
+  let generateCompleteAnalysis: jest.Mock
+  let pipeline: EnhancementPipeline
+  const image = { data: new Uint8ClampedArray(4 * 4 * 4), width: 4, height: 4 }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    generateCompleteAnalysis = jest.fn().mockResolvedValue({})
+    MockEngine.mockImplementation(() => ({ generateCompleteAnalysis }) as unknown as DocumentAnalysisEngine)
+
+    const single = jest.fn().mockResolvedValue({ data: { original_url: 'original/user-1/doc.pdf' } })
+    const chain = { from: jest.fn(), select: jest.fn(), eq: jest.fn(), single }
+    chain.from.mockReturnValue(chain)
+    chain.select.mockReturnValue(chain)
+    chain.eq.mockReturnValue(chain)
+    mockCreateClient.mockResolvedValue(chain as unknown as Awaited<ReturnType<typeof createClient>>)
+
+    mockLoadImage.mockResolvedValue(image)
+    pipeline = new EnhancementPipeline()
+  })
+
+  describe('analyze', () => {
+    it('analyses the first PDF page together with its OCR text', async () => {
+      const pdf = Buffer.from('%PDF-1.7\n')
+      const pageImage = Buffer.from('page-1')
+      mockDownloadDocument.mockResolvedValue(pdf)
+      mockRasterizePDF.mockResolvedValue([
+        { pageNumber: 1, buffer: pageImage, width: 4, height: 4, widthPt: 612, heightPt: 792, dpi: 150 }
+      ])
+      mockRecognize.mockResolvedValue({ text: 'Photosynthesis\nPlants make food from light.\n' } as OCRResult)
+
+      await pipeline.analyze({
+        documentId: 'doc-1',
+        userId: 'user-1',
+        preferences: { documentType: 'presentation' }
+      } as Parameters<EnhancementPipeline['analyze']>[0])
+
+      expect(mockDownloadDocument).toHaveBeenCalledWith('original/user-1/doc.pdf')
+      expect(mockRasterizePDF).toHaveBeenCalledWith(pdf, expect.objectContaining({ pages: [1] }))
+      expect(mockRecognize).toHaveBeenCalledWith(pageImage)
+      expect(generateCompleteAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+        imageData: image,
+        text: 'Photosynthesis\nPlants make food from light.',
+        type: 'presentation',
+        metadata: { width: 4, height: 4, format: 'pdf', size: pdf.length }
+      }))
+    })
+
+    it('still analyses the pixels when OCR fails', async () => {
+      mockDownloadDocument.mockResolvedValue(Buffer.from('png-bytes'))
+      mockRecognize.mockRejectedValue(new Error('worker crashed'))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await pipeline.analyze({ documentId: 'doc-1', userId: 'user-1' } as Parameters<EnhancementPipeline['analyze']>[0])
+
+      expect(mockRasterizePDF).not.toHaveBeenCalled()
+      expect(generateCompleteAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+        imageData: image,
+        text: undefined,
+        type: 'worksheet'
+      }))
+    })
+  })
+})
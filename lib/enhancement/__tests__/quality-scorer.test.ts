@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { QualityScorer, DEFAULT_QUALITY_WEIGHTS } from '../quality-scorer'
+import { downloadDocument } from '@/lib/r2'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+
+// jest.setup.js stubs sharp globally; scoring needs real pixels
+jest.unmock('sharp')
+jest.mock('@/lib/r2', () => ({
+  downloadDocument: jest.fn()
+}))
+jest.mock('@/lib/utils/pdf-rasterizer', () => ({
+  rasterizePDF: jest.fn()
+}))
+
+const mockDownloadDocument = downloadDocument as jest.MockedFunction<typeof downloadDocument>
+const mockRasterizePDF = rasterizePDF as jest.MockedFunction<typeof rasterizePDF>
+
+async function createWorksheet(background: string, ink: string): Promise<Buffer> {
+  const lines = Array.from({ length: 8 }, (_, i) =>
+    `<rect x="40" y="${60 + i * 40}" width="${i % 2 ? 280 : 320}" height="12" fill="${ink}"/>`
+  ).join('')
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">` +
+    `<rect width="400" height="400" fill="${background}"/>` +
+    `<rect x="40" y="20" width="200" height="24" fill="${ink}"/>${lines}</svg>`
+
+  return sharp(Buffer.from(svg)).png().toBuffer()
+}
+
+describe('QualityScorer', () => {
+  let scorer: QualityScorer
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    scorer = new QualityScorer()
+  })
+
+  describe('scoreImage', () => {
+    it('returns the same score for the same input', async () => {
+      const image = await createWorksheet('#ffffff', '#222222')
+
+      const first = await scorer.scoreImage(image)
+      const second = await scorer.scoreImage(image)
+
+      expect(second).toEqual(first)
+    })
+
+    it('includes a per-dimension breakdown within 0-100', async () => {
+      const score = await scorer.scoreImage(await createWorksheet('#ffffff', '#222222'))
+
+      for (const dimension of ['layout', 'colors', 'typography', 'engagement'] as const) {
+        expect(score.breakdown[dimension]).toBeGreaterThanOrEqual(0)
+        expect(score.breakdown[dimension]).toBeLessThanOrEqual(100)
+      }
+      expect(score.overall).toBeGreaterThanOrEqual(0)
+      expect(score.overall).toBeLessThanOrEqual(100)
+      expect(score.weights).toEqual(DEFAULT_QUALITY_WEIGHTS)
+    })
+
+    it('applies the configured weighting to the breakdown', async () => {
+      const image = await createWorksheet('#ffffff', '#222222')
+      const layoutOnly = new QualityScorer({ layout: 2, colors: 0, typography: 0, engagement: 0 })
+
+      const score = await layoutOnly.scoreImage(image)
+
+      expect(score.weights.layout).toBe(1)
+      expect(score.overall).toBe(score.breakdown.layout)
+    })
+  })
+
+  describe('constructor', () => {
+    it('rejects negative or all-zero weights', () => {
+      expect(() => new QualityScorer({ colors: -1 })).toThrow('Invalid quality weight')
+      expect(() => new QualityScorer({ layout: 0, colors: 0, typography: 0, engagement: 0 })).toThrow()
+    })
+  })
+
+  describe('calculateImprovement', () => {
+    it('scores both documents and reports the breakdowns', async () => {
+      const original = await createWorksheet('#ffffff', '#bbbbbb')
+      const enhanced = await createWorksheet('#ffffff', '#111111')
+      mockDownloadDocument.mockImplementation(async (source) =>
+        source === 'original.png' ? original : enhanced
+      )
+
+      const result = await scorer.calculateImprovement('original.png', 'enhanced.png')
+      const expectedBefore = await scorer.scoreImage(original)
+      const expectedAfter = await scorer.scoreImage(enhanced)
+
+      expect(result.before).toBe(expectedBefore.overall)
+      expect(result.after).toBe(expectedAfter.overall)
+      expect(result.breakdown).toEqual({
+        before: expectedBefore.breakdown,
+        after: expectedAfter.breakdown
+      })
+      expect(result.improvement).toBe(
+        Math.round(((result.after - result.before) / result.before) * 100)
+      )
+    })
+  })
+
+  describe('scoreDocument', () => {
+    it('rasterizes PDFs and averages the page scores', async () => {
+      const pages = [
+        await createWorksheet('#ffffff', '#111111'),
+        await createWorksheet('#ffffff', '#bbbbbb')
+      ]
+      mockDownloadDocument.mockResolvedValue(Buffer.from('%PDF-1.7'))
+      mockRasterizePDF.mockResolvedValue(pages.map((buffer, i) => ({
+        pageNumber: i + 1, buffer, width: 400, height: 400, widthPt: 288, heightPt: 288, dpi: 100
+      })))
+
+      const score = await scorer.scoreDocument('worksheet.pdf', 'presentation')
+      const [first, second] = await Promise.all(pages.map(page => scorer.scoreImage(page, 'presentation')))
+
+      expect(mockRasterizePDF).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'), expect.objectContaining({ dpi: 100 }))
+      expect(score.breakdown.layout).toBe(Math.round((first.breakdown.layout + second.breakdown.layout) / 2))
+      expect(score.breakdown.typography).toBe(
+        Math.round((first.breakdown.typography + second.breakdown.typography) / 2)
+      )
+    })
+
+    it('scores images directly', async () => {
+      const image = await createWorksheet('#ffffff', '#222222')
+      mockDownloadDocument.mockResolvedValue(image)
+
+      expect(await scorer.scoreDocument('worksheet.png')).toEqual(await scorer.scoreImage(image))
+      expect(mockRasterizePDF).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('scoreEnhancement', () => {
+    it('weights per-dimension improvements', async () => {
+      const improvement = await scorer.scoreEnhancement(
+        { layout: 40, colors: 40, typography: 40, engagement: 40 },
+        { layout: 80, colors: 60, typography: 40, engagement: 40 }
+      )
+
+      expect(improvement).toBe(15)
+    })
+  })
+})
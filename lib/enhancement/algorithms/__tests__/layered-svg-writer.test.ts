@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { CompositionLayer, LayeredSVGWriter } from '../composition'
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+function createLayer(
+  id: string,
+  type: CompositionLayer['type'],
+  properties: Partial<CompositionLayer['properties']> = {}
+): CompositionLayer {
+  return {
+    id,
+    type,
+    content: { data: PNG_SIGNATURE },
+    properties: {
+      x: 0,
+      y: 0,
+      width: 800,
+      height: 600,
+      rotation: 0,
+      scale: 1,
+      opacity: 1,
+      blendMode: 'normal',
+      zIndex: 0,
+      ...properties
+    },
+    metadata: {
+      importance: 0.5,
+      visualWeight: 1
+    }
+  }
+}
+
+function groupIds(svg: string): string[] {
+  return [...svg.matchAll(/<g id="([^"]+)"/g)].map(match => match[1])
+}
+
+describe('LayeredSVGWriter', () => {
+  it('writes one named group per kind of layer in stacking order', () => {
+    const svg = LayeredSVGWriter.write([{
+      width: 800,
+      height: 600,
+      layers: [
+        createLayer('typography-page-1', 'text', { zIndex: 5 }),
+        createLayer('original-image', 'original', { zIndex: 1 }),
+        createLayer('decorative-a', 'decoration', { zIndex: 3 }),
+        createLayer('decorative-b', 'decoration', { zIndex: 4 }),
+        createLayer('background-main', 'background', { zIndex: 0 })
+      ]
+    }])
+
+    expect(groupIds(svg)).toEqual(['background', 'original', 'decorations', 'text'])
+    expect(svg).toContain('inkscape:groupmode="layer" inkscape:label="Decorations"')
+    expect(svg).toContain('<image id="decorative-a"')
+    expect(svg).toContain('<image id="decorative-b"')
+    expect(svg).toContain('width="800" height="600" viewBox="0 0 800 600"')
+  })
+
+  it('keeps position, opacity and blend mode on each layer', () => {
+    const svg = LayeredSVGWriter.write([{
+      width: 800,
+      height: 600,
+      layers: [
+        createLayer('decorative-star', 'decoration', {
+          x: 40,
+          y: 60,
+          width: 100,
+          height: 50,
+          opacity: 0.8,
+          blendMode: 'soft-light',
+          rotation: 15
+        })
+      ]
+    }])
+
+    expect(svg).toContain('x="40" y="60" width="100" height="50"')
+    expect(svg).toContain('opacity="0.8"')
+    expect(svg).toContain('style="mix-blend-mode:soft-light"')
+    // Rotation is about the layer's centre
+    expect(svg).toContain('transform="rotate(15 90 85)"')
+    expect(svg).toContain('xlink:href="data:image/png;base64,')
+  })
+
+  it('splits a kind of layer into separate groups when another kind sits between', () => {
+    const svg = LayeredSVGWriter.write([{
+      width: 800,
+      height: 600,
+      layers: [
+        createLayer('original-image', 'original', { zIndex: 1 }),
+        createLayer('color-enhancement', 'overlay', { zIndex: 2, blendMode: 'overlay' }),
+        createLayer('graphic-chart', 'graphic', { zIndex: 10 }),
+        createLayer('watermark', 'overlay', { zIndex: 999 })
+      ]
+    }])
+
+    expect(groupIds(svg)).toEqual(['original', 'effects', 'graphics', 'effects-2'])
+  })
+
+  it('stacks multi-page documents as one group per page', () => {
+    const page = { width: 800, height: 600, layers: [createLayer('original-image', 'original')] }
+
+    const svg = LayeredSVGWriter.write([page, page])
+
+    expect(groupIds(svg)).toEqual(['page-1', 'page-1-original', 'page-2', 'page-2-original'])
+    expect(svg).toContain('transform="translate(0 640)"')
+    expect(svg).toContain('<inkscape:page id="page-2" x="0" y="640" width="800" height="600"/>')
+    expect(svg).toContain('height="1240"')
+  })
+
+  it('skips layers without image content', () => {
+    const empty = createLayer('empty', 'graphic')
+    empty.content = {}
+
+    const svg = LayeredSVGWriter.write([{ width: 800, height: 600, layers: [empty] }])
+
+    expect(groupIds(svg)).toEqual([])
+  })
+
+  it('rejects a document without pages', () => {
+    expect(() => LayeredSVGWriter.write([])).toThrow('at least one page')
+  })
+})
@@ -35,6 +35,8 @@ export interface ContrastResult {
   recommendation?: string
 }
 
+export type ColorBlindType = 'protanopia' | 'deuteranopia' | 'tritanopia'
+
 export interface AccessibilityResult {
   wcagCompliant: boolean
   colorBlindSafe: boolean
@@ -42,6 +44,34 @@ export interface AccessibilityResult {
   suggestions: string[]
 }
 
+// Applied to linear RGB
+export const COLOR_BLIND_MATRICES: Record<ColorBlindType, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998]
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.011820, 0.042940, 0.968881]
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.303900]
+  ]
+}
+
+export function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+}
+
+export function toGamma(channel: number): number {
+  const clamped = Math.min(1, Math.max(0, channel))
+  return clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055
+}
+
 /**
  * Color Optimization Class
  * Implements advanced color theory algorithms
@@ -306,7 +336,7 @@ export class ColorOptimization {
     palette: ColorPalette,
     options?: {
       wcagLevel?: 'AA' | 'AAA'
-      colorBlindTypes?: Array<'protanopia' | 'deuteranopia' | 'tritanopia'>
+      colorBlindTypes?: ColorBlindType[]
     }
   ): { palette: ColorPalette; report: AccessibilityResult } {
     const level = options?.wcagLevel || 'AA'
@@ -360,7 +390,7 @@ export class ColorOptimization {
    */
   private static checkColorBlindSafety(
     colors: string[],
-    types: Array<'protanopia' | 'deuteranopia' | 'tritanopia'>
+    types: ColorBlindType[]
   ): { safe: boolean; issues: string[]; suggestions: string[] } {
     const issues: string[] = []
     const suggestions: string[] = []
@@ -388,28 +418,22 @@ export class ColorOptimization {
   }
 
   /**
-   * Simulate color blindness
+   * Simulate color blindness (Machado et al. 2009, full severity)
    */
-  private static simulateColorBlindness(
+  static simulateColorBlindness(
     color: string,
-    type: 'protanopia' | 'deuteranopia' | 'tritanopia'
+    type: ColorBlindType
   ): string {
-    // Simplified simulation - in production use proper color blind simulation library
-    const rgb = chroma(color).rgb()
-    
-    switch (type) {
-      case 'protanopia': // No red
-        return chroma(rgb[1], rgb[1], rgb[2]).hex()
-      
-      case 'deuteranopia': // No green
-        return chroma(rgb[0], rgb[0], rgb[2]).hex()
-      
-      case 'tritanopia': // No blue
-        return chroma(rgb[0], rgb[1], rgb[1]).hex()
-      
-      default:
-        return color
-    }
+    const linear = chroma(color).gl().slice(0, 3).map(toLinear)
+    const matrix = COLOR_BLIND_MATRICES[type]
+    const simulated = matrix.map(row =>
+      row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+    )
+    return chroma.gl(
+      toGamma(simulated[0]),
+      toGamma(simulated[1]),
+      toGamma(simulated[2])
+    ).hex()
   }
 
   /**
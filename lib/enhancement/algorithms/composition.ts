@@ -1496,6 +1496,173 @@ export class CompositionEngine {
   }
 }
 
+export interface LayeredPage {
+  layers: CompositionLayer[]
+  width: number
+  height: number
+}
+
+/**
+ * Writes composed layers as an SVG with one named group per kind of layer,
+ * so the result stays editable in Inkscape or Figma.
+ */
+export class LayeredSVGWriter {
+  private static readonly groupLabels: Record<CompositionLayer['type'], string> = {
+    background: 'Background',
+    original: 'Original',
+    overlay: 'Effects',
+    effect: 'Effects',
+    decoration: 'Decorations',
+    text: 'Text',
+    graphic: 'Graphics'
+  }
+
+  // Space between stacked pages of a multi-page document
+  private static readonly pageGap = 40
+
+  static write(pages: LayeredPage[]): string {
+    if (pages.length === 0) {
+      throw new Error('Layered SVG needs at least one page')
+    }
+
+    const width = Math.max(...pages.map(p => p.width))
+    const height = pages.reduce((sum, p) => sum + p.height, 0) +
+      this.pageGap * (pages.length - 1)
+
+    const body: string[] = []
+    const pageDefs: string[] = []
+    let offsetY = 0
+
+    pages.forEach((page, index) => {
+      if (pages.length === 1) {
+        body.push(this.writeGroups(page.layers, ''))
+        return
+      }
+
+      // Inkscape shows each stacked page as its own page; other editors
+      // see a top-level group per page
+      pageDefs.push(
+        `<inkscape:page id="page-${index + 1}" x="0" y="${offsetY}" width="${page.width}" height="${page.height}"/>`
+      )
+      body.push(
+        `<g id="page-${index + 1}" inkscape:groupmode="layer" inkscape:label="Page ${index + 1}" transform="translate(0 ${offsetY})">` +
+        this.writeGroups(page.layers, `page-${index + 1}-`) +
+        '</g>'
+      )
+      offsetY += page.height + this.pageGap
+    })
+
+    const namedView = pageDefs.length > 0
+      ? `<sodipodi:namedview id="namedview">${pageDefs.join('')}</sodipodi:namedview>`
+      : ''
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+      'xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ' +
+      'xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" ' +
+      `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      namedView +
+      body.join('') +
+      '</svg>'
+  }
+
+  private static writeGroups(layers: CompositionLayer[], idPrefix: string): string {
+    const ordered = [...layers].sort((a, b) => a.properties.zIndex - b.properties.zIndex)
+    const groups: string[] = []
+    const usedIds = new Map<string, number>()
+    let current: { label: string; elements: string[] } | null = null
+
+    const flush = () => {
+      if (!current || current.elements.length === 0) return
+      const baseId = current.label.toLowerCase()
+      const count = (usedIds.get(baseId) || 0) + 1
+      usedIds.set(baseId, count)
+      const id = idPrefix + (count > 1 ? `${baseId}-${count}` : baseId)
+
+      groups.push(
+        `<g id="${id}" inkscape:groupmode="layer" inkscape:label="${current.label}">` +
+        current.elements.join('') +
+        '</g>'
+      )
+    }
+
+    // Consecutive layers of the same kind share a group; splitting only when
+    // the kind changes keeps the original stacking order intact
+    for (const layer of ordered) {
+      const label = this.groupLabels[layer.type] || 'Layers'
+      if (!current || current.label !== label) {
+        flush()
+        current = { label, elements: [] }
+      }
+
+      const element = this.writeLayer(layer, idPrefix)
+      if (element) current.elements.push(element)
+    }
+    flush()
+
+    return groups.join('')
+  }
+
+  private static writeLayer(layer: CompositionLayer, idPrefix: string): string | null {
+    const href = this.imageHref(layer)
+    if (!href) return null
+
+    const { x, y, width, height, rotation, scale, opacity, blendMode } = layer.properties
+    const centerX = x + width / 2
+    const centerY = y + height / 2
+
+    // Same transform order as the canvas renderer: rotate, then scale, both
+    // about the layer's centre
+    const transforms: string[] = []
+    if (rotation !== 0) {
+      transforms.push(`rotate(${rotation} ${centerX} ${centerY})`)
+    }
+    if (scale !== 1) {
+      transforms.push(`translate(${centerX} ${centerY}) scale(${scale}) translate(${-centerX} ${-centerY})`)
+    }
+
+    const attributes = [
+      `id="${this.escape(idPrefix + layer.id)}"`,
+      `inkscape:label="${this.escape(layer.metadata?.semanticType || layer.id)}"`,
+      `x="${x}"`,
+      `y="${y}"`,
+      `width="${width}"`,
+      `height="${height}"`,
+      'preserveAspectRatio="none"'
+    ]
+    if (opacity !== 1) attributes.push(`opacity="${opacity}"`)
+    if (blendMode !== 'normal') attributes.push(`style="mix-blend-mode:${blendMode}"`)
+    if (transforms.length > 0) attributes.push(`transform="${transforms.join(' ')}"`)
+    attributes.push(`xlink:href="${this.escape(href)}"`)
+
+    return `<image ${attributes.join(' ')}/>`
+  }
+
+  private static imageHref(layer: CompositionLayer): string | null {
+    if (layer.content.data) {
+      return `data:${this.detectMimeType(layer.content.data)};base64,${layer.content.data.toString('base64')}`
+    }
+    return layer.content.url || null
+  }
+
+  private static detectMimeType(data: Buffer): string {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg'
+    if (data.subarray(0, 4).toString() === 'RIFF') return 'image/webp'
+    if (data.subarray(0, 5).toString().startsWith('<svg') || data.subarray(0, 5).toString() === '<?xml') {
+      return 'image/svg+xml'
+    }
+    return 'image/png'
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+  }
+}
+
 /**
  * Export convenience functions
  */
@@ -1504,5 +1671,6 @@ export const compositionAlgorithms = {
   BlendModeEngine,
   SmartPlacement,
   VisualBalanceOptimizer,
-  CompositionEngine
+  CompositionEngine,
+  LayeredSVGWriter
 }
\ No newline at end of file
@@ -21,7 +21,8 @@ export type {
   ColorPalette,
   ColorHarmony,
   ContrastResult,
-  AccessibilityResult
+  AccessibilityResult,
+  ColorBlindType
 } from './color-optimization'
 
 export type {
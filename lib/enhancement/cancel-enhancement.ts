@@ -0,0 +1,119 @@
+import { createClient } from '@/lib/supabase/server'
+import { getQueue, QUEUE_NAMES } from '@/lib/queue/client'
+import { requestCancellation } from '@/lib/queue/cancellation'
+import { createUsageTracker } from '@/lib/usage/tracking-server'
+import { canAccess } from '@/lib/organizations'
+
+const CANCELLABLE_STATUSES = ['pending', 'processing']
+
+export type CancelEnhancementResult =
+  | { status: 'cancelled'; enhancementId: string; jobRemoved: boolean; refundedCredits: number }
+  | { status: 'not_found' }
+  | { status: 'not_cancellable'; currentStatus: string }
+
+/**
+ * Cancels a user's pending or processing enhancement, or one shared with them
+ * as an organization editor. A queued job is removed outright; a running one
+ * is told to stop through Redis and its worker cleans up whatever it had
+ * uploaded. The credit charged for the run is refunded to whoever paid it.
+ */
+export async function cancelEnhancement(
+  userId: string,
+  enhancementId: string
+): Promise<CancelEnhancementResult> {
+  const supabase = await createClient()
+
+  const { data: enhancement, error: fetchError } = await supabase
+    .from('enhancements')
+    .select('id, user_id, organization_id, document_id, status, job_id')
+    .eq('id', enhancementId)
+    .single()
+
+  if (fetchError || !enhancement || !(await canAccess(enhancement, userId, 'editor'))) {
+    return { status: 'not_found' }
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(enhancement.status)) {
+    return { status: 'not_cancellable', currentStatus: enhancement.status }
+  }
+
+  // Only flip runs that are still in flight, so a job finishing at the same
+  // moment keeps its result
+  const { data: updated, error: updateError } = await supabase
+    .from('enhancements')
+    .update({
+      status: 'cancelled',
+      error: {
+        code: 'CANCELLED_BY_USER',
+        message: 'Enhancement was cancelled by user',
+        timestamp: new Date().toISOString(),
+      },
+    })
+    .eq('id', enhancementId)
+    .in('status', CANCELLABLE_STATUSES)
+    .select('id')
+
+  if (updateError) {
+    throw new Error(`Failed to cancel enhancement: ${updateError.message}`)
+  }
+
+  if (!updated || updated.length === 0) {
+    return { status: 'not_cancellable', currentStatus: 'completed' }
+  }
+
+  const jobRemoved = await removeQueuedJob(enhancement.job_id || enhancementId)
+  // Also sent after a removal, in case a worker took the job in between
+  await requestCancellation(enhancementId)
+
+  await supabase
+    .from('documents')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', enhancement.document_id)
+    .eq('status', 'processing')
+
+  let refundedCredits = 0
+  try {
+    const tracker = await createUsageTracker()
+    refundedCredits = await tracker.refundUsage(enhancement.user_id, enhancementId)
+  } catch (error) {
+    console.error(`Failed to refund credits for enhancement ${enhancementId}:`, error)
+  }
+
+  return { status: 'cancelled', enhancementId, jobRemoved, refundedCredits }
+}
+
+/**
+ * The dashboard cancels by document, so this finds the run in flight for it.
+ */
+export async function findActiveEnhancement(
+  userId: string,
+  documentId: string
+): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data } = await supabase
+    .from('enhancements')
+    .select('id')
+    .eq('document_id', documentId)
+    .eq('user_id', userId)
+    .in('status', CANCELLABLE_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  return data?.[0]?.id ?? null
+}
+
+// Running jobs hold a lock and can't be removed; they stop on the Redis signal
+async function removeQueuedJob(jobId: string): Promise<boolean> {
+  try {
+    const job = await getQueue(QUEUE_NAMES.ENHANCEMENT).getJob(jobId)
+    if (job && !(await job.isActive())) {
+      await job.remove()
+      return true
+    }
+  } catch (error) {
+    console.error(`Failed to remove enhancement job ${jobId}:`, error)
+  }
+
+  return false
+}
@@ -1,122 +1,550 @@
-import { EnhancementStrategy } from './types'
+import sharp from 'sharp'
+import { downloadDocument, uploadFile } from '@/lib/r2'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+import { ocrService, OCRLine } from '@/lib/ocr'
+import {
+  EnhancementStrategy,
+  ColorEnhancement,
+  TypographyEnhancement,
+  LayoutEnhancement,
+  BackgroundEnhancement,
+  DecorativeElement
+} from './types'
+
+export interface ApplyOptions {
+  userId?: string
+  documentId?: string
+}
+
+interface RGB {
+  r: number
+  g: number
+  b: number
+}
+
+// Max RGB distance at which a pixel still counts as a palette colour.
+// Pixels inside the radius are shifted proportionally so anti-aliased
+// edges blend into the replacement instead of leaving halos.
+const REPLACEMENT_TOLERANCE = 60
+
+// OCR lines below this confidence are left as scanned; redrawing a
+// misread line would be worse than keeping the original glyphs
+const MIN_RESTYLE_CONFIDENCE = 70
+
+// Lines this much taller than the median are set in the heading font
+const HEADING_HEIGHT_RATIO = 1.2
 
 export class EnhancementApplicator {
+  /**
+   * Downloads the document, renders every strategy onto it and uploads the
+   * result to R2. Returns the public URL of the enhanced PNG, which is what
+   * the pipeline stores as enhanced_url.
+   */
   async apply(
     documentUrl: string,
-    strategies: EnhancementStrategy[]
+    strategies: EnhancementStrategy[],
+    options: ApplyOptions = {}
   ): Promise<string> {
-    // In a real implementation, this would:
-    // 1. Download the original document
-    // 2. Apply each enhancement strategy
-    // 3. Generate the enhanced version
-    // 4. Upload and return the URL
-    
-    // For now, this is a placeholder that simulates the process
-    const enhancedDocumentId = `enhanced-${Date.now()}`
-    
-    // Simulate processing
-    await this.simulateEnhancement(documentUrl, strategies)
-    
-    // In production, this would upload the actual enhanced file
-    const mockEnhancedUrl = `https://r2.example.com/enhanced/${enhancedDocumentId}.png`
-    
-    return mockEnhancedUrl
-  }
-
-  private async simulateEnhancement(
-    documentUrl: string,
-    strategies: EnhancementStrategy[]
-  ): Promise<void> {
-    // Simulate processing time based on number of strategies
-    const processingTime = strategies.length * 500 // 500ms per strategy
-    await new Promise(resolve => setTimeout(resolve, processingTime))
-    
-    // Log applied strategies for debugging
-    console.log('Applied strategies:', strategies.map(s => ({
-      name: s.name,
-      changes: Object.keys(s.changes)
-    })))
+    const original = await downloadDocument(documentUrl)
+    const enhanced = await this.render(original, strategies)
+
+    const { url } = await uploadFile({
+      file: enhanced,
+      userId: options.userId || 'system',
+      filename: `${options.documentId || 'document'}-enhanced.png`,
+      folder: 'ENHANCED',
+      contentType: 'image/png',
+      metadata: {
+        appliedStrategies: strategies.map(s => s.id).join(',')
+      }
+    })
+
+    return url
+  }
+
+  /**
+   * Applies the strategies to a document and returns PNG bytes. PDFs are
+   * rasterized and every page is enhanced, then the pages are stacked
+   * top to bottom into a single image.
+   */
+  async render(input: Buffer, strategies: EnhancementStrategy[]): Promise<Buffer> {
+    if (!this.isPDF(input)) {
+      return this.renderImage(input, strategies)
+    }
+
+    const pages = await rasterizePDF(input)
+    const rendered: Buffer[] = []
+    for (const page of pages) {
+      rendered.push(await this.renderImage(page.buffer, strategies))
+    }
+
+    return this.stackPages(rendered)
+  }
+
+  /**
+   * Changes are grouped by kind and applied in a fixed order so the output
+   * does not depend on the order strategies were generated in. Typography
+   * goes first: OCR reads the untouched page best, and the layout inset
+   * would move the lines it located.
+   */
+  private async renderImage(input: Buffer, strategies: EnhancementStrategy[]): Promise<Buffer> {
+    let image = await sharp(input).rotate().removeAlpha().png().toBuffer()
+
+    const typography = strategies.find(s => s.changes.typography)?.changes.typography
+    if (typography) {
+      image = await this.applyTypography(image, typography, this.findPalette(strategies))
+    }
+    for (const strategy of strategies) {
+      image = await this.applyColorEnhancements(image, strategy)
+    }
+    for (const strategy of strategies) {
+      image = await this.applyLayoutEnhancements(image, strategy, this.findPalette(strategies))
+    }
+    for (const strategy of strategies) {
+      image = await this.applyBackgroundEnhancements(image, strategy)
+    }
+    for (const strategy of strategies) {
+      image = await this.applyDecorativeElements(image, strategy)
+    }
+
+    return image
+  }
+
+  private async stackPages(pages: Buffer[]): Promise<Buffer> {
+    if (pages.length === 1) return pages[0]
+
+    const sizes = await Promise.all(pages.map(page => sharp(page).metadata()))
+    const width = Math.max(...sizes.map(size => size.width || 0))
+    let top = 0
+    const layers = pages.map((page, i) => {
+      const layer = { input: page, left: 0, top }
+      top += sizes[i].height || 0
+      return layer
+    })
+
+    return sharp({
+      create: { width, height: top, channels: 3, background: '#ffffff' }
+    })
+      .composite(layers)
+      .png()
+      .toBuffer()
   }
 
   private async applyColorEnhancements(
-    document: unknown,
+    image: Buffer,
     strategy: EnhancementStrategy
-  ): Promise<void> {
-    if (!strategy.changes.colors) return
-    
+  ): Promise<Buffer> {
+    if (!strategy.changes.colors) return image
+
     const colorChanges = strategy.changes.colors
-    
-    // Apply color palette changes
-    if (colorChanges.palette) {
-      // Replace colors in document
-      console.log('Applying color palette:', colorChanges.palette)
-    }
-    
-    // Apply color adjustments
+    let result = image
+
+    // Replace palette colours first so adjustments operate on the new palette
+    const replacements = this.parseReplacements(colorChanges.replacements)
+    if (replacements.length > 0) {
+      result = await this.replaceColors(result, replacements)
+    }
+
     if (colorChanges.adjustments) {
-      console.log('Applying adjustments:', colorChanges.adjustments)
+      const { contrast = 1, saturation = 1, brightness = 1 } = colorChanges.adjustments
+      let pipeline = sharp(result)
+
+      if (brightness !== 1 || saturation !== 1) {
+        pipeline = pipeline.modulate({ brightness, saturation })
+      }
+      if (contrast !== 1) {
+        // Stretch around mid-grey so whites and blacks move apart evenly
+        pipeline = pipeline.linear(contrast, 128 * (1 - contrast))
+      }
+
+      result = await pipeline.png().toBuffer()
     }
+
+    return result
   }
 
-  private async applyTypographyEnhancements(
-    document: unknown,
-    strategy: EnhancementStrategy
-  ): Promise<void> {
-    if (!strategy.changes.typography) return
-    
-    const typographyChanges = strategy.changes.typography
-    
-    // Apply font changes
-    if (typographyChanges.fonts) {
-      console.log('Applying fonts:', typographyChanges.fonts)
+  private async replaceColors(
+    image: Buffer,
+    replacements: Array<{ from: RGB; to: RGB }>
+  ): Promise<Buffer> {
+    const { data, info } = await sharp(image)
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    for (let i = 0; i < data.length; i += info.channels) {
+      const pixel = { r: data[i], g: data[i + 1], b: data[i + 2] }
+
+      for (const { from, to } of replacements) {
+        const distance = this.colorDistance(pixel, from)
+        if (distance > REPLACEMENT_TOLERANCE) continue
+
+        const weight = 1 - distance / REPLACEMENT_TOLERANCE
+        data[i] = this.clampChannel(pixel.r + (to.r - from.r) * weight)
+        data[i + 1] = this.clampChannel(pixel.g + (to.g - from.g) * weight)
+        data[i + 2] = this.clampChannel(pixel.b + (to.b - from.b) * weight)
+        break
+      }
     }
-    
-    // Apply size changes
-    if (typographyChanges.sizes) {
-      console.log('Applying sizes:', typographyChanges.sizes)
+
+    return sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels }
+    }).png().toBuffer()
+  }
+
+  /**
+   * Covers each confidently read line with the paper colour around it and
+   * sets the text again in the strategy's fonts, sized to the line box.
+   */
+  private async applyTypography(
+    image: Buffer,
+    typography: TypographyEnhancement,
+    palette?: ColorEnhancement['palette']
+  ): Promise<Buffer> {
+    let lines: OCRLine[]
+    try {
+      const ocr = await ocrService.recognize(image)
+      lines = ocr.lines.filter(line =>
+        line.confidence >= MIN_RESTYLE_CONFIDENCE &&
+        line.text.trim().length > 0 &&
+        line.bbox.width > 0 &&
+        line.bbox.height > 0
+      )
+    } catch (error) {
+      // Without located text the rest of the enhancement still applies
+      console.error('OCR failed, skipping typography:', error)
+      return image
     }
+    if (lines.length === 0) return image
+
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+    const heights = lines.map(line => line.bbox.height).sort((a, b) => a - b)
+    const medianHeight = heights[Math.floor(heights.length / 2)]
+    const { letterSpacing } = typography.improvements
+
+    const elements: string[] = []
+    for (const { text, bbox } of lines) {
+      const pad = Math.ceil(bbox.height * 0.15)
+      const left = Math.max(0, Math.floor(bbox.x - pad))
+      const top = Math.max(0, Math.floor(bbox.y - pad))
+      const right = Math.min(width, Math.ceil(bbox.x + bbox.width + pad))
+      const bottom = Math.min(height, Math.ceil(bbox.y + bbox.height + pad))
+      if (right <= left || bottom <= top) continue
+
+      const paper = await this.sampleBackground(image, left, right, top, bottom, bbox)
+      const ink = palette?.text || (this.luminance(paper) > 0.5 ? '#1f2937' : '#ffffff')
+      const font = bbox.height >= medianHeight * HEADING_HEIGHT_RATIO
+        ? typography.fonts.heading
+        : typography.fonts.body
+
+      // Cap height plus descenders fill roughly the OCR box; glyphs that
+      // run wider than the original line are squeezed back into it
+      const fontSize = bbox.height
+      const estimatedWidth = text.length * fontSize * (0.55 + letterSpacing)
+      const fit = estimatedWidth > bbox.width
+        ? ` textLength="${bbox.width}" lengthAdjust="spacingAndGlyphs"`
+        : ''
+
+      elements.push(
+        `<rect x="${left}" y="${top}" width="${right - left}" height="${bottom - top}" fill="${this.rgbToHex(paper)}"/>`,
+        `<text x="${bbox.x}" y="${bbox.y + fontSize * 0.8}" font-family="${this.escapeXml(font)}" font-size="${fontSize}" ` +
+          `letter-spacing="${letterSpacing * fontSize}" fill="${ink}"${fit}>${this.escapeXml(text.trim())}</text>`
+      )
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${elements.join('')}</svg>`
+    return sharp(image)
+      .composite([{ input: Buffer.from(svg) }])
+      .png()
+      .toBuffer()
+  }
+
+  /**
+   * Reads the paper colour from the padding strip above the line, or below
+   * it at the top edge of the page, so the glyphs don't skew the sample.
+   */
+  private async sampleBackground(
+    image: Buffer,
+    left: number,
+    right: number,
+    top: number,
+    bottom: number,
+    bbox: OCRLine['bbox']
+  ): Promise<RGB> {
+    const above = Math.floor(bbox.y) - top
+    const belowTop = Math.ceil(bbox.y + bbox.height)
+    const strip = above > 0
+      ? { top, height: above }
+      : bottom > belowTop
+        ? { top: belowTop, height: bottom - belowTop }
+        : { top, height: bottom - top }
+
+    const { dominant } = await sharp(image)
+      .extract({ left, width: right - left, ...strip })
+      .stats()
+    return dominant
   }
 
   private async applyLayoutEnhancements(
-    document: unknown,
+    image: Buffer,
+    strategy: EnhancementStrategy,
+    palette?: ColorEnhancement['palette']
+  ): Promise<Buffer> {
+    if (!strategy.changes.layout) return image
+
+    const layoutChanges: LayoutEnhancement = strategy.changes.layout
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+
+    // Inset the content by the requested margin while keeping the page size
+    const requested = Math.max(layoutChanges.grid?.margins || 0, layoutChanges.spacing?.padding || 0)
+    const margin = Math.min(requested, Math.floor(Math.min(width, height) * 0.1))
+    if (margin <= 0) return image
+
+    const background = palette?.background || '#ffffff'
+    const innerWidth = width - margin * 2
+    const innerHeight = height - margin * 2
+
+    const inset = await sharp(image)
+      .resize(innerWidth, innerHeight, { fit: 'contain', background })
+      .toBuffer()
+
+    return sharp({
+      create: { width, height, channels: 3, background }
+    })
+      .composite([{ input: inset, left: margin, top: margin }])
+      .png()
+      .toBuffer()
+  }
+
+  private async applyBackgroundEnhancements(
+    image: Buffer,
     strategy: EnhancementStrategy
-  ): Promise<void> {
-    if (!strategy.changes.layout) return
-    
-    const layoutChanges = strategy.changes.layout
-    
-    // Apply grid changes
-    if (layoutChanges.grid) {
-      console.log('Applying grid:', layoutChanges.grid)
+  ): Promise<Buffer> {
+    if (!strategy.changes.background) return image
+
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+    const background = await this.renderBackground(strategy.changes.background, width, height)
+
+    // Multiply keeps dark content intact while the white page picks up
+    // the background colour underneath it
+    return sharp(background)
+      .composite([{ input: image, blend: 'multiply' }])
+      .png()
+      .toBuffer()
+  }
+
+  private async renderBackground(
+    background: BackgroundEnhancement,
+    width: number,
+    height: number
+  ): Promise<Buffer> {
+    const value = typeof background.value === 'string'
+      ? { colors: [background.value] }
+      : background.value
+    const colors = value.colors?.length ? value.colors : ['#f8f9fa']
+    const opacity = value.opacity ?? 1
+
+    const white = sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+
+    if (background.type === 'image' && value.imageUrl) {
+      const source = await downloadDocument(value.imageUrl)
+      const layer = await sharp(source)
+        .resize(width, height, { fit: 'cover' })
+        .ensureAlpha(opacity)
+        .png()
+        .toBuffer()
+      return white.composite([{ input: layer }]).png().toBuffer()
     }
-    
-    // Apply spacing changes
-    if (layoutChanges.spacing) {
-      console.log('Applying spacing:', layoutChanges.spacing)
+
+    let svgBody: string
+    switch (background.type) {
+      case 'gradient': {
+        const { x1, y1, x2, y2 } = this.gradientVector(value.direction)
+        const stops = colors
+          .map((color, i) => `<stop offset="${colors.length > 1 ? i / (colors.length - 1) : 0}" stop-color="${color}"/>`)
+          .join('')
+        svgBody = `<defs><linearGradient id="bg" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient></defs>` +
+          `<rect width="100%" height="100%" fill="url(#bg)" opacity="${opacity}"/>`
+        break
+      }
+      case 'pattern':
+        svgBody = this.patternSvg(value.pattern || 'dots', colors, opacity)
+        break
+      default:
+        svgBody = `<rect width="100%" height="100%" fill="${colors[0]}" opacity="${opacity}"/>`
     }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${svgBody}</svg>`
+    return white.composite([{ input: Buffer.from(svg) }]).png().toBuffer()
   }
 
-  private async applyBackgroundEnhancements(
-    document: unknown,
-    strategy: EnhancementStrategy
-  ): Promise<void> {
-    if (!strategy.changes.background) return
-    
-    const backgroundChanges = strategy.changes.background
-    
-    // Apply background changes
-    console.log('Applying background:', backgroundChanges)
+  private patternSvg(pattern: string, colors: string[], opacity: number): string {
+    const color = colors[0]
+    let tile: string
+    switch (pattern) {
+      case 'grid':
+      case 'squares':
+        tile = `<path d="M 24 0 L 0 0 0 24" fill="none" stroke="${color}" stroke-width="1"/>`
+        break
+      case 'lines':
+      case 'waves':
+        tile = `<line x1="0" y1="12" x2="24" y2="12" stroke="${color}" stroke-width="2"/>`
+        break
+      case 'triangles':
+      case 'diamonds':
+        tile = `<polygon points="12,2 22,22 2,22" fill="${color}"/>`
+        break
+      default:
+        tile = `<circle cx="12" cy="12" r="3" fill="${color}"/>`
+    }
+
+    return `<defs><pattern id="bg" width="24" height="24" patternUnits="userSpaceOnUse">${tile}</pattern></defs>` +
+      `<rect width="100%" height="100%" fill="${colors[1] || '#ffffff'}"/>` +
+      `<rect width="100%" height="100%" fill="url(#bg)" opacity="${Math.max(opacity, 0.05)}"/>`
   }
 
   private async applyDecorativeElements(
-    document: unknown,
+    image: Buffer,
     strategy: EnhancementStrategy
-  ): Promise<void> {
-    if (!strategy.changes.decorativeElements) return
-    
-    const elements = strategy.changes.decorativeElements
-    
-    // Add decorative elements
-    console.log('Adding decorative elements:', elements.length)
-  }
-}
\ No newline at end of file
+  ): Promise<Buffer> {
+    if (!strategy.changes.decorativeElements?.length) return image
+
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+    const shapes = strategy.changes.decorativeElements
+      .map(element => this.decorativeElementSvg(element, width, height))
+      .join('')
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes}</svg>`
+    return sharp(image)
+      .composite([{ input: Buffer.from(svg) }])
+      .png()
+      .toBuffer()
+  }
+
+  /**
+   * Enhancers place elements with percentage positions and pixel sizes,
+   * except dividers whose width is a percentage of the page.
+   */
+  private decorativeElementSvg(element: DecorativeElement, width: number, height: number): string {
+    const style = element.style
+    const elementWidth = element.type === 'divider'
+      ? (element.size.width / 100) * width
+      : element.size.width
+    const elementHeight = element.size.height
+    const x = Math.min(Math.max(0, (element.position.x / 100) * width), Math.max(0, width - elementWidth))
+    const y = Math.min(Math.max(0, (element.position.y / 100) * height), Math.max(0, height - elementHeight))
+    const fill = String(style.fill || style.color || '#d1d5db')
+    const opacity = Number(style.opacity ?? 1)
+    const rotation = Number(style.rotation || 0)
+    const cx = x + elementWidth / 2
+    const cy = y + elementHeight / 2
+    const transform = rotation ? ` transform="rotate(${rotation} ${cx} ${cy})"` : ''
+
+    if (element.type === 'divider') {
+      const dash = style.type === 'dotted' ? ' stroke-dasharray="2 4"' : style.type === 'dashed' ? ' stroke-dasharray="8 4"' : ''
+      return `<line x1="${x}" y1="${cy}" x2="${x + elementWidth}" y2="${cy}" stroke="${fill}" stroke-width="${Number(style.width || elementHeight)}" opacity="${opacity}"${dash}/>`
+    }
+
+    if (element.type === 'pattern') {
+      const dots: string[] = []
+      for (let dx = 6; dx < elementWidth; dx += 12) {
+        for (let dy = 6; dy < elementHeight; dy += 12) {
+          dots.push(style.pattern === 'lines'
+            ? `<line x1="${x + dx - 4}" y1="${y + dy}" x2="${x + dx + 4}" y2="${y + dy}" stroke="${fill}" stroke-width="1"/>`
+            : `<circle cx="${x + dx}" cy="${y + dy}" r="2" fill="${fill}"/>`)
+        }
+      }
+      return `<g opacity="${opacity}"${transform}>${dots.join('')}</g>`
+    }
+
+    const shape = element.type === 'icon' ? 'circle' : String(style.shape || 'rectangle')
+    switch (shape) {
+      case 'circle':
+        return `<ellipse cx="${cx}" cy="${cy}" rx="${elementWidth / 2}" ry="${elementHeight / 2}" fill="${fill}" opacity="${opacity}"${transform}/>`
+      case 'hexagon':
+      case 'star':
+      case 'badge': {
+        const points = this.polygonPoints(cx, cy, elementWidth / 2, elementHeight / 2, shape === 'star' ? 10 : 6, shape === 'star')
+        return `<polygon points="${points}" fill="${fill}" opacity="${opacity}"${transform}/>`
+      }
+      default:
+        return `<rect x="${x}" y="${y}" width="${elementWidth}" height="${elementHeight}" rx="${Number(style.borderRadius || 0)}" fill="${fill}" opacity="${opacity}"${transform}/>`
+    }
+  }
+
+  private polygonPoints(cx: number, cy: number, rx: number, ry: number, sides: number, star: boolean): string {
+    const points: string[] = []
+    for (let i = 0; i < sides; i++) {
+      const angle = (Math.PI * 2 * i) / sides - Math.PI / 2
+      const scale = star && i % 2 === 1 ? 0.45 : 1
+      points.push(`${(cx + Math.cos(angle) * rx * scale).toFixed(1)},${(cy + Math.sin(angle) * ry * scale).toFixed(1)}`)
+    }
+    return points.join(' ')
+  }
+
+  private gradientVector(direction?: string): { x1: number; y1: number; x2: number; y2: number } {
+    // CSS angles: 0deg points up, 90deg points right
+    const degrees = parseFloat(direction || '180') || 180
+    const radians = (degrees * Math.PI) / 180
+    const dx = Math.sin(radians) / 2
+    const dy = -Math.cos(radians) / 2
+    return { x1: 0.5 - dx, y1: 0.5 - dy, x2: 0.5 + dx, y2: 0.5 + dy }
+  }
+
+  private findPalette(strategies: EnhancementStrategy[]): ColorEnhancement['palette'] | undefined {
+    return strategies.find(s => s.changes.colors?.palette)?.changes.colors?.palette
+  }
+
+  private parseReplacements(
+    replacements: ColorEnhancement['replacements'] | Record<string, string> | undefined
+  ): Array<{ from: RGB; to: RGB }> {
+    if (!replacements) return []
+
+    // Maps don't survive JSON round-trips through the queue, so accept
+    // plain objects as well
+    const entries = replacements instanceof Map
+      ? Array.from(replacements.entries())
+      : Object.entries(replacements)
+
+    return entries
+      .map(([from, to]) => ({ from: this.hexToRgb(from), to: this.hexToRgb(to) }))
+      .filter((r): r is { from: RGB; to: RGB } => r.from !== null && r.to !== null)
+  }
+
+  private hexToRgb(hex: string): RGB | null {
+    const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex.trim())
+    if (!match) return null
+    return {
+      r: parseInt(match[1], 16),
+      g: parseInt(match[2], 16),
+      b: parseInt(match[3], 16)
+    }
+  }
+
+  private rgbToHex({ r, g, b }: RGB): string {
+    return '#' + [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')
+  }
+
+  private luminance({ r, g, b }: RGB): number {
+    return (0.299 * r + 0.587 * g + 0.114 * b) / 255
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+
+  private colorDistance(a: RGB, b: RGB): number {
+    return Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2)
+  }
+
+  private clampChannel(value: number): number {
+    return Math.max(0, Math.min(255, Math.round(value)))
+  }
+
+  private isPDF(buffer: Buffer): boolean {
+    return buffer.subarray(0, 4).toString('ascii') === '%PDF'
+  }
+}
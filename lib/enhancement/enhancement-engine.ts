@@ -1,11 +1,41 @@
 import { EnhancementPipeline } from './pipeline/enhancement-pipeline'
-import { PipelineContext, CompositionResult } from './pipeline/types'
+import { PipelineRunStore } from './pipeline/run-store'
+import { PipelineContext, CompositionResult, PipelineEvent, PipelineStage } from './pipeline/types'
+import { emitProgressUpdate } from '@/lib/websocket/server'
+import type { EnhancementProgress } from '@/lib/websocket/types'
+import { BrandKitStore } from '@/lib/brand-kits'
+import type { BrandKit } from '@/lib/brand-kits'
 
 export interface EnhancementEngineConfig {
   subscriptionTier: 'free' | 'basic' | 'pro' | 'premium'
   aiModel?: string
 }
 
+export interface EnhanceOptions {
+  signal?: AbortSignal
+  // Continue the document's last failed run instead of starting over. Queue
+  // workers should set it on retry attempts (`job.attemptsMade > 0`).
+  resume?: boolean
+  // The team the document belongs to, if any
+  organizationId?: string
+  // Re-run analysis even if this content was analysed before
+  bypassCache?: boolean
+}
+
+const PROGRESS_STAGES: Record<PipelineStage, EnhancementProgress['stage']> = {
+  'initial-analysis': 'analysis',
+  'enhancement-planning': 'planning',
+  'asset-generation': 'generation',
+  'final-composition': 'composition',
+}
+
+const PAGE_ACTIONS: Record<PipelineStage, string> = {
+  'initial-analysis': 'Analyzed',
+  'enhancement-planning': 'Planned',
+  'asset-generation': 'Generated assets for',
+  'final-composition': 'Composed',
+}
+
 export class EnhancementEngine {
   private config: EnhancementEngineConfig
   private tokensUsed: number = 0
@@ -58,6 +88,27 @@ export class EnhancementEngine {
     }
   }
 
+  // A named kit wins; the 'brand' colour scheme falls back to the workspace's
+  // default kit, so a team document uses the team's kits
+  private async resolveBrandKit(
+    userId: string,
+    settings?: any,
+    organizationId?: string
+  ): Promise<BrandKit | undefined> {
+    if (settings?.brandKitId) {
+      const kit = await BrandKitStore.get(userId, settings.brandKitId, organizationId)
+      if (!kit) {
+        throw new Error(`Brand kit ${settings.brandKitId} not found`)
+      }
+      return kit
+    }
+    // The wizard sends colorScheme, the public API colorPalette
+    if (settings?.colorScheme === 'brand' || settings?.colorPalette === 'brand') {
+      return (await BrandKitStore.getDefault(userId, organizationId)) || undefined
+    }
+    return undefined
+  }
+
   getTokensUsed(): number {
     return this.tokensUsed
   }
@@ -68,25 +119,49 @@ export class EnhancementEngine {
     userId: string,
     originalFileUrl: string,
     fileType: string,
-    settings?: any
+    settings?: any,
+    options: EnhanceOptions = {}
   ): Promise<CompositionResult> {
+    const { signal, resume, organizationId, bypassCache } = options
+
+    const previousRun = resume ? await PipelineRunStore.findResumable(documentId) : null
+
     const context: PipelineContext = {
       documentId,
       userId,
+      organizationId,
       subscriptionTier: this.config.subscriptionTier,
       originalFileUrl,
       fileType,
       startTime: Date.now(),
+      bypassCache,
       settings: {
         ...settings,
         aiModel: this.config.aiModel,
       },
+      // A resumed run keeps the kit it started with
+      brandKit: previousRun ? undefined : await this.resolveBrandKit(userId, settings, organizationId),
     }
 
-    const pipeline = new EnhancementPipeline(context)
+    const pipeline = previousRun
+      ? new EnhancementPipeline(previousRun.context, signal, previousRun)
+      : new EnhancementPipeline(context, signal)
     
     // Subscribe to progress events if needed
-    pipeline.on('pipeline-event', (event) => {
+    pipeline.on('pipeline-event', (event: PipelineEvent) => {
+      if (event.type === 'page-progress') {
+        emitProgressUpdate(documentId, {
+          documentId,
+          stage: PROGRESS_STAGES[event.stage],
+          progress: event.progress,
+          message: `${PAGE_ACTIONS[event.stage]} page ${event.pageNumber} of ${event.pageCount}`,
+          details: {
+            currentPage: event.pageNumber,
+            totalPages: event.pageCount,
+          },
+        })
+        return
+      }
       console.log('Pipeline event:', event.type)
     })
 
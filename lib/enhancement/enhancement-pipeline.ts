@@ -1,18 +1,26 @@
 import { DocumentAnalysis } from '@/lib/ai/types'
-import { DocumentAnalysisEngine } from '@/lib/analysis'
+import { DocumentAnalysisEngine, DocumentContext } from '@/lib/analysis'
+import { ImageLoader } from '@/lib/analysis/utils/image-loader'
 import { AIService } from '@/lib/ai/ai-service'
 import { createClient } from '@/lib/supabase/server'
+import { downloadDocument } from '@/lib/r2'
+import { ocrService } from '@/lib/ocr'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
 import { 
   EnhancementRequest, 
   EnhancementResult, 
   EnhancementStrategy,
   EnhancementPipeline as IPipeline,
-  EnhancementPreferences
+  EnhancementPreferences,
+  QualityImprovement
 } from './types'
 import { StrategyGenerator } from './strategy-generator'
 import { EnhancementApplicator } from './enhancement-applicator'
 import { QualityScorer } from './quality-scorer'
 
+// Enough resolution for OCR and the pixel analyzers on a letter page
+const ANALYSIS_DPI = 150
+
 export class EnhancementPipeline implements IPipeline {
   private analysisEngine: DocumentAnalysisEngine
   private strategyGenerator: StrategyGenerator
@@ -39,13 +47,18 @@ export class EnhancementPipeline implements IPipeline {
       const strategies = await this.generateStrategies(analysis, request.preferences)
       
       // Step 3: Apply enhancements
-      const enhancedUrl = await this.applyEnhancements(
-        request.documentId,
-        strategies
-      )
+      const originalUrl = await this.getOriginalUrl(request.documentId)
+      const enhancedUrl = await this.applicator.apply(originalUrl, strategies, {
+        userId: request.userId,
+        documentId: request.documentId
+      })
       
       // Step 4: Evaluate quality improvement
-      const qualityScore = await this.scorer.calculateImprovement(request.documentId, enhancedUrl)
+      const qualityScore = await this.scorer.calculateImprovement(
+        originalUrl,
+        enhancedUrl,
+        request.preferences?.documentType
+      )
       
       // Step 5: Store results
       await this.storeResults(request, strategies, enhancedUrl, qualityScore)
@@ -87,27 +100,32 @@ export class EnhancementPipeline implements IPipeline {
   }
 
   async analyze(request: EnhancementRequest): Promise<DocumentAnalysis> {
-    // Get document URL from database
-    const supabase = await createClient()
-    const { data: enhancement } = await supabase
-      .from('enhancements')
-      .select('original_url')
-      .eq('id', request.documentId)
-      .single()
-    
-    if (!enhancement?.original_url) {
-      throw new Error('Document not found')
+    const originalUrl = await this.getOriginalUrl(request.documentId)
+    const original = await downloadDocument(originalUrl)
+
+    // PDFs are analysed from their first page
+    const isPDF = original.subarray(0, 4).toString('ascii') === '%PDF'
+    const page = isPDF
+      ? (await rasterizePDF(original, { dpi: ANALYSIS_DPI, pages: [1] }))[0]?.buffer
+      : original
+    if (!page) {
+      throw new Error('PDF has no pages to analyze')
     }
-    
-    // Analyze the document
-    const context = {
-      imageData: null, // Would be loaded from URL
-      type: 'worksheet' as const,  // Default to worksheet - should be detected from document
+
+    const [image, text] = await Promise.all([
+      ImageLoader.loadImageFromBuffer(page),
+      this.recognizeText(page)
+    ])
+
+    const context: DocumentContext = {
+      imageData: image as unknown as ImageData,
+      text,
+      type: request.preferences?.documentType || 'worksheet',
       metadata: {
-        width: 1920,  // Default values - should be extracted from actual document
-        height: 1080,
-        format: 'pdf',
-        size: 1024000
+        width: image.width,
+        height: image.height,
+        format: isPDF ? 'pdf' : 'image',
+        size: original.length
       }
     }
     
@@ -133,11 +151,37 @@ export class EnhancementPipeline implements IPipeline {
     return scores.improvement
   }
 
+  private async recognizeText(image: Buffer): Promise<string | undefined> {
+    try {
+      const { text } = await ocrService.recognize(image)
+      return text.trim() || undefined
+    } catch (error) {
+      // The pixel analyzers still work without text
+      console.error('OCR failed:', error)
+      return undefined
+    }
+  }
+
+  private async getOriginalUrl(documentId: string): Promise<string> {
+    const supabase = await createClient()
+    const { data: enhancement } = await supabase
+      .from('enhancements')
+      .select('original_url')
+      .eq('id', documentId)
+      .single()
+    
+    if (!enhancement?.original_url) {
+      throw new Error('Document not found')
+    }
+    
+    return enhancement.original_url
+  }
+
   private async storeResults(
     request: EnhancementRequest,
     strategies: EnhancementStrategy[],
     enhancedUrl: string,
-    qualityScore: { before: number; after: number; improvement: number }
+    qualityScore: QualityImprovement
   ): Promise<void> {
     const supabase = await createClient()
     
@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { EnhancementPipeline } from './enhancement-pipeline'
-import { EnhancementRequest, EnhancementResult } from './types'
+import { EnhancementRequest, EnhancementResult, QualityImprovement } from './types'
 import { DocumentAnalysis } from '@/lib/ai/types'
 
 export class EnhancementService {
@@ -123,11 +123,7 @@ export class EnhancementService {
         changes: string[]
       }>
       appliedStrategies?: string[]
-      qualityScore?: {
-        before: number
-        after: number
-        improvement: number
-      }
+      qualityScore?: QualityImprovement
       metadata?: {
         processingTime?: number
         enhancementCount?: number
@@ -6,6 +6,7 @@ import { EnhancementPlanningStage } from '../stages/enhancement-planning'
 import { AssetGenerationStage } from '../stages/asset-generation'
 import { FinalCompositionStage } from '../stages/final-composition'
 import { createClient } from '@/lib/supabase/server'
+import { PipelineCancelledError } from '../cancellation'
 import type {
   PipelineContext,
   PipelineEvent,
@@ -18,11 +19,14 @@ import type {
 
 // Mock dependencies
 jest.mock('../cache')
-jest.mock('../stages/initial-analysis')
-jest.mock('../stages/enhancement-planning')
-jest.mock('../stages/asset-generation')
-jest.mock('../stages/final-composition')
-jest.mock('@/lib/supabase/server')
+jest.mock('../stages/initial-analysis', () => ({ InitialAnalysisStage: jest.fn() }))
+jest.mock('../stages/enhancement-planning', () => ({ EnhancementPlanningStage: jest.fn() }))
+jest.mock('../stages/asset-generation', () => ({ AssetGenerationStage: jest.fn() }))
+jest.mock('../stages/final-composition', () => ({ FinalCompositionStage: jest.fn() }))
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+jest.mock('../version-history')
+jest.mock('../run-store')
+jest.mock('@/lib/cache/init')
 
 const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>
 const mockPipelineCache = PipelineCache as jest.MockedClass<typeof PipelineCache>
@@ -208,12 +212,14 @@ describe('EnhancementPipeline', () => {
     mockEnhancementPlanningStage.mockImplementation(() => mockEnhancementPlanningInstance)
 
     mockAssetGenerationInstance = {
-      execute: jest.fn().mockResolvedValue(mockGeneratedAssets)
+      execute: jest.fn().mockResolvedValue(mockGeneratedAssets),
+      discardUploads: jest.fn().mockResolvedValue(undefined)
     }
     mockAssetGenerationStage.mockImplementation(() => mockAssetGenerationInstance)
 
     mockFinalCompositionInstance = {
-      execute: jest.fn().mockResolvedValue(mockCompositionResult)
+      execute: jest.fn().mockResolvedValue(mockCompositionResult),
+      discardUploads: jest.fn().mockResolvedValue(undefined)
     }
     mockFinalCompositionStage.mockImplementation(() => mockFinalCompositionInstance)
 
@@ -433,6 +439,22 @@ describe('EnhancementPipeline', () => {
 
       expect(abortSpy).toHaveBeenCalled()
     })
+
+    it('should discard partial uploads when the caller aborts mid-run', async () => {
+      const controller = new AbortController()
+      pipeline = new EnhancementPipeline(mockContext, controller.signal)
+      mockAssetGenerationInstance.execute.mockImplementation(async () => {
+        controller.abort()
+        throw new Error('aborted')
+      })
+
+      await expect(pipeline.execute()).rejects.toBeInstanceOf(PipelineCancelledError)
+
+      expect(mockAssetGenerationInstance.discardUploads).toHaveBeenCalled()
+      expect(mockFinalCompositionInstance.discardUploads).toHaveBeenCalled()
+      expect(mockFinalCompositionInstance.execute).not.toHaveBeenCalled()
+      expect(pipeline.getState().status).toBe('cancelled')
+    })
   })
 
   describe('Stage Execution', () => {
@@ -441,7 +463,8 @@ describe('EnhancementPipeline', () => {
 
       expect(mockInitialAnalysisInstance.execute).toHaveBeenCalledWith(
         mockContext,
-        expect.any(AbortSignal)
+        expect.any(AbortSignal),
+        expect.any(Function)
       )
     })
 
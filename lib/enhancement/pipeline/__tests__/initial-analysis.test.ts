@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { PDFDocument } from 'pdf-lib'
+import { InitialAnalysisStage } from '../stages/initial-analysis'
+import { PipelineContext } from '../types'
+import type { AIService } from '@/lib/ai/ai-service'
+import { downloadDocument } from '@/lib/r2'
+import { ocrService, OCRResult } from '@/lib/ocr'
+import { rasterizePDF, RasterizedPage } from '@/lib/utils/pdf-rasterizer'
+import { parseOfficeDocument, renderOfficePages, OfficeDocument } from '@/lib/office'
+
+// jest.setup.js stubs these globally; the pixel pass and PDF metadata need the real ones
+jest.unmock('sharp')
+jest.unmock('pdf-lib')
+jest.mock('@/lib/ai/ai-service', () => ({ AIService: jest.fn() }))
+jest.mock('@/lib/r2', () => ({ downloadDocument: jest.fn() }))
+jest.mock('@/lib/cache/document-cache', () => ({ contentHashOf: () => 'content-hash' }))
+jest.mock('@/lib/ocr', () => ({ ocrService: { recognize: jest.fn() } }))
+jest.mock('@/lib/utils/pdf-rasterizer', () => ({ rasterizePDF: jest.fn() }))
+jest.mock('@/lib/office', () => ({
+  isOfficeFormat: (fileType: string) => fileType === 'pptx' || fileType === 'docx',
+  parseOfficeDocument: jest.fn(),
+  renderOfficePages: jest.fn()
+}))
+
+const mockDownloadDocument = downloadDocument as jest.MockedFunction<typeof downloadDocument>
+const mockRecognize = ocrService.recognize as jest.MockedFunction<typeof ocrService.recognize>
+const mockRasterizePDF = rasterizePDF as jest.MockedFunction<typeof rasterizePDF>
+const mockParseOfficeDocument = parseOfficeDocument as jest.MockedFunction<typeof parseOfficeDocument>
+const mockRenderOfficePages = renderOfficePages as jest.MockedFunction<typeof renderOfficePages>
+
+// White page, optionally with a dark block so it isn't blank
+async function renderPage(pageNumber: number, withContent: boolean): Promise<RasterizedPage> {
+  const block = await sharp({
+    create: { width: 20, height: 10, channels: 3, background: '#222222' }
+  }).png().toBuffer()
+
+  const buffer = await sharp({
+    create: { width: 60, height: 80, channels: 3, background: '#ffffff' }
+  })
+    .composite(withContent ? [{ input: block, left: 10, top: 10 }] : [])
+    .png()
+    .toBuffer()
+
+  return { pageNumber, buffer, width: 60, height: 80, widthPt: 43, heightPt: 58, dpi: 100 }
+}
+
+function ocrPage(lines: Array<{ text: string; y: number; height: number }>): OCRResult {
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    confidence: 90,
+    width: 60,
+    height: 80,
+    blocks: [],
+    words: [],
+    lines: lines.map(({ text, y, height }) => ({
+      text,
+      confidence: 90,
+      bbox: { x: 5, y, width: 50, height },
+      words: []
+    }))
+  }
+}
+
+function createContext(fileType: string): PipelineContext {
+  return {
+    documentId: 'doc-1',
+    userId: 'user-1',
+    subscriptionTier: 'pro',
+    originalFileUrl: `https://files.example.com/original/user-1/worksheet.${fileType}`,
+    fileType,
+    startTime: Date.now()
+  }
+}
+
+describe('InitialAnalysisStage', () => {
+  let analyzeImage: jest.Mock
+  let stage: InitialAnalysisStage
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    analyzeImage = jest.fn().mockResolvedValue({ analysis: '{}' })
+    stage = new InitialAnalysisStage({ analyzeImage } as unknown as AIService)
+  })
+
+  it('analyses every page of a PDF and skips the vision pass on blank pages', async () => {
+    const pdf = await PDFDocument.create()
+    for (let i = 0; i < 3; i++) pdf.addPage([612, 792])
+    mockDownloadDocument.mockResolvedValue(Buffer.from(await pdf.save()))
+    const rasterized = [await renderPage(1, true), await renderPage(2, false), await renderPage(3, true)]
+    mockRasterizePDF.mockResolvedValue(rasterized)
+    mockRecognize
+      .mockResolvedValueOnce(ocrPage([
+        { text: 'Fractions Worksheet', y: 5, height: 16 },
+        { text: 'Shade half of each shape.', y: 30, height: 10 },
+        { text: 'Name and date go here.', y: 45, height: 10 }
+      ]))
+      .mockResolvedValueOnce(null as unknown as OCRResult)
+      .mockResolvedValueOnce(ocrPage([{ text: 'Answer key on the back.', y: 30, height: 10 }]))
+    const onPageProgress = jest.fn()
+
+    const result = await stage.execute(createContext('pdf'), undefined, onPageProgress)
+
+    expect(mockDownloadDocument).toHaveBeenCalledWith('https://files.example.com/original/user-1/worksheet.pdf')
+    expect(mockRecognize).toHaveBeenCalledTimes(3)
+    expect(result.metadata).toMatchObject({
+      pageCount: 3,
+      dimensions: { width: 612, height: 792 },
+      detailedAnalysis: expect.objectContaining({ color: expect.any(Object), enhancedLayout: expect.any(Object) })
+    })
+
+    expect(result.pages?.map(page => page.isBlank)).toEqual([false, true, false])
+    expect(result.pages?.[0].score).toBeDefined()
+    expect(result.pages?.[1].score).toBeUndefined()
+    expect(result.pages?.[2].score).toBeDefined()
+    expect(result.pages?.[0].contentBounds).toEqual({ x: 10, y: 10, width: 20, height: 10 })
+
+    const visionPages = analyzeImage.mock.calls.map(([buffer]) => buffer)
+    expect(visionPages).toContain(rasterized[0].buffer)
+    expect(visionPages).toContain(rasterized[2].buffer)
+    expect(visionPages).not.toContain(rasterized[1].buffer)
+
+    expect(result.extractedText.title).toBe('Fractions Worksheet')
+    expect(result.extractedText.bodyText).toContain('Answer key on the back.')
+    expect(result.extractedText.regions).toContainEqual(
+      expect.objectContaining({ text: 'Answer key on the back.', pageNumber: 3 })
+    )
+    expect(onPageProgress).toHaveBeenLastCalledWith(3, 3)
+  })
+
+  it.each(['pptx', 'docx'] as const)('reads text, fonts and theme from %s files instead of OCR', async format => {
+    const officeDocument: OfficeDocument = {
+      format,
+      fonts: ['Calibri', 'Georgia'],
+      theme: { name: 'Office', colors: { accent1: '#4472c4' }, headingFont: 'Georgia', bodyFont: 'Calibri' },
+      pages: [1, 2].map(pageNumber => ({
+        pageNumber,
+        width: 720,
+        height: 540,
+        textBlocks: [
+          {
+            text: pageNumber === 1 ? 'Plant Life Cycles' : 'Seed to Flower',
+            role: 'title' as const,
+            bounds: { x: 36, y: 36, width: 648, height: 72 },
+            runs: [],
+            alignment: 'left' as const,
+            estimatedBounds: format === 'docx'
+          },
+          {
+            text: `Notes for page ${pageNumber}`,
+            role: 'body' as const,
+            bounds: { x: 36, y: 144, width: 648, height: 288 },
+            runs: [],
+            alignment: 'left' as const,
+            estimatedBounds: format === 'docx'
+          }
+        ],
+        images: pageNumber === 1
+          ? [{ id: 'img-1', path: 'media/image1.png', contentType: 'image/png', bounds: { x: 400, y: 200, width: 200, height: 150 }, data: Buffer.alloc(0) }]
+          : []
+      }))
+    }
+    mockDownloadDocument.mockResolvedValue(Buffer.from('PK'))
+    mockParseOfficeDocument.mockResolvedValue(officeDocument)
+    mockRenderOfficePages.mockResolvedValue([await renderPage(1, true), await renderPage(2, true)])
+
+    const result = await stage.execute(createContext(format))
+
+    expect(mockParseOfficeDocument).toHaveBeenCalledWith(Buffer.from('PK'), format)
+    expect(mockRecognize).not.toHaveBeenCalled()
+    expect(result.extractedText).toMatchObject({
+      title: 'Plant Life Cycles',
+      headings: ['Seed to Flower'],
+      bodyText: ['Notes for page 1', 'Notes for page 2']
+    })
+    expect(result.extractedText.regions).toContainEqual(
+      expect.objectContaining({ text: 'Notes for page 2', pageNumber: 2, bounds: { x: 0.05, y: 144 / 540, width: 0.9, height: 288 / 540 } })
+    )
+    expect(result.metadata).toMatchObject({
+      pageCount: 2,
+      dimensions: { width: 720, height: 540 },
+      hasImages: true,
+      imageCount: 1,
+      fonts: ['Calibri', 'Georgia'],
+      theme: officeDocument.theme
+    })
+    expect(result.layoutAnalysis.sections.map(section => section.id)).toEqual(
+      expect.arrayContaining(['office-text-1', 'office-text-2', 'office-image-1'])
+    )
+    expect(result.pages).toHaveLength(2)
+  })
+})
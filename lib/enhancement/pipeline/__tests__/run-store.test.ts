@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { PipelineRunStore } from '../run-store'
+import type { PipelineState, EnhancementPlan } from '../types'
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+
+function createState(overrides: Partial<PipelineState> = {}): PipelineState {
+  return {
+    id: 'pipeline-doc-1-1',
+    context: {
+      documentId: 'doc-1',
+      userId: 'user-1',
+      subscriptionTier: 'pro',
+      originalFileUrl: 'https://cdn.test/doc-1.pdf',
+      fileType: 'pdf',
+      startTime: 1000
+    },
+    currentStage: 'final-composition',
+    status: 'failed',
+    progress: 80,
+    stages: {
+      enhancementPlanning: {
+        status: 'completed',
+        result: { strategy: { approach: 'subtle' } } as unknown as EnhancementPlan,
+        startTime: 1100,
+        endTime: 1200
+      },
+      finalComposition: {
+        status: 'failed',
+        error: new Error('Compositor timed out'),
+        startTime: 1300,
+        endTime: 1400
+      }
+    },
+    errors: [
+      { stage: 'final-composition', message: 'Compositor timed out', timestamp: new Date('2025-01-22T10:00:00Z') }
+    ],
+    generateAssets: false,
+    createdAt: new Date('2025-01-22T09:59:00Z'),
+    updatedAt: new Date('2025-01-22T10:00:00Z'),
+    ...overrides
+  }
+}
+
+describe('PipelineRunStore', () => {
+  it('round-trips state through its row, keeping stage outputs', () => {
+    const state = createState()
+
+    const restored = PipelineRunStore.fromRow(JSON.parse(JSON.stringify(PipelineRunStore.toRow(state))))
+
+    expect(restored.stages.enhancementPlanning).toEqual(state.stages.enhancementPlanning)
+    expect(restored.errors[0].timestamp).toEqual(new Date('2025-01-22T10:00:00Z'))
+    expect(restored.updatedAt).toEqual(state.updatedAt)
+    expect(restored.generateAssets).toBe(false)
+    expect(restored.context).toEqual(state.context)
+  })
+
+  it('stores stage errors as messages and revives them as errors', () => {
+    const row = PipelineRunStore.toRow(createState())
+    expect(row.stages.finalComposition?.error).toBe('Compositor timed out')
+
+    const restored = PipelineRunStore.fromRow(row)
+    expect(restored.stages.finalComposition?.error).toBeInstanceOf(Error)
+    expect(restored.stages.finalComposition?.error?.message).toBe('Compositor timed out')
+  })
+
+  it('leaves the asset decision open for runs that never reached it', () => {
+    const row = PipelineRunStore.toRow(createState({ generateAssets: undefined }))
+
+    expect(row.generate_assets).toBeNull()
+    expect(PipelineRunStore.fromRow(row).generateAssets).toBeUndefined()
+  })
+})
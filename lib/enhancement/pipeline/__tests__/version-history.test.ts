@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { EnhancementVersionHistory, EnhancementVersion, VersionScores } from '../version-history'
+import type { EnhancementPlan } from '../types'
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+
+function createScores(overall: number): VersionScores {
+  return {
+    colorScore: { before: 50, after: overall },
+    typographyScore: { before: 50, after: 70 },
+    layoutScore: { before: 50, after: 70 },
+    visualScore: { before: 50, after: 70 },
+    overallScore: { before: 50, after: overall }
+  }
+}
+
+function createPlan(approach: EnhancementPlan['strategy']['approach'], primaryColor: string) {
+  return {
+    strategy: { approach, priority: ['color', 'layout'], estimatedImpact: 60 },
+    colorEnhancements: { primaryColor, secondaryColor: '#ffffff' }
+  } as unknown as EnhancementPlan
+}
+
+function createVersion(overrides: Partial<EnhancementVersion>): EnhancementVersion {
+  return {
+    id: 'version-1',
+    documentId: 'doc-1',
+    userId: 'user-1',
+    versionNumber: 1,
+    settings: { targetStyle: 'modern', quality: 'standard' },
+    plan: createPlan('subtle', '#112233'),
+    scores: createScores(70),
+    enhancedFileUrl: 'https://cdn.test/v1.png',
+    createdAt: '2025-01-21T10:00:00Z',
+    ...overrides
+  }
+}
+
+describe('EnhancementVersionHistory.diffVersions', () => {
+  it('lists changed settings and plan fields by path', () => {
+    const from = createVersion({})
+    const to = createVersion({
+      id: 'version-2',
+      versionNumber: 2,
+      settings: { targetStyle: 'playful', quality: 'standard', generateAssets: true },
+      plan: createPlan('dramatic', '#112233')
+    })
+
+    const diff = EnhancementVersionHistory.diffVersions(from, to)
+
+    expect(diff.from).toEqual({ id: 'version-1', versionNumber: 1 })
+    expect(diff.to).toEqual({ id: 'version-2', versionNumber: 2 })
+    expect(diff.settings).toEqual([
+      { path: 'generateAssets', from: undefined, to: true },
+      { path: 'targetStyle', from: 'modern', to: 'playful' }
+    ])
+    expect(diff.plan).toEqual([
+      { path: 'strategy.approach', from: 'subtle', to: 'dramatic' }
+    ])
+  })
+
+  it('compares the resulting score of each version', () => {
+    const diff = EnhancementVersionHistory.diffVersions(
+      createVersion({ scores: createScores(72) }),
+      createVersion({ scores: createScores(85) })
+    )
+
+    expect(diff.scores.overallScore).toEqual({ from: 72, to: 85, delta: 13 })
+    expect(diff.scores.layoutScore).toEqual({ from: 70, to: 70, delta: 0 })
+  })
+
+  it('treats arrays as single values', () => {
+    const reordered = createPlan('subtle', '#112233')
+    reordered.strategy.priority = ['layout', 'color']
+
+    const diff = EnhancementVersionHistory.diffVersions(
+      createVersion({}),
+      createVersion({ plan: reordered })
+    )
+
+    expect(diff.plan).toEqual([
+      { path: 'strategy.priority', from: ['color', 'layout'], to: ['layout', 'color'] }
+    ])
+  })
+
+  it('reports every plan field when one version has no plan', () => {
+    const diff = EnhancementVersionHistory.diffVersions(
+      createVersion({ plan: undefined }),
+      createVersion({})
+    )
+
+    expect(diff.plan.map(change => change.path)).toContain('colorEnhancements.primaryColor')
+    expect(diff.plan.every(change => change.from === undefined)).toBe(true)
+  })
+})
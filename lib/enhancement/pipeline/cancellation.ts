@@ -0,0 +1,17 @@
+/**
+ * Thrown when a pipeline run stops because its abort signal fired. Stages
+ * rethrow it (and anything else raised after the signal fired) unwrapped, so
+ * callers can tell a cancelled run from a failed one.
+ */
+export class PipelineCancelledError extends Error {
+  constructor(message = 'Enhancement cancelled') {
+    super(message)
+    this.name = 'PipelineCancelledError'
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PipelineCancelledError()
+  }
+}
@@ -14,7 +14,19 @@ import { EnhancementPlanningStage } from './stages/enhancement-planning'
 import { AssetGenerationStage } from './stages/asset-generation'
 import { FinalCompositionStage } from './stages/final-composition'
 import { PipelineCache } from './cache'
+import { PipelineCancelledError, throwIfCancelled } from './cancellation'
+import { EnhancementVersionHistory } from './version-history'
+import { PipelineRunStore } from './run-store'
 import { createClient } from '@/lib/supabase/server'
+import { enhancementCache } from '@/lib/cache/init'
+
+// Share of overall progress each stage accounts for
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+  'initial-analysis': 20,
+  'enhancement-planning': 30,
+  'asset-generation': 30,
+  'final-composition': 20,
+}
 
 export class EnhancementPipeline extends EventEmitter {
   private state: PipelineState
@@ -27,16 +39,24 @@ export class EnhancementPipeline extends EventEmitter {
   }
   private abortController: AbortController
 
-  constructor(context: PipelineContext) {
+  // `signal` lets the caller (e.g. a queue worker) cancel the run from outside.
+  // `savedState` continues an earlier run; use `EnhancementPipeline.resume`.
+  constructor(context: PipelineContext, signal?: AbortSignal, savedState?: PipelineState) {
     super()
     
-    this.state = this.initializeState(context)
+    this.state = savedState ? this.restoreState(savedState) : this.initializeState(context)
     this.cache = new PipelineCache(context.documentId)
     this.abortController = new AbortController()
     
+    if (signal?.aborted) {
+      this.cancel()
+    } else {
+      signal?.addEventListener('abort', () => this.cancel(), { once: true })
+    }
+    
     // Initialize stages
     this.stages = {
-      initialAnalysis: new InitialAnalysisStage(),
+      initialAnalysis: new InitialAnalysisStage(undefined, enhancementCache),
       enhancementPlanning: new EnhancementPlanningStage(),
       assetGeneration: new AssetGenerationStage(),
       finalComposition: new FinalCompositionStage(),
@@ -57,8 +77,48 @@ export class EnhancementPipeline extends EventEmitter {
     }
   }
 
+  /**
+   * Continues a persisted run from the stage that failed. Completed stages
+   * are not rerun; their stored outputs feed the remaining stages.
+   */
+  static async resume(runId: string, signal?: AbortSignal): Promise<EnhancementPipeline> {
+    const saved = await PipelineRunStore.load(runId)
+    
+    if (!saved) {
+      throw new Error(`Pipeline run ${runId} not found`)
+    }
+    
+    if (saved.status === 'completed') {
+      throw new Error(`Pipeline run ${runId} has already completed`)
+    }
+    
+    return new EnhancementPipeline(saved.context, signal, saved)
+  }
+
+  // Keeps the outputs of completed stages; everything else runs again
+  private restoreState(saved: PipelineState): PipelineState {
+    const stages: PipelineState['stages'] = {}
+    
+    for (const key of Object.keys(saved.stages) as (keyof PipelineState['stages'])[]) {
+      const stage = saved.stages[key]
+      if (stage?.status === 'completed') {
+        Object.assign(stages, { [key]: stage })
+      }
+    }
+    
+    return {
+      ...saved,
+      status: 'pending',
+      stages,
+      updatedAt: new Date(),
+    }
+  }
+
   async execute(): Promise<CompositionResult> {
+    const signal = this.abortController.signal
+    
     try {
+      throwIfCancelled(signal)
       this.updateStatus('running')
       
       // Stage 1: Initial Analysis
@@ -70,7 +130,8 @@ export class EnhancementPipeline extends EventEmitter {
         
         const result = await this.stages.initialAnalysis.execute(
           this.state.context,
-          this.abortController.signal
+          this.abortController.signal,
+          (pageNumber, pageCount) => this.reportPageProgress('initial-analysis', pageNumber, pageCount)
         )
         
         await this.cache.setAnalysis(result)
@@ -83,6 +144,7 @@ export class EnhancementPipeline extends EventEmitter {
       }
       
       // Stage 2: Enhancement Planning
+      throwIfCancelled(signal)
       const enhancementPlan = await this.runStage('enhancement-planning', async () => {
         const cached = await this.cache.getPlan()
         if (cached && !this.isExpired(cached.timestamp)) {
@@ -101,7 +163,12 @@ export class EnhancementPipeline extends EventEmitter {
       
       // Stage 3: Asset Generation (can be skipped for basic tiers)
       let generatedAssets: GeneratedAssets | null = null
-      if (this.shouldGenerateAssets()) {
+      throwIfCancelled(signal)
+      // Decided once per run, so a resumed run makes the same choice
+      if (this.state.generateAssets === undefined) {
+        this.state.generateAssets = this.shouldGenerateAssets()
+      }
+      if (this.state.generateAssets) {
         generatedAssets = await this.runStage('asset-generation', async () => {
           const cached = await this.cache.getAssets()
           if (cached && !this.isExpired(cached.timestamp)) {
@@ -121,20 +188,24 @@ export class EnhancementPipeline extends EventEmitter {
       }
       
       // Stage 4: Final Composition
+      throwIfCancelled(signal)
       const compositionResult = await this.runStage('final-composition', async () => {
         return await this.stages.finalComposition.execute(
           this.state.context,
           analysisResult,
           enhancementPlan,
           generatedAssets,
-          this.abortController.signal
+          this.abortController.signal,
+          (pageNumber, pageCount) => this.reportPageProgress('final-composition', pageNumber, pageCount)
         )
       })
       
       // Save pipeline results
+      throwIfCancelled(signal)
       await this.savePipelineResults(compositionResult)
       
       this.updateStatus('completed')
+      await this.persistState()
       this.emitEvent({ 
         type: 'pipeline-completed', 
         result: compositionResult 
@@ -142,12 +213,19 @@ export class EnhancementPipeline extends EventEmitter {
       
       return compositionResult
     } catch (error) {
+      if (signal.aborted) {
+        await this.discardPartialResults()
+        await this.persistState()
+        throw error instanceof PipelineCancelledError ? error : new PipelineCancelledError()
+      }
+      
       this.updateStatus('failed')
       this.state.errors.push({
         stage: this.state.currentStage,
         message: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date(),
       })
+      await this.persistState()
       
       this.emitEvent({ 
         type: 'pipeline-failed', 
@@ -163,6 +241,14 @@ export class EnhancementPipeline extends EventEmitter {
     executor: () => Promise<T>
   ): Promise<T> {
     this.state.currentStage = stage
+    
+    // Finished by the run this one resumes
+    const previous = this.state.stages[this.getStageKey(stage)]
+    if (previous?.status === 'completed') {
+      this.updateProgress(stage)
+      return previous.result as T
+    }
+    
     this.state.stages[this.getStageKey(stage)] = {
       status: 'running',
       startTime: Date.now(),
@@ -185,6 +271,7 @@ export class EnhancementPipeline extends EventEmitter {
       }
       
       this.updateProgress(stage)
+      await this.persistState()
       
       this.emitEvent({ 
         type: 'stage-completed', 
@@ -224,13 +311,6 @@ export class EnhancementPipeline extends EventEmitter {
   }
 
   private updateProgress(completedStage: PipelineStage) {
-    const stageWeights: Record<PipelineStage, number> = {
-      'initial-analysis': 20,
-      'enhancement-planning': 30,
-      'asset-generation': 30,
-      'final-composition': 20,
-    }
-    
     let progress = 0
     const stages: PipelineStage[] = [
       'initial-analysis',
@@ -242,7 +322,7 @@ export class EnhancementPipeline extends EventEmitter {
     for (const stage of stages) {
       const stageState = this.state.stages[this.getStageKey(stage)]
       if (stageState?.status === 'completed') {
-        progress += stageWeights[stage]
+        progress += STAGE_WEIGHTS[stage]
       }
       if (stage === completedStage) {
         break
@@ -256,6 +336,21 @@ export class EnhancementPipeline extends EventEmitter {
     })
   }
 
+  // Stages that work page by page report each page as a share of their weight
+  private reportPageProgress(stage: PipelineStage, pageNumber: number, pageCount: number) {
+    const progress = Math.round(
+      this.state.progress + STAGE_WEIGHTS[stage] * (pageNumber / pageCount)
+    )
+    
+    this.emitEvent({
+      type: 'page-progress',
+      stage,
+      pageNumber,
+      pageCount,
+      progress,
+    })
+  }
+
   private updateStatus(status: PipelineStatus) {
     this.state.status = status
     this.state.updatedAt = new Date()
@@ -306,7 +401,7 @@ export class EnhancementPipeline extends EventEmitter {
   }
 
   private async savePipelineResults(result: CompositionResult) {
-    const supabase = createClient()
+    const supabase = await createClient()
     
     await supabase
       .from('enhancement_pipelines')
@@ -324,12 +419,59 @@ export class EnhancementPipeline extends EventEmitter {
         metadata: {
           context: this.state.context,
           improvements: result.improvements,
+          // Kept so exports can rebuild located text as editable text boxes
+          extractedText: this.state.stages.initialAnalysis?.result?.extractedText,
+          layeredFileUrl: result.layeredFileUrl,
+          accessiblePdfUrl: result.accessiblePdfUrl,
+          accessibility: result.accessibility,
+          readingLevel: this.state.stages.enhancementPlanning?.result?.readingLevel,
           errors: this.state.errors,
         }
       })
+
+    // Each run is also kept as its own version so it can be compared or restored
+    try {
+      await EnhancementVersionHistory.recordVersion({
+        documentId: this.state.context.documentId,
+        userId: this.state.context.userId,
+        pipelineId: this.state.id,
+        settings: this.state.context.settings,
+        plan: this.state.stages.enhancementPlanning?.result,
+        result,
+      })
+    } catch (error) {
+      console.error('Failed to record enhancement version:', error)
+    }
+  }
+
+  // Resuming is an optimisation, so a failed write doesn't fail the run
+  private async persistState() {
+    try {
+      await PipelineRunStore.save(this.state)
+    } catch (error) {
+      console.error('Failed to persist pipeline state:', error)
+    }
+  }
+
+  // Anything uploaded or cached by a cancelled run is incomplete, so none of it is kept
+  private async discardPartialResults() {
+    await Promise.all([
+      this.stages.assetGeneration.discardUploads(),
+      this.stages.finalComposition.discardUploads(),
+    ])
+    
+    try {
+      await this.cache.clearAll()
+    } catch (error) {
+      console.error('Failed to clear pipeline cache:', error)
+    }
   }
 
   cancel() {
+    if (this.abortController.signal.aborted) {
+      return
+    }
+    
     this.abortController.abort()
     this.updateStatus('cancelled')
     this.emitEvent({ 
@@ -1,6 +1,9 @@
 export * from './types'
 export { EnhancementPipeline } from './enhancement-pipeline'
 export { PipelineCache } from './cache'
+export { EnhancementVersionHistory } from './version-history'
+export type { EnhancementVersion, VersionDiff } from './version-history'
+export { PipelineRunStore } from './run-store'
 
 // Re-export stages for testing/debugging
 export { InitialAnalysisStage } from './stages/initial-analysis'
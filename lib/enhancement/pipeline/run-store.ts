@@ -0,0 +1,142 @@
+import { createClient } from '@/lib/supabase/server'
+import {
+  PipelineContext,
+  PipelineError,
+  PipelineStage,
+  PipelineState,
+  PipelineStatus
+} from './types'
+
+type StageKey = keyof PipelineState['stages']
+
+type StoredStage = {
+  status: PipelineStatus
+  result?: unknown
+  error?: string
+  startTime?: number
+  endTime?: number
+}
+
+interface PipelineRunRow {
+  id: string
+  document_id: string
+  user_id: string
+  status: PipelineStatus
+  current_stage: PipelineStage
+  progress: number
+  context: PipelineContext
+  stages: Partial<Record<StageKey, StoredStage>>
+  errors: Array<Omit<PipelineError, 'timestamp'> & { timestamp: string }>
+  generate_assets: boolean | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Persists pipeline state after every stage, with each stage's output, so a
+ * run that fails late can restart at the failed stage instead of paying for
+ * analysis and asset generation again.
+ */
+export class PipelineRunStore {
+  static async save(state: PipelineState): Promise<void> {
+    const supabase = await createClient()
+
+    const { error } = await supabase
+      .from('pipeline_runs')
+      .upsert(this.toRow(state), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save pipeline run: ${error.message}`)
+    }
+  }
+
+  static async load(runId: string): Promise<PipelineState | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('pipeline_runs')
+      .select('*')
+      .eq('id', runId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load pipeline run: ${error.message}`)
+    }
+
+    return data ? this.fromRow(data as PipelineRunRow) : null
+  }
+
+  // The document's latest run, if it failed; anything newer supersedes it
+  static async findResumable(documentId: string): Promise<PipelineState | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('pipeline_runs')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load pipeline run: ${error.message}`)
+    }
+
+    const row = data as PipelineRunRow | null
+    return row?.status === 'failed' ? this.fromRow(row) : null
+  }
+
+  static toRow(state: PipelineState): PipelineRunRow {
+    const stages: PipelineRunRow['stages'] = {}
+
+    for (const [key, stage] of Object.entries(state.stages) as [StageKey, NonNullable<PipelineState['stages'][StageKey]>][]) {
+      stages[key] = {
+        status: stage.status,
+        result: stage.result,
+        error: stage.error?.message,
+        startTime: stage.startTime,
+        endTime: stage.endTime,
+      }
+    }
+
+    return {
+      id: state.id,
+      document_id: state.context.documentId,
+      user_id: state.context.userId,
+      status: state.status,
+      current_stage: state.currentStage,
+      progress: state.progress,
+      context: state.context,
+      stages,
+      errors: state.errors.map(error => ({ ...error, timestamp: error.timestamp.toISOString() })),
+      generate_assets: state.generateAssets ?? null,
+      created_at: state.createdAt.toISOString(),
+      updated_at: state.updatedAt.toISOString(),
+    }
+  }
+
+  static fromRow(row: PipelineRunRow): PipelineState {
+    const stages: Record<string, unknown> = {}
+
+    for (const [key, stage] of Object.entries(row.stages || {})) {
+      if (!stage) continue
+      stages[key] = {
+        ...stage,
+        error: stage.error ? new Error(stage.error) : undefined,
+      }
+    }
+
+    return {
+      id: row.id,
+      context: row.context,
+      currentStage: row.current_stage,
+      status: row.status,
+      progress: row.progress,
+      stages: stages as PipelineState['stages'],
+      errors: (row.errors || []).map(error => ({ ...error, timestamp: new Date(error.timestamp) })),
+      generateAssets: row.generate_assets ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+}
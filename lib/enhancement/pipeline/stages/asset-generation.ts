@@ -11,13 +11,17 @@ import {
   InitialAnalysisResult
 } from '../types'
 import { ImageGenerationService } from '@/lib/image-generation/image-generation-service'
-import { uploadFile } from '@/lib/r2'
+import { uploadFile, deleteFiles } from '@/lib/r2'
+import { throwIfCancelled } from '../cancellation'
 import sharp from 'sharp'
 import { assetGeneration } from '@/lib/enhancement/algorithms/asset-generation'
 
 export class AssetGenerationStage {
   private imageService: ImageGenerationService
   private analysisResult?: InitialAnalysisResult
+  private subject?: EnhancementPlan['subject']
+  // Keys written by this stage, so a cancelled run can remove them
+  private uploadedKeys: string[] = []
 
   constructor() {
     this.imageService = new ImageGenerationService()
@@ -31,6 +35,7 @@ export class AssetGenerationStage {
   ): Promise<GeneratedAssets> {
     // Store analysis result for use in generation methods
     this.analysisResult = analysisResult
+    this.subject = plan.subject
     try {
       const generatedAssets: GeneratedAssets = {
         backgrounds: [],
@@ -99,6 +104,7 @@ export class AssetGenerationStage {
       
       return generatedAssets
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('Asset generation failed:', error)
       throw new Error(`Asset generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -108,11 +114,12 @@ export class AssetGenerationStage {
     context: PipelineContext,
     requirements: BackgroundRequirement[],
     colorPalette: EnhancementPlan['colorEnhancements'],
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<GeneratedBackground[]> {
     const backgrounds: GeneratedBackground[] = []
     
     for (const requirement of requirements) {
+      throwIfCancelled(signal)
       try {
         let backgroundBuffer: Buffer
         let type: GeneratedBackground['type'] = requirement.style as any
@@ -193,8 +200,7 @@ export class AssetGenerationStage {
         }
         
         // Upload to storage
-        const fileKey = `assets/${context.userId}/${context.documentId}/bg-${Date.now()}.png`
-        const url = await uploadFile(backgroundBuffer, fileKey)
+        const url = await this.uploadAsset(context, backgroundBuffer, `bg-${Date.now()}`)
         
         backgrounds.push({
           id: `bg-${backgrounds.length + 1}`,
@@ -205,6 +211,7 @@ export class AssetGenerationStage {
           metadata // Add metadata from enhanced generation
         })
       } catch (error) {
+        if (signal?.aborted) throw error
         console.error('Failed to generate background:', error)
         // Continue with other backgrounds
       }
@@ -217,7 +224,7 @@ export class AssetGenerationStage {
     context: PipelineContext,
     requirements: DecorativeRequirement[],
     colorPalette: EnhancementPlan['colorEnhancements'],
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<GeneratedElement[]> {
     const elements: GeneratedElement[] = []
     
@@ -225,6 +232,7 @@ export class AssetGenerationStage {
       try {
         // Generate multiple elements based on quantity
         for (let i = 0; i < requirement.quantity; i++) {
+          throwIfCancelled(signal)
           let elementBuffer: Buffer
           let metadata: any = {}
           
@@ -288,8 +296,7 @@ export class AssetGenerationStage {
           )
           
           // Upload to storage
-          const fileKey = `assets/${context.userId}/${context.documentId}/elem-${Date.now()}-${i}.png`
-          const url = await uploadFile(elementBuffer, fileKey)
+          const url = await this.uploadAsset(context, elementBuffer, `elem-${Date.now()}-${i}`)
           
           elements.push({
             id: `elem-${elements.length + 1}`,
@@ -302,6 +309,7 @@ export class AssetGenerationStage {
           })
         }
       } catch (error) {
+        if (signal?.aborted) throw error
         console.error('Failed to generate decorative element:', error)
         // Continue with other elements
       }
@@ -314,7 +322,7 @@ export class AssetGenerationStage {
     context: PipelineContext,
     requirements: GraphicRequirement[],
     colorPalette: EnhancementPlan['colorEnhancements'],
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<GeneratedGraphic[]> {
     const graphics: GeneratedGraphic[] = []
     
@@ -324,6 +332,7 @@ export class AssetGenerationStage {
     }
     
     for (const requirement of requirements) {
+      throwIfCancelled(signal)
       try {
         let graphicBuffer: Buffer
         let metadata: any = {}
@@ -369,8 +378,7 @@ export class AssetGenerationStage {
         }
         
         // Upload to storage
-        const fileKey = `assets/${context.userId}/${context.documentId}/graphic-${Date.now()}.png`
-        const url = await uploadFile(graphicBuffer, fileKey)
+        const url = await this.uploadAsset(context, graphicBuffer, `graphic-${Date.now()}`)
         
         graphics.push({
           id: `graphic-${graphics.length + 1}`,
@@ -382,6 +390,7 @@ export class AssetGenerationStage {
           metadata // Add metadata from enhanced generation
         })
       } catch (error) {
+        if (signal?.aborted) throw error
         console.error('Failed to generate educational graphic:', error)
         // Continue with other graphics
       }
@@ -639,6 +648,23 @@ export class AssetGenerationStage {
   // Helper methods for enhanced generation
 
   private detectSubject(): string {
+    // Subjects classified from the text, as the generators name them
+    const planSubjects: Record<string, string> = {
+      'Mathematics': 'math',
+      'Computer Science': 'math',
+      'Science': 'science',
+      'English Language Arts': 'language',
+      'Foreign Languages': 'language',
+      'History': 'history',
+      'Geography': 'history',
+      'Art': 'art',
+      'Music': 'art',
+      'Design': 'art'
+    }
+    if (this.subject && planSubjects[this.subject.primary]) {
+      return planSubjects[this.subject.primary]
+    }
+    
     if (!this.analysisResult) return 'language'
     
     const keywords = this.analysisResult.contentAnalysis?.keywords || []
@@ -678,7 +704,7 @@ export class AssetGenerationStage {
   private async generateAgeAppropriateEnhancements(
     context: PipelineContext,
     plan: EnhancementPlan,
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<{
     backgrounds: GeneratedBackground[]
     decorativeElements: GeneratedElement[]
@@ -689,6 +715,7 @@ export class AssetGenerationStage {
     const decorativeElements: GeneratedElement[] = []
     
     try {
+      throwIfCancelled(signal)
       // Generate age-appropriate background if needed
       if (plan.assetRequirements.backgrounds.length < 2) {
         // Convert colorPalette to expected format
@@ -713,8 +740,7 @@ export class AssetGenerationStage {
           .png()
           .toBuffer()
         
-        const fileKey = `assets/${context.userId}/${context.documentId}/age-bg-${Date.now()}.png`
-        const url = await uploadFile(bgBuffer, fileKey)
+        const url = await this.uploadAsset(context, bgBuffer, `age-bg-${Date.now()}`)
         
         backgrounds.push({
           id: `age-bg-1`,
@@ -732,6 +758,7 @@ export class AssetGenerationStage {
                             ageGroup === 'middle-school' ? 2 : 1
       
       for (let i = 0; i < decorationCount; i++) {
+        throwIfCancelled(signal)
         const decorResult = assetGeneration.generateAgeAppropriateElement(
           'decoration',
           ageGroup,
@@ -743,8 +770,7 @@ export class AssetGenerationStage {
           .png()
           .toBuffer()
         
-        const fileKey = `assets/${context.userId}/${context.documentId}/age-decor-${Date.now()}-${i}.png`
-        const url = await uploadFile(decorBuffer, fileKey)
+        const url = await this.uploadAsset(context, decorBuffer, `age-decor-${Date.now()}-${i}`)
         
         const position = this.calculateElementPosition(
           i < 2 ? 'corners' : 'random',
@@ -763,9 +789,34 @@ export class AssetGenerationStage {
         })
       }
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('Failed to generate age-appropriate enhancements:', error)
     }
     
     return { backgrounds, decorativeElements }
   }
+
+  private async uploadAsset(context: PipelineContext, buffer: Buffer, name: string): Promise<string> {
+    const { key, url } = await uploadFile({
+      file: buffer,
+      userId: context.userId,
+      filename: `${context.documentId}-${name}.png`,
+      folder: 'ASSETS',
+      contentType: 'image/png',
+    })
+    this.uploadedKeys.push(key)
+    return url
+  }
+
+  // Removes everything this stage uploaded; used when a run is cancelled
+  async discardUploads(): Promise<void> {
+    const keys = this.uploadedKeys.splice(0)
+    if (keys.length === 0) return
+
+    try {
+      await deleteFiles(keys)
+    } catch (error) {
+      console.error('Failed to delete generated assets:', error)
+    }
+  }
 }
\ No newline at end of file
@@ -12,7 +12,18 @@ import {
   DesignIssue,
   LayoutSection
 } from '../types'
+import { throwIfCancelled } from '../cancellation'
 import { AIService } from '@/lib/ai/ai-service'
+import {
+  BrandDeviation,
+  enforceBrandAdjustments,
+  enforceBrandFonts,
+  enforceBrandPalette,
+} from '@/lib/brand-kits'
+import { AccessibilityReport, enforcePlanAccessibility } from '@/lib/accessibility'
+import { ReadabilityAnalyzer } from '@/lib/analysis/analyzers/readability'
+import { SubjectMatterAnalyzer } from '@/lib/analysis/analyzers/subject-matter'
+import type { ReadingLevel, SubjectMatter } from '@/lib/analysis/types'
 import chroma from 'chroma-js'
 
 // Document type detection
@@ -39,6 +50,32 @@ interface StyleProfile {
   }
 }
 
+// Background themes and the kind of graphic that suits each subject
+const SUBJECT_ASSETS: Record<string, { theme: string; graphic: GraphicRequirement['type'] }> = {
+  'Mathematics': { theme: 'geometric shapes and number patterns', graphic: 'diagram' },
+  'Science': { theme: 'molecules, leaves and lab glassware', graphic: 'diagram' },
+  'English Language Arts': { theme: 'open books and handwritten letters', graphic: 'illustration' },
+  'History': { theme: 'aged parchment and antique maps', graphic: 'infographic' },
+  'Geography': { theme: 'topographic contour lines and globes', graphic: 'illustration' },
+  'Foreign Languages': { theme: 'speech bubbles and world landmarks', graphic: 'illustration' },
+  'Art': { theme: 'paint strokes and color swatches', graphic: 'illustration' },
+  'Music': { theme: 'flowing staff lines and notes', graphic: 'illustration' },
+  'Physical Education': { theme: 'dynamic motion lines', graphic: 'infographic' },
+  'Computer Science': { theme: 'circuit traces and code brackets', graphic: 'diagram' },
+  'Finance': { theme: 'clean grid lines and subtle upward trends', graphic: 'chart' },
+  'Marketing': { theme: 'bold abstract shapes', graphic: 'infographic' },
+  'Sales': { theme: 'upward arrows and funnels', graphic: 'chart' },
+  'Human Resources': { theme: 'connected people and soft shapes', graphic: 'infographic' },
+  'Operations': { theme: 'interlocking gears and flow lines', graphic: 'diagram' },
+  'Strategy': { theme: 'layered paths and milestones', graphic: 'diagram' },
+  'Design': { theme: 'grids, swatches and sketch lines', graphic: 'illustration' },
+}
+
+// Worksheets are judged as printed on Letter paper, in points
+const PRINTED_PAGE = { width: 612, height: 792 }
+// Share of an OCR line's height taken up by the font size
+const FONT_HEIGHT_RATIO = 0.8
+
 // Enhancement scoring factors
 interface EnhancementScores {
   colorImpact: number
@@ -50,10 +87,14 @@ interface EnhancementScores {
 
 export class EnhancementPlanningStage {
   private aiService: AIService
+  private subjectAnalyzer: SubjectMatterAnalyzer
+  private readabilityAnalyzer: ReadabilityAnalyzer
   private documentTypeProfiles: Record<DocumentType, Partial<StyleProfile>>
 
   constructor() {
     this.aiService = new AIService()
+    this.subjectAnalyzer = new SubjectMatterAnalyzer()
+    this.readabilityAnalyzer = new ReadabilityAnalyzer()
     
     // Initialize document type style profiles
     this.documentTypeProfiles = {
@@ -111,6 +152,8 @@ export class EnhancementPlanningStage {
       // Detect document type and get style profile
       const documentType = this.detectDocumentType(analysisResult)
       const styleProfile = this.generateStyleProfile(documentType, context, analysisResult)
+      const subject = this.identifySubject(analysisResult)
+      const readingLevel = this.assessReadingLevel(context, analysisResult)
       
       // Calculate enhancement potential scores
       const enhancementScores = this.calculateEnhancementScores(analysisResult)
@@ -124,6 +167,10 @@ export class EnhancementPlanningStage {
         enhancementScores,
         signal
       )
+      throwIfCancelled(signal)
+      
+      // Off-brand choices the colour and typography planners had to override
+      const brandDeviations: BrandDeviation[] = []
       
       // Plan enhancements in priority order
       const enhancementPromises = strategy.priority.map(async (priority) => {
@@ -136,6 +183,7 @@ export class EnhancementPlanningStage {
                 analysisResult,
                 strategy,
                 styleProfile,
+                brandDeviations,
                 signal
               )
             }
@@ -148,6 +196,7 @@ export class EnhancementPlanningStage {
                 strategy,
                 styleProfile,
                 documentType,
+                brandDeviations,
                 signal
               )
             }
@@ -171,6 +220,7 @@ export class EnhancementPlanningStage {
                 strategy,
                 styleProfile,
                 documentType,
+                subject,
                 signal
               )
             }
@@ -180,6 +230,7 @@ export class EnhancementPlanningStage {
       })
       
       const results = await Promise.all(enhancementPromises)
+      throwIfCancelled(signal)
       
       // Extract results
       let colorEnhancements = {} as EnhancementPlan['colorEnhancements']
@@ -205,22 +256,81 @@ export class EnhancementPlanningStage {
         }
       })
       
+      // Accessibility mode goes last so its contrast fixes win even over a brand kit
+      let accessibility: AccessibilityReport | undefined
+      if (context.settings?.mode === 'accessibility') {
+        const enforced = enforcePlanAccessibility(
+          colorEnhancements,
+          typographyEnhancements,
+          context.settings.wcagLevel || 'AA'
+        )
+        colorEnhancements = enforced.colorEnhancements
+        typographyEnhancements = enforced.typographyEnhancements
+        accessibility = enforced.report
+      }
+      
       return {
         strategy,
         colorEnhancements,
         typographyEnhancements,
         layoutEnhancements,
         assetRequirements,
+        brandCompliance: context.brandKit && {
+          brandKitId: context.brandKit.id,
+          brandKitName: context.brandKit.name,
+          deviations: brandDeviations,
+        },
+        accessibility,
+        subject,
+        readingLevel,
       }
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('Enhancement planning failed:', error)
       throw new Error(`Enhancement planning failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  private identifySubject(analysis: InitialAnalysisResult): SubjectMatter | undefined {
+    return this.subjectAnalyzer.analyzeText(this.documentText(analysis)) || undefined
+  }
+
+  private assessReadingLevel(
+    context: PipelineContext,
+    analysis: InitialAnalysisResult
+  ): ReadingLevel | undefined {
+    const { extractedText, pages } = analysis
+    
+    // Printed size of each line of body text, from its OCR box
+    const textSizes = (extractedText.regions || [])
+      .filter(region => region.role === 'body' || region.role === 'caption')
+      .flatMap(region => {
+        const page = pages?.find(candidate => candidate.pageNumber === region.pageNumber)
+        if (!page) return []
+        const { width, height } = page.dimensions
+        const pointsPerPixel = Math.min(PRINTED_PAGE.width / width, PRINTED_PAGE.height / height)
+        return [{ text: region.text, size: region.bounds.height * height * pointsPerPixel * FONT_HEIGHT_RATIO }]
+      })
+    
+    return this.readabilityAnalyzer.analyze(this.documentText(analysis), {
+      gradeLevel: context.settings?.gradeLevel,
+      textSizes
+    }) || undefined
+  }
+
+  private documentText(analysis: InitialAnalysisResult): string {
+    const { extractedText } = analysis
+    return [
+      extractedText.title || '',
+      ...extractedText.headings,
+      ...extractedText.bodyText,
+      ...extractedText.captions
+    ].join('\n')
+  }
+
   private detectDocumentType(analysis: InitialAnalysisResult): DocumentType {
     const { extractedText, layoutAnalysis, metadata } = analysis
-    const detailedAnalysis = (metadata as any).detailedAnalysis
+    const detailedAnalysis = metadata.detailedAnalysis
     
     // Keywords for different document types
     const keywords = {
@@ -365,7 +475,7 @@ export class EnhancementPlanningStage {
     }
     
     // Adjust based on current document state
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis
+    const detailedAnalysis = analysis.metadata.detailedAnalysis
     if (detailedAnalysis?.enhancedLayout) {
       // If document already has good spacing, maintain it
       if (detailedAnalysis.enhancedLayout.whitespace > 30) {
@@ -377,7 +487,7 @@ export class EnhancementPlanningStage {
   }
 
   private calculateEnhancementScores(analysis: InitialAnalysisResult): EnhancementScores {
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis || {}
+    const detailedAnalysis = analysis.metadata.detailedAnalysis || {}
     
     // Calculate improvement potential for each area
     const colorImpact = this.calculateColorImpact(analysis, detailedAnalysis)
@@ -605,9 +715,11 @@ Return as JSON with approach, priority array, and estimatedImpact.`
     analysis: InitialAnalysisResult,
     strategy: EnhancementPlan['strategy'],
     styleProfile: StyleProfile,
+    brandDeviations: BrandDeviation[],
     signal?: AbortSignal
   ): Promise<EnhancementPlan['colorEnhancements']> {
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis
+    const brandKit = context.brandKit
+    const detailedAnalysis = analysis.metadata.detailedAnalysis
     const colorAnalysis = detailedAnalysis?.color
     
     // Generate base palette based on style profile
@@ -637,7 +749,15 @@ Base Palette Suggestion:
 - Accent: ${basePalette.accent}
 - Background: ${basePalette.background}
 - Text: ${basePalette.text}
-
+${brandKit ? `
+Brand Kit "${brandKit.name}" (mandatory, do not replace these colors):
+- Primary: ${brandKit.palette.primary}
+- Secondary: ${brandKit.palette.secondary}
+- Accent: ${brandKit.palette.accent}
+- Background: ${brandKit.palette.background}
+- Text: ${brandKit.palette.text}
+${brandKit.palette.additional?.length ? `- Additional: ${brandKit.palette.additional.join(', ')}\n` : ''}${brandKit.forbiddenColors.length ? `- Never use: ${brandKit.forbiddenColors.join(', ')}\n` : ''}Every adjustment must use a brand color.
+` : ''}
 Refine this palette to:
 1. Fix all contrast issues (WCAG AA minimum)
 2. Create proper visual hierarchy
@@ -663,16 +783,29 @@ Return as JSON with hex colors and adjustment array.`
     const colors = this.parseJSONResponse(response.content)
     
     // Validate and ensure contrast compliance
-    const enhancedPalette = this.validateColorPalette(colors, basePalette)
+    let enhancedPalette = this.validateColorPalette(colors, basePalette)
     
     // Generate comprehensive color adjustments
-    const adjustments = this.generateColorAdjustments(
+    let adjustments = this.generateColorAdjustments(
       colorAnalysis,
       enhancedPalette,
       analysis.designIssues,
       colors.adjustments
     )
     
+    // The brand kit overrides both the palette and the contrast fix above
+    if (brandKit) {
+      const palette = enforceBrandPalette(enhancedPalette, brandKit)
+      const brandAdjustments = enforceBrandAdjustments(
+        adjustments,
+        colorAnalysis?.dominantColors || [],
+        brandKit
+      )
+      enhancedPalette = palette.palette
+      adjustments = brandAdjustments.adjustments
+      brandDeviations.push(...palette.deviations, ...brandAdjustments.deviations)
+    }
+    
     return {
       primaryColor: enhancedPalette.primary,
       secondaryColor: enhancedPalette.secondary,
@@ -838,9 +971,11 @@ Return as JSON with hex colors and adjustment array.`
     strategy: EnhancementPlan['strategy'],
     styleProfile: StyleProfile,
     documentType: DocumentType,
+    brandDeviations: BrandDeviation[],
     signal?: AbortSignal
   ): Promise<EnhancementPlan['typographyEnhancements']> {
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis
+    const brandKit = context.brandKit
+    const detailedAnalysis = analysis.metadata.detailedAnalysis
     const typographyAnalysis = detailedAnalysis?.typography
     
     // Get font recommendations based on style
@@ -868,6 +1003,9 @@ Style Requirements:
 
 Recommended Font Pairings:
 ${fontRecs.map(rec => `- ${rec.heading} + ${rec.body} (${rec.style})`).join('\n')}
+${brandKit?.headingFont || brandKit?.bodyFont ? `
+Brand Kit "${brandKit.name}" (mandatory):
+${brandKit.headingFont ? `- Heading font: ${brandKit.headingFont}\n` : ''}${brandKit.bodyFont ? `- Body font: ${brandKit.bodyFont}\n` : ''}` : ''}
 
 Design a complete typography system:
 1. Select fonts that match the personality and ensure excellent readability
@@ -897,20 +1035,27 @@ Return as JSON with headingFont, bodyFont, sizes, lineHeight, and letterSpacing.
       strategy.approach
     )
     
-    const headingFont: FontSelection = {
+    let headingFont: FontSelection = {
       family: typography.headingFont?.family || fontRecs[0].heading,
       weight: typography.headingFont?.weight || 700,
       style: 'normal',
       fallback: typography.headingFont?.fallback || ['Helvetica Neue', 'Arial', 'sans-serif'],
     }
     
-    const bodyFont: FontSelection = {
+    let bodyFont: FontSelection = {
       family: typography.bodyFont?.family || fontRecs[0].body,
       weight: typography.bodyFont?.weight || 400,
       style: 'normal',
       fallback: typography.bodyFont?.fallback || ['Helvetica', 'Arial', 'sans-serif'],
     }
     
+    if (brandKit) {
+      const fonts = enforceBrandFonts(headingFont, bodyFont, brandKit)
+      headingFont = fonts.headingFont
+      bodyFont = fonts.bodyFont
+      brandDeviations.push(...fonts.deviations)
+    }
+    
     // Calculate optimal line heights
     const lineHeight = this.calculateLineHeight(sizes.body, documentType)
     
@@ -1006,7 +1151,7 @@ Return as JSON with headingFont, bodyFont, sizes, lineHeight, and letterSpacing.
     styleProfile: StyleProfile,
     signal?: AbortSignal
   ): Promise<EnhancementPlan['layoutEnhancements']> {
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis
+    const detailedAnalysis = analysis.metadata.detailedAnalysis
     const enhancedLayout = detailedAnalysis?.enhancedLayout
     
     // Calculate grid specifications based on style
@@ -1228,6 +1373,7 @@ Return as JSON with grid specs, section modifications, and whitespace adjustment
     strategy: EnhancementPlan['strategy'],
     styleProfile: StyleProfile,
     documentType: DocumentType,
+    subject: SubjectMatter | undefined,
     signal?: AbortSignal
   ): Promise<EnhancementPlan['assetRequirements']> {
     // Skip assets for free tier
@@ -1239,7 +1385,7 @@ Return as JSON with grid specs, section modifications, and whitespace adjustment
       }
     }
     
-    const detailedAnalysis = (analysis.metadata as any).detailedAnalysis
+    const detailedAnalysis = analysis.metadata.detailedAnalysis
     const visualScore = analysis.currentScore.visuals
     
     // Calculate asset needs based on analysis
@@ -1247,7 +1393,9 @@ Return as JSON with grid specs, section modifications, and whitespace adjustment
     
     const prompt = `Design visual assets for this ${documentType} document:
 
-Current Visual State:
+${subject ? `Subject: ${subject.primary}${subject.keywords.length ? ` (${subject.keywords.join(', ')})` : ''}
+
+` : ''}Current Visual State:
 - Visual Score: ${visualScore}/100
 - Existing Images: ${analysis.metadata.hasImages ? `${analysis.metadata.imageCount} images` : 'None'}
 - Visual Appeal: ${detailedAnalysis?.engagement?.visualAppeal || 'Unknown'}/100
@@ -1302,7 +1450,8 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
       assets,
       context.subscriptionTier,
       styleProfile,
-      assetNeeds
+      assetNeeds,
+      subject
     )
     
     return processedAssets
@@ -1369,8 +1518,11 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
     assets: any,
     tier: string,
     styleProfile: StyleProfile,
-    assetNeeds: any
+    assetNeeds: any,
+    subject?: SubjectMatter
   ): EnhancementPlan['assetRequirements'] {
+    const subjectAssets = subject && SUBJECT_ASSETS[subject.primary]
+    
     // Define tier limits
     const tierLimits = {
       basic: { backgrounds: 1, decorative: 3, graphics: 0 },
@@ -1385,7 +1537,8 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
       assets.backgrounds || [],
       limits.backgrounds,
       styleProfile,
-      assetNeeds.backgroundNeed
+      assetNeeds.backgroundNeed,
+      subjectAssets?.theme
     )
     
     // Process decorative elements
@@ -1401,7 +1554,8 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
       assets.educationalGraphics || [],
       limits.graphics,
       styleProfile,
-      assetNeeds.graphicsNeed
+      assetNeeds.graphicsNeed,
+      subjectAssets?.graphic
     )
     
     return {
@@ -1415,21 +1569,22 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
     suggestions: any[],
     limit: number,
     styleProfile: StyleProfile,
-    need: number
+    need: number,
+    subjectTheme?: string
   ): BackgroundRequirement[] {
     const backgrounds: BackgroundRequirement[] = []
     
     // Always add at least one background if need is high
     if (need > 50 || suggestions.length > 0) {
       const defaultBackground = this.getDefaultBackground(styleProfile)
-      backgrounds.push(defaultBackground)
+      backgrounds.push(subjectTheme ? { ...defaultBackground, theme: subjectTheme } : defaultBackground)
     }
     
     // Add AI suggestions
     suggestions.slice(0, limit - 1).forEach(bg => {
       backgrounds.push({
         style: bg.style || 'gradient',
-        theme: bg.theme || styleProfile.colors.mood,
+        theme: bg.theme || subjectTheme || styleProfile.colors.mood,
         colors: bg.colors || this.getBackgroundColors(styleProfile),
         opacity: bg.opacity || (styleProfile.visuals.style === 'minimalist' ? 0.05 : 0.15)
       })
@@ -1469,15 +1624,25 @@ Return as JSON with backgrounds, decorativeElements, and educationalGraphics arr
     suggestions: any[],
     limit: number,
     styleProfile: StyleProfile,
-    _need: number
+    need: number,
+    subjectGraphic?: GraphicRequirement['type']
   ): GraphicRequirement[] {
     if (limit === 0) return []
     
     const graphics: GraphicRequirement[] = []
     
+    // A known subject gets its own kind of graphic even without suggestions
+    if (subjectGraphic && need > 50 && suggestions.length === 0) {
+      graphics.push({
+        type: subjectGraphic,
+        style: styleProfile.visuals.style,
+        dimensions: { width: 400, height: 300 }
+      })
+    }
+    
     suggestions.slice(0, limit).forEach(gr => {
       graphics.push({
-        type: gr.type || 'illustration',
+        type: gr.type || subjectGraphic || 'illustration',
         style: gr.style || styleProfile.visuals.style,
         dimensions: gr.dimensions || { width: 400, height: 300 },
         data: gr.data
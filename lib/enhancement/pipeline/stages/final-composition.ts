@@ -3,63 +3,174 @@ import {
   InitialAnalysisResult,
   EnhancementPlan,
   GeneratedAssets,
-  CompositionResult
+  CompositionResult,
+  PageProgressCallback
 } from '../types'
-import { downloadFromR2, uploadToR2 } from '@/lib/r2/client'
+import { downloadDocument, uploadFile, deleteFiles } from '@/lib/r2'
+import { throwIfCancelled } from '../cancellation'
 import sharp from 'sharp'
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'
-import Canvas from 'canvas'
+import { PDFDocument } from 'pdf-lib'
+import { createCanvas, loadImage } from '@napi-rs/canvas'
+import type { SKRSContext2D as NodeCanvasContext } from '@napi-rs/canvas'
+import { rasterizePDF, rasterizePDFPage, DEFAULT_RASTER_DPI } from '@/lib/utils/pdf-rasterizer'
+import {
+  applyOfficeTheme,
+  isOfficeFormat,
+  parseOfficeDocument,
+  renderOfficePages,
+  OfficeFormat
+} from '@/lib/office'
+import type { BrandLogo } from '@/lib/brand-kits'
+import {
+  AccessibilityFix,
+  AccessibilityIssue,
+  LARGE_TEXT_PX,
+  MIN_FONT_SIZES,
+  TaggedFigure,
+  WcagLevel,
+  backgroundFor,
+  contrastCriterion,
+  formatContrast,
+  measureRegionColors,
+  meetContrast,
+  remapRegionColors,
+  requiredContrast,
+  withFindings,
+  writeTaggedPDF
+} from '@/lib/accessibility'
 import { 
   compositionAlgorithms,
   CompositionLayer,
-  BlendMode
+  BlendMode,
+  LayeredPage
 } from '@/lib/enhancement/algorithms/composition'
 
+// OCR confidence (0-100) needed before a heading is redrawn
+const MIN_RESTYLE_CONFIDENCE = 70
+
+// Resolution of CSS pixels, and of images that don't come from a rendered page
+const CSS_DPI = 96
+
+// Content types for the files this stage uploads, by extension
+const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+}
+
+interface FlattenedPage {
+  buffer: Buffer
+  pageNumber: number
+  widthPt: number
+  heightPt: number
+}
+
+interface ComposedDocument {
+  buffer: Buffer
+  pages: LayeredPage[] // layers behind each flattened page, for layered export
+  firstPage?: Buffer // flattened first page, when the output isn't an image
+  flattened: FlattenedPage[] // every flattened page, for the tagged PDF
+  // Accessibility mode only: text contrast fixed on the pages, and what couldn't be
+  fixes: AccessibilityFix[]
+  issues: AccessibilityIssue[]
+}
+
 export class FinalCompositionStage {
+  // Keys written by this stage, so a cancelled run can remove them
+  private uploadedKeys: string[] = []
+
   async execute(
     context: PipelineContext,
     analysisResult: InitialAnalysisResult,
     enhancementPlan: EnhancementPlan,
     generatedAssets: GeneratedAssets | null,
-    _signal?: AbortSignal
+    signal?: AbortSignal,
+    onPageProgress?: PageProgressCallback
   ): Promise<CompositionResult> {
     const startTime = Date.now()
     
     try {
       // Download original document
-      const originalBuffer = await downloadFromR2(context.originalFileUrl)
+      const originalBuffer = await downloadDocument(context.originalFileUrl)
+      throwIfCancelled(signal)
       
-      let enhancedBuffer: Buffer
+      let composed: ComposedDocument
       let thumbnailBuffer: Buffer
       
       // Process based on file type
       if (context.fileType === 'pdf') {
-        enhancedBuffer = await this.composePDF(
+        composed = await this.composePDF(
           originalBuffer,
           analysisResult,
           enhancementPlan,
           generatedAssets,
-          context
+          context,
+          signal,
+          onPageProgress
+        )
+        thumbnailBuffer = await this.createPDFThumbnail(composed.buffer)
+      } else if (isOfficeFormat(context.fileType)) {
+        composed = await this.composeOffice(
+          originalBuffer,
+          context.fileType,
+          analysisResult,
+          enhancementPlan,
+          generatedAssets,
+          context,
+          signal,
+          onPageProgress
         )
-        thumbnailBuffer = await this.createPDFThumbnail(enhancedBuffer)
+        thumbnailBuffer = await this.createImageThumbnail(composed.firstPage!)
       } else {
-        enhancedBuffer = await this.composeImage(
+        composed = await this.composeImage(
           originalBuffer,
           analysisResult,
           enhancementPlan,
           generatedAssets,
           context
         )
-        thumbnailBuffer = await this.createImageThumbnail(enhancedBuffer)
+        thumbnailBuffer = await this.createImageThumbnail(composed.buffer)
+      }
+      let enhancedBuffer = composed.buffer
+      throwIfCancelled(signal)
+      
+      // Accessibility mode also delivers a tagged PDF, which for PDF input
+      // replaces the untagged one
+      let accessibility = enhancementPlan.accessibility
+      let accessiblePdfUrl: string | undefined
+      if (accessibility) {
+        const tagged = await this.writeAccessiblePDF(composed, analysisResult, generatedAssets, context)
+        accessibility = withFindings(
+          accessibility,
+          [...composed.fixes, ...tagged.fixes],
+          [...composed.issues, ...tagged.issues]
+        )
+        if (context.fileType === 'pdf') {
+          enhancedBuffer = tagged.buffer
+        } else {
+          accessiblePdfUrl = await this.upload(context, tagged.buffer, 'accessible.pdf')
+        }
+        throwIfCancelled(signal)
       }
       
       // Upload enhanced document
-      const enhancedFileKey = `enhanced/${context.userId}/${context.documentId}/final-${Date.now()}.${context.fileType}`
-      const enhancedFileUrl = await uploadToR2(enhancedBuffer, enhancedFileKey)
+      const enhancedFileUrl = await this.upload(context, enhancedBuffer, `final.${context.fileType}`)
+      if (accessibility && context.fileType === 'pdf') {
+        accessiblePdfUrl = enhancedFileUrl
+      }
+      throwIfCancelled(signal)
       
       // Upload thumbnail
-      const thumbnailKey = `enhanced/${context.userId}/${context.documentId}/thumb-${Date.now()}.png`
-      const thumbnailUrl = await uploadToR2(thumbnailBuffer, thumbnailKey)
+      const thumbnailUrl = await this.upload(context, thumbnailBuffer, 'thumb.png')
+      throwIfCancelled(signal)
+      
+      // Upload the layered SVG for editing in design tools
+      const layeredFileUrl = await this.uploadLayeredSVG(composed.pages, context)
+      throwIfCancelled(signal)
       
       // Calculate improvements
       const improvements = this.calculateImprovements(
@@ -70,7 +181,8 @@ export class FinalCompositionStage {
       // List applied enhancements
       const appliedEnhancements = this.getAppliedEnhancements(
         enhancementPlan,
-        generatedAssets
+        generatedAssets,
+        context
       )
       
       const endTime = Date.now()
@@ -78,8 +190,12 @@ export class FinalCompositionStage {
       return {
         enhancedFileUrl,
         thumbnailUrl,
+        layeredFileUrl,
+        accessiblePdfUrl,
         improvements,
         appliedEnhancements,
+        brandCompliance: enhancementPlan.brandCompliance,
+        accessibility,
         processingTime: {
           analysis: analysisResult.metadata.fileSize / 1000, // Estimate
           planning: 2000, // Estimate
@@ -95,6 +211,7 @@ export class FinalCompositionStage {
         },
       }
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('Final composition failed:', error)
       throw new Error(`Final composition failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -105,42 +222,172 @@ export class FinalCompositionStage {
     analysis: InitialAnalysisResult,
     plan: EnhancementPlan,
     assets: GeneratedAssets | null,
-    context: PipelineContext
-  ): Promise<Buffer> {
-    const pdfDoc = await PDFDocument.load(originalBuffer)
-    const pages = pdfDoc.getPages()
+    context: PipelineContext,
+    signal?: AbortSignal,
+    onPageProgress?: PageProgressCallback
+  ): Promise<ComposedDocument> {
+    // Render each page and run it through the same layer composition as
+    // images, then reassemble at the original page sizes. Every page shares
+    // the plan's palette, fonts and background so the document stays one piece.
+    const pageImages = await rasterizePDF(originalBuffer, {
+      dpi: this.getCompositionDPI(context),
+      signal
+    })
+    const pdfDoc = await PDFDocument.create()
+    const pages: LayeredPage[] = []
+    const flattened: FlattenedPage[] = []
+    const fixes: AccessibilityFix[] = []
+    const issues: AccessibilityIssue[] = []
     
-    // Apply enhancements to each page
-    for (let i = 0; i < pages.length; i++) {
-      const page = pages[i]
-      
-      // Apply background if available
-      if (assets?.backgrounds[0]) {
-        await this.applyBackgroundToPDFPage(page, assets.backgrounds[0])
-      }
-      
-      // Apply color adjustments
-      this.applyColorsToPDFPage(page, plan.colorEnhancements)
-      
-      // Apply typography improvements (limited in PDF)
-      await this.applyTypographyToPDFPage(page, plan.typographyEnhancements)
+    for (const pageImage of pageImages) {
+      throwIfCancelled(signal)
+      const composed = await this.composeImage(
+        pageImage.buffer,
+        analysis,
+        plan,
+        assets,
+        context,
+        pageImage.pageNumber,
+        pageImage.dpi
+      )
       
-      // Add decorative elements
-      if (assets?.decorativeElements) {
-        await this.addDecorativeElementsToPDFPage(
-          page,
-          assets.decorativeElements,
-          i === 0 // Only on first page
-        )
-      }
+      pages.push(...composed.pages)
+      flattened.push(...composed.flattened)
+      fixes.push(...composed.fixes)
+      issues.push(...composed.issues)
+      const embedded = await pdfDoc.embedPng(composed.buffer)
+      const page = pdfDoc.addPage([pageImage.widthPt, pageImage.heightPt])
+      page.drawImage(embedded, {
+        x: 0,
+        y: 0,
+        width: pageImage.widthPt,
+        height: pageImage.heightPt,
+      })
+      onPageProgress?.(pageImage.pageNumber, pageImages.length)
+    }
+    
+    return { buffer: Buffer.from(await pdfDoc.save()), pages, flattened, fixes, issues }
+  }
+
+  private async composeOffice(
+    originalBuffer: Buffer,
+    format: OfficeFormat,
+    analysis: InitialAnalysisResult,
+    plan: EnhancementPlan,
+    assets: GeneratedAssets | null,
+    context: PipelineContext,
+    signal?: AbortSignal,
+    onPageProgress?: PageProgressCallback
+  ): Promise<ComposedDocument> {
+    // The deliverable is the original file with the plan written into its
+    // theme, so it stays editable in PowerPoint or Word. Pages are still
+    // composed as images, like a PDF's, for the thumbnail and layered SVG.
+    const document = await parseOfficeDocument(originalBuffer, format)
+    const pageImages = await renderOfficePages(document, {
+      dpi: this.getCompositionDPI(context),
+      signal
+    })
+    if (pageImages.length === 0) {
+      throw new Error('Document has no pages')
+    }
+    
+    const pages: LayeredPage[] = []
+    const flattened: FlattenedPage[] = []
+    const fixes: AccessibilityFix[] = []
+    const issues: AccessibilityIssue[] = []
+    let firstPage: Buffer | undefined
+    
+    for (const pageImage of pageImages) {
+      throwIfCancelled(signal)
+      const composed = await this.composeImage(
+        pageImage.buffer,
+        analysis,
+        plan,
+        assets,
+        context,
+        pageImage.pageNumber,
+        pageImage.dpi
+      )
       
-      // Add watermark for free tier
-      if (context.subscriptionTier === 'free') {
-        await this.addWatermarkToPDFPage(page)
-      }
+      pages.push(...composed.pages)
+      flattened.push(...composed.flattened)
+      fixes.push(...composed.fixes)
+      issues.push(...composed.issues)
+      if (!firstPage) firstPage = composed.buffer
+      onPageProgress?.(pageImage.pageNumber, pageImages.length)
     }
     
-    return Buffer.from(await pdfDoc.save())
+    const colors = plan.colorEnhancements
+    const typography = plan.typographyEnhancements
+    const background = assets?.backgrounds[0]
+      ? await sharp(await downloadDocument(assets.backgrounds[0].url)).png().toBuffer()
+      : undefined
+    
+    const buffer = await applyOfficeTheme(originalBuffer, format, {
+      colors: {
+        dk1: colors.textColor,
+        lt1: colors.backgroundColor,
+        accent1: colors.primaryColor,
+        accent2: colors.secondaryColor,
+        accent3: colors.accentColor,
+      },
+      headingFont: typography.headingFont.family,
+      bodyFont: typography.bodyFont.family,
+      background: { color: colors.backgroundColor, image: background },
+    })
+    
+    return { buffer, pages, firstPage, flattened, fixes, issues }
+  }
+
+  private async uploadLayeredSVG(
+    pages: LayeredPage[],
+    context: PipelineContext
+  ): Promise<string | undefined> {
+    // The flattened file is the deliverable; a failed layered copy shouldn't
+    // fail the enhancement
+    try {
+      const svg = compositionAlgorithms.LayeredSVGWriter.write(pages)
+      return await this.upload(context, Buffer.from(svg), 'layered.svg')
+    } catch (error) {
+      console.error('Failed to write layered SVG:', error)
+      return undefined
+    }
+  }
+
+  private async upload(context: PipelineContext, buffer: Buffer, name: string): Promise<string> {
+    const extension = name.slice(name.lastIndexOf('.') + 1)
+    const { key, url } = await uploadFile({
+      file: buffer,
+      userId: context.userId,
+      filename: `${context.documentId}-${name}`,
+      folder: 'ENHANCED',
+      contentType: UPLOAD_CONTENT_TYPES[extension] || 'application/octet-stream',
+    })
+    this.uploadedKeys.push(key)
+    return url
+  }
+
+  // Removes everything this stage uploaded; used when a run is cancelled
+  async discardUploads(): Promise<void> {
+    const keys = this.uploadedKeys.splice(0)
+    if (keys.length === 0) return
+
+    try {
+      await deleteFiles(keys)
+    } catch (error) {
+      console.error('Failed to delete composed files:', error)
+    }
+  }
+
+  private getCompositionDPI(context: PipelineContext): number {
+    switch (context.settings?.quality) {
+      case 'premium':
+        return 300
+      case 'high':
+        return 200
+      default:
+        return DEFAULT_RASTER_DPI
+    }
   }
 
   private async composeImage(
@@ -148,8 +395,14 @@ export class FinalCompositionStage {
     analysis: InitialAnalysisResult,
     plan: EnhancementPlan,
     assets: GeneratedAssets | null,
-    context: PipelineContext
-  ): Promise<Buffer> {
+    context: PipelineContext,
+    pageNumber: number = 1,
+    renderDpi: number = CSS_DPI
+  ): Promise<ComposedDocument> {
+    // Decorations and graphics belong on the first page;
+    // later pages get the background, colours, restyled headings and watermark
+    const isFirstPage = pageNumber === 1
+    
     // Load original image
     const originalImage = sharp(originalBuffer)
     const metadata = await originalImage.metadata()
@@ -162,7 +415,7 @@ export class FinalCompositionStage {
     
     // Create background layer if available
     if (assets?.backgrounds[0]) {
-      const bgBuffer = await downloadFromR2(assets.backgrounds[0].url)
+      const bgBuffer = await downloadDocument(assets.backgrounds[0].url)
       layers.push({
         id: 'background-main',
         type: 'background',
@@ -220,7 +473,7 @@ export class FinalCompositionStage {
     }
     
     // Smart placement for decorative elements
-    if (assets?.decorativeElements) {
+    if (isFirstPage && assets?.decorativeElements) {
       const decorativeLayers = await this.createDecorativeLayers(
         assets.decorativeElements,
         { width, height },
@@ -230,7 +483,7 @@ export class FinalCompositionStage {
     }
     
     // Smart placement for educational graphics
-    if (assets?.educationalGraphics) {
+    if (isFirstPage && assets?.educationalGraphics) {
       const graphicLayers = await this.createEducationalGraphicLayers(
         assets.educationalGraphics,
         { width, height },
@@ -240,11 +493,20 @@ export class FinalCompositionStage {
       layers.push(...graphicLayers)
     }
     
-    // Typography enhancement layer
-    if (analysis.extractedText.title || analysis.extractedText.headings.length > 0) {
+    // The brand kit's first logo goes in the top-right corner of the first page
+    const logo = context.brandKit?.logos[0]
+    if (isFirstPage && logo) {
+      layers.push(await this.createBrandLogoLayer(logo, { width, height }))
+    }
+    
+    // Restyle the title and headings OCR located on this page
+    const pageRegions = (analysis.extractedText.regions || [])
+      .filter(region => region.pageNumber === pageNumber)
+    if (pageRegions.length > 0) {
       const typographyLayer = this.createTypographyEnhancementLayer(
-        analysis.extractedText,
+        pageRegions,
         plan.typographyEnhancements,
+        plan.colorEnhancements,
         { width, height }
       )
       if (typographyLayer) layers.push(typographyLayer)
@@ -268,7 +530,7 @@ export class FinalCompositionStage {
     )
     
     // Render composed layers to canvas
-    const canvas = Canvas.createCanvas(width, height)
+    const canvas = createCanvas(width, height)
     const ctx = canvas.getContext('2d')
     
     // Render each layer in order
@@ -281,79 +543,209 @@ export class FinalCompositionStage {
       this.applyBalanceCorrection(ctx, compositionResult.balance, { width, height })
     }
     
+    // Accessibility mode checks the finished page, so text over backgrounds
+    // and overlays is measured as it will be seen
+    const findings = plan.accessibility
+      ? this.remediateTextRegions(
+          ctx,
+          pageRegions,
+          plan.accessibility.level,
+          { width, height },
+          renderDpi
+        )
+      : { fixes: [], issues: [] }
+    
     // Convert canvas to buffer
     const enhancedBuffer = canvas.toBuffer('image/png')
     
     // Apply final sharpening and optimization
-    return await sharp(enhancedBuffer)
+    const buffer = await sharp(enhancedBuffer)
       .sharpen()
       .png({ quality: 95, compressionLevel: 9 })
       .toBuffer()
+    
+    return {
+      buffer,
+      pages: [{ layers: compositionResult.layers, width, height }],
+      flattened: [{
+        buffer,
+        pageNumber,
+        widthPt: (width * 72) / renderDpi,
+        heightPt: (height * 72) / renderDpi
+      }],
+      ...findings
+    }
   }
 
-  private async applyBackgroundToPDFPage(page: any, _background: GeneratedAssets['backgrounds'][0]) {
-    // This is simplified - in production, you'd properly embed the image
-    const { width, height } = page.getSize()
-    
-    // Draw a subtle background color instead of image for PDF
-    page.drawRectangle({
-      x: 0,
-      y: 0,
-      width,
-      height,
-      color: rgb(0.95, 0.95, 0.97),
-      opacity: 0.5,
-    })
-  }
-
-  private applyColorsToPDFPage(_page: any, _colors: EnhancementPlan['colorEnhancements']) {
-    // PDF color adjustments are limited
-    // This would require parsing and modifying existing content
-    // For now, we'll skip this in PDF
+  private remediateTextRegions(
+    ctx: NodeCanvasContext,
+    regions: NonNullable<InitialAnalysisResult['extractedText']['regions']>,
+    level: WcagLevel,
+    canvasSize: { width: number; height: number },
+    renderDpi: number
+  ): { fixes: AccessibilityFix[]; issues: AccessibilityIssue[] } {
+    const fixes: AccessibilityFix[] = []
+    const issues: AccessibilityIssue[] = []
+    const { width, height } = canvasSize
+    const minimums = MIN_FONT_SIZES[level]
+    
+    for (const region of regions) {
+      if (!region.text.trim()) continue
+      
+      const x = Math.max(0, Math.floor(region.bounds.x * width))
+      const y = Math.max(0, Math.floor(region.bounds.y * height))
+      const boxWidth = Math.min(width - x, Math.ceil(region.bounds.width * width))
+      const boxHeight = Math.min(height - y, Math.ceil(region.bounds.height * height))
+      if (boxWidth < 1 || boxHeight < 1) continue
+      
+      // The OCR box is about one line tall, which is close to the font size
+      const textSize = (boxHeight * CSS_DPI) / renderDpi
+      const ratio = requiredContrast(level, textSize >= LARGE_TEXT_PX)
+      
+      const imageData = ctx.getImageData(x, y, boxWidth, boxHeight)
+      const measured = measureRegionColors(imageData.data)
+      if (measured && measured.ratio < ratio) {
+        const background = backgroundFor(measured.background, ratio)
+        const foreground = meetContrast(measured.foreground, background, ratio)
+        remapRegionColors(imageData.data, measured, { foreground, background })
+        ctx.putImageData(imageData, x, y)
+        fixes.push({
+          kind: 'contrast',
+          criterion: contrastCriterion(level),
+          target: `Text "${this.excerpt(region.text)}"`,
+          before: formatContrast(measured.foreground, measured.background),
+          after: formatContrast(foreground, background),
+          pageNumber: region.pageNumber
+        })
+      }
+      
+      // Raster text can't be enlarged without reflowing the page
+      const minimum = region.role === 'caption' ? minimums.caption : minimums.body
+      if ((region.role === 'body' || region.role === 'caption') && textSize < minimum) {
+        issues.push({
+          kind: 'font-size',
+          description: `Text "${this.excerpt(region.text)}" is about ${Math.round(textSize)}px, below the ${minimum}px minimum; enlarge it in the source document`,
+          pageNumber: region.pageNumber
+        })
+      }
+    }
+    
+    return { fixes, issues }
   }
 
-  private async applyTypographyToPDFPage(_page: any, _typography: EnhancementPlan['typographyEnhancements']) {
-    // Typography changes in existing PDFs are very limited
-    // We can only add new text, not modify existing
-    // Skip for now
+  private async writeAccessiblePDF(
+    composed: ComposedDocument,
+    analysis: InitialAnalysisResult,
+    assets: GeneratedAssets | null,
+    context: PipelineContext
+  ): Promise<{ buffer: Buffer; fixes: AccessibilityFix[]; issues: AccessibilityIssue[] }> {
+    const regions = analysis.extractedText.regions || []
+    const language = context.settings?.language || 'en-US'
+    const pages = composed.flattened.map((page, index) => ({
+      image: page.buffer,
+      width: page.widthPt,
+      height: page.heightPt,
+      regions: regions.filter(region => region.pageNumber === page.pageNumber),
+      figures: this.describeFigures(composed.pages[index], assets, context)
+    }))
+    
+    const { buffer, skipped } = await writeTaggedPDF(pages, {
+      title: analysis.extractedText.title || 'Enhanced document',
+      language
+    })
+    
+    const tagged = regions.length - skipped.length
+    const fixes: AccessibilityFix[] = [
+      {
+        kind: 'tagging',
+        criterion: '1.3.1',
+        target: 'Document structure',
+        before: 'Untagged page images',
+        after: `${tagged} heading(s) and paragraph(s) tagged`
+      },
+      {
+        kind: 'reading-order',
+        criterion: '1.3.2',
+        target: 'Reading order',
+        before: 'Not set',
+        after: `Set across ${pages.length} page(s)`
+      },
+      {
+        kind: 'tagging',
+        criterion: '3.1.1',
+        target: 'Document language',
+        before: 'Not set',
+        after: language
+      },
+      ...pages.flatMap((page, index) => page.figures.map(figure => ({
+        kind: 'alt-text' as const,
+        criterion: '1.1.1',
+        target: 'Figure',
+        before: 'No alt text',
+        after: figure.alt,
+        pageNumber: composed.flattened[index].pageNumber
+      })))
+    ]
+    
+    const issues: AccessibilityIssue[] = skipped.map(region => ({
+      kind: 'tagging' as const,
+      criterion: '1.3.1',
+      description: `Text "${this.excerpt(region.text)}" uses characters the PDF font can't encode, so it isn't in the tagged text`,
+      pageNumber: region.pageNumber
+    }))
+    // Pictures in the original are flattened into the page with no way to describe them
+    if (analysis.metadata.hasImages && analysis.metadata.imageCount > 0) {
+      issues.push({
+        kind: 'alt-text',
+        criterion: '1.1.1',
+        description: `${analysis.metadata.imageCount} image(s) from the original document need alt text written by hand`
+      })
+    }
+    
+    return { buffer, fixes, issues }
   }
 
-  private async addDecorativeElementsToPDFPage(page: any, elements: GeneratedAssets['decorativeElements'], isFirstPage: boolean) {
-    if (!isFirstPage) return
-    
-    const { width, height } = page.getSize()
+  // Generated graphics and the brand logo get alt text; decorations stay
+  // part of the artifact page image
+  private describeFigures(
+    page: LayeredPage,
+    assets: GeneratedAssets | null,
+    context: PipelineContext
+  ): TaggedFigure[] {
+    const figures: TaggedFigure[] = []
     
-    // Add simple decorative shapes
-    for (const element of elements.slice(0, 2)) {
-      const x = (element.position.x / 1792) * width
-      const y = height - (element.position.y / 1024) * height
+    for (const layer of page.layers) {
+      const semanticType = layer.metadata?.semanticType || ''
+      let alt: string | undefined
+      if (semanticType.startsWith('educational-')) {
+        const graphic = assets?.educationalGraphics.find(g => `graphic-${g.id}` === layer.id)
+        alt = graphic?.caption || `${semanticType.slice('educational-'.length)} illustration`
+      } else if (semanticType === 'brand-logo' && context.brandKit) {
+        alt = `${context.brandKit.name} logo`
+      }
+      if (!alt) continue
       
-      page.drawCircle({
-        x,
-        y,
-        size: 20,
-        color: rgb(0.31, 0.27, 0.89),
-        opacity: 0.2,
+      figures.push({
+        alt,
+        bounds: {
+          x: layer.properties.x / page.width,
+          y: layer.properties.y / page.height,
+          width: layer.properties.width / page.width,
+          height: layer.properties.height / page.height
+        }
       })
     }
+    
+    return figures
   }
 
-  private async addWatermarkToPDFPage(page: any) {
-    const { width, _height } = page.getSize()
-    const font = await page.doc.embedFont(StandardFonts.Helvetica)
-    
-    page.drawText('Enhanced with Canva Beautifying', {
-      x: width / 2 - 100,
-      y: 30,
-      size: 12,
-      font,
-      color: rgb(0.5, 0.5, 0.5),
-      opacity: 0.5,
-    })
+  private excerpt(text: string): string {
+    const collapsed = text.replace(/\s+/g, ' ').trim()
+    return collapsed.length > 40 ? `${collapsed.slice(0, 40)}…` : collapsed
   }
 
   private applyColorOverlay(
-    ctx: CanvasRenderingContext2D,
+    ctx: NodeCanvasContext,
     width: number,
     height: number,
     colors: EnhancementPlan['colorEnhancements']
@@ -375,14 +767,14 @@ export class FinalCompositionStage {
   }
 
   private async drawDecorativeElement(
-    ctx: CanvasRenderingContext2D,
+    ctx: NodeCanvasContext,
     element: GeneratedAssets['decorativeElements'][0],
     canvasWidth: number,
     canvasHeight: number
   ) {
     try {
-      const elementBuffer = await downloadFromR2(element.url)
-      const elementImage = await Canvas.loadImage(elementBuffer)
+      const elementBuffer = await downloadDocument(element.url)
+      const elementImage = await loadImage(elementBuffer)
       
       // Scale position to canvas size
       const x = (element.position.x / 1792) * canvasWidth
@@ -414,7 +806,7 @@ export class FinalCompositionStage {
   }
 
   private async placeEducationalGraphics(
-    ctx: CanvasRenderingContext2D,
+    ctx: NodeCanvasContext,
     graphics: GeneratedAssets['educationalGraphics'],
     layout: InitialAnalysisResult['layoutAnalysis'],
     width: number,
@@ -423,8 +815,8 @@ export class FinalCompositionStage {
     // Find suitable placement for graphics
     for (const graphic of graphics) {
       try {
-        const graphicBuffer = await downloadFromR2(graphic.url)
-        const graphicImage = await Canvas.loadImage(graphicBuffer)
+        const graphicBuffer = await downloadDocument(graphic.url)
+        const graphicImage = await loadImage(graphicBuffer)
         
         // Place in content areas with enough space
         const contentSections = layout.sections.filter(s => s.type === 'content')
@@ -458,19 +850,7 @@ export class FinalCompositionStage {
     }
   }
 
-  private applyTypographyOverlay(
-    _ctx: CanvasRenderingContext2D,
-    _text: InitialAnalysisResult['extractedText'],
-    _typography: EnhancementPlan['typographyEnhancements'],
-    _width: number,
-    _height: number
-  ) {
-    // This would require OCR to find text positions
-    // For now, we'll skip modifying existing text
-    // In production, you'd use OCR to locate and enhance text
-  }
-
-  private addWatermark(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  private addWatermark(ctx: NodeCanvasContext, width: number, height: number) {
     ctx.save()
     ctx.globalAlpha = 0.3
     ctx.font = '16px Arial'
@@ -484,19 +864,9 @@ export class FinalCompositionStage {
     ctx.restore()
   }
 
-  private async createPDFThumbnail(_pdfBuffer: Buffer): Promise<Buffer> {
-    // Create a simple thumbnail
-    // In production, you'd render the first page of the PDF
-    return await sharp({
-      create: {
-        width: 400,
-        height: 300,
-        channels: 3,
-        background: { r: 240, g: 240, b: 245 }
-      }
-    })
-    .png()
-    .toBuffer()
+  private async createPDFThumbnail(pdfBuffer: Buffer): Promise<Buffer> {
+    const firstPage = await rasterizePDFPage(pdfBuffer, 1, 72)
+    return this.createImageThumbnail(firstPage.buffer)
   }
 
   private async createImageThumbnail(imageBuffer: Buffer): Promise<Buffer> {
@@ -543,10 +913,21 @@ export class FinalCompositionStage {
 
   private getAppliedEnhancements(
     plan: EnhancementPlan,
-    assets: GeneratedAssets | null
+    assets: GeneratedAssets | null,
+    context: PipelineContext
   ): string[] {
     const enhancements: string[] = []
     
+    // Brand kit
+    if (context.brandKit) {
+      enhancements.push(`Brand kit "${context.brandKit.name}" applied`)
+    }
+    
+    // Accessibility mode
+    if (plan.accessibility) {
+      enhancements.push(`WCAG ${plan.accessibility.level} accessibility remediation`)
+    }
+    
     // Color enhancements
     if (plan.colorEnhancements.adjustments.length > 0) {
       enhancements.push('Color palette optimization')
@@ -586,7 +967,7 @@ export class FinalCompositionStage {
     colorEnhancements: EnhancementPlan['colorEnhancements']
   ): CompositionLayer {
     // Create a gradient overlay for color enhancement
-    const canvas = Canvas.createCanvas(width, height)
+    const canvas = createCanvas(width, height)
     const ctx = canvas.getContext('2d')
     
     // Create gradient
@@ -601,7 +982,7 @@ export class FinalCompositionStage {
     return {
       id: 'color-enhancement',
       type: 'overlay',
-      content: { data: canvas.toBuffer() },
+      content: { data: canvas.toBuffer('image/png') },
       properties: {
         x: 0,
         y: 0,
@@ -645,7 +1026,7 @@ export class FinalCompositionStage {
       }
       
       for (const element of elements) {
-        const buffer = await downloadFromR2(element.url)
+        const buffer = await downloadDocument(element.url)
         
         // Use smart placement if position not specified
         let position = element.position
@@ -720,7 +1101,7 @@ export class FinalCompositionStage {
     
     // Create layers for each graphic
     for (const graphic of graphics) {
-      const buffer = await downloadFromR2(graphic.url)
+      const buffer = await downloadDocument(graphic.url)
       const _position = positions.get(graphic.id) || { x: 100, y: 100 }
       
       // Find optimal placement considering existing content
@@ -766,19 +1147,125 @@ export class FinalCompositionStage {
     return layers
   }
 
+  private async createBrandLogoLayer(
+    logo: BrandLogo,
+    canvas: { width: number; height: number }
+  ): Promise<CompositionLayer> {
+    const original = await downloadDocument(logo.url)
+    const margin = Math.round(Math.min(canvas.width, canvas.height) * 0.04)
+    
+    // Fit into a box an eighth of the page wide, keeping aspect ratio
+    const data = await sharp(original)
+      .resize({
+        width: Math.round(canvas.width / 8),
+        height: Math.round(canvas.height / 8),
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .png()
+      .toBuffer()
+    const { width = 1, height = 1 } = await sharp(data).metadata()
+    
+    return {
+      id: `brand-logo-${logo.id}`,
+      type: 'graphic',
+      content: { data },
+      properties: {
+        x: canvas.width - width - margin,
+        y: margin,
+        width,
+        height,
+        rotation: 0,
+        scale: 1,
+        opacity: 1,
+        blendMode: 'normal' as BlendMode,
+        zIndex: 900
+      },
+      metadata: {
+        importance: 0.9,
+        visualWeight: 1,
+        semanticType: 'brand-logo'
+      }
+    }
+  }
+
   private createTypographyEnhancementLayer(
-    _extractedText: InitialAnalysisResult['extractedText'],
-    _typographyEnhancements: EnhancementPlan['typographyEnhancements'],
-    _canvas: { width: number; height: number }
+    regions: NonNullable<InitialAnalysisResult['extractedText']['regions']>,
+    typography: EnhancementPlan['typographyEnhancements'],
+    colors: EnhancementPlan['colorEnhancements'],
+    canvasSize: { width: number; height: number }
   ): CompositionLayer | null {
-    // In a real implementation, this would use OCR to locate text
-    // and apply typography enhancements
-    // For now, we'll return null as we can't modify existing text in images
-    return null
+    // Only restyle text OCR read confidently; a wrong redraw is worse than none
+    const headings = regions.filter(region =>
+      (region.role === 'title' || region.role === 'heading') &&
+      region.confidence >= MIN_RESTYLE_CONFIDENCE &&
+      region.text.trim().length > 0
+    )
+    if (headings.length === 0) return null
+
+    const { width, height } = canvasSize
+    const canvas = createCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    const font = typography.headingFont
+    const family = [font.family, ...font.fallback].map(f => `"${f}"`).join(', ')
+
+    for (const region of headings) {
+      const boxX = region.bounds.x * width
+      const boxY = region.bounds.y * height
+      const boxWidth = region.bounds.width * width
+      const boxHeight = region.bounds.height * height
+      const padding = Math.ceil(boxHeight * 0.15)
+
+      // Cover the original glyphs with the page colour
+      ctx.fillStyle = colors.backgroundColor
+      ctx.fillRect(
+        boxX - padding,
+        boxY - padding,
+        boxWidth + padding * 2,
+        boxHeight + padding * 2
+      )
+
+      // Size to the OCR line height, then shrink until it fits the box width
+      let fontSize = Math.max(8, Math.round(boxHeight))
+      ctx.font = `${font.style} ${font.weight} ${fontSize}px ${family}`
+      const measured = ctx.measureText(region.text).width
+      if (measured > boxWidth + padding * 2) {
+        fontSize = Math.max(8, Math.floor(fontSize * (boxWidth + padding * 2) / measured))
+        ctx.font = `${font.style} ${font.weight} ${fontSize}px ${family}`
+      }
+
+      ctx.fillStyle = region.role === 'title' ? colors.primaryColor : colors.textColor
+      ctx.textBaseline = 'top'
+      ctx.fillText(region.text, boxX, boxY + (boxHeight - fontSize) / 2)
+    }
+
+    return {
+      id: `typography-page-${headings[0].pageNumber}`,
+      type: 'text',
+      content: { data: canvas.toBuffer('image/png') },
+      properties: {
+        x: 0,
+        y: 0,
+        width,
+        height,
+        rotation: 0,
+        scale: 1,
+        opacity: 1,
+        blendMode: 'normal' as BlendMode,
+        zIndex: 5
+      },
+      metadata: {
+        // Redrawn text must stay over the glyphs it replaces, so keep the
+        // balance optimizer from moving it
+        importance: 1,
+        visualWeight: 3,
+        semanticType: 'restyled-headings'
+      }
+    }
   }
 
   private createWatermarkLayer(width: number, height: number): CompositionLayer {
-    const canvas = Canvas.createCanvas(width, height)
+    const canvas = createCanvas(width, height)
     const ctx = canvas.getContext('2d')
     
     ctx.font = '16px Arial'
@@ -794,7 +1281,7 @@ export class FinalCompositionStage {
     return {
       id: 'watermark',
       type: 'overlay',
-      content: { data: canvas.toBuffer() },
+      content: { data: canvas.toBuffer('image/png') },
       properties: {
         x: 0,
         y: 0,
@@ -815,14 +1302,14 @@ export class FinalCompositionStage {
   }
 
   private async renderLayer(
-    ctx: CanvasRenderingContext2D,
+    ctx: NodeCanvasContext,
     layer: CompositionLayer,
     _canvas: { width: number; height: number }
   ): Promise<void> {
     if (!layer.content.data) return
     
     try {
-      const image = await Canvas.loadImage(layer.content.data)
+      const image = await loadImage(layer.content.data)
       
       ctx.save()
       
@@ -882,7 +1369,7 @@ export class FinalCompositionStage {
   }
 
   private applyBalanceCorrection(
-    ctx: CanvasRenderingContext2D,
+    ctx: NodeCanvasContext,
     balance: any,
     canvas: { width: number; height: number }
   ): void {
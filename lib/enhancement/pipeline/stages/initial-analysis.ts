@@ -2,231 +2,263 @@ import {
   PipelineContext, 
   InitialAnalysisResult,
   LayoutSection,
-  DesignIssue 
+  DesignIssue,
+  PageAnalysis,
+  PageProgressCallback,
+  TextRegion,
+  TypographyMetrics,
+  VisualHierarchy,
+  HierarchyLevel,
+  EnhancedLayoutAnalysis,
+  ColorHarmony,
+  ColorAnalysis,
+  EngagementMetrics
 } from '../types'
-import { downloadFromR2 } from '@/lib/r2/client'
+import { downloadDocument } from '@/lib/r2'
 import { AIService } from '@/lib/ai/ai-service'
-import { extractTextFromPDF, extractTextFromImage } from '@/lib/utils/document-utils'
+import { contentHashOf } from '@/lib/cache/document-cache'
+import { throwIfCancelled } from '../cancellation'
+import type { EnhancementCache } from '@/lib/cache/enhancement-cache'
+import { ocrService, OCRResult } from '@/lib/ocr'
+import { rasterizePDF, RasterizedPage } from '@/lib/utils/pdf-rasterizer'
+import { isOfficeFormat, parseOfficeDocument, renderOfficePages, OfficeBounds, OfficeDocument, OfficePage } from '@/lib/office'
 import sharp from 'sharp'
 import { PDFDocument } from 'pdf-lib'
 import chroma from 'chroma-js'
 
-// Color harmony types
-type ColorHarmony = 'monochromatic' | 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'chaotic'
+// Resolution pages are rendered at for analysis; enough for layout and
+// colour detection without the memory cost of print resolution
+const ANALYSIS_DPI = 100
 
-// Typography metrics
-interface TypographyMetrics {
-  fontCount: number
-  sizeVariations: number
-  readabilityScore: number
-  consistency: number
-  hierarchy: {
-    levels: number
-    clarity: number
-  }
-}
-
-// Visual hierarchy analysis
-interface VisualHierarchy {
-  levels: HierarchyLevel[]
-  flowScore: number
-  emphasisBalance: number
-  scanPath: 'F-pattern' | 'Z-pattern' | 'circular' | 'chaotic'
-}
+// OCR runs page by page on a single worker; cap it for very long documents
+const MAX_OCR_PAGES = 20
 
-interface HierarchyLevel {
-  importance: number
-  elements: string[]
-  visualWeight: number
-}
-
-// Enhanced layout analysis
-type BaseLayoutAnalysis = InitialAnalysisResult['layoutAnalysis'];
-interface EnhancedLayoutAnalysis extends BaseLayoutAnalysis {
-  margins: {
-    top: number
-    right: number
-    bottom: number
-    left: number
-    consistency: number
-  }
-  spacing: {
-    lineHeight: number
-    paragraphSpacing: number
-    elementSpacing: number
-    consistency: number
-  }
-  gridAnalysis: {
-    hasGrid: boolean
-    columns?: number
-    gutters?: number
-    baseline?: number
-  }
-  alignmentScore: number
-  balanceScore: number
-}
+// Each page's design analysis costs several vision calls; later pages only
+// get the pixel-level pass
+const MAX_DESIGN_PAGES = 20
 
-// Color analysis results
-interface ColorAnalysis {
-  dominantColors: string[]
-  palette: {
-    primary: string
-    secondary: string
-    accent: string
-    neutrals: string[]
-  }
-  harmony: ColorHarmony
-  contrast: {
-    textBackground: number
-    overall: number
-    issues: Array<{
-      foreground: string
-      background: string
-      ratio: number
-      passes: {
-        AA: boolean
-        AAA: boolean
-      }
-    }>
-  }
-  colorTemperature: 'warm' | 'cool' | 'neutral'
-  saturationLevel: 'muted' | 'moderate' | 'vibrant'
-}
-
-// Engagement metrics
-interface EngagementMetrics {
-  visualAppeal: number
-  readability: number
-  professionalScore: number
-  emotionalImpact: {
-    energy: number
-    trust: number
-    creativity: number
-  }
-  predictedEngagement: number
+// Vision analysis of one page, with the issues and score derived from it
+interface PageDesign {
+  enhancedLayout: EnhancedLayoutAnalysis
+  colorAnalysis: ColorAnalysis
+  typographyMetrics: TypographyMetrics
+  visualHierarchy: VisualHierarchy
+  engagementMetrics: EngagementMetrics
+  designIssues: DesignIssue[]
+  score: InitialAnalysisResult['currentScore']
 }
 
 export class InitialAnalysisStage {
   private aiService: AIService
+  private analysisCache?: EnhancementCache
 
-  constructor() {
-    this.aiService = new AIService()
+  // With an analysis cache, identical files are analysed once however many
+  // documents they are uploaded as
+  constructor(aiService: AIService = new AIService(), analysisCache?: EnhancementCache) {
+    this.aiService = aiService
+    this.analysisCache = analysisCache
   }
 
   async execute(
     context: PipelineContext,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onPageProgress?: PageProgressCallback
   ): Promise<InitialAnalysisResult> {
     try {
       // Download the document
-      const fileBuffer = await downloadFromR2(context.originalFileUrl)
+      const fileBuffer = await downloadDocument(context.originalFileUrl)
+      throwIfCancelled(signal)
+      const contentHash = contentHashOf(fileBuffer)
+
+      if (this.analysisCache && !context.bypassCache) {
+        const cached = await this.analysisCache.getAnalysis(contentHash)
+        if (cached) return cached
+      }
       
       // Convert to image for analysis
       let imageBuffer = fileBuffer
+      let pageImages: RasterizedPage[] = []
+      let officeDocument: OfficeDocument | undefined
       if (context.fileType === 'pdf') {
-        imageBuffer = await this.convertPDFPageToImage(fileBuffer)
+        pageImages = await rasterizePDF(fileBuffer, { dpi: ANALYSIS_DPI, signal })
+        if (pageImages.length === 0) {
+          throw new Error('PDF has no pages')
+        }
+        imageBuffer = pageImages[0].buffer
+      } else if (isOfficeFormat(context.fileType)) {
+        // Text, layout and theme come from the file itself; the rendered
+        // pages are only for the pixel and vision passes
+        officeDocument = await parseOfficeDocument(fileBuffer, context.fileType)
+        pageImages = await renderOfficePages(officeDocument, { dpi: ANALYSIS_DPI, signal })
+        if (pageImages.length === 0) {
+          throw new Error('Document has no pages')
+        }
+        imageBuffer = pageImages[0].buffer
       }
       
-      // Run all analyses in parallel for performance
-      const [extractedText, enhancedLayout, colorAnalysis, typographyMetrics, visualHierarchy, engagementMetrics] = await Promise.all([
-        this.extractText(fileBuffer, context.fileType),
-        this.analyzeEnhancedLayout(imageBuffer, context.fileType, signal),
-        this.analyzeColors(imageBuffer, signal),
-        this.analyzeTypography(imageBuffer, signal),
-        this.analyzeVisualHierarchy(imageBuffer, signal),
-        this.calculateEngagementScore(imageBuffer, signal)
+      const pageBuffers = pageImages.length > 0 ? pageImages.map(page => page.buffer) : [imageBuffer]
+      
+      // A cheap pixel-level pass over every page first, so blank pages can
+      // skip the vision calls
+      const pages = await this.analyzePages(pageBuffers)
+      throwIfCancelled(signal)
+      
+      // OCR runs alongside the first page's design analysis; Office files
+      // already carry their text
+      const [ocrPages, firstPage] = await Promise.all([
+        officeDocument ? Promise.resolve([]) : this.recognizeText(pageBuffers, signal),
+        this.analyzePageDesign(imageBuffer, context.fileType, signal)
       ])
+      onPageProgress?.(1, pageBuffers.length)
+      
+      const pageDesigns: PageDesign[] = [firstPage]
+      this.attachPageDesign(pages[0], firstPage)
+      
+      for (let i = 1; i < pageBuffers.length; i++) {
+        throwIfCancelled(signal)
+        if (i < MAX_DESIGN_PAGES && !pages[i].isBlank) {
+          const design = await this.analyzePageDesign(pageBuffers[i], context.fileType, signal)
+          pageDesigns.push(design)
+          this.attachPageDesign(pages[i], design)
+        }
+        onPageProgress?.(i + 1, pageBuffers.length)
+      }
+      
+      throwIfCancelled(signal)
+      const extractedText = officeDocument
+        ? this.extractOfficeText(officeDocument)
+        : this.extractText(ocrPages)
+      const { enhancedLayout, colorAnalysis, typographyMetrics, visualHierarchy, engagementMetrics } = firstPage
       
       // Convert enhanced layout to standard format
       const layoutAnalysis: InitialAnalysisResult['layoutAnalysis'] = {
         structure: enhancedLayout.structure,
-        sections: enhancedLayout.sections,
+        sections: officeDocument
+          ? this.mergeOfficeSections(enhancedLayout.sections, officeDocument.pages[0], ANALYSIS_DPI / 72)
+          : this.mergeTextSections(enhancedLayout.sections, ocrPages[0], extractedText),
         whitespace: enhancedLayout.whitespace,
         alignment: enhancedLayout.alignment
       }
       
-      // Identify design issues based on all analyses
-      const designIssues = await this.identifyDesignIssues(
-        fileBuffer,
-        enhancedLayout,
-        colorAnalysis,
-        typographyMetrics,
-        visualHierarchy,
-        context.fileType,
-        signal
-      )
-      
-      // Calculate comprehensive design score
-      const currentScore = this.calculateComprehensiveScore(
-        enhancedLayout,
-        colorAnalysis,
-        typographyMetrics,
-        visualHierarchy,
-        engagementMetrics,
-        designIssues
-      )
+      // The document's issues are those of every analysed page, and its
+      // score their average, so one plan covers the whole document
+      const designIssues = this.mergeDesignIssues(pageDesigns)
+      const currentScore = this.averageScores(pageDesigns)
       
       // Get document metadata
-      const metadata = await this.getDocumentMetadata(fileBuffer, context.fileType)
+      const metadata = await this.getDocumentMetadata(fileBuffer, context.fileType, officeDocument)
+      if (pageImages.length > 0) {
+        metadata.pageCount = pageImages.length
+      }
       
       // Store detailed analysis results in metadata for later stages
-      const enhancedMetadata = {
-        ...metadata,
-        detailedAnalysis: {
-          color: colorAnalysis,
-          typography: typographyMetrics,
-          visualHierarchy,
-          engagement: engagementMetrics,
-          enhancedLayout
-        }
+      metadata.detailedAnalysis = {
+        color: colorAnalysis,
+        typography: typographyMetrics,
+        visualHierarchy,
+        engagement: engagementMetrics,
+        enhancedLayout
       }
       
-      return {
+      const result: InitialAnalysisResult = {
         extractedText,
         layoutAnalysis,
         designIssues,
         currentScore,
-        metadata: enhancedMetadata as any,
+        metadata,
+        pages,
       }
+
+      await this.analysisCache?.setAnalysis(contentHash, result, { documentId: context.documentId })
+
+      return result
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('Initial analysis failed:', error)
       throw new Error(`Initial analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  private async extractText(
-    fileBuffer: Buffer,
-    fileType: string
-  ): Promise<InitialAnalysisResult['extractedText']> {
-    let rawText: string
-    
-    if (fileType === 'pdf') {
-      rawText = await extractTextFromPDF(fileBuffer)
-    } else {
-      rawText = await extractTextFromImage(fileBuffer)
+  private async recognizeText(
+    pageBuffers: Buffer[],
+    signal?: AbortSignal
+  ): Promise<Array<OCRResult | null>> {
+    const results: Array<OCRResult | null> = []
+    
+    for (const buffer of pageBuffers.slice(0, MAX_OCR_PAGES)) {
+      try {
+        results.push(await ocrService.recognize(buffer, { signal }))
+      } catch (error) {
+        if (signal?.aborted) throw error
+        // Missing text shouldn't sink the whole analysis
+        console.error('OCR failed:', error)
+        results.push(null)
+      }
     }
     
-    // Parse and categorize text
-    const lines = rawText.split('\n').filter(line => line.trim())
+    return results
+  }
+
+  private extractText(
+    ocrPages: Array<OCRResult | null>
+  ): InitialAnalysisResult['extractedText'] {
     const headings: string[] = []
     const bodyText: string[] = []
     const captions: string[] = []
+    const regions: TextRegion[] = []
     let title: string | undefined
     
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim()
-      if (!line) continue
+    const lines = ocrPages.flatMap((ocr, pageIndex) =>
+      ocr ? ocr.lines.map(line => ({ line, ocr, pageNumber: pageIndex + 1 })) : []
+    )
+    
+    if (lines.length === 0) {
+      return { title, headings, bodyText, captions, regions }
+    }
+    
+    // Line height is the best font size proxy OCR gives us
+    const heights = lines.map(({ line }) => line.bbox.height).sort((a, b) => a - b)
+    const medianHeight = heights[Math.floor(heights.length / 2)] || 1
+    
+    for (const { line, ocr, pageNumber } of lines) {
+      const text = line.text.trim()
+      if (!text) continue
+      
+      const relativeSize = line.bbox.height / medianHeight
+      let role: TextRegion['role']
       
-      // Simple heuristics for text categorization
-      if (i === 0 && line.length < 100) {
-        title = line
-      } else if (line.length < 50 && line.match(/^[A-Z]/)) {
-        headings.push(line)
-      } else if (line.length < 30) {
-        captions.push(line)
+      if (
+        !title &&
+        pageNumber === 1 &&
+        line.bbox.y < ocr.height * 0.25 &&
+        relativeSize >= 1.3 &&
+        text.length < 100
+      ) {
+        role = 'title'
+        title = text
+      } else if (relativeSize >= 1.2 && text.length < 80) {
+        role = 'heading'
+        headings.push(text)
+      } else if (relativeSize < 0.85 && text.length < 60) {
+        role = 'caption'
+        captions.push(text)
       } else {
-        bodyText.push(line)
+        role = 'body'
+        bodyText.push(text)
       }
+      
+      regions.push({
+        text,
+        role,
+        pageNumber,
+        confidence: line.confidence,
+        bounds: {
+          x: line.bbox.x / ocr.width,
+          y: line.bbox.y / ocr.height,
+          width: line.bbox.width / ocr.width,
+          height: line.bbox.height / ocr.height,
+        },
+      })
     }
     
     return {
@@ -234,13 +266,116 @@ export class InitialAnalysisStage {
       headings,
       bodyText,
       captions,
+      regions,
     }
   }
 
+  private extractOfficeText(
+    document: OfficeDocument
+  ): InitialAnalysisResult['extractedText'] {
+    const headings: string[] = []
+    const bodyText: string[] = []
+    const captions: string[] = []
+    const regions: TextRegion[] = []
+    let title: string | undefined
+    
+    for (const page of document.pages) {
+      for (const block of page.textBlocks) {
+        // Only the first title is the document's; later ones head sections
+        let role = block.role
+        if (role === 'title' && title) {
+          role = 'heading'
+        }
+        
+        if (role === 'title') title = block.text
+        else if (role === 'heading') headings.push(block.text)
+        else if (role === 'caption') captions.push(block.text)
+        else bodyText.push(block.text)
+        
+        regions.push({
+          text: block.text,
+          role,
+          pageNumber: page.pageNumber,
+          confidence: 100,
+          bounds: {
+            x: block.bounds.x / page.width,
+            y: block.bounds.y / page.height,
+            width: block.bounds.width / page.width,
+            height: block.bounds.height / page.height,
+          },
+        })
+      }
+    }
+    
+    return { title, headings, bodyText, captions, regions }
+  }
+
+  private mergeOfficeSections(
+    sections: LayoutSection[],
+    page: OfficePage | undefined,
+    scale: number // points to analysis pixels
+  ): LayoutSection[] {
+    if (!page) return sections
+    
+    const toPixels = (bounds: OfficeBounds) => ({
+      x: Math.round(bounds.x * scale),
+      y: Math.round(bounds.y * scale),
+      width: Math.round(bounds.width * scale),
+      height: Math.round(bounds.height * scale),
+    })
+    
+    // The file's own frames replace the vision model's guesses
+    const fileSections: LayoutSection[] = [
+      ...page.textBlocks.map((block, index): LayoutSection => ({
+        id: `office-text-${index + 1}`,
+        type: block.role === 'title' ? 'header' : 'text',
+        bounds: toPixels(block.bounds),
+        zIndex: 1,
+      })),
+      ...page.images.map((image, index): LayoutSection => ({
+        id: `office-image-${index + 1}`,
+        type: 'image',
+        bounds: toPixels(image.bounds),
+        zIndex: 0,
+      })),
+    ]
+    
+    const replaced = new Set<LayoutSection['type']>(['text'])
+    if (page.images.length > 0) replaced.add('image')
+    
+    return [
+      ...sections.filter(section => !replaced.has(section.type)),
+      ...fileSections,
+    ]
+  }
+
+  private mergeTextSections(
+    sections: LayoutSection[],
+    ocr: OCRResult | null | undefined,
+    extractedText: InitialAnalysisResult['extractedText']
+  ): LayoutSection[] {
+    if (!ocr || ocr.blocks.length === 0) return sections
+    
+    // OCR boxes are exact, so they replace the vision model's text guesses
+    const textSections: LayoutSection[] = ocr.blocks.map((block, index) => ({
+      id: `ocr-text-${index + 1}`,
+      type: extractedText.title && block.lines.some(line => line.text.trim() === extractedText.title)
+        ? 'header'
+        : 'text',
+      bounds: { ...block.bbox },
+      zIndex: 1,
+    }))
+    
+    return [
+      ...sections.filter(section => section.type !== 'text'),
+      ...textSections,
+    ]
+  }
+
   private async analyzeEnhancedLayout(
     imageBuffer: Buffer,
     _fileType: string,
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<EnhancedLayoutAnalysis> {
     // Get image metadata for pixel calculations
     const imageMetadata = await sharp(imageBuffer).metadata()
@@ -872,8 +1007,9 @@ export class InitialAnalysisStage {
     typographyMetrics: TypographyMetrics,
     visualHierarchy: VisualHierarchy,
     _fileType: string,
-    _signal?: AbortSignal
+    signal?: AbortSignal
   ): Promise<DesignIssue[]> {
+    throwIfCancelled(signal)
     const issues: DesignIssue[] = []
     
     // Analyze layout issues
@@ -1089,7 +1225,8 @@ export class InitialAnalysisStage {
 
   private async getDocumentMetadata(
     fileBuffer: Buffer,
-    fileType: string
+    fileType: string,
+    officeDocument?: OfficeDocument
   ): Promise<InitialAnalysisResult['metadata']> {
     const metadata: InitialAnalysisResult['metadata'] = {
       fileSize: fileBuffer.length,
@@ -1111,6 +1248,19 @@ export class InitialAnalysisStage {
       
       // Check for images (simplified)
       metadata.hasImages = fileBuffer.toString('binary').includes('/Image')
+    } else if (officeDocument) {
+      const images = officeDocument.pages.flatMap(page => page.images)
+      const firstPage = officeDocument.pages[0]
+      
+      metadata.pageCount = officeDocument.pages.length
+      metadata.dimensions = {
+        width: firstPage?.width ?? 0,
+        height: firstPage?.height ?? 0,
+      }
+      metadata.hasImages = images.length > 0
+      metadata.imageCount = images.length
+      metadata.fonts = officeDocument.fonts
+      metadata.theme = officeDocument.theme
     } else {
       // Image file
       const imageMetadata = await sharp(fileBuffer).metadata()
@@ -1125,26 +1275,117 @@ export class InitialAnalysisStage {
     return metadata
   }
 
-  private async convertPDFPageToImage(pdfBuffer: Buffer): Promise<Buffer> {
-    // In production, you'd use a proper PDF to image converter
-    // For now, we'll create a placeholder
-    const pdfDoc = await PDFDocument.load(pdfBuffer)
-    const firstPage = pdfDoc.getPage(0)
-    
-    // Create a white image with PDF dimensions
-    const width = Math.round(firstPage.getWidth())
-    const height = Math.round(firstPage.getHeight())
-    
-    return await sharp({
-      create: {
-        width,
-        height,
-        channels: 3,
-        background: { r: 255, g: 255, b: 255 }
+  private async analyzePages(pageBuffers: Buffer[]): Promise<PageAnalysis[]> {
+    const pages: PageAnalysis[] = []
+    
+    for (let i = 0; i < pageBuffers.length; i++) {
+      const { data, info } = await sharp(pageBuffers[i])
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+      
+      let whitePixels = 0
+      let minX = info.width
+      let minY = info.height
+      let maxX = -1
+      let maxY = -1
+      
+      for (let y = 0; y < info.height; y++) {
+        for (let x = 0; x < info.width; x++) {
+          if (data[y * info.width + x] > 240) {
+            whitePixels++
+            continue
+          }
+          if (x < minX) minX = x
+          if (x > maxX) maxX = x
+          if (y < minY) minY = y
+          if (y > maxY) maxY = y
+        }
+      }
+      
+      const isBlank = maxX < 0
+      pages.push({
+        pageNumber: i + 1,
+        dimensions: { width: info.width, height: info.height },
+        whitespace: Math.round((whitePixels / (info.width * info.height)) * 100),
+        contentBounds: isBlank
+          ? { x: 0, y: 0, width: 0, height: 0 }
+          : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+        isBlank,
+      })
+    }
+    
+    return pages
+  }
+
+  // Everything the vision models say about a single page
+  private async analyzePageDesign(
+    pageBuffer: Buffer,
+    fileType: string,
+    signal?: AbortSignal
+  ): Promise<PageDesign> {
+    const [enhancedLayout, colorAnalysis, typographyMetrics, visualHierarchy, engagementMetrics] = await Promise.all([
+      this.analyzeEnhancedLayout(pageBuffer, fileType, signal),
+      this.analyzeColors(pageBuffer, signal),
+      this.analyzeTypography(pageBuffer, signal),
+      this.analyzeVisualHierarchy(pageBuffer, signal),
+      this.calculateEngagementScore(pageBuffer, signal)
+    ])
+    
+    const designIssues = await this.identifyDesignIssues(
+      pageBuffer,
+      enhancedLayout,
+      colorAnalysis,
+      typographyMetrics,
+      visualHierarchy,
+      fileType,
+      signal
+    )
+    
+    const score = this.calculateComprehensiveScore(
+      enhancedLayout,
+      colorAnalysis,
+      typographyMetrics,
+      visualHierarchy,
+      engagementMetrics,
+      designIssues
+    )
+    
+    return { enhancedLayout, colorAnalysis, typographyMetrics, visualHierarchy, engagementMetrics, designIssues, score }
+  }
+
+  private attachPageDesign(page: PageAnalysis, design: PageDesign) {
+    page.designIssues = design.designIssues
+    page.score = design.score
+  }
+
+  // One entry per distinct issue, at the worst severity any page had it
+  private mergeDesignIssues(pageDesigns: PageDesign[]): DesignIssue[] {
+    const severityRank = { low: 0, medium: 1, high: 2 }
+    const merged = new Map<string, DesignIssue>()
+    
+    for (const issue of pageDesigns.flatMap(design => design.designIssues)) {
+      const key = `${issue.type}:${issue.description}`
+      const existing = merged.get(key)
+      if (!existing || severityRank[issue.severity] > severityRank[existing.severity]) {
+        merged.set(key, issue)
       }
-    })
-    .png()
-    .toBuffer()
+    }
+    
+    return Array.from(merged.values())
+  }
+
+  private averageScores(pageDesigns: PageDesign[]): InitialAnalysisResult['currentScore'] {
+    const average = (pick: (score: InitialAnalysisResult['currentScore']) => number) =>
+      Math.round(pageDesigns.reduce((total, design) => total + pick(design.score), 0) / pageDesigns.length)
+    
+    return {
+      overall: average(score => score.overall),
+      color: average(score => score.color),
+      typography: average(score => score.typography),
+      layout: average(score => score.layout),
+      visuals: average(score => score.visuals)
+    }
   }
 
   private parseJSONResponse(response: string): any {
@@ -1,5 +1,10 @@
 // Enhancement Pipeline Types and Interfaces
 
+import type { OfficeTheme } from '@/lib/office'
+import type { BrandCompliance, BrandKit } from '@/lib/brand-kits/types'
+import type { AccessibilityReport, WcagLevel } from '@/lib/accessibility/types'
+import type { GradeLevel, ReadingLevel, SubjectMatter } from '@/lib/analysis/types'
+
 export type DocumentType = 
   | 'educational' 
   | 'presentation' 
@@ -34,11 +39,14 @@ export type PipelineStatus =
 export interface PipelineContext {
   documentId: string
   userId: string
+  organizationId?: string // set when the document lives in a team's shared library
   subscriptionTier: 'free' | 'basic' | 'pro' | 'premium'
   originalFileUrl: string
   fileType: string
   startTime: number
   settings?: EnhancementSettings
+  bypassCache?: boolean // re-run analysis even if this content was analysed before
+  brandKit?: BrandKit // resolved from settings; its palette and fonts are hard constraints
 }
 
 export interface EnhancementSettings {
@@ -49,6 +57,11 @@ export interface EnhancementSettings {
   quality?: 'standard' | 'high' | 'premium'
   generateAssets?: boolean
   preserveContent?: boolean
+  brandKitId?: string
+  mode?: 'standard' | 'accessibility' // accessibility guarantees WCAG-compliant output
+  wcagLevel?: WcagLevel // accessibility mode only; defaults to AA
+  language?: string // BCP 47 tag written into tagged PDFs; defaults to en-US
+  gradeLevel?: GradeLevel // target reading level for the text
 }
 
 // Stage 1: Initial Analysis Results
@@ -58,13 +71,9 @@ export interface InitialAnalysisResult {
     headings: string[]
     bodyText: string[]
     captions: string[]
+    regions?: TextRegion[]
   }
-  layoutAnalysis: {
-    structure: 'single-column' | 'multi-column' | 'grid' | 'freeform'
-    sections: LayoutSection[]
-    whitespace: number // percentage
-    alignment: 'left' | 'center' | 'right' | 'justified' | 'mixed'
-  }
+  layoutAnalysis: LayoutAnalysis
   designIssues: DesignIssue[]
   currentScore: {
     overall: number // 0-100
@@ -79,7 +88,145 @@ export interface InitialAnalysisResult {
     fileSize: number
     hasImages: boolean
     imageCount: number
+    // Read from PowerPoint and Word files rather than estimated
+    fonts?: string[]
+    theme?: OfficeTheme
+    detailedAnalysis?: DetailedAnalysis
+  }
+  pages?: PageAnalysis[]
+}
+
+export interface LayoutAnalysis {
+  structure: 'single-column' | 'multi-column' | 'grid' | 'freeform'
+  sections: LayoutSection[]
+  whitespace: number // percentage
+  alignment: 'left' | 'center' | 'right' | 'justified' | 'mixed'
+}
+
+// Stage 1 design details: the vision analysis of the first page, kept in
+// the analysis metadata for the planning stage
+export type ColorHarmony = 'monochromatic' | 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'chaotic'
+
+// Typography metrics
+export interface TypographyMetrics {
+  fontCount: number
+  sizeVariations: number
+  readabilityScore: number
+  consistency: number
+  hierarchy: {
+    levels: number
+    clarity: number
+  }
+}
+
+// Visual hierarchy analysis
+export interface VisualHierarchy {
+  levels: HierarchyLevel[]
+  flowScore: number
+  emphasisBalance: number
+  scanPath: 'F-pattern' | 'Z-pattern' | 'circular' | 'chaotic'
+}
+
+export interface HierarchyLevel {
+  importance: number
+  elements: string[]
+  visualWeight: number
+}
+
+// Enhanced layout analysis
+export interface EnhancedLayoutAnalysis extends LayoutAnalysis {
+  margins: {
+    top: number
+    right: number
+    bottom: number
+    left: number
+    consistency: number
+  }
+  spacing: {
+    lineHeight: number
+    paragraphSpacing: number
+    elementSpacing: number
+    consistency: number
   }
+  gridAnalysis: {
+    hasGrid: boolean
+    columns?: number
+    gutters?: number
+    baseline?: number
+  }
+  alignmentScore: number
+  balanceScore: number
+}
+
+// Color analysis results
+export interface ColorAnalysis {
+  dominantColors: string[]
+  palette: {
+    primary: string
+    secondary: string
+    accent: string
+    neutrals: string[]
+  }
+  harmony: ColorHarmony
+  contrast: {
+    textBackground: number
+    overall: number
+    issues: Array<{
+      foreground: string
+      background: string
+      ratio: number
+      passes: {
+        AA: boolean
+        AAA: boolean
+      }
+    }>
+  }
+  colorTemperature: 'warm' | 'cool' | 'neutral'
+  saturationLevel: 'muted' | 'moderate' | 'vibrant'
+}
+
+// Engagement metrics
+export interface EngagementMetrics {
+  visualAppeal: number
+  readability: number
+  professionalScore: number
+  emotionalImpact: {
+    energy: number
+    trust: number
+    creativity: number
+  }
+  predictedEngagement: number
+}
+
+export interface DetailedAnalysis {
+  color: ColorAnalysis
+  typography: TypographyMetrics
+  visualHierarchy: VisualHierarchy
+  engagement: EngagementMetrics
+  enhancedLayout: EnhancedLayoutAnalysis
+}
+
+export interface PageAnalysis {
+  pageNumber: number // 1-based
+  dimensions: { width: number; height: number } // pixels at analysis resolution
+  whitespace: number // percentage
+  contentBounds: { x: number; y: number; width: number; height: number }
+  isBlank: boolean
+  // Set for pages that got the full design analysis (blank pages and those
+  // past the analysis limit don't)
+  designIssues?: DesignIssue[]
+  score?: InitialAnalysisResult['currentScore']
+}
+
+// Reports a page finished within a stage that works page by page
+export type PageProgressCallback = (pageNumber: number, pageCount: number) => void
+
+export interface TextRegion {
+  text: string
+  role: 'title' | 'heading' | 'body' | 'caption'
+  pageNumber: number // 1-based
+  confidence: number // 0-100
+  bounds: { x: number; y: number; width: number; height: number } // fractions of the page (0-1)
 }
 
 export interface LayoutSection {
@@ -128,6 +275,10 @@ export interface EnhancementPlan {
     decorativeElements: DecorativeRequirement[]
     educationalGraphics: GraphicRequirement[]
   }
+  brandCompliance?: BrandCompliance
+  accessibility?: AccessibilityReport // fixes made while planning, accessibility mode only
+  subject?: SubjectMatter // classified from the extracted text, when there is any
+  readingLevel?: ReadingLevel // likewise, checked against settings.gradeLevel
 }
 
 export interface ColorAdjustment {
@@ -193,6 +344,7 @@ export interface GeneratedBackground {
   type: 'gradient' | 'pattern' | 'image'
   dimensions: { width: number; height: number }
   fileSize: number
+  metadata?: Record<string, unknown> // from the asset generation algorithms
 }
 
 export interface GeneratedElement {
@@ -202,6 +354,7 @@ export interface GeneratedElement {
   position: { x: number; y: number }
   dimensions: { width: number; height: number }
   rotation?: number
+  metadata?: Record<string, unknown>
 }
 
 export interface GeneratedGraphic {
@@ -211,12 +364,15 @@ export interface GeneratedGraphic {
   caption?: string
   dimensions: { width: number; height: number }
   embedData?: Record<string, unknown>
+  metadata?: Record<string, unknown>
 }
 
 // Stage 4: Final Composition Results
 export interface CompositionResult {
   enhancedFileUrl: string
   thumbnailUrl: string
+  layeredFileUrl?: string // SVG with one group per layer kind
+  accessiblePdfUrl?: string // tagged PDF, accessibility mode only
   improvements: {
     colorScore: { before: number; after: number }
     typographyScore: { before: number; after: number }
@@ -225,6 +381,8 @@ export interface CompositionResult {
     overallScore: { before: number; after: number }
   }
   appliedEnhancements: string[]
+  brandCompliance?: BrandCompliance
+  accessibility?: AccessibilityReport
   processingTime: {
     analysis: number
     planning: number
@@ -278,6 +436,7 @@ export interface PipelineState {
     }
   }
   errors: PipelineError[]
+  generateAssets?: boolean // decided when the run reaches asset generation
   createdAt: Date
   updatedAt: Date
 }
@@ -296,6 +455,7 @@ export type PipelineEvent =
   | { type: 'stage-completed'; stage: PipelineStage; result: unknown; timestamp: Date }
   | { type: 'stage-failed'; stage: PipelineStage; error: Error; timestamp: Date }
   | { type: 'progress-updated'; progress: number; message?: string }
+  | { type: 'page-progress'; stage: PipelineStage; pageNumber: number; pageCount: number; progress: number }
   | { type: 'pipeline-completed'; result: CompositionResult }
   | { type: 'pipeline-failed'; error: Error }
   | { type: 'pipeline-cancelled'; reason?: string }
\ No newline at end of file
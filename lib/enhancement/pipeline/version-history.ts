@@ -0,0 +1,296 @@
+import { createClient } from '@/lib/supabase/server'
+import {
+  CompositionResult,
+  EnhancementPlan,
+  EnhancementSettings
+} from './types'
+
+export type VersionScores = CompositionResult['improvements']
+
+export interface EnhancementVersion {
+  id: string
+  documentId: string
+  userId: string
+  versionNumber: number
+  pipelineId?: string
+  settings: EnhancementSettings
+  plan?: EnhancementPlan
+  scores: VersionScores
+  enhancedFileUrl: string
+  thumbnailUrl?: string
+  layeredFileUrl?: string
+  revertedFrom?: string
+  createdAt: string
+}
+
+interface EnhancementVersionRow {
+  id: string
+  document_id: string
+  user_id: string
+  version_number: number
+  pipeline_id: string | null
+  settings: EnhancementSettings | null
+  plan: EnhancementPlan | null
+  scores: VersionScores
+  enhanced_file_url: string
+  thumbnail_url: string | null
+  layered_file_url: string | null
+  reverted_from: string | null
+  created_at: string
+}
+
+export interface FieldChange {
+  path: string
+  from: unknown
+  to: unknown
+}
+
+export interface ScoreChange {
+  from: number
+  to: number
+  delta: number
+}
+
+export interface VersionDiff {
+  from: { id: string; versionNumber: number }
+  to: { id: string; versionNumber: number }
+  settings: FieldChange[]
+  plan: FieldChange[]
+  scores: Record<keyof VersionScores, ScoreChange>
+}
+
+export interface RecordVersionParams {
+  documentId: string
+  userId: string
+  pipelineId?: string
+  settings?: EnhancementSettings
+  plan?: EnhancementPlan
+  result: CompositionResult
+}
+
+// Concurrent runs on one document can race for the same version number
+const MAX_INSERT_ATTEMPTS = 3
+const UNIQUE_VIOLATION = '23505'
+
+export class EnhancementVersionHistory {
+  /**
+   * Appends a version for a finished pipeline run. Versions are never
+   * updated afterwards; reverting appends a copy instead.
+   */
+  static async recordVersion(params: RecordVersionParams): Promise<EnhancementVersion> {
+    return this.insertVersion({
+      document_id: params.documentId,
+      user_id: params.userId,
+      pipeline_id: params.pipelineId || null,
+      settings: params.settings || {},
+      plan: params.plan || null,
+      scores: params.result.improvements,
+      enhanced_file_url: params.result.enhancedFileUrl,
+      thumbnail_url: params.result.thumbnailUrl || null,
+      layered_file_url: params.result.layeredFileUrl || null,
+      reverted_from: null,
+    })
+  }
+
+  static async listVersions(documentId: string): Promise<EnhancementVersion[]> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('enhancement_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load versions: ${error.message}`)
+    }
+
+    return ((data || []) as EnhancementVersionRow[]).map(row => this.toVersion(row))
+  }
+
+  static async getVersion(documentId: string, versionId: string): Promise<EnhancementVersion | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('enhancement_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('id', versionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load version: ${error.message}`)
+    }
+
+    return data ? this.toVersion(data as EnhancementVersionRow) : null
+  }
+
+  static async compareVersions(
+    documentId: string,
+    fromId: string,
+    toId: string
+  ): Promise<VersionDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(documentId, fromId),
+      this.getVersion(documentId, toId),
+    ])
+
+    if (!from || !to) {
+      return null
+    }
+
+    return this.diffVersions(from, to)
+  }
+
+  /**
+   * Makes an earlier version current again by appending a copy of it as the
+   * newest version and pointing the document's latest enhancement at its output.
+   */
+  static async revertToVersion(
+    documentId: string,
+    versionId: string,
+    userId: string
+  ): Promise<EnhancementVersion | null> {
+    const target = await this.getVersion(documentId, versionId)
+    if (!target) {
+      return null
+    }
+
+    const reverted = await this.insertVersion({
+      document_id: documentId,
+      user_id: userId,
+      pipeline_id: target.pipelineId || null,
+      settings: target.settings,
+      plan: target.plan || null,
+      scores: target.scores,
+      enhanced_file_url: target.enhancedFileUrl,
+      thumbnail_url: target.thumbnailUrl || null,
+      layered_file_url: target.layeredFileUrl || null,
+      reverted_from: target.id,
+    })
+
+    const supabase = await createClient()
+
+    const { data: latest } = await supabase
+      .from('enhancements')
+      .select('id')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latest) {
+      const { error } = await supabase
+        .from('enhancements')
+        .update({
+          enhanced_url: target.enhancedFileUrl,
+          thumbnail_url: target.thumbnailUrl || null,
+          settings: target.settings,
+        })
+        .eq('id', latest.id)
+
+      if (error) {
+        console.error('Failed to point enhancement at reverted version:', error)
+      }
+    }
+
+    return reverted
+  }
+
+  static diffVersions(from: EnhancementVersion, to: EnhancementVersion): VersionDiff {
+    const scoreKeys = Object.keys(to.scores) as (keyof VersionScores)[]
+    const scores = {} as Record<keyof VersionScores, ScoreChange>
+
+    for (const key of scoreKeys) {
+      const before = from.scores[key]?.after ?? 0
+      const after = to.scores[key]?.after ?? 0
+      scores[key] = { from: before, to: after, delta: after - before }
+    }
+
+    return {
+      from: { id: from.id, versionNumber: from.versionNumber },
+      to: { id: to.id, versionNumber: to.versionNumber },
+      settings: this.diffFields(from.settings, to.settings),
+      plan: this.diffFields(from.plan, to.plan),
+      scores,
+    }
+  }
+
+  // Compares leaf values by dotted path; arrays are compared as a whole
+  private static diffFields(from: unknown, to: unknown): FieldChange[] {
+    const before = this.flatten(from)
+    const after = this.flatten(to)
+    const paths = new Set([...before.keys(), ...after.keys()])
+    const changes: FieldChange[] = []
+
+    for (const path of paths) {
+      const a = before.get(path)
+      const b = after.get(path)
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        changes.push({ path, from: a, to: b })
+      }
+    }
+
+    return changes.sort((x, y) => x.path.localeCompare(y.path))
+  }
+
+  private static flatten(value: unknown, prefix = '', out = new Map<string, unknown>()): Map<string, unknown> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        this.flatten(child, prefix ? `${prefix}.${key}` : key, out)
+      }
+    } else if (prefix && value !== undefined) {
+      out.set(prefix, value)
+    }
+
+    return out
+  }
+
+  private static async insertVersion(
+    row: Omit<EnhancementVersionRow, 'id' | 'version_number' | 'created_at'>
+  ): Promise<EnhancementVersion> {
+    const supabase = await createClient()
+
+    for (let attempt = 1; ; attempt++) {
+      const { data: latest } = await supabase
+        .from('enhancement_versions')
+        .select('version_number')
+        .eq('document_id', row.document_id)
+        .order('version_number', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { data, error } = await supabase
+        .from('enhancement_versions')
+        .insert({ ...row, version_number: (latest?.version_number || 0) + 1 })
+        .select()
+        .single()
+
+      if (!error && data) {
+        return this.toVersion(data as EnhancementVersionRow)
+      }
+
+      if (error?.code !== UNIQUE_VIOLATION || attempt >= MAX_INSERT_ATTEMPTS) {
+        throw new Error(`Failed to save version: ${error?.message}`)
+      }
+    }
+  }
+
+  private static toVersion(row: EnhancementVersionRow): EnhancementVersion {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      userId: row.user_id,
+      versionNumber: row.version_number,
+      pipelineId: row.pipeline_id || undefined,
+      settings: row.settings || {},
+      plan: row.plan || undefined,
+      scores: row.scores,
+      enhancedFileUrl: row.enhanced_file_url,
+      thumbnailUrl: row.thumbnail_url || undefined,
+      layeredFileUrl: row.layered_file_url || undefined,
+      revertedFrom: row.reverted_from || undefined,
+      createdAt: row.created_at,
+    }
+  }
+}
@@ -1,66 +1,153 @@
-import { DocumentAnalysisEngine } from '@/lib/analysis'
+import { DocumentAnalysisEngine } from '@/lib/analysis/engine'
+import { DocumentContext } from '@/lib/analysis/types'
+import { ImageLoader } from '@/lib/analysis/utils/image-loader'
+import { downloadDocument } from '@/lib/r2'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+import {
+  QualityDimensionScores,
+  QualityImprovement,
+  QualityScore,
+  QualityWeights
+} from './types'
+
+export const DEFAULT_QUALITY_WEIGHTS: QualityWeights = {
+  layout: 0.25,
+  colors: 0.25,
+  typography: 0.25,
+  engagement: 0.25
+}
+
+const DIMENSIONS = Object.keys(DEFAULT_QUALITY_WEIGHTS) as Array<keyof QualityWeights>
+
+// The analyzers work on pixel statistics, so a modest DPI scores the same as
+// print resolution at a fraction of the memory
+const SCORING_DPI = 100
+const MAX_SCORED_PAGES = 5
 
 export class QualityScorer {
   private analysisEngine: DocumentAnalysisEngine
+  private weights: QualityWeights
 
-  constructor() {
+  constructor(weights: Partial<QualityWeights> = {}) {
     this.analysisEngine = new DocumentAnalysisEngine()
+    this.weights = this.normalizeWeights({ ...DEFAULT_QUALITY_WEIGHTS, ...weights })
   }
 
   async calculateImprovement(
     originalUrl: string,
-    enhancedUrl: string
-  ): Promise<{ before: number; after: number; improvement: number }> {
-    // In production, this would:
-    // 1. Analyze both original and enhanced documents
-    // 2. Compare scores across all metrics
-    // 3. Calculate improvement percentage
-    
-    // For now, simulate the scoring
-    const beforeScore = await this.scoreDocument(originalUrl)
-    const afterScore = await this.scoreDocument(enhancedUrl, true)
-    
-    const improvement = ((afterScore - beforeScore) / beforeScore) * 100
-    
+    enhancedUrl: string,
+    documentType: DocumentContext['type'] = 'worksheet'
+  ): Promise<QualityImprovement> {
+    const [before, after] = await Promise.all([
+      this.scoreDocument(originalUrl, documentType),
+      this.scoreDocument(enhancedUrl, documentType)
+    ])
+
+    return this.compareScores(before, after)
+  }
+
+  async scoreDocument(
+    url: string,
+    documentType: DocumentContext['type'] = 'worksheet'
+  ): Promise<QualityScore> {
+    const buffer = await downloadDocument(url)
+    if (buffer.subarray(0, 4).toString('ascii') !== '%PDF') {
+      return this.scoreImage(buffer, documentType)
+    }
+
+    // PDFs are scored page by page and averaged
+    const pages = await rasterizePDF(buffer, {
+      dpi: SCORING_DPI,
+      pages: Array.from({ length: MAX_SCORED_PAGES }, (_, i) => i + 1)
+    })
+    if (pages.length === 0) {
+      throw new Error('PDF has no pages to score')
+    }
+
+    const scores: QualityScore[] = []
+    for (const page of pages) {
+      scores.push(await this.scoreImage(page.buffer, documentType))
+    }
+
+    const breakdown = {} as QualityDimensionScores
+    for (const dimension of DIMENSIONS) {
+      breakdown[dimension] = this.clampScore(
+        scores.reduce((sum, score) => sum + score.breakdown[dimension], 0) / scores.length
+      )
+    }
+
+    return {
+      overall: this.weightedScore(breakdown),
+      breakdown,
+      weights: { ...this.weights }
+    }
+  }
+
+  /**
+   * Scores a raster image. The analyzers are pure functions of the pixels,
+   * so the same input always produces the same score.
+   */
+  async scoreImage(
+    buffer: Buffer,
+    documentType: DocumentContext['type'] = 'worksheet'
+  ): Promise<QualityScore> {
+    const image = await ImageLoader.loadImageFromBuffer(buffer)
+
+    const context: DocumentContext = {
+      imageData: image as unknown as ImageData,
+      type: documentType,
+      metadata: {
+        width: image.width,
+        height: image.height,
+        format: 'image/png',
+        size: buffer.length
+      }
+    }
+
+    const analysis = await this.analysisEngine.generateCompleteAnalysis(context)
+
+    const breakdown: QualityDimensionScores = {
+      layout: this.clampScore(analysis.layout.score),
+      colors: this.clampScore(analysis.colors.score),
+      typography: this.clampScore(analysis.typography.score),
+      engagement: this.clampScore(analysis.engagement.score)
+    }
+
     return {
-      before: beforeScore,
-      after: afterScore,
-      improvement: Math.round(improvement)
+      overall: this.weightedScore(breakdown),
+      breakdown,
+      weights: { ...this.weights }
     }
   }
 
-  private async scoreDocument(url: string, isEnhanced: boolean = false): Promise<number> {
-    // In production, this would actually analyze the document
-    // For now, simulate scoring
-    
-    if (isEnhanced) {
-      // Enhanced documents get higher scores
-      return Math.floor(Math.random() * 20) + 75 // 75-95
-    } else {
-      // Original documents get lower scores
-      return Math.floor(Math.random() * 30) + 45 // 45-75
+  compareScores(before: QualityScore, after: QualityScore): QualityImprovement {
+    const improvement = before.overall > 0
+      ? ((after.overall - before.overall) / before.overall) * 100
+      : after.overall
+
+    return {
+      before: before.overall,
+      after: after.overall,
+      improvement: Math.round(improvement),
+      breakdown: {
+        before: before.breakdown,
+        after: after.breakdown
+      }
     }
   }
 
   async scoreEnhancement(
-    original: { layout: number; colors: number; typography: number; engagement: number },
-    enhanced: { layout: number; colors: number; typography: number; engagement: number }
+    original: QualityDimensionScores,
+    enhanced: QualityDimensionScores
   ): Promise<number> {
     // Calculate weighted improvement score
-    const weights = {
-      layout: 0.25,
-      colors: 0.25,
-      typography: 0.25,
-      engagement: 0.25
-    }
-    
     let totalImprovement = 0
-    
-    for (const metric of Object.keys(weights) as Array<keyof typeof weights>) {
+
+    for (const metric of DIMENSIONS) {
       const improvement = enhanced[metric] - original[metric]
-      totalImprovement += improvement * weights[metric]
+      totalImprovement += improvement * this.weights[metric]
     }
-    
+
     return Math.round(totalImprovement)
   }
 
@@ -70,19 +157,51 @@ export class QualityScorer {
   ): Promise<{ accuracy: number; effectiveness: number }> {
     // Compare predicted impact vs actual improvement
     const accuracy = 100 - Math.abs(strategy.impact - actualImprovement)
-    
+
     // Evaluate effectiveness based on priority and improvement
     let effectiveness = actualImprovement
-    
+
     if (strategy.priority === 'high' && actualImprovement < 50) {
       effectiveness *= 0.8 // Penalty for underperforming high-priority strategies
     } else if (strategy.priority === 'low' && actualImprovement > 70) {
       effectiveness *= 1.2 // Bonus for overperforming low-priority strategies
     }
-    
+
     return {
       accuracy: Math.max(0, accuracy),
       effectiveness: Math.min(100, effectiveness)
     }
   }
-}
\ No newline at end of file
+
+  private weightedScore(breakdown: QualityDimensionScores): number {
+    const total = DIMENSIONS.reduce(
+      (sum, metric) => sum + breakdown[metric] * this.weights[metric],
+      0
+    )
+    return Math.round(total)
+  }
+
+  private normalizeWeights(weights: QualityWeights): QualityWeights {
+    for (const metric of DIMENSIONS) {
+      if (!Number.isFinite(weights[metric]) || weights[metric] < 0) {
+        throw new Error(`Invalid quality weight for ${metric}: ${weights[metric]}`)
+      }
+    }
+
+    const total = DIMENSIONS.reduce((sum, metric) => sum + weights[metric], 0)
+    if (total === 0) {
+      throw new Error('Quality weights must not all be zero')
+    }
+
+    return {
+      layout: weights.layout / total,
+      colors: weights.colors / total,
+      typography: weights.typography / total,
+      engagement: weights.engagement / total
+    }
+  }
+
+  private clampScore(score: number): number {
+    return Math.max(0, Math.min(100, Math.round(score)))
+  }
+}
@@ -1,4 +1,5 @@
 import { DocumentAnalysis } from '@/lib/ai/types'
+import type { DocumentContext } from '@/lib/analysis/types'
 
 export interface EnhancementRequest {
   documentId: string
@@ -16,6 +17,7 @@ export interface EnhancementPreferences {
   colorScheme?: 'vibrant' | 'muted' | 'monochrome' | 'complementary' | 'analogous'
   preserveContent?: boolean
   autoApprove?: boolean
+  documentType?: DocumentContext['type'] // what the document is for; scoring defaults to worksheet
 }
 
 export interface ColorEnhancement {
@@ -105,17 +107,38 @@ export interface EnhancementStrategy {
   }
 }
 
+export interface QualityDimensionScores {
+  layout: number
+  colors: number
+  typography: number
+  engagement: number
+}
+
+export type QualityWeights = QualityDimensionScores
+
+export interface QualityScore {
+  overall: number // 0-100
+  breakdown: QualityDimensionScores
+  weights: QualityWeights
+}
+
+export interface QualityImprovement {
+  before: number
+  after: number
+  improvement: number
+  breakdown?: {
+    before: QualityDimensionScores
+    after: QualityDimensionScores
+  }
+}
+
 export interface EnhancementResult {
   success: boolean
   documentId: string
   strategies: EnhancementStrategy[]
   appliedStrategies: string[]
   enhancedUrl?: string
-  qualityScore: {
-    before: number
-    after: number
-    improvement: number
-  }
+  qualityScore: QualityImprovement
   metadata: {
     processingTime: number
     enhancementCount: number
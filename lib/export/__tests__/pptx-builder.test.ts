@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import JSZip from 'jszip'
+import { buildPptx, documentToSlides } from '../pptx-builder'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+
+// jest.setup.js stubs sharp and jszip globally; slides are built from real
+// pixels and the package is read back to check its contents
+jest.unmock('sharp')
+jest.unmock('jszip')
+
+async function createPage(): Promise<Buffer> {
+  // White page with a dark blue "title" bar in the top quarter
+  const title = await sharp({
+    create: { width: 300, height: 40, channels: 3, background: '#1a237e' }
+  }).png().toBuffer()
+
+  return sharp({
+    create: { width: 800, height: 600, channels: 3, background: '#ffffff' }
+  })
+    .composite([{ input: title, left: 100, top: 60 }])
+    .png()
+    .toBuffer()
+}
+
+async function readSlides(pptx: Buffer): Promise<{ zip: JSZip; slides: string[] }> {
+  const zip = await JSZip.loadAsync(pptx)
+  const names = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort()
+  const slides = await Promise.all(names.map(name => zip.file(name)!.async('string')))
+  return { zip, slides }
+}
+
+describe('pptx-builder', () => {
+  const titleRegion: TextRegion = {
+    text: 'Fractions Review',
+    role: 'title',
+    pageNumber: 1,
+    confidence: 94,
+    bounds: { x: 100 / 800, y: 60 / 600, width: 300 / 800, height: 40 / 600 }
+  }
+
+  it('writes an Office Open XML package with one slide per page', async () => {
+    const page = await createPage()
+
+    const pptx = await buildPptx(
+      [{ image: page }, { image: page }],
+      { title: 'Worksheet' }
+    )
+
+    const { zip, slides } = await readSlides(pptx)
+    expect(pptx.subarray(0, 2).toString()).toBe('PK')
+    expect(zip.file('ppt/presentation.xml')).not.toBeNull()
+    expect(slides).toHaveLength(2)
+    expect(slides[0]).toContain('<p:pic>')
+  })
+
+  it('sizes the slide to the physical page when known', async () => {
+    const pptx = await buildPptx(
+      [{ image: await createPage(), widthIn: 8.5, heightIn: 11 }],
+      { title: 'Letter' }
+    )
+
+    const zip = await JSZip.loadAsync(pptx)
+    const presentation = await zip.file('ppt/presentation.xml')!.async('string')
+    // 914400 EMU per inch
+    expect(presentation).toContain('<p:sldSz cx="7772400" cy="10058400"')
+  })
+
+  it('replaces located text with an editable text box in its colour', async () => {
+    const [slide] = await documentToSlides(await createPage(), [titleRegion])
+
+    const { slides } = await readSlides(await buildPptx([slide], { title: 'Worksheet' }))
+
+    expect(slides[0]).toContain('Fractions Review')
+    expect(slides[0]).toContain('1A237E')
+  })
+
+  it('only keeps text regions for the matching page', async () => {
+    const slides = await documentToSlides(await createPage(), [
+      titleRegion,
+      { ...titleRegion, text: 'Second page', pageNumber: 2 }
+    ])
+
+    expect(slides).toHaveLength(1)
+    expect(slides[0].textRegions).toEqual([titleRegion])
+  })
+
+  it('adds the free plan watermark to every slide', async () => {
+    const page = await createPage()
+
+    const { slides } = await readSlides(
+      await buildPptx([{ image: page }, { image: page }], { title: 'Free', watermark: true })
+    )
+
+    for (const slide of slides) {
+      expect(slide).toContain('Enhanced with Canva Beautifying - Free Plan')
+    }
+  })
+})
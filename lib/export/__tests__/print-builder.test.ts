@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib'
+import { PRINT_PAGE_SIZES, buildPrintPdf } from '../print-builder'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+
+// jest.setup.js stubs sharp and pdf-lib globally; pages are built from real
+// pixels and the PDF is read back to check its boxes and output intent
+jest.unmock('sharp')
+jest.unmock('pdf-lib')
+// Every page is rendered at full print size
+jest.setTimeout(30000)
+
+const MM = 72 / 25.4
+
+function page(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: '#2e7d32' }
+  }).png().toBuffer()
+}
+
+describe('print-builder', () => {
+  it('adds bleed and crop mark margins around the trim box', async () => {
+    // A4 at 300 DPI
+    const { buffer, preflight } = await buildPrintPdf([{ image: await page(2480, 3508) }], { cmyk: false }, { title: 'Poster' })
+
+    const pdf = await PDFDocument.load(buffer)
+    const printed = pdf.getPage(0)
+    const trim = printed.getTrimBox()
+    const bleed = printed.getBleedBox()
+
+    expect(trim.width).toBeCloseTo(PRINT_PAGE_SIZES.A4.width)
+    expect(trim.height).toBeCloseTo(PRINT_PAGE_SIZES.A4.height)
+    expect(trim.x - bleed.x).toBeCloseTo(3 * MM)
+    expect(printed.getWidth()).toBeGreaterThan(bleed.width)
+    expect(preflight).toEqual({ passed: true, issues: [] })
+  })
+
+  it('turns the page to match the image and leaves out marks when asked', async () => {
+    const { buffer } = await buildPrintPdf(
+      [{ image: await page(4960, 3508) }],
+      { pageSize: 'A3', bleed: 0, cropMarks: false, cmyk: false },
+      { title: 'Flyer' }
+    )
+
+    const printed = (await PDFDocument.load(buffer)).getPage(0)
+    expect(printed.getWidth()).toBeCloseTo(PRINT_PAGE_SIZES.A3.height)
+    expect(printed.getHeight()).toBeCloseTo(PRINT_PAGE_SIZES.A3.width)
+  })
+
+  it('converts to CMYK and embeds the profile as the output intent', async () => {
+    const { buffer } = await buildPrintPdf([{ image: await page(2550, 3300) }], { pageSize: 'Letter' }, { title: 'Poster' })
+
+    const pdf = await PDFDocument.load(buffer)
+    const [intent] = pdf.catalog.lookup(PDFName.of('OutputIntents'), PDFArray).asArray()
+      .map(ref => pdf.context.lookup(ref, PDFDict))
+    expect(intent.get(PDFName.of('S'))?.toString()).toBe('/GTS_PDFX')
+    expect(intent.get(PDFName.of('DestOutputProfile'))).toBeDefined()
+  })
+
+  it('warns about upscaled pages and text too small to print', async () => {
+    const small: TextRegion = {
+      text: 'Tiny footnote',
+      role: 'caption',
+      pageNumber: 1,
+      confidence: 90,
+      bounds: { x: 0.1, y: 0.9, width: 0.3, height: 0.005 },
+    }
+
+    // 100 DPI at A4: upscaled, and blurred enough to fail
+    const { preflight } = await buildPrintPdf(
+      [{ image: await page(827, 1169), textRegions: [small] }],
+      { cmyk: false },
+      { title: 'Worksheet' }
+    )
+
+    expect(preflight.passed).toBe(false)
+    expect(preflight.issues.map(issue => [issue.kind, issue.severity])).toEqual([
+      ['low-resolution', 'error'],
+      ['small-text', 'warning'],
+    ])
+    expect(preflight.issues[0].message).toContain('100 DPI at A4')
+  })
+})
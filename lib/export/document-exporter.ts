@@ -1,5 +1,10 @@
 import sharp from 'sharp'
 import { PDFDocument } from 'pdf-lib'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+import { buildPptx, documentToSlides } from './pptx-builder'
+import { buildPrintPdf, documentToPrintPages } from './print-builder'
+import { flattenedToLayeredSvg } from './svg-builder'
+import type { PreflightReport, PrintSettings } from './types'
 
 export interface DocumentExporterConfig {
   subscriptionTier: 'free' | 'basic' | 'pro' | 'premium'
@@ -15,8 +20,13 @@ export class DocumentExporter {
 
   async exportToPDF(
     documentBuffer: Buffer,
-    _quality: 'standard' | 'high' | 'print'
+    quality: 'standard' | 'high' | 'print'
   ): Promise<Buffer> {
+    if (quality === 'print') {
+      const { buffer } = await this.exportToPrintPDF(documentBuffer, 'Untitled')
+      return buffer
+    }
+
     // If already PDF, return as is
     if (this.isPDF(documentBuffer)) {
       return documentBuffer
@@ -49,6 +59,20 @@ export class DocumentExporter {
     return Buffer.from(await pdfDoc.save())
   }
 
+  async exportToPrintPDF(
+    documentBuffer: Buffer,
+    title: string,
+    settings: PrintSettings = {},
+    options: { textRegions?: TextRegion[] } = {}
+  ): Promise<{ buffer: Buffer; preflight: PreflightReport }> {
+    const pages = await documentToPrintPages(documentBuffer, options.textRegions)
+
+    return buildPrintPdf(pages, settings, {
+      title,
+      watermark: this.config.watermark
+    })
+  }
+
   async exportToPNG(
     documentBuffer: Buffer,
     quality: 'standard' | 'high' | 'print'
@@ -141,18 +165,25 @@ export class DocumentExporter {
 
   async exportToPPTX(
     documentBuffer: Buffer,
-    title: string
+    title: string,
+    options: { textRegions?: TextRegion[] } = {}
   ): Promise<Buffer> {
-    // In production, you'd use a library like pptxgenjs
-    // For now, return a placeholder
-    const placeholder = {
-      type: 'powerpoint',
+    const slides = await documentToSlides(documentBuffer, options.textRegions)
+
+    return buildPptx(slides, {
       title,
-      slides: 1,
-      exportedAt: new Date().toISOString()
-    }
+      watermark: this.config.watermark
+    })
+  }
 
-    return Buffer.from(JSON.stringify(placeholder))
+  async exportToSVG(
+    documentBuffer: Buffer,
+    options: { layeredSvg?: Buffer } = {}
+  ): Promise<Buffer> {
+    if (options.layeredSvg) {
+      return options.layeredSvg
+    }
+    return Buffer.from(await flattenedToLayeredSvg(documentBuffer))
   }
 
   private isPDF(buffer: Buffer): boolean {
@@ -1,8 +1,12 @@
+import sharp from 'sharp'
 import { createClient } from '@/lib/supabase/server'
+import { CanvaDesignPublisher } from '@/lib/canva/design-publisher'
 import { PngExporter } from './exporters/png-exporter'
 import { JpgExporter } from './exporters/jpg-exporter'
 import { PdfExporter } from './exporters/pdf-exporter'
 import { CanvaExporter } from './exporters/canva-exporter'
+import { PptxExporter } from './exporters/pptx-exporter'
+import { SvgExporter } from './exporters/svg-exporter'
 import { BaseExporter } from './exporters/base-exporter'
 import { BatchExporter } from './batch-exporter'
 import { ExportProgressTracker } from './progress-tracker'
@@ -14,23 +18,28 @@ import {
   BatchExportOptions,
   ExportProgress 
 } from './types'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
 
 export class ExportService {
   private exporters: Map<ExportFormat, BaseExporter>
   private batchExporter: BatchExporter
   private progressTracker: ExportProgressTracker
+  private canvaPublisher: CanvaDesignPublisher
 
   constructor() {
     this.exporters = new Map([
       ['png', new PngExporter()],
       ['jpg', new JpgExporter()],
       ['pdf', new PdfExporter()],
-      ['canva', new CanvaExporter()]
+      ['canva', new CanvaExporter()],
+      ['pptx', new PptxExporter()],
+      ['svg', new SvgExporter()]
     ])
     
     this.batchExporter = new BatchExporter()
     this.batchExporter.setExportService(this) // Inject the service to avoid circular dependency
     this.progressTracker = new ExportProgressTracker()
+    this.canvaPublisher = new CanvaDesignPublisher()
   }
 
   async exportDocument(request: ExportRequest): Promise<ExportResult> {
@@ -73,8 +82,20 @@ export class ExportService {
     )
 
     try {
+      if (request.options.format === 'pptx' && request.options.editableText && !request.textRegions) {
+        const metadata = await this.loadPipelineMetadata(request.documentId)
+        request = { ...request, textRegions: metadata?.extractedText?.regions }
+      }
+
+      if (request.options.format === 'svg' && !request.layeredUrl) {
+        const metadata = await this.loadPipelineMetadata(request.documentId)
+        request = { ...request, layeredUrl: metadata?.layeredFileUrl }
+      }
+
       // Export the document
-      const result = await exporter.export(request)
+      const result = request.options.format === 'canva' && request.options.pushToCanva
+        ? await this.publishToCanva(request, progressId)
+        : await exporter.export(request)
       
       // Update progress
       if (result.success) {
@@ -123,6 +144,10 @@ export class ExportService {
         return 'jpg'
       case 'pdf':
         return 'pdf'
+      case 'pptx':
+        return 'pptx'
+      case 'svg':
+        return 'svg'
       default:
         return 'png' // Default to PNG
     }
@@ -136,6 +161,85 @@ export class ExportService {
     return this.progressTracker.getAllProgress()
   }
 
+  private async publishToCanva(
+    request: ExportRequest,
+    progressId: string
+  ): Promise<ExportResult> {
+    const startTime = Date.now()
+
+    try {
+      const response = await fetch(request.enhancedUrl)
+      if (!response.ok) {
+        throw new Error(`Failed to download enhanced document: ${response.statusText}`)
+      }
+      const file = Buffer.from(await response.arrayBuffer())
+
+      const isPDF = file.subarray(0, 4).toString() === '%PDF'
+      const metadata = isPDF ? undefined : await sharp(file).metadata()
+      const dimensions = metadata?.width && metadata?.height
+        ? { width: metadata.width, height: metadata.height }
+        : undefined
+
+      const design = await this.canvaPublisher.publish({
+        userId: request.userId,
+        title: typeof request.metadata?.title === 'string'
+          ? request.metadata.title
+          : `Enhanced Document - ${request.documentId}`,
+        file,
+        mimeType: isPDF ? 'application/pdf' : `image/${metadata?.format === 'jpeg' ? 'jpeg' : 'png'}`,
+        dimensions,
+        onProgress: progress => this.progressTracker.updateProgress(progressId, progress)
+      })
+
+      return {
+        success: true,
+        documentId: request.documentId,
+        format: 'canva',
+        exportUrl: design.editUrl,
+        fileSize: file.length,
+        dimensions,
+        canvaDesign: {
+          id: design.designId,
+          editUrl: design.editUrl,
+          viewUrl: design.viewUrl
+        },
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      return {
+        success: false,
+        documentId: request.documentId,
+        format: 'canva',
+        error: error instanceof Error ? error.message : 'Canva upload failed',
+        processingTime: Date.now() - startTime
+      }
+    }
+  }
+
+  private async loadPipelineMetadata(documentId: string): Promise<{
+    extractedText?: { regions?: TextRegion[] }
+    layeredFileUrl?: string
+  } | undefined> {
+    try {
+      const supabase = await createClient()
+
+      // The enhancement pipeline keeps the OCR output and layered SVG of
+      // its latest run
+      const { data } = await supabase
+        .from('enhancement_pipelines')
+        .select('metadata')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      return data?.metadata
+    } catch (error) {
+      console.error('Failed to load pipeline metadata:', error)
+      return undefined
+    }
+  }
+
   private async storeExportHistory(
     request: ExportRequest,
     result: ExportResult
@@ -153,7 +257,8 @@ export class ExportService {
           quality: request.options.quality,
           scale: request.options.scale,
           dimensions: result.dimensions,
-          processingTime: result.processingTime
+          processingTime: result.processingTime,
+          canvaDesign: result.canvaDesign
         },
         expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
       })
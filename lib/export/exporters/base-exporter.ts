@@ -46,7 +46,9 @@ export abstract class BaseExporter {
       png: 'image/png',
       jpg: 'image/jpeg',
       pdf: 'application/pdf',
-      canva: 'application/json'
+      canva: 'application/json',
+      pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      svg: 'image/svg+xml'
     }
     return contentTypes[format]
   }
@@ -1,7 +1,8 @@
 import { PDFDocument, rgb, StandardFonts, PDFPage } from 'pdf-lib'
 import sharp from 'sharp'
 import { BaseExporter } from './base-exporter'
-import { ExportRequest, ExportResult } from '../types'
+import { ExportRequest, ExportResult, PrintSettings } from '../types'
+import { buildPrintPdf, documentToPrintPages } from '../print-builder'
 import { uploadFile } from '@/lib/r2'
 
 export class PdfExporter extends BaseExporter {
@@ -10,6 +11,10 @@ export class PdfExporter extends BaseExporter {
   }
 
   async export(request: ExportRequest): Promise<ExportResult> {
+    if (request.options.print) {
+      return this.exportForPrint(request, request.options.print)
+    }
+
     try {
       const { result: pdfBuffer, time } = await this.measureProcessingTime(async () => {
         // Create a new PDF document
@@ -98,6 +103,48 @@ export class PdfExporter extends BaseExporter {
     }
   }
 
+  private async exportForPrint(request: ExportRequest, settings: PrintSettings): Promise<ExportResult> {
+    try {
+      const { result: printed, time } = await this.measureProcessingTime(async () => {
+        const documentBuffer = await this.downloadImage(request.enhancedUrl)
+        const pages = await documentToPrintPages(documentBuffer, request.textRegions)
+        return buildPrintPdf(pages, settings, {
+          title: `Enhanced Document - ${request.documentId}`,
+          watermark: Boolean(request.metadata?.watermark)
+        })
+      })
+
+      const fileName = this.generateExportFileName(request.documentId, 'pdf')
+
+      const { url } = await uploadFile({
+        file: printed.buffer,
+        userId: request.userId,
+        filename: fileName,
+        folder: 'ENHANCED',
+        contentType: this.getContentType('pdf'),
+        metadata: { preflight: printed.preflight.passed ? 'passed' : 'failed' }
+      })
+
+      return {
+        success: true,
+        documentId: request.documentId,
+        format: 'pdf',
+        exportUrl: url,
+        fileSize: printed.buffer.length,
+        preflight: printed.preflight,
+        processingTime: time
+      }
+    } catch (error) {
+      return {
+        success: false,
+        documentId: request.documentId,
+        format: 'pdf',
+        error: error instanceof Error ? error.message : 'Print PDF export failed',
+        processingTime: 0
+      }
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   private async addVectorElements(page: PDFPage, _request: ExportRequest): Promise<void> {
     // In a real implementation, this would extract and add vector elements
@@ -0,0 +1,64 @@
+import { BaseExporter } from './base-exporter'
+import { ExportRequest, ExportResult } from '../types'
+import { buildPptx, documentToSlides } from '../pptx-builder'
+import { uploadFile } from '@/lib/r2'
+
+export class PptxExporter extends BaseExporter {
+  constructor() {
+    super('pptx')
+  }
+
+  async export(request: ExportRequest): Promise<ExportResult> {
+    try {
+      const { result, time } = await this.measureProcessingTime(async () => {
+        const documentBuffer = await this.downloadImage(request.enhancedUrl)
+
+        // Text boxes are opt-in; without them every slide is a flat image
+        const textRegions = request.options.editableText ? request.textRegions : undefined
+        const slides = await documentToSlides(documentBuffer, textRegions)
+
+        const buffer = await buildPptx(slides, {
+          title: typeof request.metadata?.title === 'string'
+            ? request.metadata.title
+            : `Enhanced Document - ${request.documentId}`,
+          watermark: request.metadata?.watermark === true
+        })
+
+        return { buffer, slideCount: slides.length }
+      })
+
+      const fileName = this.generateExportFileName(request.documentId, 'pptx')
+
+      const { url } = await uploadFile({
+        file: result.buffer,
+        userId: request.userId,
+        filename: fileName,
+        folder: 'ENHANCED',
+        contentType: this.getContentType('pptx'),
+        metadata: { slides: String(result.slideCount) }
+      })
+
+      return {
+        success: true,
+        documentId: request.documentId,
+        format: 'pptx',
+        exportUrl: url,
+        fileSize: result.buffer.length,
+        processingTime: time
+      }
+    } catch (error) {
+      return {
+        success: false,
+        documentId: request.documentId,
+        format: 'pptx',
+        error: error instanceof Error ? error.message : 'PPTX export failed',
+        processingTime: 0
+      }
+    }
+  }
+
+  validateOptions(request: ExportRequest): boolean {
+    // Slides keep the document's native resolution; scaling doesn't apply
+    return request.options.scale === undefined || request.options.scale === 1
+  }
+}
@@ -0,0 +1,59 @@
+import { BaseExporter } from './base-exporter'
+import { ExportRequest, ExportResult } from '../types'
+import { flattenedToLayeredSvg } from '../svg-builder'
+import { uploadFile } from '@/lib/r2'
+
+export class SvgExporter extends BaseExporter {
+  constructor() {
+    super('svg')
+  }
+
+  async export(request: ExportRequest): Promise<ExportResult> {
+    try {
+      const { result, time } = await this.measureProcessingTime(async () => {
+        // Composition writes the layered SVG; older enhancements only have
+        // the flattened file, which is wrapped as a single layer
+        if (request.layeredUrl) {
+          return { buffer: await this.downloadImage(request.layeredUrl), layered: true }
+        }
+
+        const documentBuffer = await this.downloadImage(request.enhancedUrl)
+        const svg = await flattenedToLayeredSvg(documentBuffer)
+        return { buffer: Buffer.from(svg), layered: false }
+      })
+
+      const fileName = this.generateExportFileName(request.documentId, 'svg')
+
+      const { url } = await uploadFile({
+        file: result.buffer,
+        userId: request.userId,
+        filename: fileName,
+        folder: 'ENHANCED',
+        contentType: this.getContentType('svg'),
+        metadata: { layered: String(result.layered) }
+      })
+
+      return {
+        success: true,
+        documentId: request.documentId,
+        format: 'svg',
+        exportUrl: url,
+        fileSize: result.buffer.length,
+        processingTime: time
+      }
+    } catch (error) {
+      return {
+        success: false,
+        documentId: request.documentId,
+        format: 'svg',
+        error: error instanceof Error ? error.message : 'SVG export failed',
+        processingTime: 0
+      }
+    }
+  }
+
+  validateOptions(request: ExportRequest): boolean {
+    // Layers keep their composed size; scaling is left to the editor
+    return request.options.scale === undefined || request.options.scale === 1
+  }
+}
@@ -5,4 +5,6 @@ export { PngExporter } from './exporters/png-exporter'
 export { JpgExporter } from './exporters/jpg-exporter'
 export { PdfExporter } from './exporters/pdf-exporter'
 export { CanvaExporter } from './exporters/canva-exporter'
+export { PptxExporter } from './exporters/pptx-exporter'
+export { SvgExporter } from './exporters/svg-exporter'
 export * from './types'
\ No newline at end of file
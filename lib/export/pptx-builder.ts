@@ -0,0 +1,278 @@
+import PptxGenJS from 'pptxgenjs'
+import sharp from 'sharp'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+
+export interface PptxSlideSource {
+  image: Buffer // rendered page, any format sharp reads
+  widthIn?: number // physical page size, when known (e.g. from a PDF)
+  heightIn?: number
+  textRegions?: TextRegion[] // redrawn as editable text boxes
+}
+
+export interface PptxBuildOptions {
+  title: string
+  author?: string
+  watermark?: boolean
+}
+
+// PowerPoint accepts slide sizes between 1 and 56 inches per side
+const MIN_SLIDE_INCHES = 1
+const MAX_SLIDE_INCHES = 56
+// Images without a physical size are laid out on a widescreen-width slide
+const DEFAULT_SLIDE_WIDTH = 13.333
+const PPTX_LAYOUT = 'BEAUTIFY_DOCUMENT'
+// Slides are viewed on screens and projectors, so 150 DPI is plenty
+const PPTX_RASTER_DPI = 150
+
+interface RGB { r: number; g: number; b: number }
+
+interface PreparedSlide {
+  image: Buffer
+  width: number // pixels
+  height: number
+  textBoxes: Array<{ region: TextRegion; color: string }>
+}
+
+/**
+ * Splits a document into slide sources: one per PDF page, sized to the
+ * page's physical dimensions, or a single slide for an image.
+ */
+export async function documentToSlides(
+  document: Buffer,
+  textRegions: TextRegion[] = []
+): Promise<PptxSlideSource[]> {
+  const regionsForPage = (pageNumber: number) =>
+    textRegions.filter(region => region.pageNumber === pageNumber)
+
+  if (document.subarray(0, 4).toString() !== '%PDF') {
+    return [{ image: document, textRegions: regionsForPage(1) }]
+  }
+
+  const pages = await rasterizePDF(document, { dpi: PPTX_RASTER_DPI })
+  return pages.map(page => ({
+    image: page.buffer,
+    widthIn: page.widthPt / 72,
+    heightIn: page.heightPt / 72,
+    textRegions: regionsForPage(page.pageNumber)
+  }))
+}
+
+/**
+ * Builds an Office Open XML presentation with one slide per page. Each page
+ * raster becomes the slide background; text regions are erased from the
+ * raster and replaced with editable text boxes in the same place.
+ */
+export async function buildPptx(
+  slides: PptxSlideSource[],
+  options: PptxBuildOptions
+): Promise<Buffer> {
+  if (slides.length === 0) {
+    throw new Error('Presentation needs at least one slide')
+  }
+
+  const prepared: PreparedSlide[] = []
+  for (const slide of slides) {
+    prepared.push(await prepareSlide(slide))
+  }
+
+  // A presentation has a single slide size, so it follows the first page;
+  // pages with a different aspect ratio are letterboxed
+  const [first] = prepared
+  const slideWidth = clampInches(slides[0].widthIn ?? DEFAULT_SLIDE_WIDTH)
+  const slideHeight = clampInches(
+    slides[0].heightIn ?? slideWidth * (first.height / first.width)
+  )
+
+  const pptx = new PptxGenJS()
+  pptx.defineLayout({ name: PPTX_LAYOUT, width: slideWidth, height: slideHeight })
+  pptx.layout = PPTX_LAYOUT
+  pptx.title = options.title
+  pptx.author = options.author || 'Canva Beautifying'
+  pptx.company = 'Canva Beautifying'
+
+  for (const page of prepared) {
+    const slide = pptx.addSlide()
+    const scale = Math.min(slideWidth / page.width, slideHeight / page.height)
+    const w = page.width * scale
+    const h = page.height * scale
+    const x = (slideWidth - w) / 2
+    const y = (slideHeight - h) / 2
+
+    slide.addImage({
+      data: `image/png;base64,${page.image.toString('base64')}`,
+      x,
+      y,
+      w,
+      h,
+      altText: options.title
+    })
+
+    for (const { region, color } of page.textBoxes) {
+      const boxHeight = region.bounds.height * h
+      slide.addText(region.text, {
+        x: x + region.bounds.x * w,
+        y: y + region.bounds.y * h,
+        w: region.bounds.width * w,
+        h: boxHeight,
+        // OCR boxes span ascender to descender, roughly 1.2x the font size
+        fontSize: Math.max(6, Math.round((boxHeight * 72) / 1.2)),
+        bold: region.role === 'title' || region.role === 'heading',
+        color,
+        margin: 0,
+        valign: 'middle',
+        wrap: false,
+        fit: 'shrink'
+      })
+    }
+
+    if (options.watermark) {
+      slide.addText('Enhanced with Canva Beautifying - Free Plan', {
+        x: 0.2,
+        y: slideHeight - 0.4,
+        w: Math.min(4, slideWidth - 0.4),
+        h: 0.3,
+        fontSize: 10,
+        color: '666666',
+        transparency: 50,
+        margin: 0
+      })
+    }
+  }
+
+  const output = await pptx.write({ outputType: 'nodebuffer' })
+  return Buffer.from(output as Uint8Array)
+}
+
+async function prepareSlide(slide: PptxSlideSource): Promise<PreparedSlide> {
+  const regions = (slide.textRegions || []).filter(region => region.text.trim())
+
+  const { data, info } = await sharp(slide.image)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const { width, height, channels } = info
+
+  const textBoxes: PreparedSlide['textBoxes'] = []
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.bounds.x * width))
+    const top = Math.max(0, Math.floor(region.bounds.y * height))
+    const right = Math.min(width, Math.ceil((region.bounds.x + region.bounds.width) * width))
+    const bottom = Math.min(height, Math.ceil((region.bounds.y + region.bounds.height) * height))
+    if (right <= left || bottom <= top) continue
+
+    const pad = Math.ceil((bottom - top) * 0.15)
+    const background = sampleRing(data, width, height, channels, left - pad, top - pad, right + pad, bottom + pad)
+    const ink = sampleInk(data, width, channels, left, top, right, bottom, background)
+
+    // Erase the rasterized glyphs so the editable copy doesn't double up
+    fillRect(data, width, height, channels, left - pad, top - pad, right + pad, bottom + pad, background)
+
+    textBoxes.push({ region, color: toHex(ink) })
+  }
+
+  const image = await sharp(data, { raw: { width, height, channels } }).png().toBuffer()
+  return { image, width, height, textBoxes }
+}
+
+function sampleRing(
+  data: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number
+): RGB {
+  const x0 = Math.max(0, left)
+  const y0 = Math.max(0, top)
+  const x1 = Math.min(width - 1, right)
+  const y1 = Math.min(height - 1, bottom)
+  const sum = { r: 0, g: 0, b: 0 }
+  let count = 0
+
+  const add = (x: number, y: number) => {
+    const offset = (y * width + x) * channels
+    sum.r += data[offset]
+    sum.g += data[offset + 1]
+    sum.b += data[offset + 2]
+    count++
+  }
+
+  for (let x = x0; x <= x1; x++) {
+    add(x, y0)
+    add(x, y1)
+  }
+  for (let y = y0 + 1; y < y1; y++) {
+    add(x0, y)
+    add(x1, y)
+  }
+
+  return {
+    r: Math.round(sum.r / count),
+    g: Math.round(sum.g / count),
+    b: Math.round(sum.b / count)
+  }
+}
+
+function sampleInk(
+  data: Buffer,
+  width: number,
+  channels: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  background: RGB
+): RGB {
+  // The text colour is the pixel furthest from the surrounding background
+  let ink = background
+  let maxDistance = -1
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const offset = (y * width + x) * channels
+      const r = data[offset]
+      const g = data[offset + 1]
+      const b = data[offset + 2]
+      const distance = (r - background.r) ** 2 + (g - background.g) ** 2 + (b - background.b) ** 2
+      if (distance > maxDistance) {
+        maxDistance = distance
+        ink = { r, g, b }
+      }
+    }
+  }
+
+  return ink
+}
+
+function fillRect(
+  data: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  color: RGB
+): void {
+  for (let y = Math.max(0, top); y < Math.min(height, bottom); y++) {
+    for (let x = Math.max(0, left); x < Math.min(width, right); x++) {
+      const offset = (y * width + x) * channels
+      data[offset] = color.r
+      data[offset + 1] = color.g
+      data[offset + 2] = color.b
+    }
+  }
+}
+
+function toHex({ r, g, b }: RGB): string {
+  return [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
+
+function clampInches(value: number): number {
+  return Math.min(MAX_SLIDE_INCHES, Math.max(MIN_SLIDE_INCHES, value))
+}
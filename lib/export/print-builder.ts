@@ -0,0 +1,353 @@
+import chroma from 'chroma-js'
+import sharp from 'sharp'
+import { PDFDocument, PDFName, PDFPage, PDFString, StandardFonts, cmyk, rgb } from 'pdf-lib'
+import { measureRegionColors } from '@/lib/accessibility'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+import type { PreflightIssue, PreflightReport, PrintPageSize, PrintSettings } from './types'
+
+export interface PrintPageSource {
+  image: Buffer // rendered page, any format sharp reads
+  textRegions?: TextRegion[] // checked for type too small or thin to print
+}
+
+export interface PrintBuildOptions {
+  title: string
+  watermark?: boolean
+}
+
+// Trim sizes in points, portrait
+export const PRINT_PAGE_SIZES: Record<PrintPageSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  A3: { width: 841.89, height: 1190.55 },
+  Letter: { width: 612, height: 792 },
+  Tabloid: { width: 792, height: 1224 },
+}
+
+// Printers expect images at 300 DPI at the size they are printed
+export const PRINT_DPI = 300
+// Below this an upscaled page prints visibly blurred, not just soft
+const BLURRY_DPI = 150
+const DEFAULT_BLEED_MM = 3
+const POINTS_PER_MM = 72 / 25.4
+// Crop marks stop short of the bleed so none of them survive trimming
+const MARK_OFFSET = 2 * POINTS_PER_MM
+const MARK_LENGTH = 5 * POINTS_PER_MM
+const MARK_WEIGHT = 0.25
+// Margin around the bleed that holds the crop marks
+const SLUG = MARK_OFFSET + MARK_LENGTH + 2 * POINTS_PER_MM
+// Smallest type size and stroke weight, in points, that print reliably
+const MIN_TEXT_SIZE = 6
+const MIN_STROKE_WIDTH = 0.25
+// Share of an OCR box's height taken up by the font size
+const FONT_HEIGHT_RATIO = 0.8
+
+interface Box { x: number; y: number; width: number; height: number }
+
+/**
+ * Splits a document into print pages: one per PDF page, rendered at print
+ * resolution, or a single page for an image.
+ */
+export async function documentToPrintPages(
+  document: Buffer,
+  textRegions: TextRegion[] = []
+): Promise<PrintPageSource[]> {
+  const regionsForPage = (pageNumber: number) =>
+    textRegions.filter(region => region.pageNumber === pageNumber)
+
+  if (document.subarray(0, 4).toString() !== '%PDF') {
+    return [{ image: document, textRegions: regionsForPage(1) }]
+  }
+
+  const pages = await rasterizePDF(document, { dpi: PRINT_DPI })
+  return pages.map(page => ({
+    image: page.buffer,
+    textRegions: regionsForPage(page.pageNumber)
+  }))
+}
+
+/**
+ * Builds a print-ready PDF. Each page is fitted to the trim size at 300 DPI,
+ * its edges are extended into the bleed, and crop marks are drawn outside
+ * it. CMYK output is converted with an ICC profile that is also embedded as
+ * the document's output intent.
+ *
+ * The preflight report lists pages that had to be upscaled and text likely
+ * to print too small or too thin.
+ */
+export async function buildPrintPdf(
+  pages: PrintPageSource[],
+  settings: PrintSettings,
+  options: PrintBuildOptions
+): Promise<{ buffer: Buffer; preflight: PreflightReport }> {
+  if (pages.length === 0) {
+    throw new Error('Print PDF needs at least one page')
+  }
+
+  const pageSize = settings.pageSize || 'A4'
+  const bleed = (settings.bleed ?? DEFAULT_BLEED_MM) * POINTS_PER_MM
+  const cropMarks = settings.cropMarks ?? true
+  const useCmyk = settings.cmyk ?? true
+  const slug = cropMarks ? SLUG : 0
+
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.setTitle(options.title)
+  pdfDoc.setCreator('Canva Beautifying')
+  const font = options.watermark ? await pdfDoc.embedFont(StandardFonts.Helvetica) : null
+
+  const issues: PreflightIssue[] = []
+  let outputProfile: Buffer | undefined
+
+  for (const [index, source] of pages.entries()) {
+    const pageNumber = index + 1
+    const { width = 0, height = 0 } = await sharp(source.image).metadata()
+    const orientation = settings.orientation || (width > height ? 'landscape' : 'portrait')
+    const trim = trimSize(pageSize, orientation)
+
+    // The page is fitted inside the trim, so its longer side sets the resolution
+    const dpi = Math.max(width / (trim.width / 72), height / (trim.height / 72))
+    if (dpi < PRINT_DPI) {
+      issues.push({
+        kind: 'low-resolution',
+        severity: dpi < BLURRY_DPI ? 'error' : 'warning',
+        pageNumber,
+        message: `Page ${pageNumber} is ${Math.round(dpi)} DPI at ${pageSize} and was upscaled to ${PRINT_DPI} DPI, so fine detail may print ${dpi < BLURRY_DPI ? 'blurred' : 'soft'}`,
+      })
+    }
+    issues.push(...await checkText(source, dpi, pageNumber))
+
+    const { image, profile } = await renderPrintImage(source.image, trim, bleed, useCmyk)
+    outputProfile = outputProfile || profile
+
+    const page = pdfDoc.addPage([trim.width + 2 * (bleed + slug), trim.height + 2 * (bleed + slug)])
+    const embedded = useCmyk ? await pdfDoc.embedJpg(image) : await pdfDoc.embedPng(image)
+    page.drawImage(embedded, {
+      x: slug,
+      y: slug,
+      width: trim.width + 2 * bleed,
+      height: trim.height + 2 * bleed,
+    })
+    page.setBleedBox(slug, slug, trim.width + 2 * bleed, trim.height + 2 * bleed)
+    page.setTrimBox(slug + bleed, slug + bleed, trim.width, trim.height)
+
+    if (cropMarks) {
+      drawCropMarks(page, { x: slug + bleed, y: slug + bleed, ...trim }, bleed, useCmyk)
+    }
+
+    if (font) {
+      page.drawText('Enhanced with Canva Beautifying - Free Plan', {
+        x: slug + bleed + 36,
+        y: slug + bleed + 24,
+        size: 10,
+        font,
+        color: useCmyk ? cmyk(0, 0, 0, 0.6) : rgb(0.4, 0.4, 0.4),
+        opacity: 0.5,
+      })
+    }
+  }
+
+  if (outputProfile) {
+    addOutputIntent(pdfDoc, outputProfile)
+  }
+
+  return {
+    buffer: Buffer.from(await pdfDoc.save()),
+    preflight: { passed: issues.every(issue => issue.severity !== 'error'), issues },
+  }
+}
+
+function trimSize(pageSize: PrintPageSize, orientation: 'portrait' | 'landscape') {
+  const { width, height } = PRINT_PAGE_SIZES[pageSize]
+  return orientation === 'landscape' ? { width: height, height: width } : { width, height }
+}
+
+async function renderPrintImage(
+  image: Buffer,
+  trim: { width: number; height: number },
+  bleed: number,
+  useCmyk: boolean
+): Promise<{ image: Buffer; profile?: Buffer }> {
+  const toPixels = (points: number) => Math.round((points / 72) * PRINT_DPI)
+  const bleedPixels = toPixels(bleed)
+
+  // Letterboxing matches the page's corner, which is usually its background
+  const { data: corner } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .extract({ left: 0, top: 0, width: 1, height: 1 })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const pipeline = sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize(toPixels(trim.width), toPixels(trim.height), {
+      fit: 'contain',
+      background: { r: corner[0], g: corner[1], b: corner[2] },
+      kernel: 'lanczos3',
+    })
+    // Repeating the edge pixels carries backgrounds out past the trim
+    .extend({
+      top: bleedPixels,
+      bottom: bleedPixels,
+      left: bleedPixels,
+      right: bleedPixels,
+      extendWith: 'copy',
+    })
+
+  if (!useCmyk) {
+    return { image: await pipeline.png().toBuffer() }
+  }
+
+  const cmykImage = await pipeline
+    .toColourspace('cmyk')
+    .withIccProfile('cmyk')
+    .jpeg({ quality: 95, chromaSubsampling: '4:4:4' })
+    .toBuffer()
+  const { icc } = await sharp(cmykImage).metadata()
+  return { image: cmykImage, profile: icc }
+}
+
+async function checkText(source: PrintPageSource, dpi: number, pageNumber: number): Promise<PreflightIssue[]> {
+  const regions = source.textRegions || []
+  if (regions.length === 0) return []
+
+  const { data, info } = await sharp(source.image)
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const pointsPerPixel = 72 / dpi
+  const issues: PreflightIssue[] = []
+
+  for (const region of regions) {
+    const box = pixelBox(region.bounds, info.width, info.height)
+    if (box.width < 2 || box.height < 2) continue
+    const label = `"${excerpt(region.text)}" on page ${pageNumber}`
+
+    const size = box.height * FONT_HEIGHT_RATIO * pointsPerPixel
+    if (size < MIN_TEXT_SIZE) {
+      issues.push({
+        kind: 'small-text',
+        severity: 'warning',
+        pageNumber,
+        message: `${label} prints at about ${size.toFixed(1)}pt, below the ${MIN_TEXT_SIZE}pt minimum`,
+      })
+      continue
+    }
+
+    const stroke = strokeWidth(cropPixels(data, info.width, box), box.width, box.height)
+    if (stroke !== null && stroke * pointsPerPixel < MIN_STROKE_WIDTH) {
+      issues.push({
+        kind: 'thin-font',
+        severity: 'warning',
+        pageNumber,
+        message: `${label} has strokes about ${(stroke * pointsPerPixel).toFixed(2)}pt wide, which may break up in print`,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Average width in pixels of the text's strokes. A stroke's area is its
+ * width times its length, and its outline is about twice its length, so
+ * width is roughly twice the ink area over the outline.
+ */
+function strokeWidth(pixels: Uint8ClampedArray, width: number, height: number): number | null {
+  const colors = measureRegionColors(pixels)
+  if (!colors) return null
+
+  const foreground = grey(colors.foreground)
+  const background = grey(colors.background)
+  const threshold = (foreground + background) / 2
+  const ink = new Uint8Array(width * height)
+  for (let i = 0; i < ink.length; i++) {
+    const level = 0.2126 * pixels[i * 4] + 0.7152 * pixels[i * 4 + 1] + 0.0722 * pixels[i * 4 + 2]
+    ink[i] = (foreground < background ? level < threshold : level > threshold) ? 1 : 0
+  }
+
+  let area = 0
+  let outline = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!ink[y * width + x]) continue
+      area++
+      if (x > 0 && !ink[y * width + x - 1]) outline++
+      if (x < width - 1 && !ink[y * width + x + 1]) outline++
+      if (y > 0 && !ink[(y - 1) * width + x]) outline++
+      if (y < height - 1 && !ink[(y + 1) * width + x]) outline++
+    }
+  }
+
+  return outline > 0 ? (2 * area) / outline : null
+}
+
+// Drawn in registration colour, so the marks appear on every plate
+function drawCropMarks(page: PDFPage, trim: Box, bleed: number, useCmyk: boolean) {
+  const color = useCmyk ? cmyk(1, 1, 1, 1) : rgb(0, 0, 0)
+  const start = bleed + MARK_OFFSET
+  const end = start + MARK_LENGTH
+
+  for (const [x, dx] of [[trim.x, -1], [trim.x + trim.width, 1]]) {
+    for (const [y, dy] of [[trim.y, -1], [trim.y + trim.height, 1]]) {
+      page.drawLine({
+        start: { x: x + dx * start, y },
+        end: { x: x + dx * end, y },
+        thickness: MARK_WEIGHT,
+        color,
+      })
+      page.drawLine({
+        start: { x, y: y + dy * start },
+        end: { x, y: y + dy * end },
+        thickness: MARK_WEIGHT,
+        color,
+      })
+    }
+  }
+}
+
+// Tells the printer which CMYK profile the page images were separated for
+function addOutputIntent(pdfDoc: PDFDocument, profile: Buffer) {
+  const { context } = pdfDoc
+  const profileRef = context.register(context.flateStream(profile, { N: 4 }))
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFX',
+    OutputConditionIdentifier: PDFString.of('CMYK'),
+    Info: PDFString.of('CMYK separation used for the page images'),
+    DestOutputProfile: profileRef,
+  })
+  pdfDoc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]))
+}
+
+function pixelBox(bounds: Box, width: number, height: number): Box {
+  const x = Math.max(0, Math.floor(bounds.x * width))
+  const y = Math.max(0, Math.floor(bounds.y * height))
+  return {
+    x,
+    y,
+    width: Math.min(width, Math.ceil((bounds.x + bounds.width) * width)) - x,
+    height: Math.min(height, Math.ceil((bounds.y + bounds.height) * height)) - y,
+  }
+}
+
+function cropPixels(data: Buffer, imageWidth: number, box: Box): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(box.width * box.height * 4)
+  for (let row = 0; row < box.height; row++) {
+    const offset = ((box.y + row) * imageWidth + box.x) * 4
+    pixels.set(data.subarray(offset, offset + box.width * 4), row * box.width * 4)
+  }
+  return pixels
+}
+
+function grey(color: string): number {
+  const [r, g, b] = chroma(color).rgb()
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+function excerpt(text: string): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim()
+  return trimmed.length > 30 ? `${trimmed.slice(0, 29)}…` : trimmed
+}
@@ -0,0 +1,53 @@
+import sharp from 'sharp'
+import {
+  CompositionLayer,
+  LayeredPage,
+  LayeredSVGWriter
+} from '@/lib/enhancement/algorithms/composition'
+import { rasterizePDF } from '@/lib/utils/pdf-rasterizer'
+
+// Matches the slide rasters; enough for on-screen editing
+const SVG_RASTER_DPI = 150
+
+/**
+ * Wraps an already flattened document in the layered SVG format, with each
+ * page as a single "Original" layer. Used for enhancements made before
+ * layered output was kept, so every document can still be exported as SVG.
+ */
+export async function flattenedToLayeredSvg(document: Buffer): Promise<string> {
+  if (document.subarray(0, 4).toString() === '%PDF') {
+    const pages = await rasterizePDF(document, { dpi: SVG_RASTER_DPI })
+    return LayeredSVGWriter.write(
+      pages.map(page => singleLayerPage(page.buffer, page.width, page.height))
+    )
+  }
+
+  const { width = 1920, height = 1080 } = await sharp(document).metadata()
+  const image = await sharp(document).png().toBuffer()
+  return LayeredSVGWriter.write([singleLayerPage(image, width, height)])
+}
+
+function singleLayerPage(image: Buffer, width: number, height: number): LayeredPage {
+  const layer: CompositionLayer = {
+    id: 'original-image',
+    type: 'original',
+    content: { data: image },
+    properties: {
+      x: 0,
+      y: 0,
+      width,
+      height,
+      rotation: 0,
+      scale: 1,
+      opacity: 1,
+      blendMode: 'normal',
+      zIndex: 1
+    },
+    metadata: {
+      importance: 1,
+      visualWeight: 10,
+      semanticType: 'main-content'
+    }
+  }
+  return { layers: [layer], width, height }
+}
@@ -1,12 +1,39 @@
-export type ExportFormat = 'png' | 'jpg' | 'pdf' | 'canva'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
+
+export type ExportFormat = 'png' | 'jpg' | 'pdf' | 'canva' | 'pptx' | 'svg'
 
 export interface ExportOptions {
   format: ExportFormat
   quality?: number // 0-100 for JPG
   scale?: number // Scale factor for PNG/JPG
   preserveVectors?: boolean // For PDF
+  editableText?: boolean // For PPTX, replaces located text with text boxes
+  pushToCanva?: boolean // For Canva, creates a design in the connected account
   includeMetadata?: boolean
   backgroundColor?: string
+  print?: PrintSettings // For PDF, builds a print-ready file instead
+}
+
+export type PrintPageSize = 'A4' | 'A3' | 'Letter' | 'Tabloid'
+
+export interface PrintSettings {
+  pageSize?: PrintPageSize // A4 when not set
+  orientation?: 'portrait' | 'landscape' // follows each page's shape when not set
+  bleed?: number // millimetres; backgrounds are extended to fill it
+  cropMarks?: boolean
+  cmyk?: boolean
+}
+
+export interface PreflightIssue {
+  kind: 'low-resolution' | 'small-text' | 'thin-font'
+  severity: 'warning' | 'error'
+  pageNumber: number
+  message: string
+}
+
+export interface PreflightReport {
+  passed: boolean // no errors, though warnings are worth checking
+  issues: PreflightIssue[]
 }
 
 export interface BatchExportOptions extends ExportOptions {
@@ -20,6 +47,8 @@ export interface ExportRequest {
   options: ExportOptions
   enhancedUrl: string
   originalUrl?: string
+  textRegions?: TextRegion[]
+  layeredUrl?: string // layered SVG written during composition
   metadata?: Record<string, unknown>
 }
 
@@ -44,6 +73,12 @@ export interface ExportResult {
     width: number
     height: number
   }
+  canvaDesign?: {
+    id: string
+    editUrl: string
+    viewUrl: string
+  }
+  preflight?: PreflightReport // print PDFs only
   error?: string
   processingTime: number
 }
@@ -85,6 +120,7 @@ export interface ExportHistory {
     quality?: number
     scale?: number
     dimensions?: { width: number; height: number }
+    canvaDesign?: ExportResult['canvaDesign']
   }
 }
 
@@ -0,0 +1,94 @@
+/** @jest-environment node */
+import { CidrSet, isPrivateAddress } from '../cidr'
+import { parseThreatFeed } from '../threat-feeds'
+import { IPReputationTracker, BLOCK_SCORE } from '../reputation-tracker'
+
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }))
+
+describe('CidrSet', () => {
+  it('matches IPv4 and IPv6 addresses against merged ranges', () => {
+    const set = new CidrSet()
+    expect(set.add('1.10.16.0/20', 'spamhaus-drop')).toBe(true)
+    expect(set.add('1.10.16.0/24', 'firehol-level1')).toBe(true)
+    expect(set.add('2001:db8::/32', 'firehol-level1')).toBe(true)
+    expect(set.add('not-a-cidr', 'firehol-level1')).toBe(false)
+    set.build()
+
+    expect(set.match('1.10.16.1')).toBe('spamhaus-drop')
+    expect(set.match('1.10.31.255')).toBe('spamhaus-drop')
+    expect(set.match('1.10.32.0')).toBeNull()
+    expect(set.match('::ffff:1.10.20.5')).toBe('spamhaus-drop')
+    expect(set.match('2001:db8:1::7')).toBe('firehol-level1')
+    expect(set.match('2001:db9::1')).toBeNull()
+
+    const restored = CidrSet.fromJSON(JSON.parse(JSON.stringify(set.toJSON())))
+    expect(restored.match('1.10.16.1')).toBe('spamhaus-drop')
+  })
+
+  it('recognises private ranges', () => {
+    expect(isPrivateAddress('10.1.2.3')).toBe(true)
+    expect(isPrivateAddress('172.20.0.1')).toBe(true)
+    expect(isPrivateAddress('fe80::1')).toBe(true)
+    expect(isPrivateAddress('8.8.8.8')).toBe(false)
+  })
+})
+
+describe('parseThreatFeed', () => {
+  it('reads Spamhaus DROP text and JSON and FireHOL netsets', () => {
+    const { entries } = parseThreatFeed([
+      '; Spamhaus DROP List',
+      '1.10.16.0/20 ; SBL256894',
+      '{"cidr":"1.19.0.0/16","sblid":"SBL434604","rir":"apnic"}',
+      '{"type":"metadata","timestamp":1700000000}',
+      '# FireHOL level1',
+      '5.0.0.0/8',
+      '192.0.2.1',
+    ].join('\n'))
+
+    expect(entries).toEqual(['1.10.16.0/20', '1.19.0.0/16', '5.0.0.0/8', '192.0.2.1'])
+  })
+})
+
+describe('IPReputationTracker', () => {
+  const { createServiceClient } = jest.requireMock('@/lib/supabase/service')
+  const now = new Date('2025-01-26T12:00:00Z')
+  const upsert = jest.fn().mockResolvedValue({})
+
+  beforeEach(() => {
+    const query = {
+      select: () => query,
+      gt: () => query,
+      order: () => query,
+      limit: () => Promise.resolve({ data: [] }),
+      upsert,
+    }
+    createServiceClient.mockReturnValue({ from: () => query })
+  })
+
+  it('escalates to a block once the score is reached, for longer on repeat offences', async () => {
+    const escalate = jest.fn().mockResolvedValue(undefined)
+    const tracker = new IPReputationTracker(escalate)
+
+    await tracker.recordEvent('203.0.113.9', { type: 'sql_injection', points: BLOCK_SCORE - 1 }, now)
+    expect(escalate).not.toHaveBeenCalled()
+
+    await tracker.recordEvent('203.0.113.9', { type: 'api_key_exposure', severity: 'low' }, now)
+    expect(escalate).toHaveBeenCalledWith('203.0.113.9', expect.stringContaining('api_key_exposure'), 1, expect.any(Object))
+
+    const history = await tracker.getHistory('203.0.113.9', now)
+    expect(history).toMatchObject({ score: 0, offences: 1 })
+    expect(upsert).toHaveBeenLastCalledWith(expect.objectContaining({ ip: '203.0.113.9', offences: 1 }), { onConflict: 'ip' })
+
+    await tracker.recordEvent('203.0.113.9', { type: 'sql_injection', points: BLOCK_SCORE }, now)
+    expect(escalate).toHaveBeenLastCalledWith('203.0.113.9', expect.any(String), 6, expect.any(Object))
+  })
+
+  it('decays scores over time', async () => {
+    const tracker = new IPReputationTracker(jest.fn())
+
+    await tracker.recordEvent('203.0.113.10', { type: 'brute_force', points: 80 }, now)
+    const later = new Date(now.getTime() + 12 * 60 * 60 * 1000)
+
+    expect((await tracker.getHistory('203.0.113.10', later))?.score).toBeCloseTo(20)
+  })
+})
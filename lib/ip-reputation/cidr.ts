@@ -0,0 +1,208 @@
+// Addresses are compared as 32 hex digit keys of their 128-bit value, with
+// IPv4 mapped into ::ffff:0:0/96, so one sorted list covers both families
+// and matching is a binary search. Nothing here needs Node, so it also runs
+// in edge middleware.
+
+const KEY_LENGTH = 32
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+
+export interface CidrSetData {
+  sources: string[]
+  ranges: Array<[string, string, number]> // start key, end key, index into sources
+}
+
+function parseIPv4(address: string): number[] | null {
+  const match = IPV4_PATTERN.exec(address)
+  if (!match) return null
+  const octets = match.slice(1).map(Number)
+  if (octets.some(octet => octet > 255)) return null
+  return [0, 0, 0, 0, 0, 0xffff, (octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]]
+}
+
+function parseIPv6(address: string): number[] | null {
+  const [head, tail, ...rest] = address.split('::')
+  if (rest.length > 0) return null
+
+  const parseGroups = (part: string): number[] | null => {
+    if (part === '') return []
+    const groups: number[] = []
+    const pieces = part.split(':')
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i]
+      // A trailing dotted quad fills the last two groups
+      if (i === pieces.length - 1 && piece.includes('.')) {
+        const v4 = parseIPv4(piece)
+        if (!v4) return null
+        groups.push(v4[6], v4[7])
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16))
+      } else {
+        return null
+      }
+    }
+    return groups
+  }
+
+  const first = parseGroups(head)
+  const last = tail === undefined ? [] : parseGroups(tail)
+  if (!first || !last) return null
+
+  if (tail === undefined) {
+    return first.length === 8 ? first : null
+  }
+  const missing = 8 - first.length - last.length
+  if (missing < 1) return null
+  return [...first, ...new Array(missing).fill(0), ...last]
+}
+
+function parseAddress(address: string): { groups: number[]; v4: boolean } | null {
+  // Drop IPv6 zone ids and brackets, as in [fe80::1%eth0]
+  const trimmed = address.trim().replace(/^\[|\]$/g, '').replace(/%.*$/, '')
+  const v4 = parseIPv4(trimmed)
+  if (v4) return { groups: v4, v4: true }
+  const v6 = trimmed.includes(':') ? parseIPv6(trimmed) : null
+  return v6 ? { groups: v6, v4: false } : null
+}
+
+function toKey(groups: number[]): string {
+  return groups.map(group => group.toString(16).padStart(4, '0')).join('')
+}
+
+/**
+ * Comparable key for an IPv4 or IPv6 address, or null if it doesn't parse
+ */
+export function addressKey(address: string): string | null {
+  const parsed = parseAddress(address)
+  return parsed ? toKey(parsed.groups) : null
+}
+
+/**
+ * First and last address keys of a CIDR block. A bare address is a block of
+ * one.
+ */
+export function cidrRange(cidr: string): [string, string] | null {
+  const [address, prefixText, ...rest] = cidr.trim().split('/')
+  if (rest.length > 0) return null
+
+  const parsed = parseAddress(address)
+  if (!parsed) return null
+
+  const maxPrefix = parsed.v4 ? 32 : 128
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null
+
+  const bits = parsed.v4 ? prefix + 96 : prefix
+  const start: number[] = []
+  const end: number[] = []
+  parsed.groups.forEach((group, i) => {
+    const networkBits = Math.max(0, Math.min(16, bits - i * 16))
+    const mask = networkBits === 0 ? 0 : (0xffff << (16 - networkBits)) & 0xffff
+    start.push(group & mask)
+    end.push((group | ~mask) & 0xffff)
+  })
+  return [toKey(start), toKey(end)]
+}
+
+/**
+ * A set of CIDR blocks, each tagged with the list it came from. Call build()
+ * after adding blocks; lookups are a binary search over merged ranges.
+ */
+export class CidrSet {
+  private sources: string[] = []
+  private pending: Array<[string, string, number]> = []
+  private ranges: Array<[string, string, number]> = []
+
+  get size(): number {
+    return this.ranges.length
+  }
+
+  add(cidr: string, source: string): boolean {
+    const range = cidrRange(cidr)
+    if (!range) return false
+
+    let index = this.sources.indexOf(source)
+    if (index === -1) {
+      index = this.sources.push(source) - 1
+    }
+    this.pending.push([range[0], range[1], index])
+    return true
+  }
+
+  build(): this {
+    const all = [...this.ranges, ...this.pending].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    this.pending = []
+
+    // Overlapping blocks merge into the first, keeping its source
+    const merged: Array<[string, string, number]> = []
+    for (const range of all) {
+      const last = merged[merged.length - 1]
+      if (last && range[0] <= last[1]) {
+        if (range[1] > last[1]) last[1] = range[1]
+      } else {
+        merged.push([range[0], range[1], range[2]])
+      }
+    }
+    this.ranges = merged
+    return this
+  }
+
+  /**
+   * The source of the block containing the address, or null
+   */
+  match(address: string): string | null {
+    const key = addressKey(address)
+    if (!key || key.length !== KEY_LENGTH) return null
+    return this.matchKey(key)
+  }
+
+  matchKey(key: string): string | null {
+    let low = 0
+    let high = this.ranges.length - 1
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      const [start, end, source] = this.ranges[mid]
+      if (key < start) {
+        high = mid - 1
+      } else if (key > end) {
+        low = mid + 1
+      } else {
+        return this.sources[source]
+      }
+    }
+    return null
+  }
+
+  toJSON(): CidrSetData {
+    return { sources: this.sources, ranges: this.ranges }
+  }
+
+  static fromJSON(data: CidrSetData): CidrSet {
+    const set = new CidrSet()
+    set.sources = data.sources
+    set.ranges = data.ranges
+    return set
+  }
+}
+
+const PRIVATE_RANGES = new CidrSet()
+for (const cidr of [
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '::1/128',
+  'fc00::/7',
+  'fe80::/10',
+]) {
+  PRIVATE_RANGES.add(cidr, 'private')
+}
+PRIVATE_RANGES.build()
+
+/**
+ * Loopback, link-local and private network addresses, which are never
+ * blocked
+ */
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.match(address) !== null
+}
@@ -0,0 +1,73 @@
+import { CidrSet, addressKey, isPrivateAddress } from './cidr'
+import type { ReputationSnapshot } from './types'
+
+// Middleware runs at the edge, without the feed files or the database, so it
+// checks against a snapshot served by SNAPSHOT_PATH and refreshed in the
+// background. Requests are never held up waiting for a snapshot.
+//
+// The snapshot is shared by every request, so it is only ever fetched from
+// NEXT_PUBLIC_APP_URL, never from the request's own Host header, and only
+// when CRON_SECRET is set to authenticate it.
+export const SNAPSHOT_PATH = '/api/security/ip-reputation'
+const REFRESH_INTERVAL_MS = 60 * 1000
+const FETCH_TIMEOUT_MS = 2000
+
+let snapshot: { feeds: CidrSet; blocked: ReputationSnapshot['blocked'] } | null = null
+let fetchedAt = 0
+let refreshing: Promise<void> | null = null
+
+async function refresh(baseUrl: string, secret: string): Promise<void> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(new URL(SNAPSHOT_PATH, baseUrl), {
+      headers: { authorization: `Bearer ${secret}` },
+      signal: controller.signal
+    })
+    if (!response.ok) {
+      throw new Error(`Snapshot request failed with ${response.status}`)
+    }
+
+    const data = (await response.json()) as ReputationSnapshot
+    snapshot = { feeds: CidrSet.fromJSON(data.feeds), blocked: data.blocked }
+  } catch (error) {
+    console.error('Failed to refresh IP reputation snapshot:', error)
+  } finally {
+    clearTimeout(timeout)
+    // Failures wait for the next interval too, so a down endpoint isn't hammered
+    fetchedAt = Date.now()
+    refreshing = null
+  }
+}
+
+/**
+ * Why an address should be refused, or null to let it through
+ */
+export function checkIPAtEdge(ip: string): string | null {
+  if (!refreshing && Date.now() - fetchedAt > REFRESH_INTERVAL_MS) {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL
+    const secret = process.env.CRON_SECRET
+    if (baseUrl && secret) {
+      refreshing = refresh(baseUrl, secret)
+    } else {
+      // Without both there is no trustworthy snapshot, so none is applied
+      console.warn('IP reputation snapshot disabled: NEXT_PUBLIC_APP_URL and CRON_SECRET must be set')
+      snapshot = null
+      fetchedAt = Date.now()
+    }
+  }
+
+  if (!snapshot || isPrivateAddress(ip)) return null
+
+  const key = addressKey(ip)
+  if (!key) return null
+
+  const blocked = snapshot.blocked[key]
+  if (blocked && (!blocked.expiresAt || new Date(blocked.expiresAt) > new Date())) {
+    return blocked.reason
+  }
+
+  const feed = snapshot.feeds.matchKey(key)
+  return feed ? `Listed in ${feed}` : null
+}
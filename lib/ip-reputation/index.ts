@@ -0,0 +1,9 @@
+// Node only: middleware should import './edge-check' directly, as the feed
+// loader reads files and the tracker uses the database
+export * from './types'
+export { CidrSet, addressKey, cidrRange, isPrivateAddress } from './cidr'
+export type { CidrSetData } from './cidr'
+export { ThreatFeeds, parseThreatFeed } from './threat-feeds'
+export { IPReputationTracker, SEVERITY_POINTS, BLOCK_SCORE } from './reputation-tracker'
+export type { EscalateHandler } from './reputation-tracker'
+export { SNAPSHOT_PATH } from './edge-check'
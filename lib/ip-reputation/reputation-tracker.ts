@@ -0,0 +1,229 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import type { Database, Json } from '@/lib/supabase/database.types'
+import type { IPHistory, ReputationEvent, ThreatSeverity } from './types'
+
+type IPReputationRow = Database['public']['Tables']['ip_reputation']['Row']
+
+export const SEVERITY_POINTS: Record<ThreatSeverity, number> = {
+  low: 5,
+  medium: 15,
+  high: 35,
+  critical: 60
+}
+
+// Score that escalates an address to a block
+export const BLOCK_SCORE = 100
+// Scores halve every 6 hours, so slow background noise never adds up to a block
+const SCORE_HALF_LIFE_HOURS = 6
+// Offences halve every 30 days, bringing block lengths back down
+const OFFENCE_HALF_LIFE_HOURS = 30 * 24
+// Block lengths grow by this factor with each offence: 1h, 6h, 36h, 9 days...
+const BASE_BLOCK_HOURS = 1
+const BLOCK_GROWTH = 6
+const MAX_BLOCK_HOURS = 30 * 24
+const MAX_EVENTS = 20
+// Histories kept in memory; the least recently active are dropped first and
+// read back from the database if they offend again
+const MAX_TRACKED_IPS = 10000
+// Histories decayed below this score, with no recent offences, are left out of listings
+const FORGET_BELOW = 1
+
+export type EscalateHandler = (
+  ip: string,
+  reason: string,
+  durationHours: number,
+  metadata: { score: number; offences: number }
+) => Promise<void>
+
+function fromRow(row: IPReputationRow): IPHistory {
+  return {
+    ip: row.ip,
+    score: row.score,
+    offences: row.offences,
+    updatedAt: new Date(row.updated_at),
+    lastBlockedAt: row.last_blocked_at ? new Date(row.last_blocked_at) : undefined,
+    events: ((row.events || []) as unknown as Array<ReputationEvent & { at: string }>).map(event => ({
+      ...event,
+      at: new Date(event.at)
+    }))
+  }
+}
+
+function decay(value: number, hours: number, halfLifeHours: number): number {
+  return hours <= 0 ? value : value * Math.pow(0.5, hours / halfLifeHours)
+}
+
+/**
+ * Keeps a decaying threat score per address from security events, and
+ * escalates to a block when the score reaches BLOCK_SCORE. Each block
+ * counts as an offence, and repeat offenders are blocked for longer.
+ */
+export class IPReputationTracker {
+  private histories: Map<string, IPHistory> = new Map()
+  private loaded: Promise<void> | null = null
+
+  constructor(private readonly escalate: EscalateHandler) {}
+
+  get size(): number {
+    return this.histories.size
+  }
+
+  async recordEvent(
+    ip: string,
+    event: { type: string; severity?: ThreatSeverity; points?: number; metadata?: Record<string, unknown> },
+    now: Date = new Date()
+  ): Promise<IPHistory> {
+    await this.ensureLoaded()
+    await this.lookup(ip)
+
+    const history = this.decayed(ip, now)
+    const points = event.points ?? SEVERITY_POINTS[event.severity || 'low']
+    const recorded: ReputationEvent = { type: event.type, points, at: now, metadata: event.metadata }
+
+    history.score += points
+    history.events = [...history.events, recorded].slice(-MAX_EVENTS)
+    this.remember(history)
+
+    if (history.score >= BLOCK_SCORE) {
+      const durationHours = this.blockDuration(history.offences)
+      const score = Math.round(history.score)
+
+      history.offences += 1
+      history.lastBlockedAt = now
+      history.score = 0
+
+      await this.escalate(
+        ip,
+        `Reputation score ${score} after ${event.type}`,
+        durationHours,
+        { score, offences: Math.round(history.offences * 10) / 10 }
+      )
+    }
+
+    this.persist(history)
+    return history
+  }
+
+  /**
+   * Current score and offences for an address, decayed to now
+   */
+  async getHistory(ip: string, now: Date = new Date()): Promise<IPHistory | null> {
+    await this.ensureLoaded()
+    return this.histories.has(ip) ? this.decayed(ip, now) : null
+  }
+
+  async list(now: Date = new Date()): Promise<IPHistory[]> {
+    await this.ensureLoaded()
+    return Array.from(this.histories.keys())
+      .map(ip => this.decayed(ip, now))
+      .filter(history => history.score >= FORGET_BELOW || history.offences >= 0.5)
+      .sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Clear an address's score and offences, e.g. when an admin unblocks it
+   */
+  async forgive(ip: string): Promise<void> {
+    this.histories.delete(ip)
+
+    try {
+      const supabase = createServiceClient()
+      await supabase.from('ip_reputation').delete().eq('ip', ip)
+    } catch (error) {
+      console.error('Failed to clear IP reputation:', error)
+    }
+  }
+
+  // First offence blocks for BASE_BLOCK_HOURS, growing with decayed offences
+  blockDuration(offences: number): number {
+    return Math.min(MAX_BLOCK_HOURS, BASE_BLOCK_HOURS * Math.pow(BLOCK_GROWTH, Math.round(offences)))
+  }
+
+  private decayed(ip: string, now: Date): IPHistory {
+    const history = this.histories.get(ip)
+    if (!history) {
+      return { ip, score: 0, offences: 0, updatedAt: now, events: [] }
+    }
+
+    const hours = (now.getTime() - history.updatedAt.getTime()) / (60 * 60 * 1000)
+    return {
+      ...history,
+      score: decay(history.score, hours, SCORE_HALF_LIFE_HOURS),
+      offences: decay(history.offences, hours, OFFENCE_HALF_LIFE_HOURS),
+      updatedAt: now
+    }
+  }
+
+  // Re-inserting keeps the Map in order of last activity, oldest first
+  private remember(history: IPHistory): void {
+    this.histories.delete(history.ip)
+    this.histories.set(history.ip, history)
+
+    while (this.histories.size > MAX_TRACKED_IPS) {
+      const oldest = this.histories.keys().next().value as string
+      this.histories.delete(oldest)
+    }
+  }
+
+  // Read back a history that was evicted, so its offences still count
+  private async lookup(ip: string): Promise<void> {
+    if (this.histories.has(ip) || this.histories.size < MAX_TRACKED_IPS) return
+
+    try {
+      const supabase = createServiceClient()
+      const { data } = await supabase
+        .from('ip_reputation')
+        .select('*')
+        .eq('ip', ip)
+        .maybeSingle()
+
+      if (data) this.remember(fromRow(data))
+    } catch (error) {
+      console.error('Failed to look up IP reputation:', error)
+    }
+  }
+
+  private async persist(history: IPHistory): Promise<void> {
+    try {
+      const supabase = createServiceClient()
+      await supabase.from('ip_reputation').upsert({
+        ip: history.ip,
+        score: history.score,
+        offences: history.offences,
+        events: history.events as unknown as Json,
+        last_blocked_at: history.lastBlockedAt?.toISOString() || null,
+        updated_at: history.updatedAt.toISOString()
+      }, { onConflict: 'ip' })
+    } catch (error) {
+      console.error('Failed to persist IP reputation:', error)
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load()
+    }
+    return this.loaded
+  }
+
+  // Offences are remembered long enough to matter for block lengths
+  private async load(): Promise<void> {
+    try {
+      const supabase = createServiceClient()
+      const since = new Date(Date.now() - 4 * OFFENCE_HALF_LIFE_HOURS * 60 * 60 * 1000)
+      const { data } = await supabase
+        .from('ip_reputation')
+        .select('*')
+        .gt('updated_at', since.toISOString())
+        .order('updated_at', { ascending: false })
+        .limit(MAX_TRACKED_IPS)
+
+      // Oldest first, matching the order remember() keeps
+      for (const row of (data || []).reverse()) {
+        this.histories.set(row.ip, fromRow(row))
+      }
+    } catch (error) {
+      console.error('Failed to load IP reputation:', error)
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CidrSet } from './cidr'
+import type { ThreatFeedInfo } from './types'
+
+// Feeds are downloaded out of band (e.g. a cron job fetching Spamhaus DROP
+// and FireHOL level1) into this directory; one list per file
+const DEFAULT_FEED_DIR = path.join(process.cwd(), 'data', 'threat-feeds')
+const RELOAD_INTERVAL_MS = 15 * 60 * 1000
+
+/**
+ * Blocks listed in one feed file. Understands Spamhaus DROP text
+ * (`1.10.16.0/20 ; SBL256894`), Spamhaus DROP JSON lines and FireHOL
+ * netsets/ipsets (one CIDR or address per line, `#` comments).
+ */
+export function parseThreatFeed(content: string): { entries: string[]; skipped: number } {
+  const entries: string[] = []
+  let skipped = 0
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    let entry: string | undefined
+    if (line.startsWith('{')) {
+      try {
+        // The last JSON line is feed metadata without a cidr
+        const parsed = JSON.parse(line) as { cidr?: string }
+        if (!parsed.cidr) continue
+        entry = parsed.cidr
+      } catch {
+        skipped++
+        continue
+      }
+    } else {
+      entry = line.split(/[;#\s]/)[0]
+    }
+
+    if (entry) {
+      entries.push(entry)
+    } else {
+      skipped++
+    }
+  }
+
+  return { entries, skipped }
+}
+
+export class ThreatFeeds {
+  private set = new CidrSet()
+  private feeds: ThreatFeedInfo[] = []
+  private loadedAt = 0
+  private loading: Promise<void> | null = null
+
+  constructor(private readonly directory: string = process.env.THREAT_FEED_DIR || DEFAULT_FEED_DIR) {}
+
+  /**
+   * The feed list containing the address, or null. Reloads the feed files
+   * when they were last read more than 15 minutes ago.
+   */
+  async match(address: string): Promise<string | null> {
+    await this.ensureLoaded()
+    return this.set.match(address)
+  }
+
+  async getSet(): Promise<CidrSet> {
+    await this.ensureLoaded()
+    return this.set
+  }
+
+  async getFeeds(): Promise<ThreatFeedInfo[]> {
+    await this.ensureLoaded()
+    return this.feeds
+  }
+
+  async reload(): Promise<void> {
+    const set = new CidrSet()
+    const feeds: ThreatFeedInfo[] = []
+
+    let files: string[] = []
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => !file.startsWith('.'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read threat feed directory:', error)
+      }
+    }
+
+    for (const file of files.sort()) {
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), 'utf8')
+        const name = path.parse(file).name
+        const { entries, skipped } = parseThreatFeed(content)
+
+        let added = 0
+        for (const entry of entries) {
+          if (set.add(entry, name)) added++
+        }
+        feeds.push({ name, entries: added, skipped: skipped + entries.length - added, loadedAt: new Date() })
+      } catch (error) {
+        console.error(`Failed to load threat feed ${file}:`, error)
+      }
+    }
+
+    this.set = set.build()
+    this.feeds = feeds
+    this.loadedAt = Date.now()
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < RELOAD_INTERVAL_MS) return
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => {
+        this.loading = null
+      })
+    }
+    await this.loading
+  }
+}
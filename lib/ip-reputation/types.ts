@@ -0,0 +1,41 @@
+import type { CidrSetData } from './cidr'
+
+export type ThreatSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export interface ThreatFeedInfo {
+  name: string // file name without extension, e.g. spamhaus-drop
+  entries: number
+  skipped: number // lines that weren't a CIDR block or address
+  loadedAt: Date
+}
+
+export interface ReputationEvent {
+  type: string
+  points: number
+  at: Date
+  metadata?: Record<string, unknown>
+}
+
+export interface IPHistory {
+  ip: string
+  score: number // decays with a half-life, see IPReputationTracker
+  offences: number // times escalated to a block, also decaying
+  updatedAt: Date
+  lastBlockedAt?: Date
+  events: ReputationEvent[] // most recent last
+}
+
+export interface ReputationVerdict {
+  isKnownThreat: boolean
+  threatLevel: 'low' | 'medium' | 'high'
+  reason?: string
+  score?: number
+  feed?: string
+}
+
+// What middleware needs to block requests without reaching the database
+export interface ReputationSnapshot {
+  generatedAt: string
+  feeds: CidrSetData
+  blocked: Record<string, { reason: string; expiresAt: string | null }> // by address key
+}
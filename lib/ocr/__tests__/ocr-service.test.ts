@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { createWorker } from 'tesseract.js'
+import { OCRService } from '../ocr-service'
+
+// jest.setup.js stubs sharp globally; the service reads real image sizes
+jest.unmock('sharp')
+jest.mock('tesseract.js', () => ({
+  createWorker: jest.fn()
+}))
+
+const mockCreateWorker = createWorker as jest.MockedFunction<typeof createWorker>
+
+function box(x0: number, y0: number, x1: number, y1: number) {
+  return { x0, y0, x1, y1 }
+}
+
+// Tesseract sees the image upscaled from 500px to 1500px wide, so every box
+// it reports is three times the size of the original
+const recognized = {
+  blocks: [{
+    confidence: 90,
+    bbox: box(150, 150, 1350, 450),
+    paragraphs: [{
+      lines: [
+        {
+          confidence: 92,
+          bbox: box(150, 150, 1350, 240),
+          words: [
+            { text: 'Fractions ', confidence: 95, bbox: box(150, 150, 600, 240) },
+            { text: 'Review', confidence: 89, bbox: box(660, 150, 1350, 240) }
+          ]
+        },
+        {
+          confidence: 20,
+          bbox: box(150, 360, 600, 450),
+          words: [
+            { text: '~~', confidence: 12, bbox: box(150, 360, 600, 450) }
+          ]
+        }
+      ]
+    }]
+  }]
+}
+
+describe('OCRService', () => {
+  let image: Buffer
+  let recognize: jest.Mock
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    recognize = jest.fn().mockResolvedValue({ data: recognized })
+    mockCreateWorker.mockResolvedValue({ recognize, terminate: jest.fn() } as any)
+
+    image = await sharp({
+      create: { width: 500, height: 300, channels: 3, background: '#ffffff' }
+    }).png().toBuffer()
+  })
+
+  it('maps boxes back to the original image size', async () => {
+    const result = await new OCRService().recognize(image)
+
+    expect(result.width).toBe(500)
+    expect(result.height).toBe(300)
+    expect(result.lines[0].bbox).toEqual({ x: 50, y: 50, width: 400, height: 30 })
+    expect(result.words[1].bbox).toEqual({ x: 220, y: 50, width: 230, height: 30 })
+  })
+
+  it('drops words below the confidence threshold', async () => {
+    const result = await new OCRService().recognize(image)
+
+    expect(result.lines).toHaveLength(1)
+    expect(result.text).toBe('Fractions Review')
+    expect(result.confidence).toBe(92)
+  })
+
+  it('reuses one worker across calls', async () => {
+    const service = new OCRService()
+
+    await service.recognize(image)
+    await service.recognize(image)
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1)
+    expect(recognize).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries worker creation after a failure', async () => {
+    const service = new OCRService()
+    mockCreateWorker.mockRejectedValueOnce(new Error('missing traineddata'))
+
+    await expect(service.recognize(image)).rejects.toThrow('missing traineddata')
+    await expect(service.recognize(image)).resolves.toMatchObject({ text: 'Fractions Review' })
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops before recognition when already cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      new OCRService().recognize(image, { signal: controller.signal })
+    ).rejects.toThrow('cancelled')
+    expect(mockCreateWorker).not.toHaveBeenCalled()
+  })
+})
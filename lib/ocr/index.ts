@@ -0,0 +1,2 @@
+export * from './types'
+export { OCRService, ocrService } from './ocr-service'
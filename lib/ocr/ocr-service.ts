@@ -0,0 +1,155 @@
+import path from 'path'
+import sharp from 'sharp'
+import { createWorker, Worker, Block, Line, Word, Bbox } from 'tesseract.js'
+import {
+  BoundingBox,
+  OCRBlock,
+  OCRLine,
+  OCROptions,
+  OCRResult,
+  OCRWord
+} from './types'
+
+// Tesseract is most accurate with ~30px x-heights; small scans are upscaled
+// before recognition and the boxes scaled back to the original size
+const MIN_OCR_WIDTH = 1500
+const MAX_OCR_WIDTH = 4000
+const DEFAULT_MIN_CONFIDENCE = 30
+
+function defaultLangPath(): string {
+  // Language data ships with @tesseract.js-data/* so OCR works offline
+  return process.env.OCR_LANG_PATH ||
+    path.join(process.cwd(), 'node_modules/@tesseract.js-data/eng/4.0.0')
+}
+
+export class OCRService {
+  private workerPromise: Promise<Worker> | null = null
+
+  constructor(
+    private readonly language: string = 'eng',
+    private readonly langPath: string = defaultLangPath()
+  ) {}
+
+  async recognize(image: Buffer, options: OCROptions = {}): Promise<OCRResult> {
+    const { minConfidence = DEFAULT_MIN_CONFIDENCE, signal } = options
+
+    if (signal?.aborted) {
+      throw new Error('OCR cancelled')
+    }
+
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+    if (!width || !height) {
+      throw new Error('OCR input is not a readable image')
+    }
+
+    const targetWidth = Math.min(MAX_OCR_WIDTH, Math.max(width, MIN_OCR_WIDTH))
+    const scale = targetWidth / width
+    const prepared = await sharp(image)
+      .rotate()
+      .resize({ width: Math.round(width * scale) })
+      .greyscale()
+      .normalize()
+      .png()
+      .toBuffer()
+
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(prepared, {}, { text: true, blocks: true })
+
+    if (signal?.aborted) {
+      throw new Error('OCR cancelled')
+    }
+
+    const blocks = (data.blocks || [])
+      .map(block => this.mapBlock(block, scale, minConfidence))
+      .filter((block): block is OCRBlock => block !== null)
+
+    const lines = blocks.flatMap(block => block.lines)
+    const words = lines.flatMap(line => line.words)
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+      : 0
+
+    return {
+      text: blocks.map(block => block.text).join('\n\n'),
+      confidence: Math.round(confidence),
+      width,
+      height,
+      blocks,
+      lines,
+      words
+    }
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.workerPromise) return
+
+    const worker = await this.workerPromise
+    this.workerPromise = null
+    await worker.terminate()
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = createWorker(this.language, 1, {
+        langPath: this.langPath,
+        cacheMethod: 'none',
+        gzip: true
+      }).catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        this.workerPromise = null
+        throw error
+      })
+    }
+    return this.workerPromise
+  }
+
+  private mapBlock(block: Block, scale: number, minConfidence: number): OCRBlock | null {
+    const lines = block.paragraphs
+      .flatMap(paragraph => paragraph.lines)
+      .map(line => this.mapLine(line, scale, minConfidence))
+      .filter((line): line is OCRLine => line !== null)
+
+    if (lines.length === 0) return null
+
+    return {
+      text: lines.map(line => line.text).join('\n'),
+      confidence: Math.round(block.confidence),
+      bbox: this.mapBox(block.bbox, scale),
+      lines
+    }
+  }
+
+  private mapLine(line: Line, scale: number, minConfidence: number): OCRLine | null {
+    const words = line.words
+      .map(word => this.mapWord(word, scale))
+      .filter(word => word.text && word.confidence >= minConfidence)
+
+    if (words.length === 0) return null
+
+    return {
+      text: words.map(word => word.text).join(' '),
+      confidence: Math.round(line.confidence),
+      bbox: this.mapBox(line.bbox, scale),
+      words
+    }
+  }
+
+  private mapWord(word: Word, scale: number): OCRWord {
+    return {
+      text: word.text.trim(),
+      confidence: Math.round(word.confidence),
+      bbox: this.mapBox(word.bbox, scale)
+    }
+  }
+
+  private mapBox(bbox: Bbox, scale: number): BoundingBox {
+    return {
+      x: Math.round(bbox.x0 / scale),
+      y: Math.round(bbox.y0 / scale),
+      width: Math.round((bbox.x1 - bbox.x0) / scale),
+      height: Math.round((bbox.y1 - bbox.y0) / scale)
+    }
+  }
+}
+
+export const ocrService = new OCRService()
@@ -0,0 +1,41 @@
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OCRWord {
+  text: string
+  confidence: number // 0-100
+  bbox: BoundingBox
+}
+
+export interface OCRLine {
+  text: string
+  confidence: number // 0-100
+  bbox: BoundingBox
+  words: OCRWord[]
+}
+
+export interface OCRBlock {
+  text: string
+  confidence: number // 0-100
+  bbox: BoundingBox
+  lines: OCRLine[]
+}
+
+export interface OCRResult {
+  text: string
+  confidence: number // 0-100, mean over kept words
+  width: number // pixel size of the recognized image
+  height: number
+  blocks: OCRBlock[]
+  lines: OCRLine[]
+  words: OCRWord[]
+}
+
+export interface OCROptions {
+  minConfidence?: number // words below this are dropped
+  signal?: AbortSignal
+}
@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ */
+import JSZip from 'jszip'
+import { parseOfficeDocument } from '../office-parser'
+import { applyOfficeTheme } from '../office-writer'
+
+// jest.setup.js stubs jszip globally; packages are built for real here
+jest.unmock('jszip')
+
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const NS = [
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  `xmlns:r="${REL}"`,
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"',
+].join(' ')
+
+const rels = (entries: Array<[string, string, string]>) =>
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  entries.map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`).join('') +
+  '</Relationships>'
+
+const THEME = `<a:theme ${NS} name="Office Theme"><a:themeElements>
+  <a:clrScheme name="Office">
+    <a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>
+    <a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>
+    <a:accent1><a:srgbClr val="4472C4"/></a:accent1>
+  </a:clrScheme>
+  <a:fontScheme name="Office">
+    <a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont>
+    <a:minorFont><a:latin typeface="Calibri"/></a:minorFont>
+  </a:fontScheme>
+</a:themeElements></a:theme>`
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+const emu = (points: number) => points * 12700
+
+async function buildPresentation(): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"></Types>')
+  zip.file('_rels/.rels', rels([['rId1', 'officeDocument', 'ppt/presentation.xml']]))
+  zip.file('ppt/presentation.xml', `<p:presentation ${NS}>
+    <p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst>
+    <p:sldSz cx="${emu(960)}" cy="${emu(540)}"/>
+  </p:presentation>`)
+  zip.file('ppt/_rels/presentation.xml.rels', rels([
+    ['rId1', 'theme', 'theme/theme1.xml'],
+    ['rId2', 'slide', 'slides/slide1.xml'],
+  ]))
+  zip.file('ppt/theme/theme1.xml', THEME)
+  zip.file('ppt/slideLayouts/slideLayout1.xml', `<p:sldLayout ${NS}><p:cSld name="Title Slide"><p:spTree>
+    <p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="ctrTitle"/></p:nvPr></p:nvSpPr>
+      <p:spPr><a:xfrm><a:off x="${emu(120)}" y="${emu(90)}"/><a:ext cx="${emu(720)}" cy="${emu(190)}"/></a:xfrm></p:spPr></p:sp>
+  </p:spTree></p:cSld></p:sldLayout>`)
+  zip.file('ppt/slides/slide1.xml', `<p:sld ${NS}><p:cSld><p:spTree>
+    <p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="ctrTitle"/></p:nvPr></p:nvSpPr><p:spPr/>
+      <p:txBody><a:p><a:r><a:rPr lang="en-US" sz="4400" b="1"/><a:t>Photosynthesis</a:t></a:r></a:p></p:txBody></p:sp>
+    <p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+      <p:spPr><a:xfrm><a:off x="${emu(100)}" y="${emu(320)}"/><a:ext cx="${emu(400)}" cy="${emu(100)}"/></a:xfrm></p:spPr>
+      <p:txBody><a:p><a:pPr algn="ctr"/><a:r><a:rPr sz="2000"><a:solidFill><a:schemeClr val="accent1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:rPr><a:t>Plants make food</a:t></a:r></a:p></p:txBody></p:sp>
+    <p:pic><p:nvPicPr><p:cNvPr id="4" name="Leaf"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+      <p:blipFill><a:blip r:embed="rId2"/></p:blipFill>
+      <p:spPr><a:xfrm><a:off x="${emu(600)}" y="${emu(300)}"/><a:ext cx="${emu(200)}" cy="${emu(150)}"/></a:xfrm></p:spPr></p:pic>
+  </p:spTree></p:cSld></p:sld>`)
+  zip.file('ppt/slides/_rels/slide1.xml.rels', rels([
+    ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'],
+    ['rId2', 'image', '../media/image1.png'],
+  ]))
+  zip.file('ppt/media/image1.png', PNG)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+async function buildWordDocument(): Promise<Buffer> {
+  const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"></Types>')
+  zip.file('_rels/.rels', rels([['rId1', 'officeDocument', 'word/document.xml']]))
+  zip.file('word/_rels/document.xml.rels', rels([
+    ['rId1', 'styles', 'styles.xml'],
+    ['rId2', 'theme', 'theme/theme1.xml'],
+    ['rId3', 'settings', 'settings.xml'],
+  ]))
+  zip.file('word/theme/theme1.xml', THEME)
+  zip.file('word/settings.xml', `<w:settings ${W}><w:zoom w:percent="100"/></w:settings>`)
+  zip.file('word/styles.xml', `<w:styles ${W}>
+    <w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>
+    <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+    <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>
+      <w:rPr><w:rFonts w:asciiTheme="majorHAnsi"/><w:sz w:val="56"/></w:rPr></w:style>
+    <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/>
+      <w:pPr><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+  </w:styles>`)
+  zip.file('word/document.xml', `<w:document ${W}><w:body>
+    <w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr><w:r><w:t>Field Guide</w:t></w:r></w:p>
+    <w:p><w:r><w:t xml:space="preserve">Birds of the </w:t></w:r><w:r><w:rPr><w:i/><w:color w:val="FF0000"/></w:rPr><w:t>coast</w:t></w:r></w:p>
+    <w:p><w:r><w:br w:type="page"/></w:r></w:p>
+    <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Gulls</w:t></w:r></w:p>
+    <w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/></w:sectPr>
+  </w:body></w:document>`)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+describe('parseOfficeDocument', () => {
+  it('reads slides with placed text, images and the theme', async () => {
+    const document = await parseOfficeDocument(await buildPresentation(), 'pptx')
+
+    expect(document.theme).toEqual({
+      name: 'Office Theme',
+      colors: { dk1: '#000000', lt1: '#FFFFFF', accent1: '#4472C4' },
+      headingFont: 'Calibri Light',
+      bodyFont: 'Calibri',
+    })
+    expect(document.pages).toHaveLength(1)
+
+    const [slide] = document.pages
+    expect(slide).toMatchObject({ width: 960, height: 540, layout: 'Title Slide' })
+
+    const [title, notes] = slide.textBlocks
+    // Placeholder without its own frame takes the layout's
+    expect(title).toMatchObject({
+      text: 'Photosynthesis',
+      role: 'title',
+      bounds: { x: 120, y: 90, width: 720, height: 190 },
+    })
+    expect(title.runs[0]).toMatchObject({ font: 'Calibri Light', sizePt: 44, bold: true })
+    expect(notes).toMatchObject({ text: 'Plants make food', role: 'body', alignment: 'center' })
+    expect(notes.runs[0]).toMatchObject({ font: 'Calibri', sizePt: 20, color: '#4472C4' })
+
+    expect(slide.images).toEqual([
+      expect.objectContaining({
+        path: 'ppt/media/image1.png',
+        contentType: 'image/png',
+        bounds: { x: 600, y: 300, width: 200, height: 150 },
+      }),
+    ])
+    expect(document.fonts).toEqual(['Calibri Light', 'Calibri'])
+  })
+
+  it('flows Word paragraphs onto pages using styles and page breaks', async () => {
+    const document = await parseOfficeDocument(await buildWordDocument(), 'docx')
+
+    expect(document.pages).toHaveLength(2)
+    const [first, second] = document.pages
+
+    expect(first.width).toBe(612)
+    expect(first.textBlocks.map(block => [block.text, block.role])).toEqual([
+      ['Field Guide', 'title'],
+      ['Birds of the coast', 'body'],
+    ])
+    expect(first.textBlocks[0].runs[0]).toMatchObject({ font: 'Calibri Light', sizePt: 28 })
+    expect(first.textBlocks[1].runs[1]).toMatchObject({ text: 'coast', italic: true, color: '#FF0000' })
+    expect(first.textBlocks[0].bounds).toMatchObject({ x: 72, y: 72, width: 468 })
+    expect(first.textBlocks[1].bounds.y).toBeGreaterThan(first.textBlocks[0].bounds.y)
+
+    expect(second.textBlocks).toEqual([
+      expect.objectContaining({ text: 'Gulls', role: 'heading', estimatedBounds: true }),
+    ])
+    expect(second.textBlocks[0].runs[0]).toMatchObject({ bold: true, sizePt: 16 })
+  })
+
+  it('rejects files that are not zip packages', async () => {
+    await expect(parseOfficeDocument(Buffer.from('not a zip'), 'docx')).rejects.toThrow('Not a valid DOCX file')
+  })
+})
+
+describe('applyOfficeTheme', () => {
+  it('writes colours and fonts into the theme and backgrounds onto slides', async () => {
+    const enhanced = await applyOfficeTheme(await buildPresentation(), 'pptx', {
+      colors: { accent1: '#E76F51', dk1: '#264653' },
+      headingFont: 'Montserrat',
+      bodyFont: 'Open Sans',
+      background: { image: PNG },
+    })
+
+    const document = await parseOfficeDocument(enhanced, 'pptx')
+    expect(document.theme).toMatchObject({
+      colors: { dk1: '#264653', lt1: '#FFFFFF', accent1: '#E76F51' },
+      headingFont: 'Montserrat',
+      bodyFont: 'Open Sans',
+    })
+    // Runs that follow the theme pick the change up
+    expect(document.pages[0].textBlocks[1].runs[0]).toMatchObject({ font: 'Open Sans', color: '#E76F51' })
+
+    const zip = await JSZip.loadAsync(enhanced)
+    const slide = await zip.file('ppt/slides/slide1.xml')!.async('string')
+    const slideRels = await zip.file('ppt/slides/_rels/slide1.xml.rels')!.async('string')
+    expect(slide).toMatch(/<p:cSld><p:bg><p:bgPr><a:blipFill[^>]*><a:blip r:embed="rId3"\/>/)
+    expect(slideRels).toContain('Id="rId3"')
+    expect(slideRels).toContain('Target="../media/enhanced-background.png"')
+    expect(zip.file('ppt/media/enhanced-background.png')).not.toBeNull()
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('Extension="png"')
+  })
+
+  it('sets the page colour of Word documents', async () => {
+    const enhanced = await applyOfficeTheme(await buildWordDocument(), 'docx', {
+      background: { color: '#FDF6E3' },
+    })
+
+    const zip = await JSZip.loadAsync(enhanced)
+    expect(await zip.file('word/document.xml')!.async('string')).toContain('<w:background w:color="FDF6E3"/>')
+    expect(await zip.file('word/settings.xml')!.async('string')).toContain('<w:zoom w:percent="100"/><w:displayBackgroundShape/>')
+
+    const document = await parseOfficeDocument(enhanced, 'docx')
+    expect(document.pages[0].background).toBe('#FDF6E3')
+  })
+})
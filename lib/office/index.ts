@@ -0,0 +1,5 @@
+export * from './types'
+export { parseOfficeDocument, isOfficeFormat, OFFICE_FORMATS } from './office-parser'
+export { renderOfficePages } from './office-renderer'
+export type { RenderOfficeOptions } from './office-renderer'
+export { applyOfficeTheme } from './office-writer'
@@ -0,0 +1,771 @@
+import { posix } from 'path'
+import { OfficePackage, Relationship } from './package'
+import { XmlNode, at, child, childrenNamed, descendants, textOf } from './xml'
+import {
+  OfficeBounds,
+  OfficeDocument,
+  OfficeFormat,
+  OfficeImage,
+  OfficePage,
+  OfficeTextBlock,
+  OfficeTextRun,
+  OfficeTheme,
+  ThemeColorSlot
+} from './types'
+
+const EMU_PER_POINT = 12700
+const TWIPS_PER_POINT = 20
+
+// Used when a package leaves them out: a 4:3 slide and US Letter
+const DEFAULT_SLIDE_SIZE = { width: 720, height: 540 }
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 }
+const DEFAULT_PAGE_MARGIN = 72
+const DEFAULT_FONT_SIZE = 18 // PowerPoint's body default
+const DEFAULT_WORD_FONT_SIZE = 11
+const DEFAULT_PARAGRAPH_SPACING = 8
+
+// Text without an explicit role is classed by size, in points
+const HEADING_MIN_SIZE = 28
+const CAPTION_MAX_SIZE = 12
+
+// Word text flows, so lines are estimated: an average glyph is about half
+// its font size wide, and a line about 1.2 times its font size tall
+const AVERAGE_GLYPH_WIDTH = 0.5
+const LINE_HEIGHT = 1.2
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+}
+
+// Scheme colour names runs use, mapped to the theme slot they read
+const SCHEME_COLOR_ALIASES: Record<string, ThemeColorSlot> = {
+  tx1: 'dk1',
+  bg1: 'lt1',
+  tx2: 'dk2',
+  bg2: 'lt2',
+  text1: 'dk1',
+  background1: 'lt1',
+  text2: 'dk2',
+  background2: 'lt2',
+  hyperlink: 'hlink',
+  followedHyperlink: 'folHlink',
+}
+
+const ALIGNMENTS: Record<string, OfficeTextBlock['alignment']> = {
+  l: 'left',
+  ctr: 'center',
+  r: 'right',
+  just: 'justified',
+  dist: 'justified',
+  left: 'left',
+  start: 'left',
+  center: 'center',
+  right: 'right',
+  end: 'right',
+  both: 'justified',
+  distribute: 'justified',
+}
+
+type RunStyle = Omit<OfficeTextRun, 'text'>
+
+export const OFFICE_FORMATS: OfficeFormat[] = ['pptx', 'docx']
+
+export function isOfficeFormat(fileType: string): fileType is OfficeFormat {
+  return (OFFICE_FORMATS as string[]).includes(fileType)
+}
+
+/**
+ * Unpacks a PowerPoint or Word file into pages of positioned text runs and
+ * images, with the theme's colours and fonts, so analysis can work from the
+ * document's own content instead of reading it back from pixels.
+ */
+export async function parseOfficeDocument(
+  buffer: Buffer,
+  format: OfficeFormat
+): Promise<OfficeDocument> {
+  const pkg = await OfficePackage.load(buffer, format)
+  const main = await pkg.mainPart()
+  const theme = await loadTheme(pkg, main)
+
+  const pages = format === 'pptx'
+    ? await parsePresentation(pkg, main, theme)
+    : await parseWordDocument(pkg, main, theme)
+
+  return {
+    format,
+    pages,
+    theme,
+    fonts: collectFonts(pages),
+    thumbnail: await pkg.thumbnail(),
+  }
+}
+
+// Shared by both formats
+
+async function loadTheme(pkg: OfficePackage, main: string): Promise<OfficeTheme> {
+  // The main part links its theme; otherwise take the package's first one
+  const [themePart] = [...(await pkg.related(main, 'theme')), ...pkg.parts(/theme\/theme\d+\.xml$/)]
+  const xml = themePart ? await pkg.readXml(themePart) : null
+  const theme = child(xml ?? undefined, 'a:theme')
+  const elements = child(theme, 'a:themeElements')
+
+  const colors: OfficeTheme['colors'] = {}
+  for (const slot of child(elements, 'a:clrScheme')?.children || []) {
+    if (slot.name === '#text') continue
+    const value = child(slot, 'a:srgbClr')?.attributes.val ?? child(slot, 'a:sysClr')?.attributes.lastClr
+    if (value) {
+      colors[slot.name.replace(/^a:/, '') as ThemeColorSlot] = toHex(value)
+    }
+  }
+
+  return {
+    name: theme?.attributes.name,
+    colors,
+    headingFont: at(elements, 'a:fontScheme', 'a:majorFont', 'a:latin')?.attributes.typeface,
+    bodyFont: at(elements, 'a:fontScheme', 'a:minorFont', 'a:latin')?.attributes.typeface,
+  }
+}
+
+function toHex(value: string): string {
+  return `#${value.toUpperCase()}`
+}
+
+function themeColor(name: string | undefined, theme: OfficeTheme): string | undefined {
+  if (!name) return undefined
+  return theme.colors[SCHEME_COLOR_ALIASES[name] ?? (name as ThemeColorSlot)]
+}
+
+// Colour of an <a:solidFill> below `parent`
+function solidFillColor(parent: XmlNode | undefined, theme: OfficeTheme): string | undefined {
+  const fill = child(parent, 'a:solidFill')
+  const rgb = child(fill, 'a:srgbClr')?.attributes.val
+  if (rgb) return toHex(rgb)
+
+  const system = child(fill, 'a:sysClr')?.attributes.lastClr
+  if (system) return toHex(system)
+
+  return themeColor(child(fill, 'a:schemeClr')?.attributes.val, theme)
+}
+
+function roleForSize(runs: OfficeTextRun[]): OfficeTextBlock['role'] {
+  const size = Math.max(0, ...runs.map(run => run.sizePt || 0))
+  if (size >= HEADING_MIN_SIZE) return 'heading'
+  if (size > 0 && size <= CAPTION_MAX_SIZE) return 'caption'
+  return 'body'
+}
+
+async function readImage(
+  pkg: OfficePackage,
+  relationships: Relationship[],
+  embedId: string | undefined,
+  id: string,
+  bounds: OfficeBounds
+): Promise<OfficeImage | null> {
+  const target = relationships.find(rel => rel.id === embedId)?.target
+  const data = target ? await pkg.readBinary(target) : null
+  if (!target || !data) return null
+
+  const extension = posix.extname(target).slice(1).toLowerCase()
+  return {
+    id,
+    path: target,
+    contentType: CONTENT_TYPES[extension] || 'application/octet-stream',
+    bounds,
+    data,
+  }
+}
+
+function collectFonts(pages: OfficePage[]): string[] {
+  const fonts = new Set<string>()
+  for (const page of pages) {
+    for (const block of page.textBlocks) {
+      block.runs.forEach(run => run.font && fonts.add(run.font))
+    }
+  }
+  return [...fonts]
+}
+
+// PowerPoint
+
+type Transform = (bounds: OfficeBounds) => OfficeBounds
+
+interface SlideLayout {
+  name?: string
+  background?: string
+  // Placeholder frames by 'idx:<n>' and 'type:<type>', master first
+  frames: Map<string, OfficeBounds>
+}
+
+interface SlideContext {
+  pkg: OfficePackage
+  theme: OfficeTheme
+  layout: SlideLayout
+  relationships: Relationship[]
+  page: OfficePage
+}
+
+const identity: Transform = bounds => bounds
+
+function emu(value: string | undefined): number {
+  return value ? Number(value) / EMU_PER_POINT : 0
+}
+
+function xfrmBounds(xfrm: XmlNode | undefined): OfficeBounds | undefined {
+  const offset = child(xfrm, 'a:off')
+  const extent = child(xfrm, 'a:ext')
+  if (!offset || !extent) return undefined
+
+  return {
+    x: emu(offset.attributes.x),
+    y: emu(offset.attributes.y),
+    width: emu(extent.attributes.cx),
+    height: emu(extent.attributes.cy),
+  }
+}
+
+async function parsePresentation(
+  pkg: OfficePackage,
+  main: string,
+  theme: OfficeTheme
+): Promise<OfficePage[]> {
+  const presentation = child((await pkg.readXml(main)) ?? undefined, 'p:presentation')
+  const size = child(presentation, 'p:sldSz')
+  const width = emu(size?.attributes.cx) || DEFAULT_SLIDE_SIZE.width
+  const height = emu(size?.attributes.cy) || DEFAULT_SLIDE_SIZE.height
+
+  const relationships = await pkg.relationships(main)
+  const slideParts = childrenNamed(child(presentation, 'p:sldIdLst'), 'p:sldId')
+    .map(slideId => relationships.find(rel => rel.id === slideId.attributes['r:id'])?.target)
+    .filter((part): part is string => !!part && pkg.has(part))
+
+  const layouts = new Map<string, SlideLayout>()
+  const pages: OfficePage[] = []
+
+  for (const part of slideParts) {
+    const slide = child((await pkg.readXml(part)) ?? undefined, 'p:sld')
+    const cSld = child(slide, 'p:cSld')
+
+    const [layoutPart] = await pkg.related(part, 'slideLayout')
+    let layout = layoutPart ? layouts.get(layoutPart) : undefined
+    if (!layout) {
+      layout = layoutPart ? await loadLayout(pkg, layoutPart, theme) : { frames: new Map() }
+      if (layoutPart) layouts.set(layoutPart, layout)
+    }
+
+    const page: OfficePage = {
+      pageNumber: pages.length + 1,
+      width,
+      height,
+      layout: layout.name,
+      background: solidFillColor(at(cSld, 'p:bg', 'p:bgPr'), theme) ?? layout.background,
+      textBlocks: [],
+      images: [],
+    }
+
+    await collectShapes(child(cSld, 'p:spTree'), identity, {
+      pkg,
+      theme,
+      layout,
+      relationships: await pkg.relationships(part),
+      page,
+    })
+    pages.push(page)
+  }
+
+  return pages
+}
+
+async function loadLayout(pkg: OfficePackage, part: string, theme: OfficeTheme): Promise<SlideLayout> {
+  const layout = child((await pkg.readXml(part)) ?? undefined, 'p:sldLayout')
+  const frames = new Map<string, OfficeBounds>()
+  let background: string | undefined
+
+  // The master places placeholders the layout doesn't move
+  const [masterPart] = await pkg.related(part, 'slideMaster')
+  if (masterPart) {
+    const master = child((await pkg.readXml(masterPart)) ?? undefined, 'p:sldMaster')
+    addPlaceholderFrames(at(master, 'p:cSld', 'p:spTree'), frames)
+    background = solidFillColor(at(master, 'p:cSld', 'p:bg', 'p:bgPr'), theme)
+  }
+
+  addPlaceholderFrames(at(layout, 'p:cSld', 'p:spTree'), frames)
+
+  return {
+    name: child(layout, 'p:cSld')?.attributes.name,
+    background: solidFillColor(at(layout, 'p:cSld', 'p:bg', 'p:bgPr'), theme) ?? background,
+    frames,
+  }
+}
+
+function addPlaceholderFrames(tree: XmlNode | undefined, frames: Map<string, OfficeBounds>): void {
+  for (const shape of childrenNamed(tree, 'p:sp')) {
+    const placeholder = at(shape, 'p:nvSpPr', 'p:nvPr', 'p:ph')
+    const bounds = xfrmBounds(at(shape, 'p:spPr', 'a:xfrm'))
+    if (!placeholder || !bounds) continue
+
+    if (placeholder.attributes.idx) {
+      frames.set(`idx:${placeholder.attributes.idx}`, bounds)
+    }
+    frames.set(`type:${placeholder.attributes.type || 'body'}`, bounds)
+  }
+}
+
+async function collectShapes(
+  tree: XmlNode | undefined,
+  transform: Transform,
+  context: SlideContext
+): Promise<void> {
+  for (const node of tree?.children || []) {
+    if (node.name === 'p:sp') {
+      const block = slideTextBlock(node, transform, context)
+      if (block) context.page.textBlocks.push(block)
+    } else if (node.name === 'p:pic') {
+      const bounds = xfrmBounds(at(node, 'p:spPr', 'a:xfrm'))
+      if (!bounds) continue
+
+      const image = await readImage(
+        context.pkg,
+        context.relationships,
+        at(node, 'p:blipFill', 'a:blip')?.attributes['r:embed'],
+        `page-${context.page.pageNumber}-image-${context.page.images.length + 1}`,
+        transform(bounds)
+      )
+      if (image) context.page.images.push(image)
+    } else if (node.name === 'p:grpSp') {
+      await collectShapes(node, groupTransform(node, transform), context)
+    }
+  }
+}
+
+// Shapes in a group are positioned in the group's own child space
+function groupTransform(group: XmlNode, parent: Transform): Transform {
+  const xfrm = at(group, 'p:grpSpPr', 'a:xfrm')
+  const frame = xfrmBounds(xfrm)
+  const childOffset = child(xfrm, 'a:chOff')
+  const childExtent = child(xfrm, 'a:chExt')
+  if (!frame || !childOffset || !childExtent) return parent
+
+  const originX = emu(childOffset.attributes.x)
+  const originY = emu(childOffset.attributes.y)
+  const scaleX = frame.width / (emu(childExtent.attributes.cx) || frame.width || 1)
+  const scaleY = frame.height / (emu(childExtent.attributes.cy) || frame.height || 1)
+
+  return bounds => parent({
+    x: frame.x + (bounds.x - originX) * scaleX,
+    y: frame.y + (bounds.y - originY) * scaleY,
+    width: bounds.width * scaleX,
+    height: bounds.height * scaleY,
+  })
+}
+
+function slideTextBlock(
+  shape: XmlNode,
+  transform: Transform,
+  context: SlideContext
+): OfficeTextBlock | null {
+  const { theme, layout, page } = context
+  const placeholder = at(shape, 'p:nvSpPr', 'p:nvPr', 'p:ph')
+  const placeholderType = placeholder ? placeholder.attributes.type || 'body' : undefined
+  const isTitle = placeholderType === 'title' || placeholderType === 'ctrTitle'
+
+  const runs: OfficeTextRun[] = []
+  const paragraphs: string[] = []
+  let alignment: OfficeTextBlock['alignment'] | undefined
+
+  for (const paragraph of childrenNamed(child(shape, 'p:txBody'), 'a:p')) {
+    alignment = alignment ?? ALIGNMENTS[at(paragraph, 'a:pPr')?.attributes.algn ?? '']
+    let line = ''
+
+    for (const node of paragraph.children) {
+      if (node.name === 'a:r' || node.name === 'a:fld') {
+        const text = textOf(child(node, 'a:t'))
+        line += text
+        runs.push({ text, ...slideRunStyle(child(node, 'a:rPr'), theme, isTitle) })
+      } else if (node.name === 'a:br') {
+        line += '\n'
+      }
+    }
+    paragraphs.push(line)
+  }
+
+  const text = paragraphs.join('\n').trim()
+  if (!text) return null
+
+  const ownBounds = xfrmBounds(at(shape, 'p:spPr', 'a:xfrm'))
+  const bounds = ownBounds ??
+    layout.frames.get(`idx:${placeholder?.attributes.idx}`) ??
+    layout.frames.get(`type:${placeholderType}`) ??
+    { x: 0, y: 0, width: page.width, height: page.height }
+
+  let role: OfficeTextBlock['role']
+  if (placeholderType === 'ctrTitle' || (placeholderType === 'title' && page.pageNumber === 1)) {
+    role = 'title'
+  } else if (placeholderType === 'title' || placeholderType === 'subTitle') {
+    role = 'heading'
+  } else if (placeholderType === 'ftr' || placeholderType === 'dt' || placeholderType === 'sldNum') {
+    role = 'caption'
+  } else {
+    role = roleForSize(runs)
+  }
+
+  return {
+    text,
+    role,
+    // Placeholder frames come from the layout, which is already slide space
+    bounds: ownBounds ? transform(bounds) : bounds,
+    runs: runs.filter(run => run.text),
+    alignment: alignment ?? (isTitle ? 'center' : 'left'),
+    estimatedBounds: false,
+  }
+}
+
+function slideRunStyle(properties: XmlNode | undefined, theme: OfficeTheme, isTitle: boolean): RunStyle {
+  const attributes = properties?.attributes || {}
+  const typeface = child(properties, 'a:latin')?.attributes.typeface
+
+  return {
+    font: resolveSlideFont(typeface, theme) ?? (isTitle ? theme.headingFont : theme.bodyFont),
+    sizePt: attributes.sz ? Number(attributes.sz) / 100 : (isTitle ? undefined : DEFAULT_FONT_SIZE),
+    bold: attributes.b === '1' || attributes.b === 'true',
+    italic: attributes.i === '1' || attributes.i === 'true',
+    color: solidFillColor(properties, theme),
+  }
+}
+
+// '+mj-lt' and '+mn-lt' stand for the theme's heading and body fonts
+function resolveSlideFont(typeface: string | undefined, theme: OfficeTheme): string | undefined {
+  if (typeface === '+mj-lt') return theme.headingFont
+  if (typeface === '+mn-lt') return theme.bodyFont
+  return typeface || undefined
+}
+
+// Word
+
+interface ParagraphStyle {
+  name: string
+  basedOn?: string
+  outlineLevel?: number
+  alignment?: OfficeTextBlock['alignment']
+  spacingAfter?: number
+  run: Partial<RunStyle>
+}
+
+interface WordStyles {
+  defaultRun: RunStyle
+  defaultParagraph?: string
+  paragraphs: Map<string, ParagraphStyle>
+}
+
+function twips(value: string | undefined): number {
+  return value ? Number(value) / TWIPS_PER_POINT : 0
+}
+
+function isOn(node: XmlNode | undefined): boolean {
+  return !!node && !['0', 'false', 'off'].includes(node.attributes['w:val'])
+}
+
+async function loadWordStyles(pkg: OfficePackage, main: string, theme: OfficeTheme): Promise<WordStyles> {
+  const [stylesPart] = await pkg.related(main, 'styles')
+  const styles = child((stylesPart && (await pkg.readXml(stylesPart))) || undefined, 'w:styles')
+
+  const defaultRun: RunStyle = {
+    font: theme.bodyFont,
+    sizePt: DEFAULT_WORD_FONT_SIZE,
+    bold: false,
+    italic: false,
+    ...wordRunStyle(at(styles, 'w:docDefaults', 'w:rPrDefault', 'w:rPr'), theme),
+  }
+
+  const paragraphs = new Map<string, ParagraphStyle>()
+  let defaultParagraph: string | undefined
+
+  for (const style of childrenNamed(styles, 'w:style')) {
+    if (style.attributes['w:type'] !== 'paragraph') continue
+
+    const id = style.attributes['w:styleId']
+    const properties = child(style, 'w:pPr')
+    const outlineLevel = child(properties, 'w:outlineLvl')?.attributes['w:val']
+    const spacingAfter = child(properties, 'w:spacing')?.attributes['w:after']
+
+    paragraphs.set(id, {
+      name: child(style, 'w:name')?.attributes['w:val'] || id,
+      basedOn: child(style, 'w:basedOn')?.attributes['w:val'],
+      outlineLevel: outlineLevel !== undefined ? Number(outlineLevel) : undefined,
+      alignment: ALIGNMENTS[child(properties, 'w:jc')?.attributes['w:val'] ?? ''],
+      spacingAfter: spacingAfter !== undefined ? twips(spacingAfter) : undefined,
+      run: wordRunStyle(child(style, 'w:rPr'), theme),
+    })
+    if (style.attributes['w:default'] === '1') {
+      defaultParagraph = id
+    }
+  }
+
+  return { defaultRun, defaultParagraph, paragraphs }
+}
+
+// Flattens a style's basedOn chain, nearest style winning
+function resolveParagraphStyle(styles: WordStyles, id: string | undefined): ParagraphStyle {
+  const chain: ParagraphStyle[] = []
+  const seen = new Set<string>()
+  let current = id ?? styles.defaultParagraph
+
+  while (current && !seen.has(current)) {
+    seen.add(current)
+    const style = styles.paragraphs.get(current)
+    if (!style) break
+    chain.unshift(style)
+    current = style.basedOn
+  }
+
+  return chain.reduce<ParagraphStyle>(
+    (resolved, style) => ({
+      name: style.name,
+      outlineLevel: style.outlineLevel ?? resolved.outlineLevel,
+      alignment: style.alignment ?? resolved.alignment,
+      spacingAfter: style.spacingAfter ?? resolved.spacingAfter,
+      run: { ...resolved.run, ...style.run },
+    }),
+    { name: 'Normal', run: {} }
+  )
+}
+
+function wordRunStyle(properties: XmlNode | undefined, theme: OfficeTheme): Partial<RunStyle> {
+  const style: Partial<RunStyle> = {}
+  if (!properties) return style
+
+  const fonts = child(properties, 'w:rFonts')?.attributes
+  const themeFont = fonts?.['w:asciiTheme'] || fonts?.['w:hAnsiTheme']
+  const font = fonts?.['w:ascii'] || fonts?.['w:hAnsi'] ||
+    (themeFont?.startsWith('major') ? theme.headingFont : themeFont?.startsWith('minor') ? theme.bodyFont : undefined)
+  if (font) style.font = font
+
+  const size = child(properties, 'w:sz')?.attributes['w:val']
+  if (size) style.sizePt = Number(size) / 2
+
+  const bold = child(properties, 'w:b')
+  if (bold) style.bold = isOn(bold)
+
+  const italic = child(properties, 'w:i')
+  if (italic) style.italic = isOn(italic)
+
+  const color = child(properties, 'w:color')?.attributes
+  const value = themeColor(color?.['w:themeColor'], theme) ??
+    (color?.['w:val'] && color['w:val'] !== 'auto' ? toHex(color['w:val']) : undefined)
+  if (value) style.color = value
+
+  return style
+}
+
+function wordRole(style: ParagraphStyle, runs: OfficeTextRun[]): OfficeTextBlock['role'] {
+  const name = style.name.toLowerCase()
+  if (name === 'title') return 'title'
+  if (name === 'subtitle' || name.startsWith('heading') || style.outlineLevel !== undefined) return 'heading'
+  if (name === 'caption') return 'caption'
+  return roleForSize(runs) === 'heading' ? 'heading' : 'body'
+}
+
+/**
+ * Lays Word paragraphs out top to bottom inside the page margins. Pages
+ * break where Word last broke them when the file records that, and
+ * otherwise where the estimated text overflows.
+ */
+class WordFlow {
+  readonly pages: OfficePage[] = []
+  private page!: OfficePage
+  private y = 0
+
+  constructor(
+    private readonly size: { width: number; height: number },
+    private readonly margins: { top: number; right: number; bottom: number; left: number },
+    private readonly background: string | undefined,
+    private readonly estimateBreaks: boolean
+  ) {
+    this.newPage()
+  }
+
+  get contentWidth(): number {
+    return Math.max(1, this.size.width - this.margins.left - this.margins.right)
+  }
+
+  get currentPage(): OfficePage {
+    return this.page
+  }
+
+  newPage(): void {
+    this.page = {
+      pageNumber: this.pages.length + 1,
+      width: this.size.width,
+      height: this.size.height,
+      background: this.background,
+      textBlocks: [],
+      images: [],
+    }
+    this.pages.push(this.page)
+    this.y = this.margins.top
+  }
+
+  // Reserves `height` points, starting a new page first if they don't fit
+  place(width: number, height: number): OfficeBounds {
+    const bottom = this.size.height - this.margins.bottom
+    if (this.estimateBreaks && this.y + height > bottom && this.y > this.margins.top) {
+      this.newPage()
+    }
+
+    const bounds = { x: this.margins.left, y: this.y, width: Math.min(width, this.contentWidth), height }
+    this.y += height
+    return bounds
+  }
+
+  space(height: number): void {
+    this.y += height
+  }
+
+  textHeight(text: string, sizePt: number): number {
+    const charsPerLine = Math.max(1, Math.floor(this.contentWidth / (sizePt * AVERAGE_GLYPH_WIDTH)))
+    const lines = text
+      .split('\n')
+      .reduce((total, line) => total + Math.max(1, Math.ceil(line.length / charsPerLine)), 0)
+    return lines * sizePt * LINE_HEIGHT
+  }
+}
+
+async function parseWordDocument(
+  pkg: OfficePackage,
+  main: string,
+  theme: OfficeTheme
+): Promise<OfficePage[]> {
+  const document = child((await pkg.readXml(main)) ?? undefined, 'w:document')
+  const body = child(document, 'w:body')
+  const section = child(body, 'w:sectPr')
+  const pageSize = child(section, 'w:pgSz')?.attributes
+  const pageMargins = child(section, 'w:pgMar')?.attributes
+  const margin = (name: string) =>
+    pageMargins?.[name] !== undefined ? twips(pageMargins[name]) : DEFAULT_PAGE_MARGIN
+
+  const backgroundColor = child(document, 'w:background')?.attributes['w:color']
+  const paragraphs = descendants(body, 'w:p')
+  const hasRenderedBreaks = paragraphs.some(p => descendants(p, 'w:lastRenderedPageBreak').length > 0)
+
+  const flow = new WordFlow(
+    {
+      width: twips(pageSize?.['w:w']) || DEFAULT_PAGE_SIZE.width,
+      height: twips(pageSize?.['w:h']) || DEFAULT_PAGE_SIZE.height,
+    },
+    { top: margin('w:top'), right: margin('w:right'), bottom: margin('w:bottom'), left: margin('w:left') },
+    backgroundColor && backgroundColor !== 'auto' ? toHex(backgroundColor) : undefined,
+    !hasRenderedBreaks
+  )
+
+  const styles = await loadWordStyles(pkg, main, theme)
+  const relationships = await pkg.relationships(main)
+
+  for (const paragraph of paragraphs) {
+    await layoutParagraph(paragraph, { pkg, theme, styles, relationships, flow, hasRenderedBreaks })
+  }
+
+  return flow.pages
+}
+
+interface ParagraphContext {
+  pkg: OfficePackage
+  theme: OfficeTheme
+  styles: WordStyles
+  relationships: Relationship[]
+  flow: WordFlow
+  hasRenderedBreaks: boolean
+}
+
+async function layoutParagraph(paragraph: XmlNode, context: ParagraphContext): Promise<void> {
+  const { pkg, theme, styles, relationships, flow } = context
+  const properties = child(paragraph, 'w:pPr')
+  const style = resolveParagraphStyle(styles, child(properties, 'w:pStyle')?.attributes['w:val'])
+  const baseRun: RunStyle = { ...styles.defaultRun, ...style.run }
+  const directOutline = child(properties, 'w:outlineLvl')?.attributes['w:val']
+  const paragraphStyle = directOutline !== undefined ? { ...style, outlineLevel: Number(directOutline) } : style
+  const alignment = ALIGNMENTS[child(properties, 'w:jc')?.attributes['w:val'] ?? ''] ?? style.alignment ?? 'left'
+  const spacing = child(properties, 'w:spacing')?.attributes['w:after']
+  const spacingAfter = spacing !== undefined ? twips(spacing) : style.spacingAfter ?? DEFAULT_PARAGRAPH_SPACING
+
+  if (isOn(child(properties, 'w:pageBreakBefore'))) {
+    flow.newPage()
+  }
+
+  let runs: OfficeTextRun[] = []
+  let placedAnything = false
+
+  // Text up to a page break becomes one block on the current page
+  const flush = () => {
+    const text = runs.map(run => run.text).join('').trim()
+    if (text) {
+      const sizePt = Math.max(...runs.map(run => run.sizePt || DEFAULT_WORD_FONT_SIZE))
+      // Placing may start a new page, so do it before picking the page
+      const bounds = flow.place(flow.contentWidth, flow.textHeight(text, sizePt))
+      flow.currentPage.textBlocks.push({
+        text,
+        role: wordRole(paragraphStyle, runs),
+        bounds,
+        runs: runs.filter(run => run.text),
+        alignment,
+        estimatedBounds: true,
+      })
+      placedAnything = true
+    }
+    runs = []
+  }
+
+  for (const run of descendants(paragraph, 'w:r')) {
+    const runStyle = { ...baseRun, ...wordRunStyle(child(run, 'w:rPr'), theme) }
+
+    for (const node of run.children) {
+      if (node.name === 'w:t') {
+        runs.push({ text: textOf(node), ...runStyle })
+      } else if (node.name === 'w:tab') {
+        runs.push({ text: '\t', ...runStyle })
+      } else if (node.name === 'w:br' || node.name === 'w:cr') {
+        if (node.attributes['w:type'] === 'page') {
+          flush()
+          flow.newPage()
+        } else {
+          runs.push({ text: '\n', ...runStyle })
+        }
+      } else if (node.name === 'w:lastRenderedPageBreak' && context.hasRenderedBreaks) {
+        flush()
+        flow.newPage()
+      } else if (node.name === 'w:drawing') {
+        flush()
+        const extent = descendants(node, 'wp:extent')[0]?.attributes
+        const width = emu(extent?.cx)
+        const height = emu(extent?.cy)
+        if (!width || !height) continue
+
+        const bounds = flow.place(width, height)
+        const page = flow.currentPage
+        const image = await readImage(
+          pkg,
+          relationships,
+          descendants(node, 'a:blip')[0]?.attributes['r:embed'],
+          `page-${page.pageNumber}-image-${page.images.length + 1}`,
+          bounds
+        )
+        if (image) {
+          page.images.push(image)
+          placedAnything = true
+        }
+      }
+    }
+  }
+
+  flush()
+
+  // Empty paragraphs still take a line
+  flow.space(placedAnything ? spacingAfter : (baseRun.sizePt || DEFAULT_WORD_FONT_SIZE) * LINE_HEIGHT)
+}
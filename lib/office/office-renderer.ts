@@ -0,0 +1,136 @@
+import sharp from 'sharp'
+import type { RasterizedPage } from '@/lib/utils/pdf-rasterizer'
+import { escapeXml } from './xml'
+import { OfficeDocument, OfficePage, OfficeTextBlock, OfficeTheme } from './types'
+
+export interface RenderOfficeOptions {
+  dpi?: number
+  signal?: AbortSignal
+}
+
+const DEFAULT_RENDER_DPI = 150
+const DEFAULT_TEXT_SIZE = 18
+const AVERAGE_GLYPH_WIDTH = 0.5
+const LINE_HEIGHT = 1.2
+
+// librsvg can decode these inline; other formats (EMF, TIFF) are drawn as a
+// box so the page still shows content there
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/svg+xml']
+
+const ANCHORS: Record<OfficeTextBlock['alignment'], string> = {
+  left: 'start',
+  justified: 'start',
+  center: 'middle',
+  right: 'end',
+}
+
+/**
+ * Draws each page from its parsed content, in the same shape as rasterized
+ * PDF pages, so pixel-level analysis and composition can treat both alike.
+ * This is a layout preview: text uses system fonts and wraps approximately.
+ */
+export async function renderOfficePages(
+  document: OfficeDocument,
+  options: RenderOfficeOptions = {}
+): Promise<RasterizedPage[]> {
+  const { dpi = DEFAULT_RENDER_DPI, signal } = options
+  const results: RasterizedPage[] = []
+
+  for (const page of document.pages) {
+    if (signal?.aborted) {
+      throw new Error('Document rendering cancelled')
+    }
+
+    const width = Math.max(1, Math.round((page.width * dpi) / 72))
+    const height = Math.max(1, Math.round((page.height * dpi) / 72))
+    const svg = pageToSVG(page, document.theme, width, height)
+
+    results.push({
+      pageNumber: page.pageNumber,
+      buffer: await sharp(Buffer.from(svg)).png().toBuffer(),
+      width,
+      height,
+      widthPt: page.width,
+      heightPt: page.height,
+      dpi,
+    })
+  }
+
+  return results
+}
+
+function pageToSVG(page: OfficePage, theme: OfficeTheme, width: number, height: number): string {
+  const background = page.background || theme.colors.lt1 || '#FFFFFF'
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${page.width} ${page.height}">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+  ]
+
+  for (const image of page.images) {
+    const { x, y, width: w, height: h } = image.bounds
+    if (INLINE_IMAGE_TYPES.includes(image.contentType)) {
+      const href = `data:${image.contentType};base64,${image.data.toString('base64')}`
+      parts.push(`<image x="${x}" y="${y}" width="${w}" height="${h}" preserveAspectRatio="none" href="${href}"/>`)
+    } else {
+      parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="#D9D9D9"/>`)
+    }
+  }
+
+  for (const block of page.textBlocks) {
+    parts.push(textBlockToSVG(block, theme))
+  }
+
+  parts.push('</svg>')
+  return parts.join('')
+}
+
+function textBlockToSVG(block: OfficeTextBlock, theme: OfficeTheme): string {
+  // One style per block: that of its first run
+  const run = block.runs[0]
+  const size = run?.sizePt || DEFAULT_TEXT_SIZE
+  const font = run?.font || (block.role === 'body' || block.role === 'caption' ? theme.bodyFont : theme.headingFont)
+  const color = run?.color || theme.colors.dk1 || '#000000'
+
+  const anchor = ANCHORS[block.alignment]
+  const x = anchor === 'middle'
+    ? block.bounds.x + block.bounds.width / 2
+    : anchor === 'end' ? block.bounds.x + block.bounds.width : block.bounds.x
+
+  const lines = wrap(block.text, block.bounds.width, size)
+  const spans = lines.map((line, index) =>
+    `<tspan x="${x}" dy="${index === 0 ? size : size * LINE_HEIGHT}">${escapeXml(line)}</tspan>`
+  )
+
+  const attributes = [
+    `x="${x}"`,
+    `y="${block.bounds.y}"`,
+    `font-size="${size}"`,
+    `fill="${color}"`,
+    `text-anchor="${anchor}"`,
+    font ? `font-family="${escapeXml(font)}, sans-serif"` : 'font-family="sans-serif"',
+    run?.bold ? 'font-weight="bold"' : '',
+    run?.italic ? 'font-style="italic"' : '',
+  ].filter(Boolean)
+
+  return `<text ${attributes.join(' ')} xml:space="preserve">${spans.join('')}</text>`
+}
+
+function wrap(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_GLYPH_WIDTH)))
+  const lines: string[] = []
+
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/)) {
+      if (line && line.length + word.length + 1 > maxChars) {
+        lines.push(line)
+        line = word
+      } else {
+        line = line ? `${line} ${word}` : word
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
@@ -0,0 +1,126 @@
+import { OfficePackage } from './package'
+import { escapeXml } from './xml'
+import { OfficeFormat, OfficeThemeChanges } from './types'
+
+const BACKGROUND_IMAGE_PART = 'ppt/media/enhanced-background.png'
+
+/**
+ * Writes an enhancement back into the original PowerPoint or Word file. The
+ * plan's colours and fonts go into the theme, which every slide or page
+ * reads, so content stays editable and explicit formatting is kept.
+ */
+export async function applyOfficeTheme(
+  buffer: Buffer,
+  format: OfficeFormat,
+  changes: OfficeThemeChanges
+): Promise<Buffer> {
+  const pkg = await OfficePackage.load(buffer, format)
+  const main = await pkg.mainPart()
+
+  // Masters, notes and handouts each have a theme; keep them all in step
+  for (const part of pkg.parts(/theme\/theme\d+\.xml$/)) {
+    const xml = await pkg.readText(part)
+    if (xml) {
+      pkg.write(part, rewriteTheme(xml, changes))
+    }
+  }
+
+  if (format === 'pptx') {
+    await setSlideBackgrounds(pkg, main, changes.background)
+  } else if (changes.background?.color) {
+    await setPageBackground(pkg, main, changes.background.color)
+  }
+
+  return pkg.toBuffer()
+}
+
+function toOfficeColor(color: string): string | null {
+  const hex = color.replace(/^#/, '').toUpperCase()
+  return /^[0-9A-F]{6}$/.test(hex) ? hex : null
+}
+
+function rewriteTheme(xml: string, changes: OfficeThemeChanges): string {
+  let result = xml
+
+  for (const [slot, color] of Object.entries(changes.colors || {})) {
+    const value = color && toOfficeColor(color)
+    if (!value) continue
+    result = result.replace(
+      new RegExp(`<a:${slot}>[\\s\\S]*?</a:${slot}>`),
+      `<a:${slot}><a:srgbClr val="${value}"/></a:${slot}>`
+    )
+  }
+
+  if (changes.headingFont) {
+    result = setThemeFont(result, 'a:majorFont', changes.headingFont)
+  }
+  if (changes.bodyFont) {
+    result = setThemeFont(result, 'a:minorFont', changes.bodyFont)
+  }
+
+  return result
+}
+
+function setThemeFont(xml: string, scheme: string, font: string): string {
+  return xml.replace(
+    new RegExp(`(<${scheme}>\\s*<a:latin\\b[^>]*?\\btypeface=")[^"]*(")`),
+    `$1${escapeXml(font)}$2`
+  )
+}
+
+async function setSlideBackgrounds(
+  pkg: OfficePackage,
+  main: string,
+  background: OfficeThemeChanges['background']
+): Promise<void> {
+  const color = background?.color && toOfficeColor(background.color)
+  if (!background?.image && !color) return
+
+  if (background.image) {
+    pkg.write(BACKGROUND_IMAGE_PART, background.image)
+    await pkg.ensureContentType('png', 'image/png')
+  }
+
+  for (const slide of await pkg.related(main, 'slide')) {
+    const xml = await pkg.readText(slide)
+    if (!xml) continue
+
+    let fill: string
+    if (background.image) {
+      const id = await pkg.addRelationship(slide, 'image', BACKGROUND_IMAGE_PART)
+      fill = `<a:blipFill dpi="0" rotWithShape="1"><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></a:blipFill>`
+    } else {
+      fill = `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`
+    }
+
+    // <p:bg> must be the first child of <p:cSld>
+    const bg = `<p:bg><p:bgPr>${fill}<a:effectLst/></p:bgPr></p:bg>`
+    pkg.write(
+      slide,
+      xml
+        .replace(/<p:bg>[\s\S]*?<\/p:bg>/, '')
+        .replace(/(<p:cSld\b[^>]*>)/, `$1${bg}`)
+    )
+  }
+}
+
+async function setPageBackground(pkg: OfficePackage, main: string, color: string): Promise<void> {
+  const value = toOfficeColor(color)
+  const xml = await pkg.readText(main)
+  if (!value || !xml) return
+
+  pkg.write(
+    main,
+    xml
+      .replace(/<w:background\b[^>]*\/>|<w:background\b[^>]*>[\s\S]*?<\/w:background>/, '')
+      .replace(/(<w:document\b[^>]*>)/, `$1<w:background w:color="${value}"/>`)
+  )
+
+  // Word only shows page colour when settings ask it to
+  const [settingsPart] = await pkg.related(main, 'settings')
+  const settings = settingsPart ? await pkg.readText(settingsPart) : null
+  if (settingsPart && settings && !settings.includes('<w:displayBackgroundShape')) {
+    const anchor = /<w:zoom\b[^>]*\/>/.test(settings) ? /(<w:zoom\b[^>]*\/>)/ : /(<w:settings\b[^>]*>)/
+    pkg.write(settingsPart, settings.replace(anchor, '$1<w:displayBackgroundShape/>'))
+  }
+}
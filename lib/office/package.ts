@@ -0,0 +1,142 @@
+import { posix } from 'path'
+import JSZip from 'jszip'
+import { XmlNode, parseXml, childrenNamed, child } from './xml'
+import { OfficeFormat } from './types'
+
+export interface Relationship {
+  id: string
+  type: string // last segment of the type URI, e.g. 'slideLayout'
+  target: string // resolved part name
+}
+
+const RELATIONSHIP_TYPE_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/'
+
+export function relationshipsPartFor(part: string): string {
+  return posix.join(posix.dirname(part), '_rels', `${posix.basename(part)}.rels`)
+}
+
+/**
+ * An Office Open XML package: a zip of XML parts tied together by
+ * relationship files. Parts are addressed by their name inside the zip.
+ */
+export class OfficePackage {
+  private relationshipCache = new Map<string, Relationship[]>()
+
+  constructor(readonly zip: JSZip) {}
+
+  static async load(buffer: Buffer, format: OfficeFormat): Promise<OfficePackage> {
+    try {
+      return new OfficePackage(await JSZip.loadAsync(buffer))
+    } catch {
+      throw new Error(`Not a valid ${format.toUpperCase()} file`)
+    }
+  }
+
+  has(part: string): boolean {
+    return this.zip.file(part) !== null
+  }
+
+  parts(pattern: RegExp): string[] {
+    return Object.keys(this.zip.files).filter(name => pattern.test(name)).sort()
+  }
+
+  async readText(part: string): Promise<string | null> {
+    const file = this.zip.file(part)
+    return file ? file.async('string') : null
+  }
+
+  async readXml(part: string): Promise<XmlNode | null> {
+    const text = await this.readText(part)
+    return text === null ? null : parseXml(text)
+  }
+
+  async readBinary(part: string): Promise<Buffer | null> {
+    const file = this.zip.file(part)
+    return file ? Buffer.from(await file.async('uint8array')) : null
+  }
+
+  write(part: string, content: string | Buffer): void {
+    this.zip.file(part, content)
+    if (part.endsWith('.rels')) {
+      this.relationshipCache.delete(part)
+    }
+  }
+
+  async relationships(part: string): Promise<Relationship[]> {
+    const relsPart = part === '' ? '_rels/.rels' : relationshipsPartFor(part)
+    const cached = this.relationshipCache.get(relsPart)
+    if (cached) return cached
+
+    const xml = await this.readXml(relsPart)
+    const relationships = childrenNamed(child(xml ?? undefined, 'Relationships'), 'Relationship')
+      .filter(rel => rel.attributes.TargetMode !== 'External')
+      .map(rel => ({
+        id: rel.attributes.Id,
+        type: rel.attributes.Type.split('/').pop() || '',
+        target: resolveTarget(part, rel.attributes.Target),
+      }))
+
+    this.relationshipCache.set(relsPart, relationships)
+    return relationships
+  }
+
+  async related(part: string, type: string): Promise<string[]> {
+    return (await this.relationships(part))
+      .filter(rel => rel.type === type)
+      .map(rel => rel.target)
+  }
+
+  // ppt/presentation.xml or word/document.xml
+  async mainPart(): Promise<string> {
+    const [main] = await this.related('', 'officeDocument')
+    if (!main || !this.has(main)) {
+      throw new Error('Document package has no main part')
+    }
+    return main
+  }
+
+  async thumbnail(): Promise<Buffer | undefined> {
+    const [part] = await this.related('', 'thumbnail')
+    return (part && (await this.readBinary(part))) || undefined
+  }
+
+  /**
+   * Adds a relationship from `part` to `target` and returns its id.
+   */
+  async addRelationship(part: string, type: string, target: string): Promise<string> {
+    const relsPart = relationshipsPartFor(part)
+    const existing = await this.relationships(part)
+    const ids = new Set(existing.map(rel => rel.id))
+    let n = existing.length + 1
+    while (ids.has(`rId${n}`)) n++
+    const id = `rId${n}`
+
+    const relative = posix.relative(posix.dirname(part), target)
+    const entry = `<Relationship Id="${id}" Type="${RELATIONSHIP_TYPE_BASE}${type}" Target="${relative}"/>`
+    const xml = (await this.readText(relsPart)) ||
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>'
+
+    this.write(relsPart, xml.replace('</Relationships>', `${entry}</Relationships>`))
+    return id
+  }
+
+  async ensureContentType(extension: string, contentType: string): Promise<void> {
+    const xml = await this.readText('[Content_Types].xml')
+    if (!xml || new RegExp(`Extension="${extension}"`, 'i').test(xml)) return
+
+    this.write(
+      '[Content_Types].xml',
+      xml.replace('</Types>', `<Default Extension="${extension}" ContentType="${contentType}"/></Types>`)
+    )
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    return this.zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  }
+}
+
+function resolveTarget(source: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  return posix.normalize(posix.join(posix.dirname(source), target))
+}
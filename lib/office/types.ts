@@ -0,0 +1,77 @@
+export type OfficeFormat = 'pptx' | 'docx'
+
+// Positions are in points (1/72 inch) from the page's top-left corner
+export interface OfficeBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type ThemeColorSlot =
+  | 'dk1' | 'lt1' | 'dk2' | 'lt2'
+  | 'accent1' | 'accent2' | 'accent3' | 'accent4' | 'accent5' | 'accent6'
+  | 'hlink' | 'folHlink'
+
+export interface OfficeTheme {
+  name?: string
+  colors: Partial<Record<ThemeColorSlot, string>> // '#RRGGBB'
+  headingFont?: string
+  bodyFont?: string
+}
+
+export interface OfficeTextRun {
+  text: string
+  font?: string
+  sizePt?: number
+  bold: boolean
+  italic: boolean
+  color?: string // '#RRGGBB'
+}
+
+export interface OfficeTextBlock {
+  text: string // paragraphs joined with '\n'
+  role: 'title' | 'heading' | 'body' | 'caption'
+  bounds: OfficeBounds
+  runs: OfficeTextRun[]
+  alignment: 'left' | 'center' | 'right' | 'justified'
+  // Word text flows, so its position is estimated from font sizes; slide
+  // shapes are placed exactly
+  estimatedBounds: boolean
+}
+
+export interface OfficeImage {
+  id: string
+  path: string // part name inside the package, e.g. 'ppt/media/image1.png'
+  contentType: string
+  bounds: OfficeBounds
+  data: Buffer
+}
+
+export interface OfficePage {
+  pageNumber: number // 1-based
+  width: number // points
+  height: number
+  layout?: string // slide layout name
+  background?: string // '#RRGGBB', when the page sets a solid fill
+  textBlocks: OfficeTextBlock[]
+  images: OfficeImage[]
+}
+
+export interface OfficeDocument {
+  format: OfficeFormat
+  pages: OfficePage[]
+  theme: OfficeTheme
+  fonts: string[] // every font a run uses, theme fonts resolved
+  thumbnail?: Buffer // docProps/thumbnail.*, when the saving app wrote one
+}
+
+export interface OfficeThemeChanges {
+  colors?: Partial<Record<ThemeColorSlot, string>>
+  headingFont?: string
+  bodyFont?: string
+  background?: {
+    color?: string
+    image?: Buffer // PNG; slides only, Word pages take the colour
+  }
+}
@@ -0,0 +1,99 @@
+import { XMLParser } from 'fast-xml-parser'
+
+export interface XmlNode {
+  name: string // qualified, e.g. 'a:t'; '#text' for text content
+  attributes: Record<string, string>
+  children: XmlNode[]
+  text: string
+}
+
+type OrderedItem = Record<string, unknown>
+
+// Document order matters (runs within a paragraph, paragraphs within a body),
+// so parse in preserveOrder mode and turn the result into a plain tree
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+})
+
+export function parseXml(xml: string): XmlNode {
+  return {
+    name: '#document',
+    attributes: {},
+    children: toNodes(parser.parse(xml) as OrderedItem[]),
+    text: '',
+  }
+}
+
+function toNodes(items: OrderedItem[]): XmlNode[] {
+  const nodes: XmlNode[] = []
+
+  for (const item of items) {
+    const attributes = (item[':@'] as Record<string, string> | undefined) || {}
+
+    for (const [name, value] of Object.entries(item)) {
+      if (name === ':@' || name === '?xml') continue
+
+      if (name === '#text') {
+        nodes.push({ name, attributes: {}, children: [], text: String(value) })
+      } else {
+        nodes.push({ name, attributes, children: toNodes(value as OrderedItem[]), text: '' })
+      }
+    }
+  }
+
+  return nodes
+}
+
+export function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return node?.children.find(c => c.name === name)
+}
+
+export function childrenNamed(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter(c => c.name === name) : []
+}
+
+// Follows a chain of child names, e.g. at(sp, 'p:spPr', 'a:xfrm')
+export function at(node: XmlNode | undefined, ...names: string[]): XmlNode | undefined {
+  return names.reduce<XmlNode | undefined>((current, name) => child(current, name), node)
+}
+
+/**
+ * Every element called `name` below `node`, in document order. Matches are
+ * not searched further, so paragraphs nested in text boxes inside a paragraph
+ * aren't returned twice.
+ */
+export function descendants(node: XmlNode | undefined, name: string): XmlNode[] {
+  const found: XmlNode[] = []
+  const visit = (current: XmlNode) => {
+    for (const c of current.children) {
+      if (c.name === name) {
+        found.push(c)
+      } else {
+        visit(c)
+      }
+    }
+  }
+
+  if (node) visit(node)
+  return found
+}
+
+export function textOf(node: XmlNode | undefined): string {
+  if (!node) return ''
+  if (node.name === '#text') return node.text
+  return node.children.map(textOf).join('')
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
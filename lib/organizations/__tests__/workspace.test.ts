@@ -0,0 +1,90 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server'
+import { OrganizationStore } from '../organization-store'
+import { canAccess, hasRole, resolveWorkspace, scopeToWorkspace } from '../workspace'
+
+jest.mock('../organization-store', () => ({
+  OrganizationStore: { getRole: jest.fn() },
+}))
+
+const getRole = OrganizationStore.getRole as jest.MockedFunction<typeof OrganizationStore.getRole>
+
+const requestWith = (headers: Record<string, string>) =>
+  ({ headers: new Headers(headers) }) as unknown as NextRequest
+
+describe('workspace', () => {
+  beforeEach(() => {
+    getRole.mockReset()
+  })
+
+  it('ranks owners above editors above viewers', () => {
+    expect(hasRole('owner', 'editor')).toBe(true)
+    expect(hasRole('editor', 'editor')).toBe(true)
+    expect(hasRole('viewer', 'editor')).toBe(false)
+  })
+
+  it('treats requests without the header as personal', async () => {
+    await expect(resolveWorkspace(requestWith({}), 'user-1')).resolves.toBeNull()
+    expect(getRole).not.toHaveBeenCalled()
+  })
+
+  it('resolves the organization named in the header for members with enough rights', async () => {
+    getRole.mockResolvedValue('editor')
+
+    await expect(
+      resolveWorkspace(requestWith({ 'x-organization-id': 'org-1' }), 'user-1', 'editor')
+    ).resolves.toEqual({ organizationId: 'org-1', role: 'editor' })
+    expect(getRole).toHaveBeenCalledWith('org-1', 'user-1')
+  })
+
+  it('rejects non-members and members below the required role', async () => {
+    const request = requestWith({ 'x-organization-id': 'org-1' })
+
+    getRole.mockResolvedValueOnce(null)
+    await expect(resolveWorkspace(request, 'user-1')).rejects.toMatchObject({ statusCode: 403 })
+
+    getRole.mockResolvedValueOnce('viewer')
+    await expect(resolveWorkspace(request, 'user-1', 'owner')).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it('keeps organization API keys inside their organization', async () => {
+    getRole.mockResolvedValue('owner')
+
+    await expect(resolveWorkspace(requestWith({}), 'user-1', 'viewer', 'org-1'))
+      .resolves.toEqual({ organizationId: 'org-1', role: 'owner' })
+    await expect(
+      resolveWorkspace(requestWith({ 'x-organization-id': 'org-2' }), 'user-1', 'viewer', 'org-1')
+    ).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it('lets only the creator reach personal records and members reach shared ones', async () => {
+    await expect(canAccess({ user_id: 'user-1' }, 'user-1')).resolves.toBe(true)
+    await expect(canAccess({ user_id: 'user-1', organization_id: null }, 'user-2')).resolves.toBe(false)
+
+    getRole.mockResolvedValue('viewer')
+    const shared = { user_id: 'user-1', organization_id: 'org-1' }
+    await expect(canAccess(shared, 'user-2', 'viewer')).resolves.toBe(true)
+    await expect(canAccess(shared, 'user-2', 'editor')).resolves.toBe(false)
+  })
+
+  it('scopes queries to the organization or to personal rows', () => {
+    const calls: Array<[string, string, unknown]> = []
+    const query = {
+      eq(column: string, value: string) {
+        calls.push(['eq', column, value])
+        return query
+      },
+      is(column: string, value: null) {
+        calls.push(['is', column, value])
+        return query
+      },
+    }
+
+    scopeToWorkspace(query, 'user-1', 'org-1')
+    expect(calls).toEqual([['eq', 'organization_id', 'org-1']])
+
+    calls.length = 0
+    scopeToWorkspace(query, 'user-1')
+    expect(calls).toEqual([['eq', 'user_id', 'user-1'], ['is', 'organization_id', null]])
+  })
+})
@@ -0,0 +1,10 @@
+export * from './types'
+export { OrganizationStore, LastOwnerError } from './organization-store'
+export {
+  ORGANIZATION_HEADER,
+  canAccess,
+  hasRole,
+  requireRole,
+  resolveWorkspace,
+  scopeToWorkspace,
+} from './workspace'
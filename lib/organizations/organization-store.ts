@@ -0,0 +1,295 @@
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { Organization, OrganizationMember, OrganizationRole, SubscriptionTier } from './types'
+
+interface OrganizationRow {
+  id: string
+  name: string
+  subscription_tier: SubscriptionTier
+  monthly_credits: number
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+interface MemberRow {
+  user_id: string
+  email: string
+  name: string | null
+  role: OrganizationRole
+  created_at: string
+}
+
+/**
+ * Organizations and their members. Row level security limits every query to
+ * organizations the caller belongs to, so the role checks here only decide
+ * which error to return.
+ */
+export class OrganizationStore {
+  static async listForUser(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to list organizations: ${error.message}`)
+    }
+
+    return (data as Array<{ role: OrganizationRole; organizations: OrganizationRow }>)
+      .filter(row => row.organizations)
+      .map(row => ({ ...this.toOrganization(row.organizations), role: row.role }))
+  }
+
+  static async get(id: string): Promise<Organization | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load organization: ${error.message}`)
+    }
+
+    return data ? this.toOrganization(data as OrganizationRow) : null
+  }
+
+  /**
+   * Creates an organization with an empty credit pool; credits only come from
+   * a paid subscription, see applySubscription. A database trigger makes the
+   * creator its first owner.
+   */
+  static async create(userId: string, name: string): Promise<Organization> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({
+        name,
+        created_by: userId,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create organization: ${error.message}`)
+    }
+
+    return this.toOrganization(data as OrganizationRow)
+  }
+
+  static async rename(id: string, name: string): Promise<Organization | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update organization: ${error.message}`)
+    }
+
+    return data ? this.toOrganization(data as OrganizationRow) : null
+  }
+
+  /**
+   * Sets the pool from a Stripe subscription event. Members can't write the
+   * billing columns, so this goes through the service role. Inactive or free
+   * subscriptions leave the pool empty.
+   */
+  static async applySubscription(
+    id: string,
+    tier: SubscriptionTier,
+    active: boolean
+  ): Promise<void> {
+    const supabase = createServiceClient()
+    const paidTier = active && tier !== 'free'
+
+    let monthlyCredits = 0
+    if (paidTier) {
+      const { data: limits, error: limitsError } = await supabase
+        .from('subscription_limits')
+        .select('monthly_credits')
+        .eq('tier', tier)
+        .maybeSingle()
+
+      if (limitsError) {
+        throw new Error(`Failed to load subscription limits: ${limitsError.message}`)
+      }
+      monthlyCredits = limits?.monthly_credits ?? 0
+    }
+
+    const { error } = await supabase
+      .from('organizations')
+      .update({
+        subscription_tier: paidTier ? tier : 'free',
+        monthly_credits: monthlyCredits,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update organization subscription: ${error.message}`)
+    }
+  }
+
+  static async remove(id: string): Promise<boolean> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete organization: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  static async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load membership: ${error.message}`)
+    }
+
+    return data ? (data.role as OrganizationRole) : null
+  }
+
+  static async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .rpc('list_organization_members', { p_organization_id: organizationId })
+
+    if (error) {
+      throw new Error(`Failed to list members: ${error.message}`)
+    }
+
+    return (data as MemberRow[]).map(row => ({
+      userId: row.user_id,
+      email: row.email,
+      name: row.name || undefined,
+      role: row.role,
+      joinedAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Adds an existing user by email, or changes their role if they are already
+   * a member. Returns null when no account uses that email.
+   */
+  static async addMember(
+    organizationId: string,
+    email: string,
+    role: OrganizationRole
+  ): Promise<OrganizationMember | null> {
+    const supabase = await createClient()
+
+    const { data: userId, error } = await supabase
+      .rpc('add_organization_member', {
+        p_organization_id: organizationId,
+        p_email: email,
+        p_role: role,
+      })
+
+    if (error) {
+      throw new Error(`Failed to add member: ${error.message}`)
+    }
+    if (!userId) return null
+
+    const members = await this.listMembers(organizationId)
+    return members.find(member => member.userId === userId) || null
+  }
+
+  static async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<boolean> {
+    if (role !== 'owner') {
+      await this.ensureAnotherOwner(organizationId, userId)
+    }
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select('user_id')
+
+    if (error) {
+      throw new Error(`Failed to update member: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  static async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    await this.ensureAnotherOwner(organizationId, userId)
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select('user_id')
+
+    if (error) {
+      throw new Error(`Failed to remove member: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  static toOrganization(row: OrganizationRow): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      subscriptionTier: row.subscription_tier,
+      monthlyCredits: row.monthly_credits,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  // An organization without an owner could never be managed again
+  private static async ensureAnotherOwner(organizationId: string, userId: string): Promise<void> {
+    const members = await this.listMembers(organizationId)
+    const owners = members.filter(member => member.role === 'owner')
+    if (owners.length === 1 && owners[0].userId === userId) {
+      throw new LastOwnerError()
+    }
+  }
+}
+
+export class LastOwnerError extends Error {
+  constructor() {
+    super('An organization must keep at least one owner')
+    this.name = 'LastOwnerError'
+  }
+}
@@ -0,0 +1,30 @@
+export type OrganizationRole = 'owner' | 'editor' | 'viewer'
+
+export type SubscriptionTier = 'free' | 'basic' | 'pro' | 'premium'
+
+export interface Organization {
+  id: string
+  name: string
+  subscriptionTier: SubscriptionTier
+  monthlyCredits: number // pooled across every member
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface OrganizationMember {
+  userId: string
+  email: string
+  name?: string
+  role: OrganizationRole
+  joinedAt: string
+}
+
+/**
+ * The caller's organization for a request, or null when they are working in
+ * their personal space.
+ */
+export interface Workspace {
+  organizationId: string
+  role: OrganizationRole
+}
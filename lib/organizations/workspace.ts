@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server'
+import { apiErrors } from '@/lib/api/response'
+import { OrganizationStore } from './organization-store'
+import { OrganizationRole, Workspace } from './types'
+
+// Requests made on behalf of a team name it in this header; without it the
+// caller works in their personal space
+export const ORGANIZATION_HEADER = 'x-organization-id'
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+}
+
+export function hasRole(role: OrganizationRole, minRole: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole]
+}
+
+/**
+ * Resolves the organization a request acts for. Returns null for personal
+ * requests and throws forbidden when the caller is not a member or their
+ * role is below `minRole`. An API key bound to an organization always acts
+ * for that organization.
+ */
+export async function resolveWorkspace(
+  request: NextRequest,
+  userId: string,
+  minRole: OrganizationRole = 'viewer',
+  keyOrganizationId?: string
+): Promise<Workspace | null> {
+  const requested = request.headers.get(ORGANIZATION_HEADER) || undefined
+  if (keyOrganizationId && requested && requested !== keyOrganizationId) {
+    throw apiErrors.forbidden('This API key belongs to a different organization')
+  }
+
+  const organizationId = keyOrganizationId || requested
+  if (!organizationId) return null
+
+  return requireRole(organizationId, userId, minRole)
+}
+
+export async function requireRole(
+  organizationId: string,
+  userId: string,
+  minRole: OrganizationRole
+): Promise<Workspace> {
+  const role = await OrganizationStore.getRole(organizationId, userId)
+  if (!role) {
+    throw apiErrors.forbidden('You are not a member of this organization')
+  }
+  if (!hasRole(role, minRole)) {
+    throw apiErrors.forbidden(`This action needs the ${minRole} role in the organization`)
+  }
+  return { organizationId, role }
+}
+
+/**
+ * Whether the caller may act on a record. Personal records belong to their
+ * creator; organization records to every member with at least `minRole`.
+ */
+export async function canAccess(
+  record: { user_id: string; organization_id?: string | null },
+  userId: string,
+  minRole: OrganizationRole = 'viewer'
+): Promise<boolean> {
+  if (!record.organization_id) {
+    return record.user_id === userId
+  }
+  const role = await OrganizationStore.getRole(record.organization_id, userId)
+  return role !== null && hasRole(role, minRole)
+}
+
+interface FilterableQuery<T> {
+  eq(column: string, value: string): T
+  is(column: string, value: null): T
+}
+
+/**
+ * Limits a query to an organization's rows, or to the user's personal rows
+ * when no organization is given. Personal queries exclude rows the user
+ * created for an organization, which belong to the team.
+ */
+export function scopeToWorkspace<T extends FilterableQuery<T>>(
+  query: T,
+  userId: string,
+  organizationId?: string
+): T {
+  return organizationId
+    ? query.eq('organization_id', organizationId)
+    : query.eq('user_id', userId).is('organization_id', null)
+}
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import {
+  requestCancellation,
+  isCancellationRequested,
+  clearCancellation,
+  watchCancellation,
+} from '../cancellation'
+
+jest.mock('../config', () => {
+  // ioredis-mock ships without type declarations
+  const RedisMock = jest.requireActual('ioredis-mock')
+  return { redis: new RedisMock() }
+})
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 50 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('enhancement cancellation', () => {
+  beforeEach(async () => {
+    await clearCancellation('enh-1')
+    await clearCancellation('enh-2')
+  })
+
+  it('aborts a running job when cancellation is requested', async () => {
+    const watch = await watchCancellation('enh-1')
+    const other = await watchCancellation('enh-2')
+    expect(watch.signal.aborted).toBe(false)
+
+    await requestCancellation('enh-1')
+    await waitFor(() => watch.signal.aborted)
+
+    expect(watch.signal.aborted).toBe(true)
+    expect(other.signal.aborted).toBe(false)
+    watch.stop()
+    other.stop()
+  })
+
+  it('starts aborted when the request came before the job started', async () => {
+    await requestCancellation('enh-1')
+    expect(await isCancellationRequested('enh-1')).toBe(true)
+
+    const watch = await watchCancellation('enh-1')
+
+    expect(watch.signal.aborted).toBe(true)
+    watch.stop()
+  })
+
+  it('ignores requests after the watch is stopped', async () => {
+    const watch = await watchCancellation('enh-1')
+    watch.stop()
+
+    await requestCancellation('enh-1')
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(watch.signal.aborted).toBe(false)
+  })
+})
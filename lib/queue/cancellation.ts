@@ -0,0 +1,68 @@
+import type Redis from 'ioredis'
+import { redis } from './config'
+
+// Cancel requests are stored as a flag as well as published, so a worker that
+// picks the job up after the message went out still sees it
+const CANCEL_CHANNEL = 'enhancement:cancel'
+const CANCEL_KEY_PREFIX = 'enhancement:cancelled:'
+const CANCEL_FLAG_TTL = 24 * 60 * 60 // seconds
+
+export interface CancellationWatch {
+  signal: AbortSignal
+  stop: () => void
+}
+
+// One subscriber connection per process, shared by every running job
+let subscriber: Redis | null = null
+const watchers = new Map<string, Set<AbortController>>()
+
+export const requestCancellation = async (enhancementId: string): Promise<void> => {
+  await redis.set(`${CANCEL_KEY_PREFIX}${enhancementId}`, '1', 'EX', CANCEL_FLAG_TTL)
+  await redis.publish(CANCEL_CHANNEL, enhancementId)
+}
+
+export const isCancellationRequested = async (enhancementId: string): Promise<boolean> => {
+  return (await redis.exists(`${CANCEL_KEY_PREFIX}${enhancementId}`)) === 1
+}
+
+export const clearCancellation = async (enhancementId: string): Promise<void> => {
+  await redis.del(`${CANCEL_KEY_PREFIX}${enhancementId}`)
+}
+
+/**
+ * Returns a signal that aborts when cancellation of `enhancementId` is
+ * requested from any process. Call `stop` once the job finishes.
+ */
+export const watchCancellation = async (enhancementId: string): Promise<CancellationWatch> => {
+  const controller = new AbortController()
+  const controllers = watchers.get(enhancementId) || new Set<AbortController>()
+  controllers.add(controller)
+  watchers.set(enhancementId, controllers)
+
+  const stop = () => {
+    controllers.delete(controller)
+    if (controllers.size === 0 && watchers.get(enhancementId) === controllers) {
+      watchers.delete(enhancementId)
+    }
+  }
+
+  await ensureSubscribed()
+
+  // Requested before this worker started listening
+  if (await isCancellationRequested(enhancementId)) {
+    controller.abort()
+  }
+
+  return { signal: controller.signal, stop }
+}
+
+const ensureSubscribed = async (): Promise<void> => {
+  if (subscriber) return
+
+  subscriber = redis.duplicate()
+  subscriber.on('message', (channel: string, enhancementId: string) => {
+    if (channel !== CANCEL_CHANNEL) return
+    watchers.get(enhancementId)?.forEach(controller => controller.abort())
+  })
+  await subscriber.subscribe(CANCEL_CHANNEL)
+}
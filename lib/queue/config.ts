@@ -51,6 +51,7 @@ export const QUEUE_NAMES = {
   ENHANCEMENT: 'enhancement',
   EXPORT: 'export',
   EMAIL: 'email',
+  CANVA_SYNC: 'canva-sync',
 } as const
 
 export const DEFAULT_JOB_OPTIONS = {
@@ -3,11 +3,13 @@ import { getQueueConnection, QUEUE_NAMES } from '../config'
 import type { DocumentAnalysisJobData, JobResult, JobProgress } from '../types'
 import { createClient } from '../../supabase/server'
 import { downloadFile } from '../../r2/download'
-import { documentCache, cacheKeyGenerator } from '../../cache/init'
-import { perceptualHasher } from '../../cache/perceptual-hash'
-import { withMetrics } from '../../cache/metrics'
+import { aiResponseCache } from '../../cache/init'
+import { contentHashOf } from '../../cache/document-cache'
+import { perceptualHash } from '../../cache/perceptual-hash'
 import { DocumentAnalysis } from '../../ai/types'
-import { DocumentComplexity } from '../../cache/cache-key-generator'
+
+// Analyses are cached like model responses, keyed by document hash and preferences
+const ANALYSIS_CACHE_MODEL = 'document-analysis'
 
 interface AnalysisContext {
   documentId: string
@@ -31,12 +33,10 @@ export class CachedDocumentAnalysisProcessor {
       // Step 1: Generate document hash
       const documentHash = await this.generateDocumentHash(context)
       
-      // Step 2: Check cache with metrics tracking
-      const cachedAnalysis = await withMetrics(
-        () => documentCache.get(documentHash, context.preferences),
-        (result) => result !== null,
-        (result) => (result as any)?.similarityMatch === true
-      )
+      // Step 2: Check cache; hits and misses are counted by the cache itself
+      const cacheInput = { documentHash, preferences: context.preferences }
+      const cached = await aiResponseCache.get<DocumentAnalysis>(ANALYSIS_CACHE_MODEL, cacheInput)
+      const cachedAnalysis = cached?.response
       
       if (cachedAnalysis) {
         await job.updateProgress({
@@ -52,8 +52,7 @@ export class CachedDocumentAnalysisProcessor {
           data: {
             documentId: context.documentId,
             analysisResults: cachedAnalysis,
-            cached: true,
-            similarity: (cachedAnalysis as any).similarity
+            cached: true
           },
           metadata: {
             processingTime: Date.now() - startTime
@@ -64,9 +63,10 @@ export class CachedDocumentAnalysisProcessor {
       // Step 3: Perform full analysis
       const analysis = await this.performAnalysis(context, job)
       
-      // Step 4: Calculate complexity and cache results
-      const complexity = this.calculateComplexity(analysis)
-      await documentCache.set(documentHash, analysis, context.preferences, complexity)
+      // Step 4: Cache results
+      await aiResponseCache.set(ANALYSIS_CACHE_MODEL, cacheInput, analysis, {
+        confidence: analysis.overallScore / 100
+      })
       
       await this.saveAnalysisResults(context, analysis, startTime)
       
@@ -88,26 +88,20 @@ export class CachedDocumentAnalysisProcessor {
   }
   
   private async generateDocumentHash(context: AnalysisContext): Promise<string> {
-    await cacheKeyGenerator.ensureInitialized()
-    
     // Extract key from URL
     const key = context.fileUrl.split('/').pop() || context.fileUrl
     const fileBuffer = await downloadFile(key)
     
     if (context.fileType.startsWith('image/')) {
-      // For images, generate perceptual hash
-      const perceptualHash = await perceptualHasher.generateHash(fileBuffer)
-      return `${perceptualHash}_${context.fileType.replace('/', '-')}`
+      // For images, a perceptual hash also matches re-encoded copies
+      const hash = await perceptualHash(fileBuffer)
+      if (hash) {
+        return `${hash}_${context.fileType.replace('/', '-')}`
+      }
     }
     
     // For other documents, use content hash
-    const imageData = {
-      data: new Uint8ClampedArray(fileBuffer),
-      width: 1,
-      height: fileBuffer.length
-    } as ImageData
-    
-    return await cacheKeyGenerator.generateContentHash(imageData)
+    return contentHashOf(fileBuffer)
   }
   
   private async performAnalysis(
@@ -163,22 +157,6 @@ export class CachedDocumentAnalysisProcessor {
     }
   }
   
-  private calculateComplexity(analysis: DocumentAnalysis): DocumentComplexity {
-    const factors = {
-      elementCount: (analysis.layout.issues.length + analysis.colors.palette.length) / 10,
-      textDensity: analysis.typography.fonts.length / 5,
-      colorComplexity: analysis.colors.palette.length / 10,
-      layoutComplexity: (100 - analysis.layout.score) / 100
-    }
-    
-    const avgComplexity = Object.values(factors).reduce((a, b) => a + b) / 4
-    
-    return {
-      level: avgComplexity < 0.3 ? 'low' : avgComplexity < 0.6 ? 'medium' : 'high',
-      factors
-    }
-  }
-  
   private async saveCachedResults(
     context: AnalysisContext,
     analysis: DocumentAnalysis,
@@ -0,0 +1,222 @@
+import { Worker, Job } from 'bullmq'
+import { getQueueConnection, QUEUE_NAMES } from '../config'
+import type { CanvaSyncJobData, EnhancementJobData, JobResult, JobProgress } from '../types'
+import { createServiceClient } from '@/lib/supabase/service'
+import { uploadFile } from '@/lib/r2'
+import { CanvaAPIClient } from '@/lib/canva/api-client'
+import { CanvaOAuth } from '@/lib/canva/oauth'
+import { CANVA_API_CONFIG } from '@/lib/canva/api-config'
+import { addEnhancementJob } from '../queues'
+
+export const createCanvaSyncWorker = () => {
+  const worker = new Worker<CanvaSyncJobData, JobResult>(
+    QUEUE_NAMES.CANVA_SYNC,
+    async (job: Job<CanvaSyncJobData>) => {
+      const startTime = Date.now()
+      const {
+        linkedDesignId,
+        userId,
+        designId,
+        previousDocumentId,
+        version,
+        updatedAt
+      } = job.data
+
+      // Workers have no user session; every query below is scoped to userId
+      const supabase = createServiceClient()
+
+      try {
+        await job.updateProgress({
+          stage: 'exporting',
+          progress: 10,
+          message: 'Exporting updated design from Canva',
+        } as JobProgress)
+
+        const token = await CanvaOAuth.getStoredToken(userId, supabase)
+        if (!token) {
+          throw new Error('Canva account is not connected')
+        }
+
+        // Re-export the edited design, the same way it was first imported
+        const client = new CanvaAPIClient(token)
+        const format = CANVA_API_CONFIG.export.defaultFormat
+        const exportResponse = await client.exportDesign(designId, {
+          format,
+          quality: 'print',
+        })
+        const [exportUrl] = await client.waitForExport(designId, exportResponse.job.id)
+        if (!exportUrl) {
+          throw new Error('No export URLs returned')
+        }
+
+        const downloadResponse = await fetch(exportUrl)
+        if (!downloadResponse.ok) {
+          throw new Error('Failed to download exported file')
+        }
+        const buffer = Buffer.from(await downloadResponse.arrayBuffer())
+
+        await job.updateProgress({
+          stage: 'uploading',
+          progress: 40,
+          message: 'Saving new version',
+        } as JobProgress)
+
+        const { key, url } = await uploadFile({
+          file: buffer,
+          userId,
+          filename: `${designId}-v${version}.${format}`,
+          folder: 'ORIGINAL',
+          contentType: `image/${format}`
+        })
+
+        // The new version inherits the title and settings of the one it replaces
+        const { data: previous } = await supabase
+          .from('documents')
+          .select('title, metadata')
+          .eq('id', previousDocumentId)
+          .single()
+
+        const { data: lastEnhancement } = await supabase
+          .from('enhancements')
+          .select('settings')
+          .eq('document_id', previousDocumentId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        const { data: document, error: docError } = await supabase
+          .from('documents')
+          .insert({
+            user_id: userId,
+            title: previous?.title || `Canva Import - ${designId}`,
+            file_path: key,
+            file_url: url,
+            file_type: `image/${format}`,
+            file_size: buffer.length,
+            status: 'uploaded',
+            metadata: {
+              ...(previous?.metadata || {}),
+              source: 'canva',
+              designId,
+              importMethod: 'sync',
+              version,
+              previousDocumentId,
+              canvaUpdatedAt: updatedAt,
+            },
+          })
+          .select()
+          .single()
+
+        if (docError || !document) {
+          throw new Error(`Failed to create document version: ${docError?.message}`)
+        }
+
+        await job.updateProgress({
+          stage: 'queueing',
+          progress: 70,
+          message: 'Queueing re-enhancement',
+        } as JobProgress)
+
+        const enhancementSettings: EnhancementJobData['enhancementSettings'] =
+          lastEnhancement?.settings || {}
+
+        const { data: enhancement, error: enhError } = await supabase
+          .from('enhancements')
+          .insert({
+            document_id: document.id,
+            user_id: userId,
+            status: 'pending',
+            settings: enhancementSettings,
+            metadata: { source: 'canva-sync', version, previousDocumentId },
+          })
+          .select()
+          .single()
+
+        if (enhError || !enhancement) {
+          throw new Error(`Failed to create enhancement: ${enhError?.message}`)
+        }
+
+        const { data: profile } = await supabase
+          .from('user_profiles')
+          .select('subscription_tier')
+          .eq('id', userId)
+          .single()
+
+        await addEnhancementJob({
+          documentId: document.id,
+          enhancementId: enhancement.id,
+          userId,
+          analysisResults: {
+            colors: {},
+            typography: {},
+            layout: {},
+            content: {},
+            quality: {}
+          },
+          enhancementSettings,
+          subscriptionTier: profile?.subscription_tier || 'free',
+        })
+
+        // The link now follows the newest version
+        await supabase
+          .from('canva_linked_designs')
+          .update({
+            document_id: document.id,
+            version,
+            canva_updated_at: updatedAt,
+            status: 'idle',
+            last_error: null,
+            last_synced_at: new Date().toISOString(),
+          })
+          .eq('id', linkedDesignId)
+
+        await job.updateProgress({
+          stage: 'completed',
+          progress: 100,
+          message: 'Design synced',
+        } as JobProgress)
+
+        return {
+          success: true,
+          data: {
+            documentId: document.id,
+            enhancementId: enhancement.id,
+            version,
+          },
+          metadata: {
+            processingTime: Date.now() - startTime,
+          },
+        }
+      } catch (error) {
+        console.error('Canva sync job failed:', error)
+
+        // Leave canva_updated_at untouched so the next poll retries the edit
+        if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+          await supabase
+            .from('canva_linked_designs')
+            .update({
+              status: 'error',
+              last_error: error instanceof Error ? error.message : 'Sync failed',
+            })
+            .eq('id', linkedDesignId)
+        }
+
+        throw error
+      }
+    },
+    {
+      connection: getQueueConnection(),
+      concurrency: 2,
+    }
+  )
+
+  worker.on('completed', (job) => {
+    console.log(`Canva sync job ${job.id} completed`)
+  })
+
+  worker.on('failed', (job, err) => {
+    console.error(`Canva sync job ${job?.id} failed:`, err)
+  })
+
+  return worker
+}
@@ -2,6 +2,9 @@ import { Worker, Job } from 'bullmq'
 import { getQueueConnection, QUEUE_NAMES } from '../config'
 import type { EmailJobData, JobResult } from '../types'
 import { Resend } from 'resend'
+import { render } from '@react-email/render'
+import WeeklyDigestEmail from '@/lib/email/templates/weekly-digest'
+import type { WeeklyDigestData } from '@/lib/email/types'
 
 // Initialize Resend client (you'll need to add RESEND_API_KEY to env)
 const resend = new Resend(process.env.RESEND_API_KEY)
@@ -16,6 +19,7 @@ interface EmailTemplateData {
   downloadUrl?: string
   errorMessage?: string
   dashboardUrl?: string
+  digest?: WeeklyDigestData
 }
 
 const emailTemplates = {
@@ -77,6 +81,11 @@ const emailTemplates = {
       <p>Best regards,<br>The Canva Beautifying Team</p>
     `,
   }),
+
+  'weekly-digest': async (data: EmailTemplateData) => ({
+    subject: 'Your week on BeautifyAI',
+    html: await render(WeeklyDigestEmail(data.digest as WeeklyDigestData)),
+  }),
 }
 
 export const createEmailWorker = () => {
@@ -92,7 +101,7 @@ export const createEmailWorker = () => {
           throw new Error(`Unknown email template: ${template}`)
         }
 
-        const { subject, html } = emailTemplate(data)
+        const { subject, html } = await emailTemplate(data)
 
         // Send email using Resend
         const { data: emailData, error } = await resend.emails.send({
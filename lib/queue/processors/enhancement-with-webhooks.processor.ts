@@ -16,6 +16,7 @@ export const createEnhancementWorker = () => {
       const { 
         documentId, 
         userId, 
+        organizationId,
         analysisResults, 
         enhancementSettings, 
         subscriptionTier 
@@ -32,7 +33,8 @@ export const createEnhancementWorker = () => {
             status: 'processing',
             progress: 0,
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
 
         // Update progress: Starting
@@ -54,7 +56,8 @@ export const createEnhancementWorker = () => {
             stage: 'initializing',
             message: 'Initializing enhancement engine',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
 
         // Initialize enhancement engine
@@ -93,7 +96,8 @@ export const createEnhancementWorker = () => {
             stage: 'strategy',
             message: 'Generating enhancement strategy',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const strategy = await engine.generateStrategy(analysisResults, enhancementSettings)
@@ -116,7 +120,8 @@ export const createEnhancementWorker = () => {
             stage: 'colors',
             message: 'Optimizing color palette',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const colorEnhancements = await engine.enhanceColors(
@@ -142,7 +147,8 @@ export const createEnhancementWorker = () => {
             stage: 'typography',
             message: 'Improving typography',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const typographyEnhancements = await engine.enhanceTypography(
@@ -168,7 +174,8 @@ export const createEnhancementWorker = () => {
             stage: 'layout',
             message: 'Restructuring layout',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const layoutEnhancements = await engine.enhanceLayout(
@@ -194,7 +201,8 @@ export const createEnhancementWorker = () => {
             stage: 'backgrounds',
             message: 'Generating backgrounds',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const backgroundEnhancements = await engine.generateBackgrounds(
@@ -219,7 +227,8 @@ export const createEnhancementWorker = () => {
             stage: 'decorations',
             message: 'Adding decorative elements',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const decorativeEnhancements = await engine.addDecorativeElements(
@@ -244,7 +253,8 @@ export const createEnhancementWorker = () => {
             stage: 'combining',
             message: 'Combining enhancements',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const enhancedDocument = await engine.combineEnhancements({
@@ -274,7 +284,8 @@ export const createEnhancementWorker = () => {
             stage: 'uploading',
             message: 'Saving enhanced document',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         const enhancedFileKey = `enhanced/${userId}/${documentId}/${Date.now()}.${document.type.split('/')[1]}`
@@ -335,7 +346,8 @@ export const createEnhancementWorker = () => {
             stage: 'queueing-export',
             message: 'Preparing for export',
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
         
         await addExportJob({
@@ -379,7 +391,8 @@ export const createEnhancementWorker = () => {
               }
             },
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
 
         return {
@@ -438,7 +451,8 @@ export const createEnhancementWorker = () => {
               }
             },
             timestamp: new Date().toISOString()
-          }
+          },
+          organizationId
         )
 
         return {
@@ -2,11 +2,17 @@ import { Worker, Job } from 'bullmq'
 import { getQueueConnection, QUEUE_NAMES } from '../config'
 import type { EnhancementJobData, JobResult, JobProgress } from '../types'
 import { createClient } from '@/lib/supabase/server'
-import { uploadToR2 } from '@/lib/r2/client'
 import { EnhancementEngine } from '@/lib/enhancement/enhancement-engine'
 import { addExportJob } from '../queues'
-import { pipelineTracer, activateJobTraceContext } from '@/lib/observability/enhancement-pipeline'
+import { documentCache } from '@/lib/cache/init'
+import {
+  pipelineTracer,
+  activateJobTraceContext,
+  PipelineStage as TracedStage,
+} from '@/lib/observability/enhancement-pipeline'
 import { recordPipelineEvent } from '@/lib/observability/tracing'
+import { PipelineCancelledError, throwIfCancelled } from '@/lib/enhancement/pipeline/cancellation'
+import { watchCancellation, clearCancellation } from '../cancellation'
 
 export const createEnhancementWorker = () => {
   const worker = new Worker<EnhancementJobData, JobResult>(
@@ -17,9 +23,10 @@ export const createEnhancementWorker = () => {
         documentId, 
         enhancementId,
         userId, 
-        analysisResults, 
+        organizationId,
         enhancementSettings, 
-        subscriptionTier 
+        subscriptionTier,
+        bypassCache
       } = job.data
 
       // Extract and activate trace context from job data
@@ -30,9 +37,18 @@ export const createEnhancementWorker = () => {
         pipelineTracer.trackQueueJob(job, QUEUE_NAMES.ENHANCEMENT)
       }
 
+      // Cancel requests arrive through Redis; the pipeline stages check the
+      // signal and remove what they uploaded when it fires
+      const cancellation = await watchCancellation(enhancementId || documentId)
+      const { signal } = cancellation
+      const reportProgress = async (progress: JobProgress) => {
+        throwIfCancelled(signal)
+        await job.updateProgress(progress)
+      }
+
       try {
         // Update progress: Starting
-        await job.updateProgress({
+        await reportProgress({
           stage: 'initializing',
           progress: 5,
           message: 'Initializing enhancement engine',
@@ -56,119 +72,47 @@ export const createEnhancementWorker = () => {
           throw new Error('Document not found')
         }
 
-        // Generate enhancement strategy with tracing
-        await job.updateProgress({
-          stage: 'strategy',
-          progress: 15,
-          message: 'Generating enhancement strategy',
+        await reportProgress({
+          stage: 'enhancing',
+          progress: 10,
+          message: 'Running enhancement pipeline',
         } as JobProgress)
-        
-        const strategy = await pipelineTracer.trackStage(
+
+        // BullMQ retries continue the failed run from the stage that failed
+        const composition = await pipelineTracer.trackStage(
           enhancementId || documentId,
-          'analysis' as any,
+          TracedStage.ENHANCEMENT,
           async () => {
-            recordPipelineEvent('strategy.generation.started', {
+            recordPipelineEvent('pipeline.started', {
               model: enhancementSettings.aiModel,
-              settings: enhancementSettings,
+              attempt: job.attemptsMade + 1,
             })
             
-            const result = await engine.generateStrategy(analysisResults, enhancementSettings)
+            const result = await engine.enhance(
+              documentId,
+              userId,
+              document.file_url,
+              document.file_type,
+              enhancementSettings,
+              { signal, resume: job.attemptsMade > 0, organizationId, bypassCache }
+            )
             
-            recordPipelineEvent('strategy.generation.completed', {
-              strategyType: result.type,
-              improvements: Object.keys(result),
+            recordPipelineEvent('pipeline.completed', {
+              appliedEnhancements: result.appliedEnhancements.length,
             })
             
             return result
           },
           {
-            analysisResults: JSON.stringify(analysisResults),
+            settings: JSON.stringify(enhancementSettings),
           }
         )
 
-        // Apply color enhancements
-        await job.updateProgress({
-          stage: 'colors',
-          progress: 25,
-          message: 'Optimizing color palette',
-        } as JobProgress)
-        
-        const colorEnhancements = await engine.enhanceColors(
-          document.file_url,
-          strategy.colorStrategy
-        )
-
-        // Apply typography enhancements
-        await job.updateProgress({
-          stage: 'typography',
-          progress: 40,
-          message: 'Improving typography',
-        } as JobProgress)
-        
-        const typographyEnhancements = await engine.enhanceTypography(
-          document.file_url,
-          strategy.typographyStrategy
-        )
-
-        // Apply layout enhancements
-        await job.updateProgress({
-          stage: 'layout',
-          progress: 55,
-          message: 'Restructuring layout',
-        } as JobProgress)
-        
-        const layoutEnhancements = await engine.enhanceLayout(
-          document.file_url,
-          strategy.layoutStrategy
-        )
-
-        // Generate backgrounds if needed
-        await job.updateProgress({
-          stage: 'backgrounds',
-          progress: 70,
-          message: 'Generating backgrounds',
-        } as JobProgress)
-        
-        const backgroundEnhancements = await engine.generateBackgrounds(
-          strategy.backgroundStrategy
-        )
-
-        // Add decorative elements
-        await job.updateProgress({
-          stage: 'decorations',
-          progress: 80,
-          message: 'Adding decorative elements',
-        } as JobProgress)
-        
-        const decorativeEnhancements = await engine.addDecorativeElements(
-          strategy.decorativeStrategy
-        )
-
-        // Combine all enhancements
-        await job.updateProgress({
-          stage: 'combining',
-          progress: 85,
-          message: 'Combining enhancements',
-        } as JobProgress)
-        
-        const enhancedDocument = await engine.combineEnhancements({
-          original: document.file_url,
-          colors: colorEnhancements,
-          typography: typographyEnhancements,
-          layout: layoutEnhancements,
-          backgrounds: backgroundEnhancements,
-          decorations: decorativeEnhancements,
-        })
-
-        // Upload enhanced document
-        await job.updateProgress({
-          stage: 'uploading',
-          progress: 90,
-          message: 'Saving enhanced document',
-        } as JobProgress)
-        
-        const enhancedFileKey = `enhanced/${userId}/${documentId}/${Date.now()}.${document.file_type}`
-        const enhancedFileUrl = await uploadToR2(enhancedDocument.buffer, enhancedFileKey)
+        // Composition has uploaded the files; past this point the run is
+        // kept even if a cancel arrives
+        const enhancedFileUrl = composition.enhancedFileUrl
+        const { before, after } = composition.improvements.overallScore
+        const qualityImprovement = after - before
 
         // Save enhancement record
         const { data: enhancement, error: enhanceError } = await supabase
@@ -178,8 +122,8 @@ export const createEnhancementWorker = () => {
             user_id: userId,
             enhanced_file_url: enhancedFileUrl,
             enhancement_settings: enhancementSettings,
-            enhancement_strategy: strategy,
-            quality_improvement: enhancedDocument.qualityImprovement,
+            enhancement_strategy: { appliedEnhancements: composition.appliedEnhancements },
+            quality_improvement: qualityImprovement,
             processing_time: Date.now() - startTime,
             ai_tokens_used: engine.getTokensUsed(),
           })
@@ -199,6 +143,17 @@ export const createEnhancementWorker = () => {
           })
           .eq('id', documentId)
 
+        // Let repeat uploads of this document be served from cache
+        try {
+          await documentCache.recordResult(documentId, {
+            enhancementId: enhancementId || enhancement.id,
+            enhancedUrl: enhancedFileUrl,
+            improvements: qualityImprovement,
+          })
+        } catch (cacheError) {
+          console.error('Failed to cache enhancement result:', cacheError)
+        }
+
         // Automatically queue export job
         await job.updateProgress({
           stage: 'queueing-export',
@@ -225,7 +180,7 @@ export const createEnhancementWorker = () => {
         if (enhancementId && pipelineTracer.isActive(enhancementId)) {
           pipelineTracer.completePipeline(enhancementId, 'success', {
             enhancedFileUrl,
-            qualityImprovement: enhancedDocument.qualityImprovement,
+            qualityImprovement,
             aiTokensUsed: engine.getTokensUsed(),
           })
         }
@@ -236,7 +191,7 @@ export const createEnhancementWorker = () => {
             documentId,
             enhancementId: enhancement.id,
             enhancedFileUrl,
-            qualityImprovement: enhancedDocument.qualityImprovement,
+            qualityImprovement,
           },
           metadata: {
             processingTime: Date.now() - startTime,
@@ -245,6 +200,10 @@ export const createEnhancementWorker = () => {
           },
         }
       } catch (error) {
+        if (signal.aborted || error instanceof PipelineCancelledError) {
+          return await handleCancelledJob(job, startTime)
+        }
+
         console.error('Enhancement error:', error)
         
         // Update document status to failed
@@ -277,6 +236,8 @@ export const createEnhancementWorker = () => {
             traceId: pipelineTracer.getTraceId(enhancementId || documentId),
           },
         }
+      } finally {
+        cancellation.stop()
       }
     },
     {
@@ -299,4 +260,34 @@ export const createEnhancementWorker = () => {
   })
 
   return worker
-}
\ No newline at end of file
+}
+
+/**
+ * The cancel request has already marked the enhancement cancelled and
+ * refunded it, and the pipeline has removed what its stages uploaded.
+ * Returning rather than throwing keeps BullMQ from retrying the job.
+ */
+const handleCancelledJob = async (
+  job: Job<EnhancementJobData>,
+  startTime: number
+): Promise<JobResult> => {
+  const { documentId, enhancementId } = job.data
+  console.log(`Enhancement job ${job.id} cancelled`)
+
+  await clearCancellation(enhancementId || documentId)
+
+  if (enhancementId && pipelineTracer.isActive(enhancementId)) {
+    pipelineTracer.completePipeline(enhancementId, 'cancelled')
+  }
+
+  return {
+    success: false,
+    error: {
+      message: 'Enhancement cancelled',
+      code: 'CANCELLED',
+    },
+    metadata: {
+      processingTime: Date.now() - startTime,
+    },
+  }
+}
@@ -2,8 +2,10 @@ import { Worker, Job } from 'bullmq'
 import { getQueueConnection, QUEUE_NAMES } from '../config'
 import type { ExportJobData, JobResult, JobProgress } from '../types'
 import { createClient } from '@/lib/supabase/server'
-import { downloadFromR2, uploadToR2 } from '@/lib/r2/client'
+import { downloadDocument, uploadFile } from '@/lib/r2'
 import { DocumentExporter } from '@/lib/export/document-exporter'
+import type { PreflightReport } from '@/lib/export/types'
+import type { TextRegion } from '@/lib/enhancement/pipeline/types'
 import { addEmailJob } from '../queues'
 
 export const createExportWorker = () => {
@@ -29,7 +31,7 @@ export const createExportWorker = () => {
         } as JobProgress)
 
         // Get enhancement details
-        const supabase = createClient()
+        const supabase = await createClient()
         const { data: enhancement, error: enhanceError } = await supabase
           .from('enhancements')
           .select('*, documents(*)')
@@ -47,7 +49,7 @@ export const createExportWorker = () => {
           message: 'Loading enhanced document',
         } as JobProgress)
         
-        const enhancedFileBuffer = await downloadFromR2(enhancement.enhanced_file_url)
+        const enhancedFileBuffer = await downloadDocument(enhancement.enhanced_file_url)
 
         // Initialize exporter
         const exporter = new DocumentExporter({
@@ -59,6 +61,7 @@ export const createExportWorker = () => {
         let exportedFile: Buffer
         let mimeType: string
         let fileExtension: string
+        let preflight: PreflightReport | undefined
 
         await job.updateProgress({
           stage: 'exporting',
@@ -68,10 +71,30 @@ export const createExportWorker = () => {
 
         switch (exportFormat) {
           case 'pdf':
-            exportedFile = await exporter.exportToPDF(
-              enhancedFileBuffer,
-              exportSettings?.quality || 'standard'
-            )
+            if (exportSettings?.quality === 'print') {
+              // Preflight checks the OCR'd text for type too small or thin to print
+              const { data: pipeline } = await supabase
+                .from('enhancement_pipelines')
+                .select('metadata')
+                .eq('document_id', documentId)
+                .order('created_at', { ascending: false })
+                .limit(1)
+                .maybeSingle()
+
+              const printed = await exporter.exportToPrintPDF(
+                enhancedFileBuffer,
+                enhancement.documents.title || 'Untitled',
+                exportSettings.print,
+                { textRegions: pipeline?.metadata?.extractedText?.regions }
+              )
+              exportedFile = printed.buffer
+              preflight = printed.preflight
+            } else {
+              exportedFile = await exporter.exportToPDF(
+                enhancedFileBuffer,
+                exportSettings?.quality || 'standard'
+              )
+            }
             mimeType = 'application/pdf'
             fileExtension = 'pdf'
             break
@@ -94,14 +117,48 @@ export const createExportWorker = () => {
             fileExtension = 'canva'
             break
 
-          case 'pptx':
+          case 'pptx': {
+            let textRegions: TextRegion[] | undefined
+            if (exportSettings?.editableText) {
+              // OCR output from the latest pipeline run locates the text
+              const { data: pipeline } = await supabase
+                .from('enhancement_pipelines')
+                .select('metadata')
+                .eq('document_id', documentId)
+                .order('created_at', { ascending: false })
+                .limit(1)
+                .maybeSingle()
+              textRegions = pipeline?.metadata?.extractedText?.regions
+            }
+
             exportedFile = await exporter.exportToPPTX(
               enhancedFileBuffer,
-              enhancement.documents.title || 'Untitled'
+              enhancement.documents.title || 'Untitled',
+              { textRegions }
             )
             mimeType = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
             fileExtension = 'pptx'
             break
+          }
+
+          case 'svg': {
+            // Composition stores a layered SVG alongside the flattened file
+            const { data: pipeline } = await supabase
+              .from('enhancement_pipelines')
+              .select('metadata')
+              .eq('document_id', documentId)
+              .order('created_at', { ascending: false })
+              .limit(1)
+              .maybeSingle()
+            const layeredFileUrl: string | undefined = pipeline?.metadata?.layeredFileUrl
+
+            exportedFile = await exporter.exportToSVG(enhancedFileBuffer, {
+              layeredSvg: layeredFileUrl ? await downloadDocument(layeredFileUrl) : undefined
+            })
+            mimeType = 'image/svg+xml'
+            fileExtension = 'svg'
+            break
+          }
 
           default:
             throw new Error(`Unsupported export format: ${exportFormat}`)
@@ -125,8 +182,13 @@ export const createExportWorker = () => {
           message: 'Saving exported file',
         } as JobProgress)
         
-        const exportFileKey = `exports/${userId}/${documentId}/${Date.now()}.${fileExtension}`
-        const exportFileUrl = await uploadToR2(exportedFile, exportFileKey)
+        const { url: exportFileUrl } = await uploadFile({
+          file: exportedFile,
+          userId,
+          filename: `${documentId}-export.${fileExtension}`,
+          folder: 'ENHANCED',
+          contentType: mimeType,
+        })
 
         // Save export record
         const { data: exportRecord, error: exportError } = await supabase
@@ -197,6 +259,7 @@ export const createExportWorker = () => {
             exportFileUrl,
             fileSize: exportedFile.length,
             mimeType,
+            preflight,
           },
           metadata: {
             processingTime: Date.now() - startTime,
@@ -206,7 +269,7 @@ export const createExportWorker = () => {
         console.error('Export error:', error)
         
         // Update document status to failed
-        const supabase = createClient()
+        const supabase = await createClient()
         await supabase
           .from('documents')
           .update({ 
@@ -3,6 +3,7 @@ import { createEnhancementWorker } from './enhancement.processor'
 import { createExportWorker } from './export.processor'
 import { createEmailWorker } from './email.processor'
 import { createBetaEmailWorker } from './beta-email.processor'
+import { createCanvaSyncWorker } from './canva-sync.processor'
 
 // Store worker instances
 let workers: {
@@ -11,6 +12,7 @@ let workers: {
   export?: ReturnType<typeof createExportWorker>
   email?: ReturnType<typeof createEmailWorker>
   betaEmail?: ReturnType<typeof createBetaEmailWorker>
+  canvaSync?: ReturnType<typeof createCanvaSyncWorker>
 } = {}
 
 // Start all workers
@@ -24,6 +26,7 @@ export const startWorkers = async () => {
     workers.export = createExportWorker()
     workers.email = createEmailWorker()
     workers.betaEmail = createBetaEmailWorker()
+    workers.canvaSync = createCanvaSyncWorker()
     
     console.log('All queue workers started successfully')
   } catch (error) {
@@ -53,6 +56,9 @@ export const stopWorkers = async () => {
   if (workers.betaEmail) {
     closePromises.push(workers.betaEmail.close())
   }
+  if (workers.canvaSync) {
+    closePromises.push(workers.canvaSync.close())
+  }
   
   await Promise.all(closePromises)
   workers = {}
@@ -79,6 +85,9 @@ export const pauseWorkers = async () => {
   if (workers.betaEmail) {
     pausePromises.push(workers.betaEmail.pause())
   }
+  if (workers.canvaSync) {
+    pausePromises.push(workers.canvaSync.pause())
+  }
   
   await Promise.all(pausePromises)
   console.log('All queue workers paused')
@@ -103,6 +112,9 @@ export const resumeWorkers = async () => {
   if (workers.betaEmail) {
     resumePromises.push(workers.betaEmail.resume())
   }
+  if (workers.canvaSync) {
+    resumePromises.push(workers.canvaSync.resume())
+  }
   
   await Promise.all(resumePromises)
   console.log('All queue workers resumed')
@@ -116,5 +128,6 @@ export const getWorkerStatus = () => {
     export: workers.export ? 'running' : 'stopped',
     email: workers.email ? 'running' : 'stopped',
     betaEmail: workers.betaEmail ? 'running' : 'stopped',
+    canvaSync: workers.canvaSync ? 'running' : 'stopped',
   }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import type {
   EnhancementJobData,
   ExportJobData,
   EmailJobData,
+  CanvaSyncJobData,
   JobProgress
 } from './types'
 
@@ -47,6 +48,14 @@ export const emailQueue = new Queue<EmailJobData>(
   }
 )
 
+export const canvaSyncQueue = new Queue<CanvaSyncJobData>(
+  QUEUE_NAMES.CANVA_SYNC,
+  {
+    connection: getQueueConnection(),
+    defaultJobOptions: DEFAULT_JOB_OPTIONS,
+  }
+)
+
 // Create queue event listeners for monitoring
 export const documentAnalysisQueueEvents = new QueueEvents(QUEUE_NAMES.DOCUMENT_ANALYSIS, {
   connection: getQueueConnection(),
@@ -138,6 +147,37 @@ export const addEmailJob = async (data: EmailJobData) => {
   )
 }
 
+// Queues many emails in one round trip, e.g. a scheduled send to every
+// opted-in user
+export const addEmailJobs = async (jobs: EmailJobData[]) => {
+  return await emailQueue.addBulk(jobs.map(data => ({
+    name: `email-${data.template}`,
+    data,
+    opts: {
+      priority: data.priority ?? PRIORITY_LEVELS.NORMAL,
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+    },
+  })))
+}
+
+export const addCanvaSyncJob = async (data: CanvaSyncJobData) => {
+  return await canvaSyncQueue.add(
+    `canva-sync-${data.designId}`,
+    data,
+    {
+      // One job per Canva edit, however often the poller sees it
+      jobId: `canva-sync-${data.linkedDesignId}-${new Date(data.updatedAt).getTime()}`,
+      priority: PRIORITY_LEVELS.LOW,
+      removeOnComplete: true,
+      removeOnFail: false,
+    }
+  )
+}
+
 // Helper function to update job progress
 export const updateJobProgress = async (
   queue: Queue,
@@ -1,3 +1,5 @@
+import type { PrintSettings } from '@/lib/export/types'
+
 // Job data types for each queue
 
 export interface DocumentAnalysisJobData {
@@ -12,7 +14,9 @@ export interface DocumentAnalysisJobData {
 
 export interface EnhancementJobData {
   documentId: string
+  enhancementId?: string
   userId: string
+  organizationId?: string // shared document; credits and webhooks go to the organization
   analysisResults: {
     colors: Record<string, unknown>
     typography: Record<string, unknown>
@@ -28,26 +32,38 @@ export interface EnhancementJobData {
   }
   subscriptionTier: 'free' | 'basic' | 'pro' | 'premium'
   priority?: number
+  bypassCache?: boolean // re-run analysis even if this content was analysed before
 }
 
 export interface ExportJobData {
   documentId: string
   userId: string
   enhancementId: string
-  exportFormat: 'png' | 'pdf' | 'canva' | 'pptx'
+  exportFormat: 'png' | 'pdf' | 'canva' | 'pptx' | 'svg'
   exportSettings?: {
     quality?: 'standard' | 'high' | 'print'
     includeReport?: boolean
     watermark?: boolean
+    editableText?: boolean // PPTX only
+    print?: PrintSettings // PDF at 'print' quality only
   }
   subscriptionTier: 'free' | 'basic' | 'pro' | 'premium'
   priority?: number
 }
 
+export interface CanvaSyncJobData {
+  linkedDesignId: string
+  userId: string
+  designId: string
+  previousDocumentId: string
+  version: number // version the synced document will become
+  updatedAt: string // Canva's updated_at for the edit being synced
+}
+
 export interface EmailJobData {
   to: string
   subject: string
-  template: 'enhancement-complete' | 'export-ready' | 'error-notification' | 'welcome'
+  template: 'enhancement-complete' | 'export-ready' | 'error-notification' | 'welcome' | 'weekly-digest'
   data: Record<string, unknown>
   priority?: number
 }
@@ -24,6 +24,22 @@ export async function downloadFile(key: string): Promise<Buffer> {
   return Buffer.concat(chunks)
 }
 
+/**
+ * Fetches a document given either an R2 key or an absolute URL (public
+ * bucket URLs, signed URLs, or third-party asset URLs).
+ */
+export async function downloadDocument(source: string): Promise<Buffer> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source)
+    if (!response.ok) {
+      throw new Error(`Failed to download document: ${response.status} ${response.statusText}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  return downloadFile(source)
+}
+
 export async function getDownloadUrl(
   key: string,
   expiresIn: number = 3600,
@@ -1,4 +1,4 @@
 export { r2Client, R2_BUCKET_NAME, R2_FOLDERS, getR2Key } from "./client"
 export { uploadFile, generateSignedUrl, deleteFile, deleteFiles } from "./upload"
-export { downloadFile, getDownloadUrl, getFileMetadata } from "./download"
+export { downloadFile, downloadDocument, getDownloadUrl, getFileMetadata } from "./download"
 export type { R2FileMetadata, R2File, UploadResult, DownloadResult } from "./types"
\ No newline at end of file
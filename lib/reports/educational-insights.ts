@@ -1,5 +1,7 @@
 import { EducationalInsight } from './types'
 import { AppliedEnhancement } from './types'
+import { GRADE_BANDS } from '@/lib/analysis/analyzers/readability'
+import { ReadingLevel, ReadingSuggestion } from '@/lib/analysis/types'
 
 export class EducationalInsightsGenerator {
   private insights: Map<string, EducationalInsight[]> = new Map()
@@ -172,7 +174,8 @@ export class EducationalInsightsGenerator {
 
   generateInsights(
     appliedEnhancements: AppliedEnhancement[],
-    targetAudience: string
+    targetAudience: string,
+    readingLevel?: ReadingLevel
   ): EducationalInsight[] {
     const relevantInsights: EducationalInsight[] = []
     const categories = new Set<string>()
@@ -200,8 +203,72 @@ export class EducationalInsightsGenerator {
     const generalInsights = this.insights.get('general') || []
     relevantInsights.push(...this.selectGeneralInsights(generalInsights, targetAudience))
 
-    // Limit to reasonable number
-    return relevantInsights.slice(0, 8)
+    // Limit to reasonable number; the document's own reading level comes first
+    const readingInsights = readingLevel ? this.generateReadingLevelInsights(readingLevel) : []
+    return [...readingInsights, ...relevantInsights.slice(0, 8)]
+  }
+
+  generateReadingLevelInsights(readingLevel: ReadingLevel): EducationalInsight[] {
+    const band = readingLevel.target && GRADE_BANDS[readingLevel.target.gradeLevel]
+    const lexile = readingLevel.lexile <= 0 ? 'BR' : `${readingLevel.lexile}L`
+    const grade = readingLevel.grade < 1 ? 'K' : String(Math.round(readingLevel.grade))
+    
+    const fitTips: Record<NonNullable<ReadingLevel['target']>['fit'], string> = {
+      'above': 'Shorten sentences and swap hard words for everyday ones until it reads within the band',
+      'on-target': 'Keep new vocabulary to a few words per page and introduce them before students meet them',
+      'below': 'The text may be easier than your class needs; richer vocabulary can stretch stronger readers'
+    }
+    const fitPlaces: Record<NonNullable<ReadingLevel['target']>['fit'], string> = {
+      'above': 'above',
+      'on-target': 'within',
+      'below': 'below'
+    }
+    const fit = readingLevel.target && band
+      ? ` That is ${fitPlaces[readingLevel.target.fit]} the ${band.label} band.`
+      : ''
+    
+    const insights: EducationalInsight[] = [{
+      id: 'reading-level',
+      category: 'readability',
+      title: `Reading Level: Grade ${grade}`,
+      description: `Flesch-Kincaid grade ${readingLevel.fleschKincaid}, Dale-Chall ${readingLevel.daleChall} ` +
+        `and a Lexile-style estimate of ${lexile}, over ${readingLevel.words} words.${fit}`,
+      tip: readingLevel.target
+        ? fitTips[readingLevel.target.fit]
+        : 'Pick a grade level when enhancing to check the text against your students',
+      difficulty: 'beginner'
+    }]
+    
+    const suggestionInsights: Record<Exclude<ReadingSuggestion['kind'], 'grade-level'>, { title: string; tip: string }> = {
+      'long-sentence': {
+        title: 'Long Sentences',
+        tip: 'Break instructions into numbered steps with one action each'
+      },
+      'hard-word': {
+        title: 'Hard Words',
+        tip: 'A word bank at the top of the page lets students look words up without leaving the task'
+      },
+      'small-font': {
+        title: 'Text Too Small for the Age',
+        tip: 'Younger readers need larger type; increase body text before adding more content to the page'
+      }
+    }
+    
+    for (const suggestion of readingLevel.suggestions) {
+      if (suggestion.kind === 'grade-level') continue
+      const { title, tip } = suggestionInsights[suggestion.kind]
+      insights.push({
+        id: `reading-${suggestion.kind}`,
+        category: 'readability',
+        title,
+        description: suggestion.message,
+        tip,
+        examples: suggestion.examples,
+        difficulty: 'beginner'
+      })
+    }
+    
+    return insights
   }
 
   private selectRelevantInsights(
@@ -394,6 +394,20 @@ export class PDFReportGenerator {
         yPosition -= 15
       })
 
+      // Examples from the document
+      insight.examples?.slice(0, 3).forEach(example => {
+        this.wrapText(`• ${example}`, 70).forEach(line => {
+          page.drawText(line, {
+            x: 60,
+            y: yPosition,
+            size: 9,
+            font: helvetica,
+            color: this.colors.gray
+          })
+          yPosition -= 13
+        })
+      })
+
       // Tip
       page.drawText('💡 Tip:', {
         x: 50,
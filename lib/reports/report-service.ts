@@ -57,7 +57,8 @@ export class ReportService {
     // Generate educational insights
     const insights = this.insightsGenerator.generateInsights(
       enhancements.applied,
-      engagement.audienceImpact.targetAudience
+      engagement.audienceImpact.targetAudience,
+      options.readingLevel
     )
     
     // Create report
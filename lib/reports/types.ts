@@ -1,4 +1,5 @@
 import { DocumentAnalysis } from '@/lib/ai/types'
+import { ReadingLevel } from '@/lib/analysis/types'
 import { EnhancementStrategy } from '@/lib/enhancement/types'
 
 export interface EnhancementReport {
@@ -100,6 +101,7 @@ export interface EducationalInsight {
   title: string
   description: string
   tip: string
+  examples?: string[] // taken from the document itself
   relatedEnhancement?: string
   difficulty: 'beginner' | 'intermediate' | 'advanced'
   resources?: Array<{
@@ -140,6 +142,7 @@ export interface ReportGenerationOptions {
     strategies: EnhancementStrategy[]
     appliedStrategies: string[]
   }
+  readingLevel?: ReadingLevel
   customization?: ReportCustomization
   format?: 'json' | 'pdf' | 'html'
 }
\ No newline at end of file
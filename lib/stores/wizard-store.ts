@@ -39,6 +39,7 @@ export interface WizardData {
   // Style step
   enhancementStyle: string | null;
   colorScheme: string | null;
+  brandKitId: string | null; // set when colorScheme is 'brand'
   visualComplexity: 'simple' | 'moderate' | 'detailed' | null;
   includeGraphics: boolean;
   includeCharts: boolean;
@@ -104,6 +105,7 @@ const initialData: WizardData = {
   purpose: null,
   enhancementStyle: null,
   colorScheme: null,
+  brandKitId: null,
   visualComplexity: null,
   includeGraphics: true,
   includeCharts: true,
@@ -1,6 +1,7 @@
 import { stripe, getTierByPriceId } from './config';
 import { createClient } from '@/lib/supabase/server';
 import type { Database } from '@/lib/supabase/database.types';
+import { OrganizationStore } from '@/lib/organizations/organization-store';
 
 type _User = Database['public']['Tables']['users']['Row'];
 
@@ -38,12 +39,14 @@ export async function createCheckoutSession({
   priceId,
   successUrl,
   cancelUrl,
+  organizationId,
 }: {
   userId: string;
   email: string;
   priceId: string;
   successUrl: string;
   cancelUrl: string;
+  organizationId?: string; // funds this organization's pool instead of the user's plan
 }) {
   const customerId = await createOrRetrieveCustomer(userId, email);
 
@@ -62,6 +65,7 @@ export async function createCheckoutSession({
     subscription_data: {
       metadata: {
         supabase_user_id: userId,
+        ...(organizationId && { supabase_organization_id: organizationId }),
       },
       trial_period_days: 14, // 14-day free trial
     },
@@ -187,11 +191,6 @@ export async function syncSubscriptionStatus(subscriptionId: string) {
     throw new Error('Invalid subscription price ID');
   }
 
-  const userId = subscription.metadata.supabase_user_id;
-  if (!userId) {
-    throw new Error('Subscription missing user ID metadata');
-  }
-
   let status: Database['public']['Enums']['subscription_status'];
   switch (subscription.status) {
     case 'active':
@@ -210,6 +209,22 @@ export async function syncSubscriptionStatus(subscriptionId: string) {
       status = 'cancelled';
   }
 
+  // Organization subscriptions fund the pool, not the purchaser's own plan
+  const organizationId = subscription.metadata.supabase_organization_id;
+  if (organizationId) {
+    await OrganizationStore.applySubscription(
+      organizationId,
+      tier.id as Database['public']['Enums']['subscription_tier'],
+      status === 'active' || status === 'trialing'
+    );
+    return { tier: tier.id, status };
+  }
+
+  const userId = subscription.metadata.supabase_user_id;
+  if (!userId) {
+    throw new Error('Subscription missing user ID metadata');
+  }
+
   await supabase
     .from('users')
     .update({
@@ -133,6 +133,7 @@ export interface Database {
           enhancement_id: string | null
           action: string
           credits_used: number
+          organization_id: string | null
           created_at: string
         }
         Insert: {
@@ -141,6 +142,7 @@ export interface Database {
           enhancement_id?: string | null
           action: string
           credits_used?: number
+          organization_id?: string | null
           created_at?: string
         }
         Update: {
@@ -149,6 +151,7 @@ export interface Database {
           enhancement_id?: string | null
           action?: string
           credits_used?: number
+          organization_id?: string | null
           created_at?: string
         }
       }
@@ -175,6 +178,127 @@ export interface Database {
           features?: Json
         }
       }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          subscription_tier: 'free' | 'basic' | 'pro' | 'premium'
+          monthly_credits: number
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          subscription_tier?: 'free' | 'basic' | 'pro' | 'premium'
+          monthly_credits?: number
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          subscription_tier?: 'free' | 'basic' | 'pro' | 'premium'
+          monthly_credits?: number
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          role?: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+      }
+      blocked_ips: {
+        Row: {
+          ip: string
+          reason: string
+          blocked_at: string
+          expires_at: string | null
+          metadata: Json
+        }
+        Insert: {
+          ip: string
+          reason: string
+          blocked_at?: string
+          expires_at?: string | null
+          metadata?: Json
+        }
+        Update: {
+          ip?: string
+          reason?: string
+          blocked_at?: string
+          expires_at?: string | null
+          metadata?: Json
+        }
+      }
+      security_events: {
+        Row: {
+          id: string
+          ip: string
+          event_type: string
+          metadata: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          ip: string
+          event_type: string
+          metadata?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          ip?: string
+          event_type?: string
+          metadata?: Json
+          created_at?: string
+        }
+      }
+      ip_reputation: {
+        Row: {
+          ip: string
+          score: number
+          offences: number
+          events: Json
+          last_blocked_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          ip: string
+          score?: number
+          offences?: number
+          events?: Json
+          last_blocked_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          ip?: string
+          score?: number
+          offences?: number
+          events?: Json
+          last_blocked_at?: string | null
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -186,12 +310,19 @@ export interface Database {
         }
         Returns: boolean
       }
+      check_org_usage_limit: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
       increment_usage: {
         Args: {
           p_user_id: string
           p_enhancement_id?: string
           p_action?: string
           p_credits?: number
+          p_organization_id?: string
         }
         Returns: void
       }
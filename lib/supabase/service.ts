@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+
+// Server-only client using the service role key, which bypasses RLS. Use it
+// for tables that have no user policies (IP blocks, billing fields), never
+// for reads or writes made on a user's behalf.
+export function createServiceClient() {
+  return createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
@@ -0,0 +1,36 @@
+/** @jest-environment node */
+import { getCrossedThreshold, getUpgradeUrl, getWarningThresholds } from '../limit-thresholds';
+
+describe('usage limit thresholds', () => {
+  const original = process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS;
+    } else {
+      process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS = original;
+    }
+  });
+
+  it('warns at 80% and 100% by default', () => {
+    delete process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS;
+
+    expect(getWarningThresholds()).toEqual([80, 100]);
+    expect(getCrossedThreshold(79.9)).toBeNull();
+    expect(getCrossedThreshold(85)).toBe(80);
+    expect(getCrossedThreshold(120)).toBe(100);
+  });
+
+  it('reads thresholds from the environment, ignoring bad values', () => {
+    process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS = '100, 75,abc,90,75';
+
+    expect(getWarningThresholds()).toEqual([75, 90, 100]);
+    expect(getCrossedThreshold(95)).toBe(90);
+  });
+
+  it('links upgrades to checkout for the next paid plan', () => {
+    expect(getUpgradeUrl('free', 'https://app.example.com')).toBe('https://app.example.com/app/settings/billing?upgrade=basic');
+    expect(getUpgradeUrl('pro')).toBe('/app/settings/billing?upgrade=premium');
+    expect(getUpgradeUrl('premium')).toBeNull();
+  });
+});
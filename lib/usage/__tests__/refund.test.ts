@@ -0,0 +1,122 @@
+/** @jest-environment node */
+import { NextRequest, NextResponse } from 'next/server';
+import { withUsageLimit } from '../middleware';
+import { cancelEnhancement } from '@/lib/enhancement/cancel-enhancement';
+import { createClient } from '@/lib/supabase/server';
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }));
+jest.mock('@/lib/organizations', () => ({
+  ORGANIZATION_HEADER: 'x-organization-id',
+  resolveWorkspace: jest.fn().mockResolvedValue(null),
+  canAccess: jest.fn().mockResolvedValue(true),
+}));
+jest.mock('../limit-warnings', () => ({ checkUsageWarnings: jest.fn() }));
+jest.mock('@/lib/queue/client', () => ({
+  QUEUE_NAMES: { ENHANCEMENT: 'enhancement' },
+  getQueue: () => ({ getJob: jest.fn().mockResolvedValue(null) }),
+}));
+jest.mock('@/lib/queue/cancellation', () => ({ requestCancellation: jest.fn() }));
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the charge and refund paths
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let update: Row | null = null;
+    const matching = () => (tables[table] || []).filter(row => filters.every(filter => filter(row)));
+
+    const run = () => {
+      const rows = matching();
+      if (update) rows.forEach(row => Object.assign(row, update));
+      return { data: rows, error: null };
+    };
+
+    const query = {
+      select: () => query,
+      order: () => query,
+      limit: () => query,
+      gte: () => query,
+      update: (values: Row) => {
+        update = values;
+        return query;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return query;
+      },
+      single: () => Promise.resolve({ data: run().data[0] ?? null, error: null }),
+      then: (resolve: (value: ReturnType<typeof run>) => unknown) => Promise.resolve(run()).then(resolve),
+    };
+    return query;
+  };
+
+  const rpc = async (name: string, params: Row) => {
+    if (name === 'increment_usage') {
+      tables.usage_tracking.push({
+        user_id: params.p_user_id,
+        enhancement_id: params.p_enhancement_id,
+        action: params.p_action,
+        credits_used: params.p_credits,
+        organization_id: params.p_organization_id ?? null,
+      });
+    }
+    return { data: true, error: null };
+  };
+
+  return {
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+    from,
+    rpc,
+  };
+}
+
+describe('refunds for cancelled enhancements', () => {
+  let tables: Record<string, Row[]>;
+
+  beforeEach(() => {
+    tables = {
+      users: [{ id: 'user-1', subscription_tier: 'free', usage_count: 0 }],
+      subscription_limits: [{ tier: 'free', monthly_credits: 10 }],
+      enhancements: [],
+      documents: [{ id: 'doc-1', status: 'processing' }],
+      usage_tracking: [],
+    };
+    (createClient as jest.Mock).mockImplementation(async () => createFakeSupabase(tables));
+  });
+
+  it('refunds the credit charged by the v1 enhance route when the run is cancelled', async () => {
+    const handler = withUsageLimit(
+      async () => {
+        tables.enhancements.push({
+          id: 'enh-1',
+          user_id: 'user-1',
+          organization_id: null,
+          document_id: 'doc-1',
+          status: 'pending',
+          job_id: null,
+        });
+        return NextResponse.json({ success: true, data: { id: 'enh-1' } });
+      },
+      1,
+      { getEnhancementId: (body) => (body as { data?: { id?: string } }).data?.id }
+    );
+
+    const response = await handler(new NextRequest('http://localhost/api/v1/enhance', { method: 'POST' }));
+    expect(response.status).toBe(200);
+    expect(tables.usage_tracking).toEqual([
+      expect.objectContaining({ enhancement_id: 'enh-1', credits_used: 1 }),
+    ]);
+
+    const result = await cancelEnhancement('user-1', 'enh-1');
+
+    expect(result).toMatchObject({ status: 'cancelled', refundedCredits: 1 });
+    expect(tables.usage_tracking).toContainEqual(
+      expect.objectContaining({ enhancement_id: 'enh-1', credits_used: -1 })
+    );
+  });
+});
@@ -166,4 +166,28 @@ export async function getNextResetDate(userId: string): Promise<Date | null> {
     console.error('Failed to get next reset date:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the start of a user's current billing cycle, when their usage count
+ * was last reset
+ */
+export async function getCurrentCycleStart(userId: string): Promise<Date> {
+  const supabase = await createClient();
+  const today = new Date();
+  const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('stripe_subscription_id, subscription_tier')
+    .eq('id', userId)
+    .single();
+
+  // Free tier resets on the 1st of each month
+  if (error || !user || user.subscription_tier === 'free' || !user.stripe_subscription_id) {
+    return startOfMonth;
+  }
+
+  // Paid cycles start when the daily reset check last recorded a reset
+  return (await getLastResetDate(userId)) || startOfMonth;
+}
@@ -0,0 +1,53 @@
+import { SUBSCRIPTION_TIERS, SubscriptionTier } from '@/lib/stripe/config';
+
+// Percentages of monthly credits that trigger a warning. Override with a
+// comma separated list, e.g. NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS=75,90,100
+const DEFAULT_WARNING_THRESHOLDS = [80, 100];
+
+const TIER_ORDER = [
+  SUBSCRIPTION_TIERS.FREE,
+  SUBSCRIPTION_TIERS.BASIC,
+  SUBSCRIPTION_TIERS.PRO,
+  SUBSCRIPTION_TIERS.PREMIUM,
+];
+
+/**
+ * Warning thresholds in ascending order. Read on both the server and the
+ * client, so in-app alerts agree with the emails.
+ */
+export function getWarningThresholds(): number[] {
+  const configured = (process.env.NEXT_PUBLIC_USAGE_WARNING_THRESHOLDS || '')
+    .split(',')
+    .map(value => Number(value.trim()))
+    .filter(value => Number.isFinite(value) && value > 0);
+
+  const thresholds = configured.length > 0 ? configured : DEFAULT_WARNING_THRESHOLDS;
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+/**
+ * The highest threshold reached, or null while usage is below all of them
+ */
+export function getCrossedThreshold(
+  percentageUsed: number,
+  thresholds: number[] = getWarningThresholds()
+): number | null {
+  const crossed = thresholds.filter(threshold => percentageUsed >= threshold);
+  return crossed.length > 0 ? crossed[crossed.length - 1] : null;
+}
+
+/**
+ * The next paid plan up from a tier, or null on the top plan
+ */
+export function getUpgradeTier(tier: string): SubscriptionTier | null {
+  const index = TIER_ORDER.findIndex(t => t.id === tier);
+  return TIER_ORDER.slice(index + 1).find(t => t.priceId !== null) || null;
+}
+
+/**
+ * Link to the billing page that starts Stripe checkout for the next plan up
+ */
+export function getUpgradeUrl(tier: string, baseUrl = ''): string | null {
+  const upgrade = getUpgradeTier(tier);
+  return upgrade ? `${baseUrl}/app/settings/billing?upgrade=${upgrade.id}` : null;
+}
@@ -0,0 +1,136 @@
+import { createClient } from '@/lib/supabase/server';
+import { TIER_LIMITS } from '@/lib/subscription/tier-config';
+import { getSubscriptionTier } from '@/lib/stripe/config';
+import { EmailService } from '@/lib/email/email-service';
+import { getWebSocketServer } from '@/lib/websocket/server';
+import { getCurrentCycleStart, getNextResetDate } from './billing-cycle';
+import { getCrossedThreshold, getUpgradeTier, getUpgradeUrl } from './limit-thresholds';
+
+export interface UsageWarning {
+  userId: string;
+  threshold: number;
+  usedCredits: number;
+  monthlyCredits: number;
+  percentageUsed: number;
+  upgradeUrl: string | null;
+}
+
+/**
+ * Warns a user by email and in-app notification the first time their usage
+ * crosses each threshold in a billing cycle. Returns the warning sent, or
+ * null when there was nothing new to warn about.
+ */
+export async function checkUsageWarnings(userId: string): Promise<UsageWarning | null> {
+  const supabase = await createClient();
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('email, name, subscription_tier, usage_count')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    console.error('Failed to get user for usage warnings:', error);
+    return null;
+  }
+
+  // Unlimited plans have nothing to warn about
+  const monthlyCredits = getMonthlyCredits(user.subscription_tier);
+  if (monthlyCredits <= 0) {
+    return null;
+  }
+
+  const usedCredits = user.usage_count || 0;
+  const percentageUsed = (usedCredits / monthlyCredits) * 100;
+  const threshold = getCrossedThreshold(percentageUsed);
+  if (threshold === null) {
+    return null;
+  }
+
+  // The unique key makes the insert the claim, so concurrent requests
+  // can't both send the same warning
+  const cycleStart = await getCurrentCycleStart(userId);
+  const { error: claimError } = await supabase
+    .from('usage_limit_warnings')
+    .insert({
+      user_id: userId,
+      threshold,
+      cycle_start: cycleStart.toISOString(),
+    });
+
+  if (claimError) {
+    if (claimError.code !== '23505') {
+      console.error('Failed to record usage warning:', claimError);
+    }
+    return null;
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+  const warning: UsageWarning = {
+    userId,
+    threshold,
+    usedCredits,
+    monthlyCredits,
+    percentageUsed,
+    upgradeUrl: getUpgradeUrl(user.subscription_tier, appUrl),
+  };
+
+  await sendWarning(warning, {
+    email: user.email,
+    name: user.name || user.email.split('@')[0],
+    tier: user.subscription_tier,
+  });
+
+  return warning;
+}
+
+/**
+ * Monthly credits for a tier, or -1 when unlimited
+ */
+function getMonthlyCredits(tier: string): number {
+  const limits = TIER_LIMITS[tier as keyof typeof TIER_LIMITS];
+  return limits ? limits.monthlyCredits : getSubscriptionTier(tier).features.monthlyCredits;
+}
+
+async function sendWarning(
+  warning: UsageWarning,
+  user: { email: string; name: string; tier: string }
+): Promise<void> {
+  const exhausted = warning.threshold >= 100;
+  const remainingCredits = Math.max(0, warning.monthlyCredits - warning.usedCredits);
+
+  try {
+    getWebSocketServer().sendNotificationToUser(warning.userId, {
+      id: `usage-${warning.threshold}-${Date.now()}`,
+      type: exhausted ? 'error' : 'warning',
+      title: exhausted ? 'Monthly credits used up' : 'Running low on credits',
+      message: exhausted
+        ? 'You have reached your monthly credit limit'
+        : `You have used ${Math.round(warning.percentageUsed)}% of your monthly credits`,
+      actionUrl: warning.upgradeUrl || undefined,
+      usage: {
+        threshold: warning.threshold,
+        percentageUsed: warning.percentageUsed,
+        remainingCredits,
+      },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Failed to send usage warning notification:', error);
+  }
+
+  const result = await EmailService.sendUsageLimitWarningEmail(warning.userId, {
+    userName: user.name,
+    userEmail: user.email,
+    threshold: warning.threshold,
+    usedCredits: warning.usedCredits,
+    monthlyCredits: warning.monthlyCredits,
+    resetDate: (await getNextResetDate(warning.userId)) || undefined,
+    upgradeUrl: warning.upgradeUrl || undefined,
+    upgradePlanName: getUpgradeTier(user.tier)?.name,
+  });
+
+  if (!result.success) {
+    console.error('Failed to send usage warning email:', result.error);
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createUsageTracker } from './tracking-server';
 import { createClient } from '@/lib/supabase/server';
+import { ORGANIZATION_HEADER, resolveWorkspace } from '@/lib/organizations';
+import { checkUsageWarnings } from './limit-warnings';
 
 interface UsageLimitResponse {
   success: boolean;
@@ -16,7 +18,8 @@ interface UsageLimitResponse {
 }
 
 /**
- * Middleware to check usage limits before allowing actions
+ * Middleware to check usage limits before allowing actions. Requests made for
+ * an organization draw on its pooled credits, which only editors may spend.
  */
 export async function checkUsageLimit(
   request: NextRequest,
@@ -36,8 +39,21 @@ export async function checkUsageLimit(
       };
     }
 
+    let organizationId: string | undefined;
+    try {
+      organizationId = (await resolveWorkspace(request, user.id, 'editor'))?.organizationId;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: (error as Error).message,
+        },
+      };
+    }
+
     const tracker = await createUsageTracker();
-    const usage = await tracker.checkUsageLimit(user.id);
+    const usage = await tracker.checkUsageLimit(user.id, organizationId);
 
     // Check if user has enough credits
     if (usage.remainingCredits < requiredCredits) {
@@ -82,7 +98,8 @@ export async function trackUsageAfterSuccess(
   userId: string,
   action: 'enhancement' | 'batch_enhancement' | 'api_call' | 'export',
   enhancementId?: string,
-  credits = 1
+  credits = 1,
+  organizationId?: string
 ): Promise<void> {
   try {
     const tracker = await createUsageTracker();
@@ -91,7 +108,13 @@ export async function trackUsageAfterSuccess(
       action,
       enhancementId,
       credits,
+      organizationId,
     });
+
+    // Pooled organization credits aren't counted against the user
+    if (!organizationId) {
+      await checkUsageWarnings(userId);
+    }
   } catch (error) {
     console.error('Failed to track usage:', error);
     // Don't throw - we don't want to fail the request if tracking fails
@@ -104,18 +127,26 @@ interface APIContext {
   [key: string]: unknown;
 }
 
+interface UsageLimitOptions {
+  // Reads the created enhancement's id from the response body, so the
+  // charge can be refunded if the enhancement is cancelled
+  getEnhancementId?: (body: unknown) => string | undefined;
+}
+
 /**
  * Decorator function for API routes that consume credits
  */
 export function withUsageLimit(
   handler: (req: NextRequest, context?: APIContext) => Promise<NextResponse>,
-  requiredCredits = 1
+  requiredCredits = 1,
+  options: UsageLimitOptions = {}
 ) {
   return async (req: NextRequest, context?: APIContext): Promise<NextResponse> => {
     const limitCheck = await checkUsageLimit(req, requiredCredits);
     
     if (limitCheck && !limitCheck.success) {
-      return NextResponse.json(limitCheck, { status: 402 }); // Payment Required
+      const status = limitCheck.error?.code === 'FORBIDDEN' ? 403 : 402; // Payment Required
+      return NextResponse.json(limitCheck, { status });
     }
 
     // Execute the original handler
@@ -129,7 +160,12 @@ export function withUsageLimit(
       if (user) {
         // Extract action type from the request
         const action = req.url.includes('/api/v1/') ? 'api_call' : 'enhancement';
-        await trackUsageAfterSuccess(user.id, action, undefined, requiredCredits);
+        // Membership was checked before the handler ran
+        const organizationId = req.headers.get(ORGANIZATION_HEADER) || undefined;
+        const enhancementId = options.getEnhancementId
+          ? options.getEnhancementId(await response.clone().json().catch(() => null))
+          : undefined;
+        await trackUsageAfterSuccess(user.id, action, enhancementId, requiredCredits, organizationId);
       }
     }
 
@@ -17,6 +17,8 @@ export interface UsageTrackingOptions {
   enhancementId?: string;
   credits?: number;
   metadata?: UsageMetadata;
+  // Charge the organization's pooled credits instead of the user's own
+  organizationId?: string;
 }
 
 export interface UsageLimit {
@@ -26,6 +28,7 @@ export interface UsageLimit {
   usedCredits: number;
   percentageUsed: number;
   canProceed: boolean;
+  organizationId?: string;
 }
 
 export interface UsageStats {
@@ -55,7 +58,7 @@ export class UsageTracker {
    * Track usage for a specific action
    */
   async trackUsage(options: UsageTrackingOptions): Promise<void> {
-    const { userId, action, enhancementId, credits = 1, metadata } = options;
+    const { userId, action, enhancementId, credits = 1, metadata, organizationId } = options;
 
     try {
       // Call the database function to increment usage
@@ -64,6 +67,7 @@ export class UsageTracker {
         p_enhancement_id: enhancementId || null,
         p_action: action,
         p_credits: credits,
+        p_organization_id: organizationId,
       });
 
       if (error) {
@@ -82,9 +86,53 @@ export class UsageTracker {
   }
 
   /**
-   * Check if user has available credits
+   * Give back the credits charged for an enhancement that did not complete.
+   * Refunds are recorded as negative usage rows, so only the net amount still
+   * charged is returned and calling this twice refunds once. Pooled charges
+   * go back to the organization they came from.
    */
-  async checkUsageLimit(userId: string): Promise<UsageLimit> {
+  async refundUsage(userId: string, enhancementId: string): Promise<number> {
+    const { data: rows, error } = await this.supabase
+      .from('usage_tracking')
+      .select('action, credits_used, organization_id')
+      .eq('user_id', userId)
+      .eq('enhancement_id', enhancementId);
+
+    if (error) {
+      console.error('Failed to load usage for refund:', error);
+      throw new Error('Failed to refund usage');
+    }
+
+    const charged = (rows || []).reduce((total, row) => total + row.credits_used, 0);
+    if (charged <= 0) {
+      return 0;
+    }
+
+    const { error: refundError } = await this.supabase.rpc('increment_usage', {
+      p_user_id: userId,
+      p_enhancement_id: enhancementId,
+      p_action: rows![0].action,
+      p_credits: -charged,
+      p_organization_id: rows![0].organization_id || undefined,
+    });
+
+    if (refundError) {
+      console.error('Failed to refund usage:', refundError);
+      throw new Error('Failed to refund usage');
+    }
+
+    return charged;
+  }
+
+  /**
+   * Check if user has available credits, or the organization's pool when
+   * they are working for one
+   */
+  async checkUsageLimit(userId: string, organizationId?: string): Promise<UsageLimit> {
+    if (organizationId) {
+      return this.checkOrganizationLimit(organizationId);
+    }
+
     try {
       // Get user details with subscription info
       const { data: user, error: userError } = await this.supabase
@@ -146,9 +194,76 @@ export class UsageTracker {
   }
 
   /**
-   * Get detailed usage statistics
+   * Pooled credits are shared by every member, so usage is summed across the
+   * organization rather than read from one user's counter
+   */
+  private async checkOrganizationLimit(organizationId: string): Promise<UsageLimit> {
+    try {
+      const { data: organization, error: organizationError } = await this.supabase
+        .from('organizations')
+        .select('subscription_tier, monthly_credits')
+        .eq('id', organizationId)
+        .single();
+
+      if (organizationError || !organization) {
+        throw new Error('Failed to get organization details');
+      }
+
+      const now = new Date();
+      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+      const { data: usage, error: usageError } = await this.supabase
+        .from('usage_tracking')
+        .select('credits_used')
+        .eq('organization_id', organizationId)
+        .gte('created_at', startOfMonth.toISOString());
+
+      if (usageError) {
+        throw new Error('Failed to get organization usage');
+      }
+
+      const usedCredits = (usage || []).reduce((sum, item) => sum + item.credits_used, 0);
+      const monthlyCredits = organization.monthly_credits;
+      const remainingCredits = Math.max(0, monthlyCredits - usedCredits);
+      const percentageUsed = monthlyCredits > 0 ? (usedCredits / monthlyCredits) * 100 : 100;
+
+      const { data: canProceed, error: checkError } = await this.supabase.rpc(
+        'check_org_usage_limit',
+        { p_organization_id: organizationId }
+      );
+
+      if (checkError) {
+        console.error('Failed to check organization usage limit:', checkError);
+      }
+
+      return {
+        tier: organization.subscription_tier,
+        monthlyCredits,
+        remainingCredits,
+        usedCredits,
+        percentageUsed,
+        canProceed: canProceed ?? false,
+        organizationId,
+      };
+    } catch (error) {
+      console.error('Organization usage limit check error:', error);
+      return {
+        tier: 'free',
+        monthlyCredits: 0,
+        remainingCredits: 0,
+        usedCredits: 0,
+        percentageUsed: 100,
+        canProceed: false,
+        organizationId,
+      };
+    }
+  }
+
+  /**
+   * Get detailed usage statistics for the user's personal credits, or for an
+   * organization's pool
    */
-  async getUsageStats(userId: string): Promise<UsageStats> {
+  async getUsageStats(userId: string, organizationId?: string): Promise<UsageStats> {
     try {
       const now = new Date();
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -159,7 +274,7 @@ export class UsageTracker {
       const { data: currentMonthData, error: currentError } = await this.supabase
         .from('usage_tracking')
         .select('action, credits_used, created_at')
-        .eq('user_id', userId)
+        .match(organizationId ? { organization_id: organizationId } : { user_id: userId })
         .gte('created_at', startOfMonth.toISOString())
         .order('created_at', { ascending: true });
 
@@ -171,7 +286,7 @@ export class UsageTracker {
       const { data: lastMonthData, error: lastError } = await this.supabase
         .from('usage_tracking')
         .select('credits_used')
-        .eq('user_id', userId)
+        .match(organizationId ? { organization_id: organizationId } : { user_id: userId })
         .gte('created_at', startOfLastMonth.toISOString())
         .lte('created_at', endOfLastMonth.toISOString());
 
@@ -183,7 +298,7 @@ export class UsageTracker {
       const { data: allTimeData, error: allTimeError } = await this.supabase
         .from('usage_tracking')
         .select('credits_used')
-        .eq('user_id', userId);
+        .match(organizationId ? { organization_id: organizationId } : { user_id: userId });
 
       if (allTimeError) {
         throw new Error('Failed to get all-time usage');
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { PDFDocument, rgb } from 'pdf-lib'
+import { getPDFPageCount, rasterizePDF, rasterizePDFPage } from '../pdf-rasterizer'
+
+// jest.setup.js stubs these globally; these tests build and render real pages
+jest.unmock('@napi-rs/canvas')
+jest.unmock('pdf-lib')
+
+// Letter portrait followed by a landscape half-page, in PDF points
+async function createFixture(): Promise<Buffer> {
+  const pdf = await PDFDocument.create()
+
+  const first = pdf.addPage([612, 792])
+  first.drawRectangle({ x: 72, y: 72, width: 144, height: 144, color: rgb(1, 0, 0) })
+
+  pdf.addPage([396, 306])
+
+  return Buffer.from(await pdf.save())
+}
+
+describe('pdf-rasterizer', () => {
+  let fixture: Buffer
+
+  beforeAll(async () => {
+    fixture = await createFixture()
+  })
+
+  it('counts pages', async () => {
+    expect(await getPDFPageCount(fixture)).toBe(2)
+  })
+
+  it('renders every page at the requested DPI', async () => {
+    const pages = await rasterizePDF(fixture, { dpi: 72 })
+
+    expect(pages).toHaveLength(2)
+    expect(pages[0]).toMatchObject({ pageNumber: 1, width: 612, height: 792, widthPt: 612, heightPt: 792, dpi: 72 })
+    expect(pages[1]).toMatchObject({ pageNumber: 2, width: 396, height: 306 })
+    expect(pages[0].buffer.subarray(1, 4).toString('ascii')).toBe('PNG')
+  })
+
+  it('scales oversized pages down to the pixel budget', async () => {
+    const page = await rasterizePDFPage(fixture, 1, 144)
+    expect(page).toMatchObject({ width: 1224, height: 1584, dpi: 144 })
+
+    const [capped] = await rasterizePDF(fixture, { dpi: 144, pages: [1], maxPixels: 612 * 792 })
+    expect(capped).toMatchObject({ width: 612, height: 792, dpi: 72 })
+  })
+
+  it('rejects pages that do not exist', async () => {
+    await expect(rasterizePDFPage(fixture, 3)).rejects.toThrow('does not exist')
+  })
+})
@@ -21,7 +21,7 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
  * Convert RGB to relative luminance
  * https://www.w3.org/TR/WCAG20-TECHS/G17.html
  */
-function getLuminance(r: number, g: number, b: number): number {
+export function getLuminance(r: number, g: number, b: number): number {
   const [rs, gs, bs] = [r, g, b].map(val => {
     const s = val / 255;
     return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
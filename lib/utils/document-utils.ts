@@ -1,4 +1,5 @@
 import { PDFDocument } from 'pdf-lib'
+import { ocrService } from '@/lib/ocr'
 
 export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<string> {
   try {
@@ -20,12 +21,10 @@ export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<string> {
   }
 }
 
-export async function extractTextFromImage(_imageBuffer: Buffer): Promise<string> {
+export async function extractTextFromImage(imageBuffer: Buffer): Promise<string> {
   try {
-    // In production, you'd use a proper OCR service
-    // For now, using Tesseract.js (you'd need to install it)
-    // Return placeholder for development
-    return '[Extracted text from image]'
+    const result = await ocrService.recognize(imageBuffer)
+    return result.lines.map(line => line.text).join('\n')
   } catch (error) {
     console.error('Image text extraction failed:', error)
     return ''
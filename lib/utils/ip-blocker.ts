@@ -1,4 +1,13 @@
-import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import {
+  IPReputationTracker,
+  ReputationSnapshot,
+  ReputationVerdict,
+  ThreatFeeds,
+  ThreatSeverity,
+  addressKey,
+  isPrivateAddress,
+} from '@/lib/ip-reputation';
 
 export interface BlockedIP {
   ip: string;
@@ -10,15 +19,23 @@ export interface BlockedIP {
     lastAttempt?: Date;
     userAgent?: string;
     path?: string;
+    score?: number;
+    offences?: number;
   };
 }
 
 export class IPBlocker {
   private blockedIPs: Map<string, BlockedIP> = new Map();
-  private suspiciousActivity: Map<string, number> = new Map(); // IP -> score
-  
-  // Thresholds for blocking
-  private readonly SUSPICIOUS_SCORE_THRESHOLD = 100;
+
+  // Blocklists loaded from local feed files
+  readonly threatFeeds = new ThreatFeeds();
+
+  // Scored history per IP; blocks when the score gets too high, for longer
+  // each time the same IP offends again
+  readonly reputation = new IPReputationTracker((ip, reason, durationHours, metadata) =>
+    this.blockIP(ip, reason, durationHours, metadata)
+  );
+
   private readonly BLOCK_DURATION_HOURS = 24;
   
   // Scoring for different activities
@@ -80,14 +97,15 @@ export class IPBlocker {
     
     // Persist to database
     try {
-      const supabase = await createClient();
-      await supabase.from('blocked_ips').insert({
+      const supabase = createServiceClient();
+      // Repeat offenders are blocked again, replacing the previous row
+      await supabase.from('blocked_ips').upsert({
         ip,
         reason,
         blocked_at: blockedAt.toISOString(),
         expires_at: expiresAt.toISOString(),
         metadata,
-      });
+      }, { onConflict: 'ip' });
     } catch (error) {
       console.error('Failed to persist IP block:', error);
     }
@@ -99,41 +117,56 @@ export class IPBlocker {
   // Unblock an IP
   async unblockIP(ip: string): Promise<void> {
     this.blockedIPs.delete(ip);
-    this.suspiciousActivity.delete(ip);
     
     // Remove from database
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
       await supabase.from('blocked_ips').delete().eq('ip', ip);
     } catch (error) {
       console.error('Failed to remove IP block:', error);
     }
   }
 
+  // Unblock an IP an admin has reviewed, and clear its reputation so the
+  // next offence starts from the shortest block again
+  async forgiveIP(ip: string): Promise<void> {
+    await this.unblockIP(ip);
+    await this.reputation.forgive(ip);
+  }
+
   // Record suspicious activity
   recordSuspiciousActivity(
     ip: string,
     activityType: keyof typeof this.ACTIVITY_SCORES,
     metadata?: any
   ): void {
-    const score = this.ACTIVITY_SCORES[activityType];
-    const currentScore = this.suspiciousActivity.get(ip) || 0;
-    const newScore = currentScore + score;
-    
-    this.suspiciousActivity.set(ip, newScore);
-    
-    // Check if IP should be blocked
-    if (newScore >= this.SUSPICIOUS_SCORE_THRESHOLD) {
-      this.blockIP(
-        ip,
-        `Suspicious activity detected: ${activityType}`,
-        this.BLOCK_DURATION_HOURS,
-        metadata
-      );
+    this.recordEvent(ip, activityType, { points: this.ACTIVITY_SCORES[activityType] }, metadata);
+  }
+
+  // Record a security event reported elsewhere, e.g. by the API key detector
+  recordSecurityEvent(
+    ip: string,
+    eventType: string,
+    severity: ThreatSeverity,
+    metadata?: any
+  ): void {
+    this.recordEvent(ip, eventType, { severity }, metadata);
+  }
+
+  private recordEvent(
+    ip: string,
+    eventType: string,
+    weight: { points?: number; severity?: ThreatSeverity },
+    metadata?: any
+  ): void {
+    if (!isPrivateAddress(ip)) {
+      this.reputation
+        .recordEvent(ip, { type: eventType, ...weight, metadata })
+        .catch(error => console.error('Failed to record IP reputation event:', error));
     }
-    
+
     // Log suspicious activity
-    this.logSecurityEvent(ip, activityType, metadata);
+    this.logSecurityEvent(ip, eventType, metadata);
   }
 
   // Detect common attack patterns
@@ -220,7 +253,7 @@ export class IPBlocker {
     
     return {
       totalBlocked: this.blockedIPs.size,
-      suspiciousIPs: this.suspiciousActivity.size,
+      suspiciousIPs: this.reputation.size,
       topReasons,
     };
   }
@@ -234,22 +267,12 @@ export class IPBlocker {
         this.unblockIP(ip);
       }
     }
-    
-    // Decay suspicious activity scores
-    for (const [ip, score] of this.suspiciousActivity.entries()) {
-      const decayedScore = Math.max(0, score - 10); // Decay by 10 points per hour
-      if (decayedScore === 0) {
-        this.suspiciousActivity.delete(ip);
-      } else {
-        this.suspiciousActivity.set(ip, decayedScore);
-      }
-    }
   }
 
   // Load blocked IPs from database
   private async loadBlockedIPs(): Promise<void> {
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
       const { data: blockedIPs } = await supabase
         .from('blocked_ips')
         .select('*')
@@ -278,7 +301,7 @@ export class IPBlocker {
     metadata?: any
   ): Promise<void> {
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
       await supabase.from('security_events').insert({
         ip,
         event_type: eventType,
@@ -290,33 +313,65 @@ export class IPBlocker {
     }
   }
 
-  // Get IP reputation from external services (placeholder)
-  async checkIPReputation(ip: string): Promise<{
-    isKnownThreat: boolean;
-    threatLevel: 'low' | 'medium' | 'high';
-    reason?: string;
-  }> {
-    // In production, integrate with services like:
-    // - AbuseIPDB
-    // - IPQualityScore
-    // - Cloudflare
-    
-    // For now, return a basic check
-    const privateIPRanges = [
-      /^10\./,
-      /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-      /^192\.168\./,
-      /^127\./,
-    ];
-    
+  // Get IP reputation from the local threat feeds and the IP's own history
+  async checkIPReputation(ip: string): Promise<ReputationVerdict> {
     // Don't block private IPs
-    for (const range of privateIPRanges) {
-      if (range.test(ip)) {
-        return { isKnownThreat: false, threatLevel: 'low' };
+    if (isPrivateAddress(ip)) {
+      return { isKnownThreat: false, threatLevel: 'low' };
+    }
+
+    const feed = await this.threatFeeds.match(ip);
+    if (feed) {
+      return { isKnownThreat: true, threatLevel: 'high', reason: `Listed in ${feed}`, feed };
+    }
+
+    const history = await this.reputation.getHistory(ip);
+    if (history && history.score >= 50) {
+      return {
+        isKnownThreat: true,
+        threatLevel: 'medium',
+        reason: `Reputation score ${Math.round(history.score)}`,
+        score: history.score,
+      };
+    }
+
+    return { isKnownThreat: false, threatLevel: 'low', score: history?.score };
+  }
+
+  // What edge middleware needs to refuse blocked and listed IPs
+  async getSnapshot(): Promise<ReputationSnapshot> {
+    const blocked: ReputationSnapshot['blocked'] = {};
+
+    try {
+      const supabase = createServiceClient();
+      const { data } = await supabase
+        .from('blocked_ips')
+        .select('ip, reason, expires_at')
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+      for (const record of data || []) {
+        const key = addressKey(record.ip);
+        if (key) {
+          blocked[key] = { reason: record.reason, expiresAt: record.expires_at };
+        }
       }
+    } catch (error) {
+      console.error('Failed to load blocked IPs for snapshot:', error);
     }
-    
-    return { isKnownThreat: false, threatLevel: 'low' };
+
+    // Blocks made by this process may not have been written yet
+    for (const entry of this.blockedIPs.values()) {
+      const key = addressKey(entry.ip);
+      if (key && !blocked[key]) {
+        blocked[key] = { reason: entry.reason, expiresAt: entry.expiresAt?.toISOString() || null };
+      }
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      feeds: (await this.threatFeeds.getSet()).toJSON(),
+      blocked,
+    };
   }
 }
 
@@ -0,0 +1,146 @@
+import path from 'path'
+import { createCanvas } from '@napi-rs/canvas'
+
+export interface RasterizedPage {
+  pageNumber: number // 1-based
+  buffer: Buffer // PNG
+  width: number // pixels
+  height: number // pixels
+  widthPt: number // PDF points (1/72 inch)
+  heightPt: number
+  dpi: number
+}
+
+export interface RasterizeOptions {
+  dpi?: number
+  pages?: number[] // 1-based page numbers, defaults to every page
+  maxPixels?: number // per page, DPI is lowered for oversized pages
+  background?: string
+  signal?: AbortSignal
+}
+
+export const DEFAULT_RASTER_DPI = 150
+
+// Keep a single page under ~40MP so a poster-sized PDF can't exhaust memory
+const DEFAULT_MAX_PIXELS = 40_000_000
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs')
+
+let pdfjsPromise: Promise<PdfJs> | null = null
+
+function loadPdfJs(): Promise<PdfJs> {
+  // pdfjs-dist ships as ESM only, so load it lazily from CommonJS callers
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs')
+  }
+  return pdfjsPromise
+}
+
+function standardFontDataUrl(): string {
+  return path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts/')
+}
+
+async function openDocument(pdfBuffer: Buffer) {
+  const pdfjs = await loadPdfJs()
+  return pdfjs.getDocument({
+    // pdfjs transfers the buffer to its worker, so hand it a copy
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: standardFontDataUrl(),
+    isEvalSupported: false,
+    verbosity: 0
+  }).promise
+}
+
+export async function getPDFPageCount(pdfBuffer: Buffer): Promise<number> {
+  const pdf = await openDocument(pdfBuffer)
+  try {
+    return pdf.numPages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * Renders PDF pages to PNG at the requested DPI using pdfjs with a native
+ * Node canvas, so no browser or system poppler install is needed.
+ */
+export async function rasterizePDF(
+  pdfBuffer: Buffer,
+  options: RasterizeOptions = {}
+): Promise<RasterizedPage[]> {
+  const {
+    dpi = DEFAULT_RASTER_DPI,
+    maxPixels = DEFAULT_MAX_PIXELS,
+    background = '#ffffff',
+    signal
+  } = options
+
+  const pdf = await openDocument(pdfBuffer)
+
+  try {
+    const pageNumbers = options.pages?.length
+      ? options.pages.filter(n => n >= 1 && n <= pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, i) => i + 1)
+
+    const results: RasterizedPage[] = []
+
+    // Render sequentially; each page holds a full-size canvas in memory
+    for (const pageNumber of pageNumbers) {
+      if (signal?.aborted) {
+        throw new Error('PDF rasterization cancelled')
+      }
+
+      const page = await pdf.getPage(pageNumber)
+      const base = page.getViewport({ scale: 1 })
+
+      let scale = dpi / 72
+      const pixels = base.width * scale * base.height * scale
+      if (pixels > maxPixels) {
+        scale *= Math.sqrt(maxPixels / pixels)
+      }
+
+      const viewport = page.getViewport({ scale })
+      const width = Math.ceil(viewport.width)
+      const height = Math.ceil(viewport.height)
+      const canvas = createCanvas(width, height)
+      const ctx = canvas.getContext('2d')
+
+      // PDF pages are transparent by default; paint the paper first
+      ctx.fillStyle = background
+      ctx.fillRect(0, 0, width, height)
+
+      await page.render({
+        canvasContext: ctx as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise
+
+      results.push({
+        pageNumber,
+        buffer: canvas.toBuffer('image/png'),
+        width,
+        height,
+        widthPt: base.width,
+        heightPt: base.height,
+        dpi: Math.round(scale * 72)
+      })
+
+      page.cleanup()
+    }
+
+    return results
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+export async function rasterizePDFPage(
+  pdfBuffer: Buffer,
+  pageNumber: number = 1,
+  dpi: number = DEFAULT_RASTER_DPI
+): Promise<RasterizedPage> {
+  const [page] = await rasterizePDF(pdfBuffer, { dpi, pages: [pageNumber] })
+  if (!page) {
+    throw new Error(`PDF page ${pageNumber} does not exist`)
+  }
+  return page
+}
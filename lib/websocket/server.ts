@@ -2,6 +2,7 @@ import { Server as HTTPServer } from 'http'
 import { Server } from 'socket.io'
 import { createClient } from '@/lib/supabase/server'
 import { sessionStore } from '@/lib/redis/session-store'
+import { cancelEnhancement, findActiveEnhancement } from '@/lib/enhancement/cancel-enhancement'
 import {
   ServerToClientEvents,
   ClientToServerEvents,
@@ -136,6 +137,48 @@ export class WebSocketServer {
         }
       })
 
+      socket.on('enhancement:cancel', async (documentId) => {
+        try {
+          // Only the owner's in-flight runs are found, so this also checks access
+          const enhancementId = await findActiveEnhancement(userId, documentId)
+          const result = enhancementId
+            ? await cancelEnhancement(userId, enhancementId)
+            : null
+          
+          if (result?.status === 'cancelled') {
+            this.sendNotificationToDocument(documentId, {
+              id: `cancel-${Date.now()}`,
+              type: 'info',
+              title: 'Enhancement Cancelled',
+              message: result.refundedCredits > 0
+                ? 'Your enhancement was cancelled and the credit refunded.'
+                : 'Your enhancement was cancelled.',
+              documentId,
+              timestamp: new Date(),
+            })
+          } else {
+            socket.emit('notification', {
+              id: `cancel-${Date.now()}`,
+              type: 'warning',
+              title: 'Nothing to Cancel',
+              message: 'This document has no enhancement in progress.',
+              documentId,
+              timestamp: new Date(),
+            })
+          }
+        } catch (error) {
+          console.error(`Failed to cancel enhancement for document ${documentId}:`, error)
+          socket.emit('notification', {
+            id: `cancel-${Date.now()}`,
+            type: 'error',
+            title: 'Cancel Failed',
+            message: 'The enhancement could not be cancelled. Please try again.',
+            documentId,
+            timestamp: new Date(),
+          })
+        }
+      })
+
       // Handle ping for connection keep-alive
       socket.on('ping', async () => {
         // Update session activity
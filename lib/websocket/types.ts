@@ -38,6 +38,9 @@ export interface ClientToServerEvents {
   'subscribe:user': (userId: string) => void
   'unsubscribe:user': (userId: string) => void
   
+  // Cancel the enhancement running for a document
+  'enhancement:cancel': (documentId: string) => void
+  
   // Connection management
   'ping': () => void
 }
@@ -63,6 +66,8 @@ export interface EnhancementProgress {
     currentStep?: string
     totalSteps?: number
     estimatedTimeRemaining?: number
+    currentPage?: number // 1-based, for stages that work page by page
+    totalPages?: number
   }
 }
 
@@ -152,5 +157,12 @@ export interface Notification {
   message: string
   documentId?: string
   actionUrl?: string
+  usage?: UsageLimitNotice // set on usage limit warnings
   timestamp: Date
+}
+
+export interface UsageLimitNotice {
+  threshold: number // percent of monthly credits crossed
+  percentageUsed: number
+  remainingCredits: number
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { updateSession } from '@/lib/supabase/middleware'
 import { rateLimiters, MiddlewareRateLimiter } from '@/lib/redis/middleware-rate-limiter'
+import { checkIPAtEdge, SNAPSHOT_PATH } from '@/lib/ip-reputation/edge-check'
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
@@ -16,6 +17,22 @@ export async function middleware(request: NextRequest) {
     }
   }
   
+  // Refuse blocked IPs and those on the threat feeds. The snapshot request
+  // itself comes from this middleware and is let through.
+  const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip
+  if (clientIp && pathname !== SNAPSHOT_PATH) {
+    const blockedReason = checkIPAtEdge(clientIp)
+    if (blockedReason) {
+      console.warn(`Refused ${clientIp}: ${blockedReason}`)
+      return pathname.startsWith('/api/')
+        ? NextResponse.json(
+            { success: false, error: { code: 'IP_BLOCKED', message: 'Access denied' } },
+            { status: 403 }
+          )
+        : new NextResponse('Access denied', { status: 403 })
+    }
+  }
+  
   // Create response with security headers
   const response = NextResponse.next()
   
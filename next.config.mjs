@@ -9,6 +9,11 @@ const nextConfig = {
     // Also ignore TypeScript errors for now (we can fix them later)
     ignoreBuildErrors: false,
   },
+  experimental: {
+    // pdfjs-dist is ESM-only and @napi-rs/canvas is a native addon; load
+    // both from node_modules at runtime instead of bundling them
+    serverComponentsExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', 'tesseract.js'],
+  },
   images: {
     remotePatterns: [
       {
@@ -220,7 +220,7 @@ async function testUserFlow() {
     await fs.mkdir(path.dirname(testImagePath), { recursive: true })
     
     // Create a simple PNG using canvas
-    const { createCanvas } = await import('canvas')
+    const { createCanvas } = await import('@napi-rs/canvas')
     const canvas = createCanvas(800, 600)
     const ctx = canvas.getContext('2d')
     
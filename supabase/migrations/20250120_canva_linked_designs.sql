@@ -0,0 +1,44 @@
+-- Create canva_linked_designs table for keeping imported designs in sync
+CREATE TABLE IF NOT EXISTS public.canva_linked_designs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  design_id TEXT NOT NULL,
+  design_url TEXT NOT NULL,
+  canva_updated_at TIMESTAMPTZ NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  sync_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  status TEXT NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'syncing', 'error')),
+  last_error TEXT,
+  last_checked_at TIMESTAMPTZ,
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, design_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.canva_linked_designs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view own linked designs" ON public.canva_linked_designs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own linked designs" ON public.canva_linked_designs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own linked designs" ON public.canva_linked_designs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own linked designs" ON public.canva_linked_designs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_canva_linked_designs_user_id ON public.canva_linked_designs(user_id);
+CREATE INDEX idx_canva_linked_designs_sync ON public.canva_linked_designs(sync_enabled, status);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_canva_linked_designs_updated_at
+  BEFORE UPDATE ON public.canva_linked_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,31 @@
+-- Create enhancement_versions table so every pipeline run is kept as an immutable version
+CREATE TABLE IF NOT EXISTS public.enhancement_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  pipeline_id TEXT,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  plan JSONB,
+  scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  enhanced_file_url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  layered_file_url TEXT,
+  reverted_from UUID REFERENCES public.enhancement_versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.enhancement_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are append-only: no update or delete policies
+CREATE POLICY "Users can view own enhancement versions" ON public.enhancement_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own enhancement versions" ON public.enhancement_versions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_enhancement_versions_document_id ON public.enhancement_versions(document_id, version_number DESC);
+CREATE INDEX idx_enhancement_versions_user_id ON public.enhancement_versions(user_id);
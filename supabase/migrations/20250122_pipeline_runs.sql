@@ -0,0 +1,31 @@
+-- Create pipeline_runs table so a failed enhancement can resume from the stage that failed
+CREATE TABLE IF NOT EXISTS public.pipeline_runs (
+  id TEXT PRIMARY KEY, -- the pipeline id, also stored on enhancement_pipelines and enhancement_versions
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  current_stage TEXT NOT NULL,
+  progress INTEGER NOT NULL DEFAULT 0,
+  context JSONB NOT NULL,
+  stages JSONB NOT NULL DEFAULT '{}'::jsonb, -- per stage status, timing and output
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  generate_assets BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pipeline runs" ON public.pipeline_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own pipeline runs" ON public.pipeline_runs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own pipeline runs" ON public.pipeline_runs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_pipeline_runs_document_id ON public.pipeline_runs(document_id, updated_at DESC);
+CREATE INDEX idx_pipeline_runs_user_id ON public.pipeline_runs(user_id);
@@ -0,0 +1,35 @@
+-- Create brand_kits table for palettes, fonts and logos that enhancements must follow
+CREATE TABLE IF NOT EXISTS public.brand_kits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  palette JSONB NOT NULL, -- primary, secondary, accent, background, text, additional[]
+  heading_font TEXT,
+  body_font TEXT,
+  logos JSONB NOT NULL DEFAULT '[]'::jsonb, -- id, name, R2 key, url, content type
+  forbidden_colors TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.brand_kits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own brand kits" ON public.brand_kits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own brand kits" ON public.brand_kits
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own brand kits" ON public.brand_kits
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own brand kits" ON public.brand_kits
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_brand_kits_user_id ON public.brand_kits(user_id);
+
+-- One default kit per user
+CREATE UNIQUE INDEX idx_brand_kits_default ON public.brand_kits(user_id) WHERE is_default;
@@ -0,0 +1,389 @@
+-- Create organizations so a team can share documents, brand kits, API keys, webhooks and a pooled credit balance
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  subscription_tier subscription_tier NOT NULL DEFAULT 'free',
+  monthly_credits INTEGER NOT NULL DEFAULT 0, -- pooled balance shared by every member
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Owners can do everything editors can, and editors everything viewers can
+CREATE OR REPLACE FUNCTION public.org_role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_role WHEN 'owner' THEN 3 WHEN 'editor' THEN 2 WHEN 'viewer' THEN 1 ELSE 0 END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SECURITY DEFINER so policies on organization_members can call it without recursing
+CREATE OR REPLACE FUNCTION public.has_org_role(p_organization_id UUID, p_min_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+    AND user_id = auth.uid()
+    AND public.org_role_rank(role) >= public.org_role_rank(p_min_role)
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator becomes the first owner
+CREATE OR REPLACE FUNCTION public.handle_new_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_organization_created
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_organization();
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (public.has_org_role(id, 'viewer'));
+
+CREATE POLICY "Users can create organizations" ON public.organizations
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners can update organizations" ON public.organizations
+  FOR UPDATE USING (public.has_org_role(id, 'owner'));
+
+CREATE POLICY "Owners can delete organizations" ON public.organizations
+  FOR DELETE USING (public.has_org_role(id, 'owner'));
+
+-- The tier and pooled credits are billing state, set only by the Stripe
+-- webhook through the service role; members may only name the organization
+REVOKE INSERT, UPDATE ON public.organizations FROM anon, authenticated;
+GRANT INSERT (name, created_by) ON public.organizations TO authenticated;
+GRANT UPDATE (name, updated_at) ON public.organizations TO authenticated;
+
+CREATE POLICY "Members can view fellow members" ON public.organization_members
+  FOR SELECT USING (public.has_org_role(organization_id, 'viewer'));
+
+CREATE POLICY "Owners can add members" ON public.organization_members
+  FOR INSERT WITH CHECK (public.has_org_role(organization_id, 'owner'));
+
+CREATE POLICY "Owners can change member roles" ON public.organization_members
+  FOR UPDATE USING (public.has_org_role(organization_id, 'owner'));
+
+CREATE POLICY "Owners can remove members, members can leave" ON public.organization_members
+  FOR DELETE USING (public.has_org_role(organization_id, 'owner') OR auth.uid() = user_id);
+
+-- users is only readable by its own row, so inviting by email and listing
+-- members go through functions that check the caller's role first
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  p_organization_id UUID,
+  p_email TEXT,
+  p_role TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NOT public.has_org_role(p_organization_id, 'owner') THEN
+    RAISE EXCEPTION 'Only owners can add members';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM public.users
+  WHERE LOWER(email) = LOWER(p_email);
+
+  IF v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (p_organization_id, v_user_id, p_role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  RETURN v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_organization_members(p_organization_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, name TEXT, role TEXT, created_at TIMESTAMPTZ) AS $$
+  SELECT m.user_id, u.email::TEXT, u.name::TEXT, m.role, m.created_at
+  FROM public.organization_members m
+  JOIN public.users u ON u.id = m.user_id
+  WHERE m.organization_id = p_organization_id
+  AND public.has_org_role(p_organization_id, 'viewer')
+  ORDER BY m.created_at
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Scope shared data to an organization; NULL keeps a row personal
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.enhancements ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.usage_tracking ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.api_keys ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.webhook_configs ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.brand_kits ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- The per-user policies only check auth.uid() = user_id, which would let any
+-- member write org rows as themselves and keep access after leaving. Narrow
+-- them to personal rows so the org policies below are the only way in.
+DROP POLICY IF EXISTS "Users can view own enhancements" ON public.enhancements;
+DROP POLICY IF EXISTS "Users can create own enhancements" ON public.enhancements;
+DROP POLICY IF EXISTS "Users can update own enhancements" ON public.enhancements;
+DROP POLICY IF EXISTS "Users can delete own enhancements" ON public.enhancements;
+DROP POLICY IF EXISTS "Users can view own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can create own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can update own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can delete own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can view own brand kits" ON public.brand_kits;
+DROP POLICY IF EXISTS "Users can insert own brand kits" ON public.brand_kits;
+DROP POLICY IF EXISTS "Users can update own brand kits" ON public.brand_kits;
+DROP POLICY IF EXISTS "Users can delete own brand kits" ON public.brand_kits;
+
+-- documents and webhook_configs were created outside these migrations, so
+-- their owner-only policies are matched by expression rather than name
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN ('documents', 'webhook_configs')
+    AND COALESCE(qual, with_check) = '(auth.uid() = user_id)'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Users can view own documents" ON public.documents
+  FOR SELECT USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can create own documents" ON public.documents
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can update own documents" ON public.documents
+  FOR UPDATE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can delete own documents" ON public.documents
+  FOR DELETE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can view own enhancements" ON public.enhancements
+  FOR SELECT USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can create own enhancements" ON public.enhancements
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can update own enhancements" ON public.enhancements
+  FOR UPDATE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can delete own enhancements" ON public.enhancements
+  FOR DELETE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can create own API keys" ON public.api_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can update own API keys" ON public.api_keys
+  FOR UPDATE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can delete own API keys" ON public.api_keys
+  FOR DELETE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can manage own webhooks" ON public.webhook_configs
+  FOR ALL USING (auth.uid() = user_id AND organization_id IS NULL)
+  WITH CHECK (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can view own brand kits" ON public.brand_kits
+  FOR SELECT USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can insert own brand kits" ON public.brand_kits
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can update own brand kits" ON public.brand_kits
+  FOR UPDATE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+CREATE POLICY "Users can delete own brand kits" ON public.brand_kits
+  FOR DELETE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+-- Shared document library: viewers read, editors write, owners delete
+CREATE POLICY "Organization members can view documents" ON public.documents
+  FOR SELECT USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'viewer'));
+
+CREATE POLICY "Organization editors can create documents" ON public.documents
+  FOR INSERT WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization editors can update documents" ON public.documents
+  FOR UPDATE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization owners can delete documents" ON public.documents
+  FOR DELETE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'owner'));
+
+CREATE POLICY "Organization members can view enhancements" ON public.enhancements
+  FOR SELECT USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'viewer'));
+
+CREATE POLICY "Organization editors can create enhancements" ON public.enhancements
+  FOR INSERT WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization editors can update enhancements" ON public.enhancements
+  FOR UPDATE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization editors can delete enhancements" ON public.enhancements
+  FOR DELETE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+-- Version history follows the document: members see every version of a
+-- shared document, and editors may add versions (reverts) to it
+DROP POLICY IF EXISTS "Users can view own enhancement versions" ON public.enhancement_versions;
+DROP POLICY IF EXISTS "Users can insert own enhancement versions" ON public.enhancement_versions;
+
+CREATE POLICY "Users and organization members can view enhancement versions" ON public.enhancement_versions
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.documents d
+      WHERE d.id = document_id
+      AND d.organization_id IS NOT NULL
+      AND public.has_org_role(d.organization_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Owners and organization editors can insert enhancement versions" ON public.enhancement_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.documents d
+      WHERE d.id = document_id
+      AND (
+        (d.organization_id IS NULL AND d.user_id = auth.uid())
+        OR (d.organization_id IS NOT NULL AND public.has_org_role(d.organization_id, 'editor'))
+      )
+    )
+  );
+
+-- Shared brand kits: every member enhances with them, editors maintain them
+CREATE POLICY "Organization members can view brand kits" ON public.brand_kits
+  FOR SELECT USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'viewer'));
+
+CREATE POLICY "Organization editors can create brand kits" ON public.brand_kits
+  FOR INSERT WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization editors can update brand kits" ON public.brand_kits
+  FOR UPDATE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization editors can delete brand kits" ON public.brand_kits
+  FOR DELETE USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'editor'));
+
+CREATE POLICY "Organization members can view pooled usage" ON public.usage_tracking
+  FOR SELECT USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'viewer'));
+
+-- Org API keys and webhooks can call and receive on behalf of the whole team, so only owners manage them
+CREATE POLICY "Organization owners can manage API keys" ON public.api_keys
+  FOR ALL USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'owner'))
+  WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'owner'));
+
+CREATE POLICY "Organization owners can manage webhooks" ON public.webhook_configs
+  FOR ALL USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'owner'))
+  WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, 'owner'));
+
+-- Personal limits only count personal usage
+CREATE OR REPLACE FUNCTION public.check_usage_limit(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_tier subscription_tier;
+  v_monthly_credits INTEGER;
+  v_current_usage INTEGER;
+BEGIN
+  SELECT subscription_tier INTO v_tier
+  FROM public.users
+  WHERE id = p_user_id;
+
+  SELECT monthly_credits INTO v_monthly_credits
+  FROM public.subscription_limits
+  WHERE tier = v_tier;
+
+  SELECT COALESCE(SUM(credits_used), 0) INTO v_current_usage
+  FROM public.usage_tracking
+  WHERE user_id = p_user_id
+  AND organization_id IS NULL
+  AND created_at >= DATE_TRUNC('month', CURRENT_DATE);
+
+  RETURN v_current_usage < v_monthly_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.check_org_usage_limit(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_monthly_credits INTEGER;
+  v_current_usage INTEGER;
+BEGIN
+  SELECT monthly_credits INTO v_monthly_credits
+  FROM public.organizations
+  WHERE id = p_organization_id;
+
+  SELECT COALESCE(SUM(credits_used), 0) INTO v_current_usage
+  FROM public.usage_tracking
+  WHERE organization_id = p_organization_id
+  AND created_at >= DATE_TRUNC('month', CURRENT_DATE);
+
+  RETURN v_current_usage < v_monthly_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace rather than overload, so existing named-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS public.increment_usage(UUID, UUID, VARCHAR, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.increment_usage(
+  p_user_id UUID,
+  p_enhancement_id UUID DEFAULT NULL,
+  p_action VARCHAR DEFAULT 'enhancement',
+  p_credits INTEGER DEFAULT 1,
+  p_organization_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Only editors and owners may spend the pool
+  IF p_organization_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+    AND user_id = p_user_id
+    AND public.org_role_rank(role) >= public.org_role_rank('editor')
+  ) THEN
+    RAISE EXCEPTION 'User % cannot use credits of organization %', p_user_id, p_organization_id;
+  END IF;
+
+  INSERT INTO public.usage_tracking (user_id, enhancement_id, action, credits_used, organization_id)
+  VALUES (p_user_id, p_enhancement_id, p_action, p_credits, p_organization_id);
+
+  -- Pooled usage is not charged to the member's own balance
+  IF p_organization_id IS NULL THEN
+    UPDATE public.users
+    SET usage_count = usage_count + p_credits,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+CREATE INDEX idx_documents_organization_id ON public.documents(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX idx_enhancements_organization_id ON public.enhancements(organization_id, created_at DESC) WHERE organization_id IS NOT NULL;
+CREATE INDEX idx_usage_tracking_organization_month ON public.usage_tracking(organization_id, created_at) WHERE organization_id IS NOT NULL;
+CREATE INDEX idx_api_keys_organization_id ON public.api_keys(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX idx_webhook_configs_organization_id ON public.webhook_configs(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX idx_brand_kits_organization_id ON public.brand_kits(organization_id) WHERE organization_id IS NOT NULL;
+
+-- One default kit per workspace rather than per user
+DROP INDEX IF EXISTS public.idx_brand_kits_default;
+CREATE UNIQUE INDEX idx_brand_kits_default ON public.brand_kits(user_id) WHERE is_default AND organization_id IS NULL;
+CREATE UNIQUE INDEX idx_brand_kits_organization_default ON public.brand_kits(organization_id) WHERE is_default AND organization_id IS NOT NULL;
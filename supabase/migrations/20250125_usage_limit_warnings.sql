@@ -0,0 +1,23 @@
+-- Create usage_limit_warnings table so each usage threshold is only warned
+-- about once per billing cycle
+CREATE TABLE IF NOT EXISTS public.usage_limit_warnings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  cycle_start TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, threshold, cycle_start)
+);
+
+-- Enable RLS
+ALTER TABLE public.usage_limit_warnings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view own usage warnings" ON public.usage_limit_warnings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own usage warnings" ON public.usage_limit_warnings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_usage_limit_warnings_user_cycle ON public.usage_limit_warnings(user_id, cycle_start);
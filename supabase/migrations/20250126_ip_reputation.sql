@@ -0,0 +1,39 @@
+-- Create blocked_ips table for manual and automatic IP blocks
+CREATE TABLE IF NOT EXISTS public.blocked_ips (
+  ip TEXT PRIMARY KEY,
+  reason TEXT NOT NULL,
+  blocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  metadata JSONB DEFAULT '{}'::jsonb
+);
+
+-- Create security_events table for the events that feed IP reputation
+CREATE TABLE IF NOT EXISTS public.security_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  ip TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create ip_reputation table holding each IP's decaying score and offence count
+CREATE TABLE IF NOT EXISTS public.ip_reputation (
+  ip TEXT PRIMARY KEY,
+  score DOUBLE PRECISION NOT NULL DEFAULT 0,
+  offences DOUBLE PRECISION NOT NULL DEFAULT 0,
+  events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_blocked_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS; these tables are only read and written server-side through
+-- the service role client (lib/supabase/service.ts), which bypasses RLS, so
+-- no policies are granted to users
+ALTER TABLE public.blocked_ips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.security_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ip_reputation ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_blocked_ips_expires_at ON public.blocked_ips(expires_at);
+CREATE INDEX IF NOT EXISTS idx_security_events_ip_created ON public.security_events(ip, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ip_reputation_updated_at ON public.ip_reputation(updated_at);